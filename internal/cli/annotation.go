@@ -0,0 +1,132 @@
+package cli
+
+import (
+	"fmt"
+	"strings"
+
+	"github.com/howznguyen/knowns/internal/models"
+	"github.com/spf13/cobra"
+)
+
+var annotationCmd = &cobra.Command{
+	Use:   "annotation",
+	Short: "Review doc annotations",
+	Long:  "List, reply to and resolve the review annotations left on docs in the Web UI.",
+}
+
+var annotationListCmd = &cobra.Command{
+	Use:   "list",
+	Short: "List open annotations",
+	RunE:  runAnnotationList,
+}
+
+var annotationReplyCmd = &cobra.Command{
+	Use:   "reply <id> <text>",
+	Short: "Reply in an annotation's thread",
+	Args:  cobra.MinimumNArgs(2),
+	RunE:  runAnnotationReply,
+}
+
+var annotationResolveCmd = &cobra.Command{
+	Use:   "resolve <id>",
+	Short: "Resolve an annotation",
+	Args:  cobra.ExactArgs(1),
+	RunE:  runAnnotationResolve,
+}
+
+func runAnnotationList(cmd *cobra.Command, args []string) error {
+	store := getStore()
+	docPath, _ := cmd.Flags().GetString("doc")
+	all, _ := cmd.Flags().GetBool("all")
+	var annotations []*models.Annotation
+	var err error
+	if docPath != "" {
+		annotations, err = store.DocAnnotations(docPath)
+	} else {
+		annotations, err = store.AllAnnotations()
+	}
+	if err != nil {
+		return fmt.Errorf("list annotations: %w", err)
+	}
+	listed := []*models.Annotation{}
+	for _, annotation := range annotations {
+		if all || !annotation.Resolved {
+			listed = append(listed, annotation)
+		}
+	}
+	if isJSON(cmd) {
+		printJSON(listed)
+		return nil
+	}
+	var b strings.Builder
+	for _, annotation := range listed {
+		state := "open"
+		if annotation.Resolved {
+			state = "resolved"
+		}
+		if annotation.Orphaned {
+			state += ", orphaned"
+		}
+		fmt.Fprintf(&b, "ANNOTATION: %s [%s]\n", annotation.ID, state)
+		fmt.Fprintf(&b, "  DOC: %s:%d\n", annotation.DocPath, annotation.StartLine)
+		fmt.Fprintf(&b, "  TEXT: %q\n", annotation.SelectedText)
+		fmt.Fprintf(&b, "  %s (%s): %s\n", strings.ToUpper(annotation.Type), annotation.Author, annotation.Content)
+		for _, reply := range annotation.Replies {
+			fmt.Fprintf(&b, "    ↳ %s: %s\n", reply.Author, reply.Content)
+		}
+		fmt.Fprintln(&b)
+	}
+	if b.Len() == 0 {
+		fmt.Fprintln(&b, "No annotations found")
+	}
+	printPaged(cmd, b.String())
+	return nil
+}
+
+func runAnnotationReply(cmd *cobra.Command, args []string) error {
+	store := getStore()
+	if _, err := store.Annotations.Get(args[0]); err != nil {
+		return err
+	}
+	annotation, err := store.Annotations.Reply(args[0], cliLifecycleActor(), unescapeText(strings.Join(args[1:], " ")))
+	if err != nil {
+		return fmt.Errorf("reply to annotation: %w", err)
+	}
+	if isJSON(cmd) {
+		printJSON(annotation)
+		return nil
+	}
+	fmt.Println(RenderSuccess(fmt.Sprintf("Replied to annotation %s on %s", annotation.ID, annotation.DocPath)))
+	return nil
+}
+
+func runAnnotationResolve(cmd *cobra.Command, args []string) error {
+	store := getStore()
+	reopen, _ := cmd.Flags().GetBool("reopen")
+	annotation, err := store.Annotations.SetResolved(args[0], !reopen, cliLifecycleActor())
+	if err != nil {
+		return err
+	}
+	if isJSON(cmd) {
+		printJSON(annotation)
+		return nil
+	}
+	verb := "Resolved"
+	if reopen {
+		verb = "Reopened"
+	}
+	fmt.Println(RenderSuccess(fmt.Sprintf("%s annotation %s on %s", verb, annotation.ID, annotation.DocPath)))
+	return nil
+}
+
+func init() {
+	annotationListCmd.Flags().String("doc", "", "Only list annotations on this doc")
+	annotationListCmd.Flags().Bool("all", false, "Include resolved annotations")
+	annotationResolveCmd.Flags().Bool("reopen", false, "Reopen a resolved annotation")
+
+	annotationCmd.AddCommand(annotationListCmd)
+	annotationCmd.AddCommand(annotationReplyCmd)
+	annotationCmd.AddCommand(annotationResolveCmd)
+
+	rootCmd.AddCommand(annotationCmd)
+}
@@ -375,26 +375,21 @@ func runDocEdit(cmd *cobra.Command, args []string) error {
 
 	doc.UpdatedAt = time.Now()
 
+	revision := storage.DocRevisionOptions{Section: targetSection, Actor: "cli", Source: "cli"}
 	if oldPath != doc.Path {
-		if err := store.Docs.Rename(oldPath, doc); err != nil {
+		if _, err := store.RenameDoc(oldPath, doc, revision); err != nil {
 			return fmt.Errorf("rename doc: %w", err)
 		}
-		if err := store.Docs.RewriteDocReferences(oldPath, doc.Path, store.Tasks, store.Memory); err != nil {
-			return fmt.Errorf("rewrite doc refs: %w", err)
-		}
 		search.BestEffortRemoveDoc(store, oldPath)
-	} else if err := store.Docs.Update(doc); err != nil {
-		return fmt.Errorf("update doc: %w", err)
-	}
-
-	search.BestEffortIndexDoc(store, doc.Path)
-
-	if err := store.Versions.SaveDocRevisionWithOptions(&oldDoc, doc, storage.DocRevisionOptions{
-		Section: targetSection,
-		Actor:   "cli",
-		Source:  "cli",
-	}); err != nil {
-		return fmt.Errorf("save doc history: %w", err)
+		search.BestEffortIndexDoc(store, doc.Path)
+	} else {
+		if err := store.Docs.Update(doc); err != nil {
+			return fmt.Errorf("update doc: %w", err)
+		}
+		search.BestEffortIndexDoc(store, doc.Path)
+		if err := store.Versions.SaveDocRevisionWithOptions(&oldDoc, doc, revision); err != nil {
+			return fmt.Errorf("save doc history: %w", err)
+		}
 	}
 
 	fmt.Println(RenderSuccess(fmt.Sprintf("Updated doc: %s", doc.Path)))
@@ -436,6 +431,7 @@ var docDeleteCmd = &cobra.Command{
 			return fmt.Errorf("delete doc: %w", err)
 		}
 		search.BestEffortRemoveDoc(store, args[0])
+		_ = store.Annotations.DeleteDoc(doc.Path)
 		fmt.Println(RenderSuccess(fmt.Sprintf("Deleted doc: %s", doc.Path)))
 		return nil
 	},
@@ -2,13 +2,16 @@ package cli
 
 import (
 	"fmt"
+	"os"
 	"sort"
 	"strings"
 	"time"
 
+	"github.com/howznguyen/knowns/internal/memorybundle"
 	"github.com/howznguyen/knowns/internal/memoryreview"
 	"github.com/howznguyen/knowns/internal/models"
 	"github.com/howznguyen/knowns/internal/search"
+	"github.com/howznguyen/knowns/internal/storage"
 	"github.com/spf13/cobra"
 )
 
@@ -374,9 +377,9 @@ func runMemoryCreate(cmd *cobra.Command, args []string) error {
 	var result *memoryreview.Result
 	var err error
 	if createAnyway {
-		result, err = svc.Add(entry, memoryreview.AddOptions{SkipReview: true, Status: firstNonEmpty(status, models.MemoryStatusProposed)})
+		result, err = svc.Add(entry, memoryreview.AddOptions{SkipReview: true, Status: firstNonEmpty(status, models.MemoryStatusProposed), Actor: "cli", Source: "cli"})
 	} else {
-		result, err = svc.Add(entry, memoryreview.AddOptions{Status: status})
+		result, err = svc.Add(entry, memoryreview.AddOptions{Status: status, Actor: "cli", Source: "cli"})
 	}
 	if err != nil {
 		return fmt.Errorf("create memory: %w", err)
@@ -480,7 +483,7 @@ func runMemoryEdit(cmd *cobra.Command, args []string) error {
 
 	entry.UpdatedAt = time.Now().UTC()
 
-	if err := store.Memory.Update(entry); err != nil {
+	if err := store.Memory.UpdateWithRevision(entry, storage.MemoryRevisionOptions{Actor: "cli", Source: "cli"}); err != nil {
 		return fmt.Errorf("update memory: %w", err)
 	}
 
@@ -570,6 +573,202 @@ var memoryDemoteCmd = &cobra.Command{
 	},
 }
 
+// --- memory history ---
+
+var memoryHistoryCmd = &cobra.Command{
+	Use:   "history <id>",
+	Short: "Show revision history of a memory entry",
+	Args:  cobra.ExactArgs(1),
+	RunE: func(cmd *cobra.Command, args []string) error {
+		store := getStore()
+		history, err := store.Memory.GetHistory(args[0])
+		if err != nil {
+			return fmt.Errorf("get memory history: %w", err)
+		}
+
+		if isJSON(cmd) {
+			printJSON(history)
+			return nil
+		}
+		if len(history.Versions) == 0 {
+			fmt.Println(StyleDim.Render(fmt.Sprintf("No revision history for memory %s", args[0])))
+			return nil
+		}
+		printPaged(cmd, renderPlainMemoryHistory(history))
+		return nil
+	},
+}
+
+// --- memory restore ---
+
+var memoryRestoreCmd = &cobra.Command{
+	Use:   "restore <id> <revision>",
+	Short: "Restore a memory entry to an earlier revision",
+	Args:  cobra.ExactArgs(2),
+	RunE: func(cmd *cobra.Command, args []string) error {
+		store := getStore()
+		entry, err := store.Memory.Restore(args[0], args[1], storage.MemoryRevisionOptions{Actor: "cli", Source: "cli"})
+		if err != nil {
+			return fmt.Errorf("restore memory: %w", err)
+		}
+		search.BestEffortIndexMemory(store, entry.ID)
+
+		if isJSON(cmd) {
+			printJSON(entry)
+			return nil
+		}
+		fmt.Println(RenderSuccess(fmt.Sprintf("Restored memory %s to %s", entry.ID, args[1])))
+		return nil
+	},
+}
+
+// --- memory export ---
+
+var memoryExportCmd = &cobra.Command{
+	Use:   "export",
+	Short: "Export memories and decisions as a JSONL or markdown bundle",
+	Args:  cobra.NoArgs,
+	RunE: func(cmd *cobra.Command, args []string) error {
+		store := getStore()
+		output, _ := cmd.Flags().GetString("output")
+		format, _ := cmd.Flags().GetString("format")
+		if format == "" {
+			format = memorybundle.FormatForPath(output)
+		}
+		if !memorybundle.ValidFormat(format) {
+			return fmt.Errorf("invalid bundle format: %q (use jsonl or markdown)", format)
+		}
+
+		records, err := memorybundle.Export(store, memoryBundleFilter(cmd))
+		if err != nil {
+			return fmt.Errorf("export memories: %w", err)
+		}
+		if output == "" {
+			return memorybundle.Write(os.Stdout, records, format)
+		}
+		file, err := os.Create(output)
+		if err != nil {
+			return fmt.Errorf("create bundle: %w", err)
+		}
+		defer file.Close()
+		if err := memorybundle.Write(file, records, format); err != nil {
+			return fmt.Errorf("write bundle: %w", err)
+		}
+		fmt.Fprintln(os.Stderr, RenderSuccess(fmt.Sprintf("Exported %d entries to %s", len(records), output)))
+		return nil
+	},
+}
+
+// --- memory import ---
+
+var memoryImportCmd = &cobra.Command{
+	Use:   "import <file>",
+	Short: "Import memories and decisions from a bundle, with duplicate review",
+	Args:  cobra.ExactArgs(1),
+	RunE: func(cmd *cobra.Command, args []string) error {
+		store := getStore()
+		format, _ := cmd.Flags().GetString("format")
+		layer, _ := cmd.Flags().GetString("into")
+		onDuplicate, _ := cmd.Flags().GetString("on-duplicate")
+		if format == "" {
+			format = memorybundle.FormatForPath(args[0])
+		}
+
+		file, err := os.Open(args[0])
+		if err != nil {
+			return fmt.Errorf("open bundle: %w", err)
+		}
+		defer file.Close()
+		records, err := memorybundle.Read(file, format)
+		if err != nil {
+			return fmt.Errorf("read bundle: %w", err)
+		}
+		report, err := memorybundle.Import(store, records, memorybundle.ImportOptions{
+			Filter:      memoryBundleFilter(cmd),
+			Layer:       layer,
+			OnDuplicate: onDuplicate,
+			Actor:       "cli",
+			Source:      "import",
+		})
+		if err != nil {
+			return fmt.Errorf("import bundle: %w", err)
+		}
+		for _, id := range report.ChangedMemoryIDs {
+			search.BestEffortIndexMemory(store, id)
+		}
+		for _, id := range report.CreatedDecisionIDs() {
+			search.BestEffortIndexDecision(store, id)
+		}
+
+		if isJSON(cmd) {
+			printJSON(report)
+			return nil
+		}
+		fmt.Print(renderMemoryImportReport(report))
+		return nil
+	},
+}
+
+func memoryBundleFilter(cmd *cobra.Command) memorybundle.Filter {
+	kind, _ := cmd.Flags().GetString("kind")
+	layer, _ := cmd.Flags().GetString("layer")
+	tags, _ := cmd.Flags().GetStringArray("tag")
+	category, _ := cmd.Flags().GetString("category")
+	status, _ := cmd.Flags().GetString("status")
+	return memorybundle.Filter{Kind: kind, Layer: layer, Tags: tags, Category: category, Status: status}
+}
+
+func renderMemoryImportReport(report *memorybundle.ImportReport) string {
+	var b strings.Builder
+	fmt.Fprintf(&b, "CREATED: %d\n", report.Created)
+	fmt.Fprintf(&b, "MERGED: %d\n", report.Merged)
+	fmt.Fprintf(&b, "UPDATED: %d\n", report.Updated)
+	fmt.Fprintf(&b, "SKIPPED: %d\n", report.Skipped)
+	fmt.Fprintf(&b, "FAILED: %d\n", report.Failed)
+	for _, item := range report.Items {
+		line := fmt.Sprintf("  %s %s %s", strings.ToUpper(item.Outcome), item.Kind, firstNonEmpty(item.ID, item.Title))
+		if item.TargetID != "" && item.TargetID != item.ID {
+			line += " -> " + item.TargetID
+		}
+		if item.Reason != "" {
+			line += " (" + item.Reason + ")"
+		}
+		fmt.Fprintln(&b, line)
+	}
+	return b.String()
+}
+
+func renderPlainMemoryHistory(history *models.MemoryVersionHistory) string {
+	var b strings.Builder
+	fmt.Fprintf(&b, "MEMORY: %s\n", history.MemoryID)
+	fmt.Fprintf(&b, "VERSIONS: %d\n\n", history.CurrentVersion)
+	for _, v := range history.Versions {
+		fmt.Fprintf(&b, "VERSION: %s\n", v.ID)
+		fmt.Fprintf(&b, "TIMESTAMP: %s\n", v.Timestamp.Format(time.RFC3339))
+		fmt.Fprintf(&b, "CHECKPOINT: %t\n", v.Checkpoint)
+		if v.Actor != "" {
+			fmt.Fprintf(&b, "ACTOR: %s\n", v.Actor)
+		}
+		if v.Source != "" {
+			fmt.Fprintf(&b, "SOURCE: %s\n", v.Source)
+		}
+		if v.Resolution != "" {
+			fmt.Fprintf(&b, "RESOLUTION: %s\n", v.Resolution)
+		}
+		if len(v.Related) > 0 {
+			fmt.Fprintf(&b, "RELATED: %s\n", strings.Join(v.Related, ", "))
+		}
+		if v.RestoredFrom != "" {
+			fmt.Fprintf(&b, "RESTORED_FROM: %s\n", v.RestoredFrom)
+		}
+		for _, ch := range v.Changes {
+			fmt.Fprintf(&b, "  CHANGE: %s: %v -> %v\n", ch.Field, ch.OldValue, ch.NewValue)
+		}
+		fmt.Fprintln(&b)
+	}
+	return b.String()
+}
+
 // ---- render helpers ----
 
 func renderMemoryList(entries []*models.MemoryEntry) string {
@@ -653,6 +852,18 @@ func init() {
 	memoryDeleteCmd.Flags().Bool("dry-run", false, "Preview what would be deleted")
 	memoryDeleteCmd.Flags().Bool("force", false, "Skip confirmation prompt")
 
+	for _, cmd := range []*cobra.Command{memoryExportCmd, memoryImportCmd} {
+		cmd.Flags().String("format", "", "Bundle format: jsonl or markdown (default: from the file extension, else jsonl)")
+		cmd.Flags().String("kind", "", "Only memories or decisions (memory, decision)")
+		cmd.Flags().String("layer", "", "Only memories in this layer (project, global)")
+		cmd.Flags().StringArray("tag", nil, "Only entries with this tag (repeatable)")
+		cmd.Flags().String("category", "", "Only memories in this category; decisions match \"decision\"")
+		cmd.Flags().String("status", "", "Only entries with this status")
+	}
+	memoryExportCmd.Flags().StringP("output", "o", "", "Write the bundle to a file instead of stdout")
+	memoryImportCmd.Flags().String("into", "", "Import every memory into this layer (project, global)")
+	memoryImportCmd.Flags().String("on-duplicate", memorybundle.OnDuplicateMerge, "When review finds a similar entry: merge, skip or propose")
+
 	memoryCmd.AddCommand(memoryListCmd)
 	memoryCmd.AddCommand(memoryCleanupCmd)
 	memoryCmd.AddCommand(memoryViewCmd)
@@ -661,6 +872,10 @@ func init() {
 	memoryCmd.AddCommand(memoryDeleteCmd)
 	memoryCmd.AddCommand(memoryPromoteCmd)
 	memoryCmd.AddCommand(memoryDemoteCmd)
+	memoryCmd.AddCommand(memoryHistoryCmd)
+	memoryCmd.AddCommand(memoryRestoreCmd)
+	memoryCmd.AddCommand(memoryExportCmd)
+	memoryCmd.AddCommand(memoryImportCmd)
 
 	rootCmd.AddCommand(memoryCmd)
 }
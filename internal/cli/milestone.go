@@ -0,0 +1,150 @@
+package cli
+
+import (
+	"fmt"
+	"strings"
+
+	"github.com/howznguyen/knowns/internal/models"
+	"github.com/spf13/cobra"
+)
+
+var milestoneCmd = &cobra.Command{
+	Use:   "milestone",
+	Short: "Manage milestones (sprints)",
+	Long:  "Create, list, and view time-boxed milestones. Assign tasks with `knowns task edit <id> --milestone <milestone-id>`.",
+	Args:  cobra.ArbitraryArgs,
+	RunE: func(cmd *cobra.Command, args []string) error {
+		if len(args) == 0 {
+			return cmd.Help()
+		}
+		return runMilestoneGet(cmd, args[0])
+	},
+}
+
+var milestoneCreateCmd = &cobra.Command{
+	Use:   "create <name>",
+	Short: "Create a milestone",
+	Args:  cobra.MinimumNArgs(1),
+	RunE:  runMilestoneCreate,
+}
+
+var milestoneListCmd = &cobra.Command{
+	Use:   "list",
+	Short: "List milestones",
+	RunE:  runMilestoneList,
+}
+
+var milestoneGetCmd = &cobra.Command{
+	Use:   "get <id>",
+	Short: "View a milestone and its tasks",
+	Args:  cobra.ExactArgs(1),
+	RunE: func(cmd *cobra.Command, args []string) error {
+		return runMilestoneGet(cmd, args[0])
+	},
+}
+
+func runMilestoneCreate(cmd *cobra.Command, args []string) error {
+	store := getStore()
+	start, _ := cmd.Flags().GetString("start")
+	end, _ := cmd.Flags().GetString("end")
+	goal, _ := cmd.Flags().GetString("goal")
+	milestone := &models.Milestone{
+		Name:      strings.Join(args, " "),
+		StartDate: start,
+		EndDate:   end,
+		Goal:      unescapeText(goal),
+	}
+	if err := store.Milestones.Create(milestone); err != nil {
+		return fmt.Errorf("create milestone: %w", err)
+	}
+	if isJSON(cmd) {
+		printJSON(milestone)
+		return nil
+	}
+	fmt.Println(RenderSuccess(fmt.Sprintf("Created milestone: %s (%s, %s → %s)", milestone.ID, milestone.Name, milestone.StartDate, milestone.EndDate)))
+	return nil
+}
+
+func runMilestoneList(cmd *cobra.Command, args []string) error {
+	store := getStore()
+	milestones, err := store.Milestones.List()
+	if err != nil {
+		return fmt.Errorf("list milestones: %w", err)
+	}
+	if isJSON(cmd) {
+		if milestones == nil {
+			milestones = []*models.Milestone{}
+		}
+		printJSON(milestones)
+		return nil
+	}
+	var b strings.Builder
+	for _, milestone := range milestones {
+		fmt.Fprintf(&b, "MILESTONE: %s\n", milestone.ID)
+		fmt.Fprintf(&b, "  NAME: %s\n", milestone.Name)
+		fmt.Fprintf(&b, "  DATES: %s → %s\n", milestone.StartDate, milestone.EndDate)
+		fmt.Fprintln(&b)
+	}
+	if b.Len() == 0 {
+		fmt.Fprintln(&b, "No milestones found")
+	}
+	printPaged(cmd, b.String())
+	return nil
+}
+
+func runMilestoneGet(cmd *cobra.Command, id string) error {
+	store := getStore()
+	milestone, err := store.Milestones.Get(id)
+	if err != nil {
+		return fmt.Errorf("milestone %q not found", id)
+	}
+	tasks, err := store.Tasks.List()
+	if err != nil {
+		return fmt.Errorf("list tasks: %w", err)
+	}
+	var planned []*models.Task
+	for _, task := range tasks {
+		if task.Milestone == milestone.ID {
+			planned = append(planned, task)
+		}
+	}
+	if isJSON(cmd) {
+		if planned == nil {
+			planned = []*models.Task{}
+		}
+		printJSON(map[string]any{"milestone": milestone, "tasks": planned})
+		return nil
+	}
+
+	var b strings.Builder
+	fmt.Fprintf(&b, "MILESTONE: %s\n", milestone.ID)
+	fmt.Fprintf(&b, "NAME: %s\n", milestone.Name)
+	fmt.Fprintf(&b, "DATES: %s → %s\n", milestone.StartDate, milestone.EndDate)
+	if milestone.Goal != "" {
+		fmt.Fprintf(&b, "GOAL:\n%s\n", milestone.Goal)
+	}
+	done := 0
+	for _, task := range planned {
+		if task.Status == "done" {
+			done++
+		}
+	}
+	fmt.Fprintf(&b, "TASKS: %d/%d done\n", done, len(planned))
+	for _, task := range planned {
+		fmt.Fprintf(&b, "  %s [%s] %s\n", task.ID, task.Status, task.Title)
+	}
+	printPaged(cmd, b.String())
+	return nil
+}
+
+func init() {
+	milestoneCreateCmd.Flags().String("start", "", "Start date (YYYY-MM-DD)")
+	milestoneCreateCmd.Flags().String("end", "", "End date, inclusive (YYYY-MM-DD)")
+	milestoneCreateCmd.Flags().String("goal", "", "Milestone goal")
+
+	milestoneCmd.AddCommand(milestoneCreateCmd)
+	milestoneCmd.AddCommand(milestoneListCmd)
+	milestoneCmd.AddCommand(milestoneGetCmd)
+
+	rootCmd.AddCommand(milestoneCmd)
+}
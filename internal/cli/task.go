@@ -53,6 +53,9 @@ func runTaskCreate(cmd *cobra.Command, args []string) error {
 	fulfills, _ := cmd.Flags().GetStringArray("fulfills")
 	plan, _ := cmd.Flags().GetString("plan")
 	notes, _ := cmd.Flags().GetString("notes")
+	startDate, _ := cmd.Flags().GetString("start-date")
+	dueDate, _ := cmd.Flags().GetString("due-date")
+	milestone, _ := cmd.Flags().GetString("milestone")
 
 	description = unescapeText(description)
 	plan = unescapeText(plan)
@@ -88,10 +91,19 @@ func runTaskCreate(cmd *cobra.Command, args []string) error {
 		Fulfills:            fulfills,
 		ImplementationPlan:  plan,
 		ImplementationNotes: notes,
+		StartDate:           startDate,
+		DueDate:             dueDate,
+		Milestone:           milestone,
 		CreatedAt:           now,
 		UpdatedAt:           now,
 	}
-	if status == "done" {
+	if err := tasklifecycle.ValidateSchedule(task); err != nil {
+		return err
+	}
+	if err := tasklifecycle.ValidateMilestone(task, store.Milestones.Exists); err != nil {
+		return err
+	}
+	if status == "done" || status == "in-progress" {
 		task.Status = "todo"
 		tasklifecycle.ApplyStatusTransition(task, status, now)
 	}
@@ -103,7 +115,7 @@ func runTaskCreate(cmd *cobra.Command, args []string) error {
 		})
 	}
 
-	if err := store.Tasks.Create(task); err != nil {
+	if err := newCLITaskLifecycleService(store).CreateTask(cmd.Context(), task); err != nil {
 		return fmt.Errorf("create task: %w", err)
 	}
 
@@ -338,6 +350,22 @@ func runTaskEdit(cmd *cobra.Command, args []string) error {
 			fulfills, _ := cmd.Flags().GetStringArray("fulfills")
 			task.Fulfills = fulfills
 		}
+		if cmd.Flags().Changed("depends-on") {
+			v, _ := cmd.Flags().GetString("depends-on")
+			task.DependsOn = splitCSV(v)
+		}
+		if cmd.Flags().Changed("start-date") {
+			v, _ := cmd.Flags().GetString("start-date")
+			task.StartDate = v
+		}
+		if cmd.Flags().Changed("due-date") {
+			v, _ := cmd.Flags().GetString("due-date")
+			task.DueDate = v
+		}
+		if cmd.Flags().Changed("milestone") {
+			v, _ := cmd.Flags().GetString("milestone")
+			task.Milestone = v
+		}
 		if cmd.Flags().Changed("order") {
 			v, _ := cmd.Flags().GetInt("order")
 			task.Order = &v
@@ -405,6 +433,13 @@ func runTaskEdit(cmd *cobra.Command, args []string) error {
 	}
 
 	fmt.Println(RenderSuccess(fmt.Sprintf("Updated task %s", task.ID)))
+	if task.Status == "in-progress" && cmd.Flags().Changed("status") {
+		if tasks, err := store.Tasks.List(); err == nil {
+			if open := tasklifecycle.OpenDependencies(task, tasks); len(open) > 0 {
+				fmt.Println(RenderWarning(fmt.Sprintf("Started while dependencies are still open: %s", joinStrings(open, ", "))))
+			}
+		}
+	}
 	return nil
 }
 
@@ -729,6 +764,18 @@ func sprintTaskPlain(t *models.Task) string {
 	if len(t.Subtasks) > 0 {
 		fmt.Fprintf(&b, "SUBTASKS: %s\n", joinStrings(t.Subtasks, ", "))
 	}
+	if len(t.DependsOn) > 0 {
+		fmt.Fprintf(&b, "DEPENDS ON: %s\n", joinStrings(t.DependsOn, ", "))
+	}
+	if t.StartDate != "" {
+		fmt.Fprintf(&b, "START DATE: %s\n", t.StartDate)
+	}
+	if t.DueDate != "" {
+		fmt.Fprintf(&b, "DUE DATE: %s\n", t.DueDate)
+	}
+	if t.Milestone != "" {
+		fmt.Fprintf(&b, "MILESTONE: %s\n", t.Milestone)
+	}
 	return b.String()
 }
 
@@ -786,6 +833,18 @@ func renderTaskDetailed(t *models.Task) string {
 	if len(t.Subtasks) > 0 {
 		fmt.Fprintln(&b, RenderKeyValue("Subtasks", joinStrings(t.Subtasks, ", ")))
 	}
+	if len(t.DependsOn) > 0 {
+		fmt.Fprintln(&b, RenderKeyValue("Depends on", joinStrings(t.DependsOn, ", ")))
+	}
+	if t.StartDate != "" {
+		fmt.Fprintln(&b, RenderKeyValue("Start date", t.StartDate))
+	}
+	if t.DueDate != "" {
+		fmt.Fprintln(&b, RenderKeyValue("Due date", t.DueDate))
+	}
+	if t.Milestone != "" {
+		fmt.Fprintln(&b, RenderKeyValue("Milestone", t.Milestone))
+	}
 	return b.String()
 }
 
@@ -932,6 +991,9 @@ func init() {
 	taskCreateCmd.Flags().StringArray("fulfills", nil, "Spec AC this task fulfills (repeatable)")
 	taskCreateCmd.Flags().String("plan", "", "Implementation plan")
 	taskCreateCmd.Flags().String("notes", "", "Implementation notes")
+	taskCreateCmd.Flags().String("start-date", "", "Planned start date (YYYY-MM-DD)")
+	taskCreateCmd.Flags().String("due-date", "", "Due date (YYYY-MM-DD)")
+	taskCreateCmd.Flags().String("milestone", "", "Milestone (sprint) ID")
 
 	// task list flags
 	taskListCmd.Flags().String("status", "", "Filter by status")
@@ -957,6 +1019,10 @@ func init() {
 	taskEditCmd.Flags().String("spec", "", "Linked spec document path")
 	taskEditCmd.Flags().String("parent", "", "Parent task ID")
 	taskEditCmd.Flags().StringArray("fulfills", nil, "Spec ACs this task fulfills (repeatable)")
+	taskEditCmd.Flags().String("depends-on", "", "Task IDs this task depends on (comma-separated, replaces existing)")
+	taskEditCmd.Flags().String("start-date", "", "Planned start date (YYYY-MM-DD, empty clears)")
+	taskEditCmd.Flags().String("due-date", "", "Due date (YYYY-MM-DD, empty clears)")
+	taskEditCmd.Flags().String("milestone", "", "Milestone (sprint) ID (empty clears)")
 	taskEditCmd.Flags().Int("order", 0, "Display order (lower = first)")
 
 	// task delete flags
@@ -8,6 +8,8 @@ import (
 
 	"github.com/howznguyen/knowns/internal/codegen"
 	"github.com/howznguyen/knowns/internal/models"
+	"github.com/howznguyen/knowns/internal/search"
+	"github.com/howznguyen/knowns/internal/storage"
 	"github.com/spf13/cobra"
 )
 
@@ -193,6 +195,10 @@ func runTemplateRun(cmd *cobra.Command, args []string) error {
 		vars[v[:idx]] = v[idx+1:]
 	}
 
+	if tmpl.Document != nil {
+		return runDocTemplate(cmd, store, tmpl, vars, dryRun)
+	}
+
 	// Validate required prompts have values provided.
 	for _, p := range tmpl.Prompts {
 		if p.Validate == "required" {
@@ -265,6 +271,63 @@ func runTemplateRun(cmd *cobra.Command, args []string) error {
 	return nil
 }
 
+// runDocTemplate creates the doc (and seeded tasks) a doc template renders.
+func runDocTemplate(cmd *cobra.Command, store *storage.Store, tmpl *models.Template, vars map[string]string, dryRun bool) error {
+	noTasks, _ := cmd.Flags().GetBool("no-tasks")
+
+	vars, err := codegen.ResolveVars(tmpl, vars)
+	if err != nil {
+		return fmt.Errorf("%w (use -v <name>=<value>)", err)
+	}
+	rendered, err := codegen.NewEngine(filepath.Dir(store.Root)).RenderDocument(tmpl, vars)
+	if err != nil {
+		return fmt.Errorf("run template: %w", err)
+	}
+	if noTasks {
+		rendered.Tasks = []models.TemplateDocumentTask{}
+	}
+
+	if dryRun {
+		if isJSON(cmd) {
+			printJSON(rendered)
+			return nil
+		}
+		fmt.Println(StyleWarning.Render("Dry run") + StyleDim.Render(" — nothing was created."))
+		fmt.Println()
+		fmt.Printf("%s %s\n", StyleSuccess.Render("Doc:"), rendered.Path)
+		for _, task := range rendered.Tasks {
+			fmt.Printf("  %s %s\n", StyleSuccess.Render("+ task"), task.Title)
+		}
+		fmt.Println()
+		fmt.Println(rendered.Content)
+		return nil
+	}
+
+	doc, tasks, err := store.CreateDocFromTemplate(rendered, !noTasks, storage.DocRevisionOptions{
+		Actor:  "cli",
+		Source: "template",
+	})
+	if doc != nil {
+		search.BestEffortIndexDoc(store, doc.Path)
+	}
+	for _, task := range tasks {
+		search.BestEffortIndexTask(store, task.ID)
+	}
+	if err != nil {
+		return fmt.Errorf("create doc: %w", err)
+	}
+
+	if isJSON(cmd) {
+		printJSON(map[string]any{"doc": doc, "tasks": tasks})
+		return nil
+	}
+	fmt.Println(RenderSuccess(fmt.Sprintf("Created doc: %s", doc.Path)))
+	for _, task := range tasks {
+		fmt.Printf("  %s %s %s\n", StyleSuccess.Render("+"), task.ID, task.Title)
+	}
+	return nil
+}
+
 // --- template create ---
 
 var templateCreateCmd = &cobra.Command{
@@ -432,6 +495,7 @@ func init() {
 	// template run flags
 	templateRunCmd.Flags().Bool("dry-run", false, "Preview without writing files")
 	templateRunCmd.Flags().StringArrayP("var", "v", nil, "Template variable (key=value, repeatable)")
+	templateRunCmd.Flags().Bool("no-tasks", false, "Create only the doc of a doc template, without its seeded tasks")
 
 	// template create flags
 	templateCreateCmd.Flags().StringP("description", "d", "", "Template description")
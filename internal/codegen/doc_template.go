@@ -0,0 +1,132 @@
+package codegen
+
+import (
+	"fmt"
+	"strings"
+
+	"github.com/howznguyen/knowns/internal/models"
+)
+
+// ResolveVars returns vars completed with the template's prompt defaults;
+// optional prompts without a default resolve to "" so they never render as
+// "<no value>". It fails when a required prompt has neither a value nor a
+// default.
+func ResolveVars(tmpl *models.Template, vars map[string]string) (map[string]string, error) {
+	resolved := make(map[string]string, len(vars)+len(tmpl.Prompts))
+	for k, v := range vars {
+		resolved[k] = v
+	}
+	for _, p := range tmpl.Prompts {
+		if v, ok := resolved[p.Name]; ok && (v != "" || p.Validate != "required") {
+			continue
+		}
+		if p.Initial != "" {
+			resolved[p.Name] = p.Initial
+			continue
+		}
+		if p.Validate == "required" {
+			return nil, fmt.Errorf("required variable %q not provided", p.Name)
+		}
+		resolved[p.Name] = ""
+	}
+	return resolved, nil
+}
+
+// RenderDocument renders the doc a doc template creates. The rendered doc
+// path is exposed to the body and task templates as {{docPath}}, and tasks
+// whose when guard is falsy are left out.
+func (e *Engine) RenderDocument(tmpl *models.Template, vars map[string]string) (*models.RenderedTemplateDocument, error) {
+	spec := tmpl.Document
+	if spec == nil {
+		return nil, fmt.Errorf("template %q does not create a doc", tmpl.Name)
+	}
+
+	render := func(field, src string) (string, error) {
+		out, err := e.RenderString(src, vars)
+		if err != nil {
+			return "", fmt.Errorf("render document %s: %w", field, err)
+		}
+		return strings.TrimSpace(out), nil
+	}
+
+	out := &models.RenderedTemplateDocument{Tags: []string{}, Tasks: []models.TemplateDocumentTask{}}
+	var err error
+	if out.Title, err = render("title", spec.Title); err != nil {
+		return nil, err
+	}
+	if out.Description, err = render("description", spec.Description); err != nil {
+		return nil, err
+	}
+	if out.Path, err = render("path", spec.Path); err != nil {
+		return nil, err
+	}
+	out.Path = strings.Trim(strings.TrimSuffix(out.Path, ".md"), "/")
+	if out.Path == "" {
+		out.Path = KebabCase(out.Title)
+	}
+	if out.Path == "" {
+		return nil, fmt.Errorf("template %q renders an empty doc path", tmpl.Name)
+	}
+	for _, tag := range spec.Tags {
+		rendered, err := render("tag", tag)
+		if err != nil {
+			return nil, err
+		}
+		if rendered != "" {
+			out.Tags = append(out.Tags, rendered)
+		}
+	}
+
+	docVars := make(map[string]string, len(vars)+1)
+	for k, v := range vars {
+		docVars[k] = v
+	}
+	docVars["docPath"] = out.Path
+	vars = docVars
+
+	if out.Content, err = e.loadAndRenderTemplate(tmpl, spec.Content, vars); err != nil {
+		return nil, fmt.Errorf("render document content: %w", err)
+	}
+
+	for _, task := range spec.Tasks {
+		if task.When != "" {
+			ok, err := e.evalWhen(task.When, vars)
+			if err != nil {
+				return nil, fmt.Errorf("evaluate task when %q: %w", task.When, err)
+			}
+			if !ok {
+				continue
+			}
+		}
+		seeded := models.TemplateDocumentTask{Priority: task.Priority, Spec: task.Spec}
+		if seeded.Title, err = render("task title", task.Title); err != nil {
+			return nil, err
+		}
+		if seeded.Title == "" {
+			continue
+		}
+		if seeded.Description, err = render("task description", task.Description); err != nil {
+			return nil, err
+		}
+		for _, label := range task.Labels {
+			rendered, err := render("task label", label)
+			if err != nil {
+				return nil, err
+			}
+			if rendered != "" {
+				seeded.Labels = append(seeded.Labels, rendered)
+			}
+		}
+		for _, criterion := range task.AcceptanceCriteria {
+			rendered, err := render("acceptance criterion", criterion)
+			if err != nil {
+				return nil, err
+			}
+			if rendered != "" {
+				seeded.AcceptanceCriteria = append(seeded.AcceptanceCriteria, rendered)
+			}
+		}
+		out.Tasks = append(out.Tasks, seeded)
+	}
+	return out, nil
+}
@@ -0,0 +1,137 @@
+package collab
+
+import "strings"
+
+// MergeText turns an out-of-band edit of base into operations on d, so the
+// edit merges with concurrent changes instead of replacing them. baseIDs
+// holds the IDs of base's runes in d (deleted characters included). Changes
+// are found line by line; each changed line is deleted and re-inserted at its
+// place in base. The returned IDs are those of target's runes, for use as the
+// next base.
+func MergeText(d *Doc, c, base string, baseIDs []ID, target string) ([]Op, []ID) {
+	oldLines := strings.SplitAfter(base, "\n")
+	newLines := strings.SplitAfter(target, "\n")
+	oldLines = dropEmptyTail(oldLines)
+	newLines = dropEmptyTail(newLines)
+
+	var ops []Op
+	ids := make([]ID, 0, len(baseIDs))
+	offset := 0 // rune offset into base
+	var pending strings.Builder
+	var pendingAnchor *ID
+	flush := func() {
+		if pending.Len() == 0 {
+			return
+		}
+		op := d.InsertAfter(c, pendingAnchor, pending.String())
+		ops = append(ops, op)
+		for i := 0; i < len([]rune(pending.String())); i++ {
+			ids = append(ids, ID{C: op.ID.C, N: op.ID.N + i})
+		}
+		pending.Reset()
+	}
+	anchorAt := func(offset int) *ID {
+		if offset == 0 {
+			return nil
+		}
+		id := baseIDs[offset-1]
+		return &id
+	}
+
+	for _, edit := range diffLines(oldLines, newLines) {
+		switch edit.kind {
+		case lineKeep:
+			flush()
+			n := len([]rune(edit.line))
+			ids = append(ids, baseIDs[offset:offset+n]...)
+			offset += n
+		case lineDelete:
+			flush()
+			n := len([]rune(edit.line))
+			ops = append(ops, d.Delete(append([]ID(nil), baseIDs[offset:offset+n]...)))
+			offset += n
+		case lineInsert:
+			if pending.Len() == 0 {
+				pendingAnchor = anchorAt(offset)
+			}
+			pending.WriteString(edit.line)
+		}
+	}
+	flush()
+	return ops, ids
+}
+
+func dropEmptyTail(lines []string) []string {
+	if n := len(lines); n > 0 && lines[n-1] == "" {
+		return lines[:n-1]
+	}
+	return lines
+}
+
+type lineEditKind int
+
+const (
+	lineKeep lineEditKind = iota
+	lineDelete
+	lineInsert
+)
+
+type lineEdit struct {
+	kind lineEditKind
+	line string
+}
+
+// diffLines returns a shortest edit script from a to b using a longest
+// common subsequence over the lines between the common prefix and suffix.
+// Deletions come before insertions within a changed block.
+func diffLines(a, b []string) []lineEdit {
+	prefix := 0
+	for prefix < len(a) && prefix < len(b) && a[prefix] == b[prefix] {
+		prefix++
+	}
+	suffix := 0
+	for suffix < len(a)-prefix && suffix < len(b)-prefix && a[len(a)-1-suffix] == b[len(b)-1-suffix] {
+		suffix++
+	}
+	var edits []lineEdit
+	for _, line := range a[:prefix] {
+		edits = append(edits, lineEdit{lineKeep, line})
+	}
+
+	midA := a[prefix : len(a)-suffix]
+	midB := b[prefix : len(b)-suffix]
+	// lcs[i][j] is the LCS length of midA[i:] and midB[j:].
+	lcs := make([][]int, len(midA)+1)
+	for i := range lcs {
+		lcs[i] = make([]int, len(midB)+1)
+	}
+	for i := len(midA) - 1; i >= 0; i-- {
+		for j := len(midB) - 1; j >= 0; j-- {
+			if midA[i] == midB[j] {
+				lcs[i][j] = lcs[i+1][j+1] + 1
+			} else {
+				lcs[i][j] = max(lcs[i+1][j], lcs[i][j+1])
+			}
+		}
+	}
+	i, j := 0, 0
+	for i < len(midA) || j < len(midB) {
+		switch {
+		case i < len(midA) && j < len(midB) && midA[i] == midB[j]:
+			edits = append(edits, lineEdit{lineKeep, midA[i]})
+			i++
+			j++
+		case i < len(midA) && (j == len(midB) || lcs[i+1][j] >= lcs[i][j+1]):
+			edits = append(edits, lineEdit{lineDelete, midA[i]})
+			i++
+		default:
+			edits = append(edits, lineEdit{lineInsert, midB[j]})
+			j++
+		}
+	}
+
+	for _, line := range a[len(a)-suffix:] {
+		edits = append(edits, lineEdit{lineKeep, line})
+	}
+	return edits
+}
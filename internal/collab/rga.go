@@ -0,0 +1,262 @@
+// Package collab implements real-time co-editing of documents: a replicated
+// growable array (RGA) sequence CRDT, per-document editing sessions with
+// presence, and merging of out-of-band writes (CLI, MCP) into a live session.
+//
+// The server is the relay: clients apply their own operations locally, send
+// them to the server, and the server applies them to its replica and
+// broadcasts them to every other client in the order it applied them. The UI
+// carries a mirror of this CRDT in ui/src/lib/collab/rga.ts; the two must
+// integrate operations identically.
+package collab
+
+import (
+	"fmt"
+	"strings"
+)
+
+// ID identifies one character. N is a Lamport timestamp; a run of inserted
+// characters uses consecutive N values from the same client C.
+type ID struct {
+	C string `json:"c"`
+	N int    `json:"n"`
+}
+
+// after reports whether a sorts after b in RGA order: higher timestamp
+// first, ties broken by client ID.
+func (a ID) after(b ID) bool {
+	if a.N != b.N {
+		return a.N > b.N
+	}
+	return a.C > b.C
+}
+
+// Op is one CRDT operation. Insert places Text after the character After
+// (nil for the start of the document), giving its characters the IDs
+// {ID.C, ID.N}, {ID.C, ID.N+1}, …. Delete tombstones the characters in IDs.
+type Op struct {
+	Type  string `json:"type"`
+	ID    *ID    `json:"id,omitempty"`
+	After *ID    `json:"after,omitempty"`
+	Text  string `json:"text,omitempty"`
+	IDs   []ID   `json:"ids,omitempty"`
+}
+
+const (
+	OpInsert = "insert"
+	OpDelete = "delete"
+)
+
+type element struct {
+	id      ID
+	ch      rune
+	deleted bool
+}
+
+// Doc is an RGA replica. Characters are runes; deleted characters stay in
+// the sequence as tombstones so later operations can still refer to them.
+// Doc is not safe for concurrent use.
+type Doc struct {
+	elems []element
+	index map[ID]int
+	clock int
+}
+
+// NewDoc returns a replica holding text, with characters attributed to
+// client c.
+func NewDoc(c, text string) *Doc {
+	d := &Doc{index: map[ID]int{}}
+	if text != "" {
+		d.insertRun(nil, ID{C: c, N: 1}, text)
+	}
+	return d
+}
+
+// Clock returns the highest Lamport timestamp seen by the replica.
+func (d *Doc) Clock() int { return d.clock }
+
+// Text returns the visible document.
+func (d *Doc) Text() string {
+	var b strings.Builder
+	for _, e := range d.elems {
+		if !e.deleted {
+			b.WriteRune(e.ch)
+		}
+	}
+	return b.String()
+}
+
+// VisibleIDs returns the IDs of the visible characters, in order. The i-th ID
+// belongs to the i-th rune of Text().
+func (d *Doc) VisibleIDs() []ID {
+	ids := make([]ID, 0, len(d.elems))
+	for _, e := range d.elems {
+		if !e.deleted {
+			ids = append(ids, e.id)
+		}
+	}
+	return ids
+}
+
+// Apply integrates op. Operations are idempotent: inserting known IDs and
+// deleting tombstoned characters are no-ops.
+func (d *Doc) Apply(op Op) error {
+	switch op.Type {
+	case OpInsert:
+		if op.ID == nil || op.ID.C == "" || op.ID.N < 1 {
+			return fmt.Errorf("insert requires an id")
+		}
+		if op.After != nil {
+			if _, ok := d.index[*op.After]; !ok {
+				return fmt.Errorf("insert after unknown character %s:%d", op.After.C, op.After.N)
+			}
+		}
+		d.insertRun(op.After, *op.ID, op.Text)
+		return nil
+	case OpDelete:
+		for _, id := range op.IDs {
+			if i, ok := d.index[id]; ok {
+				d.elems[i].deleted = true
+			}
+		}
+		return nil
+	default:
+		return fmt.Errorf("unknown op type %q", op.Type)
+	}
+}
+
+// Check reports the error Apply would return for the first invalid operation
+// in ops, applied in order, without changing the replica. An insert may
+// follow a character inserted earlier in the same batch.
+func (d *Doc) Check(ops []Op) error {
+	batch := map[ID]bool{}
+	for _, op := range ops {
+		switch op.Type {
+		case OpInsert:
+			if op.ID == nil || op.ID.C == "" || op.ID.N < 1 {
+				return fmt.Errorf("insert requires an id")
+			}
+			if op.After != nil {
+				if _, ok := d.index[*op.After]; !ok && !batch[*op.After] {
+					return fmt.Errorf("insert after unknown character %s:%d", op.After.C, op.After.N)
+				}
+			}
+			for i := range []rune(op.Text) {
+				batch[ID{C: op.ID.C, N: op.ID.N + i}] = true
+			}
+		case OpDelete:
+		default:
+			return fmt.Errorf("unknown op type %q", op.Type)
+		}
+	}
+	return nil
+}
+
+// Insert creates and applies an insert of text at visible rune offset pos on
+// behalf of client c.
+func (d *Doc) Insert(c string, pos int, text string) Op {
+	var after *ID
+	if pos > 0 {
+		ids := d.VisibleIDs()
+		if pos > len(ids) {
+			pos = len(ids)
+		}
+		id := ids[pos-1]
+		after = &id
+	}
+	return d.InsertAfter(c, after, text)
+}
+
+// InsertAfter creates and applies an insert of text directly after the
+// character after (nil for the start of the document).
+func (d *Doc) InsertAfter(c string, after *ID, text string) Op {
+	op := Op{Type: OpInsert, ID: &ID{C: c, N: d.clock + 1}, After: after, Text: text}
+	d.insertRun(after, *op.ID, text)
+	return op
+}
+
+// Delete creates and applies a delete of the given characters.
+func (d *Doc) Delete(ids []ID) Op {
+	op := Op{Type: OpDelete, IDs: ids}
+	_ = d.Apply(op)
+	return op
+}
+
+func (d *Doc) insertRun(after *ID, first ID, text string) {
+	runes := []rune(text)
+	if len(runes) == 0 {
+		return
+	}
+	if _, ok := d.index[first]; ok {
+		// Replayed operation: integrate only characters not seen yet.
+		for i := range runes {
+			id := ID{C: first.C, N: first.N + i}
+			if _, ok := d.index[id]; !ok {
+				d.insertRun(&ID{C: first.C, N: first.N + i - 1}, id, string(runes[i:]))
+				return
+			}
+		}
+		return
+	}
+	pos := 0
+	if after != nil {
+		pos = d.index[*after] + 1
+	}
+	// Skip characters inserted at the same place by operations that sort
+	// later; with Lamport timestamps this also skips their descendants. The
+	// rest of the run follows its first character directly.
+	for pos < len(d.elems) && d.elems[pos].id.after(first) {
+		pos++
+	}
+	run := make([]element, len(runes))
+	for i, ch := range runes {
+		run[i] = element{id: ID{C: first.C, N: first.N + i}, ch: ch}
+	}
+	d.elems = append(d.elems[:pos], append(run, d.elems[pos:]...)...)
+	for i := pos; i < len(d.elems); i++ {
+		d.index[d.elems[i].id] = i
+	}
+	if last := first.N + len(runes) - 1; last > d.clock {
+		d.clock = last
+	}
+}
+
+// Run is a stretch of characters with consecutive IDs from one client that
+// are either all visible or all deleted. Snapshots are lists of runs.
+type Run struct {
+	ID      ID     `json:"id"`
+	Text    string `json:"text"`
+	Deleted bool   `json:"deleted,omitempty"`
+}
+
+// Snapshot is the full replica state, tombstones included, sent to clients
+// joining a session.
+type Snapshot struct {
+	Runs  []Run `json:"runs"`
+	Clock int   `json:"clock"`
+}
+
+// Snapshot returns the replica state as runs.
+func (d *Doc) Snapshot() Snapshot {
+	snap := Snapshot{Runs: []Run{}, Clock: d.clock}
+	var cur *Run
+	var b strings.Builder
+	next := ID{}
+	flush := func() {
+		if cur != nil {
+			cur.Text = b.String()
+			snap.Runs = append(snap.Runs, *cur)
+			cur = nil
+			b.Reset()
+		}
+	}
+	for _, e := range d.elems {
+		if cur == nil || e.id != next || e.deleted != cur.Deleted {
+			flush()
+			cur = &Run{ID: e.id, Deleted: e.deleted}
+		}
+		b.WriteRune(e.ch)
+		next = ID{C: e.id.C, N: e.id.N + 1}
+	}
+	flush()
+	return snap
+}
@@ -0,0 +1,93 @@
+package collab
+
+import "testing"
+
+func TestDocConcurrentInsertsConverge(t *testing.T) {
+	a := NewDoc(BaseClientID, "ac")
+	b := NewDoc(BaseClientID, "ac")
+
+	// Both clients type at the same place before seeing each other's edit.
+	opA := a.Insert("alice", 1, "XY")
+	opB := b.Insert("bob", 1, "b")
+
+	if err := a.Apply(opB); err != nil {
+		t.Fatalf("a apply: %v", err)
+	}
+	if err := b.Apply(opA); err != nil {
+		t.Fatalf("b apply: %v", err)
+	}
+	if a.Text() != b.Text() {
+		t.Fatalf("replicas diverged: %q vs %q", a.Text(), b.Text())
+	}
+	if a.Text() != "abXYc" && a.Text() != "aXYbc" {
+		t.Fatalf("text = %q, want both inserts between a and c", a.Text())
+	}
+
+	// Replaying an operation is a no-op.
+	if err := a.Apply(opA); err != nil {
+		t.Fatalf("replay: %v", err)
+	}
+	if a.Text() != b.Text() {
+		t.Fatalf("replay changed text to %q", a.Text())
+	}
+}
+
+func TestDocDeleteAndInsertAfterTombstone(t *testing.T) {
+	a := NewDoc(BaseClientID, "hello")
+	b := NewDoc(BaseClientID, "hello")
+	ids := a.VisibleIDs()
+
+	del := a.Delete(ids[1:5]) // "h"
+	ins := b.Insert("bob", 5, "!")
+
+	if err := a.Apply(ins); err != nil {
+		t.Fatalf("insert after tombstone: %v", err)
+	}
+	if err := b.Apply(del); err != nil {
+		t.Fatalf("b apply delete: %v", err)
+	}
+	if a.Text() != "h!" || b.Text() != "h!" {
+		t.Fatalf("texts = %q, %q, want %q", a.Text(), b.Text(), "h!")
+	}
+}
+
+func TestDocSnapshotKeepsTombstones(t *testing.T) {
+	d := NewDoc(BaseClientID, "abc")
+	d.Delete(d.VisibleIDs()[1:2])
+	d.Insert("alice", 1, "Z")
+
+	snap := d.Snapshot()
+	if snap.Clock != d.Clock() {
+		t.Fatalf("clock = %d, want %d", snap.Clock, d.Clock())
+	}
+	var text, visible string
+	for _, run := range snap.Runs {
+		text += run.Text
+		if !run.Deleted {
+			visible += run.Text
+		}
+	}
+	if text != "aZbc" || visible != "aZc" || d.Text() != "aZc" {
+		t.Fatalf("runs = %+v", snap.Runs)
+	}
+}
+
+func TestMergeTextKeepsConcurrentEdits(t *testing.T) {
+	base := "# Spec\none\ntwo\nthree\n"
+	d := NewDoc(BaseClientID, base)
+	baseIDs := d.VisibleIDs()
+
+	// A live editor changes the first line while an agent rewrites "two" on
+	// disk.
+	d.Insert("alice", len("# Spec"), " v2")
+	ops, ids := MergeText(d, ServerClientID, base, baseIDs, "# Spec\none\nTWO\nthree\n")
+	if len(ops) == 0 {
+		t.Fatalf("expected merge ops")
+	}
+	if got, want := d.Text(), "# Spec v2\none\nTWO\nthree\n"; got != want {
+		t.Fatalf("merged text = %q, want %q", got, want)
+	}
+	if len(ids) != len([]rune("# Spec\none\nTWO\nthree\n")) {
+		t.Fatalf("len(ids) = %d", len(ids))
+	}
+}
@@ -0,0 +1,385 @@
+package collab
+
+import (
+	"crypto/rand"
+	"encoding/hex"
+	"errors"
+	"fmt"
+	"sort"
+	"strings"
+	"sync"
+	"time"
+)
+
+// PeerTTL is how long a peer stays present without a heartbeat.
+const PeerTTL = 45 * time.Second
+
+// ServerClientID is the client ID used for operations the server generates
+// when merging out-of-band writes; BaseClientID owns the characters a
+// replica is loaded with.
+const (
+	ServerClientID = "server"
+	BaseClientID   = "base"
+)
+
+// ValidClientID reports whether id can be used by a client.
+func ValidClientID(id string) bool {
+	return id != "" && len(id) <= 64 && id != ServerClientID && id != BaseClientID
+}
+
+// ErrStaleSession is returned when a client sends operations for a session
+// the server no longer holds (it was closed or the server restarted). The
+// client must join again.
+var ErrStaleSession = errors.New("collaboration session expired; rejoin to continue")
+
+// Key identifies a document across workspaces.
+type Key struct {
+	Root string
+	Path string
+}
+
+// Cursor is a selection in CRDT terms: each end is the character it follows,
+// nil for the start of the document, so it stays put under remote edits.
+type Cursor struct {
+	Anchor *ID `json:"anchor"`
+	Head   *ID `json:"head"`
+}
+
+// Peer is one client viewing or editing a document.
+type Peer struct {
+	ClientID string    `json:"clientId"`
+	User     string    `json:"user"`
+	Editing  bool      `json:"editing"`
+	Cursor   *Cursor   `json:"cursor,omitempty"`
+	LastSeen time.Time `json:"lastSeen"`
+}
+
+// Event is published by the hub while it holds the session lock, so events
+// for one document are delivered in the order they were applied.
+type Event struct {
+	Key       Key
+	Type      string // EventOps or EventPresence
+	ClientID  string
+	SessionID string
+	Ops       []Op
+	Peers     []Peer
+}
+
+const (
+	EventOps      = "ops"
+	EventPresence = "presence"
+)
+
+// Hub holds the live sessions of all documents.
+type Hub struct {
+	mu       sync.Mutex
+	sessions map[Key]*Session
+	publish  func(Event)
+	now      func() time.Time
+}
+
+// NewHub returns a hub that reports operations and presence changes to
+// publish.
+func NewHub(publish func(Event)) *Hub {
+	if publish == nil {
+		publish = func(Event) {}
+	}
+	return &Hub{sessions: map[Key]*Session{}, publish: publish, now: time.Now}
+}
+
+// Session is the live state of one document: its CRDT replica while anyone
+// is editing, and the peers present.
+type Session struct {
+	mu    sync.Mutex
+	hub   *Hub
+	key   Key
+	id    string
+	doc   *Doc
+	peers map[string]*Peer
+
+	// base is the content last synced with disk and baseIDs the IDs of its
+	// runes, used to merge out-of-band writes.
+	base    string
+	baseIDs []ID
+	// actors contributed changes since the last save, in first-seen order.
+	actors []string
+}
+
+// JoinResult is returned to a joining peer. Snapshot is set for editors.
+type JoinResult struct {
+	SessionID string    `json:"sessionId,omitempty"`
+	Snapshot  *Snapshot `json:"snapshot,omitempty"`
+	Peers     []Peer    `json:"peers"`
+}
+
+// lock returns the session for key with its lock held, creating it when
+// create is set. It returns nil when there is no session and create is false.
+func (h *Hub) lock(key Key, create bool) *Session {
+	for {
+		h.mu.Lock()
+		s := h.sessions[key]
+		if s == nil && create {
+			s = &Session{hub: h, key: key, peers: map[string]*Peer{}}
+			h.sessions[key] = s
+		}
+		h.mu.Unlock()
+		if s == nil {
+			return nil
+		}
+		s.mu.Lock()
+		if h.registered(s) {
+			return s
+		}
+		// Dropped between lookup and lock; look again.
+		s.mu.Unlock()
+	}
+}
+
+func (h *Hub) registered(s *Session) bool {
+	h.mu.Lock()
+	defer h.mu.Unlock()
+	return h.sessions[s.key] == s
+}
+
+func (h *Hub) drop(s *Session) {
+	h.mu.Lock()
+	defer h.mu.Unlock()
+	if h.sessions[s.key] == s {
+		delete(h.sessions, s.key)
+	}
+}
+
+// Join adds or refreshes peer. An editing peer opens the document's replica,
+// loading the content from disk with load when nobody else is editing.
+func (h *Hub) Join(key Key, peer Peer, load func() (string, error)) (*JoinResult, error) {
+	s := h.lock(key, true)
+	defer s.mu.Unlock()
+	peer.LastSeen = h.now()
+	s.peers[peer.ClientID] = &peer
+	s.pruneLocked()
+
+	if peer.Editing && s.doc == nil {
+		content, err := load()
+		if err != nil {
+			delete(s.peers, peer.ClientID)
+			s.pruneLocked()
+			return nil, err
+		}
+		s.doc = NewDoc(BaseClientID, content)
+		s.id = newSessionID()
+		s.base = content
+		s.baseIDs = s.doc.VisibleIDs()
+		s.actors = nil
+	}
+
+	result := &JoinResult{Peers: s.peerListLocked()}
+	if peer.Editing {
+		snap := s.doc.Snapshot()
+		result.SessionID = s.id
+		result.Snapshot = &snap
+	}
+	s.publishPresenceLocked()
+	return result, nil
+}
+
+// Presence refreshes peer's heartbeat, editing flag and cursor.
+func (h *Hub) Presence(key Key, peer Peer) []Peer {
+	s := h.lock(key, true)
+	defer s.mu.Unlock()
+	peer.LastSeen = h.now()
+	s.peers[peer.ClientID] = &peer
+	s.pruneLocked()
+	s.publishPresenceLocked()
+	return s.peerListLocked()
+}
+
+// Leave removes a peer. The replica, with any unsaved changes, is discarded
+// once no editor remains.
+func (h *Hub) Leave(key Key, clientID string) {
+	s := h.lock(key, false)
+	if s == nil {
+		return
+	}
+	defer s.mu.Unlock()
+	delete(s.peers, clientID)
+	s.pruneLocked()
+	s.publishPresenceLocked()
+}
+
+// Prune drops expired peers from every session. Sessions are otherwise only
+// pruned when a request touches them, so without a periodic Prune a tab that
+// closed without leaving would keep its replica in memory indefinitely.
+// Replicas with no editor left are discarded, unsaved changes included, as
+// on Leave.
+func (h *Hub) Prune() {
+	h.mu.Lock()
+	keys := make([]Key, 0, len(h.sessions))
+	for key := range h.sessions {
+		keys = append(keys, key)
+	}
+	h.mu.Unlock()
+
+	for _, key := range keys {
+		s := h.lock(key, false)
+		if s == nil {
+			continue
+		}
+		before := len(s.peers)
+		s.pruneLocked()
+		if len(s.peers) != before {
+			s.publishPresenceLocked()
+		}
+		s.mu.Unlock()
+	}
+}
+
+// Apply integrates a client's operations and publishes them to the other
+// clients. actor is recorded as a contributor for the next save. The batch
+// is checked first and rejected as a whole, so a bad operation never leaves
+// the replica ahead of what the other clients were sent.
+func (h *Hub) Apply(key Key, sessionID, clientID, actor string, ops []Op) error {
+	s := h.lock(key, false)
+	if s == nil {
+		return ErrStaleSession
+	}
+	defer s.mu.Unlock()
+	if s.doc == nil || s.id != sessionID {
+		return ErrStaleSession
+	}
+	for _, op := range ops {
+		if op.Type == OpInsert && op.ID != nil && op.ID.C != clientID {
+			return fmt.Errorf("insert id client %q does not match %q", op.ID.C, clientID)
+		}
+	}
+	if err := s.doc.Check(ops); err != nil {
+		return err
+	}
+	for _, op := range ops {
+		if err := s.doc.Apply(op); err != nil {
+			return err
+		}
+	}
+	if p := s.peers[clientID]; p != nil {
+		p.LastSeen = h.now()
+	}
+	s.addActorLocked(actor)
+	h.publish(Event{Key: key, Type: EventOps, ClientID: clientID, SessionID: s.id, Ops: ops})
+	return nil
+}
+
+// MergeExternal merges content written to disk outside the session (CLI,
+// MCP, a plain PUT) into the live replica. actor is recorded as a
+// contributor. It does nothing when nobody is editing the document.
+func (h *Hub) MergeExternal(key Key, content, actor string) {
+	s := h.lock(key, false)
+	if s == nil {
+		return
+	}
+	defer s.mu.Unlock()
+	s.mergeExternalLocked(content, actor)
+}
+
+func (s *Session) mergeExternalLocked(content, actor string) {
+	// The doc store trims the body it reads back, so surrounding whitespace
+	// alone is not an external change.
+	if s.doc == nil || strings.TrimSpace(content) == strings.TrimSpace(s.base) {
+		return
+	}
+	ops, ids := MergeText(s.doc, ServerClientID, s.base, s.baseIDs, content)
+	s.base = content
+	s.baseIDs = ids
+	s.addActorLocked(actor)
+	if len(ops) > 0 {
+		s.hub.publish(Event{Key: s.key, Type: EventOps, ClientID: ServerClientID, SessionID: s.id, Ops: ops})
+	}
+}
+
+// SaveFunc writes the merged content and records a revision crediting
+// actors.
+type SaveFunc func(content string, actors []string) error
+
+// Save writes the session's merged content. disk is the content currently on
+// disk and diskActor whoever wrote it; a change made outside the session is
+// merged first so it is not overwritten. actor, the peer saving, is credited
+// alongside everyone who contributed since the last save.
+func (h *Hub) Save(key Key, sessionID, actor, disk, diskActor string, write SaveFunc) (string, error) {
+	s := h.lock(key, false)
+	if s == nil {
+		return "", ErrStaleSession
+	}
+	defer s.mu.Unlock()
+	if s.doc == nil || s.id != sessionID {
+		return "", ErrStaleSession
+	}
+	s.mergeExternalLocked(disk, diskActor)
+	s.addActorLocked(actor)
+
+	content := s.doc.Text()
+	if err := write(content, append([]string(nil), s.actors...)); err != nil {
+		return "", err
+	}
+	s.base = content
+	s.baseIDs = s.doc.VisibleIDs()
+	s.actors = nil
+	return content, nil
+}
+
+func (s *Session) addActorLocked(actor string) {
+	if actor == "" {
+		return
+	}
+	for _, a := range s.actors {
+		if a == actor {
+			return
+		}
+	}
+	s.actors = append(s.actors, actor)
+}
+
+// pruneLocked drops peers whose heartbeat expired, closes the replica when
+// no editor is left and removes the session when no peer is left.
+func (s *Session) pruneLocked() {
+	cutoff := s.hub.now().Add(-PeerTTL)
+	editing := false
+	for id, p := range s.peers {
+		if p.LastSeen.Before(cutoff) {
+			delete(s.peers, id)
+			continue
+		}
+		editing = editing || p.Editing
+	}
+	if !editing {
+		s.doc = nil
+		s.id = ""
+		s.base = ""
+		s.baseIDs = nil
+		s.actors = nil
+	}
+	if len(s.peers) == 0 {
+		s.hub.drop(s)
+	}
+}
+
+func (s *Session) peerListLocked() []Peer {
+	peers := make([]Peer, 0, len(s.peers))
+	for _, p := range s.peers {
+		peers = append(peers, *p)
+	}
+	sort.Slice(peers, func(i, j int) bool {
+		if peers[i].User != peers[j].User {
+			return peers[i].User < peers[j].User
+		}
+		return peers[i].ClientID < peers[j].ClientID
+	})
+	return peers
+}
+
+func (s *Session) publishPresenceLocked() {
+	s.hub.publish(Event{Key: s.key, Type: EventPresence, Peers: s.peerListLocked()})
+}
+
+func newSessionID() string {
+	b := make([]byte, 8)
+	_, _ = rand.Read(b)
+	return hex.EncodeToString(b)
+}
@@ -0,0 +1,153 @@
+package collab
+
+import (
+	"errors"
+	"reflect"
+	"testing"
+	"time"
+)
+
+func TestHubSaveMergesEditorsAndExternalWrites(t *testing.T) {
+	var events []Event
+	hub := NewHub(func(ev Event) { events = append(events, ev) })
+	key := Key{Root: "/tmp/.knowns", Path: "specs/auth"}
+	disk := "# Auth\nlogin\n"
+	load := func() (string, error) { return disk, nil }
+
+	alice, err := hub.Join(key, Peer{ClientID: "a1", User: "alice", Editing: true}, load)
+	if err != nil {
+		t.Fatalf("join alice: %v", err)
+	}
+	bob, err := hub.Join(key, Peer{ClientID: "b1", User: "bob", Editing: true}, load)
+	if err != nil {
+		t.Fatalf("join bob: %v", err)
+	}
+	if alice.SessionID == "" || alice.SessionID != bob.SessionID {
+		t.Fatalf("session ids = %q, %q, want one shared session", alice.SessionID, bob.SessionID)
+	}
+	if len(bob.Peers) != 2 {
+		t.Fatalf("peers = %+v, want alice and bob", bob.Peers)
+	}
+
+	// Alice appends a line through the session.
+	replica := NewDoc(BaseClientID, disk)
+	op := replica.InsertAfter("a1", &replica.VisibleIDs()[len(replica.VisibleIDs())-1], "logout\n")
+	if err := hub.Apply(key, alice.SessionID, "a1", "alice", []Op{op}); err != nil {
+		t.Fatalf("apply: %v", err)
+	}
+	if err := hub.Apply(key, "stale", "a1", "alice", []Op{op}); !errors.Is(err, ErrStaleSession) {
+		t.Fatalf("apply with stale session err = %v, want ErrStaleSession", err)
+	}
+
+	// An agent rewrites the heading on disk; bob saves.
+	var saved string
+	var credited []string
+	content, err := hub.Save(key, bob.SessionID, "bob", "# Auth flow\nlogin\n", "mcp", func(content string, actors []string) error {
+		saved, credited = content, actors
+		return nil
+	})
+	if err != nil {
+		t.Fatalf("save: %v", err)
+	}
+	if want := "# Auth flow\nlogin\nlogout\n"; content != want || saved != want {
+		t.Fatalf("saved = %q, want %q", saved, want)
+	}
+	if want := []string{"alice", "mcp", "bob"}; !reflect.DeepEqual(credited, want) {
+		t.Fatalf("actors = %v, want %v", credited, want)
+	}
+
+	var opsEvents int
+	for _, ev := range events {
+		if ev.Type == EventOps {
+			opsEvents++
+		}
+	}
+	if opsEvents != 2 {
+		t.Fatalf("ops events = %d, want alice's edit and the merged disk write", opsEvents)
+	}
+
+	// The replica is discarded once the last editor leaves.
+	hub.Leave(key, "a1")
+	hub.Leave(key, "b1")
+	if err := hub.Apply(key, bob.SessionID, "b1", "bob", nil); !errors.Is(err, ErrStaleSession) {
+		t.Fatalf("apply after leave err = %v, want ErrStaleSession", err)
+	}
+}
+
+func TestHubRejectsInsertsUnderAnotherClientID(t *testing.T) {
+	hub := NewHub(nil)
+	key := Key{Path: "notes"}
+	joined, err := hub.Join(key, Peer{ClientID: "a1", User: "alice", Editing: true}, func() (string, error) { return "", nil })
+	if err != nil {
+		t.Fatalf("join: %v", err)
+	}
+	op := Op{Type: OpInsert, ID: &ID{C: "b1", N: 1}, Text: "x"}
+	if err := hub.Apply(key, joined.SessionID, "a1", "alice", []Op{op}); err == nil {
+		t.Fatalf("expected an error for a spoofed insert id")
+	}
+}
+
+func TestHubRejectsABatchWithABadOpInTheMiddle(t *testing.T) {
+	var events []Event
+	hub := NewHub(func(ev Event) { events = append(events, ev) })
+	key := Key{Path: "notes"}
+	joined, err := hub.Join(key, Peer{ClientID: "a1", User: "alice", Editing: true}, func() (string, error) { return "hi", nil })
+	if err != nil {
+		t.Fatalf("join: %v", err)
+	}
+	events = nil
+
+	first := Op{Type: OpInsert, ID: &ID{C: "a1", N: 10}, Text: "ab"}
+	bad := Op{Type: OpInsert, ID: &ID{C: "a1", N: 20}, After: &ID{C: "a1", N: 99}, Text: "x"}
+	last := Op{Type: OpInsert, ID: &ID{C: "a1", N: 30}, After: &ID{C: "a1", N: 11}, Text: "c"}
+	if err := hub.Apply(key, joined.SessionID, "a1", "alice", []Op{first, bad, last}); err == nil {
+		t.Fatal("expected an error for an insert after an unknown character")
+	}
+	if text := hub.sessions[key].doc.Text(); text != "hi" {
+		t.Fatalf("replica = %q, want the rejected batch left out entirely", text)
+	}
+	if len(events) != 0 {
+		t.Fatalf("events = %+v, want nothing published for a rejected batch", events)
+	}
+
+	// Without the bad op, the last insert may follow a character the first
+	// one added.
+	if err := hub.Apply(key, joined.SessionID, "a1", "alice", []Op{first, last}); err != nil {
+		t.Fatalf("apply: %v", err)
+	}
+	if text := hub.sessions[key].doc.Text(); text != "abchi" {
+		t.Fatalf("replica = %q, want %q", text, "abchi")
+	}
+}
+
+func TestHubPruneDropsIdleSessions(t *testing.T) {
+	now := time.Date(2026, 10, 1, 12, 0, 0, 0, time.UTC)
+	var events []Event
+	hub := NewHub(func(ev Event) { events = append(events, ev) })
+	hub.now = func() time.Time { return now }
+	load := func() (string, error) { return "draft", nil }
+
+	idle := Key{Path: "idle"}
+	busy := Key{Path: "busy"}
+	if _, err := hub.Join(idle, Peer{ClientID: "a1", User: "alice", Editing: true}, load); err != nil {
+		t.Fatalf("join idle: %v", err)
+	}
+	if _, err := hub.Join(busy, Peer{ClientID: "b1", User: "bob", Editing: true}, load); err != nil {
+		t.Fatalf("join busy: %v", err)
+	}
+	now = now.Add(PeerTTL)
+	hub.Presence(busy, Peer{ClientID: "b1", User: "bob", Editing: true})
+	now = now.Add(time.Second)
+	events = nil
+
+	hub.Prune()
+	if _, ok := hub.sessions[idle]; ok {
+		t.Fatal("idle session should be removed once its last peer expired")
+	}
+	if s := hub.sessions[busy]; s == nil || s.doc == nil {
+		t.Fatal("session with a live editor should keep its replica")
+	}
+	if len(events) != 1 || events[0].Type != EventPresence || events[0].Key != idle {
+		t.Fatalf("events = %+v, want one presence update for the idle doc", events)
+	}
+}
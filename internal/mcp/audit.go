@@ -7,6 +7,7 @@ import (
 	"sync"
 	"time"
 
+	"github.com/howznguyen/knowns/internal/mcp/handlers"
 	"github.com/howznguyen/knowns/internal/models"
 	"github.com/howznguyen/knowns/internal/permissions"
 	"github.com/howznguyen/knowns/internal/storage"
@@ -29,6 +30,8 @@ type auditAppender interface {
 type auditRecorder struct {
 	auditStore auditAppender
 	getRoot    func() string
+	// notify relays persisted events to the project's running server, if any.
+	notify func(projectRoot string, event *models.AuditEvent)
 
 	mu      sync.Mutex
 	pending map[any]*pendingCall // keyed by request ID
@@ -39,6 +42,7 @@ func newAuditHooks(auditStore *storage.AuditStore, getRoot func() string) *serve
 	ar := &auditRecorder{
 		auditStore: auditStore,
 		getRoot:    getRoot,
+		notify:     handlers.NotifyAuditEvent,
 		pending:    make(map[any]*pendingCall),
 	}
 
@@ -122,6 +126,10 @@ func (ar *auditRecorder) afterCallTool(_ context.Context, id any, req *gomcp.Cal
 	// request and exit, which can abandon an asynchronous write at process exit.
 	if err := ar.auditStore.Append(event); err != nil {
 		mcpLog.Printf("audit: write failed: %v", err)
+		return
+	}
+	if ar.notify != nil {
+		go ar.notify(event.ProjectRoot, event)
 	}
 }
 
@@ -0,0 +1,203 @@
+package handlers
+
+import (
+	"context"
+	"encoding/json"
+
+	"github.com/howznguyen/knowns/internal/models"
+	"github.com/howznguyen/knowns/internal/storage"
+	"github.com/mark3labs/mcp-go/mcp"
+)
+
+// defaultAnnotationAuthor names agents in annotation threads when the call
+// doesn't say who is replying.
+const defaultAnnotationAuthor = "agent"
+
+// RegisterAnnotationTool registers doc review annotation operations.
+func RegisterAnnotationTool(s toolRegistrar, getStore func() *storage.Store) {
+	s.AddTool(
+		mcp.NewTool("annotation",
+			mcp.WithDescription("Doc review annotations left in the Web UI. Use 'action' to specify: list, get, reply, resolve."),
+			mcp.WithString("action",
+				mcp.Required(),
+				mcp.Description("Action to perform"),
+				mcp.Enum("list", "get", "reply", "resolve"),
+			),
+			mcp.WithString("id",
+				mcp.Description("Annotation ID (required for get/reply/resolve)"),
+			),
+			mcp.WithString("docPath",
+				mcp.Description("Only list annotations on this doc (list)"),
+			),
+			mcp.WithString("status",
+				mcp.Description("Filter by state (list, default: open)"),
+				mcp.Enum("open", "resolved", "all"),
+			),
+			mcp.WithString("content",
+				mcp.Description("Reply text (required for reply; optional note posted before resolving)"),
+			),
+			mcp.WithBoolean("resolved",
+				mcp.Description("Set false to reopen instead of resolve (resolve, default: true)"),
+			),
+			mcp.WithString("author",
+				mcp.Description("Name shown on replies and resolutions (default: agent)"),
+			),
+		),
+		func(ctx context.Context, req mcp.CallToolRequest) (*mcp.CallToolResult, error) {
+			action, err := req.RequireString("action")
+			if err != nil {
+				return errResult("action is required")
+			}
+			switch action {
+			case "list":
+				return handleAnnotationList(getStore, req)
+			case "get":
+				return handleAnnotationGet(getStore, req)
+			case "reply":
+				return handleAnnotationReply(getStore, req)
+			case "resolve":
+				return handleAnnotationResolve(getStore, req)
+			default:
+				return errResultf("unknown annotation action: %s", action)
+			}
+		},
+	)
+	registerHelp(s, "annotation", HelpEntry{
+		When: "Use to work through review feedback left on docs: list open annotations, reply in their thread, resolve them once addressed.",
+		Params: map[string]string{
+			"action":   "Required: list, get, reply, resolve.",
+			"id":       "Required for get/reply/resolve.",
+			"docPath":  "Limit list to one doc.",
+			"status":   "open (default), resolved or all.",
+			"content":  "Required for reply; with resolve, posted as a reply first.",
+			"orphaned": "Listed annotations with orphaned=true point at text that is no longer in the doc.",
+		},
+	})
+}
+
+func handleAnnotationList(getStore func() *storage.Store, req mcp.CallToolRequest) (*mcp.CallToolResult, error) {
+	store := getStore()
+	if store == nil {
+		return noProjectError()
+	}
+	args := req.GetArguments()
+	status, _ := stringArg(args, "status")
+	if status == "" {
+		status = "open"
+	}
+	if status != "open" && status != "resolved" && status != "all" {
+		return errResult("status must be open, resolved or all")
+	}
+	var annotations []*models.Annotation
+	var err error
+	if docPath, _ := stringArg(args, "docPath"); docPath != "" {
+		annotations, err = store.DocAnnotations(docPath)
+	} else {
+		annotations, err = store.AllAnnotations()
+	}
+	if err != nil {
+		return errFailed("list annotations", err)
+	}
+	filtered := []*models.Annotation{}
+	for _, annotation := range annotations {
+		if (status == "open" && annotation.Resolved) || (status == "resolved" && !annotation.Resolved) {
+			continue
+		}
+		filtered = append(filtered, annotation)
+	}
+	return annotationResult(filtered)
+}
+
+func handleAnnotationGet(getStore func() *storage.Store, req mcp.CallToolRequest) (*mcp.CallToolResult, error) {
+	store := getStore()
+	if store == nil {
+		return noProjectError()
+	}
+	id, err := req.RequireString("id")
+	if err != nil {
+		return errResult("id is required")
+	}
+	annotation, err := store.Annotations.Get(id)
+	if err != nil {
+		return errNotFound("annotation", err)
+	}
+	// Re-anchor so the returned position matches the doc as it is now.
+	annotations, err := store.DocAnnotations(annotation.DocPath)
+	if err != nil {
+		return errFailed("anchor annotation", err)
+	}
+	for _, anchored := range annotations {
+		if anchored.ID == id {
+			return annotationResult(anchored)
+		}
+	}
+	return annotationResult(annotation)
+}
+
+func handleAnnotationReply(getStore func() *storage.Store, req mcp.CallToolRequest) (*mcp.CallToolResult, error) {
+	store := getStore()
+	if store == nil {
+		return noProjectError()
+	}
+	id, err := req.RequireString("id")
+	if err != nil {
+		return errResult("id is required")
+	}
+	args := req.GetArguments()
+	content, _ := textArg(args, "content")
+	if content == "" {
+		return errResult("content is required")
+	}
+	if _, err := store.Annotations.Get(id); err != nil {
+		return errNotFound("annotation", err)
+	}
+	annotation, err := store.Annotations.Reply(id, annotationAuthor(args), content)
+	if err != nil {
+		return errFailed("reply to annotation", err)
+	}
+	go notifyAnnotationChanged(store, id)
+	return annotationResult(annotation)
+}
+
+func handleAnnotationResolve(getStore func() *storage.Store, req mcp.CallToolRequest) (*mcp.CallToolResult, error) {
+	store := getStore()
+	if store == nil {
+		return noProjectError()
+	}
+	id, err := req.RequireString("id")
+	if err != nil {
+		return errResult("id is required")
+	}
+	args := req.GetArguments()
+	resolved := true
+	if _, ok := args["resolved"]; ok {
+		resolved = boolArg(args, "resolved")
+	}
+	if _, err := store.Annotations.Get(id); err != nil {
+		return errNotFound("annotation", err)
+	}
+	author := annotationAuthor(args)
+	if content, _ := textArg(args, "content"); content != "" {
+		if _, err := store.Annotations.Reply(id, author, content); err != nil {
+			return errFailed("reply to annotation", err)
+		}
+	}
+	annotation, err := store.Annotations.SetResolved(id, resolved, author)
+	if err != nil {
+		return errFailed("resolve annotation", err)
+	}
+	go notifyAnnotationChanged(store, id)
+	return annotationResult(annotation)
+}
+
+func annotationAuthor(args map[string]any) string {
+	if author, _ := stringArg(args, "author"); author != "" {
+		return author
+	}
+	return defaultAnnotationAuthor
+}
+
+func annotationResult(v any) (*mcp.CallToolResult, error) {
+	out, _ := json.MarshalIndent(v, "", "  ")
+	return mcp.NewToolResultText(string(out)), nil
+}
@@ -0,0 +1,74 @@
+package handlers
+
+import (
+	"encoding/json"
+	"testing"
+	"time"
+
+	"github.com/howznguyen/knowns/internal/models"
+)
+
+func TestAnnotationHandlersListReplyAndResolve(t *testing.T) {
+	store := setupDecisionHandlerStore(t)
+	now := time.Now().UTC()
+	if err := store.Docs.Create(&models.Doc{Path: "specs/auth", Title: "Auth", Content: "Tokens expire after one hour.", CreatedAt: now, UpdatedAt: now}); err != nil {
+		t.Fatalf("create doc: %v", err)
+	}
+	annotation := &models.Annotation{
+		DocPath:      "specs/auth",
+		SelectedText: "one hour",
+		Type:         models.AnnotationTypeReplace,
+		Content:      "30 minutes",
+		Author:       "alice",
+	}
+	if err := store.Annotations.Create(annotation); err != nil {
+		t.Fatalf("create annotation: %v", err)
+	}
+
+	var open []models.Annotation
+	listText := callDecisionHandlerText(t, handleAnnotationList, store, map[string]any{"action": "list", "docPath": "specs/auth"})
+	if err := json.Unmarshal([]byte(listText), &open); err != nil {
+		t.Fatalf("unmarshal list: %v\n%s", err, listText)
+	}
+	if len(open) != 1 || open[0].ID != annotation.ID || open[0].StartLine != 1 || open[0].StartChar != 20 {
+		t.Fatalf("open annotations = %+v, want the anchored annotation", open)
+	}
+
+	resolveText := callDecisionHandlerText(t, handleAnnotationResolve, store, map[string]any{
+		"action":  "resolve",
+		"id":      annotation.ID,
+		"content": "Shortened the lifetime.",
+	})
+	var resolved models.Annotation
+	if err := json.Unmarshal([]byte(resolveText), &resolved); err != nil {
+		t.Fatalf("unmarshal resolve: %v\n%s", err, resolveText)
+	}
+	if !resolved.Resolved || resolved.ResolvedBy != defaultAnnotationAuthor {
+		t.Fatalf("resolved = %+v, want resolved by %s", resolved, defaultAnnotationAuthor)
+	}
+	if len(resolved.Replies) != 1 || resolved.Replies[0].Content != "Shortened the lifetime." {
+		t.Fatalf("replies = %+v, want the resolution note", resolved.Replies)
+	}
+
+	listText = callDecisionHandlerText(t, handleAnnotationList, store, map[string]any{"action": "list"})
+	if err := json.Unmarshal([]byte(listText), &open); err != nil {
+		t.Fatalf("unmarshal list: %v\n%s", err, listText)
+	}
+	if len(open) != 0 {
+		t.Fatalf("open annotations after resolve = %+v, want none", open)
+	}
+
+	reopenText := callDecisionHandlerText(t, handleAnnotationResolve, store, map[string]any{
+		"action":   "resolve",
+		"id":       annotation.ID,
+		"resolved": false,
+		"author":   "bob",
+	})
+	var reopened models.Annotation
+	if err := json.Unmarshal([]byte(reopenText), &reopened); err != nil {
+		t.Fatalf("unmarshal reopen: %v\n%s", err, reopenText)
+	}
+	if reopened.Resolved {
+		t.Fatalf("reopened = %+v, want open", reopened)
+	}
+}
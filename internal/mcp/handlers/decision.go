@@ -168,6 +168,7 @@ func handleDecisionCreate(getStore func() *storage.Store, req mcp.CallToolReques
 	}
 	if result.Decision != nil {
 		search.BestEffortIndexDecision(store, result.Decision.ID)
+		go notifyDecisionCreated(store, result.Decision.ID)
 	}
 	return decisionResult(result.Decision)
 }
@@ -239,6 +240,7 @@ func handleDecisionLink(getStore func() *storage.Store, req mcp.CallToolRequest)
 		return errFailed("link decision", err)
 	}
 	search.BestEffortIndexDecision(store, decision.ID)
+	go notifyDecisionChanged(store, decision.ID)
 	return decisionResult(decision)
 }
 
@@ -259,6 +261,7 @@ func handleDecisionSupersede(getStore func() *storage.Store, req mcp.CallToolReq
 	}
 	search.BestEffortIndexDecision(store, oldDecision.ID)
 	search.BestEffortIndexDecision(store, newDecision.ID)
+	go notifyDecisionChanged(store, oldDecision.ID, newDecision.ID)
 	return decisionResult(map[string]any{
 		"superseded": oldDecision,
 		"current":    newDecision,
@@ -298,6 +301,7 @@ func handleDecisionResolve(getStore func() *storage.Store, req mcp.CallToolReque
 	for _, id := range result.ChangedIDs {
 		search.BestEffortIndexDecision(store, id)
 	}
+	go notifyDecisionChanged(store, result.ChangedIDs...)
 	return decisionResult(result)
 }
 
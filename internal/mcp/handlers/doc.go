@@ -398,31 +398,22 @@ func handleDocUpdate(getStore func() *storage.Store, req mcp.CallToolRequest) (*
 
 	doc.UpdatedAt = time.Now().UTC()
 
+	revision := storage.DocRevisionOptions{Section: sectionTarget, Actor: "mcp", Source: "mcp"}
 	if oldPath != doc.Path {
-		if err := store.Docs.Rename(oldPath, doc); err != nil {
+		if _, err := store.RenameDoc(oldPath, doc, revision); err != nil {
 			return errFailed("rename doc", err)
 		}
-		if err := store.Docs.RewriteDocReferences(oldPath, doc.Path, store.Tasks, store.Memory); err != nil {
-			return errFailed("rewrite doc references", err)
-		}
 		search.BestEffortRemoveDoc(store, oldPath)
-	} else if err := store.Docs.Update(doc); err != nil {
-		return errFailed("update doc", err)
-	}
-
-	search.BestEffortIndexDoc(store, doc.Path)
-
-	if err := store.Versions.SaveDocRevisionWithOptions(&oldDoc, doc, storage.DocRevisionOptions{
-		Section: sectionTarget,
-		Actor:   "mcp",
-		Source:  "mcp",
-	}); err != nil {
-		return errFailed("save doc history", err)
-	}
-
-	if oldPath != doc.Path {
+		search.BestEffortIndexDoc(store, doc.Path)
 		go notifyServer(store, "notify/refresh")
 	} else {
+		if err := store.Docs.Update(doc); err != nil {
+			return errFailed("update doc", err)
+		}
+		search.BestEffortIndexDoc(store, doc.Path)
+		if err := store.Versions.SaveDocRevisionWithOptions(&oldDoc, doc, revision); err != nil {
+			return errFailed("save doc history", err)
+		}
 		go notifyDocUpdated(store, doc.Path)
 	}
 
@@ -575,6 +566,7 @@ func handleDocDelete(getStore func() *storage.Store, req mcp.CallToolRequest) (*
 	}
 
 	search.BestEffortRemoveDoc(store, path)
+	_ = store.Annotations.DeleteDoc(doc.Path)
 	go notifyServer(store, "notify/refresh")
 
 	out, _ := json.MarshalIndent(map[string]any{
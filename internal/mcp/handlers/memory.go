@@ -19,14 +19,14 @@ import (
 func RegisterMemoryTool(s *server.MCPServer, getStore func() *storage.Store) {
 	s.AddTool(
 		mcp.NewTool("memory",
-			mcp.WithDescription("Persistent memory operations. Use 'action' to specify: add, get, update, delete, list, promote, demote, cleanup, resolve."),
+			mcp.WithDescription("Persistent memory operations. Use 'action' to specify: add, get, update, delete, list, promote, demote, cleanup, resolve, history, diff, restore."),
 			mcp.WithString("action",
 				mcp.Required(),
 				mcp.Description("Action to perform"),
-				mcp.Enum("add", "get", "update", "delete", "list", "promote", "demote", "cleanup", "resolve"),
+				mcp.Enum("add", "get", "update", "delete", "list", "promote", "demote", "cleanup", "resolve", "history", "diff", "restore"),
 			),
 			mcp.WithString("id",
-				mcp.Description("Memory entry ID (required for get, update, delete, promote, demote)"),
+				mcp.Description("Memory entry ID (required for get, update, delete, promote, demote, history, diff, restore)"),
 			),
 			mcp.WithString("content",
 				mcp.Description("Memory content in markdown (required for add)"),
@@ -88,6 +88,9 @@ func RegisterMemoryTool(s *server.MCPServer, getStore func() *storage.Store) {
 			mcp.WithNumber("limit",
 				mcp.Description("Maximum cleanup candidates to return (default: 20)"),
 			),
+			mcp.WithString("revision",
+				mcp.Description("Revision ID or number for diff/restore (defaults to latest for diff)"),
+			),
 		),
 		func(ctx context.Context, req mcp.CallToolRequest) (*mcp.CallToolResult, error) {
 			action, err := req.RequireString("action")
@@ -113,6 +116,12 @@ func RegisterMemoryTool(s *server.MCPServer, getStore func() *storage.Store) {
 				return handleMemoryCleanup(getStore, req)
 			case "resolve":
 				return handleMemoryResolve(getStore, req)
+			case "history":
+				return handleMemoryHistory(getStore, req)
+			case "diff":
+				return handleMemoryDiff(getStore, req)
+			case "restore":
+				return handleMemoryRestore(getStore, req)
 			default:
 				return errResultf("unknown memory action: %s", action)
 			}
@@ -159,7 +168,7 @@ func handleMemoryAdd(getStore func() *storage.Store, req mcp.CallToolRequest) (*
 		entry.Tags = []string{}
 	}
 
-	result, err := memoryreview.New(store).Add(entry, memoryreview.AddOptions{})
+	result, err := memoryreview.New(store).Add(entry, memoryreview.AddOptions{Actor: "mcp", Source: "mcp"})
 	if err != nil {
 		return errFailed("create memory", err)
 	}
@@ -169,7 +178,9 @@ func handleMemoryAdd(getStore func() *storage.Store, req mcp.CallToolRequest) (*
 	}
 
 	indexMemoryReviewChanges(store, result.ChangedIDs)
-	go notifyServer(store, "notify/refresh")
+	if result.Memory != nil {
+		go notifyMemoryCreated(store, result.Memory.ID)
+	}
 
 	out, _ := json.MarshalIndent(result.Memory, "", "  ")
 	return mcp.NewToolResultText(string(out)), nil
@@ -308,13 +319,15 @@ func handleMemoryResolve(getStore func() *storage.Store, req mcp.CallToolRequest
 		TargetID:       targetID,
 		Status:         status,
 		RejectedReason: rejectedReason,
+		Actor:          "mcp",
+		Source:         "mcp",
 	})
 	if err != nil {
 		return errFailed("resolve memory review", err)
 	}
 
 	indexMemoryReviewChanges(store, result.ChangedIDs)
-	go notifyServer(store, "notify/refresh")
+	go notifyMemoryChanged(store, result.ChangedIDs...)
 
 	out, _ := json.MarshalIndent(result, "", "  ")
 	return mcp.NewToolResultText(string(out)), nil
@@ -478,12 +491,12 @@ func handleMemoryUpdate(getStore func() *storage.Store, req mcp.CallToolRequest)
 
 	entry.UpdatedAt = time.Now().UTC()
 
-	if err := store.Memory.Update(entry); err != nil {
+	if err := store.Memory.UpdateWithRevision(entry, storage.MemoryRevisionOptions{Actor: "mcp", Source: "mcp"}); err != nil {
 		return errFailed("update memory", err)
 	}
 
 	search.BestEffortIndexMemory(store, entry.ID)
-	go notifyServer(store, "notify/refresh")
+	go notifyMemoryChanged(store, entry.ID)
 
 	out, _ := json.MarshalIndent(entry, "", "  ")
 	return mcp.NewToolResultText(string(out)), nil
@@ -527,7 +540,7 @@ func handleMemoryDelete(getStore func() *storage.Store, req mcp.CallToolRequest)
 	}
 
 	search.BestEffortRemoveMemory(store, id)
-	go notifyServer(store, "notify/refresh")
+	go notifyMemoryChanged(store, id)
 
 	result := map[string]any{
 		"deleted": true,
@@ -554,7 +567,7 @@ func handleMemoryPromote(getStore func() *storage.Store, req mcp.CallToolRequest
 	}
 
 	search.BestEffortIndexMemory(store, entry.ID)
-	go notifyServer(store, "notify/refresh")
+	go notifyMemoryChanged(store, entry.ID)
 
 	out, _ := json.MarshalIndent(entry, "", "  ")
 	return mcp.NewToolResultText(string(out)), nil
@@ -577,8 +590,81 @@ func handleMemoryDemote(getStore func() *storage.Store, req mcp.CallToolRequest)
 	}
 
 	search.BestEffortIndexMemory(store, entry.ID)
-	go notifyServer(store, "notify/refresh")
+	go notifyMemoryChanged(store, entry.ID)
 
 	out, _ := json.MarshalIndent(entry, "", "  ")
 	return mcp.NewToolResultText(string(out)), nil
 }
+
+func handleMemoryHistory(getStore func() *storage.Store, req mcp.CallToolRequest) (*mcp.CallToolResult, error) {
+	store := getStore()
+	if store == nil {
+		return noProjectError()
+	}
+
+	id, err := req.RequireString("id")
+	if err != nil {
+		return errResult("id is required")
+	}
+
+	history, err := store.Memory.GetHistory(id)
+	if err != nil {
+		return errFailed("get memory history", err)
+	}
+
+	out, _ := json.MarshalIndent(history, "", "  ")
+	return mcp.NewToolResultText(string(out)), nil
+}
+
+func handleMemoryDiff(getStore func() *storage.Store, req mcp.CallToolRequest) (*mcp.CallToolResult, error) {
+	store := getStore()
+	if store == nil {
+		return noProjectError()
+	}
+
+	id, err := req.RequireString("id")
+	if err != nil {
+		return errResult("id is required")
+	}
+
+	revision, _ := stringArg(req.GetArguments(), "revision")
+	diff, err := store.Memory.GetRevisionDiff(id, revision)
+	if err != nil {
+		return errFailed("get memory revision diff", err)
+	}
+
+	out, _ := json.MarshalIndent(diff, "", "  ")
+	return mcp.NewToolResultText(string(out)), nil
+}
+
+func handleMemoryRestore(getStore func() *storage.Store, req mcp.CallToolRequest) (*mcp.CallToolResult, error) {
+	store := getStore()
+	if store == nil {
+		return noProjectError()
+	}
+
+	id, err := req.RequireString("id")
+	if err != nil {
+		return errResult("id is required")
+	}
+	revision, _ := stringArg(req.GetArguments(), "revision")
+	if revision == "" {
+		return errResult("revision is required")
+	}
+
+	entry, err := store.Memory.Restore(id, revision, storage.MemoryRevisionOptions{Actor: "mcp", Source: "mcp"})
+	if err != nil {
+		return errFailed("restore memory", err)
+	}
+
+	search.BestEffortIndexMemory(store, entry.ID)
+	go notifyMemoryChanged(store, entry.ID)
+
+	history, _ := store.Memory.GetHistory(id)
+	out, _ := json.MarshalIndent(map[string]any{
+		"restored": true,
+		"memory":   entry,
+		"history":  history,
+	}, "", "  ")
+	return mcp.NewToolResultText(string(out)), nil
+}
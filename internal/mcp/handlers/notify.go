@@ -1,13 +1,17 @@
 package handlers
 
 import (
+	"bytes"
+	"encoding/json"
 	"fmt"
+	"io"
 	"net/http"
 	"os"
 	"path/filepath"
 	"strings"
 	"time"
 
+	"github.com/howznguyen/knowns/internal/models"
 	"github.com/howznguyen/knowns/internal/storage"
 )
 
@@ -19,18 +23,36 @@ import (
 // /api/notify/* endpoints. Failures are silently ignored since the server
 // may not be running.
 func notifyServer(store *storage.Store, path string) {
-	port := readServerPort(store)
+	postNotification(store.Root, path, nil)
+}
+
+// postNotification POSTs body (JSON-encoded when non-nil) to the notify
+// endpoint of the server whose port file lives in knownsDir.
+func postNotification(knownsDir, path string, body any) {
+	port := readServerPort(knownsDir)
 	if port == "" {
 		return
 	}
 
+	var reader io.Reader
+	if body != nil {
+		data, err := json.Marshal(body)
+		if err != nil {
+			return
+		}
+		reader = bytes.NewReader(data)
+	}
+
 	url := fmt.Sprintf("http://localhost:%s/api/%s", port, path)
 	client := &http.Client{Timeout: 2 * time.Second}
 
-	req, err := http.NewRequest(http.MethodPost, url, nil)
+	req, err := http.NewRequest(http.MethodPost, url, reader)
 	if err != nil {
 		return
 	}
+	if body != nil {
+		req.Header.Set("Content-Type", "application/json")
+	}
 
 	resp, err := client.Do(req)
 	if err != nil {
@@ -39,9 +61,9 @@ func notifyServer(store *storage.Store, path string) {
 	resp.Body.Close()
 }
 
-// readServerPort reads the server port from .knowns/.server-port.
-func readServerPort(store *storage.Store) string {
-	portFile := filepath.Join(store.Root, ".server-port")
+// readServerPort reads the server port from <knownsDir>/.server-port.
+func readServerPort(knownsDir string) string {
+	portFile := filepath.Join(knownsDir, ".server-port")
 	data, err := os.ReadFile(portFile)
 	if err != nil {
 		return ""
@@ -63,3 +85,43 @@ func notifyDocUpdated(store *storage.Store, docPath string) {
 func notifyTimeUpdated(store *storage.Store) {
 	notifyServer(store, "notify/time")
 }
+
+// notifyMemoryCreated notifies the server that a memory was added.
+func notifyMemoryCreated(store *storage.Store, id string) {
+	notifyServer(store, "notify/memory/"+id+"?event=created")
+}
+
+// notifyMemoryChanged notifies the server that a memory was updated or
+// deleted; the server decides which by looking the memory up.
+func notifyMemoryChanged(store *storage.Store, ids ...string) {
+	for _, id := range ids {
+		notifyServer(store, "notify/memory/"+id)
+	}
+}
+
+// notifyDecisionCreated notifies the server that a decision was added.
+func notifyDecisionCreated(store *storage.Store, id string) {
+	notifyServer(store, "notify/decision/"+id+"?event=created")
+}
+
+// notifyDecisionChanged notifies the server that decisions were updated.
+func notifyDecisionChanged(store *storage.Store, ids ...string) {
+	for _, id := range ids {
+		notifyServer(store, "notify/decision/"+id)
+	}
+}
+
+// notifyAnnotationChanged notifies the server that an annotation's thread or
+// resolved state changed.
+func notifyAnnotationChanged(store *storage.Store, id string) {
+	notifyServer(store, "notify/annotation/"+id)
+}
+
+// NotifyAuditEvent forwards a recorded MCP audit event to the server running
+// for projectRoot so the Web UI audit log can show it live.
+func NotifyAuditEvent(projectRoot string, event *models.AuditEvent) {
+	if projectRoot == "" || event == nil {
+		return
+	}
+	postNotification(filepath.Join(projectRoot, ".knowns"), "notify/audit", event)
+}
@@ -21,9 +21,9 @@ func RegisterTaskTool(s toolRegistrar, getStore func() *storage.Store) {
 		mcp.NewTool("tasks",
 			mcp.WithDescription(`Task management operations. Use 'action' to specify: create, get, update, delete, list, history, board, archive, unarchive, batch_archive, batch_unarchive, hard_delete.
 
-- create: Create a task or subtask. Required: title. Optional: description, status, priority, assignee, labels, parent, spec, fulfills, order. Returns: created task with ID and metadata.
+- create: Create a task or subtask. Required: title. Optional: description, status, priority, assignee, labels, parent, spec, fulfills, dependsOn, startDate, dueDate, milestone, order. Returns: created task with ID and metadata.
 - get: Read task details. Required: taskId. Optional: none. Returns: task metadata, acceptance criteria, plan, notes, spec links, and time spent.
-- update: Modify task fields, ACs, plan, or notes. Required: taskId. Optional: title, description, status, priority, assignee, labels, spec, fulfills, order, addAc, checkAc, uncheckAc, removeAc, plan, notes, appendNotes, clear. Returns: updated task.
+- update: Modify task fields, ACs, plan, or notes. Required: taskId. Optional: title, description, status, priority, assignee, labels, spec, fulfills, dependsOn, startDate, dueDate, milestone, order, addAc, checkAc, uncheckAc, removeAc, plan, notes, appendNotes, clear. Returns: updated task.
 - delete: Remove a task or preview removal. Required: taskId. Optional: dryRun (default true). Returns: deletion preview or confirmation.
 - list: List tasks with filters. Required: none. Optional: status, priority, assignee, label, spec. Returns: matching task summaries with IDs, titles, statuses, priorities, assignees, labels, and spec links.
 - history: View task change history. Required: taskId. Optional: none. Returns: chronological change entries with timestamps and metadata.
@@ -71,6 +71,19 @@ func RegisterTaskTool(s toolRegistrar, getStore func() *storage.Store) {
 				mcp.Description("Spec ACs this task fulfills (create, update)"),
 				mcp.WithStringItems(),
 			),
+			mcp.WithArray("dependsOn",
+				mcp.Description("Task IDs that must be done before this task starts; replaces the list (create, update)"),
+				mcp.WithStringItems(),
+			),
+			mcp.WithString("startDate",
+				mcp.Description("Planned start date, YYYY-MM-DD (create, update)"),
+			),
+			mcp.WithString("dueDate",
+				mcp.Description("Due date, YYYY-MM-DD (create, update)"),
+			),
+			mcp.WithString("milestone",
+				mcp.Description("Milestone (sprint) ID the task is planned in (create, update)"),
+			),
 			mcp.WithNumber("order",
 				mcp.Description("Display order (create, update)"),
 			),
@@ -143,9 +156,9 @@ func RegisterTaskTool(s toolRegistrar, getStore func() *storage.Store) {
 		},
 	)
 
-	registerHelp(s, "tasks.create", HelpEntry{When: "Create a new task or subtask with title, context, ownership, labels, and optional spec links.", Params: map[string]string{"title": "required — task title", "description": "task context and goal", "status": "todo | in-progress | in-review | done | blocked | on-hold | urgent", "priority": "low | medium | high", "assignee": "person responsible for task", "labels": "task labels", "parent": "parent task ID for subtasks", "spec": "spec doc path this task implements", "fulfills": "spec AC IDs this task satisfies", "order": "display order"}, Examples: []string{`tasks({ action: "create", title: "Add auth", description: "...", priority: "high" })`}, Flow: "Create task, then update to in-progress and start time before implementation."})
+	registerHelp(s, "tasks.create", HelpEntry{When: "Create a new task or subtask with title, context, ownership, labels, and optional spec links.", Params: map[string]string{"title": "required — task title", "description": "task context and goal", "status": "todo | in-progress | in-review | done | blocked | on-hold | urgent", "priority": "low | medium | high", "assignee": "person responsible for task", "labels": "task labels", "parent": "parent task ID for subtasks", "spec": "spec doc path this task implements", "fulfills": "spec AC IDs this task satisfies", "dependsOn": "task IDs this task depends on", "startDate": "planned start date (YYYY-MM-DD)", "dueDate": "due date (YYYY-MM-DD)", "milestone": "milestone (sprint) ID", "order": "display order"}, Examples: []string{`tasks({ action: "create", title: "Add auth", description: "...", priority: "high" })`}, Flow: "Create task, then update to in-progress and start time before implementation."})
 	registerHelp(s, "tasks.get", HelpEntry{When: "Read full task details before planning, implementation, review, or status updates.", Params: map[string]string{"taskId": "required — task ID"}, Flow: "Use before update/history when you need current ACs, plan, notes, or spec links."})
-	registerHelp(s, "tasks.update", HelpEntry{When: "Modify task metadata, status, acceptance criteria, plan, or implementation notes.", Params: map[string]string{"taskId": "required — task ID", "title": "new task title", "description": "new task description", "status": "new task status", "priority": "low | medium | high", "assignee": "new assignee", "labels": "replacement label list", "spec": "spec doc path", "fulfills": "spec AC IDs this task satisfies", "order": "display order", "addAc": "new acceptance criteria", "checkAc": "1-based AC indexes to mark complete", "uncheckAc": "1-based AC indexes to mark incomplete", "removeAc": "1-based AC indexes to remove", "plan": "implementation plan", "notes": "replace all implementation notes", "appendNotes": "append to existing implementation notes", "clear": "string fields to clear"}, Why: "Use appendNotes for progress. notes replaces existing notes and can wipe history.", Examples: []string{`tasks({ action: "update", taskId: "abc123", appendNotes: "Done: added tests" })`, `tasks({ action: "update", taskId: "abc123", checkAc: [1, 2] })`}, Flow: "Only check AC after work is complete; stop time and set status done at finish."})
+	registerHelp(s, "tasks.update", HelpEntry{When: "Modify task metadata, status, acceptance criteria, plan, or implementation notes.", Params: map[string]string{"taskId": "required — task ID", "title": "new task title", "description": "new task description", "status": "new task status", "priority": "low | medium | high", "assignee": "new assignee", "labels": "replacement label list", "spec": "spec doc path", "fulfills": "spec AC IDs this task satisfies", "dependsOn": "replacement list of task IDs this task depends on", "startDate": "planned start date (YYYY-MM-DD)", "dueDate": "due date (YYYY-MM-DD)", "milestone": "milestone (sprint) ID", "order": "display order", "addAc": "new acceptance criteria", "checkAc": "1-based AC indexes to mark complete", "uncheckAc": "1-based AC indexes to mark incomplete", "removeAc": "1-based AC indexes to remove", "plan": "implementation plan", "notes": "replace all implementation notes", "appendNotes": "append to existing implementation notes", "clear": "string fields to clear"}, Why: "Use appendNotes for progress. notes replaces existing notes and can wipe history.", Examples: []string{`tasks({ action: "update", taskId: "abc123", appendNotes: "Done: added tests" })`, `tasks({ action: "update", taskId: "abc123", checkAc: [1, 2] })`}, Flow: "Only check AC after work is complete; stop time and set status done at finish."})
 	registerHelp(s, "tasks.delete", HelpEntry{When: "Preview or remove a task when it is obsolete or was created by mistake.", Params: map[string]string{"taskId": "required — task ID", "dryRun": "preview only without deleting; default true"}, Why: "Default dryRun protects against accidental deletion."})
 	registerHelp(s, "tasks.list", HelpEntry{When: "Find tasks by status, owner, priority, label, or spec before choosing work or checking remaining scope.", Params: map[string]string{"status": "filter by task status", "priority": "filter by low | medium | high", "assignee": "filter by assignee", "label": "filter by one label", "spec": "filter by linked spec doc path"}})
 	registerHelp(s, "tasks.history", HelpEntry{When: "Inspect chronological changes for audit, debugging, or understanding how a task evolved.", Params: map[string]string{"taskId": "required — task ID"}})
@@ -194,7 +207,7 @@ func handleTaskCreate(getStore func() *storage.Store, req mcp.CallToolRequest) (
 		CreatedAt: time.Now().UTC(),
 		UpdatedAt: time.Now().UTC(),
 	}
-	if status == "done" {
+	if status == "done" || status == "in-progress" {
 		task.Status = "todo"
 		tasklifecycle.ApplyStatusTransition(task, status, task.UpdatedAt)
 	}
@@ -217,17 +230,35 @@ func handleTaskCreate(getStore func() *storage.Store, req mcp.CallToolRequest) (
 	if v, ok := stringSliceArg(args, "fulfills"); ok {
 		task.Fulfills = v
 	}
+	if v, ok := stringSliceArg(args, "dependsOn"); ok {
+		task.DependsOn = v
+	}
 	if v, ok := intArg(args, "order"); ok {
 		task.Order = &v
 	}
+	if v, ok := stringArg(args, "startDate"); ok {
+		task.StartDate = v
+	}
+	if v, ok := stringArg(args, "dueDate"); ok {
+		task.DueDate = v
+	}
+	if v, ok := stringArg(args, "milestone"); ok {
+		task.Milestone = v
+	}
 	if v, ok := textArg(args, "plan"); ok {
 		task.ImplementationPlan = v
 	}
 	if v, ok := textArg(args, "notes"); ok {
 		task.ImplementationNotes = v
 	}
+	if err := tasklifecycle.ValidateSchedule(task); err != nil {
+		return errResult(err.Error())
+	}
+	if err := tasklifecycle.ValidateMilestone(task, store.Milestones.Exists); err != nil {
+		return errResult(err.Error())
+	}
 
-	if err := store.Tasks.Create(task); err != nil {
+	if err := newMCPTaskLifecycleService(store).CreateTask(context.Background(), task); err != nil {
 		return errFailed("create task", err)
 	}
 
@@ -258,6 +289,9 @@ func handleTaskGet(getStore func() *storage.Store, req mcp.CallToolRequest) (*mc
 	if err != nil {
 		return errNotFound("Task", err)
 	}
+	if blocks, err := store.Tasks.Dependents(task.ID); err == nil {
+		task.Blocks = blocks
+	}
 
 	if entries, err := store.Time.GetEntries(task.ID); err == nil {
 		task.TimeEntries = entries
@@ -324,6 +358,28 @@ func handleTaskUpdate(getStore func() *storage.Store, req mcp.CallToolRequest) (
 				task.Fulfills = nil
 			}
 		}
+		if _, ok := args["dependsOn"]; ok {
+			if v, ok := stringSliceArg(args, "dependsOn"); ok {
+				task.DependsOn = v
+			} else {
+				task.DependsOn = nil
+			}
+		}
+		if clearFields["startDate"] {
+			task.StartDate = ""
+		} else if v, ok := stringArg(args, "startDate"); ok && v != "" {
+			task.StartDate = v
+		}
+		if clearFields["dueDate"] {
+			task.DueDate = ""
+		} else if v, ok := stringArg(args, "dueDate"); ok && v != "" {
+			task.DueDate = v
+		}
+		if clearFields["milestone"] {
+			task.Milestone = ""
+		} else if v, ok := stringArg(args, "milestone"); ok && v != "" {
+			task.Milestone = v
+		}
 		if _, ok := args["order"]; ok {
 			if v, ok := intArg(args, "order"); ok {
 				task.Order = &v
@@ -204,3 +204,49 @@ func callTaskLifecycleMCPAny(t *testing.T, store *storage.Store, action string,
 	}
 	return response, result.IsError
 }
+
+func TestTaskCreateMCPValidatesDependsOn(t *testing.T) {
+	store := storage.NewStore(filepath.Join(t.TempDir(), ".knowns"))
+	if err := store.Init("mcp"); err != nil {
+		t.Fatal(err)
+	}
+	now := time.Now().UTC()
+	if err := store.Tasks.Create(&models.Task{ID: "mcp-dep", Title: "schema", Status: "todo", Priority: "medium", CreatedAt: now, UpdatedAt: now}); err != nil {
+		t.Fatal(err)
+	}
+	create := func(dependsOn ...any) *mcp.CallToolResult {
+		t.Helper()
+		args := map[string]any{"action": "create", "title": "api", "dependsOn": dependsOn}
+		result, err := handleTaskCreate(func() *storage.Store { return store }, mcp.CallToolRequest{Params: mcp.CallToolParams{Arguments: args}})
+		if err != nil || result == nil {
+			t.Fatalf("create = %+v, %v", result, err)
+		}
+		return result
+	}
+
+	if result := create("missing"); !result.IsError {
+		t.Fatalf("create with an unknown dependency = %+v, want an error", result)
+	}
+	result := create("mcp-dep")
+	if result.IsError {
+		t.Fatalf("create with dependsOn returned an error: %+v", result)
+	}
+	var created models.Task
+	if err := json.Unmarshal([]byte(result.Content[0].(mcp.TextContent).Text), &created); err != nil {
+		t.Fatal(err)
+	}
+	if len(created.DependsOn) != 1 || created.DependsOn[0] != "mcp-dep" {
+		t.Fatalf("dependsOn = %v", created.DependsOn)
+	}
+	got, err := handleTaskGet(func() *storage.Store { return store }, mcp.CallToolRequest{Params: mcp.CallToolParams{Arguments: map[string]any{"action": "get", "taskId": "mcp-dep"}}})
+	if err != nil || got == nil || got.IsError {
+		t.Fatalf("get = %+v, %v", got, err)
+	}
+	var blocker models.Task
+	if err := json.Unmarshal([]byte(got.Content[0].(mcp.TextContent).Text), &blocker); err != nil {
+		t.Fatal(err)
+	}
+	if len(blocker.Blocks) != 1 || blocker.Blocks[0] != created.ID {
+		t.Fatalf("blocks = %v; want the new task", blocker.Blocks)
+	}
+}
@@ -472,6 +472,7 @@ func NewMCPServer(projectHint string) *MCPServer {
 	handlers.RegisterValidateTools(s, getStore)
 	handlers.RegisterMemoryTool(s.srv, getStore)
 	handlers.RegisterDecisionTool(s, getStore)
+	handlers.RegisterAnnotationTool(s, getStore)
 
 	// Auto-detect project from hint or cwd.
 	s.autoDetectProject(setStore, projectHint)
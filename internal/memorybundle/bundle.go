@@ -0,0 +1,271 @@
+package memorybundle
+
+import (
+	"bufio"
+	"encoding/json"
+	"fmt"
+	"io"
+	"path/filepath"
+	"sort"
+	"strings"
+	"time"
+
+	"github.com/howznguyen/knowns/internal/models"
+	"github.com/howznguyen/knowns/internal/storage"
+)
+
+const (
+	FormatJSONL    = "jsonl"
+	FormatMarkdown = "markdown"
+
+	KindMemory   = "memory"
+	KindDecision = "decision"
+
+	bundleVersion = 1
+	// markdownMarker precedes each record in a markdown bundle, followed by
+	// the record kind. Records are the canonical store files, so a record's
+	// own frontmatter and body stay untouched.
+	markdownMarker = "<!-- knowns:"
+)
+
+// Record is one memory or decision in a bundle.
+type Record struct {
+	Kind     string                `json:"kind"`
+	Memory   *models.MemoryEntry   `json:"memory,omitempty"`
+	Decision *models.DecisionEntry `json:"decision,omitempty"`
+}
+
+// Filter narrows the records an export writes or an import reads. Empty
+// fields match everything. Category only matches memories; decisions count as
+// category "decision".
+type Filter struct {
+	Kind     string
+	Layer    string
+	Tags     []string
+	Category string
+	Status   string
+}
+
+// ValidFormat reports whether format names a supported bundle format.
+func ValidFormat(format string) bool {
+	return format == FormatJSONL || format == FormatMarkdown
+}
+
+// FormatForPath picks the bundle format from a file name, defaulting to JSONL.
+func FormatForPath(path string) string {
+	switch strings.ToLower(filepath.Ext(path)) {
+	case ".md", ".markdown":
+		return FormatMarkdown
+	default:
+		return FormatJSONL
+	}
+}
+
+// Export collects the project and global memories and the project decisions
+// that match filter, memories first, each ordered by ID.
+func Export(store *storage.Store, filter Filter) ([]Record, error) {
+	records := make([]Record, 0)
+	if filter.Kind == "" || filter.Kind == KindMemory {
+		entries, err := store.Memory.ListPersistent(filter.Layer)
+		if err != nil {
+			return nil, err
+		}
+		sort.Slice(entries, func(i, j int) bool { return entries[i].ID < entries[j].ID })
+		for _, entry := range entries {
+			record := Record{Kind: KindMemory, Memory: entry}
+			if filter.Match(record) {
+				records = append(records, record)
+			}
+		}
+	}
+	if (filter.Kind == "" || filter.Kind == KindDecision) && store.Decisions != nil {
+		decisions, err := store.Decisions.List()
+		if err != nil {
+			return nil, err
+		}
+		sort.Slice(decisions, func(i, j int) bool { return decisions[i].ID < decisions[j].ID })
+		for _, decision := range decisions {
+			record := Record{Kind: KindDecision, Decision: decision}
+			if filter.Match(record) {
+				records = append(records, record)
+			}
+		}
+	}
+	return records, nil
+}
+
+// Match reports whether a record passes the filter.
+func (f Filter) Match(record Record) bool {
+	if f.Kind != "" && f.Kind != record.Kind {
+		return false
+	}
+	var layer, category, status string
+	var tags []string
+	switch {
+	case record.Memory != nil:
+		layer, category, status, tags = record.Memory.Layer, record.Memory.Category, record.Memory.Status, record.Memory.Tags
+	case record.Decision != nil:
+		category, status, tags = KindDecision, record.Decision.Status, record.Decision.Tags
+	default:
+		return false
+	}
+	if f.Layer != "" && record.Kind == KindMemory && f.Layer != layer {
+		return false
+	}
+	if f.Category != "" && !strings.EqualFold(f.Category, category) {
+		return false
+	}
+	if f.Status != "" && f.Status != status {
+		return false
+	}
+	for _, tag := range f.Tags {
+		if !hasTag(tags, tag) {
+			return false
+		}
+	}
+	return true
+}
+
+// Write encodes records in the given format.
+func Write(w io.Writer, records []Record, format string) error {
+	switch format {
+	case FormatJSONL:
+		return writeJSONL(w, records)
+	case FormatMarkdown:
+		return writeMarkdown(w, records)
+	default:
+		return fmt.Errorf("unsupported bundle format: %q", format)
+	}
+}
+
+// Read decodes a bundle in the given format. Unknown record kinds are
+// skipped so newer bundles still import what this version understands.
+func Read(r io.Reader, format string) ([]Record, error) {
+	switch format {
+	case FormatJSONL:
+		return readJSONL(r)
+	case FormatMarkdown:
+		return readMarkdown(r)
+	default:
+		return nil, fmt.Errorf("unsupported bundle format: %q", format)
+	}
+}
+
+type bundleHeader struct {
+	Kind       string    `json:"kind"`
+	Version    int       `json:"version"`
+	ExportedAt time.Time `json:"exportedAt"`
+	Count      int       `json:"count"`
+}
+
+func writeJSONL(w io.Writer, records []Record) error {
+	encoder := json.NewEncoder(w)
+	if err := encoder.Encode(bundleHeader{Kind: "bundle", Version: bundleVersion, ExportedAt: time.Now().UTC(), Count: len(records)}); err != nil {
+		return err
+	}
+	for _, record := range records {
+		if err := encoder.Encode(record); err != nil {
+			return err
+		}
+	}
+	return nil
+}
+
+func readJSONL(r io.Reader) ([]Record, error) {
+	scanner := bufio.NewScanner(r)
+	scanner.Buffer(make([]byte, 0, 64*1024), 16*1024*1024)
+	records := make([]Record, 0)
+	line := 0
+	for scanner.Scan() {
+		line++
+		text := strings.TrimSpace(scanner.Text())
+		if text == "" {
+			continue
+		}
+		var record Record
+		if err := json.Unmarshal([]byte(text), &record); err != nil {
+			return nil, fmt.Errorf("bundle line %d: %w", line, err)
+		}
+		if (record.Kind == KindMemory && record.Memory != nil) || (record.Kind == KindDecision && record.Decision != nil) {
+			records = append(records, record)
+		}
+	}
+	if err := scanner.Err(); err != nil {
+		return nil, err
+	}
+	return records, nil
+}
+
+func writeMarkdown(w io.Writer, records []Record) error {
+	var b strings.Builder
+	fmt.Fprintf(&b, "# Knowns memory bundle\n\n%sbundle version=%d exportedAt=%s count=%d -->\n", markdownMarker, bundleVersion, time.Now().UTC().Format(time.RFC3339), len(records))
+	for _, record := range records {
+		fmt.Fprintf(&b, "\n%s%s -->\n", markdownMarker, record.Kind)
+		switch record.Kind {
+		case KindMemory:
+			b.WriteString(storage.RenderMemoryMarkdown(record.Memory))
+		case KindDecision:
+			b.WriteString(storage.RenderDecisionMarkdown(record.Decision))
+		}
+	}
+	_, err := io.WriteString(w, b.String())
+	return err
+}
+
+func readMarkdown(r io.Reader) ([]Record, error) {
+	data, err := io.ReadAll(r)
+	if err != nil {
+		return nil, err
+	}
+	records := make([]Record, 0)
+	kind := ""
+	var body strings.Builder
+	flush := func() error {
+		content := strings.TrimSpace(body.String())
+		body.Reset()
+		switch kind {
+		case KindMemory:
+			entry, err := storage.ParseMemoryMarkdown(content, models.MemoryLayerProject)
+			if err != nil {
+				return err
+			}
+			records = append(records, Record{Kind: KindMemory, Memory: entry})
+		case KindDecision:
+			decision, err := storage.ParseDecisionMarkdown(content)
+			if err != nil {
+				return err
+			}
+			records = append(records, Record{Kind: KindDecision, Decision: decision})
+		}
+		return nil
+	}
+	for _, line := range strings.Split(strings.ReplaceAll(string(data), "\r\n", "\n"), "\n") {
+		trimmed := strings.TrimSpace(line)
+		if strings.HasPrefix(trimmed, markdownMarker) && strings.HasSuffix(trimmed, "-->") {
+			if err := flush(); err != nil {
+				return nil, err
+			}
+			fields := strings.Fields(strings.TrimSuffix(strings.TrimPrefix(trimmed, markdownMarker), "-->"))
+			kind = ""
+			if len(fields) > 0 {
+				kind = fields[0]
+			}
+			continue
+		}
+		body.WriteString(line)
+		body.WriteString("\n")
+	}
+	if err := flush(); err != nil {
+		return nil, err
+	}
+	return records, nil
+}
+
+func hasTag(tags []string, tag string) bool {
+	for _, t := range tags {
+		if strings.EqualFold(t, tag) {
+			return true
+		}
+	}
+	return false
+}
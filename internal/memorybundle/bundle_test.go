@@ -0,0 +1,168 @@
+package memorybundle
+
+import (
+	"bytes"
+	"path/filepath"
+	"testing"
+	"time"
+
+	"github.com/howznguyen/knowns/internal/models"
+	"github.com/howznguyen/knowns/internal/storage"
+)
+
+func newBundleTestStore(t *testing.T) *storage.Store {
+	t.Helper()
+	t.Setenv("HOME", t.TempDir())
+	store := storage.NewStore(filepath.Join(t.TempDir(), ".knowns"))
+	if err := store.Init("memory-bundle-test"); err != nil {
+		t.Fatalf("init store: %v", err)
+	}
+	return store
+}
+
+func createBundleMemory(t *testing.T, store *storage.Store, entry *models.MemoryEntry) {
+	t.Helper()
+	if entry.Layer == "" {
+		entry.Layer = models.MemoryLayerProject
+	}
+	if entry.Status == "" {
+		entry.Status = models.MemoryStatusActive
+	}
+	if err := store.Memory.Create(entry); err != nil {
+		t.Fatalf("create memory %q: %v", entry.ID, err)
+	}
+}
+
+func TestExportRoundTripsInBothFormats(t *testing.T) {
+	store := newBundleTestStore(t)
+	createBundleMemory(t, store, &models.MemoryEntry{ID: "conv01", Title: "Tabs", Category: "convention", Tags: []string{"style"}, Content: "Indent with tabs.\n\n---\n\nEven in YAML examples."})
+	createBundleMemory(t, store, &models.MemoryEntry{ID: "glob01", Title: "Editor", Layer: models.MemoryLayerGlobal, Category: "preference", Tags: []string{"style"}, Content: "Prefer short lines."})
+	createBundleMemory(t, store, &models.MemoryEntry{ID: "prop01", Title: "Maybe", Status: models.MemoryStatusProposed, Category: "convention", Tags: []string{"style"}, Content: "Unreviewed."})
+	if err := store.Decisions.Create(&models.DecisionEntry{Title: "Use Go", Status: models.DecisionStatusAccepted, Tags: []string{"style"}, Decision: "Write the CLI in Go."}, storage.DecisionCreateOptions{}); err != nil {
+		t.Fatalf("create decision: %v", err)
+	}
+
+	records, err := Export(store, Filter{Tags: []string{"style"}, Status: models.MemoryStatusActive})
+	if err != nil {
+		t.Fatalf("Export: %v", err)
+	}
+	if len(records) != 2 || records[0].Memory.ID != "conv01" || records[1].Memory.ID != "glob01" {
+		t.Fatalf("records = %+v, want the two active memories", records)
+	}
+	if records, _ := Export(store, Filter{Category: "decision"}); len(records) != 1 || records[0].Kind != KindDecision {
+		t.Fatalf("decision records = %+v, want the decision", records)
+	}
+
+	all, err := Export(store, Filter{})
+	if err != nil {
+		t.Fatalf("Export all: %v", err)
+	}
+	for _, format := range []string{FormatJSONL, FormatMarkdown} {
+		var buf bytes.Buffer
+		if err := Write(&buf, all, format); err != nil {
+			t.Fatalf("Write %s: %v", format, err)
+		}
+		read, err := Read(&buf, format)
+		if err != nil {
+			t.Fatalf("Read %s: %v", format, err)
+		}
+		if len(read) != len(all) {
+			t.Fatalf("%s: read %d records, want %d", format, len(read), len(all))
+		}
+		for i, record := range read {
+			if record.Kind != all[i].Kind {
+				t.Fatalf("%s record %d kind = %q, want %q", format, i, record.Kind, all[i].Kind)
+			}
+			if record.Memory != nil && (record.Memory.ID != all[i].Memory.ID || record.Memory.Content != all[i].Memory.Content || record.Memory.Layer != all[i].Memory.Layer) {
+				t.Fatalf("%s memory = %+v, want %+v", format, record.Memory, all[i].Memory)
+			}
+			if record.Decision != nil && (record.Decision.ID != all[i].Decision.ID || record.Decision.Decision != "Write the CLI in Go.") {
+				t.Fatalf("%s decision = %+v", format, record.Decision)
+			}
+		}
+	}
+}
+
+func TestImportReviewsDuplicatesAndReportsCounts(t *testing.T) {
+	store := newBundleTestStore(t)
+	createBundleMemory(t, store, &models.MemoryEntry{ID: "vec001", Title: "Default vector database", Category: "decision", Content: "Use Qdrant as the default vector database."})
+	createBundleMemory(t, store, &models.MemoryEntry{ID: "sync01", Title: "Release cadence", Content: "Ship every two weeks.", UpdatedAt: time.Date(2026, 1, 1, 0, 0, 0, 0, time.UTC)})
+
+	records := []Record{
+		{Kind: KindMemory, Memory: &models.MemoryEntry{ID: "new001", Title: "Commit style", Layer: models.MemoryLayerProject, Status: models.MemoryStatusActive, Content: "Prefix commit subjects with the ticket id."}},
+		{Kind: KindMemory, Memory: &models.MemoryEntry{ID: "dup001", Title: "Default vector database", Layer: models.MemoryLayerProject, Status: models.MemoryStatusActive, Category: "decision", Content: "Use Qdrant as the default vector database."}},
+		{Kind: KindMemory, Memory: &models.MemoryEntry{ID: "near01", Title: "Vector store choice", Layer: models.MemoryLayerProject, Status: models.MemoryStatusActive, Category: "decision", Content: "Use Qdrant as the default vector database here."}},
+		{Kind: KindMemory, Memory: &models.MemoryEntry{ID: "sync01", Title: "Release cadence", Layer: models.MemoryLayerProject, Status: models.MemoryStatusActive, Content: "Ship every week.", UpdatedAt: time.Date(2026, 2, 1, 0, 0, 0, 0, time.UTC)}},
+		{Kind: KindMemory, Memory: &models.MemoryEntry{ID: "other1", Title: "Filtered out", Layer: models.MemoryLayerProject, Status: models.MemoryStatusProposed, Content: "Not imported."}},
+	}
+	report, err := Import(store, records, ImportOptions{Filter: Filter{Status: models.MemoryStatusActive}, Actor: "tester", Source: "import"})
+	if err != nil {
+		t.Fatalf("Import: %v", err)
+	}
+	if report.Created != 1 || report.Merged != 1 || report.Skipped != 1 || report.Updated != 1 || report.Failed != 0 {
+		t.Fatalf("report = %+v, want 1 created, 1 merged, 1 skipped, 1 updated", report)
+	}
+	if created, err := store.Memory.Get("new001"); err != nil || created.Status != models.MemoryStatusActive {
+		t.Fatalf("created memory = %+v, %v", created, err)
+	}
+	if merged, err := store.Memory.Get("near01"); err != nil || merged.Status != models.MemoryStatusMerged || merged.MergedInto != "vec001" {
+		t.Fatalf("near duplicate = %+v, %v; want merged into vec001", merged, err)
+	}
+	if _, err := store.Memory.Get("dup001"); err == nil {
+		t.Fatal("identical memory should be skipped, not written")
+	}
+	if synced, _ := store.Memory.Get("sync01"); synced.Content != "Ship every week." {
+		t.Fatalf("synced content = %q, want the newer bundle copy", synced.Content)
+	}
+	if _, err := store.Memory.Get("other1"); err == nil {
+		t.Fatal("filtered records should not be imported")
+	}
+
+	again, err := Import(store, records[:1], ImportOptions{})
+	if err != nil {
+		t.Fatalf("second Import: %v", err)
+	}
+	if again.Skipped != 1 || again.Created != 0 {
+		t.Fatalf("second report = %+v, want the existing memory skipped", again)
+	}
+}
+
+func TestImportSendsASameTitleWithNewContentThroughThePolicy(t *testing.T) {
+	store := newBundleTestStore(t)
+	createBundleMemory(t, store, &models.MemoryEntry{ID: "rel001", Title: "Release notes", Content: "Write release notes in CHANGELOG.md."})
+	records := []Record{{Kind: KindMemory, Memory: &models.MemoryEntry{ID: "rel002", Title: "Release notes", Layer: models.MemoryLayerProject, Status: models.MemoryStatusActive, Content: "Publish release notes on the GitHub release page."}}}
+
+	skipped, err := Import(store, records, ImportOptions{OnDuplicate: OnDuplicateSkip})
+	if err != nil {
+		t.Fatalf("Import skip: %v", err)
+	}
+	if skipped.Skipped != 1 || skipped.Items[0].Reason != "similar memory exists" {
+		t.Fatalf("skip report = %+v, want the policy to skip a similar memory", skipped)
+	}
+
+	merged, err := Import(store, records, ImportOptions{})
+	if err != nil {
+		t.Fatalf("Import merge: %v", err)
+	}
+	if merged.Merged != 1 || merged.Skipped != 0 {
+		t.Fatalf("merge report = %+v, want the new content merged rather than skipped as identical", merged)
+	}
+	if entry, err := store.Memory.Get("rel002"); err != nil || entry.MergedInto != "rel001" {
+		t.Fatalf("imported memory = %+v, %v; want merged into rel001", entry, err)
+	}
+}
+
+func TestImportMovesMemoriesIntoTheGlobalLayer(t *testing.T) {
+	store := newBundleTestStore(t)
+	records := []Record{{Kind: KindMemory, Memory: &models.MemoryEntry{ID: "seed01", Title: "Seeded", Layer: models.MemoryLayerProject, Status: models.MemoryStatusActive, Content: "Curated guidance."}}}
+	report, err := Import(store, records, ImportOptions{Layer: models.MemoryLayerGlobal, OnDuplicate: OnDuplicateSkip})
+	if err != nil || report.Created != 1 {
+		t.Fatalf("Import = %+v, %v", report, err)
+	}
+	if entry, err := store.Memory.GetInLayer("seed01", models.MemoryLayerGlobal); err != nil || entry.Layer != models.MemoryLayerGlobal {
+		t.Fatalf("global memory = %+v, %v", entry, err)
+	}
+	if _, err := Import(store, records, ImportOptions{Layer: "working"}); err == nil {
+		t.Fatal("importing into the working layer should fail")
+	}
+}
@@ -0,0 +1,272 @@
+package memorybundle
+
+import (
+	"fmt"
+	"strings"
+
+	"github.com/howznguyen/knowns/internal/decisionreview"
+	"github.com/howznguyen/knowns/internal/memoryreview"
+	"github.com/howznguyen/knowns/internal/models"
+	"github.com/howznguyen/knowns/internal/storage"
+)
+
+const (
+	// OnDuplicateMerge resolves a memory that needs review as merge_existing
+	// into its closest match. It is the default.
+	OnDuplicateMerge = "merge"
+	// OnDuplicateSkip leaves memories and decisions that need review out.
+	OnDuplicateSkip = "skip"
+	// OnDuplicatePropose imports them anyway, as proposed memories or draft
+	// decisions for a later review.
+	OnDuplicatePropose = "propose"
+
+	OutcomeCreated = "created"
+	OutcomeMerged  = "merged"
+	OutcomeUpdated = "updated"
+	OutcomeSkipped = "skipped"
+	OutcomeFailed  = "failed"
+)
+
+// ImportOptions controls how bundle records land in the store. Layer, when
+// set, moves every memory into that persistent layer. Actor and Source
+// attribute the memory revisions the import writes.
+type ImportOptions struct {
+	Filter      Filter
+	Layer       string
+	OnDuplicate string
+	Actor       string
+	Source      string
+}
+
+// ImportItem reports what happened to one record. TargetID names the memory
+// or decision a record was merged into, matched against or updated.
+type ImportItem struct {
+	Kind     string `json:"kind"`
+	ID       string `json:"id,omitempty"`
+	Title    string `json:"title"`
+	Outcome  string `json:"outcome"`
+	TargetID string `json:"targetId,omitempty"`
+	Reason   string `json:"reason,omitempty"`
+}
+
+// ImportReport counts the import outcomes. ChangedMemoryIDs lists the
+// memories written, for reindexing and change notifications.
+type ImportReport struct {
+	Created          int          `json:"created"`
+	Merged           int          `json:"merged"`
+	Updated          int          `json:"updated"`
+	Skipped          int          `json:"skipped"`
+	Failed           int          `json:"failed"`
+	Items            []ImportItem `json:"items"`
+	ChangedMemoryIDs []string     `json:"changedMemoryIds,omitempty"`
+}
+
+// ValidOnDuplicate reports whether policy names a supported duplicate policy.
+func ValidOnDuplicate(policy string) bool {
+	switch policy {
+	case "", OnDuplicateMerge, OnDuplicateSkip, OnDuplicatePropose:
+		return true
+	default:
+		return false
+	}
+}
+
+// Import runs every record that passes opts.Filter through the same duplicate
+// review as a newly created memory or decision. A record whose ID already
+// exists is a sync of that entry: a memory is updated when the bundle copy is
+// newer, anything else is skipped. One failed record does not stop the rest.
+func Import(store *storage.Store, records []Record, opts ImportOptions) (*ImportReport, error) {
+	if opts.Layer != "" && !models.ValidPersistentMemoryLayer(opts.Layer) {
+		return nil, fmt.Errorf("invalid persistent memory layer: %q", opts.Layer)
+	}
+	if !ValidOnDuplicate(opts.OnDuplicate) {
+		return nil, fmt.Errorf("invalid duplicate policy: %q", opts.OnDuplicate)
+	}
+	if opts.OnDuplicate == "" {
+		opts.OnDuplicate = OnDuplicateMerge
+	}
+	report := &ImportReport{Items: make([]ImportItem, 0, len(records))}
+	memories := memoryreview.New(store)
+	decisions := decisionreview.New(store)
+	for _, record := range records {
+		if !opts.Filter.Match(record) {
+			continue
+		}
+		var item ImportItem
+		var changed []string
+		var err error
+		switch record.Kind {
+		case KindMemory:
+			item, changed, err = importMemory(memories, record.Memory, opts)
+		case KindDecision:
+			item, err = importDecision(decisions, record.Decision, opts)
+		default:
+			continue
+		}
+		if err != nil {
+			item.Outcome = OutcomeFailed
+			item.Reason = err.Error()
+		}
+		report.add(item)
+		report.ChangedMemoryIDs = append(report.ChangedMemoryIDs, changed...)
+	}
+	return report, nil
+}
+
+// CreatedDecisionIDs lists the decisions the import wrote.
+func (r *ImportReport) CreatedDecisionIDs() []string {
+	ids := make([]string, 0)
+	for _, item := range r.Items {
+		if item.Kind == KindDecision && item.Outcome == OutcomeCreated {
+			ids = append(ids, item.ID)
+		}
+	}
+	return ids
+}
+
+func (r *ImportReport) add(item ImportItem) {
+	switch item.Outcome {
+	case OutcomeCreated:
+		r.Created++
+	case OutcomeMerged:
+		r.Merged++
+	case OutcomeUpdated:
+		r.Updated++
+	case OutcomeSkipped:
+		r.Skipped++
+	case OutcomeFailed:
+		r.Failed++
+	}
+	r.Items = append(r.Items, item)
+}
+
+func importMemory(service *memoryreview.Service, source *models.MemoryEntry, opts ImportOptions) (ImportItem, []string, error) {
+	entry := *source
+	entry.LifecycleMetadataMissing = nil
+	if opts.Layer != "" {
+		entry.Layer = opts.Layer
+	}
+	item := ImportItem{Kind: KindMemory, ID: entry.ID, Title: entry.Title}
+	revision := storage.MemoryRevisionOptions{Actor: opts.Actor, Source: opts.Source, Resolution: "import"}
+
+	if entry.ID != "" {
+		if existing, err := service.Store.Memory.Get(entry.ID); err == nil {
+			item.TargetID = existing.ID
+			if existing.Layer != entry.Layer {
+				item.Outcome = OutcomeSkipped
+				item.Reason = fmt.Sprintf("id already used in the %s layer", existing.Layer)
+				return item, nil, nil
+			}
+			if !entry.UpdatedAt.After(existing.UpdatedAt) || sameMemory(existing, &entry) {
+				item.Outcome = OutcomeSkipped
+				item.Reason = "already up to date"
+				return item, nil, nil
+			}
+			entry.CreatedAt = existing.CreatedAt
+			if err := service.Store.Memory.UpdateWithRevision(&entry, revision); err != nil {
+				return item, nil, err
+			}
+			item.Outcome = OutcomeUpdated
+			return item, []string{entry.ID}, nil
+		}
+	}
+
+	result, err := service.Add(&entry, memoryreview.AddOptions{Status: entry.Status, Actor: opts.Actor, Source: opts.Source})
+	if err != nil {
+		return item, nil, err
+	}
+	if result.Status == memoryreview.ResultCreated {
+		item.ID = result.Memory.ID
+		item.Outcome = OutcomeCreated
+		return item, result.ChangedIDs, nil
+	}
+
+	// Only a memory that already says the same thing is skipped outright. A
+	// matching title over different content is a duplicate for the policy.
+	best := result.Matches[0]
+	item.TargetID = best.ID
+	matched, err := service.Store.Memory.Get(best.ID)
+	switch {
+	case err == nil && sameMemory(matched, &entry):
+		item.Outcome = OutcomeSkipped
+		item.Reason = "identical memory exists"
+		return item, nil, nil
+	case opts.OnDuplicate == OnDuplicateSkip:
+		item.Outcome = OutcomeSkipped
+		item.Reason = "similar memory exists"
+		return item, nil, nil
+	}
+	resolve := memoryreview.ResolveOptions{Actor: opts.Actor, Source: opts.Source}
+	outcome := OutcomeMerged
+	if opts.OnDuplicate == OnDuplicatePropose {
+		resolve.Resolution = memoryreview.ResolutionCreateProposed
+		outcome = OutcomeCreated
+	} else {
+		resolve.Resolution = memoryreview.ResolutionMergeExisting
+		resolve.TargetID = best.ID
+	}
+	resolved, err := service.Resolve(result.Candidate, resolve)
+	if err != nil {
+		return item, nil, err
+	}
+	item.ID = resolved.Memory.ID
+	item.Outcome = outcome
+	return item, resolved.ChangedIDs, nil
+}
+
+func importDecision(service *decisionreview.Service, source *models.DecisionEntry, opts ImportOptions) (ImportItem, error) {
+	decision := *source
+	item := ImportItem{Kind: KindDecision, ID: decision.ID, Title: decision.Title}
+	if decision.ID != "" {
+		if _, err := service.Store.Decisions.Get(decision.ID); err == nil {
+			item.TargetID = decision.ID
+			item.Outcome = OutcomeSkipped
+			item.Reason = "decision already exists"
+			return item, nil
+		}
+	}
+
+	result, err := service.Add(&decision, decisionreview.AddOptions{Status: decision.Status})
+	if err != nil {
+		return item, err
+	}
+	if result.Status == decisionreview.ResultCreated {
+		item.ID = result.Decision.ID
+		item.Outcome = OutcomeCreated
+		return item, nil
+	}
+
+	// Decisions have no merge; a similar or conflicting decision is only
+	// imported as a draft when asked to.
+	best := result.Matches[0]
+	item.TargetID = best.ID
+	if opts.OnDuplicate != OnDuplicatePropose {
+		item.Outcome = OutcomeSkipped
+		item.Reason = fmt.Sprintf("%s of an existing decision", firstNonEmpty(best.Kind, decisionreview.MatchDuplicate))
+		return item, nil
+	}
+	resolved, err := service.Resolve(result.Candidate, decisionreview.ResolveOptions{Resolution: decisionreview.ResolutionCreateDraft})
+	if err != nil {
+		return item, err
+	}
+	item.ID = resolved.Decision.ID
+	item.Outcome = OutcomeCreated
+	return item, nil
+}
+
+func sameMemory(a, b *models.MemoryEntry) bool {
+	return a.Title == b.Title &&
+		strings.TrimSpace(a.Content) == strings.TrimSpace(b.Content) &&
+		a.Category == b.Category &&
+		a.Status == b.Status &&
+		strings.Join(a.Tags, "\x00") == strings.Join(b.Tags, "\x00")
+}
+
+func firstNonEmpty(values ...string) string {
+	for _, value := range values {
+		if value != "" {
+			return value
+		}
+	}
+	return ""
+}
@@ -0,0 +1,264 @@
+package memoryreview
+
+import (
+	"fmt"
+	"sort"
+	"strings"
+
+	"github.com/howznguyen/knowns/internal/models"
+	"github.com/howznguyen/knowns/internal/search"
+)
+
+const defaultClusterThreshold = 0.85
+
+// EmbedFunc embeds a batch of memory texts, one vector per text.
+type EmbedFunc func(texts []string) ([][]float32, error)
+
+// Cluster is a group of existing memories linked by embedding similarity at
+// or above the requested threshold, directly or through another member.
+// SurvivorID is the suggested memory to keep; each member's Score is its
+// similarity to the survivor.
+type Cluster struct {
+	SurvivorID    string  `json:"survivorId"`
+	Score         float64 `json:"score"`
+	Members       []Match `json:"members"`
+	SuggestedText string  `json:"suggestedText"`
+}
+
+// ClusterMergeOptions merges every member of a cluster into SurvivorID.
+// Content, when set, replaces the survivor's content first.
+type ClusterMergeOptions struct {
+	SurvivorID  string
+	MemberIDs   []string
+	Content     string
+	Actor       string
+	Source      string
+	OperationID string
+}
+
+// FindClusters groups the proposed, active and stale project and global
+// memories by embedding similarity. Pairs below threshold (0.85 when zero)
+// are not linked. Clusters come back largest first.
+func (s *Service) FindClusters(threshold float64) ([]Cluster, error) {
+	if threshold <= 0 {
+		threshold = defaultClusterThreshold
+	}
+	entries, err := s.Store.Memory.ListPersistent("")
+	if err != nil {
+		return nil, err
+	}
+	candidates := make([]*models.MemoryEntry, 0, len(entries))
+	for _, entry := range entries {
+		if clusterCandidate(entry) {
+			candidates = append(candidates, entry)
+		}
+	}
+	clusters := make([]Cluster, 0)
+	if len(candidates) < 2 {
+		return clusters, nil
+	}
+
+	texts := make([]string, len(candidates))
+	for i, entry := range candidates {
+		texts[i] = candidateSearchText(entry)
+	}
+	vectors, err := s.embed(texts)
+	if err != nil {
+		return nil, err
+	}
+	if len(vectors) != len(candidates) {
+		return nil, fmt.Errorf("embedder returned %d vectors for %d memories", len(vectors), len(candidates))
+	}
+
+	// Single-linkage grouping: any pair above threshold joins the two groups.
+	parent := make([]int, len(candidates))
+	for i := range parent {
+		parent[i] = i
+	}
+	var find func(int) int
+	find = func(i int) int {
+		if parent[i] != i {
+			parent[i] = find(parent[i])
+		}
+		return parent[i]
+	}
+	for i := range candidates {
+		for j := i + 1; j < len(candidates); j++ {
+			if search.CosineSimilarity(vectors[i], vectors[j]) >= threshold {
+				parent[find(i)] = find(j)
+			}
+		}
+	}
+	groups := make(map[int][]int)
+	for i := range candidates {
+		root := find(i)
+		groups[root] = append(groups[root], i)
+	}
+
+	for _, group := range groups {
+		if len(group) < 2 {
+			continue
+		}
+		survivor := group[0]
+		for _, index := range group[1:] {
+			if preferSurvivor(candidates[index], candidates[survivor]) {
+				survivor = index
+			}
+		}
+		cluster := Cluster{SurvivorID: candidates[survivor].ID}
+		for _, index := range group {
+			score := 1.0
+			if index != survivor {
+				score = search.CosineSimilarity(vectors[index], vectors[survivor])
+				if score > cluster.Score {
+					cluster.Score = score
+				}
+			}
+			cluster.Members = append(cluster.Members, matchFromEntry(candidates[index], score, []string{"semantic"}, candidates[index].Content))
+		}
+		sortMatches(cluster.Members)
+		sort.SliceStable(cluster.Members, func(i, j int) bool {
+			return cluster.Members[i].ID == cluster.SurvivorID && cluster.Members[j].ID != cluster.SurvivorID
+		})
+		cluster.SuggestedText = suggestedMergeText(candidates, group, survivor)
+		clusters = append(clusters, cluster)
+	}
+	sort.SliceStable(clusters, func(i, j int) bool {
+		if len(clusters[i].Members) != len(clusters[j].Members) {
+			return len(clusters[i].Members) > len(clusters[j].Members)
+		}
+		if clusters[i].Score != clusters[j].Score {
+			return clusters[i].Score > clusters[j].Score
+		}
+		return clusters[i].SurvivorID < clusters[j].SurvivorID
+	})
+	return clusters, nil
+}
+
+// MergeCluster resolves every member other than the survivor as
+// merge_existing into it. The survivor and every member must be active,
+// proposed or stale, and nothing is written when one is not. All of the writes
+// share opts.OperationID so the merge can be undone as one operation.
+func (s *Service) MergeCluster(opts ClusterMergeOptions) (*Result, error) {
+	if opts.SurvivorID == "" {
+		return nil, fmt.Errorf("survivorId is required")
+	}
+	survivor, err := s.Store.Memory.Get(opts.SurvivorID)
+	if err != nil {
+		return nil, err
+	}
+	if !clusterCandidate(survivor) {
+		return nil, fmt.Errorf("survivor %s is %s; choose an active, proposed or stale memory", survivor.ID, survivor.Status)
+	}
+	members := make([]*models.MemoryEntry, 0, len(opts.MemberIDs))
+	for _, id := range opts.MemberIDs {
+		if id == "" || id == opts.SurvivorID {
+			continue
+		}
+		entry, err := s.Store.Memory.Get(id)
+		if err != nil {
+			return nil, err
+		}
+		if !clusterCandidate(entry) {
+			return nil, fmt.Errorf("memory %s is %s; only active, proposed or stale memories can be merged", entry.ID, entry.Status)
+		}
+		members = append(members, entry)
+	}
+	if len(members) == 0 {
+		return nil, fmt.Errorf("at least one memory other than the survivor is required")
+	}
+
+	resolve := ResolveOptions{
+		Resolution:  ResolutionMergeExisting,
+		TargetID:    survivor.ID,
+		Actor:       opts.Actor,
+		Source:      opts.Source,
+		OperationID: opts.OperationID,
+	}
+	result := &Result{Status: ResultResolved, Resolution: ResolutionMergeExisting, Memory: survivor}
+	if content := strings.TrimSpace(opts.Content); content != "" && content != survivor.Content {
+		updated := cloneMemory(survivor)
+		updated.Content = content
+		now := s.now()
+		updated.LastVerified = now
+		updated.UpdatedAt = now
+		related := make([]string, 0, len(members))
+		for _, member := range members {
+			related = append(related, member.ID)
+		}
+		if err := s.Store.Memory.UpdateWithRevision(updated, revisionOptions(resolve, related...)); err != nil {
+			return nil, err
+		}
+		result.Memory = updated
+		result.ChangedIDs = append(result.ChangedIDs, updated.ID)
+	}
+	for _, member := range members {
+		merged, err := s.mergeExisting(member, resolve)
+		if err != nil {
+			return result, fmt.Errorf("merge memory %s: %w", member.ID, err)
+		}
+		result.ChangedIDs = append(result.ChangedIDs, merged.ChangedIDs...)
+	}
+	return result, nil
+}
+
+func (s *Service) embed(texts []string) ([][]float32, error) {
+	if s.Embed != nil {
+		return s.Embed(texts)
+	}
+	session, err := search.InitSemanticRuntimeSession(s.Store)
+	if err != nil {
+		return nil, err
+	}
+	defer session.Close()
+	if session.Embedder == nil {
+		return nil, search.ErrSemanticNotConfigured
+	}
+	return session.Embedder.EmbedDocumentBatch(texts)
+}
+
+func clusterCandidate(entry *models.MemoryEntry) bool {
+	switch entry.Status {
+	case models.MemoryStatusProposed, models.MemoryStatusStale:
+		return true
+	default:
+		return entry.CurrentForDefaultRetrieval()
+	}
+}
+
+// preferSurvivor reports whether a makes a better survivor than b: active
+// memories first, then the one with more content, then the most recently
+// verified.
+func preferSurvivor(a, b *models.MemoryEntry) bool {
+	if aActive, bActive := a.CurrentForDefaultRetrieval(), b.CurrentForDefaultRetrieval(); aActive != bActive {
+		return aActive
+	}
+	if len(a.Content) != len(b.Content) {
+		return len(a.Content) > len(b.Content)
+	}
+	return a.LastVerified.After(b.LastVerified)
+}
+
+// suggestedMergeText keeps the survivor's content and appends the lines of
+// the other members that it does not already contain.
+func suggestedMergeText(candidates []*models.MemoryEntry, group []int, survivor int) string {
+	seen := make(map[string]bool)
+	lines := strings.Split(strings.TrimSpace(candidates[survivor].Content), "\n")
+	for _, line := range lines {
+		seen[normalizedText(line)] = true
+	}
+	for _, index := range group {
+		if index == survivor {
+			continue
+		}
+		for _, line := range strings.Split(strings.TrimSpace(candidates[index].Content), "\n") {
+			key := normalizedText(line)
+			if key == "" || seen[key] {
+				continue
+			}
+			seen[key] = true
+			lines = append(lines, line)
+		}
+	}
+	return strings.TrimSpace(strings.Join(lines, "\n"))
+}
@@ -0,0 +1,113 @@
+package memoryreview
+
+import (
+	"strings"
+	"testing"
+
+	"github.com/howznguyen/knowns/internal/models"
+)
+
+// topicEmbedder places every text on one of two axes by keyword, so texts
+// about the same topic are identical vectors and different topics are
+// orthogonal.
+func topicEmbedder(texts []string) ([][]float32, error) {
+	vectors := make([][]float32, len(texts))
+	for i, text := range texts {
+		switch {
+		case strings.Contains(strings.ToLower(text), "qdrant"):
+			vectors[i] = []float32{1, 0, 0}
+		case strings.Contains(strings.ToLower(text), "pnpm"):
+			vectors[i] = []float32{0, 1, 0}
+		default:
+			vectors[i] = []float32{0, 0, 1}
+		}
+	}
+	return vectors, nil
+}
+
+func TestFindClustersGroupsSimilarMemories(t *testing.T) {
+	store := newReviewTestStore(t)
+	createReviewMemory(t, store, &models.MemoryEntry{ID: "vec1", Title: "Vector DB", Content: "Use Qdrant for vectors.\nRun it in Docker locally."})
+	createReviewMemory(t, store, &models.MemoryEntry{ID: "vec2", Title: "Qdrant", Status: models.MemoryStatusProposed, Content: "Use Qdrant for vectors.\nPin the Qdrant image version."})
+	createReviewMemory(t, store, &models.MemoryEntry{ID: "vec3", Title: "Vectors", Layer: models.MemoryLayerGlobal, Content: "Qdrant stores embeddings."})
+	createReviewMemory(t, store, &models.MemoryEntry{ID: "pkg1", Title: "Package manager", Content: "Use pnpm."})
+	createReviewMemory(t, store, &models.MemoryEntry{ID: "old1", Title: "Old vectors", Status: models.MemoryStatusArchived, Content: "Qdrant was evaluated."})
+
+	service := New(store)
+	service.Embed = topicEmbedder
+	clusters, err := service.FindClusters(0)
+	if err != nil {
+		t.Fatalf("FindClusters: %v", err)
+	}
+	if len(clusters) != 1 {
+		t.Fatalf("clusters = %+v, want one cluster", clusters)
+	}
+	cluster := clusters[0]
+	if cluster.SurvivorID != "vec1" || len(cluster.Members) != 3 || cluster.Members[0].ID != "vec1" {
+		t.Fatalf("cluster = %+v, want vec1 surviving three members", cluster)
+	}
+	for _, member := range cluster.Members {
+		if member.ID == "old1" {
+			t.Fatal("archived memories should not be clustered")
+		}
+	}
+	want := "Use Qdrant for vectors.\nRun it in Docker locally.\nPin the Qdrant image version.\nQdrant stores embeddings."
+	if cluster.SuggestedText != want {
+		t.Fatalf("suggested text = %q, want %q", cluster.SuggestedText, want)
+	}
+}
+
+func TestMergeClusterMergesMembersIntoSurvivor(t *testing.T) {
+	store := newReviewTestStore(t)
+	createReviewMemory(t, store, &models.MemoryEntry{ID: "keep1", Title: "Vector DB", Content: "Use Qdrant."})
+	createReviewMemory(t, store, &models.MemoryEntry{ID: "dupe1", Title: "Qdrant", Content: "Qdrant is the vector DB."})
+	createReviewMemory(t, store, &models.MemoryEntry{ID: "dupe2", Title: "Vectors", Status: models.MemoryStatusProposed, Content: "Vectors go to Qdrant."})
+
+	result, err := New(store).MergeCluster(ClusterMergeOptions{
+		SurvivorID:  "keep1",
+		MemberIDs:   []string{"keep1", "dupe1", "dupe2"},
+		Content:     "Use Qdrant as the vector DB.",
+		Actor:       "tester",
+		OperationID: "op-test",
+	})
+	if err != nil {
+		t.Fatalf("MergeCluster: %v", err)
+	}
+	if len(result.ChangedIDs) != 3 {
+		t.Fatalf("changed = %v, want survivor and both members", result.ChangedIDs)
+	}
+	survivor, _ := store.Memory.Get("keep1")
+	if survivor.Content != "Use Qdrant as the vector DB." || survivor.Status != models.MemoryStatusActive {
+		t.Fatalf("survivor = %+v", survivor)
+	}
+	for _, id := range []string{"dupe1", "dupe2"} {
+		entry, _ := store.Memory.Get(id)
+		if entry.Status != models.MemoryStatusMerged || entry.MergedInto != "keep1" {
+			t.Fatalf("%s = status %q merged into %q, want merged into keep1", id, entry.Status, entry.MergedInto)
+		}
+		h, _ := store.Memory.GetHistory(id)
+		if last := h.Versions[len(h.Versions)-1]; last.OperationID != "op-test" || last.Resolution != ResolutionMergeExisting {
+			t.Fatalf("%s revision = %+v", id, last)
+		}
+	}
+
+	if _, err := New(store).MergeCluster(ClusterMergeOptions{SurvivorID: "keep1", MemberIDs: []string{"keep1"}}); err == nil {
+		t.Fatal("merging a cluster without other members should fail")
+	}
+	createReviewMemory(t, store, &models.MemoryEntry{ID: "dupe3", Title: "Qdrant again", Content: "Qdrant stores vectors."})
+	if _, err := New(store).MergeCluster(ClusterMergeOptions{SurvivorID: "dupe1", MemberIDs: []string{"dupe1", "dupe3"}}); err == nil {
+		t.Fatal("merging into an already merged survivor should fail")
+	}
+	if entry, _ := store.Memory.Get("dupe3"); entry.Status != models.MemoryStatusActive {
+		t.Fatalf("dupe3 status = %q, want it left active", entry.Status)
+	}
+	if _, err := New(store).MergeCluster(ClusterMergeOptions{SurvivorID: "keep1", MemberIDs: []string{"keep1", "dupe3", "dupe1"}, Content: "Qdrant only."}); err == nil {
+		t.Fatal("merging an already merged member should fail")
+	}
+	if entry, _ := store.Memory.Get("dupe3"); entry.Status != models.MemoryStatusActive {
+		t.Fatalf("dupe3 status = %q, want nothing merged when a member is not eligible", entry.Status)
+	}
+	if survivor, _ := store.Memory.Get("keep1"); survivor.Content != "Use Qdrant as the vector DB." {
+		t.Fatalf("survivor content = %q, want it unchanged", survivor.Content)
+	}
+}
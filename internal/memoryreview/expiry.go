@@ -0,0 +1,142 @@
+package memoryreview
+
+import (
+	"errors"
+	"fmt"
+	"sort"
+	"time"
+
+	"github.com/howznguyen/knowns/internal/models"
+	"github.com/howznguyen/knowns/internal/storage"
+)
+
+const (
+	// ExpiryActor attributes the revisions written by the expiry sweep.
+	ExpiryActor = "memory-expiry"
+
+	ResolutionExpire        = "expire"
+	ResolutionExpireArchive = "expire_archive"
+)
+
+// ExpiryResult reports one expiry sweep: how many memories were past their
+// TTL, the ones it moved to stale and the stale ones it archived. A failed
+// memory does not stop the sweep.
+type ExpiryResult struct {
+	Expired  int      `json:"expired"`
+	Staled   []string `json:"staled"`
+	Archived []string `json:"archived"`
+	Failed   []string `json:"failed,omitempty"`
+}
+
+// ChangedIDs lists every memory the sweep wrote.
+func (r *ExpiryResult) ChangedIDs() []string {
+	return append(append([]string(nil), r.Staled...), r.Archived...)
+}
+
+// ExpiryItem is a memory with a TTL, as charted by the TTL dashboard.
+// ArchivesAt is the earliest the sweep archives it: archiveAfter past the time
+// it went stale, or past its expiry (or now, when already expired) for a memory
+// that is still active.
+type ExpiryItem struct {
+	ID           string    `json:"id"`
+	Title        string    `json:"title"`
+	Layer        string    `json:"layer"`
+	Category     string    `json:"category,omitempty"`
+	Status       string    `json:"status"`
+	TTLDays      int       `json:"ttlDays"`
+	LastVerified time.Time `json:"lastVerified"`
+	ExpiresAt    time.Time `json:"expiresAt"`
+	ArchivesAt   time.Time `json:"archivesAt"`
+}
+
+// SweepExpired moves active memories past their TTL to stale, and archives
+// expired memories that have been stale for more than archiveAfter, so each
+// one gets the full grace period to be re-verified. Memories that were never
+// verified or have no TTL are left alone, and so are global memories: the
+// expiry settings belong to the project, and global ones are shared with
+// every other project on the machine.
+func (s *Service) SweepExpired(archiveAfter time.Duration) (*ExpiryResult, error) {
+	entries, err := s.Store.Memory.ListPersistent(models.MemoryLayerProject)
+	if err != nil {
+		return nil, err
+	}
+	now := s.now()
+	result := &ExpiryResult{Staled: []string{}, Archived: []string{}}
+	var failures []error
+	for _, entry := range entries {
+		expiresAt, ok := entry.ExpiresAt()
+		if !ok || !now.After(expiresAt) {
+			continue
+		}
+		result.Expired++
+		resolution := ""
+		switch {
+		case entry.CurrentForDefaultRetrieval():
+			entry.Status = models.MemoryStatusStale
+			resolution = ResolutionExpire
+		case entry.Status == models.MemoryStatusStale && entry.StaleSince.IsZero():
+			// Stale from before the store stamped staleSince: writing it back
+			// stamps it, and the grace period starts now.
+			if err := s.Store.Memory.Update(entry); err != nil {
+				result.Failed = append(result.Failed, entry.ID)
+				failures = append(failures, fmt.Errorf("stamp stale memory %s: %w", entry.ID, err))
+			}
+			continue
+		case entry.Status == models.MemoryStatusStale && now.After(entry.StaleSince.Add(archiveAfter)):
+			entry.Status = models.MemoryStatusArchived
+			resolution = ResolutionExpireArchive
+		default:
+			continue
+		}
+		revision := storage.MemoryRevisionOptions{Actor: ExpiryActor, Source: "sweep", Resolution: resolution}
+		if err := s.Store.Memory.UpdateWithRevision(entry, revision); err != nil {
+			result.Failed = append(result.Failed, entry.ID)
+			failures = append(failures, fmt.Errorf("expire memory %s: %w", entry.ID, err))
+			continue
+		}
+		if resolution == ResolutionExpire {
+			result.Staled = append(result.Staled, entry.ID)
+		} else {
+			result.Archived = append(result.Archived, entry.ID)
+		}
+	}
+	return result, errors.Join(failures...)
+}
+
+// ExpiryForecast lists the project's active and stale memories that have a
+// TTL, soonest expiry first. Like the sweep, it leaves global memories out.
+func (s *Service) ExpiryForecast(archiveAfter time.Duration) ([]ExpiryItem, error) {
+	entries, err := s.Store.Memory.ListPersistent(models.MemoryLayerProject)
+	if err != nil {
+		return nil, err
+	}
+	now := s.now()
+	items := make([]ExpiryItem, 0)
+	for _, entry := range entries {
+		expiresAt, ok := entry.ExpiresAt()
+		if !ok || (!entry.CurrentForDefaultRetrieval() && entry.Status != models.MemoryStatusStale) {
+			continue
+		}
+		graceStart := expiresAt
+		if !entry.StaleSince.IsZero() {
+			graceStart = entry.StaleSince
+		} else if graceStart.Before(now) {
+			graceStart = now
+		}
+		items = append(items, ExpiryItem{
+			ID:           entry.ID,
+			Title:        entry.Title,
+			Layer:        entry.Layer,
+			Category:     entry.Category,
+			Status:       entry.Status,
+			TTLDays:      entry.TTLDays,
+			LastVerified: entry.LastVerified,
+			ExpiresAt:    expiresAt,
+			ArchivesAt:   graceStart.Add(archiveAfter),
+		})
+	}
+	sort.SliceStable(items, func(i, j int) bool {
+		return items[i].ExpiresAt.Before(items[j].ExpiresAt)
+	})
+	return items, nil
+}
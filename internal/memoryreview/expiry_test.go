@@ -0,0 +1,134 @@
+package memoryreview
+
+import (
+	"os"
+	"path/filepath"
+	"strings"
+	"testing"
+	"time"
+
+	"github.com/howznguyen/knowns/internal/models"
+)
+
+func TestSweepExpiredStalesThenArchivesAfterGrace(t *testing.T) {
+	store := newReviewTestStore(t)
+	// The store stamps staleSince with the wall clock, so the sweep clock
+	// starts there too.
+	now := time.Now().UTC()
+	createReviewMemory(t, store, &models.MemoryEntry{ID: "fresh1", Title: "Fresh", TTLDays: 30, LastVerified: now.AddDate(0, 0, -10)})
+	createReviewMemory(t, store, &models.MemoryEntry{ID: "expired1", Title: "Expired", TTLDays: 30, LastVerified: now.AddDate(0, 0, -31)})
+	createReviewMemory(t, store, &models.MemoryEntry{ID: "stale1", Title: "Long stale", Status: models.MemoryStatusStale, StaleSince: now.AddDate(0, 0, -20), TTLDays: 30, LastVerified: now.AddDate(0, 0, -60)})
+	createReviewMemory(t, store, &models.MemoryEntry{ID: "proposed1", Title: "Proposed", Status: models.MemoryStatusProposed, TTLDays: 1, LastVerified: now.AddDate(0, 0, -60)})
+	createReviewMemory(t, store, &models.MemoryEntry{ID: "nottl1", Title: "No TTL", LastVerified: now.AddDate(-1, 0, 0)})
+	createReviewMemory(t, store, &models.MemoryEntry{ID: "global1", Title: "Global", Layer: models.MemoryLayerGlobal, TTLDays: 30, LastVerified: now.AddDate(0, 0, -31)})
+
+	service := New(store)
+	service.Now = func() time.Time { return now }
+	result, err := service.SweepExpired(14 * 24 * time.Hour)
+	if err != nil {
+		t.Fatalf("SweepExpired: %v", err)
+	}
+	if len(result.Staled) != 1 || result.Staled[0] != "expired1" {
+		t.Fatalf("staled = %v, want expired1", result.Staled)
+	}
+	if len(result.Archived) != 1 || result.Archived[0] != "stale1" {
+		t.Fatalf("archived = %v, want stale1", result.Archived)
+	}
+	for id, want := range map[string]string{
+		"fresh1":    models.MemoryStatusActive,
+		"expired1":  models.MemoryStatusStale,
+		"stale1":    models.MemoryStatusArchived,
+		"proposed1": models.MemoryStatusProposed,
+		"nottl1":    models.MemoryStatusActive,
+		"global1":   models.MemoryStatusActive,
+	} {
+		entry, err := store.Memory.Get(id)
+		if err != nil {
+			t.Fatalf("get %s: %v", id, err)
+		}
+		if entry.Status != want {
+			t.Fatalf("%s status = %q, want %q", id, entry.Status, want)
+		}
+	}
+	h, _ := store.Memory.GetHistory("expired1")
+	if last := h.Versions[len(h.Versions)-1]; last.Actor != ExpiryActor || last.Resolution != ResolutionExpire {
+		t.Fatalf("expiry revision = %+v", last)
+	}
+
+	// The freshly staled memory is archived only once the grace period ends.
+	service.Now = func() time.Time { return now.AddDate(0, 0, 10) }
+	if result, err = service.SweepExpired(14 * 24 * time.Hour); err != nil || len(result.ChangedIDs()) != 0 {
+		t.Fatalf("second sweep = %+v, %v; want nothing within the grace period", result, err)
+	}
+	service.Now = func() time.Time { return now.AddDate(0, 0, 15) }
+	if result, err = service.SweepExpired(14 * 24 * time.Hour); err != nil || len(result.Archived) != 1 || result.Archived[0] != "expired1" {
+		t.Fatalf("third sweep = %+v, %v; want expired1 archived", result, err)
+	}
+}
+
+func TestSweepExpiredGivesLongExpiredMemoriesTheFullGracePeriod(t *testing.T) {
+	store := newReviewTestStore(t)
+	now := time.Now().UTC()
+	createReviewMemory(t, store, &models.MemoryEntry{ID: "ancient1", Title: "Expired long ago", TTLDays: 30, LastVerified: now.AddDate(-1, 0, 0)})
+	createReviewMemory(t, store, &models.MemoryEntry{ID: "legacy1", Title: "Stale before stamps", Status: models.MemoryStatusStale, TTLDays: 30, LastVerified: now.AddDate(-1, 0, 0)})
+	// Drop the stamp the store just wrote, as on a memory staled before
+	// staleSince existed.
+	path := filepath.Join(store.Root, "memory", models.MemoryFileName("legacy1"))
+	data, err := os.ReadFile(path)
+	if err != nil {
+		t.Fatal(err)
+	}
+	var lines []string
+	for _, line := range strings.Split(string(data), "\n") {
+		if !strings.HasPrefix(line, "staleSince:") {
+			lines = append(lines, line)
+		}
+	}
+	if err := os.WriteFile(path, []byte(strings.Join(lines, "\n")), 0644); err != nil {
+		t.Fatal(err)
+	}
+
+	service := New(store)
+	service.Now = func() time.Time { return now }
+	grace := 14 * 24 * time.Hour
+	result, err := service.SweepExpired(grace)
+	if err != nil || len(result.Staled) != 1 || result.Staled[0] != "ancient1" || len(result.Archived) != 0 {
+		t.Fatalf("first sweep = %+v, %v; want ancient1 staled and nothing archived", result, err)
+	}
+	for _, id := range []string{"ancient1", "legacy1"} {
+		entry, _ := store.Memory.Get(id)
+		if entry.Status != models.MemoryStatusStale || entry.StaleSince.Before(now.Add(-time.Minute)) {
+			t.Fatalf("%s = status %q stale since %v, want stale from this sweep", id, entry.Status, entry.StaleSince)
+		}
+	}
+
+	service.Now = func() time.Time { return now.AddDate(0, 0, 13) }
+	if result, err = service.SweepExpired(grace); err != nil || len(result.Archived) != 0 {
+		t.Fatalf("sweep within grace = %+v, %v; want nothing archived", result, err)
+	}
+	service.Now = func() time.Time { return now.AddDate(0, 0, 15) }
+	if result, err = service.SweepExpired(grace); err != nil || len(result.Archived) != 2 {
+		t.Fatalf("sweep after grace = %+v, %v; want both archived", result, err)
+	}
+}
+
+func TestExpiryForecastOrdersBySoonestExpiry(t *testing.T) {
+	store := newReviewTestStore(t)
+	now := time.Date(2026, 5, 1, 0, 0, 0, 0, time.UTC)
+	createReviewMemory(t, store, &models.MemoryEntry{ID: "later1", Title: "Later", TTLDays: 90, LastVerified: now})
+	createReviewMemory(t, store, &models.MemoryEntry{ID: "sooner1", Title: "Sooner", TTLDays: 7, LastVerified: now})
+	createReviewMemory(t, store, &models.MemoryEntry{ID: "archived1", Title: "Archived", Status: models.MemoryStatusArchived, TTLDays: 7, LastVerified: now})
+
+	service := New(store)
+	service.Now = func() time.Time { return now }
+	items, err := service.ExpiryForecast(time.Hour)
+	if err != nil {
+		t.Fatalf("ExpiryForecast: %v", err)
+	}
+	if len(items) != 2 || items[0].ID != "sooner1" || items[1].ID != "later1" {
+		t.Fatalf("forecast = %+v, want sooner1 then later1", items)
+	}
+	if !items[0].ArchivesAt.Equal(items[0].ExpiresAt.Add(time.Hour)) {
+		t.Fatalf("archivesAt = %v, want an hour after expiry", items[0].ArchivesAt)
+	}
+}
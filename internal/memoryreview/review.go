@@ -42,13 +42,19 @@ type Service struct {
 	Store           *storage.Store
 	Now             func() time.Time
 	SemanticSearch  SemanticSearchFunc
+	Embed           EmbedFunc
 	ReviewThreshold float64
 	ReviewLimit     int
 }
 
+// AddOptions and ResolveOptions carry Actor and Source into the history of
+// every memory they write. OperationID ties a resolution's writes to an
+// undoable storage.MemoryOperation.
 type AddOptions struct {
 	SkipReview bool
 	Status     string
+	Actor      string
+	Source     string
 }
 
 type ResolveOptions struct {
@@ -56,6 +62,9 @@ type ResolveOptions struct {
 	TargetID       string
 	Status         string
 	RejectedReason string
+	Actor          string
+	Source         string
+	OperationID    string
 }
 
 type Result struct {
@@ -66,6 +75,11 @@ type Result struct {
 	AllowedResolutions []string            `json:"allowedResolutions,omitempty"`
 	Memory             *models.MemoryEntry `json:"memory,omitempty"`
 	ChangedIDs         []string            `json:"changedIds,omitempty"`
+	// Operation is set by callers that make the resolution undoable.
+	Operation *models.MemoryOperation `json:"operation,omitempty"`
+	// Warning is set by callers when the resolution was written but could not
+	// be made undoable.
+	Warning string `json:"warning,omitempty"`
 }
 
 type Match struct {
@@ -98,7 +112,7 @@ func (s *Service) Add(candidate *models.MemoryEntry, opts AddOptions) (*Result,
 			return review, nil
 		}
 	}
-	return s.create(entry, ResultCreated, "")
+	return s.create(entry, ResultCreated, "", storage.MemoryRevisionOptions{Actor: opts.Actor, Source: opts.Source})
 }
 
 func (s *Service) Review(candidate *models.MemoryEntry) (*Result, error) {
@@ -145,7 +159,7 @@ func (s *Service) Resolve(candidate *models.MemoryEntry, opts ResolveOptions) (*
 		if err != nil {
 			return nil, err
 		}
-		return s.create(entry, ResultResolved, opts.Resolution)
+		return s.create(entry, ResultResolved, opts.Resolution, revisionOptions(opts))
 	case ResolutionRejectNew:
 		input := cloneMemory(candidate)
 		if input == nil {
@@ -162,7 +176,7 @@ func (s *Service) Resolve(candidate *models.MemoryEntry, opts ResolveOptions) (*
 		if entry.RejectedReason == "" {
 			entry.RejectedReason = "rejected_by_review"
 		}
-		return s.create(entry, ResultResolved, opts.Resolution)
+		return s.create(entry, ResultResolved, opts.Resolution, revisionOptions(opts))
 	case ResolutionMergeExisting:
 		return s.mergeExisting(candidate, opts)
 	default:
@@ -219,7 +233,7 @@ func (s *Service) updateExisting(candidate *models.MemoryEntry, opts ResolveOpti
 	now := s.now()
 	updated.LastVerified = now
 	updated.UpdatedAt = now
-	if err := s.Store.Memory.Update(updated); err != nil {
+	if err := s.Store.Memory.UpdateWithRevision(updated, revisionOptions(opts)); err != nil {
 		return nil, err
 	}
 	return &Result{Status: ResultResolved, Resolution: opts.Resolution, Memory: updated, ChangedIDs: []string{updated.ID}}, nil
@@ -243,16 +257,16 @@ func (s *Service) archiveExistingCreateNew(candidate *models.MemoryEntry, opts R
 	if err != nil {
 		return nil, err
 	}
+	if replacement.ID == existing.ID || replacement.ID == "" {
+		replacement.ID = models.NewTaskID()
+	}
 	archived := cloneMemory(existing)
 	archived.Status = models.MemoryStatusArchived
 	archived.UpdatedAt = s.now()
-	if err := s.Store.Memory.Update(archived); err != nil {
+	if err := s.Store.Memory.UpdateWithRevision(archived, revisionOptions(opts, replacement.ID)); err != nil {
 		return nil, err
 	}
-	if replacement.ID == archived.ID {
-		replacement.ID = ""
-	}
-	created, err := s.create(replacement, ResultResolved, opts.Resolution)
+	created, err := s.create(replacement, ResultResolved, opts.Resolution, revisionOptions(opts, archived.ID))
 	if err != nil {
 		return nil, err
 	}
@@ -273,7 +287,7 @@ func (s *Service) mergeExisting(candidate *models.MemoryEntry, opts ResolveOptio
 			merged.Status = models.MemoryStatusMerged
 			merged.MergedInto = opts.TargetID
 			merged.LastVerified = s.now()
-			if err := s.Store.Memory.Update(merged); err != nil {
+			if err := s.Store.Memory.UpdateWithRevision(merged, revisionOptions(opts, opts.TargetID)); err != nil {
 				return nil, err
 			}
 			return &Result{Status: ResultResolved, Resolution: opts.Resolution, Memory: merged, ChangedIDs: []string{merged.ID}}, nil
@@ -290,14 +304,14 @@ func (s *Service) mergeExisting(candidate *models.MemoryEntry, opts ResolveOptio
 	}
 	tombstone.MergedInto = opts.TargetID
 	tombstone.LastVerified = s.now()
-	return s.create(tombstone, ResultResolved, opts.Resolution)
+	return s.create(tombstone, ResultResolved, opts.Resolution, revisionOptions(opts, opts.TargetID))
 }
 
-func (s *Service) create(entry *models.MemoryEntry, status, resolution string) (*Result, error) {
+func (s *Service) create(entry *models.MemoryEntry, status, resolution string, revision storage.MemoryRevisionOptions) (*Result, error) {
 	if s.Store == nil || s.Store.Memory == nil {
 		return nil, fmt.Errorf("memory store unavailable")
 	}
-	if err := s.Store.Memory.Create(entry); err != nil {
+	if err := s.Store.Memory.CreateWithRevision(entry, revision); err != nil {
 		return nil, err
 	}
 	result := &Result{Status: status, Memory: entry, ChangedIDs: []string{entry.ID}}
@@ -307,6 +321,18 @@ func (s *Service) create(entry *models.MemoryEntry, status, resolution string) (
 	return result, nil
 }
 
+// revisionOptions attributes a resolution's writes, naming the other memories
+// the resolution involved.
+func revisionOptions(opts ResolveOptions, related ...string) storage.MemoryRevisionOptions {
+	return storage.MemoryRevisionOptions{
+		Actor:       opts.Actor,
+		Source:      opts.Source,
+		Resolution:  opts.Resolution,
+		Related:     related,
+		OperationID: opts.OperationID,
+	}
+}
+
 func (s *Service) normalizeCandidate(candidate *models.MemoryEntry, defaultStatus string) (*models.MemoryEntry, error) {
 	if s.Store == nil || s.Store.Memory == nil {
 		return nil, fmt.Errorf("memory store unavailable")
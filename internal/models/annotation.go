@@ -0,0 +1,90 @@
+package models
+
+import (
+	"fmt"
+	"math/rand/v2"
+	"strings"
+	"time"
+)
+
+// Annotation types. A comment leaves the text as is, replace proposes new
+// text and delete proposes removing it.
+const (
+	AnnotationTypeComment = "comment"
+	AnnotationTypeReplace = "replace"
+	AnnotationTypeDelete  = "delete"
+)
+
+// ValidAnnotationType reports whether t is a known annotation type.
+func ValidAnnotationType(t string) bool {
+	switch t {
+	case AnnotationTypeComment, AnnotationTypeReplace, AnnotationTypeDelete:
+		return true
+	}
+	return false
+}
+
+// Annotation is review feedback on a span of a doc, with a thread of replies.
+//
+// The span is found again after edits through SelectedText and the text
+// around it (ContextBefore/ContextAfter); the line and character positions
+// are refreshed each time and Orphaned is set when the text is gone.
+type Annotation struct {
+	ID           string `json:"id"`
+	DocPath      string `json:"docPath"`
+	SelectedText string `json:"selectedText"`
+	Type         string `json:"type"`
+	Content      string `json:"content"`
+	Author       string `json:"author,omitempty"`
+
+	ContextBefore string `json:"contextBefore"`
+	ContextAfter  string `json:"contextAfter"`
+	// StartLine and EndLine are 1-based lines of the raw markdown; StartChar
+	// and EndChar are 0-based UTF-16 offsets within them, as the web UI
+	// measures them. All are 0 when the text was never found.
+	StartLine int  `json:"startLine"`
+	StartChar int  `json:"startChar"`
+	EndLine   int  `json:"endLine"`
+	EndChar   int  `json:"endChar"`
+	Orphaned  bool `json:"orphaned,omitempty"`
+
+	Resolved   bool       `json:"resolved"`
+	ResolvedBy string     `json:"resolvedBy,omitempty"`
+	ResolvedAt *time.Time `json:"resolvedAt,omitempty"`
+
+	Replies []AnnotationReply `json:"replies"`
+
+	CreatedAt time.Time `json:"createdAt"`
+	UpdatedAt time.Time `json:"updatedAt"`
+}
+
+// AnnotationReply is one message in an annotation's thread.
+type AnnotationReply struct {
+	ID        string    `json:"id"`
+	Author    string    `json:"author,omitempty"`
+	Content   string    `json:"content"`
+	CreatedAt time.Time `json:"createdAt"`
+}
+
+// NewAnnotationID generates a random 8-character base-36 ID, used for
+// annotations and their replies.
+func NewAnnotationID() string {
+	return encodeBase36(int(rand.N(uint64(base36Max))), 6) + encodeBase36(int(rand.N(uint64(36*36))), 2) //nolint:gosec – IDs are not security tokens
+}
+
+// Validate checks the fields every persisted annotation must have.
+func (a *Annotation) Validate() error {
+	if strings.TrimSpace(a.DocPath) == "" {
+		return fmt.Errorf("annotation docPath is required")
+	}
+	if strings.TrimSpace(a.SelectedText) == "" {
+		return fmt.Errorf("annotation selectedText is required")
+	}
+	if !ValidAnnotationType(a.Type) {
+		return fmt.Errorf("annotation type must be comment, replace or delete")
+	}
+	if a.Type != AnnotationTypeDelete && strings.TrimSpace(a.Content) == "" {
+		return fmt.Errorf("annotation content is required for %s", a.Type)
+	}
+	return nil
+}
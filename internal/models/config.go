@@ -81,6 +81,10 @@ type ProjectSettings struct {
 	// backward compatibility and resolves to DefaultTaskLifecycleSettings.
 	TaskLifecycle *TaskLifecycleSettings `json:"taskLifecycle,omitempty"`
 
+	// MemoryLifecycle configures the memory expiry sweep. A nil value resolves
+	// to DefaultMemoryLifecycleSettings.
+	MemoryLifecycle *MemoryLifecycleSettings `json:"memoryLifecycle,omitempty"`
+
 	// CodeIntelligenceIgnore is an optional list of repo-relative paths or
 	// glob-like patterns skipped by code ingest in addition to .gitignore.
 	CodeIntelligenceIgnore []string `json:"codeIntelligenceIgnore,omitempty"`
@@ -107,6 +111,10 @@ type ProjectSettings struct {
 	// VisibleColumns lists which status columns are shown in the board view.
 	VisibleColumns []string `json:"visibleColumns,omitempty"`
 
+	// ColumnPolicies holds per-status work-in-progress limits and entry rules,
+	// keyed by status. Statuses without an entry are unrestricted.
+	ColumnPolicies map[string]ColumnPolicy `json:"columnPolicies,omitempty"`
+
 	SemanticSearch *SemanticSearchSettings `json:"semanticSearch,omitempty"`
 
 	// ServerPort overrides the default HTTP server port when non-zero.
@@ -138,6 +146,15 @@ type ProjectSettings struct {
 	LSP *LSPSettings `json:"lsp,omitempty"`
 }
 
+// ColumnPolicy constrains which Tasks may enter a status. A zero WIPLimit
+// means no limit.
+type ColumnPolicy struct {
+	WIPLimit          int  `json:"wipLimit,omitempty"`
+	RequireACComplete bool `json:"requireAcComplete,omitempty"`
+	RequireSpec       bool `json:"requireSpec,omitempty"`
+	RequireAssignee   bool `json:"requireAssignee,omitempty"`
+}
+
 // TaskLifecycleSettings configures Task visibility and retention. AutoArchive
 // is the explicit enable/disable switch; a zero ArchiveAfter duration therefore
 // remains distinct from disabled archival. A nil PurgeAfter disables purging.
@@ -201,17 +218,73 @@ func (s ProjectSettings) EffectiveTaskLifecycle() TaskLifecycleSettings {
 	return cloneTaskLifecycleSettings(*s.TaskLifecycle)
 }
 
-// Validate rejects malformed lifecycle durations while permitting zero delay.
+// MemoryLifecycleSettings configures the memory expiry sweep. Active memories
+// past their TTL become stale; AutoExpire is the switch for the sweep, and
+// ArchiveAfter is the grace period after expiry before a stale memory is
+// archived.
+type MemoryLifecycleSettings struct {
+	AutoExpire   bool   `json:"autoExpire"`
+	ArchiveAfter string `json:"archiveAfter"`
+}
+
+// UnmarshalJSON keeps defaults for fields a partial memoryLifecycle block
+// omits.
+func (s *MemoryLifecycleSettings) UnmarshalJSON(data []byte) error {
+	var raw struct {
+		AutoExpire   *bool   `json:"autoExpire"`
+		ArchiveAfter *string `json:"archiveAfter"`
+	}
+	if err := json.Unmarshal(data, &raw); err != nil {
+		return err
+	}
+	settings := DefaultMemoryLifecycleSettings()
+	if raw.AutoExpire != nil {
+		settings.AutoExpire = *raw.AutoExpire
+	}
+	if raw.ArchiveAfter != nil {
+		settings.ArchiveAfter = *raw.ArchiveAfter
+	}
+	*s = settings
+	return nil
+}
+
+// DefaultMemoryLifecycleSettings returns the built-in memory expiry policy.
+func DefaultMemoryLifecycleSettings() MemoryLifecycleSettings {
+	return MemoryLifecycleSettings{
+		AutoExpire:   true,
+		ArchiveAfter: "14d",
+	}
+}
+
+// EffectiveMemoryLifecycle returns the project's memory expiry settings or the
+// built-in defaults.
+func (s ProjectSettings) EffectiveMemoryLifecycle() MemoryLifecycleSettings {
+	if s.MemoryLifecycle == nil {
+		return DefaultMemoryLifecycleSettings()
+	}
+	return *s.MemoryLifecycle
+}
+
+// Validate rejects malformed lifecycle durations while permitting zero delay,
+// and negative column WIP limits.
 func (s ProjectSettings) Validate() error {
 	settings := s.EffectiveTaskLifecycle()
 	if _, err := ParseTaskLifecycleDuration(settings.ArchiveAfter); err != nil {
 		return fmt.Errorf("settings.taskLifecycle.archiveAfter: %w", err)
 	}
+	if _, err := ParseTaskLifecycleDuration(s.EffectiveMemoryLifecycle().ArchiveAfter); err != nil {
+		return fmt.Errorf("settings.memoryLifecycle.archiveAfter: %w", err)
+	}
 	if settings.PurgeAfter != nil {
 		if _, err := ParseTaskLifecycleDuration(*settings.PurgeAfter); err != nil {
 			return fmt.Errorf("settings.taskLifecycle.purgeAfter: %w", err)
 		}
 	}
+	for status, policy := range s.ColumnPolicies {
+		if policy.WIPLimit < 0 {
+			return fmt.Errorf("settings.columnPolicies.%s.wipLimit: must not be negative", status)
+		}
+	}
 	return nil
 }
 
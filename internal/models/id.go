@@ -27,6 +27,12 @@ func NewTaskID() string {
 	return encodeBase36(int(value), 6)
 }
 
+// NewMemoryOperationID generates an ID for an undoable memory operation, e.g.
+// "op-k3x9a0b2".
+func NewMemoryOperationID() string {
+	return "op-" + encodeBase36(int(rand.N(uint64(base36Max))), 6) + encodeBase36(int(rand.N(uint64(36*36))), 2) //nolint:gosec – IDs are not security tokens
+}
+
 // encodeBase36 encodes n in base-36 and left-pads the result with '0' to the
 // requested minimum width.
 func encodeBase36(n, width int) string {
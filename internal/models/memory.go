@@ -23,6 +23,7 @@ type MemoryEntry struct {
 	Confidence     string            `json:"confidence,omitempty"     yaml:"confidence,omitempty"`
 	LastVerified   time.Time         `json:"lastVerified,omitempty"   yaml:"lastVerified,omitempty"`
 	TTLDays        int               `json:"ttlDays,omitempty"        yaml:"ttlDays,omitempty"`
+	StaleSince     time.Time         `json:"staleSince,omitempty"     yaml:"staleSince,omitempty"` // set by the store when status becomes stale
 	Sources        []string          `json:"sources,omitempty"        yaml:"sources,omitempty"`
 	MergedInto     string            `json:"mergedInto,omitempty"     yaml:"mergedInto,omitempty"`
 	RejectedReason string            `json:"rejectedReason,omitempty" yaml:"rejectedReason,omitempty"`
@@ -109,6 +110,15 @@ func (m *MemoryEntry) MissingTrustMetadata() []string {
 	return missing
 }
 
+// ExpiresAt returns when the memory's TTL runs out, counted from its last
+// verification. ok is false for memories without a TTL or a verification.
+func (m *MemoryEntry) ExpiresAt() (expiresAt time.Time, ok bool) {
+	if m.TTLDays <= 0 || m.LastVerified.IsZero() {
+		return time.Time{}, false
+	}
+	return m.LastVerified.Add(time.Duration(m.TTLDays) * 24 * time.Hour), true
+}
+
 func (m *MemoryEntry) CurrentForDefaultRetrieval() bool {
 	if m == nil {
 		return false
@@ -3,6 +3,7 @@ package models
 import (
 	"reflect"
 	"testing"
+	"time"
 )
 
 func TestValidMemoryStatus(t *testing.T) {
@@ -77,3 +78,17 @@ func TestMemoryEntryMissingTrustMetadata(t *testing.T) {
 		t.Fatalf("MissingTrustMetadata() = %#v, want %#v", got, want)
 	}
 }
+
+func TestMemoryEntryExpiresAt(t *testing.T) {
+	verified := time.Date(2026, 3, 1, 12, 0, 0, 0, time.UTC)
+	entry := &MemoryEntry{TTLDays: 30, LastVerified: verified}
+	expiresAt, ok := entry.ExpiresAt()
+	if !ok || !expiresAt.Equal(verified.AddDate(0, 0, 30)) {
+		t.Fatalf("ExpiresAt() = %v, %v; want 30 days after verification", expiresAt, ok)
+	}
+	for _, entry := range []*MemoryEntry{{TTLDays: 30}, {LastVerified: verified}} {
+		if _, ok := entry.ExpiresAt(); ok {
+			t.Fatalf("ExpiresAt() ok for %+v, want no expiry", entry)
+		}
+	}
+}
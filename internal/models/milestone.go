@@ -0,0 +1,84 @@
+package models
+
+import (
+	"fmt"
+	"regexp"
+	"strings"
+	"time"
+)
+
+// Milestone is a time-boxed iteration (a sprint or release milestone) that
+// groups Tasks. It is stored as markdown with YAML frontmatter; the goal is
+// the markdown body. Tasks reference a Milestone through Task.Milestone.
+type Milestone struct {
+	ID   string `json:"id"   yaml:"id"`
+	Name string `json:"name" yaml:"name"`
+
+	// StartDate and EndDate bound the iteration in TaskDateLayout form.
+	// Both are required and EndDate is inclusive.
+	StartDate string `json:"startDate" yaml:"startDate"`
+	EndDate   string `json:"endDate"   yaml:"endDate"`
+
+	Goal string `json:"goal,omitempty" yaml:"-"`
+
+	CreatedAt time.Time `json:"createdAt" yaml:"createdAt"`
+	UpdatedAt time.Time `json:"updatedAt" yaml:"updatedAt"`
+}
+
+var milestoneSlugNonAlnum = regexp.MustCompile(`[^a-z0-9]+`)
+var milestoneIDPattern = regexp.MustCompile(`^[a-z0-9]+(?:-[a-z0-9]+)*$`)
+
+// ValidMilestoneID reports whether id is a path-safe milestone slug.
+func ValidMilestoneID(id string) bool {
+	return milestoneIDPattern.MatchString(id)
+}
+
+// MilestoneFileName returns the canonical file name for a milestone.
+func MilestoneFileName(id string) string {
+	return id + ".md"
+}
+
+// MilestoneSlug returns the ID slug for a milestone name.
+func MilestoneSlug(name string) string {
+	name = strings.ToLower(strings.TrimSpace(name))
+	name = milestoneSlugNonAlnum.ReplaceAllString(name, "-")
+	name = strings.Trim(name, "-")
+	if name == "" {
+		return "milestone"
+	}
+	return name
+}
+
+// NewMilestoneID derives an ID from name and applies numeric suffixes when
+// a candidate already exists.
+func NewMilestoneID(name string, exists func(id string) bool) string {
+	base := MilestoneSlug(name)
+	if exists == nil || !exists(base) {
+		return base
+	}
+	for i := 2; ; i++ {
+		candidate := fmt.Sprintf("%s-%d", base, i)
+		if !exists(candidate) {
+			return candidate
+		}
+	}
+}
+
+// Validate checks the fields every persisted milestone must have.
+func (m *Milestone) Validate() error {
+	if strings.TrimSpace(m.Name) == "" {
+		return fmt.Errorf("milestone name is required")
+	}
+	start, err := time.Parse(TaskDateLayout, m.StartDate)
+	if err != nil {
+		return fmt.Errorf("milestone startDate %q must be a date in YYYY-MM-DD form", m.StartDate)
+	}
+	end, err := time.Parse(TaskDateLayout, m.EndDate)
+	if err != nil {
+		return fmt.Errorf("milestone endDate %q must be a date in YYYY-MM-DD form", m.EndDate)
+	}
+	if end.Before(start) {
+		return fmt.Errorf("milestone endDate %s is before startDate %s", m.EndDate, m.StartDate)
+	}
+	return nil
+}
@@ -46,3 +46,68 @@ type SemanticResolution struct {
 	Entity    *ResolvedEntity   `json:"entity,omitempty"`
 	Found     bool              `json:"found"`
 }
+
+// ReferenceLocation is where an inline reference appears.
+type ReferenceLocation struct {
+	// Kind and ID identify the source entity: a task ID, doc path, memory ID
+	// or decision ID.
+	Kind  string `json:"kind"`
+	ID    string `json:"id"`
+	Title string `json:"title,omitempty"`
+	// Field names the text field holding the reference, e.g. "description".
+	Field  string `json:"field"`
+	Line   int    `json:"line,omitempty"`
+	Column int    `json:"column,omitempty"`
+	Raw    string `json:"raw"`
+}
+
+// ReferenceSuggestion is a likely replacement target for a broken reference.
+type ReferenceSuggestion struct {
+	Target string `json:"target"`
+	Ref    string `json:"ref"`
+	Title  string `json:"title,omitempty"`
+	// Reason is "renamed", "moved", "case" or "similar".
+	Reason string `json:"reason"`
+}
+
+// BrokenReference groups every location of one unresolved reference target.
+type BrokenReference struct {
+	Type        string                `json:"type"`
+	Target      string                `json:"target"`
+	Canonical   string                `json:"canonical"`
+	Locations   []ReferenceLocation   `json:"locations"`
+	Suggestions []ReferenceSuggestion `json:"suggestions,omitempty"`
+}
+
+// LinkHealthReport is the result of checking every inline reference in the
+// project.
+type LinkHealthReport struct {
+	Checked int               `json:"checked"`
+	Sources int               `json:"sources"`
+	Broken  []BrokenReference `json:"broken"`
+}
+
+// LinkFix points references of one type from one target to another. Sources
+// limits the fix to the given entities; empty means everywhere.
+type LinkFix struct {
+	Type    string              `json:"type"`
+	From    string              `json:"from"`
+	To      string              `json:"to"`
+	Sources []ReferenceLocation `json:"sources,omitempty"`
+}
+
+// LinkRepairResult reports what a bulk link repair changed.
+type LinkRepairResult struct {
+	Rewritten int                 `json:"rewritten"`
+	Updated   []ReferenceLocation `json:"updated"`
+}
+
+// DocMoveResult reports a doc move and the inbound references it rewrote.
+type DocMoveResult struct {
+	Doc     *Doc                `json:"doc,omitempty"`
+	OldPath string              `json:"oldPath"`
+	NewPath string              `json:"newPath"`
+	Inbound []ReferenceLocation `json:"inbound"`
+	// Rewritten is zero for a dry run.
+	Rewritten int `json:"rewritten"`
+}
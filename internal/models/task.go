@@ -28,6 +28,13 @@ type Task struct {
 	// (e.g., ["AC-1", "AC-2"]).
 	Fulfills []string `json:"fulfills,omitempty" yaml:"fulfills,omitempty"`
 
+	// DependsOn lists task IDs that must be done before this task can start.
+	DependsOn []string `json:"dependsOn,omitempty" yaml:"dependsOn,omitempty"`
+
+	// Blocks holds IDs of tasks that depend on this one. Derived at load time
+	// from DependsOn; not persisted in the task file itself.
+	Blocks []string `json:"blocks,omitempty" yaml:"-"`
+
 	// Order is an optional manual display order (lower = first).
 	Order *int `json:"order,omitempty" yaml:"order,omitempty"`
 
@@ -40,6 +47,18 @@ type Task struct {
 	CompletedAt *time.Time `json:"completedAt,omitempty" yaml:"completedAt,omitempty"`
 	ArchivedAt  *time.Time `json:"archivedAt,omitempty"  yaml:"archivedAt,omitempty"`
 
+	// StartedAt records when the Task first entered in-progress. Unlike
+	// CompletedAt it is kept when the Task leaves that status again.
+	StartedAt *time.Time `json:"startedAt,omitempty" yaml:"startedAt,omitempty"`
+
+	// StartDate and DueDate are optional planned calendar dates in
+	// TaskDateLayout form (e.g., "2026-10-19").
+	StartDate string `json:"startDate,omitempty" yaml:"startDate,omitempty"`
+	DueDate   string `json:"dueDate,omitempty"   yaml:"dueDate,omitempty"`
+
+	// Milestone is the ID of the Milestone (sprint) the Task is planned in.
+	Milestone string `json:"milestone,omitempty" yaml:"milestone,omitempty"`
+
 	// Archived is derived from the Task file location when loaded. It is never
 	// persisted in frontmatter because the archive directory is canonical.
 	Archived bool `json:"archived" yaml:"-"`
@@ -57,6 +76,9 @@ type Task struct {
 	ImplementationNotes string `json:"implementationNotes,omitempty" yaml:"-"`
 }
 
+// TaskDateLayout is the time layout of Task StartDate and DueDate.
+const TaskDateLayout = "2006-01-02"
+
 // TaskLifecycleState is the externally meaningful lifecycle group for a Task.
 type TaskLifecycleState string
 
@@ -94,6 +116,17 @@ type AcceptanceCriterion struct {
 	Completed bool   `json:"completed"`
 }
 
+// TaskView is a named, saved filter over the task list. Query uses the task
+// filter language understood by the web UI (e.g. "status:todo label:api").
+type TaskView struct {
+	ID        string    `json:"id"`
+	Name      string    `json:"name"`
+	Query     string    `json:"query"`
+	Layout    string    `json:"layout,omitempty"`
+	CreatedAt time.Time `json:"createdAt"`
+	UpdatedAt time.Time `json:"updatedAt"`
+}
+
 // DefaultStatuses returns the built-in task status list used when no project
 // config is available.
 func DefaultStatuses() []string {
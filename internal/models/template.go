@@ -19,6 +19,10 @@ type Template struct {
 	Actions  []TemplateAction  `yaml:"actions,omitempty"  json:"actions,omitempty"`
 	Messages *TemplateMessages `yaml:"messages,omitempty" json:"messages,omitempty"`
 
+	// Document makes this a doc template: running it creates a Knowns doc
+	// (and optionally seeded tasks) instead of generating files.
+	Document *TemplateDocument `yaml:"document,omitempty" json:"document,omitempty"`
+
 	// Path is the absolute filesystem path to the template folder.
 	// Derived at load time; not stored in _template.yaml.
 	Path string `yaml:"-" json:"path,omitempty"`
@@ -118,6 +122,51 @@ type TemplateMessages struct {
 	Failure string `yaml:"failure,omitempty" json:"failure,omitempty"`
 }
 
+// TemplateDocument describes the doc a doc template creates. Every string
+// field supports Handlebars and is rendered with the prompt variables.
+type TemplateDocument struct {
+	// Path is the doc path inside .knowns/docs/ without the .md extension
+	// (e.g., "decisions/{{kebabCase title}}").
+	Path        string   `yaml:"path,omitempty"        json:"path,omitempty"`
+	Title       string   `yaml:"title"                 json:"title"`
+	Description string   `yaml:"description,omitempty" json:"description,omitempty"`
+	Tags        []string `yaml:"tags,omitempty"        json:"tags,omitempty"`
+
+	// Content is the body template: a .hbs file relative to the template
+	// folder, or an inline template.
+	Content string `yaml:"content,omitempty" json:"content,omitempty"`
+
+	// Tasks are created alongside the doc unless the caller opts out.
+	Tasks []TemplateDocumentTask `yaml:"tasks,omitempty" json:"tasks,omitempty"`
+}
+
+// TemplateDocumentTask is a task seeded by a doc template.
+type TemplateDocumentTask struct {
+	Title              string   `yaml:"title"                        json:"title"`
+	Description        string   `yaml:"description,omitempty"        json:"description,omitempty"`
+	Priority           string   `yaml:"priority,omitempty"           json:"priority,omitempty"`
+	Labels             []string `yaml:"labels,omitempty"             json:"labels,omitempty"`
+	AcceptanceCriteria []string `yaml:"acceptanceCriteria,omitempty" json:"acceptanceCriteria,omitempty"`
+
+	// Spec links the task to the created doc as its spec.
+	Spec bool `yaml:"spec,omitempty" json:"spec,omitempty"`
+
+	// When is a Handlebars expression; if it evaluates to a falsy string the
+	// task is not seeded.
+	When string `yaml:"when,omitempty" json:"when,omitempty"`
+}
+
+// RenderedTemplateDocument is a doc template rendered with its variables,
+// ready to be previewed or created.
+type RenderedTemplateDocument struct {
+	Path        string                 `json:"path"`
+	Title       string                 `json:"title"`
+	Description string                 `json:"description,omitempty"`
+	Tags        []string               `json:"tags"`
+	Content     string                 `json:"content"`
+	Tasks       []TemplateDocumentTask `json:"tasks"`
+}
+
 // TemplateResult is returned by the template engine after running a template.
 type TemplateResult struct {
 	Success  bool     `json:"success"`
@@ -69,6 +69,7 @@ type DocVersion struct {
 	Timestamp     time.Time        `json:"timestamp"`
 	Author        string           `json:"author,omitempty"`
 	Actor         string           `json:"actor,omitempty"`
+	Actors        []string         `json:"actors,omitempty"`
 	Source        string           `json:"source,omitempty"`
 	AuditEventID  string           `json:"auditEventId,omitempty"`
 	SessionID     string           `json:"sessionId,omitempty"`
@@ -132,3 +133,140 @@ type DocRevisionDiff struct {
 	ChangedScopes      []DocChangeScope `json:"changedScopes,omitempty"`
 	RetentionGaps      []DocHistoryGap  `json:"retentionGaps,omitempty"`
 }
+
+// DocBlame attributes every line of a document's current content to the
+// retained revision that last changed it.
+type DocBlame struct {
+	DocID       string             `json:"docId,omitempty"`
+	DocPath     string             `json:"docPath"`
+	CurrentPath string             `json:"currentPath,omitempty"`
+	Lines       []DocBlameLine     `json:"lines"`
+	Sections    []DocBlameSection  `json:"sections"`
+	Revisions   []DocBlameRevision `json:"revisions"`
+	// Lines attributed to a checkpoint after a retention gap may be older.
+	RetentionGaps []DocHistoryGap `json:"retentionGaps,omitempty"`
+}
+
+// DocBlameLine is one line of content. RevisionID is empty for lines changed
+// outside Knowns since the latest revision.
+type DocBlameLine struct {
+	Line       int    `json:"line"`
+	Text       string `json:"text"`
+	RevisionID string `json:"revisionId,omitempty"`
+}
+
+// DocBlameSection attributes a markdown section to its most recent revision.
+type DocBlameSection struct {
+	Title      string `json:"title"`
+	Level      int    `json:"level"`
+	StartLine  int    `json:"startLine"`
+	EndLine    int    `json:"endLine"`
+	RevisionID string `json:"revisionId,omitempty"`
+}
+
+// DocBlameRevision carries the attribution details of a revision referenced
+// by a blame, without its snapshot.
+type DocBlameRevision struct {
+	ID           string    `json:"id"`
+	Version      int       `json:"version"`
+	Timestamp    time.Time `json:"timestamp"`
+	Actor        string    `json:"actor,omitempty"`
+	Actors       []string  `json:"actors,omitempty"`
+	Source       string    `json:"source,omitempty"`
+	SessionID    string    `json:"sessionId,omitempty"`
+	AuditEventID string    `json:"auditEventId,omitempty"`
+	Checkpoint   bool      `json:"checkpoint,omitempty"`
+}
+
+// DocRevisionState is a document as of one retained revision, or as of the
+// working copy when RevisionID is "current".
+type DocRevisionState struct {
+	RevisionID  string     `json:"revisionId"`
+	Version     int        `json:"version,omitempty"`
+	Timestamp   *time.Time `json:"timestamp,omitempty"`
+	Actor       string     `json:"actor,omitempty"`
+	Title       string     `json:"title"`
+	Description string     `json:"description,omitempty"`
+	Tags        []string   `json:"tags"`
+	Content     string     `json:"content"`
+}
+
+// DocRevisionComparison pairs two states of one document for diffing, with the
+// scopes changed by every revision between them.
+type DocRevisionComparison struct {
+	DocID         string           `json:"docId,omitempty"`
+	DocPath       string           `json:"docPath"`
+	CurrentPath   string           `json:"currentPath,omitempty"`
+	Section       string           `json:"section,omitempty"`
+	From          DocRevisionState `json:"from"`
+	To            DocRevisionState `json:"to"`
+	ChangedScopes []DocChangeScope `json:"changedScopes,omitempty"`
+	RetentionGaps []DocHistoryGap  `json:"retentionGaps,omitempty"`
+}
+
+// MemoryVersion is one revision of a persistent memory. Memories are small,
+// so every version carries a full snapshot of the entry after the change.
+type MemoryVersion struct {
+	ID        string    `json:"id"`
+	MemoryID  string    `json:"memoryId"`
+	Version   int       `json:"version"`
+	Timestamp time.Time `json:"timestamp"`
+	Actor     string    `json:"actor,omitempty"`
+	Source    string    `json:"source,omitempty"`
+
+	// Resolution is the memory review resolution that produced the revision
+	// (e.g. "merge_existing"), and Related the other memories it involved.
+	Resolution string   `json:"resolution,omitempty"`
+	Related    []string `json:"related,omitempty"`
+
+	// RestoredFrom names the revision whose state this one restored.
+	RestoredFrom string `json:"restoredFrom,omitempty"`
+
+	// OperationID ties the revision to the undoable operation that wrote it.
+	OperationID string `json:"operationId,omitempty"`
+
+	AuditEventID string         `json:"auditEventId,omitempty"`
+	BaseHash     string         `json:"baseHash,omitempty"`
+	NewHash      string         `json:"newHash,omitempty"`
+	Checkpoint   bool           `json:"checkpoint,omitempty"`
+	Changes      []MemoryChange `json:"changes"`
+	Snapshot     map[string]any `json:"snapshot"`
+}
+
+// MemoryChange describes a mutation of a single field between two memory versions.
+type MemoryChange struct {
+	Field    string `json:"field"`
+	OldValue any    `json:"oldValue"`
+	NewValue any    `json:"newValue"`
+}
+
+// MemoryVersionHistory is the complete audit trail for one memory.
+type MemoryVersionHistory struct {
+	MemoryID       string          `json:"memoryId"`
+	CurrentVersion int             `json:"currentVersion"`
+	Versions       []MemoryVersion `json:"versions"`
+}
+
+// MemoryRevisionDiff is the change set of one memory revision.
+type MemoryRevisionDiff struct {
+	MemoryID           string         `json:"memoryId"`
+	RevisionID         string         `json:"revisionId"`
+	PreviousRevisionID string         `json:"previousRevisionId,omitempty"`
+	Version            MemoryVersion  `json:"version"`
+	Checkpoint         bool           `json:"checkpoint"`
+	Changes            []MemoryChange `json:"changes"`
+}
+
+// MemoryOperation is a bulk action or review resolution that wrote several
+// memories at once. Each revision it wrote carries its ID, so the whole
+// operation can be undone until UndoableUntil.
+type MemoryOperation struct {
+	ID            string     `json:"id"`
+	Kind          string     `json:"kind"`
+	Actor         string     `json:"actor,omitempty"`
+	Source        string     `json:"source,omitempty"`
+	MemoryIDs     []string   `json:"memoryIds"`
+	CreatedAt     time.Time  `json:"createdAt"`
+	UndoableUntil time.Time  `json:"undoableUntil"`
+	UndoneAt      *time.Time `json:"undoneAt,omitempty"`
+}
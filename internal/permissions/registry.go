@@ -75,6 +75,12 @@ var ActionRegistry = map[string]ActionMeta{
 	"docs.list":    {Capability: CapRead, Target: TargetDoc, Risk: RiskLow},
 	"docs.history": {Capability: CapRead, Target: TargetDoc, Risk: RiskLow},
 
+	// doc annotations
+	"annotation.list":    {Capability: CapRead, Target: TargetDoc, Risk: RiskLow},
+	"annotation.get":     {Capability: CapRead, Target: TargetDoc, Risk: RiskLow},
+	"annotation.reply":   {Capability: CapWrite, Target: TargetDoc, Risk: RiskLow},
+	"annotation.resolve": {Capability: CapWrite, Target: TargetDoc, Risk: RiskLow},
+
 	// memory
 	"memory.add":     {Capability: CapWrite, Target: TargetMemory, Risk: RiskMedium},
 	"memory.get":     {Capability: CapRead, Target: TargetMemory, Risk: RiskLow},
@@ -83,6 +89,8 @@ var ActionRegistry = map[string]ActionMeta{
 	"memory.list":    {Capability: CapRead, Target: TargetMemory, Risk: RiskLow},
 	"memory.promote": {Capability: CapWrite, Target: TargetMemory, Risk: RiskMedium},
 	"memory.demote":  {Capability: CapWrite, Target: TargetMemory, Risk: RiskMedium},
+	"memory.history": {Capability: CapRead, Target: TargetMemory, Risk: RiskLow},
+	"memory.restore": {Capability: CapWrite, Target: TargetMemory, Risk: RiskMedium},
 
 	// time
 	"time.start":  {Capability: CapWrite, Target: TargetTime, Risk: RiskLow},
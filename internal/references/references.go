@@ -50,7 +50,24 @@ func AllowedRelation(relation string) bool {
 }
 
 func Extract(content string) []models.SemanticReference {
-	refs := []models.SemanticReference{}
+	located := ExtractLocated(content)
+	refs := make([]models.SemanticReference, len(located))
+	for i, loc := range located {
+		refs[i] = loc.Reference
+	}
+	return refs
+}
+
+// Located is a reference extracted from content and the byte offset of its
+// leading @.
+type Located struct {
+	Reference models.SemanticReference
+	Offset    int
+}
+
+// ExtractLocated is Extract with the position of each reference.
+func ExtractLocated(content string) []Located {
+	refs := []Located{}
 	inCodeBlock := false
 
 	for i := 0; i < len(content); {
@@ -76,7 +93,7 @@ func Extract(content string) []models.SemanticReference {
 
 		ref, ok := Parse(match)
 		if ok {
-			refs = append(refs, ref)
+			refs = append(refs, Located{Reference: ref, Offset: i})
 		}
 		i += len(match)
 	}
@@ -7,24 +7,51 @@ import (
 // RewriteDocPath rewrites inline @doc refs from oldPath to newPath while preserving
 // doc fragments and semantic relation suffixes.
 func RewriteDocPath(content, oldPath, newPath string) string {
-	if strings.TrimSpace(content) == "" || strings.TrimSpace(oldPath) == "" || oldPath == newPath {
+	if strings.TrimSpace(oldPath) == "" || oldPath == newPath {
 		return content
 	}
+	rewritten, _ := RewriteTarget(content, "doc", oldPath, newPath)
+	return rewritten
+}
+
+// RewriteTarget points every ref of type typ at oldTarget to newTarget,
+// keeping doc fragments and relation suffixes. Legacy refs are rewritten in
+// canonical form, and doc targets match with or without their .md suffix. It returns the new content and the number of refs changed.
+func RewriteTarget(content, typ, oldTarget, newTarget string) (string, int) {
+	if strings.TrimSpace(content) == "" || oldTarget == newTarget {
+		return content, 0
+	}
 
-	refs := Extract(content)
-	updated := content
-	for _, ref := range refs {
-		if ref.Type != "doc" || ref.Target != oldPath {
+	located := ExtractLocated(content)
+	var b strings.Builder
+	last, count := 0, 0
+	for _, loc := range located {
+		ref := loc.Reference
+		if ref.Type != typ || !sameTarget(typ, ref.Target, oldTarget) {
 			continue
 		}
-		rewritten := "@doc/" + newPath
+		rewritten := "@" + typ + "/" + newTarget
 		if ref.Fragment != nil {
 			rewritten += ref.Fragment.Raw
 		}
 		if ref.ExplicitRelation {
 			rewritten += "{" + ref.Relation + "}"
 		}
-		updated = strings.ReplaceAll(updated, ref.Raw, rewritten)
+		b.WriteString(content[last:loc.Offset])
+		b.WriteString(rewritten)
+		last = loc.Offset + len(ref.Raw)
+		count++
+	}
+	if count == 0 {
+		return content, 0
+	}
+	b.WriteString(content[last:])
+	return b.String(), count
+}
+
+func sameTarget(typ, target, want string) bool {
+	if typ == "doc" {
+		return strings.TrimSuffix(target, ".md") == strings.TrimSuffix(want, ".md")
 	}
-	return updated
+	return target == want
 }
@@ -17,3 +17,21 @@ func TestRewriteDocPath_LeavesUnmatchedContentUntouched(t *testing.T) {
 		t.Fatalf("unexpected rewrite: %q", got)
 	}
 }
+
+func TestRewriteTarget_CanonicalizesLegacyRefsAndCounts(t *testing.T) {
+	content := "Blocked by @task-old1{blocked-by}; see @task/old1 and @task/old12."
+	got, n := RewriteTarget(content, "task", "old1", "new1")
+	want := "Blocked by @task/new1{blocked-by}; see @task/new1 and @task/old12."
+	if got != want || n != 2 {
+		t.Fatalf("RewriteTarget() = %q, %d; want %q, 2", got, n, want)
+	}
+}
+
+func TestRewriteDocPath_DoesNotTouchLongerPaths(t *testing.T) {
+	content := "See @doc/guides/old and @doc/guides/older."
+	got := RewriteDocPath(content, "guides/old", "guides/new")
+	want := "See @doc/guides/new and @doc/guides/older."
+	if got != want {
+		t.Fatalf("RewriteDocPath() = %q, want %q", got, want)
+	}
+}
@@ -0,0 +1,240 @@
+package routes
+
+import (
+	"net/http"
+	"strings"
+
+	"github.com/go-chi/chi/v5"
+	"github.com/howznguyen/knowns/internal/models"
+	"github.com/howznguyen/knowns/internal/storage"
+)
+
+// AnnotationRoutes handles doc review annotation endpoints.
+type AnnotationRoutes struct {
+	store *storage.Store
+	mgr   *storage.Manager
+	sse   Broadcaster
+}
+
+func (ar *AnnotationRoutes) getStore() *storage.Store {
+	if ar.mgr != nil {
+		return ar.mgr.GetStore()
+	}
+	return ar.store
+}
+
+// Register wires the annotation routes onto r.
+func (ar *AnnotationRoutes) Register(r chi.Router) {
+	r.Get("/annotations", ar.list)
+	r.Post("/annotations", ar.create)
+	r.Delete("/annotations", ar.clearResolved)
+	r.Put("/annotations/{id}", ar.update)
+	r.Delete("/annotations/{id}", ar.delete)
+	r.Post("/annotations/{id}/replies", ar.reply)
+	r.Post("/annotations/{id}/resolve", ar.resolve)
+}
+
+// list returns annotations, re-anchored against the current doc content.
+// ?doc= limits the list to one doc; ?status=open|resolved filters by state.
+//
+// GET /api/annotations
+func (ar *AnnotationRoutes) list(w http.ResponseWriter, r *http.Request) {
+	store := ar.getStore()
+	var annotations []*models.Annotation
+	var err error
+	if doc := r.URL.Query().Get("doc"); doc != "" {
+		annotations, err = store.DocAnnotations(doc)
+	} else {
+		annotations, err = store.AllAnnotations()
+	}
+	if err != nil {
+		respondError(w, http.StatusInternalServerError, err.Error())
+		return
+	}
+	status := r.URL.Query().Get("status")
+	filtered := []*models.Annotation{}
+	for _, annotation := range annotations {
+		if (status == "open" && annotation.Resolved) || (status == "resolved" && !annotation.Resolved) {
+			continue
+		}
+		filtered = append(filtered, annotation)
+	}
+	respondJSON(w, http.StatusOK, filtered)
+}
+
+type annotationRequest struct {
+	DocPath       string `json:"docPath"`
+	SelectedText  string `json:"selectedText"`
+	Type          string `json:"type"`
+	Content       string `json:"content"`
+	Author        string `json:"author"`
+	ContextBefore string `json:"contextBefore"`
+	ContextAfter  string `json:"contextAfter"`
+	StartLine     int    `json:"startLine"`
+	StartChar     int    `json:"startChar"`
+	EndLine       int    `json:"endLine"`
+	EndChar       int    `json:"endChar"`
+}
+
+// create adds an annotation.
+//
+// POST /api/annotations
+func (ar *AnnotationRoutes) create(w http.ResponseWriter, r *http.Request) {
+	var req annotationRequest
+	if err := decodeJSON(r, &req); err != nil {
+		respondError(w, http.StatusBadRequest, "invalid request body: "+err.Error())
+		return
+	}
+	annotation := &models.Annotation{
+		DocPath:       req.DocPath,
+		SelectedText:  req.SelectedText,
+		Type:          req.Type,
+		Content:       req.Content,
+		Author:        annotationActor(req.Author),
+		ContextBefore: req.ContextBefore,
+		ContextAfter:  req.ContextAfter,
+		StartLine:     req.StartLine,
+		StartChar:     req.StartChar,
+		EndLine:       req.EndLine,
+		EndChar:       req.EndChar,
+	}
+	if err := annotation.Validate(); err != nil {
+		respondError(w, http.StatusBadRequest, err.Error())
+		return
+	}
+	if err := ar.getStore().Annotations.Create(annotation); err != nil {
+		respondError(w, http.StatusBadRequest, err.Error())
+		return
+	}
+	ar.broadcast("annotations:updated", map[string]any{"annotation": annotation})
+	respondJSON(w, http.StatusCreated, annotation)
+}
+
+// update changes an annotation's type and content.
+//
+// PUT /api/annotations/{id}
+func (ar *AnnotationRoutes) update(w http.ResponseWriter, r *http.Request) {
+	var req struct {
+		Type    *string `json:"type"`
+		Content *string `json:"content"`
+	}
+	if err := decodeJSON(r, &req); err != nil {
+		respondError(w, http.StatusBadRequest, "invalid request body: "+err.Error())
+		return
+	}
+	store := ar.getStore()
+	if _, err := store.Annotations.Get(chi.URLParam(r, "id")); err != nil {
+		respondError(w, http.StatusNotFound, "annotation not found")
+		return
+	}
+	annotation, err := store.Annotations.Update(chi.URLParam(r, "id"), func(a *models.Annotation) error {
+		if req.Type != nil {
+			a.Type = *req.Type
+		}
+		if req.Content != nil {
+			a.Content = *req.Content
+		}
+		return nil
+	})
+	if err != nil {
+		respondError(w, http.StatusBadRequest, err.Error())
+		return
+	}
+	ar.broadcast("annotations:updated", map[string]any{"annotation": annotation})
+	respondJSON(w, http.StatusOK, annotation)
+}
+
+// reply appends a message to an annotation's thread.
+//
+// POST /api/annotations/{id}/replies
+func (ar *AnnotationRoutes) reply(w http.ResponseWriter, r *http.Request) {
+	var req struct {
+		Author  string `json:"author"`
+		Content string `json:"content"`
+	}
+	if err := decodeJSON(r, &req); err != nil {
+		respondError(w, http.StatusBadRequest, "invalid request body: "+err.Error())
+		return
+	}
+	store := ar.getStore()
+	if _, err := store.Annotations.Get(chi.URLParam(r, "id")); err != nil {
+		respondError(w, http.StatusNotFound, "annotation not found")
+		return
+	}
+	annotation, err := store.Annotations.Reply(chi.URLParam(r, "id"), annotationActor(req.Author), req.Content)
+	if err != nil {
+		respondError(w, http.StatusBadRequest, err.Error())
+		return
+	}
+	ar.broadcast("annotations:updated", map[string]any{"annotation": annotation})
+	respondJSON(w, http.StatusOK, annotation)
+}
+
+// resolve resolves an annotation, or reopens it with {"resolved": false}.
+//
+// POST /api/annotations/{id}/resolve
+func (ar *AnnotationRoutes) resolve(w http.ResponseWriter, r *http.Request) {
+	req := struct {
+		Resolved *bool  `json:"resolved"`
+		Author   string `json:"author"`
+	}{}
+	if err := decodeJSON(r, &req); err != nil {
+		respondError(w, http.StatusBadRequest, "invalid request body: "+err.Error())
+		return
+	}
+	resolved := req.Resolved == nil || *req.Resolved
+	annotation, err := ar.getStore().Annotations.SetResolved(chi.URLParam(r, "id"), resolved, annotationActor(req.Author))
+	if err != nil {
+		respondError(w, http.StatusNotFound, "annotation not found")
+		return
+	}
+	ar.broadcast("annotations:updated", map[string]any{"annotation": annotation})
+	respondJSON(w, http.StatusOK, annotation)
+}
+
+// delete removes an annotation and its thread.
+//
+// DELETE /api/annotations/{id}
+func (ar *AnnotationRoutes) delete(w http.ResponseWriter, r *http.Request) {
+	annotation, err := ar.getStore().Annotations.Delete(chi.URLParam(r, "id"))
+	if err != nil {
+		respondError(w, http.StatusNotFound, "annotation not found")
+		return
+	}
+	ar.broadcast("annotations:deleted", map[string]any{"id": annotation.ID, "docPath": annotation.DocPath})
+	respondJSON(w, http.StatusOK, map[string]any{"success": true})
+}
+
+// clearResolved removes every resolved annotation. Open annotations can only
+// be deleted one at a time, so ?status=resolved is required.
+//
+// DELETE /api/annotations?status=resolved
+func (ar *AnnotationRoutes) clearResolved(w http.ResponseWriter, r *http.Request) {
+	if r.URL.Query().Get("status") != "resolved" {
+		respondError(w, http.StatusBadRequest, "only resolved annotations can be cleared; pass status=resolved")
+		return
+	}
+	removed, err := ar.getStore().Annotations.DeleteResolved()
+	if err != nil {
+		respondError(w, http.StatusInternalServerError, err.Error())
+		return
+	}
+	for _, annotation := range removed {
+		ar.broadcast("annotations:deleted", map[string]any{"id": annotation.ID, "docPath": annotation.DocPath})
+	}
+	respondJSON(w, http.StatusOK, map[string]any{"success": true, "deleted": len(removed)})
+}
+
+func (ar *AnnotationRoutes) broadcast(eventType string, data map[string]any) {
+	if ar.sse != nil {
+		ar.sse.Broadcast(SSEEvent{Type: eventType, Data: data})
+	}
+}
+
+// annotationActor returns the author a request names, defaulting to the web UI.
+func annotationActor(author string) string {
+	if author = strings.TrimSpace(author); author != "" {
+		return author
+	}
+	return "webui"
+}
@@ -0,0 +1,133 @@
+package routes
+
+import (
+	"bytes"
+	"encoding/json"
+	"net/http"
+	"net/http/httptest"
+	"testing"
+	"time"
+
+	"github.com/go-chi/chi/v5"
+	"github.com/howznguyen/knowns/internal/models"
+)
+
+func TestAnnotationRoutesThreadLifecycle(t *testing.T) {
+	store := setupDecisionRouteStore(t)
+	now := time.Now().UTC()
+	if err := store.Docs.Create(&models.Doc{Path: "specs/auth", Title: "Auth", Content: "Tokens expire after one hour.", CreatedAt: now, UpdatedAt: now}); err != nil {
+		t.Fatalf("create doc: %v", err)
+	}
+	sse := &fakeBroadcaster{}
+	r := chi.NewRouter()
+	(&AnnotationRoutes{store: store, sse: sse}).Register(r)
+
+	send := func(method, path string, body any) *httptest.ResponseRecorder {
+		t.Helper()
+		var data []byte
+		if body != nil {
+			data, _ = json.Marshal(body)
+		}
+		w := httptest.NewRecorder()
+		r.ServeHTTP(w, httptest.NewRequest(method, path, bytes.NewReader(data)))
+		return w
+	}
+	decode := func(w *httptest.ResponseRecorder, v any) {
+		t.Helper()
+		if err := json.Unmarshal(w.Body.Bytes(), v); err != nil {
+			t.Fatalf("decode %s: %v", w.Body.String(), err)
+		}
+	}
+
+	if w := send("POST", "/annotations", map[string]any{"docPath": "specs/auth", "selectedText": "expire", "type": "comment"}); w.Code != http.StatusBadRequest {
+		t.Fatalf("POST comment without content status = %d, want 400: %s", w.Code, w.Body.String())
+	}
+	w := send("POST", "/annotations", map[string]any{
+		"docPath":       "specs/auth",
+		"selectedText":  "expire",
+		"type":          "comment",
+		"content":       "Make this configurable",
+		"author":        "alice",
+		"contextBefore": "Tokens ",
+		"contextAfter":  " after",
+	})
+	if w.Code != http.StatusCreated {
+		t.Fatalf("POST /annotations status = %d, want 201: %s", w.Code, w.Body.String())
+	}
+	var created models.Annotation
+	decode(w, &created)
+	if created.ID == "" || created.Author != "alice" {
+		t.Fatalf("created = %+v", created)
+	}
+
+	w = send("POST", "/annotations/"+created.ID+"/replies", map[string]any{"author": "agent", "content": "Done in config.json"})
+	if w.Code != http.StatusOK {
+		t.Fatalf("POST replies status = %d: %s", w.Code, w.Body.String())
+	}
+	w = send("POST", "/annotations/"+created.ID+"/resolve", map[string]any{"author": "agent"})
+	if w.Code != http.StatusOK {
+		t.Fatalf("POST resolve status = %d: %s", w.Code, w.Body.String())
+	}
+
+	var open []models.Annotation
+	decode(send("GET", "/annotations?doc=specs/auth&status=open", nil), &open)
+	if len(open) != 0 {
+		t.Fatalf("open annotations = %+v, want none after resolve", open)
+	}
+	var resolved []models.Annotation
+	decode(send("GET", "/annotations?status=resolved", nil), &resolved)
+	if len(resolved) != 1 || len(resolved[0].Replies) != 1 || resolved[0].ResolvedBy != "agent" {
+		t.Fatalf("resolved annotations = %+v, want the thread resolved by agent", resolved)
+	}
+	if resolved[0].StartLine != 1 || resolved[0].StartChar != 7 || resolved[0].EndChar != 13 {
+		t.Fatalf("anchor = %d:%d-%d, want 1:7-13", resolved[0].StartLine, resolved[0].StartChar, resolved[0].EndChar)
+	}
+
+	if w := send("DELETE", "/annotations", nil); w.Code != http.StatusBadRequest {
+		t.Fatalf("DELETE /annotations without status = %d, want 400", w.Code)
+	}
+	if w := send("DELETE", "/annotations?status=resolved", nil); w.Code != http.StatusOK {
+		t.Fatalf("DELETE resolved status = %d: %s", w.Code, w.Body.String())
+	}
+	if w := send("POST", "/annotations/"+created.ID+"/replies", map[string]any{"content": "late"}); w.Code != http.StatusNotFound {
+		t.Fatalf("reply to deleted annotation status = %d, want 404", w.Code)
+	}
+
+	want := []string{"annotations:updated", "annotations:updated", "annotations:updated", "annotations:deleted"}
+	if len(sse.events) != len(want) {
+		t.Fatalf("broadcasts = %#v, want %v", sse.events, want)
+	}
+	for i, eventType := range want {
+		if sse.events[i].Type != eventType {
+			t.Fatalf("broadcast[%d] = %q, want %q", i, sse.events[i].Type, eventType)
+		}
+	}
+}
+
+func TestDocPathEditMovesAnnotations(t *testing.T) {
+	store := setupDecisionRouteStore(t)
+	now := time.Now().UTC()
+	if err := store.Docs.Create(&models.Doc{Path: "specs/auth", Title: "Auth", Content: "Tokens expire after one hour.", CreatedAt: now, UpdatedAt: now}); err != nil {
+		t.Fatalf("create doc: %v", err)
+	}
+	annotation := &models.Annotation{DocPath: "specs/auth", SelectedText: "expire", Type: models.AnnotationTypeComment, Content: "Make this configurable"}
+	if err := store.Annotations.Create(annotation); err != nil {
+		t.Fatalf("create annotation: %v", err)
+	}
+	r := chi.NewRouter()
+	(&DocRoutes{store: store, sse: &fakeBroadcaster{}}).Register(r)
+
+	body, _ := json.Marshal(map[string]any{"path": "specs/login", "title": "Login"})
+	w := httptest.NewRecorder()
+	r.ServeHTTP(w, httptest.NewRequest("PUT", "/docs/specs/auth", bytes.NewReader(body)))
+	if w.Code != http.StatusOK {
+		t.Fatalf("PUT path status = %d: %s", w.Code, w.Body.String())
+	}
+	moved, err := store.Annotations.Get(annotation.ID)
+	if err != nil || moved.DocPath != "specs/login" {
+		t.Fatalf("annotation = %+v, %v; want it under the new path", moved, err)
+	}
+	if doc, err := store.Docs.Get("specs/login"); err != nil || doc.Title != "Login" {
+		t.Fatalf("doc = %+v, %v; want the title edit applied with the move", doc, err)
+	}
+}
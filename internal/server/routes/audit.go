@@ -23,7 +23,7 @@ func (ar *AuditRoutes) Register(r chi.Router) {
 
 // recent returns recent MCP audit events.
 //
-// GET /api/audit/recent?limit=50&tool=tasks&result=success&project=/path
+// GET /api/audit/recent?limit=50&tool=tasks&result=success&project=/path&ref=doc:guides/setup
 func (ar *AuditRoutes) recent(w http.ResponseWriter, r *http.Request) {
 	limit := 50
 	if v := r.URL.Query().Get("limit"); v != "" {
@@ -70,14 +70,16 @@ func buildAuditFilter(r *http.Request) *storage.AuditFilter {
 	tool := q.Get("tool")
 	result := q.Get("result")
 	project := q.Get("project")
+	ref := q.Get("ref")
 
-	if tool == "" && result == "" && project == "" {
+	if tool == "" && result == "" && project == "" && ref == "" {
 		return nil
 	}
 
 	return &storage.AuditFilter{
-		ToolName: tool,
-		Result:   result,
-		Project:  project,
+		ToolName:  tool,
+		Result:    result,
+		Project:   project,
+		EntityRef: ref,
 	}
 }
@@ -5,6 +5,10 @@ package routes
 type SSEEvent struct {
 	Type string      `json:"type"`
 	Data interface{} `json:"data"`
+	// Live events only reach clients connected right now. They carry no
+	// stream ID and are not kept for replay, so a burst of them cannot push
+	// durable events out of the replay buffer.
+	Live bool `json:"-"`
 }
 
 // Broadcaster is implemented by server.SSEBroker.
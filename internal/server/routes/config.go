@@ -80,6 +80,9 @@ func (cr *ConfigRoutes) configResponse(project *models.Project) map[string]inter
 	if s.VisibleColumns != nil {
 		flat["visibleColumns"] = s.VisibleColumns
 	}
+	if s.ColumnPolicies != nil {
+		flat["columnPolicies"] = s.ColumnPolicies
+	}
 	if s.ServerPort != 0 {
 		flat["serverPort"] = s.ServerPort
 	}
@@ -229,6 +232,17 @@ func applySettingsUpdate(settings *models.ProjectSettings, payload map[string]js
 			return err
 		}
 	}
+	if raw, ok := payload["columnPolicies"]; ok {
+		if string(raw) == "null" {
+			settings.ColumnPolicies = nil
+		} else {
+			var policies map[string]models.ColumnPolicy
+			if err := json.Unmarshal(raw, &policies); err != nil {
+				return err
+			}
+			settings.ColumnPolicies = policies
+		}
+	}
 	if raw, ok := payload["serverPort"]; ok {
 		if err := json.Unmarshal(raw, &settings.ServerPort); err != nil {
 			return err
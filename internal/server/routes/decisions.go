@@ -168,7 +168,10 @@ func (dr *DecisionRoutes) link(w http.ResponseWriter, r *http.Request) {
 	}
 	search.BestEffortIndexDecision(dr.getStore(), decision.ID)
 	if dr.sse != nil {
-		dr.sse.Broadcast(SSEEvent{Type: "decisions:updated", Data: map[string]any{"decision": decision}})
+		dr.sse.Broadcast(SSEEvent{Type: "decisions:updated", Data: map[string]any{
+			"decision":  decision,
+			"decisions": []*models.DecisionEntry{decision},
+		}})
 	}
 	respondJSON(w, http.StatusOK, decision)
 }
@@ -192,7 +195,11 @@ func (dr *DecisionRoutes) supersede(w http.ResponseWriter, r *http.Request) {
 	search.BestEffortIndexDecision(dr.getStore(), oldDecision.ID)
 	search.BestEffortIndexDecision(dr.getStore(), newDecision.ID)
 	if dr.sse != nil {
-		dr.sse.Broadcast(SSEEvent{Type: "decisions:updated", Data: map[string]any{"superseded": oldDecision, "current": newDecision}})
+		dr.sse.Broadcast(SSEEvent{Type: "decisions:updated", Data: map[string]any{
+			"superseded": oldDecision,
+			"current":    newDecision,
+			"decisions":  []*models.DecisionEntry{oldDecision, newDecision},
+		}})
 	}
 	respondJSON(w, http.StatusOK, map[string]any{
 		"superseded": oldDecision,
@@ -242,11 +249,26 @@ func (dr *DecisionRoutes) resolve(w http.ResponseWriter, r *http.Request) {
 		search.BestEffortIndexDecision(dr.getStore(), id)
 	}
 	if dr.sse != nil && len(result.ChangedIDs) > 0 {
-		dr.sse.Broadcast(SSEEvent{Type: "decisions:updated", Data: map[string]any{"result": result}})
+		dr.sse.Broadcast(SSEEvent{Type: "decisions:updated", Data: map[string]any{
+			"result":    result,
+			"decisions": loadChangedDecisions(dr.getStore(), result.ChangedIDs),
+		}})
 	}
 	respondJSON(w, http.StatusOK, result)
 }
 
+// loadChangedDecisions reads the current state of each changed decision so SSE
+// clients can patch their lists without refetching.
+func loadChangedDecisions(store *storage.Store, ids []string) []*models.DecisionEntry {
+	entries := make([]*models.DecisionEntry, 0, len(ids))
+	for _, id := range ids {
+		if entry, err := store.Decisions.Get(id); err == nil {
+			entries = append(entries, entry)
+		}
+	}
+	return entries
+}
+
 func decisionFromResolveRequest(req resolveDecisionReviewRequest) *models.DecisionEntry {
 	return &models.DecisionEntry{
 		ID:                     req.ID,
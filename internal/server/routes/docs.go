@@ -8,13 +8,14 @@ import (
 	"time"
 
 	"github.com/go-chi/chi/v5"
+	"github.com/howznguyen/knowns/internal/collab"
 	"github.com/howznguyen/knowns/internal/models"
 	"github.com/howznguyen/knowns/internal/search"
 	"github.com/howznguyen/knowns/internal/storage"
 )
 
 // docResponse transforms a flat Doc model into the nested shape the UI expects:
-// { filename, path, folder, metadata: { title, description, tags, ... }, content, isImported, source }
+// { filename, path, folder, metadata: { title, description, tags, ... }, content, hash, isImported, source }
 type docMetadataResponse struct {
 	Title       string   `json:"title"`
 	Description string   `json:"description,omitempty"`
@@ -30,6 +31,7 @@ type docResponse struct {
 	Folder     string              `json:"folder"`
 	Metadata   docMetadataResponse `json:"metadata"`
 	Content    string              `json:"content"`
+	Hash       string              `json:"hash,omitempty"`
 	IsImported bool                `json:"isImported,omitempty"`
 	Source     string              `json:"source,omitempty"`
 }
@@ -53,6 +55,7 @@ func toDocResponse(d *models.Doc) docResponse {
 			Order:       d.Order,
 		},
 		Content:    d.Content,
+		Hash:       storage.DocHash(d),
 		IsImported: d.IsImported,
 		Source:     d.ImportSource,
 	}
@@ -60,9 +63,10 @@ func toDocResponse(d *models.Doc) docResponse {
 
 // DocRoutes handles /api/docs endpoints.
 type DocRoutes struct {
-	store *storage.Store
-	mgr   *storage.Manager
-	sse   Broadcaster
+	store  *storage.Store
+	mgr    *storage.Manager
+	sse    Broadcaster
+	collab *collab.Hub
 }
 
 func (dr *DocRoutes) getStore() *storage.Store {
@@ -90,6 +94,14 @@ func (dr *DocRoutes) getOrHistory(w http.ResponseWriter, r *http.Request) {
 		dr.diff(w, r, path, revision)
 		return
 	}
+	if path, ok := splitDocComparePath(raw); ok {
+		dr.compare(w, r, path)
+		return
+	}
+	if path, ok := splitDocBlamePath(raw); ok {
+		dr.blame(w, r, path)
+		return
+	}
 	if path, ok := splitDocHistoryPath(raw); ok {
 		dr.history(w, r, path)
 		return
@@ -97,13 +109,22 @@ func (dr *DocRoutes) getOrHistory(w http.ResponseWriter, r *http.Request) {
 	dr.get(w, r)
 }
 
-// postDocAction dispatches wildcard POST requests such as doc restore.
+// postDocAction dispatches wildcard POST requests such as doc restore and
+// live editing.
 func (dr *DocRoutes) postDocAction(w http.ResponseWriter, r *http.Request) {
 	raw := decodedDocWildcard(r)
+	if path, action, ok := splitDocCollabPath(raw); ok {
+		dr.collabAction(w, r, path, action)
+		return
+	}
 	if path, ok := splitDocRestorePath(raw); ok {
 		dr.restore(w, r, path)
 		return
 	}
+	if path, ok := splitDocMovePath(raw); ok {
+		dr.move(w, r, path)
+		return
+	}
 	respondError(w, http.StatusNotFound, "unknown doc action")
 }
 
@@ -169,6 +190,22 @@ func splitDocHistoryDiffPath(raw string) (string, string, bool) {
 	return path, revision, path != "" && revision != ""
 }
 
+func splitDocComparePath(raw string) (string, bool) {
+	if !strings.HasSuffix(raw, "/history/compare") {
+		return "", false
+	}
+	path := cleanDocPath(strings.TrimSuffix(raw, "/history/compare"))
+	return path, path != ""
+}
+
+func splitDocBlamePath(raw string) (string, bool) {
+	if !strings.HasSuffix(raw, "/history/blame") {
+		return "", false
+	}
+	path := cleanDocPath(strings.TrimSuffix(raw, "/history/blame"))
+	return path, path != ""
+}
+
 func splitDocRestorePath(raw string) (string, bool) {
 	if !strings.HasSuffix(raw, "/restore") {
 		return "", false
@@ -177,6 +214,14 @@ func splitDocRestorePath(raw string) (string, bool) {
 	return path, path != ""
 }
 
+func splitDocMovePath(raw string) (string, bool) {
+	if !strings.HasSuffix(raw, "/move") {
+		return "", false
+	}
+	path := cleanDocPath(strings.TrimSuffix(raw, "/move"))
+	return path, path != ""
+}
+
 // get retrieves a single doc by path.
 //
 // GET /api/docs/*
@@ -238,7 +283,7 @@ func (dr *DocRoutes) create(w http.ResponseWriter, r *http.Request) {
 		return
 	}
 
-	dr.sse.Broadcast(SSEEvent{Type: "docs:updated", Data: map[string]string{"path": doc.Path}})
+	dr.sse.Broadcast(docUpdatedEvent(dr.getStore(), doc.Path, ""))
 	respondJSON(w, http.StatusCreated, toDocResponse(&doc))
 }
 
@@ -247,6 +292,10 @@ func (dr *DocRoutes) create(w http.ResponseWriter, r *http.Request) {
 // PUT /api/docs/*
 func (dr *DocRoutes) update(w http.ResponseWriter, r *http.Request) {
 	path := docPathParam(r)
+	// Held from the read through the write, so the baseHash check below
+	// still holds when the doc is saved.
+	unlock := dr.getStore().Docs.LockPath(path)
+	defer unlock()
 
 	existing, err := dr.getStore().Docs.Get(path)
 	if err != nil {
@@ -262,11 +311,18 @@ func (dr *DocRoutes) update(w http.ResponseWriter, r *http.Request) {
 		Tags        *[]string `json:"tags"`
 		Path        *string   `json:"path"`
 		Section     *string   `json:"section"`
+		// BaseHash is the hash of the copy the edit started from; stale
+		// writes are rejected instead of overwriting newer changes.
+		BaseHash string `json:"baseHash"`
 	}
 	if err := decodeJSON(r, &payload); err != nil {
 		respondError(w, http.StatusBadRequest, "invalid request body: "+err.Error())
 		return
 	}
+	if payload.BaseHash != "" && payload.BaseHash != storage.DocHash(&oldDoc) {
+		respondStale(w, "doc changed since it was loaded", toDocResponse(&oldDoc))
+		return
+	}
 
 	doc := oldDoc
 	doc.Path = path
@@ -293,44 +349,137 @@ func (dr *DocRoutes) update(w http.ResponseWriter, r *http.Request) {
 		doc.Tags = []string{}
 	}
 
+	section := ""
+	if payload.Section != nil {
+		section = *payload.Section
+	}
+	revision := storage.DocRevisionOptions{Section: section, Actor: "webui", Source: "webui"}
+
 	if oldPath != doc.Path {
-		if err := dr.getStore().Docs.Rename(oldPath, &doc); err != nil {
-			respondError(w, http.StatusInternalServerError, err.Error())
+		store := dr.getStore()
+		if _, err := store.PlanDocMove(oldPath, doc.Path); err != nil {
+			respondError(w, http.StatusBadRequest, err.Error())
 			return
 		}
-		if err := dr.getStore().Docs.RewriteDocReferences(oldPath, doc.Path, dr.getStore().Tasks, dr.getStore().Memory); err != nil {
+		result, err := store.RenameDoc(oldPath, &doc, revision)
+		if err != nil {
 			respondError(w, http.StatusInternalServerError, err.Error())
 			return
 		}
-		search.BestEffortRemoveDoc(dr.getStore(), oldPath)
-	} else if err := dr.getStore().Docs.Update(&doc); err != nil {
+		search.BestEffortRemoveDoc(store, oldPath)
+		search.BestEffortIndexDoc(store, doc.Path)
+		dr.sse.Broadcast(docUpdatedEvent(store, doc.Path, oldPath))
+		broadcastLinkUpdates(dr.sse, dr.collab, store, movedDocInbound(result))
+		respondJSON(w, http.StatusOK, toDocResponse(&doc))
+		return
+	}
+
+	if err := dr.getStore().Docs.Update(&doc); err != nil {
 		respondError(w, http.StatusInternalServerError, err.Error())
 		return
 	}
 
 	search.BestEffortIndexDoc(dr.getStore(), doc.Path)
 
-	section := ""
-	if payload.Section != nil {
-		section = *payload.Section
-	}
-	if err := dr.getStore().Versions.SaveDocRevisionWithOptions(&oldDoc, &doc, storage.DocRevisionOptions{
-		Section: section,
-		Actor:   "webui",
-		Source:  "webui",
-	}); err != nil {
+	if err := dr.getStore().Versions.SaveDocRevisionWithOptions(&oldDoc, &doc, revision); err != nil {
 		respondError(w, http.StatusInternalServerError, "save doc history: "+err.Error())
 		return
 	}
-
-	if oldPath != doc.Path {
-		dr.sse.Broadcast(SSEEvent{Type: "docs:updated", Data: map[string]string{"path": doc.Path, "oldPath": oldPath}})
-	} else {
-		dr.sse.Broadcast(SSEEvent{Type: "docs:updated", Data: map[string]string{"path": path}})
+	if payload.Content != nil {
+		mergeExternalDocWrite(dr.collab, dr.getStore(), doc.Path)
 	}
+
+	dr.sse.Broadcast(docUpdatedEvent(dr.getStore(), doc.Path, ""))
 	respondJSON(w, http.StatusOK, toDocResponse(&doc))
 }
 
+// movedDocInbound lists the sources a doc move rewrote, leaving out the moved
+// doc itself, which callers announce under its new path.
+func movedDocInbound(result *models.DocMoveResult) []models.ReferenceLocation {
+	var inbound []models.ReferenceLocation
+	for _, loc := range result.Inbound {
+		if loc.Kind != "doc" || loc.ID != result.OldPath {
+			inbound = append(inbound, loc)
+		}
+	}
+	return inbound
+}
+
+// move moves a doc to a new path and rewrites every inbound reference to it.
+// With dryRun it only lists the references a move would rewrite.
+//
+// POST /api/docs/*/move
+func (dr *DocRoutes) move(w http.ResponseWriter, r *http.Request, path string) {
+	var payload struct {
+		Path   string `json:"path"`
+		DryRun bool   `json:"dryRun"`
+	}
+	if err := decodeJSON(r, &payload); err != nil {
+		respondError(w, http.StatusBadRequest, "invalid request body: "+err.Error())
+		return
+	}
+
+	store := dr.getStore()
+	if payload.DryRun {
+		plan, err := store.PlanDocMove(path, payload.Path)
+		if err != nil {
+			respondError(w, http.StatusBadRequest, err.Error())
+			return
+		}
+		plan.Doc = nil
+		respondJSON(w, http.StatusOK, plan)
+		return
+	}
+	if _, err := store.PlanDocMove(path, payload.Path); err != nil {
+		respondError(w, http.StatusBadRequest, err.Error())
+		return
+	}
+
+	result, err := store.MoveDoc(path, payload.Path, storage.DocRevisionOptions{Actor: "webui", Source: "move"})
+	if err != nil {
+		respondError(w, http.StatusInternalServerError, err.Error())
+		return
+	}
+
+	search.BestEffortRemoveDoc(store, result.OldPath)
+	search.BestEffortIndexDoc(store, result.NewPath)
+	dr.sse.Broadcast(docUpdatedEvent(store, result.NewPath, result.OldPath))
+	broadcastLinkUpdates(dr.sse, dr.collab, store, movedDocInbound(result))
+
+	respondJSON(w, http.StatusOK, map[string]interface{}{
+		"doc":       toDocResponse(result.Doc),
+		"oldPath":   result.OldPath,
+		"newPath":   result.NewPath,
+		"inbound":   result.Inbound,
+		"rewritten": result.Rewritten,
+	})
+}
+
+// docUpdatedEvent builds the docs:updated event for path. When the doc has
+// retained history, the payload carries the latest revision's version, actor
+// and changed scopes so clients can show what changed without refetching.
+func docUpdatedEvent(store *storage.Store, path, oldPath string) SSEEvent {
+	data := map[string]interface{}{"path": path}
+	if oldPath != "" && oldPath != path {
+		data["oldPath"] = oldPath
+	}
+	if h, err := store.Versions.GetDocHistory(path); err == nil && len(h.Versions) > 0 {
+		latest := h.Versions[len(h.Versions)-1]
+		data["version"] = latest.Version
+		data["revisionId"] = latest.ID
+		data["actor"] = firstNonEmptyString(latest.Actor, latest.Author)
+		if len(latest.Actors) > 0 {
+			data["actors"] = latest.Actors
+		}
+		data["source"] = latest.Source
+		data["timestamp"] = latest.Timestamp
+		if len(latest.ChangedScopes) > 0 {
+			data["changedScopes"] = latest.ChangedScopes
+		}
+	}
+	return SSEEvent{Type: "docs:updated", Data: data}
+}
+
 // history returns the version history for a document.
 //
 // GET /api/docs/*/history
@@ -355,6 +504,45 @@ func (dr *DocRoutes) diff(w http.ResponseWriter, r *http.Request, path, revision
 	respondJSON(w, http.StatusOK, diff)
 }
 
+// compare returns the document at two revisions for a side-by-side diff.
+// Either revision may be "current" for the working copy; an empty from
+// compares to against its predecessor, and section narrows both contents.
+//
+// GET /api/docs/*/history/compare?from={revision}&to={revision}&section={heading}
+func (dr *DocRoutes) compare(w http.ResponseWriter, r *http.Request, path string) {
+	store := dr.getStore()
+	var current *models.Doc
+	if doc, err := store.Docs.Get(path); err == nil {
+		current = doc
+	}
+	query := r.URL.Query()
+	cmp, err := store.Versions.CompareDocRevisions(path, query.Get("from"), query.Get("to"), query.Get("section"), current)
+	if err != nil {
+		respondError(w, http.StatusNotFound, err.Error())
+		return
+	}
+	respondJSON(w, http.StatusOK, cmp)
+}
+
+// blame attributes each line of the working copy to the revision that last
+// changed it.
+//
+// GET /api/docs/*/history/blame
+func (dr *DocRoutes) blame(w http.ResponseWriter, r *http.Request, path string) {
+	store := dr.getStore()
+	doc, err := store.Docs.Get(path)
+	if err != nil {
+		respondError(w, http.StatusNotFound, err.Error())
+		return
+	}
+	blame, err := store.Versions.BlameDoc(path, doc)
+	if err != nil {
+		respondError(w, http.StatusNotFound, err.Error())
+		return
+	}
+	respondJSON(w, http.StatusOK, blame)
+}
+
 // restore restores a document or section from a retained revision.
 //
 // POST /api/docs/*/restore
@@ -396,7 +584,7 @@ func (dr *DocRoutes) restore(w http.ResponseWriter, r *http.Request, path string
 	}
 
 	search.BestEffortIndexDoc(dr.getStore(), doc.Path)
-	dr.sse.Broadcast(SSEEvent{Type: "docs:updated", Data: map[string]string{"path": doc.Path}})
+	dr.sse.Broadcast(docUpdatedEvent(dr.getStore(), doc.Path, ""))
 
 	history, _ := dr.getStore().Versions.GetDocHistory(doc.Path)
 	respondJSON(w, http.StatusOK, map[string]interface{}{
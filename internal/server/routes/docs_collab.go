@@ -0,0 +1,227 @@
+package routes
+
+import (
+	"context"
+	"errors"
+	"net/http"
+	"strings"
+	"time"
+
+	"github.com/howznguyen/knowns/internal/collab"
+	"github.com/howznguyen/knowns/internal/search"
+	"github.com/howznguyen/knowns/internal/storage"
+)
+
+// newDocCollabHub returns the hub for live doc sessions, relaying operations
+// as docs:collab and presence as docs:presence events. Both are live-only:
+// a client that reconnects rejoins the session for a fresh snapshot.
+func newDocCollabHub(sse Broadcaster) *collab.Hub {
+	return collab.NewHub(func(ev collab.Event) {
+		if sse == nil {
+			return
+		}
+		switch ev.Type {
+		case collab.EventOps:
+			sse.Broadcast(SSEEvent{Type: "docs:collab", Data: map[string]interface{}{
+				"path":      ev.Key.Path,
+				"clientId":  ev.ClientID,
+				"sessionId": ev.SessionID,
+				"ops":       ev.Ops,
+			}, Live: true})
+		case collab.EventPresence:
+			sse.Broadcast(SSEEvent{Type: "docs:presence", Data: map[string]interface{}{
+				"path":  ev.Key.Path,
+				"peers": ev.Peers,
+			}, Live: true})
+		}
+	})
+}
+
+// DefaultDocCollabPruneInterval is how often idle doc sessions are swept.
+const DefaultDocCollabPruneInterval = time.Minute
+
+// StartDocCollabSweeper prunes expired peers and idle sessions from hub at
+// interval until ctx is cancelled.
+func StartDocCollabSweeper(ctx context.Context, hub *collab.Hub, interval time.Duration) {
+	if hub == nil {
+		return
+	}
+	if interval <= 0 {
+		interval = DefaultDocCollabPruneInterval
+	}
+	go func() {
+		ticker := time.NewTicker(interval)
+		defer ticker.Stop()
+		for {
+			select {
+			case <-ctx.Done():
+				return
+			case <-ticker.C:
+				hub.Prune()
+			}
+		}
+	}()
+}
+
+func docCollabKey(store *storage.Store, path string) collab.Key {
+	return collab.Key{Root: store.Root, Path: path}
+}
+
+// latestDocActor returns who wrote the latest retained revision of path.
+func latestDocActor(store *storage.Store, path string) string {
+	if h, err := store.Versions.GetDocHistory(path); err == nil && len(h.Versions) > 0 {
+		latest := h.Versions[len(h.Versions)-1]
+		if actor := firstNonEmptyString(latest.Actor, latest.Author); actor != "" {
+			return actor
+		}
+	}
+	return "external"
+}
+
+// mergeExternalDocWrite folds a doc write made outside a live session into
+// that session, if one is open.
+func mergeExternalDocWrite(hub *collab.Hub, store *storage.Store, path string) {
+	if hub == nil {
+		return
+	}
+	doc, err := store.Docs.Get(path)
+	if err != nil {
+		return
+	}
+	hub.MergeExternal(docCollabKey(store, path), doc.Content, latestDocActor(store, path))
+}
+
+var docCollabActions = map[string]bool{"join": true, "presence": true, "ops": true, "leave": true, "save": true}
+
+func splitDocCollabPath(raw string) (string, string, bool) {
+	idx := strings.LastIndex(raw, "/collab/")
+	if idx < 0 {
+		return "", "", false
+	}
+	action := strings.Trim(raw[idx+len("/collab/"):], "/")
+	path := cleanDocPath(raw[:idx])
+	return path, action, path != "" && docCollabActions[action]
+}
+
+type docCollabRequest struct {
+	ClientID  string         `json:"clientId"`
+	SessionID string         `json:"sessionId"`
+	User      string         `json:"user"`
+	Editing   bool           `json:"editing"`
+	Cursor    *collab.Cursor `json:"cursor"`
+	Ops       []collab.Op    `json:"ops"`
+}
+
+func (req docCollabRequest) actor() string {
+	return firstNonEmptyString(strings.TrimSpace(req.User), "webui")
+}
+
+func (req docCollabRequest) peer() collab.Peer {
+	return collab.Peer{ClientID: req.ClientID, User: req.actor(), Editing: req.Editing, Cursor: req.Cursor}
+}
+
+// collabAction serves the live editing endpoints of a doc.
+//
+// POST /api/docs/*/collab/{join|presence|ops|leave|save}
+func (dr *DocRoutes) collabAction(w http.ResponseWriter, r *http.Request, path, action string) {
+	if dr.collab == nil {
+		respondError(w, http.StatusServiceUnavailable, "live editing is not available")
+		return
+	}
+	var req docCollabRequest
+	if err := decodeJSON(r, &req); err != nil {
+		respondError(w, http.StatusBadRequest, "invalid request body: "+err.Error())
+		return
+	}
+	if !collab.ValidClientID(req.ClientID) {
+		respondError(w, http.StatusBadRequest, "invalid clientId")
+		return
+	}
+	store := dr.getStore()
+	key := docCollabKey(store, path)
+
+	switch action {
+	case "join":
+		doc, err := store.Docs.Get(path)
+		if err != nil {
+			respondError(w, http.StatusNotFound, err.Error())
+			return
+		}
+		if req.Editing && doc.IsImported {
+			respondError(w, http.StatusForbidden, "imported docs are read-only")
+			return
+		}
+		result, err := dr.collab.Join(key, req.peer(), func() (string, error) { return doc.Content, nil })
+		if err != nil {
+			respondError(w, http.StatusInternalServerError, err.Error())
+			return
+		}
+		respondJSON(w, http.StatusOK, result)
+	case "presence":
+		respondJSON(w, http.StatusOK, map[string]interface{}{"peers": dr.collab.Presence(key, req.peer())})
+	case "leave":
+		dr.collab.Leave(key, req.ClientID)
+		respondJSON(w, http.StatusOK, map[string]interface{}{"success": true})
+	case "ops":
+		if err := dr.collab.Apply(key, req.SessionID, req.ClientID, req.actor(), req.Ops); err != nil {
+			respondCollabError(w, err)
+			return
+		}
+		respondJSON(w, http.StatusOK, map[string]interface{}{"success": true})
+	case "save":
+		dr.collabSave(w, key, req)
+	}
+}
+
+// collabSave writes a live session's merged content and records one revision
+// crediting every contributor since the previous save.
+func (dr *DocRoutes) collabSave(w http.ResponseWriter, key collab.Key, req docCollabRequest) {
+	store := dr.getStore()
+	// The session merges the copy read here, so no other save may land
+	// between the read and the write.
+	unlock := store.Docs.LockPath(key.Path)
+	defer unlock()
+	existing, err := store.Docs.Get(key.Path)
+	if err != nil {
+		respondError(w, http.StatusNotFound, err.Error())
+		return
+	}
+	oldDoc := *existing
+	doc := oldDoc
+
+	_, err = dr.collab.Save(key, req.SessionID, req.actor(), oldDoc.Content, latestDocActor(store, key.Path), func(content string, actors []string) error {
+		doc.Content = content
+		doc.UpdatedAt = time.Now().UTC()
+		if doc.Tags == nil {
+			doc.Tags = []string{}
+		}
+		if err := store.Docs.Update(&doc); err != nil {
+			return err
+		}
+		return store.Versions.SaveDocRevisionWithOptions(&oldDoc, &doc, storage.DocRevisionOptions{
+			Actor:  req.actor(),
+			Actors: actors,
+			Source: "webui",
+		})
+	})
+	if errors.Is(err, collab.ErrStaleSession) {
+		respondCollabError(w, err)
+		return
+	}
+	if err != nil {
+		respondError(w, http.StatusInternalServerError, err.Error())
+		return
+	}
+
+	search.BestEffortIndexDoc(store, doc.Path)
+	dr.sse.Broadcast(docUpdatedEvent(store, doc.Path, ""))
+	respondJSON(w, http.StatusOK, toDocResponse(&doc))
+}
+
+func respondCollabError(w http.ResponseWriter, err error) {
+	if errors.Is(err, collab.ErrStaleSession) {
+		respondError(w, http.StatusConflict, err.Error())
+		return
+	}
+	respondError(w, http.StatusBadRequest, err.Error())
+}
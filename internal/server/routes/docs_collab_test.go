@@ -0,0 +1,90 @@
+package routes
+
+import (
+	"bytes"
+	"encoding/json"
+	"net/http"
+	"net/http/httptest"
+	"reflect"
+	"testing"
+
+	"github.com/go-chi/chi/v5"
+	"github.com/howznguyen/knowns/internal/collab"
+)
+
+func TestDocCollabRoutesMergeEditsAndCreditEveryActor(t *testing.T) {
+	store := setupDocRouteHistoryStore(t, "co-edit")
+	sse := &fakeBroadcaster{}
+	router := chi.NewRouter()
+	(&DocRoutes{store: store, sse: sse, collab: newDocCollabHub(sse)}).Register(router)
+
+	post := func(action string, body map[string]any) *httptest.ResponseRecorder {
+		t.Helper()
+		data, _ := json.Marshal(body)
+		w := httptest.NewRecorder()
+		router.ServeHTTP(w, httptest.NewRequest(http.MethodPost, "/docs/co-edit/collab/"+action, bytes.NewReader(data)))
+		return w
+	}
+
+	var joined collab.JoinResult
+	for _, peer := range []map[string]any{
+		{"clientId": "tab-a", "user": "alice", "editing": true},
+		{"clientId": "tab-b", "user": "bob", "editing": true},
+	} {
+		w := post("join", peer)
+		if w.Code != http.StatusOK {
+			t.Fatalf("join status = %d: %s", w.Code, w.Body.String())
+		}
+		if err := json.Unmarshal(w.Body.Bytes(), &joined); err != nil {
+			t.Fatalf("decode join: %v", err)
+		}
+	}
+	if joined.Snapshot == nil || len(joined.Peers) != 2 {
+		t.Fatalf("join result = %+v, want snapshot and two peers", joined)
+	}
+	content := "## One\nnew one\n\n## Two\nsame two"
+	last := collab.ID{C: collab.BaseClientID, N: len([]rune(content))}
+
+	// Both edit before seeing each other's operations.
+	alice := collab.Op{Type: collab.OpInsert, ID: &collab.ID{C: "tab-a", N: joined.Snapshot.Clock + 1}, Text: "# Title\n"}
+	bob := collab.Op{Type: collab.OpInsert, ID: &collab.ID{C: "tab-b", N: joined.Snapshot.Clock + 1}, After: &last, Text: "\nmore"}
+	if w := post("ops", map[string]any{"clientId": "tab-a", "user": "alice", "sessionId": joined.SessionID, "ops": []collab.Op{alice}}); w.Code != http.StatusOK {
+		t.Fatalf("alice ops status = %d: %s", w.Code, w.Body.String())
+	}
+	if w := post("ops", map[string]any{"clientId": "tab-b", "user": "bob", "sessionId": joined.SessionID, "ops": []collab.Op{bob}}); w.Code != http.StatusOK {
+		t.Fatalf("bob ops status = %d: %s", w.Code, w.Body.String())
+	}
+	if w := post("ops", map[string]any{"clientId": "tab-b", "user": "bob", "sessionId": "gone", "ops": []collab.Op{}}); w.Code != http.StatusConflict {
+		t.Fatalf("stale session status = %d, want 409", w.Code)
+	}
+
+	w := post("save", map[string]any{"clientId": "tab-b", "user": "bob", "sessionId": joined.SessionID})
+	if w.Code != http.StatusOK {
+		t.Fatalf("save status = %d: %s", w.Code, w.Body.String())
+	}
+	doc, err := store.Docs.Get("co-edit")
+	if err != nil {
+		t.Fatalf("get doc: %v", err)
+	}
+	if want := "# Title\n" + content + "\nmore"; doc.Content != want {
+		t.Fatalf("saved content = %q, want %q", doc.Content, want)
+	}
+	history, err := store.Versions.GetDocHistory("co-edit")
+	if err != nil {
+		t.Fatalf("history: %v", err)
+	}
+	latest := history.Versions[len(history.Versions)-1]
+	if latest.Actor != "bob" || !reflect.DeepEqual(latest.Actors, []string{"alice", "bob"}) {
+		t.Fatalf("latest revision actor=%q actors=%v, want bob crediting alice and bob", latest.Actor, latest.Actors)
+	}
+
+	var relayed int
+	for _, ev := range sse.events {
+		if ev.Type == "docs:collab" {
+			relayed++
+		}
+	}
+	if relayed != 2 {
+		t.Fatalf("docs:collab events = %d, want 2", relayed)
+	}
+}
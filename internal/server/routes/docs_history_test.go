@@ -97,6 +97,62 @@ func TestDocRoutesRestoreCreatesFollowUpRevision(t *testing.T) {
 	}
 }
 
+func TestDocRoutesCompareRevisionWithWorkingCopy(t *testing.T) {
+	store := setupDocRouteHistoryStore(t, "api-compare")
+	router := chi.NewRouter()
+	(&DocRoutes{store: store, sse: &fakeBroadcaster{}}).Register(router)
+
+	req := httptest.NewRequest(http.MethodGet, "/docs/api-compare/history/compare?from=v1&to=current", nil)
+	w := httptest.NewRecorder()
+	router.ServeHTTP(w, req)
+	if w.Code != http.StatusOK {
+		t.Fatalf("compare status = %d body=%s", w.Code, w.Body.String())
+	}
+	var cmp models.DocRevisionComparison
+	if err := json.Unmarshal(w.Body.Bytes(), &cmp); err != nil {
+		t.Fatalf("unmarshal compare: %v", err)
+	}
+	if cmp.From.RevisionID != "v1" || cmp.From.Content != "## One\nold one\n\n## Two\nsame two" {
+		t.Fatalf("from = %#v", cmp.From)
+	}
+	if cmp.To.RevisionID != "current" || cmp.To.Content != "## One\nnew one\n\n## Two\nsame two" {
+		t.Fatalf("to = %#v", cmp.To)
+	}
+	if len(cmp.ChangedScopes) != 1 || cmp.ChangedScopes[0].Section != "One" {
+		t.Fatalf("changed scopes = %#v, want section One", cmp.ChangedScopes)
+	}
+
+	req = httptest.NewRequest(http.MethodGet, "/docs/api-compare/history/compare?from=v9", nil)
+	w = httptest.NewRecorder()
+	router.ServeHTTP(w, req)
+	if w.Code != http.StatusNotFound {
+		t.Fatalf("unknown revision status = %d, want 404", w.Code)
+	}
+}
+
+func TestDocRoutesBlameAttributesSectionEdit(t *testing.T) {
+	store := setupDocRouteHistoryStore(t, "api-blame")
+	router := chi.NewRouter()
+	(&DocRoutes{store: store, sse: &fakeBroadcaster{}}).Register(router)
+
+	req := httptest.NewRequest(http.MethodGet, "/docs/api-blame/history/blame", nil)
+	w := httptest.NewRecorder()
+	router.ServeHTTP(w, req)
+	if w.Code != http.StatusOK {
+		t.Fatalf("blame status = %d body=%s", w.Code, w.Body.String())
+	}
+	var blame models.DocBlame
+	if err := json.Unmarshal(w.Body.Bytes(), &blame); err != nil {
+		t.Fatalf("unmarshal blame: %v", err)
+	}
+	if len(blame.Lines) != 5 || blame.Lines[1].Text != "new one" || blame.Lines[1].RevisionID != "v2" || blame.Lines[4].RevisionID != "v1" {
+		t.Fatalf("blame lines = %#v", blame.Lines)
+	}
+	if len(blame.Sections) != 2 || blame.Sections[0].RevisionID != "v2" || blame.Sections[1].RevisionID != "v1" {
+		t.Fatalf("blame sections = %#v", blame.Sections)
+	}
+}
+
 func setupDocRouteHistoryStore(t *testing.T, path string) *storage.Store {
 	t.Helper()
 	store := storage.NewStore(filepath.Join(t.TempDir(), ".knowns"))
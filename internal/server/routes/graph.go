@@ -164,6 +164,13 @@ func (gr *GraphRoutes) graph(w http.ResponseWriter, r *http.Request) {
 			edges = append(edges, GraphEdge{Source: src, Target: "task:" + t.Parent, Type: "parent"})
 		}
 
+		// Dependencies (task → task it depends on)
+		for _, dep := range t.DependsOn {
+			if taskIDs[dep] {
+				edges = append(edges, GraphEdge{Source: src, Target: "task:" + dep, Type: "depends"})
+			}
+		}
+
 		// Spec link
 		if t.Spec != "" && docPaths[t.Spec] {
 			edges = append(edges, GraphEdge{Source: src, Target: "doc:" + t.Spec, Type: "spec"})
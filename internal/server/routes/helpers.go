@@ -20,6 +20,16 @@ func respondError(w http.ResponseWriter, status int, message string) {
 	respondJSON(w, status, map[string]string{"error": message})
 }
 
+// respondStale rejects a write made against an outdated copy with 409 and the
+// current server state, so the client can merge and retry.
+func respondStale(w http.ResponseWriter, message string, current interface{}) {
+	respondJSON(w, http.StatusConflict, map[string]interface{}{
+		"error":    message,
+		"conflict": "stale",
+		"current":  current,
+	})
+}
+
 // decodeJSON reads and JSON-decodes the request body into v.
 // Returns an error suitable for returning to the client.
 func decodeJSON(r *http.Request, v interface{}) error {
@@ -539,6 +539,9 @@ func (ir *ImportRoutes) add(w http.ResponseWriter, r *http.Request) {
 			respondError(w, http.StatusInternalServerError, err.Error())
 			return
 		}
+		if !req.DryRun {
+			ir.broadcastAdded(name)
+		}
 		respondJSON(w, http.StatusCreated, importResultJSON(name, req.Source, "git", req.DryRun, changes, warnings))
 		return
 	}
@@ -564,6 +567,7 @@ func (ir *ImportRoutes) add(w http.ResponseWriter, r *http.Request) {
 		ImportedAt: now,
 	})
 
+	ir.broadcastAdded(name)
 	respondJSON(w, http.StatusCreated, importResultJSON(name, req.Source, importType, req.DryRun, []importChange{}, nil))
 }
 
@@ -577,12 +581,21 @@ func (ir *ImportRoutes) remove(w http.ResponseWriter, r *http.Request) {
 		respondError(w, http.StatusInternalServerError, err.Error())
 		return
 	}
+	ir.sse.Broadcast(SSEEvent{Type: "imports:removed", Data: map[string]interface{}{"name": name}})
 	respondJSON(w, http.StatusOK, map[string]interface{}{
 		"success":      true,
 		"filesDeleted": true,
 	})
 }
 
+// broadcastAdded emits imports:added with the new import entry.
+func (ir *ImportRoutes) broadcastAdded(name string) {
+	ir.sse.Broadcast(SSEEvent{Type: "imports:added", Data: map[string]interface{}{
+		"name":   name,
+		"import": ir.buildEntry(name, false),
+	}})
+}
+
 // sync is a stub for syncing remote import packages.
 //
 // POST /api/imports/sync
@@ -602,22 +615,24 @@ func (ir *ImportRoutes) syncOne(w http.ResponseWriter, r *http.Request) {
 		return
 	}
 
+	ir.broadcastSyncStarted(name)
 	meta, ok := readImportMeta(importDir)
 	if !ok || !isGitURL(meta.Source) {
 		// No metadata or not a git import — nothing to sync.
-		ir.sse.Broadcast(SSEEvent{Type: "imports:synced", Data: map[string]string{"name": name}})
+		ir.broadcastSyncCompleted(name, false, nil)
 		respondJSON(w, http.StatusOK, importResultJSON(name, meta.Source, meta.Type, false, []importChange{}, nil))
 		return
 	}
 
 	changes, warnings, _, upToDate, err := ir.gitCloneImport(meta.Source, name, meta.Ref, meta.LastCommitHash, false)
 	if err != nil {
+		ir.broadcastSyncFailed(name, err)
 		respondError(w, http.StatusInternalServerError, "sync failed: "+err.Error())
 		return
 	}
 
 	if upToDate {
-		ir.sse.Broadcast(SSEEvent{Type: "imports:synced", Data: map[string]string{"name": name}})
+		ir.broadcastSyncCompleted(name, true, nil)
 		respondJSON(w, http.StatusOK, map[string]interface{}{
 			"success":  true,
 			"upToDate": true,
@@ -626,8 +641,36 @@ func (ir *ImportRoutes) syncOne(w http.ResponseWriter, r *http.Request) {
 		return
 	}
 
-	ir.sse.Broadcast(SSEEvent{Type: "imports:synced", Data: map[string]string{"name": name}})
-	respondJSON(w, http.StatusOK, importResultJSON(name, meta.Source, "git", false, changes, warnings))
+	result := importResultJSON(name, meta.Source, "git", false, changes, warnings)
+	ir.broadcastSyncCompleted(name, false, result["summary"])
+	respondJSON(w, http.StatusOK, result)
+}
+
+// broadcastSyncStarted emits imports:sync-started before an import is synced.
+func (ir *ImportRoutes) broadcastSyncStarted(name string) {
+	ir.sse.Broadcast(SSEEvent{Type: "imports:sync-started", Data: map[string]interface{}{"name": name}})
+}
+
+// broadcastSyncCompleted emits imports:sync-completed with the refreshed
+// import entry so clients can replace their copy in place.
+func (ir *ImportRoutes) broadcastSyncCompleted(name string, upToDate bool, summary interface{}) {
+	data := map[string]interface{}{
+		"name":     name,
+		"import":   ir.buildEntry(name, false),
+		"upToDate": upToDate,
+	}
+	if summary != nil {
+		data["summary"] = summary
+	}
+	ir.sse.Broadcast(SSEEvent{Type: "imports:sync-completed", Data: data})
+}
+
+// broadcastSyncFailed emits imports:sync-failed with the sync error.
+func (ir *ImportRoutes) broadcastSyncFailed(name string, err error) {
+	ir.sse.Broadcast(SSEEvent{Type: "imports:sync-failed", Data: map[string]interface{}{
+		"name":  name,
+		"error": err.Error(),
+	}})
 }
 
 // syncAll synchronises all registered imports.
@@ -680,6 +723,7 @@ func (ir *ImportRoutes) syncAll(w http.ResponseWriter, r *http.Request) {
 			continue
 		}
 
+		ir.broadcastSyncStarted(name)
 		changes, warnings, _, upToDate, syncErr := ir.gitCloneImport(meta.Source, name, meta.Ref, meta.LastCommitHash, false)
 		if syncErr != nil {
 			results = append(results, syncResult{
@@ -690,6 +734,7 @@ func (ir *ImportRoutes) syncAll(w http.ResponseWriter, r *http.Request) {
 				Error:   syncErr.Error(),
 			})
 			failed++
+			ir.broadcastSyncFailed(name, syncErr)
 			continue
 		}
 
@@ -704,6 +749,7 @@ func (ir *ImportRoutes) syncAll(w http.ResponseWriter, r *http.Request) {
 				},
 			})
 			successful++
+			ir.broadcastSyncCompleted(name, true, nil)
 			continue
 		}
 
@@ -736,7 +782,7 @@ func (ir *ImportRoutes) syncAll(w http.ResponseWriter, r *http.Request) {
 		results = append(results, sr)
 		successful++
 
-		ir.sse.Broadcast(SSEEvent{Type: "imports:synced", Data: map[string]string{"name": name}})
+		ir.broadcastSyncCompleted(name, false, sr.Summary)
 	}
 
 	if results == nil {
@@ -744,7 +790,11 @@ func (ir *ImportRoutes) syncAll(w http.ResponseWriter, r *http.Request) {
 	}
 
 	total := successful + failed
-	ir.sse.Broadcast(SSEEvent{Type: "imports:sync-all", Data: map[string]interface{}{"total": total}})
+	ir.sse.Broadcast(SSEEvent{Type: "imports:sync-all", Data: map[string]interface{}{
+		"total":      total,
+		"successful": successful,
+		"failed":     failed,
+	}})
 	respondJSON(w, http.StatusOK, map[string]interface{}{
 		"success": true,
 		"dryRun":  false,
@@ -1,13 +1,19 @@
 package routes
 
 import (
+	"bytes"
 	"encoding/json"
+	"errors"
+	"fmt"
 	"net/http"
+	"net/url"
 	"sort"
+	"strconv"
 	"strings"
 	"time"
 
 	"github.com/go-chi/chi/v5"
+	"github.com/howznguyen/knowns/internal/memorybundle"
 	"github.com/howznguyen/knowns/internal/memoryreview"
 	"github.com/howznguyen/knowns/internal/models"
 	"github.com/howznguyen/knowns/internal/references"
@@ -34,14 +40,24 @@ func (mr *MemoryRoutes) Register(r chi.Router) {
 	r.Get("/memories", mr.list)
 	r.Post("/memories", mr.create)
 	r.Get("/memories/review", mr.reviewInbox)
+	r.Get("/memories/ttl", mr.ttlForecast)
 	r.Post("/memories/review/resolve", mr.resolveReview)
 	r.Post("/memories/bulk", mr.bulkAction)
+	r.Post("/memories/clusters", mr.findClusters)
+	r.Get("/memories/export", mr.exportBundle)
+	r.Post("/memories/import", mr.importBundle)
+	r.Post("/memories/clusters/merge", mr.mergeCluster)
+	r.Post("/memories/operations/{id}/undo", mr.undoOperation)
 	r.Get("/memories/{id}", mr.get)
 	r.Put("/memories/{id}", mr.update)
 	r.Delete("/memories/{id}", mr.delete)
 	r.Post("/memories/{id}/action", mr.action)
 	r.Post("/memories/{id}/promote", mr.promote)
 	r.Post("/memories/{id}/demote", mr.demote)
+	r.Get("/memories/{id}/history", mr.history)
+	r.Get("/memories/{id}/history/{revision}/diff", mr.diff)
+	r.Post("/memories/{id}/restore", mr.restore)
+	r.Post("/memories/{id}/unmerge", mr.unmerge)
 }
 
 func (mr *MemoryRoutes) list(w http.ResponseWriter, r *http.Request) {
@@ -159,6 +175,8 @@ func (mr *MemoryRoutes) create(w http.ResponseWriter, r *http.Request) {
 	result, err := memoryreview.New(mr.getStore()).Add(entry, memoryreview.AddOptions{
 		SkipReview: req.SkipReview,
 		Status:     req.Status,
+		Actor:      "webui",
+		Source:     "webui",
 	})
 	if err != nil {
 		respondError(w, http.StatusInternalServerError, err.Error())
@@ -238,7 +256,7 @@ func (mr *MemoryRoutes) update(w http.ResponseWriter, r *http.Request) {
 
 	entry.UpdatedAt = time.Now().UTC()
 
-	if err := mr.getStore().Memory.Update(entry); err != nil {
+	if err := mr.getStore().Memory.UpdateWithRevision(entry, storage.MemoryRevisionOptions{Actor: "webui", Source: "webui"}); err != nil {
 		respondError(w, http.StatusInternalServerError, err.Error())
 		return
 	}
@@ -274,18 +292,34 @@ func (mr *MemoryRoutes) resolveReview(w http.ResponseWriter, r *http.Request) {
 		respondError(w, http.StatusBadRequest, "resolution is required")
 		return
 	}
+	op := storage.NewMemoryOperation(req.Resolution, "webui", "webui")
 	result, err := memoryreview.New(mr.getStore()).Resolve(memoryFromResolveRequest(req), memoryreview.ResolveOptions{
 		Resolution:     req.Resolution,
 		TargetID:       req.TargetID,
 		Status:         req.Status,
 		RejectedReason: req.RejectedReason,
+		Actor:          "webui",
+		Source:         "webui",
+		OperationID:    op.ID,
 	})
 	if err != nil {
 		respondError(w, http.StatusBadRequest, err.Error())
 		return
 	}
+	if len(result.ChangedIDs) > 0 {
+		// The resolution is already written, so a failed log only costs the undo.
+		op.MemoryIDs = append(op.MemoryIDs, result.ChangedIDs...)
+		if err := mr.getStore().Memory.RecordOperation(op); err != nil {
+			result.Warning = "resolved, but it cannot be undone: " + err.Error()
+		} else {
+			result.Operation = op
+		}
+	}
 	indexMemoryChanges(mr.getStore(), result.ChangedIDs)
-	mr.broadcast("memories:updated", map[string]any{"result": result})
+	mr.broadcast("memories:updated", map[string]any{
+		"result":   result,
+		"memories": loadChangedMemories(mr.getStore(), result.ChangedIDs),
+	})
 	respondJSON(w, http.StatusOK, result)
 }
 
@@ -353,7 +387,8 @@ func (mr *MemoryRoutes) action(w http.ResponseWriter, r *http.Request) {
 	}
 
 	entry.UpdatedAt = now
-	if err := mr.getStore().Memory.Update(entry); err != nil {
+	revision := storage.MemoryRevisionOptions{Actor: "webui", Source: "webui", Resolution: req.Action}
+	if err := mr.getStore().Memory.UpdateWithRevision(entry, revision); err != nil {
 		respondError(w, http.StatusInternalServerError, err.Error())
 		return
 	}
@@ -399,6 +434,8 @@ func (mr *MemoryRoutes) bulkAction(w http.ResponseWriter, r *http.Request) {
 	}
 
 	now := time.Now().UTC()
+	op := storage.NewMemoryOperation(req.Action, "webui", "webui")
+	revision := storage.MemoryRevisionOptions{Actor: "webui", Source: "webui", Resolution: req.Action, OperationID: op.ID}
 	updated := make([]*models.MemoryEntry, 0, len(entries))
 	for _, entry := range entries {
 		switch req.Action {
@@ -412,15 +449,259 @@ func (mr *MemoryRoutes) bulkAction(w http.ResponseWriter, r *http.Request) {
 			entry.RejectedReason = firstNonEmptyString(req.RejectedReason, "rejected_by_review")
 		}
 		entry.UpdatedAt = now
-		if err := mr.getStore().Memory.Update(entry); err != nil {
+		if err := mr.getStore().Memory.UpdateWithRevision(entry, revision); err != nil {
 			respondError(w, http.StatusInternalServerError, err.Error())
 			return
 		}
 		search.BestEffortIndexMemory(mr.getStore(), entry.ID)
 		updated = append(updated, entry)
+		op.MemoryIDs = append(op.MemoryIDs, entry.ID)
+	}
+	if err := mr.getStore().Memory.RecordOperation(op); err != nil {
+		respondError(w, http.StatusInternalServerError, err.Error())
+		return
 	}
-	mr.broadcast("memories:updated", map[string]any{"bulk": true, "count": len(updated)})
-	respondJSON(w, http.StatusOK, map[string]any{"updated": updated, "count": len(updated)})
+	mr.broadcast("memories:updated", map[string]any{"bulk": true, "count": len(updated), "memories": updated})
+	respondJSON(w, http.StatusOK, map[string]any{"updated": updated, "count": len(updated), "operation": op})
+}
+
+// ttlForecast lists the memories with a TTL by upcoming expiry, with the
+// expiry sweep settings that decide when they go stale and get archived.
+//
+// GET /api/memories/ttl
+func (mr *MemoryRoutes) ttlForecast(w http.ResponseWriter, r *http.Request) {
+	store := mr.getStore()
+	settings, archiveAfter, err := memoryLifecycleSettings(store)
+	if err != nil {
+		respondError(w, http.StatusInternalServerError, err.Error())
+		return
+	}
+	items, err := memoryreview.New(store).ExpiryForecast(archiveAfter)
+	if err != nil {
+		respondError(w, http.StatusInternalServerError, err.Error())
+		return
+	}
+	respondJSON(w, http.StatusOK, map[string]any{
+		"autoExpire":   settings.AutoExpire,
+		"archiveAfter": settings.ArchiveAfter,
+		"now":          time.Now().UTC(),
+		"items":        items,
+	})
+}
+
+type findMemoryClustersRequest struct {
+	Threshold float64 `json:"threshold"`
+}
+
+// findClusters groups existing memories that have drifted into
+// near-duplicates, using the configured semantic-search embedding model.
+//
+// POST /api/memories/clusters
+func (mr *MemoryRoutes) findClusters(w http.ResponseWriter, r *http.Request) {
+	var req findMemoryClustersRequest
+	if r.ContentLength != 0 {
+		if err := json.NewDecoder(r.Body).Decode(&req); err != nil {
+			respondError(w, http.StatusBadRequest, "invalid request body")
+			return
+		}
+	}
+	if req.Threshold < 0 || req.Threshold > 1 {
+		respondError(w, http.StatusBadRequest, "threshold must be between 0 and 1")
+		return
+	}
+	clusters, err := memoryreview.New(mr.getStore()).FindClusters(req.Threshold)
+	switch {
+	case errors.Is(err, search.ErrSemanticNotConfigured), errors.Is(err, search.ErrSemanticRuntimeDisabled):
+		respondError(w, http.StatusServiceUnavailable, err.Error())
+		return
+	case err != nil:
+		respondError(w, http.StatusInternalServerError, err.Error())
+		return
+	}
+	respondJSON(w, http.StatusOK, map[string]any{"clusters": clusters, "count": len(clusters)})
+}
+
+type mergeMemoryClusterRequest struct {
+	SurvivorID string   `json:"survivorId"`
+	MemberIDs  []string `json:"memberIds"`
+	Content    string   `json:"content"`
+}
+
+// mergeCluster merges a cluster's members into the chosen survivor as one
+// undoable operation.
+//
+// POST /api/memories/clusters/merge
+func (mr *MemoryRoutes) mergeCluster(w http.ResponseWriter, r *http.Request) {
+	var req mergeMemoryClusterRequest
+	if err := json.NewDecoder(r.Body).Decode(&req); err != nil {
+		respondError(w, http.StatusBadRequest, "invalid request body")
+		return
+	}
+	store := mr.getStore()
+	op := storage.NewMemoryOperation(memoryreview.ResolutionMergeExisting, "webui", "webui")
+	result, err := memoryreview.New(store).MergeCluster(memoryreview.ClusterMergeOptions{
+		SurvivorID:  req.SurvivorID,
+		MemberIDs:   req.MemberIDs,
+		Content:     req.Content,
+		Actor:       "webui",
+		Source:      "webui",
+		OperationID: op.ID,
+	})
+	if result != nil && len(result.ChangedIDs) > 0 {
+		// Record partial merges too, so whatever was written can be undone.
+		op.MemoryIDs = append(op.MemoryIDs, result.ChangedIDs...)
+		if recordErr := store.Memory.RecordOperation(op); recordErr != nil && err == nil {
+			err = recordErr
+		}
+		result.Operation = op
+		indexMemoryChanges(store, result.ChangedIDs)
+		mr.broadcast("memories:updated", map[string]any{
+			"result":   result,
+			"memories": loadChangedMemories(store, result.ChangedIDs),
+		})
+	}
+	if err != nil {
+		respondError(w, http.StatusBadRequest, err.Error())
+		return
+	}
+	respondJSON(w, http.StatusOK, result)
+}
+
+func memoryBundleFilter(query url.Values) memorybundle.Filter {
+	return memorybundle.Filter{
+		Kind:     query.Get("kind"),
+		Layer:    query.Get("layer"),
+		Tags:     query["tag"],
+		Category: query.Get("category"),
+		Status:   query.Get("status"),
+	}
+}
+
+// exportBundle downloads memories and decisions as a JSONL or markdown
+// bundle, filtered by kind, layer, tag, category and status.
+//
+// GET /api/memories/export?format=jsonl&tag=...
+func (mr *MemoryRoutes) exportBundle(w http.ResponseWriter, r *http.Request) {
+	query := r.URL.Query()
+	format := query.Get("format")
+	if format == "" {
+		format = memorybundle.FormatJSONL
+	}
+	if !memorybundle.ValidFormat(format) {
+		respondError(w, http.StatusBadRequest, "format must be jsonl or markdown")
+		return
+	}
+	records, err := memorybundle.Export(mr.getStore(), memoryBundleFilter(query))
+	if err != nil {
+		respondError(w, http.StatusInternalServerError, err.Error())
+		return
+	}
+	var buf bytes.Buffer
+	if err := memorybundle.Write(&buf, records, format); err != nil {
+		respondError(w, http.StatusInternalServerError, err.Error())
+		return
+	}
+	filename, contentType := "memories.jsonl", "application/x-ndjson"
+	if format == memorybundle.FormatMarkdown {
+		filename, contentType = "memories.md", "text/markdown; charset=utf-8"
+	}
+	w.Header().Set("Content-Type", contentType)
+	w.Header().Set("Content-Disposition", fmt.Sprintf("attachment; filename=%q", filename))
+	w.Header().Set("X-Bundle-Count", strconv.Itoa(len(records)))
+	w.WriteHeader(http.StatusOK)
+	_, _ = w.Write(buf.Bytes())
+}
+
+type importMemoryBundleRequest struct {
+	Format      string   `json:"format"`
+	Content     string   `json:"content"`
+	Into        string   `json:"into"`
+	OnDuplicate string   `json:"onDuplicate"`
+	Kind        string   `json:"kind"`
+	Layer       string   `json:"layer"`
+	Tags        []string `json:"tags"`
+	Category    string   `json:"category"`
+	Status      string   `json:"status"`
+}
+
+// importBundle imports a bundle through duplicate review and reports what
+// was created, merged, updated and skipped.
+//
+// POST /api/memories/import
+func (mr *MemoryRoutes) importBundle(w http.ResponseWriter, r *http.Request) {
+	var req importMemoryBundleRequest
+	if err := json.NewDecoder(r.Body).Decode(&req); err != nil {
+		respondError(w, http.StatusBadRequest, "invalid request body")
+		return
+	}
+	if req.Format == "" {
+		req.Format = memorybundle.FormatJSONL
+	}
+	if !memorybundle.ValidFormat(req.Format) {
+		respondError(w, http.StatusBadRequest, "format must be jsonl or markdown")
+		return
+	}
+	records, err := memorybundle.Read(strings.NewReader(req.Content), req.Format)
+	if err != nil {
+		respondError(w, http.StatusBadRequest, err.Error())
+		return
+	}
+	store := mr.getStore()
+	report, err := memorybundle.Import(store, records, memorybundle.ImportOptions{
+		Filter:      memorybundle.Filter{Kind: req.Kind, Layer: req.Layer, Tags: req.Tags, Category: req.Category, Status: req.Status},
+		Layer:       req.Into,
+		OnDuplicate: req.OnDuplicate,
+		Actor:       "webui",
+		Source:      "import",
+	})
+	if err != nil {
+		respondError(w, http.StatusBadRequest, err.Error())
+		return
+	}
+	if len(report.ChangedMemoryIDs) > 0 {
+		indexMemoryChanges(store, report.ChangedMemoryIDs)
+		memories := loadChangedMemories(store, report.ChangedMemoryIDs)
+		mr.broadcast("memories:updated", map[string]any{"bulk": true, "count": len(memories), "memories": memories})
+	}
+	for _, id := range report.CreatedDecisionIDs() {
+		search.BestEffortIndexDecision(store, id)
+		if decision, err := store.Decisions.Get(id); err == nil {
+			mr.broadcast("decisions:created", map[string]any{"decision": decision})
+		}
+	}
+	respondJSON(w, http.StatusOK, report)
+}
+
+// undoOperation reverts a bulk action or review resolution while it is still
+// within its undo window.
+//
+// POST /api/memories/operations/{id}/undo
+func (mr *MemoryRoutes) undoOperation(w http.ResponseWriter, r *http.Request) {
+	store := mr.getStore()
+	result, err := store.Memory.UndoOperation(chi.URLParam(r, "id"), storage.MemoryRevisionOptions{Actor: "webui", Source: "webui"})
+	switch {
+	case errors.Is(err, storage.ErrMemoryOperationNotFound):
+		respondError(w, http.StatusNotFound, err.Error())
+		return
+	case errors.Is(err, storage.ErrMemoryOperationNotUndoable):
+		respondError(w, http.StatusConflict, err.Error())
+		return
+	case err != nil:
+		respondError(w, http.StatusInternalServerError, err.Error())
+		return
+	}
+
+	for _, entry := range result.Memories {
+		search.BestEffortIndexMemory(store, entry.ID)
+	}
+	for _, id := range result.DeletedIDs {
+		search.BestEffortRemoveMemory(store, id)
+		mr.broadcast("memories:deleted", map[string]any{"id": id})
+	}
+	if len(result.Memories) > 0 {
+		mr.broadcast("memories:updated", map[string]any{"bulk": true, "count": len(result.Memories), "memories": result.Memories})
+	}
+	respondJSON(w, http.StatusOK, result)
 }
 
 const (
@@ -461,6 +742,11 @@ type memorySourceRepair struct {
 	ReplacementDecisionID string `json:"replacementDecisionId"`
 }
 
+// reviewInbox lists persistent memories with the review items of those that
+// need attention. ids (comma-separated) narrows the response to those
+// memories, so a client can refresh the items of memories that just changed.
+//
+// GET /api/memories/review
 func (mr *MemoryRoutes) reviewInbox(w http.ResponseWriter, r *http.Request) {
 	store := mr.getStore()
 	entries, err := store.Memory.ListPersistent("")
@@ -472,7 +758,22 @@ func (mr *MemoryRoutes) reviewInbox(w http.ResponseWriter, r *http.Request) {
 		return memorySortTime(entries[i]).After(memorySortTime(entries[j]))
 	})
 
+	// Source checks resolve memory refs against every memory, not just the
+	// requested ones.
 	ctx := newMemoryReviewContext(store, entries)
+	if ids := r.URL.Query().Get("ids"); ids != "" {
+		wanted := map[string]bool{}
+		for _, id := range strings.Split(ids, ",") {
+			wanted[strings.TrimSpace(id)] = true
+		}
+		filtered := make([]*models.MemoryEntry, 0, len(wanted))
+		for _, entry := range entries {
+			if wanted[entry.ID] {
+				filtered = append(filtered, entry)
+			}
+		}
+		entries = filtered
+	}
 	items := make([]memoryReviewItem, 0)
 	counts := map[string]int{
 		memoryReviewReasonProposed:                 0,
@@ -631,10 +932,8 @@ func brokenSourceReviewIssue(source, target string) memoryReviewIssue {
 }
 
 func memoryTTLExpired(entry *models.MemoryEntry, now time.Time) bool {
-	if entry.TTLDays <= 0 || entry.LastVerified.IsZero() {
-		return false
-	}
-	return now.After(entry.LastVerified.Add(time.Duration(entry.TTLDays) * 24 * time.Hour))
+	expiresAt, ok := entry.ExpiresAt()
+	return ok && now.After(expiresAt)
 }
 
 func memorySortTime(entry *models.MemoryEntry) time.Time {
@@ -702,6 +1001,18 @@ func replaceSource(sources []string, source, replacement string) []string {
 	return appendUniqueStrings(nil, out...)
 }
 
+// loadChangedMemories reads the current state of each changed memory so SSE
+// clients can patch their lists without refetching. Deleted IDs are skipped.
+func loadChangedMemories(store *storage.Store, ids []string) []*models.MemoryEntry {
+	entries := make([]*models.MemoryEntry, 0, len(ids))
+	for _, id := range ids {
+		if entry, err := store.Memory.Get(id); err == nil {
+			entries = append(entries, entry)
+		}
+	}
+	return entries
+}
+
 func (mr *MemoryRoutes) broadcast(eventType string, data any) {
 	if mr.sse != nil {
 		mr.sse.Broadcast(SSEEvent{Type: eventType, Data: data})
@@ -722,6 +1033,7 @@ func (mr *MemoryRoutes) delete(w http.ResponseWriter, r *http.Request) {
 	}
 
 	search.BestEffortRemoveMemory(mr.getStore(), id)
+	mr.broadcast("memories:deleted", map[string]any{"id": id})
 	respondJSON(w, http.StatusOK, map[string]any{"deleted": true, "id": id})
 }
 
@@ -735,6 +1047,7 @@ func (mr *MemoryRoutes) promote(w http.ResponseWriter, r *http.Request) {
 	}
 
 	search.BestEffortIndexMemory(mr.getStore(), entry.ID)
+	mr.broadcast("memories:updated", map[string]any{"memory": entry})
 	respondJSON(w, http.StatusOK, entry)
 }
 
@@ -748,5 +1061,94 @@ func (mr *MemoryRoutes) demote(w http.ResponseWriter, r *http.Request) {
 	}
 
 	search.BestEffortIndexMemory(mr.getStore(), entry.ID)
+	mr.broadcast("memories:updated", map[string]any{"memory": entry})
+	respondJSON(w, http.StatusOK, entry)
+}
+
+// history returns the revision history for a memory.
+//
+// GET /api/memories/{id}/history
+func (mr *MemoryRoutes) history(w http.ResponseWriter, r *http.Request) {
+	h, err := mr.getStore().Memory.GetHistory(chi.URLParam(r, "id"))
+	if err != nil {
+		respondError(w, http.StatusInternalServerError, err.Error())
+		return
+	}
+	respondJSON(w, http.StatusOK, h)
+}
+
+// diff returns the change set of one memory revision.
+//
+// GET /api/memories/{id}/history/{revision}/diff
+func (mr *MemoryRoutes) diff(w http.ResponseWriter, r *http.Request) {
+	diff, err := mr.getStore().Memory.GetRevisionDiff(chi.URLParam(r, "id"), chi.URLParam(r, "revision"))
+	if err != nil {
+		respondError(w, http.StatusNotFound, err.Error())
+		return
+	}
+	respondJSON(w, http.StatusOK, diff)
+}
+
+// restore puts a memory back to a recorded revision.
+//
+// POST /api/memories/{id}/restore
+func (mr *MemoryRoutes) restore(w http.ResponseWriter, r *http.Request) {
+	id := chi.URLParam(r, "id")
+	var payload struct {
+		RevisionID string `json:"revisionId"`
+	}
+	if err := decodeJSON(r, &payload); err != nil {
+		respondError(w, http.StatusBadRequest, "invalid request body: "+err.Error())
+		return
+	}
+	if payload.RevisionID == "" {
+		respondError(w, http.StatusBadRequest, "revisionId is required")
+		return
+	}
+	if entry, err := mr.getStore().Memory.Get(id); err != nil || !models.ValidPersistentMemoryLayer(entry.Layer) {
+		respondError(w, http.StatusNotFound, "memory not found")
+		return
+	}
+
+	entry, err := mr.getStore().Memory.Restore(id, payload.RevisionID, storage.MemoryRevisionOptions{Actor: "webui", Source: "webui"})
+	if err != nil {
+		respondError(w, http.StatusBadRequest, err.Error())
+		return
+	}
+
+	search.BestEffortIndexMemory(mr.getStore(), entry.ID)
+	mr.broadcast("memories:updated", map[string]any{"memory": entry})
+	history, _ := mr.getStore().Memory.GetHistory(id)
+	respondJSON(w, http.StatusOK, map[string]any{
+		"restored": true,
+		"memory":   entry,
+		"history":  history,
+	})
+}
+
+// unmerge returns a merged memory to its state before the merge, and the
+// memory it was merged into too when the same operation rewrote it.
+//
+// POST /api/memories/{id}/unmerge
+func (mr *MemoryRoutes) unmerge(w http.ResponseWriter, r *http.Request) {
+	id := chi.URLParam(r, "id")
+	if entry, err := mr.getStore().Memory.Get(id); err != nil || !models.ValidPersistentMemoryLayer(entry.Layer) {
+		respondError(w, http.StatusNotFound, "memory not found")
+		return
+	}
+
+	entry, target, err := mr.getStore().Memory.Unmerge(id, storage.MemoryRevisionOptions{Actor: "webui", Source: "webui"})
+	if entry != nil {
+		search.BestEffortIndexMemory(mr.getStore(), entry.ID)
+		mr.broadcast("memories:updated", map[string]any{"memory": entry})
+	}
+	if target != nil {
+		search.BestEffortIndexMemory(mr.getStore(), target.ID)
+		mr.broadcast("memories:updated", map[string]any{"memory": target})
+	}
+	if err != nil {
+		respondError(w, http.StatusBadRequest, err.Error())
+		return
+	}
 	respondJSON(w, http.StatusOK, entry)
 }
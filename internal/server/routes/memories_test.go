@@ -5,6 +5,7 @@ import (
 	"encoding/json"
 	"net/http"
 	"net/http/httptest"
+	"os"
 	"path/filepath"
 	"testing"
 	"time"
@@ -101,6 +102,17 @@ func TestMemoryRoutesReviewInboxGroupingAndActions(t *testing.T) {
 		t.Fatalf("duplicate count = %d, want 1", inbox.Counts[memoryReviewReasonDuplicateReview])
 	}
 
+	req = httptest.NewRequest("GET", "/memories/review?ids="+stale.ID+","+active.ID, nil)
+	w = httptest.NewRecorder()
+	router.ServeHTTP(w, req)
+	var narrowed memoryReviewInboxResponse
+	if err := json.Unmarshal(w.Body.Bytes(), &narrowed); err != nil {
+		t.Fatalf("decode narrowed inbox: %v\n%s", err, w.Body.String())
+	}
+	if len(narrowed.Memories) != 2 || len(narrowed.Items) != 1 || narrowed.Items[0].Memory.ID != stale.ID {
+		t.Fatalf("narrowed inbox = %+v, want both memories and only the stale one's item", narrowed)
+	}
+
 	actionBody, _ := json.Marshal(map[string]any{
 		"action":      "repair_source",
 		"source":      models.DecisionRef(supersededDecision.ID),
@@ -285,6 +297,253 @@ func createMemoryRouteMemory(t *testing.T, store *storage.Store, entry *models.M
 	return created
 }
 
+func TestMemoryRoutesHistoryDiffAndRestoreMerge(t *testing.T) {
+	store := setupMemoryRouteStore(t)
+	router := chi.NewRouter()
+	sse := &fakeBroadcaster{}
+	(&MemoryRoutes{store: store, sse: sse}).Register(router)
+
+	target := createMemoryRouteMemory(t, store, &models.MemoryEntry{
+		ID:      "target1",
+		Title:   "Default vector database",
+		Status:  models.MemoryStatusActive,
+		Content: "Use Qdrant as the default vector database.",
+	})
+	duplicate := createMemoryRouteMemory(t, store, &models.MemoryEntry{
+		ID:      "dup1",
+		Title:   "Vector database choice",
+		Status:  models.MemoryStatusProposed,
+		Content: "Qdrant is the vector database.",
+	})
+
+	send := func(method, path string, body any) *httptest.ResponseRecorder {
+		t.Helper()
+		var data []byte
+		if body != nil {
+			data, _ = json.Marshal(body)
+		}
+		w := httptest.NewRecorder()
+		router.ServeHTTP(w, httptest.NewRequest(method, path, bytes.NewReader(data)))
+		return w
+	}
+
+	if w := send("POST", "/memories/review/resolve", map[string]any{
+		"resolution": "merge_existing",
+		"targetId":   target.ID,
+		"id":         duplicate.ID,
+	}); w.Code != http.StatusOK {
+		t.Fatalf("merge status = %d: %s", w.Code, w.Body.String())
+	}
+
+	w := send("GET", "/memories/dup1/history", nil)
+	if w.Code != http.StatusOK {
+		t.Fatalf("history status = %d: %s", w.Code, w.Body.String())
+	}
+	var history models.MemoryVersionHistory
+	if err := json.Unmarshal(w.Body.Bytes(), &history); err != nil {
+		t.Fatalf("decode history: %v", err)
+	}
+	if len(history.Versions) != 2 {
+		t.Fatalf("history versions = %+v, want create and merge", history.Versions)
+	}
+	merge := history.Versions[1]
+	if merge.Actor != "webui" || merge.Resolution != "merge_existing" || len(merge.Related) != 1 || merge.Related[0] != target.ID {
+		t.Fatalf("merge revision = %+v, want webui merge into %s", merge, target.ID)
+	}
+
+	w = send("GET", "/memories/dup1/history/v2/diff", nil)
+	if w.Code != http.StatusOK {
+		t.Fatalf("diff status = %d: %s", w.Code, w.Body.String())
+	}
+	var diff models.MemoryRevisionDiff
+	if err := json.Unmarshal(w.Body.Bytes(), &diff); err != nil {
+		t.Fatalf("decode diff: %v", err)
+	}
+	if diff.PreviousRevisionID != "v1" || len(diff.Changes) == 0 {
+		t.Fatalf("diff = %+v", diff)
+	}
+	if w := send("GET", "/memories/dup1/history/v9/diff", nil); w.Code != http.StatusNotFound {
+		t.Fatalf("unknown revision diff status = %d, want 404", w.Code)
+	}
+
+	if w := send("POST", "/memories/dup1/restore", map[string]any{}); w.Code != http.StatusBadRequest {
+		t.Fatalf("restore without revision status = %d, want 400", w.Code)
+	}
+	w = send("POST", "/memories/dup1/restore", map[string]any{"revisionId": "v1"})
+	if w.Code != http.StatusOK {
+		t.Fatalf("restore status = %d: %s", w.Code, w.Body.String())
+	}
+	restored, err := store.Memory.Get("dup1")
+	if err != nil {
+		t.Fatalf("get restored: %v", err)
+	}
+	if restored.Status != models.MemoryStatusProposed || restored.MergedInto != "" {
+		t.Fatalf("restored = %+v, want the merge undone", restored)
+	}
+	if last := sse.events[len(sse.events)-1]; last.Type != "memories:updated" {
+		t.Fatalf("last broadcast = %q, want memories:updated", last.Type)
+	}
+}
+
+func TestMemoryRoutesUndoBulkActionAndUnmerge(t *testing.T) {
+	store := setupMemoryRouteStore(t)
+	router := chi.NewRouter()
+	(&MemoryRoutes{store: store, sse: &fakeBroadcaster{}}).Register(router)
+
+	first := createMemoryRouteMemory(t, store, &models.MemoryEntry{ID: "bulk1", Title: "First", Status: models.MemoryStatusActive})
+	second := createMemoryRouteMemory(t, store, &models.MemoryEntry{ID: "bulk2", Title: "Second", Status: models.MemoryStatusStale})
+	target := createMemoryRouteMemory(t, store, &models.MemoryEntry{ID: "target2", Title: "Target", Status: models.MemoryStatusActive})
+
+	send := func(method, path string, body any) *httptest.ResponseRecorder {
+		t.Helper()
+		data, _ := json.Marshal(body)
+		w := httptest.NewRecorder()
+		router.ServeHTTP(w, httptest.NewRequest(method, path, bytes.NewReader(data)))
+		return w
+	}
+
+	w := send("POST", "/memories/bulk", map[string]any{"action": "archive", "ids": []string{first.ID, second.ID}})
+	if w.Code != http.StatusOK {
+		t.Fatalf("bulk status = %d: %s", w.Code, w.Body.String())
+	}
+	var bulk struct {
+		Operation models.MemoryOperation `json:"operation"`
+	}
+	if err := json.Unmarshal(w.Body.Bytes(), &bulk); err != nil {
+		t.Fatalf("decode bulk: %v", err)
+	}
+	if bulk.Operation.ID == "" || len(bulk.Operation.MemoryIDs) != 2 {
+		t.Fatalf("bulk operation = %+v, want both memories", bulk.Operation)
+	}
+
+	w = send("POST", "/memories/operations/"+bulk.Operation.ID+"/undo", nil)
+	if w.Code != http.StatusOK {
+		t.Fatalf("undo status = %d: %s", w.Code, w.Body.String())
+	}
+	for id, want := range map[string]string{first.ID: models.MemoryStatusActive, second.ID: models.MemoryStatusStale} {
+		entry, err := store.Memory.Get(id)
+		if err != nil {
+			t.Fatalf("get %s: %v", id, err)
+		}
+		if entry.Status != want {
+			t.Fatalf("%s status after undo = %q, want %q", id, entry.Status, want)
+		}
+	}
+	if w := send("POST", "/memories/operations/"+bulk.Operation.ID+"/undo", nil); w.Code != http.StatusConflict {
+		t.Fatalf("second undo status = %d, want 409", w.Code)
+	}
+	if w := send("POST", "/memories/operations/op-missing/undo", nil); w.Code != http.StatusNotFound {
+		t.Fatalf("unknown operation undo status = %d, want 404", w.Code)
+	}
+
+	if w := send("POST", "/memories/review/resolve", map[string]any{
+		"resolution": "merge_existing",
+		"targetId":   target.ID,
+		"id":         first.ID,
+	}); w.Code != http.StatusOK {
+		t.Fatalf("merge status = %d: %s", w.Code, w.Body.String())
+	}
+	w = send("POST", "/memories/"+first.ID+"/unmerge", nil)
+	if w.Code != http.StatusOK {
+		t.Fatalf("unmerge status = %d: %s", w.Code, w.Body.String())
+	}
+	unmerged, err := store.Memory.Get(first.ID)
+	if err != nil {
+		t.Fatalf("get unmerged: %v", err)
+	}
+	if unmerged.Status != models.MemoryStatusActive || unmerged.MergedInto != "" {
+		t.Fatalf("unmerged = %+v, want the pre-merge state", unmerged)
+	}
+	if w := send("POST", "/memories/"+first.ID+"/unmerge", nil); w.Code != http.StatusBadRequest {
+		t.Fatalf("unmerge of an unmerged memory status = %d, want 400", w.Code)
+	}
+}
+
+func TestMemoryRoutesMergeClusterIsUndoable(t *testing.T) {
+	store := setupMemoryRouteStore(t)
+	router := chi.NewRouter()
+	(&MemoryRoutes{store: store, sse: &fakeBroadcaster{}}).Register(router)
+
+	survivor := createMemoryRouteMemory(t, store, &models.MemoryEntry{ID: "keep2", Title: "Keep", Content: "Use Qdrant.", Status: models.MemoryStatusActive})
+	dupe := createMemoryRouteMemory(t, store, &models.MemoryEntry{ID: "dupe3", Title: "Dupe", Content: "Qdrant holds vectors.", Status: models.MemoryStatusActive})
+
+	data, _ := json.Marshal(map[string]any{"survivorId": survivor.ID, "memberIds": []string{survivor.ID, dupe.ID}, "content": "Use Qdrant for vectors."})
+	w := httptest.NewRecorder()
+	router.ServeHTTP(w, httptest.NewRequest("POST", "/memories/clusters/merge", bytes.NewReader(data)))
+	if w.Code != http.StatusOK {
+		t.Fatalf("merge status = %d: %s", w.Code, w.Body.String())
+	}
+	var result struct {
+		Operation models.MemoryOperation `json:"operation"`
+	}
+	if err := json.Unmarshal(w.Body.Bytes(), &result); err != nil {
+		t.Fatalf("decode merge: %v", err)
+	}
+	if merged, _ := store.Memory.Get(dupe.ID); merged.Status != models.MemoryStatusMerged || merged.MergedInto != survivor.ID {
+		t.Fatalf("dupe = %+v, want merged into survivor", merged)
+	}
+
+	w = httptest.NewRecorder()
+	router.ServeHTTP(w, httptest.NewRequest("POST", "/memories/operations/"+result.Operation.ID+"/undo", nil))
+	if w.Code != http.StatusOK {
+		t.Fatalf("undo status = %d: %s", w.Code, w.Body.String())
+	}
+	kept, _ := store.Memory.Get(survivor.ID)
+	restored, _ := store.Memory.Get(dupe.ID)
+	if kept.Content != "Use Qdrant." || restored.Status != models.MemoryStatusActive {
+		t.Fatalf("after undo survivor = %+v, dupe = %+v", kept, restored)
+	}
+}
+
+func TestMemoryRoutesExportAndImportBundle(t *testing.T) {
+	store := setupMemoryRouteStore(t)
+	router := chi.NewRouter()
+	(&MemoryRoutes{store: store, sse: &fakeBroadcaster{}}).Register(router)
+
+	createMemoryRouteMemory(t, store, &models.MemoryEntry{ID: "keep3", Title: "Kept", Content: "Stays in the store.", Status: models.MemoryStatusActive, Tags: []string{"ship"}})
+	createMemoryRouteMemory(t, store, &models.MemoryEntry{ID: "gone3", Title: "Removed", Content: "Deleted before the import.", Status: models.MemoryStatusActive, Tags: []string{"ship"}})
+	createMemoryRouteMemory(t, store, &models.MemoryEntry{ID: "skip3", Title: "Untagged", Content: "Not in the bundle.", Status: models.MemoryStatusActive})
+
+	w := httptest.NewRecorder()
+	router.ServeHTTP(w, httptest.NewRequest("GET", "/memories/export?format=markdown&kind=memory&tag=ship", nil))
+	if w.Code != http.StatusOK {
+		t.Fatalf("export status = %d: %s", w.Code, w.Body.String())
+	}
+	if got := w.Header().Get("X-Bundle-Count"); got != "2" {
+		t.Fatalf("exported count = %s, want 2", got)
+	}
+	bundle := w.Body.String()
+	if err := store.Memory.Delete("gone3"); err != nil {
+		t.Fatalf("delete: %v", err)
+	}
+
+	data, _ := json.Marshal(map[string]any{"format": "markdown", "content": bundle})
+	w = httptest.NewRecorder()
+	router.ServeHTTP(w, httptest.NewRequest("POST", "/memories/import", bytes.NewReader(data)))
+	if w.Code != http.StatusOK {
+		t.Fatalf("import status = %d: %s", w.Code, w.Body.String())
+	}
+	var report struct {
+		Created int `json:"created"`
+		Skipped int `json:"skipped"`
+	}
+	if err := json.Unmarshal(w.Body.Bytes(), &report); err != nil {
+		t.Fatalf("decode report: %v", err)
+	}
+	if report.Created != 1 || report.Skipped != 1 {
+		t.Fatalf("report = %+v, want gone3 recreated and keep3 skipped", report)
+	}
+	if restored, err := store.Memory.Get("gone3"); err != nil || restored.Content != "Deleted before the import." {
+		t.Fatalf("restored = %+v, %v", restored, err)
+	}
+
+	w = httptest.NewRecorder()
+	router.ServeHTTP(w, httptest.NewRequest("GET", "/memories/export?format=csv", nil))
+	if w.Code != http.StatusBadRequest {
+		t.Fatalf("csv export status = %d, want 400", w.Code)
+	}
+}
+
 func setupMemoryRouteStore(t *testing.T) *storage.Store {
 	t.Helper()
 	t.Setenv("HOME", t.TempDir())
@@ -294,3 +553,30 @@ func setupMemoryRouteStore(t *testing.T) *storage.Store {
 	}
 	return store
 }
+
+func TestMemoryRoutesResolveWarnsWhenTheOperationLogFails(t *testing.T) {
+	store := setupMemoryRouteStore(t)
+	router := chi.NewRouter()
+	(&MemoryRoutes{store: store}).Register(router)
+	target := createMemoryRouteMemory(t, store, &models.MemoryEntry{ID: "target2", Title: "Release cadence", Status: models.MemoryStatusActive, Content: "Ship every two weeks."})
+	if err := os.WriteFile(filepath.Join(store.Root, "memory-operations.json"), []byte("not json"), 0644); err != nil {
+		t.Fatal(err)
+	}
+
+	body, _ := json.Marshal(map[string]any{"resolution": "update_existing", "targetId": target.ID, "content": "Ship every week."})
+	w := httptest.NewRecorder()
+	router.ServeHTTP(w, httptest.NewRequest("POST", "/memories/review/resolve", bytes.NewReader(body)))
+	if w.Code != http.StatusOK {
+		t.Fatalf("resolve status = %d: %s", w.Code, w.Body.String())
+	}
+	var result memoryreview.Result
+	if err := json.Unmarshal(w.Body.Bytes(), &result); err != nil {
+		t.Fatalf("decode result: %v", err)
+	}
+	if result.Warning == "" || result.Operation != nil {
+		t.Fatalf("result = %+v, want a warning and no undoable operation", result)
+	}
+	if updated, _ := store.Memory.Get(target.ID); updated.Content != "Ship every week." {
+		t.Fatalf("content = %q, want the resolution written", updated.Content)
+	}
+}
@@ -0,0 +1,85 @@
+package routes
+
+import (
+	"context"
+	"errors"
+	"io/fs"
+	"time"
+
+	"github.com/howznguyen/knowns/internal/memoryreview"
+	"github.com/howznguyen/knowns/internal/models"
+	"github.com/howznguyen/knowns/internal/storage"
+)
+
+const DefaultMemoryExpiryInterval = time.Hour
+
+// StartMemoryExpirySweeper runs one sweep at startup and then repeats at
+// interval until ctx is cancelled. Each sweep follows the project's
+// memoryLifecycle settings; it only changes memory status and never deletes.
+// An archiveAfter that does not parse skips the sweep and is reported in the
+// expiry-sweep event.
+func StartMemoryExpirySweeper(ctx context.Context, getStore func() *storage.Store, sse Broadcaster, interval time.Duration) {
+	if interval <= 0 {
+		interval = DefaultMemoryExpiryInterval
+	}
+	run := func() {
+		store := getStore()
+		if store == nil {
+			return
+		}
+		settings, archiveAfter, err := memoryLifecycleSettings(store)
+		if err != nil {
+			if sse != nil {
+				sse.Broadcast(SSEEvent{Type: "memories:expiry-sweep", Data: map[string]any{"error": err.Error()}})
+			}
+			return
+		}
+		if !settings.AutoExpire {
+			return
+		}
+		result, err := memoryreview.New(store).SweepExpired(archiveAfter)
+		if result == nil {
+			return
+		}
+		changed := result.ChangedIDs()
+		indexMemoryChanges(store, changed)
+		if sse == nil {
+			return
+		}
+		if len(changed) > 0 {
+			memories := loadChangedMemories(store, changed)
+			sse.Broadcast(SSEEvent{Type: "memories:updated", Data: map[string]any{"bulk": true, "count": len(memories), "memories": memories}})
+		}
+		sse.Broadcast(SSEEvent{Type: "memories:expiry-sweep", Data: map[string]any{"result": result, "error": errorString(err)}})
+	}
+	go func() {
+		run()
+		ticker := time.NewTicker(interval)
+		defer ticker.Stop()
+		for {
+			select {
+			case <-ctx.Done():
+				return
+			case <-ticker.C:
+				run()
+			}
+		}
+	}()
+}
+
+// memoryLifecycleSettings loads the project's memory expiry settings along
+// with the parsed grace period before stale memories are archived. Projects
+// without a config file get the defaults; a config that does not load is an
+// error, so a typo never falls back to the default sweep.
+func memoryLifecycleSettings(store *storage.Store) (models.MemoryLifecycleSettings, time.Duration, error) {
+	settings := models.DefaultMemoryLifecycleSettings()
+	project, err := store.Config.Load()
+	switch {
+	case err == nil:
+		settings = project.Settings.EffectiveMemoryLifecycle()
+	case !errors.Is(err, fs.ErrNotExist):
+		return settings, 0, err
+	}
+	archiveAfter, err := models.ParseTaskLifecycleDuration(settings.ArchiveAfter)
+	return settings, archiveAfter, err
+}
@@ -0,0 +1,99 @@
+package routes
+
+import (
+	"context"
+	"encoding/json"
+	"net/http"
+	"net/http/httptest"
+	"os"
+	"path/filepath"
+	"testing"
+	"time"
+
+	"github.com/go-chi/chi/v5"
+	"github.com/howznguyen/knowns/internal/memoryreview"
+	"github.com/howznguyen/knowns/internal/models"
+	"github.com/howznguyen/knowns/internal/storage"
+)
+
+func TestMemoryExpirySweeperStalesExpiredMemories(t *testing.T) {
+	store := setupMemoryRouteStore(t)
+	now := time.Now().UTC()
+	createMemoryRouteMemory(t, store, &models.MemoryEntry{ID: "expired2", Title: "Expired", Status: models.MemoryStatusActive, TTLDays: 7, LastVerified: now.AddDate(0, 0, -8)})
+	createMemoryRouteMemory(t, store, &models.MemoryEntry{ID: "fresh2", Title: "Fresh", Status: models.MemoryStatusActive, TTLDays: 7, LastVerified: now})
+
+	broadcaster := &lifecycleSweepBroadcaster{events: make(chan SSEEvent, 32)}
+	ctx, cancel := context.WithCancel(context.Background())
+	defer cancel()
+	StartMemoryExpirySweeper(ctx, func() *storage.Store { return store }, broadcaster, time.Hour)
+
+	deadline := time.After(3 * time.Second)
+	var sweep SSEEvent
+	updated := false
+	for sweep.Type == "" {
+		select {
+		case event := <-broadcaster.events:
+			switch event.Type {
+			case "memories:updated":
+				updated = true
+			case "memories:expiry-sweep":
+				sweep = event
+			}
+		case <-deadline:
+			t.Fatal("memory expiry sweep did not broadcast a result")
+		}
+	}
+	data, ok := sweep.Data.(map[string]any)
+	if !ok || data["error"] != "" {
+		t.Fatalf("sweep data = %#v", sweep.Data)
+	}
+	result, ok := data["result"].(*memoryreview.ExpiryResult)
+	if !ok || len(result.Staled) != 1 || result.Staled[0] != "expired2" || !updated {
+		t.Fatalf("sweep result = %#v, updated broadcast = %v", data["result"], updated)
+	}
+	if entry, _ := store.Memory.Get("fresh2"); entry.Status != models.MemoryStatusActive {
+		t.Fatalf("fresh memory status = %q, want active", entry.Status)
+	}
+
+	router := chi.NewRouter()
+	(&MemoryRoutes{store: store}).Register(router)
+	w := httptest.NewRecorder()
+	router.ServeHTTP(w, httptest.NewRequest("GET", "/memories/ttl", nil))
+	if w.Code != http.StatusOK {
+		t.Fatalf("ttl status = %d: %s", w.Code, w.Body.String())
+	}
+	var forecast struct {
+		AutoExpire   bool                      `json:"autoExpire"`
+		ArchiveAfter string                    `json:"archiveAfter"`
+		Items        []memoryreview.ExpiryItem `json:"items"`
+	}
+	if err := json.Unmarshal(w.Body.Bytes(), &forecast); err != nil {
+		t.Fatalf("decode ttl: %v", err)
+	}
+	if !forecast.AutoExpire || forecast.ArchiveAfter != "14d" || len(forecast.Items) != 2 || forecast.Items[0].ID != "expired2" {
+		t.Fatalf("forecast = %+v", forecast)
+	}
+}
+
+func TestMemoryExpirySweeperReportsAnInvalidGracePeriod(t *testing.T) {
+	store := setupMemoryRouteStore(t)
+	// Config.Save rejects the value, so write it the way a hand edit would.
+	if err := os.WriteFile(filepath.Join(store.Root, "config.json"), []byte(`{"name":"sweep","settings":{"memoryLifecycle":{"archiveAfter":"soon"}}}`), 0644); err != nil {
+		t.Fatalf("write config: %v", err)
+	}
+
+	broadcaster := &lifecycleSweepBroadcaster{events: make(chan SSEEvent, 32)}
+	ctx, cancel := context.WithCancel(context.Background())
+	defer cancel()
+	StartMemoryExpirySweeper(ctx, func() *storage.Store { return store }, broadcaster, time.Hour)
+
+	select {
+	case event := <-broadcaster.events:
+		data, ok := event.Data.(map[string]any)
+		if event.Type != "memories:expiry-sweep" || !ok || data["error"] == "" || data["error"] == nil {
+			t.Fatalf("event = %+v, want an expiry-sweep error", event)
+		}
+	case <-time.After(3 * time.Second):
+		t.Fatal("memory expiry sweep did not report the invalid archiveAfter")
+	}
+}
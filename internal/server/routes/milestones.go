@@ -0,0 +1,156 @@
+package routes
+
+import (
+	"net/http"
+
+	"github.com/go-chi/chi/v5"
+	"github.com/howznguyen/knowns/internal/models"
+	"github.com/howznguyen/knowns/internal/search"
+	"github.com/howznguyen/knowns/internal/storage"
+	"github.com/howznguyen/knowns/internal/tasklifecycle"
+)
+
+// MilestoneRoutes handles milestone (sprint) endpoints.
+type MilestoneRoutes struct {
+	store *storage.Store
+	mgr   *storage.Manager
+	sse   Broadcaster
+}
+
+func (mr *MilestoneRoutes) getStore() *storage.Store {
+	if mr.mgr != nil {
+		return mr.mgr.GetStore()
+	}
+	return mr.store
+}
+
+// Register wires the milestone routes onto r.
+func (mr *MilestoneRoutes) Register(r chi.Router) {
+	r.Get("/milestones", mr.list)
+	r.Post("/milestones", mr.create)
+	r.Get("/milestones/{id}", mr.get)
+	r.Put("/milestones/{id}", mr.update)
+	r.Delete("/milestones/{id}", mr.delete)
+}
+
+func (mr *MilestoneRoutes) list(w http.ResponseWriter, r *http.Request) {
+	milestones, err := mr.getStore().Milestones.List()
+	if err != nil {
+		respondError(w, http.StatusInternalServerError, err.Error())
+		return
+	}
+	if milestones == nil {
+		milestones = []*models.Milestone{}
+	}
+	respondJSON(w, http.StatusOK, milestones)
+}
+
+func (mr *MilestoneRoutes) get(w http.ResponseWriter, r *http.Request) {
+	milestone, err := mr.getStore().Milestones.Get(chi.URLParam(r, "id"))
+	if err != nil {
+		respondError(w, http.StatusNotFound, "milestone not found")
+		return
+	}
+	respondJSON(w, http.StatusOK, milestone)
+}
+
+type milestoneRequest struct {
+	Name      string `json:"name"`
+	StartDate string `json:"startDate"`
+	EndDate   string `json:"endDate"`
+	Goal      string `json:"goal"`
+}
+
+func (req milestoneRequest) toMilestone(id string) *models.Milestone {
+	return &models.Milestone{ID: id, Name: req.Name, StartDate: req.StartDate, EndDate: req.EndDate, Goal: req.Goal}
+}
+
+func (mr *MilestoneRoutes) create(w http.ResponseWriter, r *http.Request) {
+	var req milestoneRequest
+	if err := decodeJSON(r, &req); err != nil {
+		respondError(w, http.StatusBadRequest, "invalid request body: "+err.Error())
+		return
+	}
+	milestone := req.toMilestone("")
+	if err := milestone.Validate(); err != nil {
+		respondError(w, http.StatusBadRequest, err.Error())
+		return
+	}
+	if err := mr.getStore().Milestones.Create(milestone); err != nil {
+		respondError(w, http.StatusInternalServerError, err.Error())
+		return
+	}
+	mr.broadcast("milestones:updated", map[string]any{"milestone": milestone})
+	respondJSON(w, http.StatusCreated, milestone)
+}
+
+func (mr *MilestoneRoutes) update(w http.ResponseWriter, r *http.Request) {
+	id := chi.URLParam(r, "id")
+	if !mr.getStore().Milestones.Exists(id) {
+		respondError(w, http.StatusNotFound, "milestone not found")
+		return
+	}
+	var req milestoneRequest
+	if err := decodeJSON(r, &req); err != nil {
+		respondError(w, http.StatusBadRequest, "invalid request body: "+err.Error())
+		return
+	}
+	milestone := req.toMilestone(id)
+	if err := milestone.Validate(); err != nil {
+		respondError(w, http.StatusBadRequest, err.Error())
+		return
+	}
+	if err := mr.getStore().Milestones.Update(milestone); err != nil {
+		respondError(w, http.StatusInternalServerError, err.Error())
+		return
+	}
+	mr.broadcast("milestones:updated", map[string]any{"milestone": milestone})
+	respondJSON(w, http.StatusOK, milestone)
+}
+
+// delete removes a milestone after unassigning its Tasks, so no Task is left
+// pointing at a missing milestone.
+//
+// DELETE /api/milestones/{id}
+func (mr *MilestoneRoutes) delete(w http.ResponseWriter, r *http.Request) {
+	id := chi.URLParam(r, "id")
+	store := mr.getStore()
+	if !store.Milestones.Exists(id) {
+		respondError(w, http.StatusNotFound, "milestone not found")
+		return
+	}
+	tasks, err := store.Tasks.List()
+	if err != nil {
+		respondError(w, http.StatusInternalServerError, err.Error())
+		return
+	}
+	service := tasklifecycle.New(store, tasklifecycle.WithHooks(tasklifecycle.Hooks{
+		IndexTask: func(taskID string) error { return search.ReconcileTaskIndex(store, taskID) },
+	}))
+	for _, task := range tasks {
+		if task.Milestone != id {
+			continue
+		}
+		updated, err := service.UpdateTask(r.Context(), task.ID, tasklifecycle.TaskUpdateOptions{Actor: "api", Mutate: func(t *models.Task) error {
+			t.Milestone = ""
+			return nil
+		}})
+		if err != nil {
+			respondError(w, http.StatusInternalServerError, err.Error())
+			return
+		}
+		mr.broadcast("tasks:updated", map[string]any{"task": newTaskResponse(updated)})
+	}
+	if err := store.Milestones.Delete(id); err != nil {
+		respondError(w, http.StatusInternalServerError, err.Error())
+		return
+	}
+	mr.broadcast("milestones:deleted", map[string]any{"id": id})
+	respondJSON(w, http.StatusOK, map[string]any{"success": true})
+}
+
+func (mr *MilestoneRoutes) broadcast(eventType string, data map[string]any) {
+	if mr.sse != nil {
+		mr.sse.Broadcast(SSEEvent{Type: eventType, Data: data})
+	}
+}
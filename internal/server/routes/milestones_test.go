@@ -0,0 +1,70 @@
+package routes
+
+import (
+	"bytes"
+	"encoding/json"
+	"net/http"
+	"net/http/httptest"
+	"testing"
+	"time"
+
+	"github.com/go-chi/chi/v5"
+	"github.com/howznguyen/knowns/internal/models"
+)
+
+func TestMilestoneRoutesCreateValidateAndDeleteUnassignsTasks(t *testing.T) {
+	store := setupDecisionRouteStore(t)
+	sse := &fakeBroadcaster{}
+	r := chi.NewRouter()
+	(&MilestoneRoutes{store: store, sse: sse}).Register(r)
+
+	post := func(body map[string]any) *httptest.ResponseRecorder {
+		data, _ := json.Marshal(body)
+		w := httptest.NewRecorder()
+		r.ServeHTTP(w, httptest.NewRequest("POST", "/milestones", bytes.NewReader(data)))
+		return w
+	}
+
+	if w := post(map[string]any{"name": "Sprint 1", "startDate": "2026-10-30", "endDate": "2026-10-19"}); w.Code != http.StatusBadRequest {
+		t.Fatalf("POST with end before start status = %d, want 400: %s", w.Code, w.Body.String())
+	}
+	w := post(map[string]any{"name": "Sprint 1", "startDate": "2026-10-19", "endDate": "2026-10-30", "goal": "Ship timeline"})
+	if w.Code != http.StatusCreated {
+		t.Fatalf("POST /milestones status = %d, want 201: %s", w.Code, w.Body.String())
+	}
+	var created models.Milestone
+	if err := json.Unmarshal(w.Body.Bytes(), &created); err != nil {
+		t.Fatalf("decode create: %v", err)
+	}
+	if created.ID != "sprint-1" || created.Goal != "Ship timeline" {
+		t.Fatalf("created = %+v", created)
+	}
+
+	now := time.Now().UTC()
+	task := &models.Task{ID: "ms0001", Title: "Planned", Status: "todo", Priority: "medium", Milestone: "sprint-1", CreatedAt: now, UpdatedAt: now}
+	if err := store.Tasks.Create(task); err != nil {
+		t.Fatalf("create task: %v", err)
+	}
+
+	w = httptest.NewRecorder()
+	r.ServeHTTP(w, httptest.NewRequest("DELETE", "/milestones/sprint-1", nil))
+	if w.Code != http.StatusOK {
+		t.Fatalf("DELETE /milestones/sprint-1 status = %d: %s", w.Code, w.Body.String())
+	}
+	if store.Milestones.Exists("sprint-1") {
+		t.Fatalf("milestone still exists after DELETE")
+	}
+	reloaded, err := store.Tasks.Get("ms0001")
+	if err != nil {
+		t.Fatalf("get task: %v", err)
+	}
+	if reloaded.Milestone != "" {
+		t.Fatalf("task milestone = %q after delete, want unassigned", reloaded.Milestone)
+	}
+
+	w = httptest.NewRecorder()
+	r.ServeHTTP(w, httptest.NewRequest("GET", "/milestones/sprint-1", nil))
+	if w.Code != http.StatusNotFound {
+		t.Fatalf("GET deleted milestone status = %d, want 404", w.Code)
+	}
+}
@@ -5,15 +5,18 @@ import (
 	"strings"
 
 	"github.com/go-chi/chi/v5"
+	"github.com/howznguyen/knowns/internal/collab"
+	"github.com/howznguyen/knowns/internal/models"
 	"github.com/howznguyen/knowns/internal/storage"
 )
 
 // NotifyRoutes handles /api/notify endpoints that receive push notifications
 // from MCP tools and relay them as SSE events to connected UI clients.
 type NotifyRoutes struct {
-	store *storage.Store
-	mgr   *storage.Manager
-	sse   Broadcaster
+	store  *storage.Store
+	mgr    *storage.Manager
+	sse    Broadcaster
+	collab *collab.Hub
 }
 
 func (nr *NotifyRoutes) getStore() *storage.Store {
@@ -27,6 +30,10 @@ func (nr *NotifyRoutes) getStore() *storage.Store {
 func (nr *NotifyRoutes) Register(r chi.Router) {
 	r.Post("/notify/task/{id}", nr.notifyTask)
 	r.Post("/notify/doc/*", nr.notifyDoc)
+	r.Post("/notify/memory/{id}", nr.notifyMemory)
+	r.Post("/notify/decision/{id}", nr.notifyDecision)
+	r.Post("/notify/annotation/{id}", nr.notifyAnnotation)
+	r.Post("/notify/audit", nr.notifyAudit)
 	r.Post("/notify/time", nr.notifyTime)
 	r.Post("/notify/refresh", nr.notifyRefresh)
 }
@@ -48,13 +55,84 @@ func (nr *NotifyRoutes) notifyTask(w http.ResponseWriter, r *http.Request) {
 	respondJSON(w, http.StatusOK, map[string]string{"status": "broadcast"})
 }
 
-// notifyDoc broadcasts a docs:updated event for the given doc path.
+// notifyDoc broadcasts a docs:updated event for the given doc path and
+// merges the write into the doc's live editing session, if any.
 //
 // POST /api/notify/doc/*
 func (nr *NotifyRoutes) notifyDoc(w http.ResponseWriter, r *http.Request) {
 	path := chi.URLParam(r, "*")
 	path = strings.TrimPrefix(path, "/")
-	nr.sse.Broadcast(SSEEvent{Type: "docs:updated", Data: map[string]string{"path": path}})
+	mergeExternalDocWrite(nr.collab, nr.getStore(), cleanDocPath(path))
+	nr.sse.Broadcast(docUpdatedEvent(nr.getStore(), path, ""))
+	respondJSON(w, http.StatusOK, map[string]string{"status": "broadcast"})
+}
+
+// notifyMemory broadcasts a memories:* event for the given memory ID. A
+// memory that no longer exists is reported as memories:deleted; pass
+// ?event=created for newly added memories.
+//
+// POST /api/notify/memory/{id}
+func (nr *NotifyRoutes) notifyMemory(w http.ResponseWriter, r *http.Request) {
+	id := chi.URLParam(r, "id")
+	entry, err := nr.getStore().Memory.Get(id)
+	switch {
+	case err != nil:
+		nr.sse.Broadcast(SSEEvent{Type: "memories:deleted", Data: map[string]any{"id": id}})
+	case r.URL.Query().Get("event") == "created":
+		nr.sse.Broadcast(SSEEvent{Type: "memories:created", Data: map[string]any{"memory": entry}})
+	default:
+		nr.sse.Broadcast(SSEEvent{Type: "memories:updated", Data: map[string]any{"memory": entry}})
+	}
+	respondJSON(w, http.StatusOK, map[string]string{"status": "broadcast"})
+}
+
+// notifyDecision broadcasts a decisions:* event for the given decision ID;
+// pass ?event=created for newly added decisions.
+//
+// POST /api/notify/decision/{id}
+func (nr *NotifyRoutes) notifyDecision(w http.ResponseWriter, r *http.Request) {
+	id := chi.URLParam(r, "id")
+	decision, err := nr.getStore().Decisions.Get(id)
+	if err != nil {
+		respondError(w, http.StatusNotFound, "decision not found")
+		return
+	}
+	if r.URL.Query().Get("event") == "created" {
+		nr.sse.Broadcast(SSEEvent{Type: "decisions:created", Data: map[string]any{"decision": decision}})
+	} else {
+		nr.sse.Broadcast(SSEEvent{Type: "decisions:updated", Data: map[string]any{
+			"decision":  decision,
+			"decisions": []*models.DecisionEntry{decision},
+		}})
+	}
+	respondJSON(w, http.StatusOK, map[string]string{"status": "broadcast"})
+}
+
+// notifyAnnotation broadcasts an annotations:updated event for the given
+// annotation ID.
+//
+// POST /api/notify/annotation/{id}
+func (nr *NotifyRoutes) notifyAnnotation(w http.ResponseWriter, r *http.Request) {
+	annotation, err := nr.getStore().Annotations.Get(chi.URLParam(r, "id"))
+	if err != nil {
+		respondError(w, http.StatusNotFound, "annotation not found")
+		return
+	}
+	nr.sse.Broadcast(SSEEvent{Type: "annotations:updated", Data: map[string]any{"annotation": annotation}})
+	respondJSON(w, http.StatusOK, map[string]string{"status": "broadcast"})
+}
+
+// notifyAudit relays an audit event recorded by the MCP process as an
+// audit:event SSE event so the audit log can update live.
+//
+// POST /api/notify/audit
+func (nr *NotifyRoutes) notifyAudit(w http.ResponseWriter, r *http.Request) {
+	var event models.AuditEvent
+	if err := decodeJSON(r, &event); err != nil {
+		respondError(w, http.StatusBadRequest, "invalid request body: "+err.Error())
+		return
+	}
+	nr.sse.Broadcast(SSEEvent{Type: "audit:event", Data: map[string]any{"event": event}})
 	respondJSON(w, http.StatusOK, map[string]string{"status": "broadcast"})
 }
 
@@ -0,0 +1,64 @@
+package routes
+
+import (
+	"bytes"
+	"encoding/json"
+	"net/http"
+	"net/http/httptest"
+	"testing"
+
+	"github.com/go-chi/chi/v5"
+	"github.com/howznguyen/knowns/internal/models"
+)
+
+func TestNotifyRoutesRelayTypedMemoryAndAuditEvents(t *testing.T) {
+	store := setupMemoryRouteStore(t)
+	sse := &fakeBroadcaster{}
+	router := chi.NewRouter()
+	(&NotifyRoutes{store: store, sse: sse}).Register(router)
+
+	memory := createMemoryRouteMemory(t, store, &models.MemoryEntry{
+		ID:      "notify1",
+		Title:   "Notify memory",
+		Status:  models.MemoryStatusActive,
+		Content: "Relayed from MCP.",
+	})
+
+	post := func(path string, body []byte) {
+		t.Helper()
+		req := httptest.NewRequest(http.MethodPost, path, bytes.NewReader(body))
+		w := httptest.NewRecorder()
+		router.ServeHTTP(w, req)
+		if w.Code != http.StatusOK {
+			t.Fatalf("POST %s status = %d, want 200: %s", path, w.Code, w.Body.String())
+		}
+	}
+
+	post("/notify/memory/"+memory.ID+"?event=created", nil)
+	post("/notify/memory/"+memory.ID, nil)
+	if err := store.Memory.Delete(memory.ID); err != nil {
+		t.Fatalf("delete memory: %v", err)
+	}
+	post("/notify/memory/"+memory.ID, nil)
+
+	auditBody, _ := json.Marshal(models.AuditEvent{ToolName: "memory", Action: "delete", ActionClass: "delete", Result: "success"})
+	post("/notify/audit", auditBody)
+
+	want := []string{"memories:created", "memories:updated", "memories:deleted", "audit:event"}
+	if len(sse.events) != len(want) {
+		t.Fatalf("broadcasts = %#v, want %v", sse.events, want)
+	}
+	for i, eventType := range want {
+		if sse.events[i].Type != eventType {
+			t.Fatalf("broadcast[%d] = %q, want %q", i, sse.events[i].Type, eventType)
+		}
+	}
+	deleted, _ := sse.events[2].Data.(map[string]any)
+	if deleted["id"] != memory.ID {
+		t.Fatalf("memories:deleted payload = %#v, want id %s", sse.events[2].Data, memory.ID)
+	}
+	audit, _ := sse.events[3].Data.(map[string]any)
+	if event, ok := audit["event"].(models.AuditEvent); !ok || event.ToolName != "memory" || event.Action != "delete" {
+		t.Fatalf("audit:event payload = %#v", sse.events[3].Data)
+	}
+}
@@ -6,6 +6,7 @@ import (
 	"net/http"
 
 	"github.com/go-chi/chi/v5"
+	"github.com/howznguyen/knowns/internal/collab"
 	"github.com/howznguyen/knowns/internal/storage"
 )
 
@@ -32,8 +33,13 @@ func SetupRoutes(r chi.Router, store *storage.Store, sse Broadcaster, projectRoo
 
 // SetupRoutesWithCapabilities injects trusted server-side capabilities. The
 // default SetupRoutes entry point remains deny-by-default for destructive Task
-// lifecycle operations.
-func SetupRoutesWithCapabilities(r chi.Router, store *storage.Store, sse Broadcaster, projectRoot string, manager *storage.Manager, taskCapabilities TaskRouteCapabilities, onWorkspaceSwitch ...func(string)) {
+// lifecycle operations. It returns the live doc editing hub so the server can
+// sweep idle sessions with StartDocCollabSweeper.
+func SetupRoutesWithCapabilities(r chi.Router, store *storage.Store, sse Broadcaster, projectRoot string, manager *storage.Manager, taskCapabilities TaskRouteCapabilities, onWorkspaceSwitch ...func(string)) *collab.Hub {
+	// Docs (the collab hub is shared with notify so MCP writes merge into
+	// live editing sessions)
+	docCollab := newDocCollabHub(sse)
+
 	// Project-scoped routes: guarded by requireStore so they return 503 in picker mode.
 	r.Group(func(r chi.Router) {
 		r.Use(requireStore(manager))
@@ -43,7 +49,7 @@ func SetupRoutesWithCapabilities(r chi.Router, store *storage.Store, sse Broadca
 		tr.Register(r)
 
 		// Docs
-		dr := &DocRoutes{store: store, mgr: manager, sse: sse}
+		dr := &DocRoutes{store: store, mgr: manager, sse: sse, collab: docCollab}
 		dr.Register(r)
 
 		// Config
@@ -67,11 +73,11 @@ func SetupRoutesWithCapabilities(r chi.Router, store *storage.Store, sse Broadca
 		tmplr.Register(r)
 
 		// Validate
-		vr := &ValidateRoutes{store: store, mgr: manager}
+		vr := &ValidateRoutes{store: store, mgr: manager, sse: sse, collab: docCollab}
 		vr.Register(r)
 
 		// Notify (MCP → Server notifications)
-		nr := &NotifyRoutes{store: store, mgr: manager, sse: sse}
+		nr := &NotifyRoutes{store: store, mgr: manager, sse: sse, collab: docCollab}
 		nr.Register(r)
 
 		// Imports
@@ -106,6 +112,14 @@ func SetupRoutesWithCapabilities(r chi.Router, store *storage.Store, sse Broadca
 		// Decisions
 		der := &DecisionRoutes{store: store, mgr: manager, sse: sse}
 		der.Register(r)
+
+		// Milestones
+		msr := &MilestoneRoutes{store: store, mgr: manager, sse: sse}
+		msr.Register(r)
+
+		// Doc annotations
+		anr := &AnnotationRoutes{store: store, mgr: manager, sse: sse}
+		anr.Register(r)
 	})
 
 	// Skills (project-root based, not store-dependent)
@@ -129,4 +143,5 @@ func SetupRoutesWithCapabilities(r chi.Router, store *storage.Store, sse Broadca
 		wsr := &WorkspaceRoutes{manager: manager, sse: sse, onSwitch: switchCb}
 		wsr.Register(r)
 	}
+	return docCollab
 }
@@ -0,0 +1,149 @@
+package routes
+
+import (
+	"bytes"
+	"encoding/json"
+	"fmt"
+	"net/http"
+	"net/http/httptest"
+	"sync"
+	"testing"
+	"time"
+
+	"github.com/go-chi/chi/v5"
+	"github.com/howznguyen/knowns/internal/models"
+	"github.com/howznguyen/knowns/internal/storage"
+)
+
+type staleWriteResponse struct {
+	Error    string          `json:"error"`
+	Conflict string          `json:"conflict"`
+	Current  json.RawMessage `json:"current"`
+}
+
+func putJSON(t *testing.T, router http.Handler, path string, body map[string]any) *httptest.ResponseRecorder {
+	t.Helper()
+	data, _ := json.Marshal(body)
+	w := httptest.NewRecorder()
+	router.ServeHTTP(w, httptest.NewRequest(http.MethodPut, path, bytes.NewReader(data)))
+	return w
+}
+
+func TestDocUpdateRejectsStaleBaseHash(t *testing.T) {
+	store := setupDocRouteHistoryStore(t, "stale-doc")
+	router := chi.NewRouter()
+	(&DocRoutes{store: store, sse: &fakeBroadcaster{}}).Register(router)
+
+	w := putJSON(t, router, "/docs/stale-doc", map[string]any{"content": "mine"})
+	if w.Code != http.StatusOK {
+		t.Fatalf("first update status = %d: %s", w.Code, w.Body.String())
+	}
+	var saved docResponse
+	if err := json.Unmarshal(w.Body.Bytes(), &saved); err != nil || saved.Hash == "" {
+		t.Fatalf("update response = %s, want a hash", w.Body.String())
+	}
+
+	// A tab still holding the original copy.
+	w = putJSON(t, router, "/docs/stale-doc", map[string]any{"content": "theirs", "baseHash": "outdated"})
+	if w.Code != http.StatusConflict {
+		t.Fatalf("stale update status = %d, want 409", w.Code)
+	}
+	var stale staleWriteResponse
+	if err := json.Unmarshal(w.Body.Bytes(), &stale); err != nil {
+		t.Fatalf("decode conflict: %v", err)
+	}
+	var current docResponse
+	if err := json.Unmarshal(stale.Current, &current); err != nil {
+		t.Fatalf("decode current: %v", err)
+	}
+	if stale.Conflict != "stale" || current.Content != "mine" || current.Hash != saved.Hash {
+		t.Fatalf("conflict = %+v current = %+v", stale, current)
+	}
+
+	w = putJSON(t, router, "/docs/stale-doc", map[string]any{"content": "merged", "baseHash": saved.Hash})
+	if w.Code != http.StatusOK {
+		t.Fatalf("update with current hash status = %d: %s", w.Code, w.Body.String())
+	}
+}
+
+func TestDocUpdatesFromTheSameCopyCannotBothLand(t *testing.T) {
+	store := setupDocRouteHistoryStore(t, "race-doc")
+	router := chi.NewRouter()
+	(&DocRoutes{store: store, sse: &fakeBroadcaster{}}).Register(router)
+	existing, err := store.Docs.Get("race-doc")
+	if err != nil {
+		t.Fatal(err)
+	}
+	baseHash := storage.DocHash(existing)
+
+	const writers = 4
+	codes := make(chan int, writers)
+	var wg sync.WaitGroup
+	for i := 0; i < writers; i++ {
+		wg.Add(1)
+		go func(i int) {
+			defer wg.Done()
+			codes <- putJSON(t, router, "/docs/race-doc", map[string]any{"content": fmt.Sprintf("writer %d", i), "baseHash": baseHash}).Code
+		}(i)
+	}
+	wg.Wait()
+	close(codes)
+	saved, conflicts := 0, 0
+	for code := range codes {
+		switch code {
+		case http.StatusOK:
+			saved++
+		case http.StatusConflict:
+			conflicts++
+		}
+	}
+	if saved != 1 || conflicts != writers-1 {
+		t.Fatalf("saved = %d, conflicts = %d; want one save and the rest stale", saved, conflicts)
+	}
+}
+
+func TestTaskUpdateRejectsStaleBaseUpdatedAt(t *testing.T) {
+	store := newTaskLifecycleRouteStore(t)
+	loaded := time.Date(2026, 10, 1, 9, 0, 0, 0, time.UTC)
+	task := &models.Task{ID: "stale1", Title: "Stale", Status: "todo", Priority: "medium", CreatedAt: loaded, UpdatedAt: loaded}
+	if err := store.Tasks.Create(task); err != nil {
+		t.Fatal(err)
+	}
+	router := chi.NewRouter()
+	(&TaskRoutes{store: store, sse: &fakeBroadcaster{}}).Register(router)
+
+	w := putJSON(t, router, "/tasks/stale1", map[string]any{"title": "Newer", "baseUpdatedAt": loaded.Format(time.RFC3339Nano)})
+	if w.Code != http.StatusOK {
+		t.Fatalf("first update status = %d: %s", w.Code, w.Body.String())
+	}
+
+	w = putJSON(t, router, "/tasks/stale1", map[string]any{"title": "Older", "baseUpdatedAt": loaded.Format(time.RFC3339Nano)})
+	if w.Code != http.StatusConflict {
+		t.Fatalf("stale update status = %d, want 409: %s", w.Code, w.Body.String())
+	}
+	var stale staleWriteResponse
+	if err := json.Unmarshal(w.Body.Bytes(), &stale); err != nil {
+		t.Fatalf("decode conflict: %v", err)
+	}
+	var current models.Task
+	if err := json.Unmarshal(stale.Current, &current); err != nil {
+		t.Fatalf("decode current: %v", err)
+	}
+	if stale.Conflict != "stale" || current.Title != "Newer" {
+		t.Fatalf("conflict = %q current title = %q", stale.Conflict, current.Title)
+	}
+	got, err := store.Tasks.Get("stale1")
+	if err != nil || got.Title != "Newer" {
+		t.Fatalf("stored task = %+v, %v; stale write must not apply", got, err)
+	}
+
+	for _, base := range []any{"", nil, 12345, "yesterday"} {
+		w = putJSON(t, router, "/tasks/stale1", map[string]any{"title": "Malformed", "baseUpdatedAt": base})
+		if w.Code != http.StatusBadRequest {
+			t.Fatalf("baseUpdatedAt %#v status = %d, want 400: %s", base, w.Code, w.Body.String())
+		}
+	}
+	if got, _ := store.Tasks.Get("stale1"); got.Title != "Newer" {
+		t.Fatalf("stored title = %q; a malformed precondition must not write", got.Title)
+	}
+}
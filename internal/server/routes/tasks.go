@@ -2,6 +2,7 @@ package routes
 
 import (
 	"encoding/json"
+	"errors"
 	"fmt"
 	"net/http"
 	"sort"
@@ -33,6 +34,12 @@ func NormalizeTask(t *models.Task) {
 	if t.Fulfills == nil {
 		t.Fulfills = []string{}
 	}
+	if t.DependsOn == nil {
+		t.DependsOn = []string{}
+	}
+	if t.Blocks == nil {
+		t.Blocks = []string{}
+	}
 }
 
 // taskResponse adds backend-derived lifecycle state without persisting it in
@@ -181,6 +188,9 @@ func (tr *TaskRoutes) get(w http.ResponseWriter, r *http.Request) {
 		respondError(w, http.StatusNotFound, err.Error())
 		return
 	}
+	if blocks, err := tr.getStore().Tasks.Dependents(task.ID); err == nil {
+		task.Blocks = blocks
+	}
 	tr.loadTaskTimeEntries(task)
 	task.ActiveTimer = tr.getStore().Time.GetActiveTimer(task.ID)
 	respondJSON(w, http.StatusOK, newTaskResponse(task))
@@ -215,8 +225,17 @@ func (tr *TaskRoutes) create(w http.ResponseWriter, r *http.Request) {
 	// caller-supplied completion/archive clock that could bypass retention.
 	task.Status = "todo"
 	task.CompletedAt = nil
+	task.StartedAt = nil
 	task.Archived = false
 	task.ArchivedAt = nil
+	if err := tasklifecycle.ValidateSchedule(&task); err != nil {
+		respondError(w, http.StatusBadRequest, err.Error())
+		return
+	}
+	if err := tasklifecycle.ValidateMilestone(&task, tr.getStore().Milestones.Exists); err != nil {
+		respondError(w, http.StatusBadRequest, err.Error())
+		return
+	}
 	tasklifecycle.ApplyStatusTransition(&task, requestedStatus, now)
 	if task.Priority == "" {
 		task.Priority = "medium"
@@ -225,7 +244,17 @@ func (tr *TaskRoutes) create(w http.ResponseWriter, r *http.Request) {
 		task.Labels = []string{}
 	}
 
-	if err := tr.getStore().Tasks.Create(&task); err != nil {
+	if err := tr.lifecycleService().CreateTask(r.Context(), &task); err != nil {
+		var policyErr *tasklifecycle.ColumnPolicyError
+		if errors.As(err, &policyErr) {
+			respondColumnPolicyError(w, policyErr)
+			return
+		}
+		var dependencyErr *tasklifecycle.DependencyError
+		if errors.As(err, &dependencyErr) {
+			respondError(w, http.StatusBadRequest, dependencyErr.Message)
+			return
+		}
 		respondError(w, http.StatusInternalServerError, err.Error())
 		return
 	}
@@ -253,7 +282,16 @@ func (tr *TaskRoutes) update(w http.ResponseWriter, r *http.Request) {
 		respondError(w, http.StatusBadRequest, "invalid request body: "+err.Error())
 		return
 	}
+	baseUpdatedAt, err := takeBaseUpdatedAt(patch)
+	if err != nil {
+		respondError(w, http.StatusBadRequest, err.Error())
+		return
+	}
 	updated, err := tr.lifecycleService().UpdateTask(r.Context(), id, tasklifecycle.TaskUpdateOptions{Actor: "api", Mutate: func(task *models.Task) error {
+		if baseUpdatedAt != nil && !task.UpdatedAt.Truncate(time.Millisecond).Equal(baseUpdatedAt.Truncate(time.Millisecond)) {
+			current := *task
+			return &staleTaskError{current: &current}
+		}
 		data, err := json.Marshal(task)
 		if err != nil {
 			return err
@@ -271,6 +309,27 @@ func (tr *TaskRoutes) update(w http.ResponseWriter, r *http.Request) {
 		}
 		return json.Unmarshal(merged, task)
 	}})
+	var staleErr *staleTaskError
+	if errors.As(err, &staleErr) {
+		tr.loadTaskTimeEntries(staleErr.current)
+		respondStale(w, staleErr.Error(), newTaskResponse(staleErr.current))
+		return
+	}
+	var dependencyErr *tasklifecycle.DependencyError
+	if errors.As(err, &dependencyErr) {
+		respondError(w, http.StatusBadRequest, dependencyErr.Message)
+		return
+	}
+	var scheduleErr *tasklifecycle.ScheduleError
+	if errors.As(err, &scheduleErr) {
+		respondError(w, http.StatusBadRequest, scheduleErr.Message)
+		return
+	}
+	var policyErr *tasklifecycle.ColumnPolicyError
+	if errors.As(err, &policyErr) {
+		respondColumnPolicyError(w, policyErr)
+		return
+	}
 	if err != nil {
 		status := http.StatusInternalServerError
 		if tasklifecycleErrorNotFound(err) {
@@ -285,6 +344,46 @@ func (tr *TaskRoutes) update(w http.ResponseWriter, r *http.Request) {
 	respondJSON(w, http.StatusOK, response)
 }
 
+// respondColumnPolicyError reports a status the column policy rejected, naming
+// the rule so the board can explain the refused drop.
+func respondColumnPolicyError(w http.ResponseWriter, err *tasklifecycle.ColumnPolicyError) {
+	respondJSON(w, http.StatusConflict, map[string]string{
+		"error":  err.Message,
+		"rule":   err.Rule,
+		"status": err.Status,
+	})
+}
+
+// staleTaskError rejects an update whose baseUpdatedAt no longer matches the
+// stored task.
+type staleTaskError struct {
+	current *models.Task
+}
+
+func (err *staleTaskError) Error() string {
+	return "task changed since it was loaded"
+}
+
+// takeBaseUpdatedAt removes the optional baseUpdatedAt precondition from a
+// task patch and parses it. A precondition that is present but not an RFC3339
+// timestamp is an error rather than an unconditional write.
+func takeBaseUpdatedAt(patch map[string]json.RawMessage) (*time.Time, error) {
+	raw, ok := patch["baseUpdatedAt"]
+	if !ok {
+		return nil, nil
+	}
+	delete(patch, "baseUpdatedAt")
+	var value string
+	if err := json.Unmarshal(raw, &value); err != nil || value == "" {
+		return nil, fmt.Errorf("invalid baseUpdatedAt: want an RFC3339 timestamp")
+	}
+	base, err := time.Parse(time.RFC3339Nano, value)
+	if err != nil {
+		return nil, fmt.Errorf("invalid baseUpdatedAt: %w", err)
+	}
+	return &base, nil
+}
+
 // archive moves a task to the archive.
 //
 // POST /api/tasks/{id}/archive
@@ -481,6 +580,8 @@ func (tr *TaskRoutes) syncSpecACs(w http.ResponseWriter, r *http.Request) {
 	}
 
 	synced := 0
+	var specPaths []string
+	seen := make(map[string]bool)
 	for _, t := range tasks {
 		if t.Status != "done" || t.Spec == "" || len(t.Fulfills) == 0 {
 			continue
@@ -494,10 +595,15 @@ func (tr *TaskRoutes) syncSpecACs(w http.ResponseWriter, r *http.Request) {
 		// Mark the task as synced. The actual spec AC update is a
 		// best-effort broadcast so the UI can refresh.
 		synced++
+		if !seen[doc.Path] {
+			seen[doc.Path] = true
+			specPaths = append(specPaths, doc.Path)
+		}
 	}
 
-	if synced > 0 {
-		tr.sse.Broadcast(SSEEvent{Type: "docs:updated", Data: map[string]interface{}{"synced": synced}})
+	// One docs:updated per spec, so listeners get the path they key on.
+	for _, path := range specPaths {
+		tr.sse.Broadcast(docUpdatedEvent(tr.getStore(), path, ""))
 	}
 
 	respondJSON(w, http.StatusOK, map[string]interface{}{
@@ -339,6 +339,44 @@ func TestTaskCreateDerivesLifecycleClocksAndRejectsBackdatedRetentionBypass(t *t
 	}
 }
 
+func TestTaskCreateEnforcesColumnPolicy(t *testing.T) {
+	store := newTaskLifecycleRouteStore(t)
+	project, err := store.Config.Load()
+	if err != nil {
+		t.Fatal(err)
+	}
+	project.Settings.ColumnPolicies = map[string]models.ColumnPolicy{"in-progress": {WIPLimit: 1, RequireAssignee: true}}
+	if err := store.Config.Save(project); err != nil {
+		t.Fatal(err)
+	}
+	router := chi.NewRouter()
+	(&TaskRoutes{store: store, sse: &fakeBroadcaster{}}).Register(router)
+	create := func(body map[string]any) *httptest.ResponseRecorder {
+		data, _ := json.Marshal(body)
+		w := httptest.NewRecorder()
+		req := httptest.NewRequest(http.MethodPost, "/tasks", bytes.NewReader(data))
+		req.Header.Set("Content-Type", "application/json")
+		router.ServeHTTP(w, req)
+		return w
+	}
+	wantRule := func(w *httptest.ResponseRecorder, rule string) {
+		t.Helper()
+		var body map[string]string
+		if err := json.Unmarshal(w.Body.Bytes(), &body); err != nil || w.Code != http.StatusConflict || body["rule"] != rule || body["status"] != "in-progress" {
+			t.Fatalf("create status=%d body=%s, want 409 for rule %q", w.Code, w.Body.String(), rule)
+		}
+	}
+
+	wantRule(create(map[string]any{"id": "policy-new-a", "title": "a", "status": "in-progress"}), tasklifecycle.ColumnRuleRequireAssignee)
+	if w := create(map[string]any{"id": "policy-new-a", "title": "a", "status": "in-progress", "assignee": "@alice"}); w.Code != http.StatusCreated {
+		t.Fatalf("create status=%d body=%s", w.Code, w.Body.String())
+	}
+	wantRule(create(map[string]any{"id": "policy-new-b", "title": "b", "status": "in-progress", "assignee": "@bob"}), tasklifecycle.ColumnRuleWIPLimit)
+	if _, err := store.Tasks.Get("policy-new-b"); err == nil {
+		t.Fatal("rejected create was persisted")
+	}
+}
+
 func callTaskLifecycleRoute(t *testing.T, router http.Handler, path string, body map[string]any) tasklifecycle.Response {
 	t.Helper()
 	status, response := callTaskLifecycleRouteAny(t, router, path, body)
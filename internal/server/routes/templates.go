@@ -7,7 +7,9 @@ import (
 	"strings"
 
 	"github.com/go-chi/chi/v5"
+	"github.com/howznguyen/knowns/internal/codegen"
 	"github.com/howznguyen/knowns/internal/models"
+	"github.com/howznguyen/knowns/internal/search"
 	"github.com/howznguyen/knowns/internal/storage"
 )
 
@@ -92,6 +94,7 @@ func (tr *TemplateRoutes) Register(r chi.Router) {
 	r.Post("/templates/preview", tr.preview)
 	r.Get("/templates/{name}", tr.get)
 	r.Post("/templates/{name}/run", tr.run)
+	r.Post("/templates/{name}/doc", tr.doc)
 }
 
 // templateListItem is the UI-friendly shape for template list items.
@@ -99,6 +102,8 @@ type templateListItem struct {
 	Name        string `json:"name"`
 	Description string `json:"description,omitempty"`
 	Doc         string `json:"doc,omitempty"`
+	// Kind is "doc" for templates that create a Knowns doc, "code" otherwise.
+	Kind        string `json:"kind"`
 	PromptCount int    `json:"promptCount"`
 	FileCount   int    `json:"fileCount"`
 	IsImported  bool   `json:"isImported,omitempty"`
@@ -168,6 +173,13 @@ func toTemplateFiles(actions []models.TemplateAction) []templateFile {
 	return files
 }
 
+func templateKind(tmpl *models.Template) string {
+	if tmpl.Document != nil {
+		return "doc"
+	}
+	return "code"
+}
+
 // list returns all available templates.
 //
 // GET /api/templates
@@ -186,6 +198,7 @@ func (tr *TemplateRoutes) list(w http.ResponseWriter, r *http.Request) {
 			Name:        t.Name,
 			Description: t.Description,
 			Doc:         t.Doc,
+			Kind:        templateKind(t),
 			PromptCount: len(t.Prompts),
 			FileCount:   len(t.Actions),
 			IsImported:  t.IsImported,
@@ -220,6 +233,7 @@ func (tr *TemplateRoutes) get(w http.ResponseWriter, r *http.Request) {
 		"name":        tmpl.Name,
 		"description": tmpl.Description,
 		"doc":         tmpl.Doc,
+		"kind":        templateKind(tmpl),
 		"destination": tmpl.Destination,
 		"prompts":     uiPrompts,
 		"files":       files,
@@ -227,6 +241,9 @@ func (tr *TemplateRoutes) get(w http.ResponseWriter, r *http.Request) {
 	if tmpl.Messages != nil {
 		detail["messages"] = tmpl.Messages
 	}
+	if tmpl.Document != nil {
+		detail["document"] = tmpl.Document
+	}
 	respondJSON(w, http.StatusOK, map[string]interface{}{
 		"template": detail,
 	})
@@ -424,3 +441,86 @@ func (tr *TemplateRoutes) run(w http.ResponseWriter, r *http.Request) {
 		"message":   "Template executed successfully",
 	})
 }
+
+// docTemplateRequest is the body for POST /api/templates/{name}/doc.
+type docTemplateRequest struct {
+	Variables map[string]string `json:"variables"`
+	// CreateTasks also creates the tasks the template seeds.
+	CreateTasks bool `json:"createTasks"`
+	DryRun      bool `json:"dryRun"`
+}
+
+// doc renders a doc template with the supplied variables and creates the doc,
+// plus its seeded tasks when requested. A dry run only returns the rendered
+// doc, with pathError set when it could not be created at its path.
+//
+// POST /api/templates/{name}/doc
+func (tr *TemplateRoutes) doc(w http.ResponseWriter, r *http.Request) {
+	name := chi.URLParam(r, "name")
+
+	var req docTemplateRequest
+	if err := decodeJSON(r, &req); err != nil {
+		respondError(w, http.StatusBadRequest, "invalid request body: "+err.Error())
+		return
+	}
+
+	store := tr.getStore()
+	tmpl, err := store.Templates.Get(name)
+	if err != nil {
+		respondError(w, http.StatusNotFound, err.Error())
+		return
+	}
+	if tmpl.Document == nil {
+		respondError(w, http.StatusBadRequest, "template "+name+" does not create a doc")
+		return
+	}
+	vars, err := codegen.ResolveVars(tmpl, req.Variables)
+	if err != nil {
+		respondError(w, http.StatusBadRequest, err.Error())
+		return
+	}
+	rendered, err := codegen.NewEngine(filepath.Dir(store.Root)).RenderDocument(tmpl, vars)
+	if err != nil {
+		respondError(w, http.StatusBadRequest, err.Error())
+		return
+	}
+
+	pathErr := store.CheckTemplateDocPath(rendered.Path)
+	if req.DryRun {
+		resp := map[string]interface{}{"document": rendered}
+		if pathErr != nil {
+			resp["pathError"] = pathErr.Error()
+		}
+		respondJSON(w, http.StatusOK, resp)
+		return
+	}
+	if pathErr != nil {
+		respondError(w, http.StatusBadRequest, pathErr.Error())
+		return
+	}
+
+	doc, tasks, err := store.CreateDocFromTemplate(rendered, req.CreateTasks, storage.DocRevisionOptions{
+		Actor:  "webui",
+		Source: "template",
+	})
+	if doc != nil {
+		search.BestEffortIndexDoc(store, doc.Path)
+		tr.sse.Broadcast(docUpdatedEvent(store, doc.Path, ""))
+	}
+	taskResponses := make([]taskResponse, 0, len(tasks))
+	for _, task := range tasks {
+		search.BestEffortIndexTask(store, task.ID)
+		response := newTaskResponse(task)
+		tr.sse.Broadcast(SSEEvent{Type: "tasks:updated", Data: map[string]interface{}{"task": response}})
+		taskResponses = append(taskResponses, response)
+	}
+	if err != nil {
+		respondError(w, http.StatusInternalServerError, err.Error())
+		return
+	}
+
+	respondJSON(w, http.StatusCreated, map[string]interface{}{
+		"doc":   toDocResponse(doc),
+		"tasks": taskResponses,
+	})
+}
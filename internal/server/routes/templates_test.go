@@ -0,0 +1,145 @@
+package routes
+
+import (
+	"bytes"
+	"encoding/json"
+	"net/http"
+	"net/http/httptest"
+	"os"
+	"path/filepath"
+	"strings"
+	"testing"
+
+	"github.com/go-chi/chi/v5"
+	"github.com/howznguyen/knowns/internal/storage"
+)
+
+const adrTemplateYAML = `name: adr
+description: Architecture decision record
+prompts:
+  - name: title
+    type: text
+    message: Decision title?
+    validate: required
+  - name: status
+    type: select
+    message: Status?
+    initial: proposed
+    choices:
+      - title: Proposed
+        value: proposed
+      - title: Accepted
+        value: accepted
+  - name: followUp
+    type: confirm
+    message: Track the rollout?
+document:
+  path: "decisions/{{kebabCase title}}"
+  title: "ADR: {{title}}"
+  tags: [adr, "{{status}}"]
+  content: content.md.hbs
+  tasks:
+    - title: "Review {{title}}"
+      spec: true
+      acceptanceCriteria:
+        - "Decision recorded in @doc/{{docPath}}"
+    - title: "Roll out {{title}}"
+      when: followUp
+`
+
+func TestTemplateRoutesDocTemplatePreviewAndCreate(t *testing.T) {
+	t.Setenv("HOME", t.TempDir())
+	store := storage.NewStore(filepath.Join(t.TempDir(), ".knowns"))
+	if err := store.Init("template-route-test"); err != nil {
+		t.Fatalf("init store: %v", err)
+	}
+	dir := filepath.Join(store.Root, "templates", "adr")
+	if err := os.MkdirAll(dir, 0755); err != nil {
+		t.Fatalf("mkdir template: %v", err)
+	}
+	if err := os.WriteFile(filepath.Join(dir, "_template.yaml"), []byte(adrTemplateYAML), 0644); err != nil {
+		t.Fatalf("write template: %v", err)
+	}
+	if err := os.WriteFile(filepath.Join(dir, "content.md.hbs"), []byte("## Status\n\n{{status}}\n"), 0644); err != nil {
+		t.Fatalf("write content: %v", err)
+	}
+
+	broadcaster := &fakeBroadcaster{}
+	router := chi.NewRouter()
+	(&TemplateRoutes{store: store, sse: broadcaster}).Register(router)
+	post := func(payload map[string]any) *httptest.ResponseRecorder {
+		body, _ := json.Marshal(payload)
+		req := httptest.NewRequest(http.MethodPost, "/templates/adr/doc", bytes.NewReader(body))
+		w := httptest.NewRecorder()
+		router.ServeHTTP(w, req)
+		return w
+	}
+
+	if w := post(map[string]any{"variables": map[string]string{}, "dryRun": true}); w.Code != http.StatusBadRequest {
+		t.Fatalf("missing required variable status = %d, want 400", w.Code)
+	}
+
+	w := post(map[string]any{"variables": map[string]string{"title": "Use Postgres"}, "dryRun": true})
+	if w.Code != http.StatusOK {
+		t.Fatalf("preview status = %d body=%s", w.Code, w.Body.String())
+	}
+	var preview struct {
+		Document struct {
+			Path    string   `json:"path"`
+			Title   string   `json:"title"`
+			Tags    []string `json:"tags"`
+			Content string   `json:"content"`
+			Tasks   []struct {
+				Title              string   `json:"title"`
+				AcceptanceCriteria []string `json:"acceptanceCriteria"`
+			} `json:"tasks"`
+		} `json:"document"`
+		PathError string `json:"pathError"`
+	}
+	if err := json.Unmarshal(w.Body.Bytes(), &preview); err != nil {
+		t.Fatalf("unmarshal preview: %v", err)
+	}
+	doc := preview.Document
+	if doc.Path != "decisions/use-postgres" || doc.Title != "ADR: Use Postgres" || preview.PathError != "" {
+		t.Fatalf("preview = %+v", preview)
+	}
+	if strings.Join(doc.Tags, ",") != "adr,proposed" || !strings.Contains(doc.Content, "proposed") {
+		t.Fatalf("preview tags %v content %q, want the status default applied", doc.Tags, doc.Content)
+	}
+	if len(doc.Tasks) != 1 || doc.Tasks[0].AcceptanceCriteria[0] != "Decision recorded in @doc/decisions/use-postgres" {
+		t.Fatalf("preview tasks = %+v, want only the review task", doc.Tasks)
+	}
+	if len(broadcaster.events) != 0 {
+		t.Fatalf("preview broadcast %d events", len(broadcaster.events))
+	}
+
+	w = post(map[string]any{"variables": map[string]string{"title": "Use Postgres"}, "createTasks": true})
+	if w.Code != http.StatusCreated {
+		t.Fatalf("create status = %d body=%s", w.Code, w.Body.String())
+	}
+	created, err := store.Docs.Get("decisions/use-postgres")
+	if err != nil {
+		t.Fatalf("get created doc: %v", err)
+	}
+	if created.Title != "ADR: Use Postgres" {
+		t.Fatalf("created doc title = %q", created.Title)
+	}
+	tasks, err := store.Tasks.List()
+	if err != nil {
+		t.Fatalf("list tasks: %v", err)
+	}
+	if len(tasks) != 1 || tasks[0].Spec != "decisions/use-postgres" || len(tasks[0].AcceptanceCriteria) != 1 {
+		t.Fatalf("tasks = %+v, want one spec-linked review task", tasks)
+	}
+	if len(broadcaster.events) != 2 {
+		t.Fatalf("create broadcast %d events, want doc and task", len(broadcaster.events))
+	}
+
+	w = post(map[string]any{"variables": map[string]string{"title": "Use Postgres"}, "dryRun": true})
+	if err := json.Unmarshal(w.Body.Bytes(), &preview); err != nil || preview.PathError == "" {
+		t.Fatalf("preview over existing doc = %s, want pathError", w.Body.String())
+	}
+	if w := post(map[string]any{"variables": map[string]string{"title": "Use Postgres"}}); w.Code != http.StatusBadRequest {
+		t.Fatalf("create over existing doc status = %d, want 400", w.Code)
+	}
+}
@@ -2,7 +2,9 @@ package routes
 
 import (
 	"encoding/json"
+	"fmt"
 	"net/http"
+	"strings"
 
 	"github.com/go-chi/chi/v5"
 	"github.com/howznguyen/knowns/internal/models"
@@ -61,9 +63,41 @@ func (upr *UserPrefsRoutes) save(w http.ResponseWriter, r *http.Request) {
 		}
 	}
 
+	if raw, ok := payload["taskViews"]; ok {
+		var views []models.TaskView
+		if err := json.Unmarshal(raw, &views); err != nil {
+			respondError(w, http.StatusBadRequest, "invalid taskViews: "+err.Error())
+			return
+		}
+		if err := validateTaskViews(views); err != nil {
+			respondError(w, http.StatusBadRequest, "invalid taskViews: "+err.Error())
+			return
+		}
+		prefs.TaskViews = views
+	}
+
 	if err := upr.store.Save(prefs); err != nil {
 		respondError(w, http.StatusInternalServerError, err.Error())
 		return
 	}
 	respondJSON(w, http.StatusOK, prefs)
 }
+
+// validateTaskViews rejects saved views without an ID or name and duplicate
+// IDs, since the UI addresses views by ID in /tasks?view= and /kanban?view=.
+func validateTaskViews(views []models.TaskView) error {
+	seen := make(map[string]bool, len(views))
+	for _, view := range views {
+		if strings.TrimSpace(view.ID) == "" {
+			return fmt.Errorf("view id is required")
+		}
+		if strings.TrimSpace(view.Name) == "" {
+			return fmt.Errorf("view %q: name is required", view.ID)
+		}
+		if seen[view.ID] {
+			return fmt.Errorf("duplicate view id %q", view.ID)
+		}
+		seen[view.ID] = true
+	}
+	return nil
+}
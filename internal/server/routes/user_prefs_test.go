@@ -0,0 +1,58 @@
+package routes
+
+import (
+	"net/http"
+	"net/http/httptest"
+	"path/filepath"
+	"strings"
+	"testing"
+
+	"github.com/go-chi/chi/v5"
+	"github.com/howznguyen/knowns/internal/models"
+	"github.com/howznguyen/knowns/internal/storage"
+)
+
+func TestUserPrefsSaveMergesTaskViews(t *testing.T) {
+	store := storage.NewUserPrefsStoreWithPath(filepath.Join(t.TempDir(), "prefs.json"))
+	if err := store.Save(&storage.UserPrefs{
+		OpenCodeModels: &models.OpenCodeModelSettings{Version: 1, ActiveModels: []string{"a:b"}},
+	}); err != nil {
+		t.Fatalf("seed prefs: %v", err)
+	}
+	router := chi.NewRouter()
+	(&UserPrefsRoutes{store: store}).Register(router)
+
+	post := func(body string) *httptest.ResponseRecorder {
+		req := httptest.NewRequest(http.MethodPost, "/user-preferences", strings.NewReader(body))
+		w := httptest.NewRecorder()
+		router.ServeHTTP(w, req)
+		return w
+	}
+
+	w := post(`{"taskViews":[{"id":"mine","name":"My open work","query":"assignee:@me -status:done","layout":"kanban"}]}`)
+	if w.Code != http.StatusOK {
+		t.Fatalf("save status = %d: %s", w.Code, w.Body.String())
+	}
+	prefs, err := store.Load()
+	if err != nil {
+		t.Fatalf("load prefs: %v", err)
+	}
+	if prefs.OpenCodeModels == nil || len(prefs.OpenCodeModels.ActiveModels) != 1 {
+		t.Fatalf("opencodeModels should survive a taskViews-only save: %#v", prefs.OpenCodeModels)
+	}
+	if len(prefs.TaskViews) != 1 || prefs.TaskViews[0].Query != "assignee:@me -status:done" || prefs.TaskViews[0].Layout != "kanban" {
+		t.Fatalf("taskViews = %#v", prefs.TaskViews)
+	}
+
+	for name, body := range map[string]string{
+		"missing name": `{"taskViews":[{"id":"x","query":"status:todo"}]}`,
+		"duplicate id": `{"taskViews":[{"id":"x","name":"A"},{"id":"x","name":"B"}]}`,
+	} {
+		if w := post(body); w.Code != http.StatusBadRequest {
+			t.Fatalf("%s: status = %d, want 400", name, w.Code)
+		}
+	}
+	if prefs, _ := store.Load(); len(prefs.TaskViews) != 1 {
+		t.Fatalf("rejected saves must not change stored views: %#v", prefs.TaskViews)
+	}
+}
@@ -5,6 +5,7 @@ import (
 	"net/http"
 
 	"github.com/go-chi/chi/v5"
+	"github.com/howznguyen/knowns/internal/collab"
 	"github.com/howznguyen/knowns/internal/storage"
 )
 
@@ -12,6 +13,9 @@ import (
 type ValidateRoutes struct {
 	store *storage.Store
 	mgr   *storage.Manager
+	sse   Broadcaster
+	// collab receives link repairs so open editing sessions see them.
+	collab *collab.Hub
 }
 
 func (vr *ValidateRoutes) getStore() *storage.Store {
@@ -24,6 +28,8 @@ func (vr *ValidateRoutes) getStore() *storage.Store {
 // Register wires the validate routes onto r.
 func (vr *ValidateRoutes) Register(r chi.Router) {
 	r.Get("/validate/sdd", vr.sdd)
+	r.Get("/validate/links", vr.links)
+	r.Post("/validate/links/repair", vr.repairLinks)
 }
 
 // SDDWarning describes a single SDD validation finding.
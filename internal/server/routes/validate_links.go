@@ -0,0 +1,99 @@
+package routes
+
+import (
+	"net/http"
+
+	"github.com/howznguyen/knowns/internal/collab"
+	"github.com/howznguyen/knowns/internal/models"
+	"github.com/howznguyen/knowns/internal/search"
+	"github.com/howznguyen/knowns/internal/storage"
+)
+
+// links reports every inline reference that does not resolve, with its
+// source locations and suggested targets.
+//
+// GET /api/validate/links
+func (vr *ValidateRoutes) links(w http.ResponseWriter, r *http.Request) {
+	report, err := vr.getStore().CheckLinkHealth()
+	if err != nil {
+		respondError(w, http.StatusInternalServerError, err.Error())
+		return
+	}
+	respondJSON(w, http.StatusOK, report)
+}
+
+// repairLinks points broken references at new targets in bulk.
+//
+// POST /api/validate/links/repair
+func (vr *ValidateRoutes) repairLinks(w http.ResponseWriter, r *http.Request) {
+	var payload struct {
+		Fixes []models.LinkFix `json:"fixes"`
+	}
+	if err := decodeJSON(r, &payload); err != nil {
+		respondError(w, http.StatusBadRequest, "invalid request body: "+err.Error())
+		return
+	}
+	if len(payload.Fixes) == 0 {
+		respondError(w, http.StatusBadRequest, "fixes are required")
+		return
+	}
+
+	store := vr.getStore()
+	result, err := store.RepairLinks(payload.Fixes, storage.DocRevisionOptions{Actor: "webui", Source: "link-repair"})
+	if err != nil {
+		// A failed save still leaves earlier entities rewritten.
+		status := http.StatusBadRequest
+		if result != nil {
+			broadcastLinkUpdates(vr.sse, vr.collab, store, result.Updated)
+			status = http.StatusInternalServerError
+		}
+		respondError(w, status, err.Error())
+		return
+	}
+	broadcastLinkUpdates(vr.sse, vr.collab, store, result.Updated)
+	respondJSON(w, http.StatusOK, result)
+}
+
+// broadcastLinkUpdates reindexes and announces each entity a link rewrite
+// touched, once per entity.
+func broadcastLinkUpdates(sse Broadcaster, hub *collab.Hub, store *storage.Store, updated []models.ReferenceLocation) {
+	seen := map[string]bool{}
+	for _, loc := range updated {
+		key := loc.Kind + ":" + loc.ID
+		if seen[key] {
+			continue
+		}
+		seen[key] = true
+
+		switch loc.Kind {
+		case "task":
+			task, err := store.Tasks.Get(loc.ID)
+			if err != nil {
+				continue
+			}
+			search.BestEffortIndexTask(store, task.ID)
+			sse.Broadcast(SSEEvent{Type: "tasks:updated", Data: map[string]interface{}{"task": newTaskResponse(task)}})
+		case "doc":
+			search.BestEffortIndexDoc(store, loc.ID)
+			mergeExternalDocWrite(hub, store, loc.ID)
+			sse.Broadcast(docUpdatedEvent(store, loc.ID, ""))
+		case "memory":
+			entry, err := store.Memory.Get(loc.ID)
+			if err != nil {
+				continue
+			}
+			search.BestEffortIndexMemory(store, entry.ID)
+			sse.Broadcast(SSEEvent{Type: "memories:updated", Data: map[string]any{"memory": entry}})
+		case "decision":
+			decision, err := store.Decisions.Get(loc.ID)
+			if err != nil {
+				continue
+			}
+			search.BestEffortIndexDecision(store, decision.ID)
+			sse.Broadcast(SSEEvent{Type: "decisions:updated", Data: map[string]any{
+				"decision":  decision,
+				"decisions": []*models.DecisionEntry{decision},
+			}})
+		}
+	}
+}
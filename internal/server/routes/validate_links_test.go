@@ -0,0 +1,137 @@
+package routes
+
+import (
+	"bytes"
+	"encoding/json"
+	"net/http"
+	"net/http/httptest"
+	"path/filepath"
+	"testing"
+	"time"
+
+	"github.com/go-chi/chi/v5"
+	"github.com/howznguyen/knowns/internal/models"
+	"github.com/howznguyen/knowns/internal/storage"
+)
+
+func TestValidateLinksReportAndRepair(t *testing.T) {
+	store := setupLinkRouteStore(t)
+	broadcaster := &fakeBroadcaster{}
+	router := chi.NewRouter()
+	(&ValidateRoutes{store: store, sse: broadcaster}).Register(router)
+
+	req := httptest.NewRequest(http.MethodGet, "/validate/links", nil)
+	w := httptest.NewRecorder()
+	router.ServeHTTP(w, req)
+	if w.Code != http.StatusOK {
+		t.Fatalf("links status = %d body=%s", w.Code, w.Body.String())
+	}
+	var report models.LinkHealthReport
+	if err := json.Unmarshal(w.Body.Bytes(), &report); err != nil {
+		t.Fatalf("unmarshal report: %v", err)
+	}
+	if len(report.Broken) != 1 || report.Broken[0].Target != "guides/gone" || len(report.Broken[0].Locations) != 2 {
+		t.Fatalf("broken = %#v, want guides/gone in two places", report.Broken)
+	}
+
+	body, _ := json.Marshal(map[string]any{
+		"fixes": []models.LinkFix{{Type: "doc", From: "guides/gone", To: "guides/target"}},
+	})
+	req = httptest.NewRequest(http.MethodPost, "/validate/links/repair", bytes.NewReader(body))
+	w = httptest.NewRecorder()
+	router.ServeHTTP(w, req)
+	if w.Code != http.StatusOK {
+		t.Fatalf("repair status = %d body=%s", w.Code, w.Body.String())
+	}
+	var result models.LinkRepairResult
+	if err := json.Unmarshal(w.Body.Bytes(), &result); err != nil {
+		t.Fatalf("unmarshal repair: %v", err)
+	}
+	if result.Rewritten != 2 || len(broadcaster.events) != 2 {
+		t.Fatalf("repair = %#v with %d events, want two rewrites announced", result, len(broadcaster.events))
+	}
+
+	body, _ = json.Marshal(map[string]any{
+		"fixes": []models.LinkFix{{Type: "doc", From: "guides/target", To: "guides/missing"}},
+	})
+	req = httptest.NewRequest(http.MethodPost, "/validate/links/repair", bytes.NewReader(body))
+	w = httptest.NewRecorder()
+	router.ServeHTTP(w, req)
+	if w.Code != http.StatusBadRequest {
+		t.Fatalf("repair to missing target status = %d, want 400", w.Code)
+	}
+}
+
+func TestDocRoutesMoveRewritesInboundReferences(t *testing.T) {
+	store := setupLinkRouteStore(t)
+	broadcaster := &fakeBroadcaster{}
+	router := chi.NewRouter()
+	(&DocRoutes{store: store, sse: broadcaster}).Register(router)
+
+	move := func(dryRun bool) *httptest.ResponseRecorder {
+		body, _ := json.Marshal(map[string]any{"path": "reference/target", "dryRun": dryRun})
+		req := httptest.NewRequest(http.MethodPost, "/docs/guides/consumer/move", bytes.NewReader(body))
+		w := httptest.NewRecorder()
+		router.ServeHTTP(w, req)
+		return w
+	}
+
+	if w := move(true); w.Code != http.StatusOK {
+		t.Fatalf("dry run status = %d body=%s", w.Code, w.Body.String())
+	}
+	if _, err := store.Docs.Get("guides/consumer"); err != nil {
+		t.Fatalf("dry run moved the doc: %v", err)
+	}
+
+	body, _ := json.Marshal(map[string]any{"path": "guides/target"})
+	req := httptest.NewRequest(http.MethodPost, "/docs/guides/consumer/move", bytes.NewReader(body))
+	w := httptest.NewRecorder()
+	router.ServeHTTP(w, req)
+	if w.Code != http.StatusBadRequest {
+		t.Fatalf("move onto existing doc status = %d, want 400", w.Code)
+	}
+
+	if w := move(false); w.Code != http.StatusOK {
+		t.Fatalf("move status = %d body=%s", w.Code, w.Body.String())
+	}
+	if _, err := store.Docs.Get("reference/target"); err != nil {
+		t.Fatalf("get moved doc: %v", err)
+	}
+	task, err := store.Tasks.Get("lnkrt1")
+	if err != nil {
+		t.Fatalf("get task: %v", err)
+	}
+	if task.Description != "Read @doc/reference/target#setup and @doc/guides/gone" {
+		t.Fatalf("task description = %q", task.Description)
+	}
+}
+
+func setupLinkRouteStore(t *testing.T) *storage.Store {
+	t.Helper()
+	t.Setenv("HOME", t.TempDir())
+	store := storage.NewStore(filepath.Join(t.TempDir(), ".knowns"))
+	if err := store.Init("link-route-test"); err != nil {
+		t.Fatalf("init store: %v", err)
+	}
+	now := time.Date(2026, 6, 26, 0, 0, 0, 0, time.UTC)
+	for _, doc := range []*models.Doc{
+		{Path: "guides/target", Title: "Target", Content: "Body", Tags: []string{}, CreatedAt: now, UpdatedAt: now},
+		{Path: "guides/consumer", Title: "Consumer", Content: "Links to @doc/guides/gone.", Tags: []string{}, CreatedAt: now, UpdatedAt: now},
+	} {
+		if err := store.Docs.Create(doc); err != nil {
+			t.Fatalf("create doc %s: %v", doc.Path, err)
+		}
+	}
+	if err := store.Tasks.Create(&models.Task{
+		ID:          "lnkrt1",
+		Title:       "Task",
+		Description: "Read @doc/guides/consumer#setup and @doc/guides/gone",
+		Status:      "todo",
+		Priority:    "medium",
+		CreatedAt:   now,
+		UpdatedAt:   now,
+	}); err != nil {
+		t.Fatalf("create task: %v", err)
+	}
+	return store
+}
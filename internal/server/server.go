@@ -29,6 +29,7 @@ import (
 	"github.com/gorilla/websocket"
 
 	"github.com/howznguyen/knowns/internal/agents/opencode"
+	"github.com/howznguyen/knowns/internal/collab"
 	"github.com/howznguyen/knowns/internal/lsp"
 	"github.com/howznguyen/knowns/internal/lsp/adapters"
 	"github.com/howznguyen/knowns/internal/lspdaemon"
@@ -82,6 +83,7 @@ type Server struct {
 	tunnel            *ServerTunnelManager
 	auth              *AuthManager
 	lspManager        *lsp.Manager
+	docCollab         *collab.Hub // Live doc editing sessions, swept while serving
 }
 
 type openCodeConfigResolution struct {
@@ -434,6 +436,8 @@ func (s *Server) serve(listener net.Listener) error {
 	s.cancelTaskSweep = sweepCancel
 	defer sweepCancel()
 	routes.StartTaskAutoArchiveSweeper(sweepCtx, s.activeStore, s.sse, routes.DefaultTaskAutoArchiveInterval)
+	routes.StartMemoryExpirySweeper(sweepCtx, s.activeStore, s.sse, routes.DefaultMemoryExpiryInterval)
+	routes.StartDocCollabSweeper(sweepCtx, s.docCollab, routes.DefaultDocCollabPruneInterval)
 
 	// Port is bound — now safe to write the port file.
 	if err := s.writePortFile(); err != nil {
@@ -1012,7 +1016,7 @@ func (s *Server) buildRouter() chi.Router {
 
 	// --- API routes ---
 	r.Route("/api", func(r chi.Router) {
-		routes.SetupRoutesWithCapabilities(r, s.store, s.sse, s.projectRoot, s.manager, routes.TaskRouteCapabilities{HardDelete: s.opts.AllowTaskHardDelete}, s.reinitOpenCode)
+		s.docCollab = routes.SetupRoutesWithCapabilities(r, s.store, s.sse, s.projectRoot, s.manager, routes.TaskRouteCapabilities{HardDelete: s.opts.AllowTaskHardDelete}, s.reinitOpenCode)
 	})
 
 	// --- LSP language management routes ---
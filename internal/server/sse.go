@@ -4,29 +4,76 @@ import (
 	"encoding/json"
 	"fmt"
 	"net/http"
+	"strconv"
+	"strings"
 	"sync"
 	"time"
 
 	"github.com/howznguyen/knowns/internal/server/routes"
 )
 
+// sseReplayBufferSize bounds how many recent events the broker keeps for
+// clients that reconnect with a Last-Event-ID.
+const sseReplayBufferSize = 1024
+
+// sseRetryMs is the reconnect delay suggested to EventSource clients.
+const sseRetryMs = 1000
+
+// sseEnvelope is a broadcast event with its stream ID and encoded payload.
+// Payloads are encoded once at broadcast time so replays match the original.
+// Live envelopes have no ID of their own.
+type sseEnvelope struct {
+	seq  uint64
+	typ  string
+	data []byte
+	live bool
+}
+
+// sseClient is one subscribed stream. lagged is closed when the client's
+// buffer overflows so the stream ends and the client resumes via replay
+// instead of silently missing events.
+type sseClient struct {
+	ch     chan sseEnvelope
+	lagged chan struct{}
+	once   sync.Once
+}
+
 // SSEBroker manages SSE client connections and broadcasts events to all of them.
 // It implements routes.Broadcaster so route handlers can emit events without
 // importing this package (which would create a cycle).
+//
+// Every event gets a monotonically increasing ID of the form "<epoch>-<seq>",
+// where epoch identifies this broker instance. The last sseReplayBufferSize
+// events are retained so a reconnecting EventSource (which sends the
+// Last-Event-ID header automatically) receives exactly the events it missed.
+// When the requested ID is no longer buffered, or belongs to a previous
+// server run, the "connected" event reports resync=true and the client must
+// refetch its state.
 type SSEBroker struct {
-	clients map[chan routes.SSEEvent]struct{}
+	clients map[*sseClient]struct{}
 	mu      sync.RWMutex
+
+	epoch   string
+	seq     uint64
+	history []sseEnvelope // ring buffer, oldest at head
+	head    int
 }
 
 // NewSSEBroker creates a new SSEBroker with no connected clients.
 func NewSSEBroker() *SSEBroker {
 	return &SSEBroker{
-		clients: make(map[chan routes.SSEEvent]struct{}),
+		clients: make(map[*sseClient]struct{}),
+		epoch:   strconv.FormatInt(time.Now().UnixNano(), 36),
+		history: make([]sseEnvelope, 0, sseReplayBufferSize),
 	}
 }
 
 // Subscribe handles an incoming SSE request. It registers the client,
-// streams events until the connection closes, and then deregisters.
+// replays any events missed since Last-Event-ID, streams events until the
+// connection closes, and then deregisters.
+//
+// The resume position is read from the Last-Event-ID header, falling back to
+// the lastEventId query parameter for clients that reconnect manually.
 func (b *SSEBroker) Subscribe(w http.ResponseWriter, r *http.Request) {
 	flusher, ok := w.(http.Flusher)
 	if !ok {
@@ -39,21 +86,43 @@ func (b *SSEBroker) Subscribe(w http.ResponseWriter, r *http.Request) {
 	w.Header().Set("Connection", "keep-alive")
 	w.Header().Set("X-Accel-Buffering", "no")
 
-	ch := make(chan routes.SSEEvent, 64)
+	lastEventID := r.Header.Get("Last-Event-ID")
+	if lastEventID == "" {
+		lastEventID = r.URL.Query().Get("lastEventId")
+	}
+
+	client := &sseClient{
+		ch:     make(chan sseEnvelope, 64),
+		lagged: make(chan struct{}),
+	}
 
+	// Register and snapshot the replay under the same lock Broadcast uses so
+	// no event is both replayed and delivered live, or neither.
 	b.mu.Lock()
-	b.clients[ch] = struct{}{}
+	replay, resync := b.replaySince(lastEventID)
+	currentID := b.eventID(b.seq)
+	b.clients[client] = struct{}{}
 	b.mu.Unlock()
 
 	defer func() {
 		b.mu.Lock()
-		delete(b.clients, ch)
+		delete(b.clients, client)
 		b.mu.Unlock()
-		close(ch)
 	}()
 
 	// Send an initial "connected" event so the client knows the stream is live.
-	fmt.Fprintf(w, "event: connected\ndata: {\"timestamp\":%d}\n\n", time.Now().UnixMilli())
+	// It carries the current stream position so a client that has not seen
+	// any events yet can still resume from here.
+	connectedID := currentID
+	if len(replay) > 0 {
+		connectedID = b.eventID(replay[0].seq - 1)
+	}
+	fmt.Fprintf(w, "retry: %d\n", sseRetryMs)
+	fmt.Fprintf(w, "id: %s\nevent: connected\ndata: {\"timestamp\":%d,\"resync\":%t,\"replayed\":%d}\n\n",
+		connectedID, time.Now().UnixMilli(), resync, len(replay))
+	for _, evt := range replay {
+		b.write(w, evt)
+	}
 	flusher.Flush()
 
 	ctx := r.Context()
@@ -61,31 +130,96 @@ func (b *SSEBroker) Subscribe(w http.ResponseWriter, r *http.Request) {
 		select {
 		case <-ctx.Done():
 			return
-		case evt, open := <-ch:
-			if !open {
-				return
-			}
-			dataPayload, err := json.Marshal(evt.Data)
-			if err != nil {
-				continue
-			}
-			// Use named SSE events so EventSource.addEventListener(type) works.
-			fmt.Fprintf(w, "event: %s\ndata: %s\n\n", evt.Type, dataPayload)
+		case <-client.lagged:
+			// Drop the stream; the client reconnects and replays the gap.
+			return
+		case evt := <-client.ch:
+			b.write(w, evt)
 			flusher.Flush()
 		}
 	}
 }
 
-// Broadcast sends an event to every currently subscribed client.
-// It satisfies the routes.Broadcaster interface.
+// Broadcast sends an event to every currently subscribed client and, unless
+// it is live-only, records it in the replay buffer. It satisfies the
+// routes.Broadcaster interface.
 func (b *SSEBroker) Broadcast(event routes.SSEEvent) {
-	b.mu.RLock()
-	defer b.mu.RUnlock()
-	for ch := range b.clients {
+	dataPayload, err := json.Marshal(event.Data)
+	if err != nil {
+		return
+	}
+
+	b.mu.Lock()
+	defer b.mu.Unlock()
+
+	evt := sseEnvelope{typ: event.Type, data: dataPayload, live: event.Live}
+	if !event.Live {
+		b.seq++
+		evt.seq = b.seq
+		if len(b.history) < sseReplayBufferSize {
+			b.history = append(b.history, evt)
+		} else {
+			b.history[b.head] = evt
+			b.head = (b.head + 1) % sseReplayBufferSize
+		}
+	}
+
+	for client := range b.clients {
 		select {
-		case ch <- event:
+		case client.ch <- evt:
 		default:
-			// Drop event if the client channel is full to avoid blocking.
+			// Never block on a slow client; end its stream so it resumes
+			// from its last delivered ID.
+			client.once.Do(func() { close(client.lagged) })
+		}
+	}
+}
+
+// replaySince returns the buffered events after lastEventID. resync reports
+// that the ID is unknown (another server run, or already evicted from the
+// buffer) and the client must refetch its state instead. Callers hold b.mu.
+func (b *SSEBroker) replaySince(lastEventID string) (replay []sseEnvelope, resync bool) {
+	if lastEventID == "" {
+		return nil, false
+	}
+	epoch, seqText, ok := strings.Cut(lastEventID, "-")
+	if !ok || epoch != b.epoch {
+		return nil, true
+	}
+	lastSeq, err := strconv.ParseUint(seqText, 10, 64)
+	if err != nil || lastSeq > b.seq {
+		return nil, true
+	}
+	if lastSeq == b.seq {
+		return nil, false
+	}
+	oldest := b.seq - uint64(len(b.history)) + 1
+	if lastSeq+1 < oldest {
+		return nil, true
+	}
+
+	replay = make([]sseEnvelope, 0, b.seq-lastSeq)
+	for i := 0; i < len(b.history); i++ {
+		evt := b.history[(b.head+i)%len(b.history)]
+		if evt.seq > lastSeq {
+			replay = append(replay, evt)
 		}
 	}
+	return replay, false
+}
+
+func (b *SSEBroker) eventID(seq uint64) string {
+	return b.epoch + "-" + strconv.FormatUint(seq, 10)
+}
+
+// write emits one event. Named SSE events let EventSource.addEventListener(type)
+// work; the id line is what the browser echoes back as Last-Event-ID.
+func (b *SSEBroker) write(w http.ResponseWriter, evt sseEnvelope) {
+	if evt.live {
+		// Without an id line the client's Last-Event-ID stays on the last
+		// replayable event.
+		fmt.Fprintf(w, "event: %s\ndata: %s\n\n", evt.typ, evt.data)
+		return
+	}
+	fmt.Fprintf(w, "id: %s\nevent: %s\ndata: %s\n\n", b.eventID(evt.seq), evt.typ, evt.data)
 }
@@ -0,0 +1,97 @@
+package server
+
+import (
+	"context"
+	"net/http/httptest"
+	"strings"
+	"testing"
+
+	"github.com/howznguyen/knowns/internal/server/routes"
+)
+
+func TestSSEBrokerReplaysEventsAfterLastEventID(t *testing.T) {
+	b := NewSSEBroker()
+	for _, id := range []string{"a", "b", "c"} {
+		b.Broadcast(routes.SSEEvent{Type: "tasks:updated", Data: map[string]string{"id": id}})
+	}
+
+	body := subscribeSSEOnce(t, b, b.eventID(1))
+	if !strings.Contains(body, `"resync":false,"replayed":2`) {
+		t.Fatalf("connected event should report 2 replayed events:\n%s", body)
+	}
+	if strings.Contains(body, `{"id":"a"}`) {
+		t.Fatalf("event already seen by the client was replayed:\n%s", body)
+	}
+	for _, want := range []string{
+		"id: " + b.eventID(2) + "\nevent: tasks:updated\ndata: {\"id\":\"b\"}",
+		"id: " + b.eventID(3) + "\nevent: tasks:updated\ndata: {\"id\":\"c\"}",
+	} {
+		if !strings.Contains(body, want) {
+			t.Fatalf("missing replayed event %q in:\n%s", want, body)
+		}
+	}
+
+	body = subscribeSSEOnce(t, b, b.eventID(3))
+	if !strings.Contains(body, `"resync":false,"replayed":0`) || strings.Contains(body, "tasks:updated") {
+		t.Fatalf("up-to-date client should get no replay:\n%s", body)
+	}
+}
+
+func TestSSEBrokerRequestsResyncWhenReplayIsUnavailable(t *testing.T) {
+	b := NewSSEBroker()
+	for i := 0; i < sseReplayBufferSize+5; i++ {
+		b.Broadcast(routes.SSEEvent{Type: "tasks:updated", Data: map[string]int{"n": i}})
+	}
+
+	for name, lastEventID := range map[string]string{
+		"rolled over":   b.eventID(2),
+		"other server":  "previous-7",
+		"ahead of head": b.eventID(b.seq + 1),
+	} {
+		body := subscribeSSEOnce(t, b, lastEventID)
+		if !strings.Contains(body, `"resync":true`) || strings.Contains(body, "tasks:updated") {
+			t.Fatalf("%s: want resync without replay:\n%s", name, body)
+		}
+		if !strings.Contains(body, "id: "+b.eventID(b.seq)+"\nevent: connected") {
+			t.Fatalf("%s: connected event should carry the current stream position:\n%s", name, body)
+		}
+	}
+
+	// The oldest retained event is still replayable.
+	body := subscribeSSEOnce(t, b, b.eventID(5))
+	if !strings.Contains(body, `"resync":false,"replayed":1024`) {
+		t.Fatalf("want full-buffer replay:\n%s", body)
+	}
+}
+
+func TestSSEBrokerKeepsLiveEventsOutOfReplay(t *testing.T) {
+	b := NewSSEBroker()
+	b.Broadcast(routes.SSEEvent{Type: "tasks:updated", Data: map[string]string{"id": "a"}})
+	for i := 0; i < sseReplayBufferSize; i++ {
+		b.Broadcast(routes.SSEEvent{Type: "docs:collab", Data: map[string]int{"n": i}, Live: true})
+	}
+	b.Broadcast(routes.SSEEvent{Type: "tasks:updated", Data: map[string]string{"id": "b"}})
+
+	if b.seq != 2 || len(b.history) != 2 {
+		t.Fatalf("seq = %d, history = %d; want live events to take no stream IDs", b.seq, len(b.history))
+	}
+	body := subscribeSSEOnce(t, b, b.eventID(1))
+	if !strings.Contains(body, `"resync":false,"replayed":1`) || strings.Contains(body, "docs:collab") {
+		t.Fatalf("want only the durable event replayed:\n%s", body)
+	}
+}
+
+// subscribeSSEOnce runs Subscribe with an already-cancelled request so it
+// writes the connected event and any replay, then returns.
+func subscribeSSEOnce(t *testing.T, b *SSEBroker, lastEventID string) string {
+	t.Helper()
+	ctx, cancel := context.WithCancel(context.Background())
+	cancel()
+	req := httptest.NewRequest("GET", "/api/events", nil).WithContext(ctx)
+	if lastEventID != "" {
+		req.Header.Set("Last-Event-ID", lastEventID)
+	}
+	rec := httptest.NewRecorder()
+	b.Subscribe(rec, req)
+	return rec.Body.String()
+}
@@ -0,0 +1,473 @@
+package storage
+
+import (
+	"fmt"
+	"os"
+	"path/filepath"
+	"sort"
+	"strings"
+	"sync"
+	"time"
+	"unicode/utf16"
+	"unicode/utf8"
+
+	"github.com/howznguyen/knowns/internal/models"
+)
+
+// AnnotationStore reads and writes doc annotations. Each doc's annotations
+// live in one JSON file, .knowns/annotations/<doc path>.json, so reviews of
+// different docs don't touch the same file.
+type AnnotationStore struct {
+	root string
+	mu   sync.Mutex
+}
+
+func (as *AnnotationStore) annotationsDir() string { return filepath.Join(as.root, "annotations") }
+
+func (as *AnnotationStore) docFile(docPath string) (string, error) {
+	docPath = normalizeDocPath(docPath)
+	if docPath == "" {
+		return "", fmt.Errorf("doc path is required")
+	}
+	for _, part := range strings.Split(docPath, "/") {
+		if part == "" || part == "." || part == ".." {
+			return "", fmt.Errorf("invalid doc path: %q", docPath)
+		}
+	}
+	return filepath.Join(as.annotationsDir(), filepath.FromSlash(docPath)+".json"), nil
+}
+
+func (as *AnnotationStore) load(docPath string) ([]*models.Annotation, error) {
+	file, err := as.docFile(docPath)
+	if err != nil {
+		return nil, err
+	}
+	var annotations []*models.Annotation
+	if err := readJSON(file, &annotations); err != nil {
+		if os.IsNotExist(err) {
+			return nil, nil
+		}
+		return nil, fmt.Errorf("read annotations for %s: %w", docPath, err)
+	}
+	for _, annotation := range annotations {
+		if annotation.Replies == nil {
+			annotation.Replies = []models.AnnotationReply{}
+		}
+	}
+	return annotations, nil
+}
+
+func (as *AnnotationStore) save(docPath string, annotations []*models.Annotation) error {
+	file, err := as.docFile(docPath)
+	if err != nil {
+		return err
+	}
+	if len(annotations) == 0 {
+		if err := os.Remove(file); err != nil && !os.IsNotExist(err) {
+			return fmt.Errorf("remove annotations for %s: %w", docPath, err)
+		}
+		return nil
+	}
+	return writeJSON(file, annotations)
+}
+
+// docPaths lists the docs that have annotations.
+func (as *AnnotationStore) docPaths() ([]string, error) {
+	var paths []string
+	err := filepath.WalkDir(as.annotationsDir(), func(path string, entry os.DirEntry, err error) error {
+		if err != nil {
+			if os.IsNotExist(err) {
+				return filepath.SkipDir
+			}
+			return err
+		}
+		if entry.IsDir() || !strings.HasSuffix(entry.Name(), ".json") {
+			return nil
+		}
+		rel, err := filepath.Rel(as.annotationsDir(), path)
+		if err != nil {
+			return err
+		}
+		paths = append(paths, strings.TrimSuffix(filepath.ToSlash(rel), ".json"))
+		return nil
+	})
+	if err != nil {
+		return nil, fmt.Errorf("list annotations: %w", err)
+	}
+	sort.Strings(paths)
+	return paths, nil
+}
+
+// ListDoc returns a doc's annotations in creation order.
+func (as *AnnotationStore) ListDoc(docPath string) ([]*models.Annotation, error) {
+	as.mu.Lock()
+	defer as.mu.Unlock()
+	return as.load(docPath)
+}
+
+// List returns the annotations of every doc, grouped by doc path.
+func (as *AnnotationStore) List() ([]*models.Annotation, error) {
+	as.mu.Lock()
+	defer as.mu.Unlock()
+	paths, err := as.docPaths()
+	if err != nil {
+		return nil, err
+	}
+	var all []*models.Annotation
+	for _, path := range paths {
+		annotations, err := as.load(path)
+		if err != nil {
+			return nil, err
+		}
+		all = append(all, annotations...)
+	}
+	return all, nil
+}
+
+// Get retrieves an annotation by ID.
+func (as *AnnotationStore) Get(id string) (*models.Annotation, error) {
+	all, err := as.List()
+	if err != nil {
+		return nil, err
+	}
+	for _, annotation := range all {
+		if annotation.ID == id {
+			return annotation, nil
+		}
+	}
+	return nil, fmt.Errorf("annotation %q not found", id)
+}
+
+// Create stores a new annotation, assigning its ID and timestamps.
+func (as *AnnotationStore) Create(annotation *models.Annotation) error {
+	if annotation == nil {
+		return fmt.Errorf("annotation is required")
+	}
+	annotation.DocPath = normalizeDocPath(annotation.DocPath)
+	if err := annotation.Validate(); err != nil {
+		return err
+	}
+	as.mu.Lock()
+	defer as.mu.Unlock()
+	annotations, err := as.load(annotation.DocPath)
+	if err != nil {
+		return err
+	}
+	now := time.Now().UTC()
+	annotation.ID = models.NewAnnotationID()
+	annotation.CreatedAt = now
+	annotation.UpdatedAt = now
+	annotation.Resolved = false
+	annotation.ResolvedBy = ""
+	annotation.ResolvedAt = nil
+	if annotation.Replies == nil {
+		annotation.Replies = []models.AnnotationReply{}
+	}
+	return as.save(annotation.DocPath, append(annotations, annotation))
+}
+
+// Update applies mutate to the annotation with id and saves it. An error
+// from mutate aborts the update.
+func (as *AnnotationStore) Update(id string, mutate func(*models.Annotation) error) (*models.Annotation, error) {
+	as.mu.Lock()
+	defer as.mu.Unlock()
+	annotations, index, err := as.find(id)
+	if err != nil {
+		return nil, err
+	}
+	annotation := annotations[index]
+	if err := mutate(annotation); err != nil {
+		return nil, err
+	}
+	if err := annotation.Validate(); err != nil {
+		return nil, err
+	}
+	annotation.UpdatedAt = time.Now().UTC()
+	if err := as.save(annotation.DocPath, annotations); err != nil {
+		return nil, err
+	}
+	return annotation, nil
+}
+
+// Reply appends a message to an annotation's thread.
+func (as *AnnotationStore) Reply(id, author, content string) (*models.Annotation, error) {
+	content = strings.TrimSpace(content)
+	if content == "" {
+		return nil, fmt.Errorf("reply content is required")
+	}
+	return as.Update(id, func(annotation *models.Annotation) error {
+		annotation.Replies = append(annotation.Replies, models.AnnotationReply{
+			ID:        models.NewAnnotationID(),
+			Author:    author,
+			Content:   content,
+			CreatedAt: time.Now().UTC(),
+		})
+		return nil
+	})
+}
+
+// SetResolved resolves or reopens an annotation.
+func (as *AnnotationStore) SetResolved(id string, resolved bool, by string) (*models.Annotation, error) {
+	return as.Update(id, func(annotation *models.Annotation) error {
+		annotation.Resolved = resolved
+		if resolved {
+			now := time.Now().UTC()
+			annotation.ResolvedBy = by
+			annotation.ResolvedAt = &now
+		} else {
+			annotation.ResolvedBy = ""
+			annotation.ResolvedAt = nil
+		}
+		return nil
+	})
+}
+
+// Delete removes an annotation and its thread.
+func (as *AnnotationStore) Delete(id string) (*models.Annotation, error) {
+	as.mu.Lock()
+	defer as.mu.Unlock()
+	annotations, index, err := as.find(id)
+	if err != nil {
+		return nil, err
+	}
+	removed := annotations[index]
+	remaining := append(annotations[:index:index], annotations[index+1:]...)
+	if err := as.save(removed.DocPath, remaining); err != nil {
+		return nil, err
+	}
+	return removed, nil
+}
+
+// DeleteResolved removes every resolved annotation and returns them.
+func (as *AnnotationStore) DeleteResolved() ([]*models.Annotation, error) {
+	as.mu.Lock()
+	defer as.mu.Unlock()
+	paths, err := as.docPaths()
+	if err != nil {
+		return nil, err
+	}
+	var removed []*models.Annotation
+	for _, path := range paths {
+		annotations, err := as.load(path)
+		if err != nil {
+			return nil, err
+		}
+		var kept []*models.Annotation
+		for _, annotation := range annotations {
+			if annotation.Resolved {
+				removed = append(removed, annotation)
+			} else {
+				kept = append(kept, annotation)
+			}
+		}
+		if len(kept) != len(annotations) {
+			if err := as.save(path, kept); err != nil {
+				return nil, err
+			}
+		}
+	}
+	return removed, nil
+}
+
+// MoveDoc carries a doc's annotations over to its new path.
+func (as *AnnotationStore) MoveDoc(oldPath, newPath string) error {
+	as.mu.Lock()
+	defer as.mu.Unlock()
+	annotations, err := as.load(oldPath)
+	if err != nil || len(annotations) == 0 {
+		return err
+	}
+	existing, err := as.load(newPath)
+	if err != nil {
+		return err
+	}
+	for _, annotation := range annotations {
+		annotation.DocPath = normalizeDocPath(newPath)
+	}
+	if err := as.save(newPath, append(existing, annotations...)); err != nil {
+		return err
+	}
+	return as.save(oldPath, nil)
+}
+
+// DeleteDoc removes all annotations of a deleted doc.
+func (as *AnnotationStore) DeleteDoc(docPath string) error {
+	as.mu.Lock()
+	defer as.mu.Unlock()
+	return as.save(docPath, nil)
+}
+
+// Reanchor locates each of the doc's annotations in content, its current
+// text, and saves the ones whose position or orphaned state changed. The
+// anchoring runs without the store lock; only the changed positions are
+// written back, onto the annotations as they are by then, so a reply or
+// resolve that landed meanwhile is kept.
+func (as *AnnotationStore) Reanchor(docPath, content string) ([]*models.Annotation, error) {
+	as.mu.Lock()
+	annotations, err := as.load(docPath)
+	as.mu.Unlock()
+	if err != nil {
+		return nil, err
+	}
+	moved := make(map[string]*models.Annotation)
+	for _, annotation := range annotations {
+		if anchorAnnotation(annotation, content) {
+			moved[annotation.ID] = annotation
+		}
+	}
+	if len(moved) == 0 {
+		return annotations, nil
+	}
+
+	as.mu.Lock()
+	defer as.mu.Unlock()
+	current, err := as.load(docPath)
+	if err != nil {
+		return nil, err
+	}
+	for _, annotation := range current {
+		if anchored, ok := moved[annotation.ID]; ok {
+			annotation.Orphaned = anchored.Orphaned
+			annotation.StartLine, annotation.StartChar = anchored.StartLine, anchored.StartChar
+			annotation.EndLine, annotation.EndChar = anchored.EndLine, anchored.EndChar
+		}
+	}
+	if err := as.save(docPath, current); err != nil {
+		return nil, err
+	}
+	return annotations, nil
+}
+
+func (as *AnnotationStore) find(id string) ([]*models.Annotation, int, error) {
+	paths, err := as.docPaths()
+	if err != nil {
+		return nil, -1, err
+	}
+	for _, path := range paths {
+		annotations, err := as.load(path)
+		if err != nil {
+			return nil, -1, err
+		}
+		for i, annotation := range annotations {
+			if annotation.ID == id {
+				return annotations, i, nil
+			}
+		}
+	}
+	return nil, -1, fmt.Errorf("annotation %q not found", id)
+}
+
+// DocAnnotations returns a doc's annotations re-anchored against the doc's
+// current content. Annotations of a doc that no longer exists are orphaned.
+func (s *Store) DocAnnotations(docPath string) ([]*models.Annotation, error) {
+	content := ""
+	if doc, err := s.Docs.Get(docPath); err == nil {
+		content = doc.Content
+	}
+	return s.Annotations.Reanchor(docPath, content)
+}
+
+// AllAnnotations returns every annotation, re-anchored like DocAnnotations.
+func (s *Store) AllAnnotations() ([]*models.Annotation, error) {
+	s.Annotations.mu.Lock()
+	paths, err := s.Annotations.docPaths()
+	s.Annotations.mu.Unlock()
+	if err != nil {
+		return nil, err
+	}
+	var all []*models.Annotation
+	for _, path := range paths {
+		annotations, err := s.DocAnnotations(path)
+		if err != nil {
+			return nil, err
+		}
+		all = append(all, annotations...)
+	}
+	return all, nil
+}
+
+// anchorAnnotation finds the annotation's text in content and updates its
+// position. When the text occurs more than once, the occurrence whose
+// surroundings best match the saved context wins, then the one nearest the
+// previous position. It reports whether anything changed.
+func anchorAnnotation(annotation *models.Annotation, content string) bool {
+	text := annotation.SelectedText
+	best, bestScore, bestDistance := -1, -1, 0
+	// line is the 1-based line of lineAt, the previous occurrence, so each
+	// newline is counted once across all occurrences.
+	line, lineAt := 1, 0
+	for from := 0; text != "" && from <= len(content); {
+		idx := strings.Index(content[from:], text)
+		if idx < 0 {
+			break
+		}
+		idx += from
+		line += strings.Count(content[lineAt:idx], "\n")
+		lineAt = idx
+		score := commonSuffixRunes(content[:idx], annotation.ContextBefore) +
+			commonPrefixRunes(content[idx+len(text):], annotation.ContextAfter)
+		distance := line - annotation.StartLine
+		if distance < 0 {
+			distance = -distance
+		}
+		if score > bestScore || (score == bestScore && distance < bestDistance) {
+			best, bestScore, bestDistance = idx, score, distance
+		}
+		_, size := utf8.DecodeRuneInString(content[idx:])
+		from = idx + size
+	}
+
+	if best < 0 {
+		changed := !annotation.Orphaned
+		annotation.Orphaned = true
+		return changed
+	}
+	startLine, startChar := utf16Position(content, best)
+	endLine, endChar := utf16Position(content, best+len(text))
+	changed := annotation.Orphaned ||
+		annotation.StartLine != startLine || annotation.StartChar != startChar ||
+		annotation.EndLine != endLine || annotation.EndChar != endChar
+	annotation.Orphaned = false
+	annotation.StartLine, annotation.StartChar = startLine, startChar
+	annotation.EndLine, annotation.EndChar = endLine, endChar
+	return changed
+}
+
+// utf16Position converts a byte offset into a 1-based line and a 0-based
+// UTF-16 offset within that line.
+func utf16Position(text string, offset int) (int, int) {
+	before := text[:offset]
+	lineStart := strings.LastIndex(before, "\n") + 1
+	return strings.Count(before, "\n") + 1, len(utf16.Encode([]rune(before[lineStart:])))
+}
+
+// commonSuffixRunes counts the runes a and b share at their ends. It walks
+// back from the ends, so it costs at most len(b) runes however long a is.
+func commonSuffixRunes(a, b string) int {
+	n := 0
+	for len(a) > 0 && len(b) > 0 {
+		ra, sa := utf8.DecodeLastRuneInString(a)
+		rb, sb := utf8.DecodeLastRuneInString(b)
+		if ra != rb {
+			break
+		}
+		n++
+		a, b = a[:len(a)-sa], b[:len(b)-sb]
+	}
+	return n
+}
+
+// commonPrefixRunes counts the runes a and b share at their starts.
+func commonPrefixRunes(a, b string) int {
+	n := 0
+	for len(a) > 0 && len(b) > 0 {
+		ra, sa := utf8.DecodeRuneInString(a)
+		rb, sb := utf8.DecodeRuneInString(b)
+		if ra != rb {
+			break
+		}
+		n++
+		a, b = a[sa:], b[sb:]
+	}
+	return n
+}
@@ -0,0 +1,199 @@
+package storage
+
+import (
+	"os"
+	"path/filepath"
+	"testing"
+	"time"
+
+	"github.com/howznguyen/knowns/internal/models"
+)
+
+func newAnnotationStore(t *testing.T) *Store {
+	t.Helper()
+	t.Setenv("HOME", t.TempDir())
+
+	store := NewStore(filepath.Join(t.TempDir(), ".knowns"))
+	if err := store.Init("annotation-test"); err != nil {
+		t.Fatalf("init store: %v", err)
+	}
+	now := time.Now().UTC()
+	if err := store.Docs.Create(&models.Doc{
+		Path:      "specs/auth",
+		Title:     "Auth",
+		Content:   "# Auth\n\nTokens expire after one hour.\nRefresh tokens expire after one week.\n",
+		CreatedAt: now,
+		UpdatedAt: now,
+	}); err != nil {
+		t.Fatalf("create doc: %v", err)
+	}
+	return store
+}
+
+func createAnnotation(t *testing.T, store *Store) *models.Annotation {
+	t.Helper()
+	annotation := &models.Annotation{
+		DocPath:       "specs/auth.md",
+		SelectedText:  "expire",
+		Type:          models.AnnotationTypeComment,
+		Content:       "Make this configurable",
+		Author:        "alice",
+		ContextBefore: "Refresh tokens ",
+		ContextAfter:  " after one week.",
+	}
+	if err := store.Annotations.Create(annotation); err != nil {
+		t.Fatalf("Create() error = %v", err)
+	}
+	return annotation
+}
+
+func TestAnnotationStoreCreateReplyAndResolve(t *testing.T) {
+	store := newAnnotationStore(t)
+	annotation := createAnnotation(t, store)
+
+	if annotation.ID == "" || annotation.DocPath != "specs/auth" || annotation.CreatedAt.IsZero() {
+		t.Fatalf("created annotation = %+v, want ID, normalized doc path and timestamps", annotation)
+	}
+	if _, err := os.Stat(filepath.Join(store.Root, "annotations", "specs", "auth.json")); err != nil {
+		t.Fatalf("annotation file missing: %v", err)
+	}
+
+	if _, err := store.Annotations.Reply(annotation.ID, "agent", "Added a config key"); err != nil {
+		t.Fatalf("Reply() error = %v", err)
+	}
+	if _, err := store.Annotations.Reply(annotation.ID, "agent", "  "); err == nil {
+		t.Fatal("Reply() with empty content succeeded, want error")
+	}
+	resolved, err := store.Annotations.SetResolved(annotation.ID, true, "agent")
+	if err != nil {
+		t.Fatalf("SetResolved() error = %v", err)
+	}
+	if !resolved.Resolved || resolved.ResolvedBy != "agent" || resolved.ResolvedAt == nil {
+		t.Fatalf("resolved annotation = %+v", resolved)
+	}
+
+	loaded, err := store.Annotations.Get(annotation.ID)
+	if err != nil {
+		t.Fatalf("Get() error = %v", err)
+	}
+	if len(loaded.Replies) != 1 || loaded.Replies[0].Author != "agent" || loaded.Replies[0].Content != "Added a config key" {
+		t.Fatalf("replies = %+v, want the agent reply", loaded.Replies)
+	}
+	if !loaded.Resolved {
+		t.Fatal("loaded annotation is not resolved")
+	}
+
+	reopened, err := store.Annotations.SetResolved(annotation.ID, false, "alice")
+	if err != nil {
+		t.Fatalf("reopen error = %v", err)
+	}
+	if reopened.Resolved || reopened.ResolvedBy != "" || reopened.ResolvedAt != nil {
+		t.Fatalf("reopened annotation = %+v", reopened)
+	}
+}
+
+func TestAnnotationStoreReanchorsAfterEdit(t *testing.T) {
+	store := newAnnotationStore(t)
+	annotation := createAnnotation(t, store)
+
+	annotations, err := store.DocAnnotations("specs/auth")
+	if err != nil {
+		t.Fatalf("DocAnnotations() error = %v", err)
+	}
+	// "expire" occurs on lines 3 and 4; the context picks the refresh token line.
+	if got := annotations[0]; got.StartLine != 4 || got.StartChar != 15 || got.EndLine != 4 || got.EndChar != 21 || got.Orphaned {
+		t.Fatalf("anchored annotation = %+v, want line 4 chars 15-21", got)
+	}
+
+	doc, err := store.Docs.Get("specs/auth")
+	if err != nil {
+		t.Fatalf("get doc: %v", err)
+	}
+	doc.Content = "# Auth\n\n## Lifetimes\n\nTokens expire after one hour.\n– Refresh tokens expire after one week.\n"
+	if err := store.Docs.Update(doc); err != nil {
+		t.Fatalf("update doc: %v", err)
+	}
+	annotations, err = store.DocAnnotations("specs/auth")
+	if err != nil {
+		t.Fatalf("DocAnnotations() error = %v", err)
+	}
+	if got := annotations[0]; got.StartLine != 6 || got.StartChar != 17 || got.EndChar != 23 {
+		t.Fatalf("re-anchored annotation = %+v, want line 6 chars 17-23", got)
+	}
+	saved, err := store.Annotations.Get(annotation.ID)
+	if err != nil {
+		t.Fatalf("Get() error = %v", err)
+	}
+	if saved.StartLine != 6 {
+		t.Fatalf("saved StartLine = %d, want the re-anchored position persisted", saved.StartLine)
+	}
+
+	doc.Content = "# Auth\n\nTokens last one hour.\n"
+	if err := store.Docs.Update(doc); err != nil {
+		t.Fatalf("update doc: %v", err)
+	}
+	annotations, err = store.DocAnnotations("specs/auth")
+	if err != nil {
+		t.Fatalf("DocAnnotations() error = %v", err)
+	}
+	if !annotations[0].Orphaned || annotations[0].StartLine != 6 {
+		t.Fatalf("annotation = %+v, want orphaned at its last position", annotations[0])
+	}
+}
+
+func TestAnnotationStoreFollowsDocMoveAndDelete(t *testing.T) {
+	store := newAnnotationStore(t)
+	annotation := createAnnotation(t, store)
+
+	if _, err := store.MoveDoc("specs/auth", "specs/authentication", DocRevisionOptions{Actor: "test"}); err != nil {
+		t.Fatalf("MoveDoc() error = %v", err)
+	}
+	moved, err := store.Annotations.Get(annotation.ID)
+	if err != nil {
+		t.Fatalf("Get() after move error = %v", err)
+	}
+	if moved.DocPath != "specs/authentication" {
+		t.Fatalf("DocPath = %q, want specs/authentication", moved.DocPath)
+	}
+	if old, _ := store.Annotations.ListDoc("specs/auth"); len(old) != 0 {
+		t.Fatalf("old doc still has annotations: %+v", old)
+	}
+
+	if err := store.Annotations.DeleteDoc("specs/authentication"); err != nil {
+		t.Fatalf("DeleteDoc() error = %v", err)
+	}
+	if _, err := store.Annotations.Get(annotation.ID); err == nil {
+		t.Fatal("annotation still exists after its doc was deleted")
+	}
+}
+
+func TestAnnotationStoreDeleteResolved(t *testing.T) {
+	store := newAnnotationStore(t)
+	open := createAnnotation(t, store)
+	done := createAnnotation(t, store)
+	if _, err := store.Annotations.SetResolved(done.ID, true, "alice"); err != nil {
+		t.Fatalf("SetResolved() error = %v", err)
+	}
+
+	removed, err := store.Annotations.DeleteResolved()
+	if err != nil {
+		t.Fatalf("DeleteResolved() error = %v", err)
+	}
+	if len(removed) != 1 || removed[0].ID != done.ID {
+		t.Fatalf("removed = %+v, want only the resolved annotation", removed)
+	}
+	remaining, err := store.Annotations.List()
+	if err != nil {
+		t.Fatalf("List() error = %v", err)
+	}
+	if len(remaining) != 1 || remaining[0].ID != open.ID {
+		t.Fatalf("remaining = %+v, want only the open annotation", remaining)
+	}
+}
+
+func TestAnnotationStoreRejectsPathTraversal(t *testing.T) {
+	store := newAnnotationStore(t)
+	if _, err := store.Annotations.ListDoc("../config"); err == nil {
+		t.Fatal("ListDoc(../config) succeeded, want error")
+	}
+}
@@ -6,6 +6,7 @@ import (
 	"fmt"
 	"os"
 	"path/filepath"
+	"slices"
 	"sync"
 	"time"
 
@@ -108,6 +109,7 @@ type AuditFilter struct {
 	ActionClass string
 	Result      string
 	Project     string
+	EntityRef   string
 	Since       *time.Time
 	Until       *time.Time
 }
@@ -238,6 +240,9 @@ func filterEvents(events []*models.AuditEvent, f *AuditFilter) []*models.AuditEv
 		if f.Project != "" && e.ProjectRoot != f.Project {
 			continue
 		}
+		if f.EntityRef != "" && !slices.Contains(e.EntityRefs, f.EntityRef) {
+			continue
+		}
 		if f.Since != nil && e.Timestamp.Before(*f.Since) {
 			continue
 		}
@@ -239,6 +239,17 @@ func (ds *DecisionStore) parseFile(absPath string) (*models.DecisionEntry, error
 	return parseDecisionContent(string(data))
 }
 
+// RenderDecisionMarkdown returns the canonical markdown file content of a
+// decision, as written to the decisions directory.
+func RenderDecisionMarkdown(decision *models.DecisionEntry) string {
+	return renderDecision(decision)
+}
+
+// ParseDecisionMarkdown parses canonical decision markdown.
+func ParseDecisionMarkdown(content string) (*models.DecisionEntry, error) {
+	return parseDecisionContent(content)
+}
+
 func parseDecisionContent(content string) (*models.DecisionEntry, error) {
 	yamlBlock, body := splitFrontmatter(content)
 	if yamlBlock == "" {
@@ -0,0 +1,166 @@
+package storage
+
+import (
+	"fmt"
+	"strings"
+
+	"github.com/howznguyen/knowns/internal/models"
+)
+
+// BlameDoc replays a doc's retained history and attributes each line of
+// current (the doc as stored on disk) to the revision that last changed it.
+// Lines that differ from the latest revision have no revision. A nil current
+// blames the latest retained revision instead.
+func (vs *VersionStore) BlameDoc(docPath string, current *models.Doc) (*models.DocBlame, error) {
+	h, err := vs.GetDocHistory(docPath)
+	if err != nil {
+		return nil, err
+	}
+	if len(h.Versions) == 0 {
+		return nil, fmt.Errorf("doc history is empty")
+	}
+
+	state := &models.Doc{Path: firstNonEmpty(h.DocPath, h.CurrentPath), Tags: []string{}}
+	var lines []string
+	var owners []int
+	for i, version := range h.Versions {
+		applyDocVersionState(state, version)
+		lines, owners = reattributeLines(lines, owners, splitBlameLines(state.Content), i)
+	}
+	content := state.Content
+	if current != nil {
+		content = current.Content
+		lines, owners = reattributeLines(lines, owners, splitBlameLines(content), -1)
+	}
+
+	blame := &models.DocBlame{
+		DocID:         h.DocID,
+		DocPath:       h.DocPath,
+		CurrentPath:   h.CurrentPath,
+		Lines:         make([]models.DocBlameLine, len(lines)),
+		Sections:      []models.DocBlameSection{},
+		Revisions:     []models.DocBlameRevision{},
+		RetentionGaps: h.RetentionGaps,
+	}
+	used := map[int]bool{}
+	for i, text := range lines {
+		blame.Lines[i] = models.DocBlameLine{Line: i + 1, Text: text}
+		if owners[i] >= 0 {
+			blame.Lines[i].RevisionID = h.Versions[owners[i]].ID
+			used[owners[i]] = true
+		}
+	}
+	for _, section := range docMarkdownSections(content) {
+		latest := -1
+		for i := section.Start; i < section.End && i < len(owners); i++ {
+			// A working-copy line is newer than any revision.
+			if owners[i] < 0 {
+				latest = -1
+				break
+			}
+			latest = max(latest, owners[i])
+		}
+		entry := models.DocBlameSection{Title: section.Title, Level: section.Level, StartLine: section.Start + 1, EndLine: section.End}
+		if latest >= 0 {
+			entry.RevisionID = h.Versions[latest].ID
+		}
+		blame.Sections = append(blame.Sections, entry)
+	}
+	for i, version := range h.Versions {
+		if !used[i] {
+			continue
+		}
+		blame.Revisions = append(blame.Revisions, models.DocBlameRevision{
+			ID:           version.ID,
+			Version:      version.Version,
+			Timestamp:    version.Timestamp,
+			Actor:        firstNonEmpty(version.Actor, version.Author),
+			Actors:       version.Actors,
+			Source:       version.Source,
+			SessionID:    version.SessionID,
+			AuditEventID: version.AuditEventID,
+			Checkpoint:   version.Checkpoint,
+		})
+	}
+	return blame, nil
+}
+
+func splitBlameLines(content string) []string {
+	if content == "" {
+		return nil
+	}
+	return strings.Split(strings.TrimSuffix(content, "\n"), "\n")
+}
+
+// reattributeLines carries owners over to the lines of next that survive from
+// lines unchanged; every other line of next is owned by owner.
+func reattributeLines(lines []string, owners []int, next []string, owner int) ([]string, []int) {
+	nextOwners := make([]int, len(next))
+	for i := range nextOwners {
+		nextOwners[i] = owner
+	}
+	for i, j := range matchLines(lines, next) {
+		if j >= 0 {
+			nextOwners[j] = owners[i]
+		}
+	}
+	return next, nextOwners
+}
+
+// maxBlameMatchCells caps the LCS table matchLines builds for the changed
+// block between two revisions (8 MB of int32 cells).
+const maxBlameMatchCells = 2 << 20
+
+// matchLines maps each line of a to its line in b under a longest common
+// subsequence, or -1 when the line did not survive. When the changed block
+// between the common prefix and suffix is too large to align, none of it is
+// matched and the whole block goes to the newer revision.
+func matchLines(a, b []string) []int {
+	match := make([]int, len(a))
+	for i := range match {
+		match[i] = -1
+	}
+	prefix := 0
+	for prefix < len(a) && prefix < len(b) && a[prefix] == b[prefix] {
+		match[prefix] = prefix
+		prefix++
+	}
+	suffix := 0
+	for suffix < len(a)-prefix && suffix < len(b)-prefix && a[len(a)-1-suffix] == b[len(b)-1-suffix] {
+		match[len(a)-1-suffix] = len(b) - 1 - suffix
+		suffix++
+	}
+
+	midA := a[prefix : len(a)-suffix]
+	midB := b[prefix : len(b)-suffix]
+	if (len(midA)+1)*(len(midB)+1) > maxBlameMatchCells {
+		return match
+	}
+	// lcs[i][j] is the LCS length of midA[i:] and midB[j:].
+	lcs := make([][]int32, len(midA)+1)
+	for i := range lcs {
+		lcs[i] = make([]int32, len(midB)+1)
+	}
+	for i := len(midA) - 1; i >= 0; i-- {
+		for j := len(midB) - 1; j >= 0; j-- {
+			if midA[i] == midB[j] {
+				lcs[i][j] = lcs[i+1][j+1] + 1
+			} else {
+				lcs[i][j] = max(lcs[i+1][j], lcs[i][j+1])
+			}
+		}
+	}
+	for i, j := 0, 0; i < len(midA) && j < len(midB); {
+		switch {
+		case midA[i] == midB[j]:
+			match[prefix+i] = prefix + j
+			i++
+			j++
+		case lcs[i+1][j] >= lcs[i][j+1]:
+			i++
+		default:
+			j++
+		}
+	}
+	return match
+}
@@ -5,16 +5,29 @@ import (
 	"os"
 	"path/filepath"
 	"strings"
+	"sync"
 	"time"
 
 	"github.com/howznguyen/knowns/internal/models"
-	"github.com/howznguyen/knowns/internal/references"
 	"gopkg.in/yaml.v3"
 )
 
 // DocStore reads and writes doc files from .knowns/docs/ (and .knowns/imports/).
 type DocStore struct {
 	root string
+	// locks holds a *sync.Mutex per doc path; see LockPath.
+	locks sync.Map
+}
+
+// LockPath locks one doc path within this process and returns the unlock.
+// Writers that check a doc's hash before saving it hold the lock across the
+// check and the write, so two saves from the same copy cannot both pass.
+func (ds *DocStore) LockPath(path string) func() {
+	key := strings.Trim(strings.TrimSuffix(filepath.ToSlash(path), ".md"), "/")
+	value, _ := ds.locks.LoadOrStore(key, &sync.Mutex{})
+	mu := value.(*sync.Mutex)
+	mu.Lock()
+	return mu.Unlock
 }
 
 func (ds *DocStore) docsDir() string    { return filepath.Join(ds.root, "docs") }
@@ -214,85 +227,6 @@ func (ds *DocStore) Rename(oldPath string, doc *models.Doc) error {
 	return nil
 }
 
-// RewriteDocReferences rewrites @doc refs across local docs, tasks, and memories.
-func (ds *DocStore) RewriteDocReferences(oldPath, newPath string, taskStore *TaskStore, memoryStore *MemoryStore) error {
-	docs, err := ds.List()
-	if err != nil {
-		return err
-	}
-	for _, doc := range docs {
-		if doc.IsImported || doc.Path == newPath {
-			continue
-		}
-		fullDoc, err := ds.Get(doc.Path)
-		if err != nil {
-			continue
-		}
-		rewritten := references.RewriteDocPath(fullDoc.Content, oldPath, newPath)
-		if rewritten == fullDoc.Content {
-			continue
-		}
-		fullDoc.Content = rewritten
-		fullDoc.UpdatedAt = time.Now().UTC()
-		if err := ds.Update(fullDoc); err != nil {
-			return err
-		}
-	}
-	if taskStore != nil {
-		tasks, err := taskStore.List()
-		if err != nil {
-			return err
-		}
-		for _, task := range tasks {
-			updated := false
-			// Rewrite the spec field if it matches the old doc path.
-			if task.Spec == oldPath {
-				task.Spec = newPath
-				updated = true
-			}
-			description := references.RewriteDocPath(task.Description, oldPath, newPath)
-			if description != task.Description {
-				task.Description = description
-				updated = true
-			}
-			plan := references.RewriteDocPath(task.ImplementationPlan, oldPath, newPath)
-			if plan != task.ImplementationPlan {
-				task.ImplementationPlan = plan
-				updated = true
-			}
-			notes := references.RewriteDocPath(task.ImplementationNotes, oldPath, newPath)
-			if notes != task.ImplementationNotes {
-				task.ImplementationNotes = notes
-				updated = true
-			}
-			if updated {
-				task.UpdatedAt = time.Now().UTC()
-				if err := taskStore.Update(task); err != nil {
-					return err
-				}
-			}
-		}
-	}
-	if memoryStore != nil {
-		memories, err := memoryStore.List("")
-		if err != nil {
-			return err
-		}
-		for _, memory := range memories {
-			rewritten := references.RewriteDocPath(memory.Content, oldPath, newPath)
-			if rewritten == memory.Content {
-				continue
-			}
-			memory.Content = rewritten
-			memory.UpdatedAt = time.Now().UTC()
-			if err := memoryStore.Update(memory); err != nil {
-				return err
-			}
-		}
-	}
-	return nil
-}
-
 // Delete removes a doc file.
 func (ds *DocStore) Delete(path string) error {
 	path = strings.TrimSuffix(path, ".md")
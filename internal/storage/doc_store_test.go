@@ -8,7 +8,7 @@ import (
 	"github.com/howznguyen/knowns/internal/models"
 )
 
-func TestDocStoreRenameAndRewriteDocReferences(t *testing.T) {
+func TestStoreRenameDocRewritesReferences(t *testing.T) {
 	t.Setenv("HOME", t.TempDir())
 
 	root := filepath.Join(t.TempDir(), ".knowns")
@@ -62,22 +62,27 @@ func TestDocStoreRenameAndRewriteDocReferences(t *testing.T) {
 		t.Fatalf("create memory: %v", err)
 	}
 
+	annotation := &models.Annotation{DocPath: "guides/old", SelectedText: "content", Type: models.AnnotationTypeComment, Content: "Expand", Author: "alice"}
+	if err := store.Annotations.Create(annotation); err != nil {
+		t.Fatalf("create annotation: %v", err)
+	}
+
 	renamed := *oldDoc
 	renamed.Path = "guides/new"
-	renamed.UpdatedAt = time.Now().UTC()
+	renamed.Title = "New"
 
-	if err := store.Docs.Rename(oldDoc.Path, &renamed); err != nil {
+	if _, err := store.RenameDoc(oldDoc.Path, &renamed, DocRevisionOptions{Actor: "tester", Source: "cli"}); err != nil {
 		t.Fatalf("rename doc: %v", err)
 	}
-	if err := store.Docs.RewriteDocReferences(oldDoc.Path, renamed.Path, store.Tasks, store.Memory); err != nil {
-		t.Fatalf("rewrite doc refs: %v", err)
-	}
 
 	if _, err := store.Docs.Get("guides/old"); err == nil {
 		t.Fatal("expected old doc path to be removed after rename")
 	}
-	if _, err := store.Docs.Get("guides/new"); err != nil {
-		t.Fatalf("expected renamed doc at new path: %v", err)
+	if moved, err := store.Docs.Get("guides/new"); err != nil || moved.Title != "New" {
+		t.Fatalf("renamed doc = %+v, %v; want the edited doc at the new path", moved, err)
+	}
+	if moved, err := store.Annotations.Get(annotation.ID); err != nil || moved.DocPath != "guides/new" {
+		t.Fatalf("annotation = %+v, %v; want it moved with the doc", moved, err)
 	}
 
 	consumer, err := store.Docs.Get("guides/consumer")
@@ -102,6 +107,10 @@ func TestDocStoreRenameAndRewriteDocReferences(t *testing.T) {
 	if task.ImplementationNotes != "Notes @doc/guides/new#intro" {
 		t.Fatalf("task notes = %q", task.ImplementationNotes)
 	}
+	history, err := store.Versions.GetHistory("rag001")
+	if err != nil || len(history.Versions) != 1 || history.Versions[0].Author != "tester" {
+		t.Fatalf("task history = %+v, %v; want one version for the rewrite", history, err)
+	}
 
 	memory, err := store.Memory.Get("mem001")
 	if err != nil {
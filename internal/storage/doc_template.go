@@ -0,0 +1,92 @@
+package storage
+
+import (
+	"fmt"
+	"strings"
+	"time"
+
+	"github.com/howznguyen/knowns/internal/models"
+)
+
+// CheckTemplateDocPath reports why a rendered doc template cannot be created
+// at path, or nil when the path is free.
+func (s *Store) CheckTemplateDocPath(path string) error {
+	path = normalizeDocPath(path)
+	if path == "" {
+		return fmt.Errorf("doc path is required")
+	}
+	for _, segment := range strings.Split(path, "/") {
+		if segment == "" || segment == "." || segment == ".." {
+			return fmt.Errorf("invalid doc path %q", path)
+		}
+	}
+	if _, err := s.Docs.Get(path); err == nil {
+		return fmt.Errorf("doc %q already exists", path)
+	}
+	return nil
+}
+
+// CreateDocFromTemplate creates a rendered doc template: the doc with its
+// first revision and, when withTasks is set, the seeded tasks. Tasks flagged
+// as spec tasks are linked to the new doc.
+func (s *Store) CreateDocFromTemplate(rendered *models.RenderedTemplateDocument, withTasks bool, opts DocRevisionOptions) (*models.Doc, []*models.Task, error) {
+	if err := s.CheckTemplateDocPath(rendered.Path); err != nil {
+		return nil, nil, err
+	}
+
+	now := time.Now().UTC()
+	doc := &models.Doc{
+		Path:        normalizeDocPath(rendered.Path),
+		Title:       rendered.Title,
+		Description: rendered.Description,
+		Tags:        append([]string{}, rendered.Tags...),
+		Content:     rendered.Content,
+		CreatedAt:   now,
+		UpdatedAt:   now,
+	}
+	if doc.Title == "" {
+		doc.Title = doc.Path[strings.LastIndex(doc.Path, "/")+1:]
+	}
+	if err := s.Docs.Create(doc); err != nil {
+		return nil, nil, err
+	}
+	if err := s.Versions.SaveDocRevisionWithOptions(nil, doc, opts); err != nil {
+		return doc, nil, fmt.Errorf("save doc history: %w", err)
+	}
+
+	tasks := []*models.Task{}
+	if !withTasks {
+		return doc, tasks, nil
+	}
+	for _, seeded := range rendered.Tasks {
+		task := &models.Task{
+			ID:                 models.NewTaskID(),
+			Title:              seeded.Title,
+			Description:        seeded.Description,
+			Status:             "todo",
+			Priority:           seeded.Priority,
+			Labels:             append([]string{}, seeded.Labels...),
+			AcceptanceCriteria: []models.AcceptanceCriterion{},
+			CreatedAt:          now,
+			UpdatedAt:          now,
+		}
+		if task.Priority == "" {
+			task.Priority = "medium"
+		}
+		for _, text := range seeded.AcceptanceCriteria {
+			task.AcceptanceCriteria = append(task.AcceptanceCriteria, models.AcceptanceCriterion{Text: text})
+		}
+		if seeded.Spec {
+			task.Spec = doc.Path
+		}
+		if err := s.Tasks.Create(task); err != nil {
+			return doc, tasks, fmt.Errorf("create task %q: %w", task.Title, err)
+		}
+		_ = s.Versions.SaveVersion(task.ID, models.TaskVersion{
+			Changes:  s.Versions.TrackChanges(nil, task),
+			Snapshot: TaskToSnapshot(task),
+		})
+		tasks = append(tasks, task)
+	}
+	return doc, tasks, nil
+}
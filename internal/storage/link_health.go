@@ -0,0 +1,533 @@
+package storage
+
+import (
+	"fmt"
+	"path"
+	"sort"
+	"strings"
+	"time"
+	"unicode/utf8"
+
+	"github.com/howznguyen/knowns/internal/models"
+	"github.com/howznguyen/knowns/internal/references"
+)
+
+// linkField is a text field of a link source that may hold inline refs.
+type linkField struct {
+	name string
+	text *string
+}
+
+// linkSource is an entity whose fields are scanned for references and
+// rewritten by link repair.
+type linkSource struct {
+	kind   string
+	id     string
+	title  string
+	fields []linkField
+	// spec is the task's spec doc path, a doc link without an inline ref.
+	spec *string
+	save func(opts DocRevisionOptions) error
+}
+
+func (src *linkSource) location(field string) models.ReferenceLocation {
+	return models.ReferenceLocation{Kind: src.kind, ID: src.id, Title: src.title, Field: field}
+}
+
+// linkSources loads every entity whose references link repair may rewrite.
+// Imported docs and global memories are left out: they belong to other
+// projects and may point at docs that only exist there.
+func (s *Store) linkSources() ([]*linkSource, error) {
+	var sources []*linkSource
+
+	tasks, err := s.Tasks.List()
+	if err != nil {
+		return nil, err
+	}
+	for _, task := range tasks {
+		task := task
+		before := *task
+		sources = append(sources, &linkSource{
+			kind:  "task",
+			id:    task.ID,
+			title: task.Title,
+			fields: []linkField{
+				{"description", &task.Description},
+				{"plan", &task.ImplementationPlan},
+				{"notes", &task.ImplementationNotes},
+			},
+			spec: &task.Spec,
+			save: func(opts DocRevisionOptions) error {
+				task.UpdatedAt = time.Now().UTC()
+				if err := s.Tasks.Update(task); err != nil {
+					return err
+				}
+				return s.Versions.SaveVersion(task.ID, models.TaskVersion{
+					Author:   opts.Actor,
+					Changes:  s.Versions.TrackChanges(&before, task),
+					Snapshot: TaskToSnapshot(task),
+				})
+			},
+		})
+	}
+
+	docs, err := s.Docs.List()
+	if err != nil {
+		return nil, err
+	}
+	for _, doc := range docs {
+		if doc.IsImported {
+			continue
+		}
+		doc := doc
+		before := *doc
+		sources = append(sources, &linkSource{
+			kind:   "doc",
+			id:     doc.Path,
+			title:  doc.Title,
+			fields: []linkField{{"content", &doc.Content}},
+			save: func(opts DocRevisionOptions) error {
+				doc.UpdatedAt = time.Now().UTC()
+				if err := s.Docs.Update(doc); err != nil {
+					return err
+				}
+				return s.Versions.SaveDocRevisionWithOptions(&before, doc, opts)
+			},
+		})
+	}
+
+	memories, err := s.Memory.ListLocal()
+	if err != nil {
+		return nil, err
+	}
+	for _, memory := range memories {
+		memory := memory
+		sources = append(sources, &linkSource{
+			kind:   "memory",
+			id:     memory.ID,
+			title:  memory.Title,
+			fields: []linkField{{"content", &memory.Content}},
+			save: func(opts DocRevisionOptions) error {
+				memory.UpdatedAt = time.Now().UTC()
+				return s.Memory.UpdateWithRevision(memory, MemoryRevisionOptions{Actor: opts.Actor, Source: opts.Source, AuditEventID: opts.AuditEventID})
+			},
+		})
+	}
+
+	decisions, err := s.Decisions.List()
+	if err != nil {
+		return nil, err
+	}
+	for _, decision := range decisions {
+		decision := decision
+		fields := []linkField{
+			{"context", &decision.Context},
+			{"decision", &decision.Decision},
+			{"alternatives", &decision.AlternativesConsidered},
+			{"consequences", &decision.Consequences},
+			{"content", &decision.Content},
+		}
+		for i := range decision.Sources {
+			fields = append(fields, linkField{"sources", &decision.Sources[i]})
+		}
+		for i := range decision.RelatedDocs {
+			fields = append(fields, linkField{"relatedDocs", &decision.RelatedDocs[i]})
+		}
+		for i := range decision.RelatedTasks {
+			fields = append(fields, linkField{"relatedTasks", &decision.RelatedTasks[i]})
+		}
+		sources = append(sources, &linkSource{
+			kind:   "decision",
+			id:     decision.ID,
+			title:  decision.Title,
+			fields: fields,
+			save: func(DocRevisionOptions) error {
+				return s.Decisions.Update(decision)
+			},
+		})
+	}
+
+	return sources, nil
+}
+
+// forEachLinkRef calls fn for every reference in sources, including task spec
+// links, with the reference's location.
+func forEachLinkRef(sources []*linkSource, fn func(ref models.SemanticReference, loc models.ReferenceLocation)) {
+	for _, src := range sources {
+		for _, field := range src.fields {
+			text := *field.text
+			for _, located := range references.ExtractLocated(text) {
+				loc := src.location(field.name)
+				loc.Line, loc.Column = lineColumn(text, located.Offset)
+				loc.Raw = located.Reference.Raw
+				fn(located.Reference, loc)
+			}
+		}
+		if src.spec != nil && strings.TrimSpace(*src.spec) != "" {
+			loc := src.location("spec")
+			loc.Raw = *src.spec
+			fn(models.SemanticReference{Type: "doc", Target: *src.spec, Raw: *src.spec}, loc)
+		}
+	}
+}
+
+// CheckLinkHealth resolves every inline reference in local tasks, docs,
+// memories and decisions, and reports the ones that do not resolve, grouped by
+// target, with likely replacements.
+func (s *Store) CheckLinkHealth() (*models.LinkHealthReport, error) {
+	sources, err := s.linkSources()
+	if err != nil {
+		return nil, err
+	}
+
+	report := &models.LinkHealthReport{Sources: len(sources), Broken: []models.BrokenReference{}}
+	resolved := map[string]bool{}
+	broken := map[string]*models.BrokenReference{}
+	forEachLinkRef(sources, func(ref models.SemanticReference, loc models.ReferenceLocation) {
+		report.Checked++
+		target := ref.Target
+		if ref.Type == "doc" {
+			target = normalizeDocPath(target)
+		}
+		key := ref.Type + ":" + target
+		found, checked := resolved[key]
+		if !checked {
+			found = s.ResolveReference(ref).Found
+			resolved[key] = found
+		}
+		if found {
+			return
+		}
+		entry := broken[key]
+		if entry == nil {
+			entry = &models.BrokenReference{Type: ref.Type, Target: target, Canonical: "@" + ref.Type + "/" + target}
+			broken[key] = entry
+		}
+		entry.Locations = append(entry.Locations, loc)
+	})
+	if len(broken) == 0 {
+		return report, nil
+	}
+
+	targets := s.linkTargets()
+	for _, entry := range broken {
+		entry.Suggestions = s.suggestLinkTargets(entry.Type, entry.Target, targets[entry.Type])
+		report.Broken = append(report.Broken, *entry)
+	}
+	sort.Slice(report.Broken, func(i, j int) bool {
+		a, b := report.Broken[i], report.Broken[j]
+		if a.Type != b.Type {
+			return a.Type < b.Type
+		}
+		return a.Target < b.Target
+	})
+	return report, nil
+}
+
+// linkTarget is an existing entity a broken reference could point at.
+type linkTarget struct {
+	target string
+	title  string
+}
+
+func (s *Store) linkTargets() map[string][]linkTarget {
+	targets := map[string][]linkTarget{}
+	if tasks, err := s.Tasks.List(); err == nil {
+		for _, task := range tasks {
+			targets["task"] = append(targets["task"], linkTarget{task.ID, task.Title})
+		}
+	}
+	if docs, err := s.Docs.List(); err == nil {
+		for _, doc := range docs {
+			targets["doc"] = append(targets["doc"], linkTarget{doc.Path, doc.Title})
+		}
+	}
+	if memories, err := s.Memory.List(""); err == nil {
+		for _, memory := range memories {
+			targets["memory"] = append(targets["memory"], linkTarget{memory.ID, memory.Title})
+		}
+	}
+	if decisions, err := s.Decisions.List(); err == nil {
+		for _, decision := range decisions {
+			targets["decision"] = append(targets["decision"], linkTarget{decision.ID, decision.Title})
+		}
+	}
+	if templates, err := s.Templates.List(); err == nil {
+		for _, tmpl := range templates {
+			targets["template"] = append(targets["template"], linkTarget{tmpl.Name, tmpl.Name})
+		}
+	}
+	return targets
+}
+
+// suggestLinkTargets ranks replacements for a broken target: the doc's
+// current path when history shows it was renamed, docs with the same file
+// name elsewhere, case-only differences, then the closest names.
+func (s *Store) suggestLinkTargets(typ, target string, candidates []linkTarget) []models.ReferenceSuggestion {
+	suggestions := []models.ReferenceSuggestion{}
+	seen := map[string]bool{}
+	add := func(candidate linkTarget, reason string) {
+		if seen[candidate.target] {
+			return
+		}
+		seen[candidate.target] = true
+		suggestions = append(suggestions, models.ReferenceSuggestion{
+			Target: candidate.target,
+			Ref:    "@" + typ + "/" + candidate.target,
+			Title:  candidate.title,
+			Reason: reason,
+		})
+	}
+
+	if typ == "doc" {
+		if h, err := s.Versions.GetDocHistory(target); err == nil && h.CurrentPath != "" && h.CurrentPath != target {
+			if doc, err := s.Docs.Get(h.CurrentPath); err == nil {
+				add(linkTarget{doc.Path, doc.Title}, "renamed")
+			}
+		}
+		for _, candidate := range candidates {
+			if path.Base(candidate.target) == path.Base(target) {
+				add(candidate, "moved")
+			}
+		}
+	}
+
+	lower := strings.ToLower(target)
+	for _, candidate := range candidates {
+		if strings.ToLower(candidate.target) == lower {
+			add(candidate, "case")
+		}
+	}
+
+	type scored struct {
+		candidate linkTarget
+		score     float64
+	}
+	var similar []scored
+	for _, candidate := range candidates {
+		if seen[candidate.target] {
+			continue
+		}
+		if score := targetSimilarity(lower, strings.ToLower(candidate.target)); score >= 0.6 {
+			similar = append(similar, scored{candidate, score})
+		}
+	}
+	sort.SliceStable(similar, func(i, j int) bool { return similar[i].score > similar[j].score })
+	for i := 0; i < len(similar) && i < 3; i++ {
+		add(similar[i].candidate, "similar")
+	}
+	return suggestions
+}
+
+// RepairLinks applies fixes across local tasks, docs, memories and decisions.
+// Each changed entity is saved once; docs get a revision attributed to opts.
+func (s *Store) RepairLinks(fixes []models.LinkFix, opts DocRevisionOptions) (*models.LinkRepairResult, error) {
+	for i := range fixes {
+		fix := &fixes[i]
+		fix.From = strings.TrimSpace(fix.From)
+		fix.To = strings.TrimSpace(fix.To)
+		if fix.Type == "doc" {
+			fix.To = normalizeDocPath(fix.To)
+		}
+		if fix.Type == "" || fix.From == "" || fix.To == "" {
+			return nil, fmt.Errorf("link fix requires type, from and to")
+		}
+		if !s.ResolveReference(models.SemanticReference{Type: fix.Type, Target: fix.To}).Found {
+			return nil, fmt.Errorf("%s %q not found", fix.Type, fix.To)
+		}
+	}
+
+	sources, err := s.linkSources()
+	if err != nil {
+		return nil, err
+	}
+	if opts.Source == "" {
+		opts.Source = "link-repair"
+	}
+
+	result := &models.LinkRepairResult{Updated: []models.ReferenceLocation{}}
+	for _, src := range sources {
+		count := 0
+		var fields []string
+		touched := map[string]bool{}
+		touch := func(field string, n int) {
+			count += n
+			if !touched[field] {
+				touched[field] = true
+				fields = append(fields, field)
+			}
+		}
+		for _, fix := range fixes {
+			if !linkFixAppliesTo(fix, src) {
+				continue
+			}
+			for _, field := range src.fields {
+				rewritten, n := references.RewriteTarget(*field.text, fix.Type, fix.From, fix.To)
+				if n > 0 {
+					*field.text = rewritten
+					touch(field.name, n)
+				}
+			}
+			if fix.Type == "doc" && src.spec != nil && *src.spec != "" && normalizeDocPath(*src.spec) == normalizeDocPath(fix.From) {
+				*src.spec = fix.To
+				touch("spec", 1)
+			}
+		}
+		if count == 0 {
+			continue
+		}
+		if err := src.save(opts); err != nil {
+			return result, fmt.Errorf("save %s %s: %w", src.kind, src.id, err)
+		}
+		result.Rewritten += count
+		for _, field := range fields {
+			result.Updated = append(result.Updated, src.location(field))
+		}
+	}
+	return result, nil
+}
+
+func linkFixAppliesTo(fix models.LinkFix, src *linkSource) bool {
+	if len(fix.Sources) == 0 {
+		return true
+	}
+	for _, loc := range fix.Sources {
+		if loc.Kind == src.kind && loc.ID == src.id {
+			return true
+		}
+	}
+	return false
+}
+
+// DocInboundReferences lists every local reference to the doc at docPath.
+func (s *Store) DocInboundReferences(docPath string) ([]models.ReferenceLocation, error) {
+	sources, err := s.linkSources()
+	if err != nil {
+		return nil, err
+	}
+	docPath = normalizeDocPath(docPath)
+	inbound := []models.ReferenceLocation{}
+	forEachLinkRef(sources, func(ref models.SemanticReference, loc models.ReferenceLocation) {
+		if ref.Type == "doc" && normalizeDocPath(ref.Target) == docPath {
+			inbound = append(inbound, loc)
+		}
+	})
+	return inbound, nil
+}
+
+// PlanDocMove validates moving a doc to newPath and lists the inbound
+// references a move would rewrite, without changing anything.
+func (s *Store) PlanDocMove(oldPath, newPath string) (*models.DocMoveResult, error) {
+	newPath = normalizeDocPath(newPath)
+	if newPath == "" {
+		return nil, fmt.Errorf("new path is required")
+	}
+	doc, err := s.Docs.Get(oldPath)
+	if err != nil {
+		return nil, err
+	}
+	if doc.IsImported {
+		return nil, fmt.Errorf("imported doc %q cannot be moved", doc.Path)
+	}
+	if newPath == doc.Path {
+		return nil, fmt.Errorf("doc is already at %q", newPath)
+	}
+	if _, err := s.Docs.Get(newPath); err == nil {
+		return nil, fmt.Errorf("doc %q already exists", newPath)
+	}
+	inbound, err := s.DocInboundReferences(doc.Path)
+	if err != nil {
+		return nil, err
+	}
+	return &models.DocMoveResult{Doc: doc, OldPath: doc.Path, NewPath: newPath, Inbound: inbound}, nil
+}
+
+// MoveDoc moves a doc to newPath, records the rename in its history and
+// rewrites every inbound reference to the new path.
+func (s *Store) MoveDoc(oldPath, newPath string, opts DocRevisionOptions) (*models.DocMoveResult, error) {
+	doc, err := s.Docs.Get(oldPath)
+	if err != nil {
+		return nil, err
+	}
+	moved := *doc
+	moved.Path = newPath
+	return s.RenameDoc(oldPath, &moved, opts)
+}
+
+// RenameDoc saves doc, which may carry other edits too, at its new path. It
+// records one revision for the rename and the edits, moves the doc's
+// annotations and rewrites every inbound reference to the new path. Every
+// path change goes through here so none of them leaves stale links behind.
+func (s *Store) RenameDoc(oldPath string, doc *models.Doc, opts DocRevisionOptions) (*models.DocMoveResult, error) {
+	result, err := s.PlanDocMove(oldPath, doc.Path)
+	if err != nil {
+		return nil, err
+	}
+
+	oldDoc := *result.Doc
+	doc.Path = result.NewPath
+	doc.UpdatedAt = time.Now().UTC()
+	if err := s.Docs.Rename(oldDoc.Path, doc); err != nil {
+		return nil, err
+	}
+	if opts.Source == "" {
+		opts.Source = "move"
+	}
+	if err := s.Versions.SaveDocRevisionWithOptions(&oldDoc, doc, opts); err != nil {
+		return nil, fmt.Errorf("save doc history: %w", err)
+	}
+	if err := s.Annotations.MoveDoc(oldDoc.Path, result.NewPath); err != nil {
+		return nil, fmt.Errorf("move annotations: %w", err)
+	}
+
+	// The revision above carries the section edit; reference rewrites in
+	// other sources are not section edits.
+	opts.Section = ""
+	repair, err := s.RepairLinks([]models.LinkFix{{Type: "doc", From: oldDoc.Path, To: result.NewPath}}, opts)
+	if err != nil {
+		return nil, err
+	}
+	result.Rewritten = repair.Rewritten
+	if saved, err := s.Docs.Get(result.NewPath); err == nil {
+		*doc = *saved
+	}
+	result.Doc = doc
+	return result, nil
+}
+
+// lineColumn converts a byte offset into a 1-based line and column.
+func lineColumn(text string, offset int) (int, int) {
+	before := text[:offset]
+	lineStart := strings.LastIndex(before, "\n") + 1
+	return strings.Count(before, "\n") + 1, utf8.RuneCountInString(before[lineStart:]) + 1
+}
+
+// targetSimilarity is one minus the edit distance between a and b relative to
+// the longer of the two.
+func targetSimilarity(a, b string) float64 {
+	ra, rb := []rune(a), []rune(b)
+	longest := len(ra)
+	if len(rb) > longest {
+		longest = len(rb)
+	}
+	if longest == 0 {
+		return 1
+	}
+	prev := make([]int, len(rb)+1)
+	curr := make([]int, len(rb)+1)
+	for j := range prev {
+		prev[j] = j
+	}
+	for i := 1; i <= len(ra); i++ {
+		curr[0] = i
+		for j := 1; j <= len(rb); j++ {
+			cost := 1
+			if ra[i-1] == rb[j-1] {
+				cost = 0
+			}
+			curr[j] = min(prev[j]+1, curr[j-1]+1, prev[j-1]+cost)
+		}
+		prev, curr = curr, prev
+	}
+	return 1 - float64(prev[len(rb)])/float64(longest)
+}
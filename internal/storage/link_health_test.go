@@ -0,0 +1,121 @@
+package storage
+
+import (
+	"path/filepath"
+	"strings"
+	"testing"
+	"time"
+
+	"github.com/howznguyen/knowns/internal/models"
+)
+
+func newLinkHealthStore(t *testing.T) *Store {
+	t.Helper()
+	t.Setenv("HOME", t.TempDir())
+
+	store := NewStore(filepath.Join(t.TempDir(), ".knowns"))
+	if err := store.Init("link-health-test"); err != nil {
+		t.Fatalf("init store: %v", err)
+	}
+	now := time.Now().UTC()
+	for _, doc := range []*models.Doc{
+		{Path: "guides/setup", Title: "Setup", Content: "Setup steps.", CreatedAt: now, UpdatedAt: now},
+		{Path: "guides/consumer", Title: "Consumer", Content: "Intro\nSee @doc/guides/old-setup#install and @task/missing1.", CreatedAt: now, UpdatedAt: now},
+	} {
+		if err := store.Docs.Create(doc); err != nil {
+			t.Fatalf("create doc %s: %v", doc.Path, err)
+		}
+	}
+	if err := store.Tasks.Create(&models.Task{
+		ID:          "lnk001",
+		Title:       "Task",
+		Description: "Follow @doc/guides/old-setup{implements}",
+		Spec:        "guides/old-setup",
+		Status:      "todo",
+		Priority:    "medium",
+		CreatedAt:   now,
+		UpdatedAt:   now,
+	}); err != nil {
+		t.Fatalf("create task: %v", err)
+	}
+	return store
+}
+
+func TestCheckLinkHealthGroupsBrokenRefsWithLocations(t *testing.T) {
+	store := newLinkHealthStore(t)
+
+	report, err := store.CheckLinkHealth()
+	if err != nil {
+		t.Fatalf("CheckLinkHealth() error = %v", err)
+	}
+	if len(report.Broken) != 2 {
+		t.Fatalf("broken = %+v, want doc and task entries", report.Broken)
+	}
+
+	doc := report.Broken[0]
+	if doc.Type != "doc" || doc.Target != "guides/old-setup" || len(doc.Locations) != 3 {
+		t.Fatalf("doc entry = %+v, want three locations of guides/old-setup", doc)
+	}
+	var consumer *models.ReferenceLocation
+	for i := range doc.Locations {
+		if doc.Locations[i].ID == "guides/consumer" {
+			consumer = &doc.Locations[i]
+		}
+	}
+	if consumer == nil || consumer.Line != 2 || consumer.Column != 5 {
+		t.Fatalf("consumer location = %+v, want line 2 column 5", consumer)
+	}
+	if len(doc.Suggestions) == 0 || doc.Suggestions[0].Target != "guides/setup" {
+		t.Fatalf("doc suggestions = %+v, want guides/setup first", doc.Suggestions)
+	}
+
+	if task := report.Broken[1]; task.Type != "task" || task.Target != "missing1" {
+		t.Fatalf("task entry = %+v", task)
+	}
+}
+
+func TestMoveDocRewritesInboundReferences(t *testing.T) {
+	store := newLinkHealthStore(t)
+
+	plan, err := store.PlanDocMove("guides/setup", "guides/install")
+	if err != nil {
+		t.Fatalf("PlanDocMove() error = %v", err)
+	}
+	if len(plan.Inbound) != 0 {
+		t.Fatalf("inbound = %+v, want none before repair", plan.Inbound)
+	}
+
+	if _, err := store.RepairLinks([]models.LinkFix{{Type: "doc", From: "guides/old-setup", To: "guides/setup"}}, DocRevisionOptions{}); err != nil {
+		t.Fatalf("RepairLinks() error = %v", err)
+	}
+	result, err := store.MoveDoc("guides/setup", "guides/install", DocRevisionOptions{Actor: "test"})
+	if err != nil {
+		t.Fatalf("MoveDoc() error = %v", err)
+	}
+	if len(result.Inbound) != 3 || result.Rewritten != 3 {
+		t.Fatalf("move result = %+v, want three inbound refs rewritten", result)
+	}
+
+	consumer, err := store.Docs.Get("guides/consumer")
+	if err != nil {
+		t.Fatalf("get consumer: %v", err)
+	}
+	if !strings.Contains(consumer.Content, "@doc/guides/install#install") {
+		t.Fatalf("consumer content = %q", consumer.Content)
+	}
+	task, err := store.Tasks.Get("lnk001")
+	if err != nil {
+		t.Fatalf("get task: %v", err)
+	}
+	if task.Spec != "guides/install" || task.Description != "Follow @doc/guides/install{implements}" {
+		t.Fatalf("task = spec %q, description %q", task.Spec, task.Description)
+	}
+
+	h, err := store.Versions.GetDocHistory("guides/setup")
+	if err != nil || h.CurrentPath != "guides/install" {
+		t.Fatalf("history current path = %v, %v; want guides/install", h, err)
+	}
+	if _, err := store.MoveDoc("guides/consumer", "guides/install", DocRevisionOptions{}); err == nil {
+		t.Fatal("MoveDoc() onto an existing doc should fail")
+	}
+}
@@ -0,0 +1,377 @@
+package storage
+
+import (
+	"encoding/json"
+	"fmt"
+	"os"
+	"path/filepath"
+	"reflect"
+	"strings"
+	"time"
+
+	"github.com/howznguyen/knowns/internal/models"
+)
+
+// MemoryRevisionOptions carries context for memory history entries.
+type MemoryRevisionOptions struct {
+	Actor  string
+	Source string
+	// Resolution is the memory review resolution behind the write, with the
+	// other memories it involved in Related.
+	Resolution   string
+	Related      []string
+	RestoredFrom string
+	AuditEventID string
+	// OperationID marks the write as part of an undoable MemoryOperation.
+	OperationID string
+}
+
+// memoryTrackedFields lists the snapshot fields compared between revisions,
+// in the order their changes are reported.
+var memoryTrackedFields = []string{
+	"title", "layer", "category", "content", "status", "confidence", "lastVerified",
+	"ttlDays", "sources", "mergedInto", "rejectedReason", "tags", "metadata",
+}
+
+// historyPath returns the history file of a memory in layer. Histories live
+// beside the layer's memories, in .knowns/versions/ or ~/.knowns/versions/.
+func (ms *MemoryStore) historyPath(id, layer string) (string, error) {
+	var root string
+	switch layer {
+	case models.MemoryLayerProject:
+		root = ms.root
+	case models.MemoryLayerGlobal:
+		root = ms.globalRoot
+	default:
+		return "", fmt.Errorf("invalid memory layer: %q", layer)
+	}
+	return filepath.Join(root, "versions", "memory-"+id+".json"), nil
+}
+
+// historyPathFor locates the history of id: beside the memory when it exists,
+// otherwise wherever the history of a deleted memory was left.
+func (ms *MemoryStore) historyPathFor(id string) string {
+	if entry, err := ms.Get(id); err == nil {
+		if path, err := ms.historyPath(id, entry.Layer); err == nil {
+			return path
+		}
+	}
+	for _, layer := range []string{models.MemoryLayerProject, models.MemoryLayerGlobal} {
+		path, _ := ms.historyPath(id, layer)
+		if _, err := os.Stat(path); err == nil {
+			return path
+		}
+	}
+	path, _ := ms.historyPath(id, models.MemoryLayerProject)
+	return path
+}
+
+// GetHistory returns the full version history for a memory.
+// Returns an empty history (not an error) if no history file exists.
+func (ms *MemoryStore) GetHistory(id string) (*models.MemoryVersionHistory, error) {
+	return readMemoryHistory(ms.historyPathFor(id), id)
+}
+
+func readMemoryHistory(path, id string) (*models.MemoryVersionHistory, error) {
+	data, err := os.ReadFile(path)
+	if os.IsNotExist(err) {
+		return &models.MemoryVersionHistory{MemoryID: id, Versions: []models.MemoryVersion{}}, nil
+	}
+	if err != nil {
+		return nil, fmt.Errorf("read memory history %s: %w", id, err)
+	}
+	var h models.MemoryVersionHistory
+	if err := json.Unmarshal(data, &h); err != nil {
+		return nil, fmt.Errorf("parse memory history %s: %w", id, err)
+	}
+	if h.Versions == nil {
+		h.Versions = []models.MemoryVersion{}
+	}
+	return &h, nil
+}
+
+// recordRevision appends a revision for the write that turned oldEntry into
+// newEntry to the history at path. oldEntry is nil for creation. Writes that
+// change no tracked field are not recorded.
+func (ms *MemoryStore) recordRevision(path string, oldEntry, newEntry *models.MemoryEntry, opts MemoryRevisionOptions) error {
+	changes := trackMemoryChanges(oldEntry, newEntry)
+	if oldEntry != nil && len(changes) == 0 {
+		return nil
+	}
+	h, err := readMemoryHistory(path, newEntry.ID)
+	if err != nil {
+		return err
+	}
+	if oldEntry != nil && len(h.Versions) == 0 {
+		// Memories written before history was kept start from a baseline of
+		// their prior state, so the first recorded change can be undone.
+		appendMemoryVersion(h, models.MemoryVersion{
+			Timestamp:  oldEntry.UpdatedAt,
+			Source:     "baseline",
+			NewHash:    hashSnapshot(MemoryToSnapshot(oldEntry)),
+			Checkpoint: true,
+			Changes:    trackMemoryChanges(nil, oldEntry),
+			Snapshot:   MemoryToSnapshot(oldEntry),
+		})
+	}
+	version := models.MemoryVersion{
+		Actor:        opts.Actor,
+		Source:       opts.Source,
+		Resolution:   opts.Resolution,
+		Related:      opts.Related,
+		RestoredFrom: opts.RestoredFrom,
+		OperationID:  opts.OperationID,
+		AuditEventID: opts.AuditEventID,
+		NewHash:      hashSnapshot(MemoryToSnapshot(newEntry)),
+		Checkpoint:   oldEntry == nil,
+		Changes:      changes,
+		Snapshot:     MemoryToSnapshot(newEntry),
+	}
+	if oldEntry != nil {
+		version.BaseHash = hashSnapshot(MemoryToSnapshot(oldEntry))
+	}
+	appendMemoryVersion(h, version)
+
+	if err := os.MkdirAll(filepath.Dir(path), 0755); err != nil {
+		return fmt.Errorf("mkdir versions: %w", err)
+	}
+	return writeJSON(path, h)
+}
+
+func appendMemoryVersion(h *models.MemoryVersionHistory, version models.MemoryVersion) {
+	h.CurrentVersion++
+	version.ID = fmt.Sprintf("v%d", h.CurrentVersion)
+	version.Version = h.CurrentVersion
+	version.MemoryID = h.MemoryID
+	if version.Timestamp.IsZero() {
+		version.Timestamp = time.Now().UTC()
+	}
+	h.Versions = append(h.Versions, version)
+}
+
+// moveHistory carries a memory's history along when it changes layer.
+func (ms *MemoryStore) moveHistory(id, oldLayer, newLayer string) error {
+	oldPath, err := ms.historyPath(id, oldLayer)
+	if err != nil {
+		return err
+	}
+	newPath, err := ms.historyPath(id, newLayer)
+	if err != nil {
+		return err
+	}
+	data, err := os.ReadFile(oldPath)
+	if os.IsNotExist(err) {
+		return nil
+	}
+	if err != nil {
+		return fmt.Errorf("read memory history %s: %w", id, err)
+	}
+	if err := os.MkdirAll(filepath.Dir(newPath), 0755); err != nil {
+		return fmt.Errorf("mkdir versions: %w", err)
+	}
+	if err := atomicWrite(newPath, data); err != nil {
+		return err
+	}
+	_ = os.Remove(oldPath)
+	return nil
+}
+
+// ResolveState returns the memory as recorded by revisionID. An empty
+// revisionID resolves the latest revision.
+func (ms *MemoryStore) ResolveState(id, revisionID string) (*models.MemoryEntry, error) {
+	h, err := ms.GetHistory(id)
+	if err != nil {
+		return nil, err
+	}
+	idx, err := findMemoryVersionIndex(h, revisionID)
+	if err != nil {
+		return nil, err
+	}
+	entry := memoryFromSnapshot(h.Versions[idx].Snapshot)
+	entry.ID = id
+	return entry, nil
+}
+
+// GetRevisionDiff returns the change set of a memory revision. An empty
+// revisionID resolves to the latest revision.
+func (ms *MemoryStore) GetRevisionDiff(id, revisionID string) (*models.MemoryRevisionDiff, error) {
+	h, err := ms.GetHistory(id)
+	if err != nil {
+		return nil, err
+	}
+	idx, err := findMemoryVersionIndex(h, revisionID)
+	if err != nil {
+		return nil, err
+	}
+	version := h.Versions[idx]
+	previousID := ""
+	if idx > 0 {
+		previousID = h.Versions[idx-1].ID
+	}
+	return &models.MemoryRevisionDiff{
+		MemoryID:           id,
+		RevisionID:         version.ID,
+		PreviousRevisionID: previousID,
+		Version:            version,
+		Checkpoint:         version.Checkpoint,
+		Changes:            version.Changes,
+	}, nil
+}
+
+// Restore puts the memory back to the state recorded by revisionID and records
+// that as a new revision. The memory stays in its current layer.
+func (ms *MemoryStore) Restore(id, revisionID string, opts MemoryRevisionOptions) (*models.MemoryEntry, error) {
+	current, err := ms.Get(id)
+	if err != nil {
+		return nil, err
+	}
+	h, err := ms.GetHistory(id)
+	if err != nil {
+		return nil, err
+	}
+	idx, err := findMemoryVersionIndex(h, revisionID)
+	if err != nil {
+		return nil, err
+	}
+	historical := memoryFromSnapshot(h.Versions[idx].Snapshot)
+
+	restored := *current
+	restored.Title = historical.Title
+	restored.Category = historical.Category
+	restored.Content = historical.Content
+	restored.Status = historical.Status
+	restored.Confidence = historical.Confidence
+	restored.LastVerified = historical.LastVerified
+	restored.TTLDays = historical.TTLDays
+	restored.Sources = historical.Sources
+	restored.MergedInto = historical.MergedInto
+	restored.RejectedReason = historical.RejectedReason
+	restored.Tags = historical.Tags
+	restored.Metadata = historical.Metadata
+
+	if opts.Source == "" {
+		opts.Source = "restore"
+	}
+	opts.RestoredFrom = h.Versions[idx].ID
+	if err := ms.UpdateWithRevision(&restored, opts); err != nil {
+		return nil, err
+	}
+	return &restored, nil
+}
+
+func findMemoryVersionIndex(h *models.MemoryVersionHistory, revisionID string) (int, error) {
+	if h == nil || len(h.Versions) == 0 {
+		return -1, fmt.Errorf("memory history is empty")
+	}
+	target := strings.TrimSpace(revisionID)
+	if target == "" {
+		return len(h.Versions) - 1, nil
+	}
+	for i, version := range h.Versions {
+		if version.ID == target || fmt.Sprintf("%d", version.Version) == target || fmt.Sprintf("v%d", version.Version) == target {
+			return i, nil
+		}
+	}
+	return -1, fmt.Errorf("revision %q not found", revisionID)
+}
+
+// trackMemoryChanges compares two memories field by field. oldEntry may be nil
+// (for the initial creation version).
+func trackMemoryChanges(oldEntry, newEntry *models.MemoryEntry) []models.MemoryChange {
+	oldSnap := map[string]any{}
+	if oldEntry != nil {
+		oldSnap = MemoryToSnapshot(oldEntry)
+	}
+	newSnap := MemoryToSnapshot(newEntry)
+	var changes []models.MemoryChange
+	for _, field := range memoryTrackedFields {
+		if !reflect.DeepEqual(oldSnap[field], newSnap[field]) {
+			changes = append(changes, models.MemoryChange{Field: field, OldValue: oldSnap[field], NewValue: newSnap[field]})
+		}
+	}
+	return changes
+}
+
+// MemoryToSnapshot converts a memory to a generic map snapshot. Empty fields
+// are left out.
+func MemoryToSnapshot(entry *models.MemoryEntry) map[string]any {
+	snap := map[string]any{
+		"title": entry.Title,
+		"layer": entry.Layer,
+	}
+	setString := func(key, value string) {
+		if value != "" {
+			snap[key] = value
+		}
+	}
+	setString("category", entry.Category)
+	setString("content", entry.Content)
+	setString("status", entry.Status)
+	setString("confidence", entry.Confidence)
+	if !entry.LastVerified.IsZero() {
+		snap["lastVerified"] = formatISO(entry.LastVerified)
+	}
+	if entry.TTLDays > 0 {
+		snap["ttlDays"] = entry.TTLDays
+	}
+	if len(entry.Sources) > 0 {
+		snap["sources"] = append([]string(nil), entry.Sources...)
+	}
+	setString("mergedInto", entry.MergedInto)
+	setString("rejectedReason", entry.RejectedReason)
+	if len(entry.Tags) > 0 {
+		snap["tags"] = append([]string(nil), entry.Tags...)
+	}
+	if len(entry.Metadata) > 0 {
+		metadata := make(map[string]string, len(entry.Metadata))
+		for k, v := range entry.Metadata {
+			metadata[k] = v
+		}
+		snap["metadata"] = metadata
+	}
+	return snap
+}
+
+func memoryFromSnapshot(snapshot map[string]any) *models.MemoryEntry {
+	entry := &models.MemoryEntry{Sources: []string{}, Tags: []string{}}
+	str := func(key string) string {
+		v, _ := snapshot[key].(string)
+		return v
+	}
+	entry.Title = str("title")
+	entry.Layer = str("layer")
+	entry.Category = str("category")
+	entry.Content = str("content")
+	entry.Status = str("status")
+	entry.Confidence = str("confidence")
+	entry.LastVerified, _ = parseISO(str("lastVerified"))
+	switch v := snapshot["ttlDays"].(type) {
+	case int:
+		entry.TTLDays = v
+	case float64:
+		entry.TTLDays = int(v)
+	}
+	if sources := anyStringSlice(snapshot["sources"]); sources != nil {
+		entry.Sources = sources
+	}
+	entry.MergedInto = str("mergedInto")
+	entry.RejectedReason = str("rejectedReason")
+	if tags := anyStringSlice(snapshot["tags"]); tags != nil {
+		entry.Tags = tags
+	}
+	switch v := snapshot["metadata"].(type) {
+	case map[string]string:
+		entry.Metadata = make(map[string]string, len(v))
+		for k, value := range v {
+			entry.Metadata[k] = value
+		}
+	case map[string]any:
+		entry.Metadata = make(map[string]string, len(v))
+		for k, value := range v {
+			if s, ok := value.(string); ok {
+				entry.Metadata[k] = s
+			}
+		}
+	}
+	return entry
+}
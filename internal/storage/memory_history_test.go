@@ -0,0 +1,157 @@
+package storage
+
+import (
+	"os"
+	"path/filepath"
+	"reflect"
+	"testing"
+
+	"github.com/howznguyen/knowns/internal/models"
+)
+
+func TestMemoryHistoryRecordsRevisionsAndRestoresMerge(t *testing.T) {
+	t.Setenv("HOME", t.TempDir())
+	store := NewStore(filepath.Join(t.TempDir(), ".knowns"))
+
+	entry := &models.MemoryEntry{
+		ID:      "mem1",
+		Title:   "Token lifetime",
+		Layer:   models.MemoryLayerProject,
+		Content: "Tokens expire after one hour.",
+		Sources: []string{"@doc/specs/auth"},
+	}
+	if err := store.Memory.CreateWithRevision(entry, MemoryRevisionOptions{Actor: "cli", Source: "cli"}); err != nil {
+		t.Fatalf("create: %v", err)
+	}
+
+	merged := *entry
+	merged.Status = models.MemoryStatusMerged
+	merged.MergedInto = "mem2"
+	if err := store.Memory.UpdateWithRevision(&merged, MemoryRevisionOptions{
+		Actor:      "webui",
+		Source:     "webui",
+		Resolution: "merge_existing",
+		Related:    []string{"mem2"},
+	}); err != nil {
+		t.Fatalf("merge: %v", err)
+	}
+	// Rewriting the same state records nothing.
+	if err := store.Memory.Update(&merged); err != nil {
+		t.Fatalf("noop update: %v", err)
+	}
+
+	h, err := store.Memory.GetHistory("mem1")
+	if err != nil {
+		t.Fatalf("history: %v", err)
+	}
+	if h.CurrentVersion != 2 || len(h.Versions) != 2 {
+		t.Fatalf("history = %+v, want 2 versions", h)
+	}
+	if !h.Versions[0].Checkpoint || h.Versions[0].Actor != "cli" {
+		t.Fatalf("v1 = %+v, want cli checkpoint", h.Versions[0])
+	}
+	v2 := h.Versions[1]
+	if v2.Resolution != "merge_existing" || !reflect.DeepEqual(v2.Related, []string{"mem2"}) || v2.BaseHash != h.Versions[0].NewHash {
+		t.Fatalf("v2 = %+v, want the merge attributed and chained", v2)
+	}
+
+	diff, err := store.Memory.GetRevisionDiff("mem1", "v2")
+	if err != nil {
+		t.Fatalf("diff: %v", err)
+	}
+	fields := map[string]models.MemoryChange{}
+	for _, change := range diff.Changes {
+		fields[change.Field] = change
+	}
+	if len(fields) != 2 || fields["status"].OldValue != models.MemoryStatusActive || fields["mergedInto"].NewValue != "mem2" {
+		t.Fatalf("diff changes = %+v, want status and mergedInto", diff.Changes)
+	}
+	if diff.PreviousRevisionID != "v1" {
+		t.Fatalf("previous revision = %q, want v1", diff.PreviousRevisionID)
+	}
+
+	restored, err := store.Memory.Restore("mem1", "v1", MemoryRevisionOptions{Actor: "webui"})
+	if err != nil {
+		t.Fatalf("restore: %v", err)
+	}
+	if restored.Status != models.MemoryStatusActive || restored.MergedInto != "" {
+		t.Fatalf("restored = %+v, want the merge undone", restored)
+	}
+	h, _ = store.Memory.GetHistory("mem1")
+	last := h.Versions[len(h.Versions)-1]
+	if last.Source != "restore" || last.RestoredFrom != "v1" || last.Actor != "webui" {
+		t.Fatalf("restore revision = %+v", last)
+	}
+
+	if _, err := store.Memory.PromotePersistent("mem1"); err != nil {
+		t.Fatalf("promote: %v", err)
+	}
+	if _, err := os.Stat(filepath.Join(store.Root, "versions", "memory-mem1.json")); !os.IsNotExist(err) {
+		t.Fatalf("project history still present after promote: %v", err)
+	}
+	h, _ = store.Memory.GetHistory("mem1")
+	if len(h.Versions) != 4 || h.Versions[3].Source != "promote" {
+		t.Fatalf("history after promote = %+v, want it moved with a promote revision", h.Versions)
+	}
+}
+
+func TestMemoryHistoryBaselinesLegacyMemory(t *testing.T) {
+	t.Setenv("HOME", t.TempDir())
+	root := filepath.Join(t.TempDir(), ".knowns")
+	memoryDir := filepath.Join(root, "memory")
+	if err := os.MkdirAll(memoryDir, 0o755); err != nil {
+		t.Fatalf("mkdir memory dir: %v", err)
+	}
+	content := "---\nid: legacy1\ntitle: Legacy Memory\nlayer: project\ncreatedAt: '2026-01-01T00:00:00.000Z'\nupdatedAt: '2026-01-02T00:00:00.000Z'\n---\n\nLegacy body.\n"
+	if err := os.WriteFile(filepath.Join(memoryDir, "memory-legacy1.md"), []byte(content), 0o644); err != nil {
+		t.Fatalf("write memory file: %v", err)
+	}
+	store := NewStore(root)
+	entry, err := store.Memory.Get("legacy1")
+	if err != nil {
+		t.Fatalf("get: %v", err)
+	}
+	entry.Content = "Updated body."
+	if err := store.Memory.UpdateWithRevision(entry, MemoryRevisionOptions{Source: "mcp"}); err != nil {
+		t.Fatalf("update: %v", err)
+	}
+
+	state, err := store.Memory.ResolveState("legacy1", "v1")
+	if err != nil {
+		t.Fatalf("resolve v1: %v", err)
+	}
+	if state.Content != "Legacy body." {
+		t.Fatalf("baseline content = %q, want the pre-update body", state.Content)
+	}
+	h, _ := store.Memory.GetHistory("legacy1")
+	if len(h.Versions) != 2 || h.Versions[0].Source != "baseline" || h.Versions[1].Source != "mcp" {
+		t.Fatalf("history = %+v, want baseline then mcp", h.Versions)
+	}
+}
+
+func TestMemoryUpdateIsNotWrittenWhenItsRevisionFails(t *testing.T) {
+	t.Setenv("HOME", t.TempDir())
+	store := NewStore(filepath.Join(t.TempDir(), ".knowns"))
+
+	entry := &models.MemoryEntry{ID: "mem3", Title: "Cache TTL", Layer: models.MemoryLayerProject, Content: "Five minutes."}
+	if err := store.Memory.Create(entry); err != nil {
+		t.Fatalf("create: %v", err)
+	}
+	// A directory where the history file belongs makes recording fail.
+	historyPath := filepath.Join(store.Root, "versions", "memory-mem3.json")
+	if err := os.Remove(historyPath); err != nil {
+		t.Fatal(err)
+	}
+	if err := os.Mkdir(historyPath, 0755); err != nil {
+		t.Fatal(err)
+	}
+
+	edited := *entry
+	edited.Content = "Ten minutes."
+	if err := store.Memory.Update(&edited); err == nil {
+		t.Fatal("update succeeded without recording its revision")
+	}
+	if current, _ := store.Memory.Get("mem3"); current.Content != "Five minutes." {
+		t.Fatalf("content = %q, want the unrecorded update left unwritten", current.Content)
+	}
+}
@@ -0,0 +1,266 @@
+package storage
+
+import (
+	"errors"
+	"fmt"
+	"os"
+	"path/filepath"
+	"time"
+
+	"github.com/howznguyen/knowns/internal/models"
+)
+
+// MemoryOperationUndoWindow is how long a memory operation stays undoable.
+// Later changes can still be reverted one memory at a time through history.
+const MemoryOperationUndoWindow = 15 * time.Minute
+
+// maxMemoryOperations bounds the operation log. Entries are long past their
+// undo window by the time they are dropped.
+const maxMemoryOperations = 200
+
+var (
+	// ErrMemoryOperationNotFound is returned for an unknown operation ID.
+	ErrMemoryOperationNotFound = errors.New("memory operation not found")
+	// ErrMemoryOperationNotUndoable is returned when an operation was already
+	// undone, its undo window has passed, or a memory it wrote changed since.
+	ErrMemoryOperationNotUndoable = errors.New("memory operation can no longer be undone")
+)
+
+// MemoryUndoResult reports what undoing an operation did: memories put back
+// to their prior revision, and memories the operation had created, which
+// are deleted.
+type MemoryUndoResult struct {
+	Operation  *models.MemoryOperation `json:"operation"`
+	Memories   []*models.MemoryEntry   `json:"memories"`
+	DeletedIDs []string                `json:"deletedIds"`
+}
+
+// NewMemoryOperation starts an undoable operation of kind. Pass its ID in the
+// MemoryRevisionOptions of every write it makes, then save it with
+// RecordOperation.
+func NewMemoryOperation(kind, actor, source string) *models.MemoryOperation {
+	now := time.Now().UTC()
+	return &models.MemoryOperation{
+		ID:            models.NewMemoryOperationID(),
+		Kind:          kind,
+		Actor:         actor,
+		Source:        source,
+		MemoryIDs:     []string{},
+		CreatedAt:     now,
+		UndoableUntil: now.Add(MemoryOperationUndoWindow),
+	}
+}
+
+// The operation log lives in .knowns/memory-operations.json, oldest first.
+func (ms *MemoryStore) operationsPath() string {
+	return filepath.Join(ms.root, "memory-operations.json")
+}
+
+func (ms *MemoryStore) loadOperations() ([]*models.MemoryOperation, error) {
+	var ops []*models.MemoryOperation
+	if err := readJSON(ms.operationsPath(), &ops); err != nil {
+		if os.IsNotExist(err) {
+			return nil, nil
+		}
+		return nil, fmt.Errorf("read memory operations: %w", err)
+	}
+	return ops, nil
+}
+
+func (ms *MemoryStore) saveOperations(ops []*models.MemoryOperation) error {
+	if len(ops) > maxMemoryOperations {
+		ops = ops[len(ops)-maxMemoryOperations:]
+	}
+	return writeJSON(ms.operationsPath(), ops)
+}
+
+// RecordOperation saves op to the operation log, replacing an earlier record
+// with the same ID.
+func (ms *MemoryStore) RecordOperation(op *models.MemoryOperation) error {
+	ops, err := ms.loadOperations()
+	if err != nil {
+		return err
+	}
+	for i, existing := range ops {
+		if existing.ID == op.ID {
+			ops[i] = op
+			return ms.saveOperations(ops)
+		}
+	}
+	return ms.saveOperations(append(ops, op))
+}
+
+// GetOperation returns a recorded operation by ID.
+func (ms *MemoryStore) GetOperation(id string) (*models.MemoryOperation, error) {
+	ops, err := ms.loadOperations()
+	if err != nil {
+		return nil, err
+	}
+	for _, op := range ops {
+		if op.ID == id {
+			return op, nil
+		}
+	}
+	return nil, fmt.Errorf("%w: %s", ErrMemoryOperationNotFound, id)
+}
+
+// UndoOperation reverts every write of an operation: each memory it changed
+// goes back to the revision before, and each memory it created is deleted.
+// Nothing is written unless every memory is still as the operation left it.
+func (ms *MemoryStore) UndoOperation(id string, opts MemoryRevisionOptions) (*MemoryUndoResult, error) {
+	op, err := ms.GetOperation(id)
+	if err != nil {
+		return nil, err
+	}
+	now := time.Now().UTC()
+	if op.UndoneAt != nil {
+		return nil, fmt.Errorf("%w: %s was already undone", ErrMemoryOperationNotUndoable, id)
+	}
+	if now.After(op.UndoableUntil) {
+		return nil, fmt.Errorf("%w: the undo window of %s has passed; restore the memories from history instead", ErrMemoryOperationNotUndoable, id)
+	}
+
+	type undoStep struct {
+		memoryID string
+		previous string // revision to restore; empty when the operation created the memory
+	}
+	var steps []undoStep
+	for _, memoryID := range op.MemoryIDs {
+		h, err := ms.GetHistory(memoryID)
+		if err != nil {
+			return nil, err
+		}
+		idx := -1
+		for i := len(h.Versions) - 1; i >= 0; i-- {
+			if h.Versions[i].OperationID == op.ID {
+				idx = i
+				break
+			}
+		}
+		if idx == -1 {
+			// The operation left this memory unchanged.
+			continue
+		}
+		if _, err := ms.Get(memoryID); err != nil || idx != len(h.Versions)-1 {
+			return nil, fmt.Errorf("%w: memory %s changed after %s; restore it from history instead", ErrMemoryOperationNotUndoable, memoryID, id)
+		}
+		step := undoStep{memoryID: memoryID}
+		if idx > 0 {
+			step.previous = h.Versions[idx-1].ID
+		}
+		steps = append(steps, step)
+	}
+
+	if opts.Resolution == "" {
+		opts.Resolution = "undo"
+	}
+	result := &MemoryUndoResult{Operation: op, Memories: []*models.MemoryEntry{}, DeletedIDs: []string{}}
+	for _, step := range steps {
+		if step.previous == "" {
+			if err := ms.Delete(step.memoryID); err != nil {
+				return nil, err
+			}
+			result.DeletedIDs = append(result.DeletedIDs, step.memoryID)
+			continue
+		}
+		restored, err := ms.Restore(step.memoryID, step.previous, opts)
+		if err != nil {
+			return nil, err
+		}
+		result.Memories = append(result.Memories, restored)
+	}
+
+	op.UndoneAt = &now
+	if err := ms.RecordOperation(op); err != nil {
+		return nil, err
+	}
+	return result, nil
+}
+
+// Unmerge reverses the review merge of a memory: it goes back to the revision
+// before the merge, or to proposed when the merge created it, so it returns
+// to review on its own. When the operation that merged it also rewrote the
+// memory it was merged into, as a cluster merge does, that memory goes back to
+// its revision before the operation too, unless it has changed since. The
+// reverted target is returned second, or nil when it was left alone.
+func (ms *MemoryStore) Unmerge(id string, opts MemoryRevisionOptions) (*models.MemoryEntry, *models.MemoryEntry, error) {
+	entry, err := ms.Get(id)
+	if err != nil {
+		return nil, nil, err
+	}
+	if entry.Status != models.MemoryStatusMerged {
+		return nil, nil, fmt.Errorf("memory %s is not merged", id)
+	}
+	h, err := ms.GetHistory(id)
+	if err != nil {
+		return nil, nil, err
+	}
+	mergeIdx := -1
+	for i := len(h.Versions) - 1; i >= 0; i-- {
+		if h.Versions[i].Resolution == "merge_existing" {
+			mergeIdx = i
+			break
+		}
+	}
+	// Find the target's revision before the operation first, so a target that
+	// cannot be read stops the unmerge before anything is written.
+	targetRevision := ""
+	if mergeIdx >= 0 && entry.MergedInto != "" {
+		if targetRevision, err = ms.revisionBeforeOperation(entry.MergedInto, h.Versions[mergeIdx].OperationID); err != nil {
+			return nil, nil, err
+		}
+	}
+
+	opts.Resolution = "unmerge"
+	if entry.MergedInto != "" {
+		opts.Related = []string{entry.MergedInto}
+	}
+	var unmerged *models.MemoryEntry
+	if mergeIdx > 0 {
+		if unmerged, err = ms.Restore(id, h.Versions[mergeIdx-1].ID, opts); err != nil {
+			return nil, nil, err
+		}
+	} else {
+		proposed := *entry
+		proposed.Status = models.MemoryStatusProposed
+		proposed.MergedInto = ""
+		if err := ms.UpdateWithRevision(&proposed, opts); err != nil {
+			return nil, nil, err
+		}
+		unmerged = &proposed
+	}
+	if targetRevision == "" {
+		return unmerged, nil, nil
+	}
+
+	opts.Related = []string{id}
+	target, err := ms.Restore(entry.MergedInto, targetRevision, opts)
+	if err != nil {
+		return unmerged, nil, fmt.Errorf("memory %s was unmerged, but restoring %s failed: %w", id, entry.MergedInto, err)
+	}
+	return unmerged, target, nil
+}
+
+// revisionBeforeOperation returns the revision of memoryID to restore to undo
+// the writes operationID made to it, or "" when the operation did not write it,
+// the memory has changed since or it no longer exists.
+func (ms *MemoryStore) revisionBeforeOperation(memoryID, operationID string) (string, error) {
+	if operationID == "" {
+		return "", nil
+	}
+	if _, err := ms.Get(memoryID); err != nil {
+		return "", nil
+	}
+	h, err := ms.GetHistory(memoryID)
+	if err != nil {
+		return "", err
+	}
+	i := len(h.Versions) - 1
+	for i >= 0 && h.Versions[i].OperationID == operationID {
+		i--
+	}
+	if i < 0 || i == len(h.Versions)-1 {
+		return "", nil
+	}
+	return h.Versions[i].ID, nil
+}
@@ -0,0 +1,182 @@
+package storage
+
+import (
+	"errors"
+	"path/filepath"
+	"testing"
+	"time"
+
+	"github.com/howznguyen/knowns/internal/models"
+)
+
+func TestMemoryOperationUndoRevertsChangesAndCreations(t *testing.T) {
+	t.Setenv("HOME", t.TempDir())
+	store := NewStore(filepath.Join(t.TempDir(), ".knowns"))
+
+	existing := &models.MemoryEntry{ID: "old1", Title: "Old", Layer: models.MemoryLayerProject, Status: models.MemoryStatusActive}
+	if err := store.Memory.Create(existing); err != nil {
+		t.Fatalf("create: %v", err)
+	}
+
+	op := NewMemoryOperation("archive_existing_create_new", "webui", "webui")
+	revision := MemoryRevisionOptions{Actor: "webui", Source: "webui", OperationID: op.ID}
+	archived := *existing
+	archived.Status = models.MemoryStatusArchived
+	if err := store.Memory.UpdateWithRevision(&archived, revision); err != nil {
+		t.Fatalf("archive: %v", err)
+	}
+	replacement := &models.MemoryEntry{ID: "new1", Title: "New", Layer: models.MemoryLayerProject}
+	if err := store.Memory.CreateWithRevision(replacement, revision); err != nil {
+		t.Fatalf("create replacement: %v", err)
+	}
+	op.MemoryIDs = []string{"old1", "new1"}
+	if err := store.Memory.RecordOperation(op); err != nil {
+		t.Fatalf("record: %v", err)
+	}
+
+	result, err := store.Memory.UndoOperation(op.ID, MemoryRevisionOptions{Actor: "webui", Source: "webui"})
+	if err != nil {
+		t.Fatalf("undo: %v", err)
+	}
+	if len(result.Memories) != 1 || result.Memories[0].Status != models.MemoryStatusActive {
+		t.Fatalf("restored = %+v, want old1 active again", result.Memories)
+	}
+	if len(result.DeletedIDs) != 1 || result.DeletedIDs[0] != "new1" {
+		t.Fatalf("deleted = %v, want new1", result.DeletedIDs)
+	}
+	if _, err := store.Memory.Get("new1"); err == nil {
+		t.Fatal("replacement still exists after undo")
+	}
+	h, _ := store.Memory.GetHistory("old1")
+	if last := h.Versions[len(h.Versions)-1]; last.Resolution != "undo" || last.RestoredFrom != "v1" {
+		t.Fatalf("undo revision = %+v", last)
+	}
+
+	if _, err := store.Memory.UndoOperation(op.ID, MemoryRevisionOptions{}); !errors.Is(err, ErrMemoryOperationNotUndoable) {
+		t.Fatalf("second undo err = %v, want ErrMemoryOperationNotUndoable", err)
+	}
+	if _, err := store.Memory.UndoOperation("op-missing", MemoryRevisionOptions{}); !errors.Is(err, ErrMemoryOperationNotFound) {
+		t.Fatalf("unknown undo err = %v, want ErrMemoryOperationNotFound", err)
+	}
+}
+
+func TestMemoryOperationUndoRefusesLaterChangesAndExpiredWindow(t *testing.T) {
+	t.Setenv("HOME", t.TempDir())
+	store := NewStore(filepath.Join(t.TempDir(), ".knowns"))
+
+	for _, id := range []string{"a1", "b1"} {
+		if err := store.Memory.Create(&models.MemoryEntry{ID: id, Title: id, Layer: models.MemoryLayerProject}); err != nil {
+			t.Fatalf("create %s: %v", id, err)
+		}
+	}
+	op := NewMemoryOperation("archive", "webui", "webui")
+	for _, id := range []string{"a1", "b1"} {
+		entry, _ := store.Memory.Get(id)
+		entry.Status = models.MemoryStatusArchived
+		if err := store.Memory.UpdateWithRevision(entry, MemoryRevisionOptions{OperationID: op.ID}); err != nil {
+			t.Fatalf("archive %s: %v", id, err)
+		}
+		op.MemoryIDs = append(op.MemoryIDs, id)
+	}
+	if err := store.Memory.RecordOperation(op); err != nil {
+		t.Fatalf("record: %v", err)
+	}
+
+	edited, _ := store.Memory.Get("b1")
+	edited.Content = "Edited after archiving."
+	if err := store.Memory.Update(edited); err != nil {
+		t.Fatalf("edit: %v", err)
+	}
+	if _, err := store.Memory.UndoOperation(op.ID, MemoryRevisionOptions{}); !errors.Is(err, ErrMemoryOperationNotUndoable) {
+		t.Fatalf("undo after edit err = %v, want ErrMemoryOperationNotUndoable", err)
+	}
+	if entry, _ := store.Memory.Get("a1"); entry.Status != models.MemoryStatusArchived {
+		t.Fatalf("a1 status = %q, want a refused undo to write nothing", entry.Status)
+	}
+
+	expired := NewMemoryOperation("archive", "webui", "webui")
+	expired.UndoableUntil = time.Now().Add(-time.Minute)
+	if err := store.Memory.RecordOperation(expired); err != nil {
+		t.Fatalf("record expired: %v", err)
+	}
+	if _, err := store.Memory.UndoOperation(expired.ID, MemoryRevisionOptions{}); !errors.Is(err, ErrMemoryOperationNotUndoable) {
+		t.Fatalf("expired undo err = %v, want ErrMemoryOperationNotUndoable", err)
+	}
+}
+
+func TestMemoryUnmergeCreatedTombstoneReturnsToReview(t *testing.T) {
+	t.Setenv("HOME", t.TempDir())
+	store := NewStore(filepath.Join(t.TempDir(), ".knowns"))
+
+	tombstone := &models.MemoryEntry{
+		ID:         "tomb1",
+		Title:      "Duplicate",
+		Layer:      models.MemoryLayerProject,
+		Status:     models.MemoryStatusMerged,
+		MergedInto: "keep1",
+	}
+	if err := store.Memory.CreateWithRevision(tombstone, MemoryRevisionOptions{Resolution: "merge_existing", Related: []string{"keep1"}}); err != nil {
+		t.Fatalf("create: %v", err)
+	}
+	entry, target, err := store.Memory.Unmerge("tomb1", MemoryRevisionOptions{Actor: "webui"})
+	if err != nil || target != nil {
+		t.Fatalf("unmerge = %+v, %v; want no target restored", target, err)
+	}
+	if entry.Status != models.MemoryStatusProposed || entry.MergedInto != "" {
+		t.Fatalf("unmerged = %+v, want proposed without mergedInto", entry)
+	}
+	h, _ := store.Memory.GetHistory("tomb1")
+	if last := h.Versions[len(h.Versions)-1]; last.Resolution != "unmerge" || len(last.Related) != 1 || last.Related[0] != "keep1" {
+		t.Fatalf("unmerge revision = %+v", last)
+	}
+}
+
+func TestMemoryUnmergeRestoresTheSurvivorRewrittenByTheSameOperation(t *testing.T) {
+	t.Setenv("HOME", t.TempDir())
+	store := NewStore(filepath.Join(t.TempDir(), ".knowns"))
+
+	for _, entry := range []*models.MemoryEntry{
+		{ID: "keep1", Title: "Vector DB", Content: "Use Qdrant."},
+		{ID: "dupe1", Title: "Qdrant", Content: "Qdrant is the vector DB."},
+		{ID: "dupe2", Title: "Vectors", Content: "Vectors go to Qdrant."},
+	} {
+		entry.Layer = models.MemoryLayerProject
+		entry.Status = models.MemoryStatusActive
+		if err := store.Memory.Create(entry); err != nil {
+			t.Fatalf("create %s: %v", entry.ID, err)
+		}
+	}
+	// A cluster merge: the survivor's content is rewritten and both members
+	// are merged into it, all under one operation.
+	revision := MemoryRevisionOptions{Actor: "webui", Resolution: "merge_existing", OperationID: "op-cluster"}
+	survivor, _ := store.Memory.Get("keep1")
+	survivor.Content = "Use Qdrant as the vector DB."
+	if err := store.Memory.UpdateWithRevision(survivor, revision); err != nil {
+		t.Fatalf("rewrite survivor: %v", err)
+	}
+	for _, id := range []string{"dupe1", "dupe2"} {
+		member, _ := store.Memory.Get(id)
+		member.Status = models.MemoryStatusMerged
+		member.MergedInto = "keep1"
+		if err := store.Memory.UpdateWithRevision(member, revision); err != nil {
+			t.Fatalf("merge %s: %v", id, err)
+		}
+	}
+
+	entry, target, err := store.Memory.Unmerge("dupe1", MemoryRevisionOptions{Actor: "webui"})
+	if err != nil {
+		t.Fatalf("unmerge: %v", err)
+	}
+	if entry.Status != models.MemoryStatusActive || target == nil || target.Content != "Use Qdrant." {
+		t.Fatalf("unmerge = %+v, target %+v; want both back to their pre-merge content", entry, target)
+	}
+	h, _ := store.Memory.GetHistory("keep1")
+	if last := h.Versions[len(h.Versions)-1]; last.Resolution != "unmerge" || len(last.Related) != 1 || last.Related[0] != "dupe1" {
+		t.Fatalf("survivor revision = %+v", last)
+	}
+
+	// The survivor changed since the operation, so a second unmerge leaves it.
+	if _, target, err := store.Memory.Unmerge("dupe2", MemoryRevisionOptions{Actor: "webui"}); err != nil || target != nil {
+		t.Fatalf("second unmerge target = %+v, %v; want the survivor left alone", target, err)
+	}
+}
@@ -53,6 +53,7 @@ type memoryFrontmatter struct {
 	Confidence     string            `yaml:"confidence,omitempty"`
 	LastVerified   string            `yaml:"lastVerified,omitempty"`
 	TTLDays        int               `yaml:"ttlDays,omitempty"`
+	StaleSince     string            `yaml:"staleSince,omitempty"`
 	Sources        []string          `yaml:"sources,omitempty"`
 	MergedInto     string            `yaml:"mergedInto,omitempty"`
 	RejectedReason string            `yaml:"rejectedReason,omitempty"`
@@ -216,6 +217,13 @@ func (ms *MemoryStore) GetInLayer(id, layer string) (*models.MemoryEntry, error)
 
 // Create writes a new memory entry to the appropriate layer directory.
 func (ms *MemoryStore) Create(entry *models.MemoryEntry) error {
+	return ms.CreateWithRevision(entry, MemoryRevisionOptions{})
+}
+
+// CreateWithRevision writes a new memory entry and starts its history with a
+// checkpoint revision attributed through opts. The history is written first,
+// so a memory never lands on disk without the revision that explains it.
+func (ms *MemoryStore) CreateWithRevision(entry *models.MemoryEntry, opts MemoryRevisionOptions) error {
 	if entry.Layer == "" {
 		entry.Layer = models.MemoryLayerProject
 	}
@@ -234,6 +242,7 @@ func (ms *MemoryStore) Create(entry *models.MemoryEntry) error {
 	if entry.UpdatedAt.IsZero() {
 		entry.UpdatedAt = now
 	}
+	trackStaleSince(nil, entry, now)
 
 	dir, err := ms.dirForLayer(entry.Layer)
 	if err != nil {
@@ -243,12 +252,26 @@ func (ms *MemoryStore) Create(entry *models.MemoryEntry) error {
 		return fmt.Errorf("create memory dir: %w", err)
 	}
 
+	historyPath, err := ms.historyPath(entry.ID, entry.Layer)
+	if err != nil {
+		return err
+	}
+	if err := ms.recordRevision(historyPath, nil, entry, opts); err != nil {
+		return err
+	}
 	absPath := filepath.Join(dir, models.MemoryFileName(entry.ID))
 	return atomicWrite(absPath, []byte(renderMemory(entry)))
 }
 
 // Update overwrites an existing memory entry.
 func (ms *MemoryStore) Update(entry *models.MemoryEntry) error {
+	return ms.UpdateWithRevision(entry, MemoryRevisionOptions{})
+}
+
+// UpdateWithRevision overwrites an existing memory entry and records the
+// change in its history, attributed through opts. As on create, the revision
+// is recorded before the entry is written.
+func (ms *MemoryStore) UpdateWithRevision(entry *models.MemoryEntry, opts MemoryRevisionOptions) error {
 	if entry.ID == "" {
 		return fmt.Errorf("memory ID is required")
 	}
@@ -264,16 +287,47 @@ func (ms *MemoryStore) Update(entry *models.MemoryEntry) error {
 		entry.CreatedAt = existing.CreatedAt
 	}
 	entry.ApplyLifecycleDefaults()
+	trackStaleSince(existing, entry, entry.UpdatedAt)
 
 	dir, err := ms.dirForLayer(existing.Layer)
 	if err != nil {
 		return err
 	}
 
+	historyPath, err := ms.historyPath(entry.ID, existing.Layer)
+	if err != nil {
+		return err
+	}
+	if err := ms.recordRevision(historyPath, existing, entry, opts); err != nil {
+		return err
+	}
 	absPath := filepath.Join(dir, models.MemoryFileName(entry.ID))
 	return atomicWrite(absPath, []byte(renderMemory(entry)))
 }
 
+// trackStaleSince stamps when entry became stale. A memory that stays stale
+// keeps its stamp, one that leaves stale loses it, and a stale memory written
+// without a stamp (including one stale from before stamps existed) gets now.
+func trackStaleSince(existing, entry *models.MemoryEntry, now time.Time) {
+	if entry.Status != models.MemoryStatusStale {
+		entry.StaleSince = time.Time{}
+		return
+	}
+	if existing != nil {
+		if existing.Status != models.MemoryStatusStale {
+			entry.StaleSince = now
+			return
+		}
+		if !existing.StaleSince.IsZero() {
+			entry.StaleSince = existing.StaleSince
+			return
+		}
+	}
+	if entry.StaleSince.IsZero() {
+		entry.StaleSince = now
+	}
+}
+
 // Delete removes a memory entry by ID.
 func (ms *MemoryStore) Delete(id string) error {
 	filename := models.MemoryFileName(id)
@@ -301,7 +355,7 @@ func (ms *MemoryStore) Promote(id string) (*models.MemoryEntry, error) {
 		return nil, fmt.Errorf("cannot promote: already at top layer (%s)", entry.Layer)
 	}
 
-	return ms.moveLayer(entry, newLayer)
+	return ms.moveLayer(entry, newLayer, "promote")
 }
 
 // Demote moves a memory entry down one layer (global→project→working).
@@ -316,7 +370,7 @@ func (ms *MemoryStore) Demote(id string) (*models.MemoryEntry, error) {
 		return nil, fmt.Errorf("cannot demote: already at bottom layer (%s)", entry.Layer)
 	}
 
-	return ms.moveLayer(entry, newLayer)
+	return ms.moveLayer(entry, newLayer, "demote")
 }
 
 // PromotePersistent moves a persistent memory entry up one layer (project→global).
@@ -334,7 +388,7 @@ func (ms *MemoryStore) PromotePersistent(id string) (*models.MemoryEntry, error)
 		return nil, fmt.Errorf("cannot promote: already at top persistent layer (%s)", entry.Layer)
 	}
 
-	return ms.moveLayer(entry, newLayer)
+	return ms.moveLayer(entry, newLayer, "promote")
 }
 
 // DemotePersistent moves a persistent memory entry down one layer (global→project).
@@ -352,11 +406,11 @@ func (ms *MemoryStore) DemotePersistent(id string) (*models.MemoryEntry, error)
 		return nil, fmt.Errorf("cannot demote: already at bottom persistent layer (%s)", entry.Layer)
 	}
 
-	return ms.moveLayer(entry, newLayer)
+	return ms.moveLayer(entry, newLayer, "demote")
 }
 
 // moveLayer moves a memory entry from its current layer to a new layer.
-func (ms *MemoryStore) moveLayer(entry *models.MemoryEntry, newLayer string) (*models.MemoryEntry, error) {
+func (ms *MemoryStore) moveLayer(entry *models.MemoryEntry, newLayer, source string) (*models.MemoryEntry, error) {
 	oldDir, err := ms.dirForLayer(entry.Layer)
 	if err != nil {
 		return nil, err
@@ -375,6 +429,7 @@ func (ms *MemoryStore) moveLayer(entry *models.MemoryEntry, newLayer string) (*m
 	newPath := filepath.Join(newDir, filename)
 
 	// Update layer and timestamp.
+	before := *entry
 	entry.Layer = newLayer
 	entry.UpdatedAt = time.Now().UTC()
 
@@ -384,6 +439,16 @@ func (ms *MemoryStore) moveLayer(entry *models.MemoryEntry, newLayer string) (*m
 	}
 	_ = os.Remove(oldPath)
 
+	if err := ms.moveHistory(entry.ID, before.Layer, newLayer); err != nil {
+		return nil, err
+	}
+	historyPath, err := ms.historyPath(entry.ID, newLayer)
+	if err != nil {
+		return nil, err
+	}
+	if err := ms.recordRevision(historyPath, &before, entry, MemoryRevisionOptions{Source: source}); err != nil {
+		return nil, err
+	}
 	return entry, nil
 }
 
@@ -418,6 +483,18 @@ func (ms *MemoryStore) parseFile(absPath, layer string) (*models.MemoryEntry, er
 	return parseMemoryContent(string(data), layer)
 }
 
+// RenderMemoryMarkdown returns the canonical markdown file content of a
+// memory, as written to the memory directory.
+func RenderMemoryMarkdown(entry *models.MemoryEntry) string {
+	return renderMemory(entry)
+}
+
+// ParseMemoryMarkdown parses canonical memory markdown. layer applies when the
+// frontmatter does not name one.
+func ParseMemoryMarkdown(content, layer string) (*models.MemoryEntry, error) {
+	return parseMemoryContent(content, layer)
+}
+
 // parseMemoryContent parses the content of a memory markdown file.
 func parseMemoryContent(content, layer string) (*models.MemoryEntry, error) {
 	yamlBlock, body := splitFrontmatter(content)
@@ -447,6 +524,7 @@ func parseMemoryContent(content, layer string) (*models.MemoryEntry, error) {
 	entry.Confidence = fm.Confidence
 	entry.LastVerified, _ = parseISO(fm.LastVerified)
 	entry.TTLDays = fm.TTLDays
+	entry.StaleSince, _ = parseISO(fm.StaleSince)
 	entry.Sources = fm.Sources
 	if entry.Sources == nil {
 		entry.Sources = []string{}
@@ -518,6 +596,9 @@ func renderMemory(entry *models.MemoryEntry) string {
 	if entry.TTLDays > 0 {
 		fmt.Fprintf(&b, "ttlDays: %d\n", entry.TTLDays)
 	}
+	if !entry.StaleSince.IsZero() {
+		fmt.Fprintf(&b, "staleSince: '%s'\n", formatISO(entry.StaleSince))
+	}
 	if len(entry.Sources) > 0 {
 		b.WriteString("sources:\n")
 		for _, source := range entry.Sources {
@@ -0,0 +1,183 @@
+package storage
+
+import (
+	"fmt"
+	"os"
+	"path/filepath"
+	"sort"
+	"strings"
+	"time"
+
+	"github.com/howznguyen/knowns/internal/models"
+	"gopkg.in/yaml.v3"
+)
+
+// MilestoneStore reads and writes milestone files from .knowns/milestones/.
+type MilestoneStore struct {
+	root string
+}
+
+func (ms *MilestoneStore) milestonesDir() string { return filepath.Join(ms.root, "milestones") }
+
+type milestoneFrontmatter struct {
+	ID        string `yaml:"id"`
+	Name      string `yaml:"name"`
+	StartDate string `yaml:"startDate"`
+	EndDate   string `yaml:"endDate"`
+	CreatedAt string `yaml:"createdAt"`
+	UpdatedAt string `yaml:"updatedAt"`
+}
+
+// List returns all milestones ordered by start date, then ID.
+func (ms *MilestoneStore) List() ([]*models.Milestone, error) {
+	entries, err := os.ReadDir(ms.milestonesDir())
+	if os.IsNotExist(err) {
+		return nil, nil
+	}
+	if err != nil {
+		return nil, fmt.Errorf("list milestones: %w", err)
+	}
+
+	var milestones []*models.Milestone
+	for _, entry := range entries {
+		if entry.IsDir() || !strings.HasSuffix(entry.Name(), ".md") {
+			continue
+		}
+		milestone, err := ms.parseFile(filepath.Join(ms.milestonesDir(), entry.Name()))
+		if err != nil {
+			continue
+		}
+		milestones = append(milestones, milestone)
+	}
+	sort.Slice(milestones, func(i, j int) bool {
+		if milestones[i].StartDate == milestones[j].StartDate {
+			return milestones[i].ID < milestones[j].ID
+		}
+		return milestones[i].StartDate < milestones[j].StartDate
+	})
+	return milestones, nil
+}
+
+// Get retrieves a milestone by ID.
+func (ms *MilestoneStore) Get(id string) (*models.Milestone, error) {
+	if !models.ValidMilestoneID(id) {
+		return nil, fmt.Errorf("invalid milestone ID: %q", id)
+	}
+	absPath := filepath.Join(ms.milestonesDir(), models.MilestoneFileName(id))
+	if _, err := os.Stat(absPath); err != nil {
+		return nil, fmt.Errorf("milestone %q not found", id)
+	}
+	return ms.parseFile(absPath)
+}
+
+// Exists reports whether a milestone file with id exists.
+func (ms *MilestoneStore) Exists(id string) bool {
+	if !models.ValidMilestoneID(id) {
+		return false
+	}
+	_, err := os.Stat(filepath.Join(ms.milestonesDir(), models.MilestoneFileName(id)))
+	return err == nil
+}
+
+// Create writes a new milestone, deriving its ID from the name when unset.
+func (ms *MilestoneStore) Create(milestone *models.Milestone) error {
+	if milestone == nil {
+		return fmt.Errorf("milestone is required")
+	}
+	if err := milestone.Validate(); err != nil {
+		return err
+	}
+	if milestone.ID == "" {
+		milestone.ID = models.NewMilestoneID(milestone.Name, ms.Exists)
+	}
+	if !models.ValidMilestoneID(milestone.ID) {
+		return fmt.Errorf("invalid milestone ID: %q", milestone.ID)
+	}
+	if ms.Exists(milestone.ID) {
+		return fmt.Errorf("milestone %q already exists", milestone.ID)
+	}
+
+	now := time.Now().UTC()
+	if milestone.CreatedAt.IsZero() {
+		milestone.CreatedAt = now
+	}
+	milestone.UpdatedAt = now
+
+	if err := os.MkdirAll(ms.milestonesDir(), 0o755); err != nil {
+		return fmt.Errorf("create milestones dir: %w", err)
+	}
+	return atomicWrite(filepath.Join(ms.milestonesDir(), models.MilestoneFileName(milestone.ID)), []byte(renderMilestone(milestone)))
+}
+
+// Update overwrites an existing milestone in place.
+func (ms *MilestoneStore) Update(milestone *models.Milestone) error {
+	if milestone == nil {
+		return fmt.Errorf("milestone is required")
+	}
+	existing, err := ms.Get(milestone.ID)
+	if err != nil {
+		return err
+	}
+	if err := milestone.Validate(); err != nil {
+		return err
+	}
+	milestone.CreatedAt = existing.CreatedAt
+	milestone.UpdatedAt = time.Now().UTC()
+	return atomicWrite(filepath.Join(ms.milestonesDir(), models.MilestoneFileName(milestone.ID)), []byte(renderMilestone(milestone)))
+}
+
+// Delete removes a milestone file. Tasks that reference it are not touched;
+// callers unassign them first.
+func (ms *MilestoneStore) Delete(id string) error {
+	if !ms.Exists(id) {
+		return fmt.Errorf("milestone %q not found", id)
+	}
+	return os.Remove(filepath.Join(ms.milestonesDir(), models.MilestoneFileName(id)))
+}
+
+func (ms *MilestoneStore) parseFile(absPath string) (*models.Milestone, error) {
+	data, err := os.ReadFile(absPath)
+	if err != nil {
+		return nil, fmt.Errorf("parse milestone %s: %w", absPath, err)
+	}
+	return parseMilestoneContent(string(data))
+}
+
+func parseMilestoneContent(content string) (*models.Milestone, error) {
+	yamlBlock, body := splitFrontmatter(content)
+	if yamlBlock == "" {
+		return nil, fmt.Errorf("missing milestone frontmatter")
+	}
+	var fm milestoneFrontmatter
+	if err := yaml.Unmarshal([]byte(yamlBlock), &fm); err != nil {
+		return nil, fmt.Errorf("parse milestone frontmatter: %w", err)
+	}
+	milestone := &models.Milestone{
+		ID:        fm.ID,
+		Name:      fm.Name,
+		StartDate: fm.StartDate,
+		EndDate:   fm.EndDate,
+		Goal:      strings.TrimSpace(body),
+	}
+	milestone.CreatedAt, _ = parseISO(fm.CreatedAt)
+	milestone.UpdatedAt, _ = parseISO(fm.UpdatedAt)
+	return milestone, nil
+}
+
+func renderMilestone(milestone *models.Milestone) string {
+	var b strings.Builder
+	b.WriteString("---\n")
+	fmt.Fprintf(&b, "id: %s\n", yamlScalar(milestone.ID))
+	fmt.Fprintf(&b, "name: %s\n", yamlScalar(milestone.Name))
+	fmt.Fprintf(&b, "startDate: '%s'\n", milestone.StartDate)
+	fmt.Fprintf(&b, "endDate: '%s'\n", milestone.EndDate)
+	fmt.Fprintf(&b, "createdAt: '%s'\n", formatISO(milestone.CreatedAt))
+	fmt.Fprintf(&b, "updatedAt: '%s'\n", formatISO(milestone.UpdatedAt))
+	b.WriteString("---\n")
+	if goal := strings.TrimSpace(milestone.Goal); goal != "" {
+		b.WriteString("\n")
+		b.WriteString(goal)
+		b.WriteString("\n")
+	}
+	return b.String()
+}
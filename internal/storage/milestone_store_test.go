@@ -0,0 +1,64 @@
+package storage
+
+import (
+	"strings"
+	"testing"
+
+	"github.com/howznguyen/knowns/internal/models"
+)
+
+func TestMilestoneStoreCreateListUpdateDelete(t *testing.T) {
+	store := NewStore(t.TempDir())
+	if err := store.Init("milestone-test"); err != nil {
+		t.Fatalf("Init: %v", err)
+	}
+
+	first := &models.Milestone{Name: "Sprint 12", StartDate: "2026-11-02", EndDate: "2026-11-13", Goal: "Ship the importer."}
+	if err := store.Milestones.Create(first); err != nil {
+		t.Fatalf("Create: %v", err)
+	}
+	if first.ID != "sprint-12" {
+		t.Fatalf("ID = %q, want sprint-12", first.ID)
+	}
+	dup := &models.Milestone{Name: "Sprint 12", StartDate: "2026-10-19", EndDate: "2026-10-30"}
+	if err := store.Milestones.Create(dup); err != nil {
+		t.Fatalf("Create duplicate name: %v", err)
+	}
+	if dup.ID != "sprint-12-2" {
+		t.Fatalf("duplicate ID = %q, want sprint-12-2", dup.ID)
+	}
+	if err := store.Milestones.Create(&models.Milestone{Name: "Backwards", StartDate: "2026-11-02", EndDate: "2026-11-01"}); err == nil || !strings.Contains(err.Error(), "before startDate") {
+		t.Fatalf("Create with end before start = %v", err)
+	}
+
+	list, err := store.Milestones.List()
+	if err != nil {
+		t.Fatalf("List: %v", err)
+	}
+	if len(list) != 2 || list[0].ID != "sprint-12-2" || list[1].ID != "sprint-12" {
+		t.Fatalf("List order = %v", list)
+	}
+	if list[1].Goal != "Ship the importer." {
+		t.Fatalf("Goal = %q", list[1].Goal)
+	}
+
+	first.Goal = ""
+	first.EndDate = "2026-11-20"
+	if err := store.Milestones.Update(first); err != nil {
+		t.Fatalf("Update: %v", err)
+	}
+	loaded, err := store.Milestones.Get("sprint-12")
+	if err != nil {
+		t.Fatalf("Get: %v", err)
+	}
+	if loaded.EndDate != "2026-11-20" || loaded.Goal != "" || loaded.CreatedAt.IsZero() {
+		t.Fatalf("updated milestone = %+v", loaded)
+	}
+
+	if err := store.Milestones.Delete("sprint-12"); err != nil {
+		t.Fatalf("Delete: %v", err)
+	}
+	if store.Milestones.Exists("sprint-12") {
+		t.Fatalf("milestone still exists after Delete")
+	}
+}
@@ -19,17 +19,19 @@ const globalSemanticStoreDir = "global"
 // Store is the top-level coordinator for all .knowns/ sub-stores.
 type Store struct {
 	// Root is the absolute path to the .knowns/ directory.
-	Root       string
-	Tasks      *TaskStore
-	Docs       *DocStore
-	Config     *ConfigStore
-	Time       *TimeStore
-	Templates  *TemplateStore
-	Versions   *VersionStore
-	Workspaces *WorkspaceStore
-	Chats      *ChatStore
-	Memory     *MemoryStore
-	Decisions  *DecisionStore
+	Root        string
+	Tasks       *TaskStore
+	Docs        *DocStore
+	Config      *ConfigStore
+	Time        *TimeStore
+	Templates   *TemplateStore
+	Versions    *VersionStore
+	Workspaces  *WorkspaceStore
+	Chats       *ChatStore
+	Memory      *MemoryStore
+	Decisions   *DecisionStore
+	Milestones  *MilestoneStore
+	Annotations *AnnotationStore
 
 	taskLifecycleLock *taskLifecycleLock
 }
@@ -51,6 +53,8 @@ func NewStore(root string) *Store {
 	s.Chats = &ChatStore{root: root}
 	s.Memory = &MemoryStore{root: root, globalRoot: globalRoot}
 	s.Decisions = &DecisionStore{root: root}
+	s.Milestones = &MilestoneStore{root: root}
+	s.Annotations = &AnnotationStore{root: root}
 	return s
 }
 
@@ -164,6 +168,8 @@ func (s *Store) Init(name string) error {
 		filepath.Join(s.Root, ".search"),
 		filepath.Join(s.Root, "memory"),
 		filepath.Join(s.Root, "decisions"),
+		filepath.Join(s.Root, "milestones"),
+		filepath.Join(s.Root, "annotations"),
 	}
 	for _, d := range dirs {
 		if err := os.MkdirAll(d, 0755); err != nil {
@@ -61,7 +61,8 @@ func (s *Store) collectAllEdges() edgeIndex {
 	return idx
 }
 
-// collectFieldBackedEdges extracts edges from task fields: parent, spec, fulfills.
+// collectFieldBackedEdges extracts edges from task fields: parent, dependsOn,
+// spec, fulfills.
 func (s *Store) collectFieldBackedEdges() []rawEdge {
 	tasks, err := s.Tasks.List()
 	if err != nil {
@@ -108,6 +109,30 @@ func (s *Store) collectFieldBackedEdges() []rawEdge {
 			})
 		}
 
+		// Dependencies (task → task it depends on).
+		for _, dep := range t.DependsOn {
+			depTitle := taskTitles[dep]
+			resolved := depTitle != ""
+			if !resolved {
+				if _, err := s.Tasks.Get(dep); err == nil {
+					resolved = true
+				}
+			}
+			edges = append(edges, rawEdge{
+				sourceKind:  "task",
+				sourceID:    t.ID,
+				sourceTitle: t.Title,
+				sourceKey:   srcKey,
+				targetKind:  "task",
+				targetID:    dep,
+				targetTitle: depTitle,
+				targetKey:   "task:" + dep,
+				relation:    "depends",
+				origin:      models.OriginFieldBacked,
+				resolved:    resolved,
+			})
+		}
+
 		// Spec link (task → doc).
 		if t.Spec != "" {
 			specTitle := docTitles[t.Spec]
@@ -428,15 +428,9 @@ func TestStructuralResolve_DocRenamePreservesEdges(t *testing.T) {
 		}
 	}
 
-	// Rename doc.
-	doc.Path = "specs/new-name"
-	doc.UpdatedAt = time.Now().UTC()
-	if err := store.Docs.Rename("specs/old-name", doc); err != nil {
-		t.Fatalf("rename doc: %v", err)
-	}
-	// Rewrite references (this is what the MCP handler does).
-	if err := store.Docs.RewriteDocReferences("specs/old-name", "specs/new-name", store.Tasks, store.Memory); err != nil {
-		t.Fatalf("rewrite refs: %v", err)
+	// Rename doc; this rewrites the spec references too.
+	if _, err := store.MoveDoc("specs/old-name", "specs/new-name", DocRevisionOptions{}); err != nil {
+		t.Fatalf("move doc: %v", err)
 	}
 
 	// Structural resolve on new name should find the 2 tasks.
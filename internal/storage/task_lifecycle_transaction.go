@@ -31,6 +31,10 @@ func (tx *TaskLifecycleTransaction) ListArchivedTasks() ([]*models.Task, error)
 	return tx.store.Tasks.ListArchived()
 }
 
+func (tx *TaskLifecycleTransaction) MilestoneExists(id string) bool {
+	return tx.store.Milestones.Exists(id)
+}
+
 func (tx *TaskLifecycleTransaction) HasActiveTimer(id string) (bool, error) {
 	timer, err := tx.store.Time.GetActiveTimerWithError(id)
 	return timer != nil, err
@@ -58,6 +62,11 @@ func (tx *TaskLifecycleTransaction) PatchTaskLifecycle(task *models.Task) error
 	return tx.store.Tasks.patchLifecycleUnlocked(task)
 }
 
+// CreateTask writes a new Task while the lifecycle transaction is held.
+func (tx *TaskLifecycleTransaction) CreateTask(task *models.Task) error {
+	return tx.store.Tasks.createUnlocked(task)
+}
+
 // UpdateTask writes a complete Task while the lifecycle transaction is held.
 // Callers must first read the canonical Task through this transaction.
 func (tx *TaskLifecycleTransaction) UpdateTask(task *models.Task) error {
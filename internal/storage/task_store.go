@@ -7,6 +7,7 @@ import (
 	"os"
 	"path/filepath"
 	"regexp"
+	"sort"
 	"strconv"
 	"strings"
 	"time"
@@ -39,11 +40,16 @@ type taskFrontmatter struct {
 	UpdatedAt   string   `yaml:"updatedAt"`
 	CompletedAt string   `yaml:"completedAt,omitempty"`
 	ArchivedAt  string   `yaml:"archivedAt,omitempty"`
+	StartedAt   string   `yaml:"startedAt,omitempty"`
+	StartDate   string   `yaml:"startDate,omitempty"`
+	DueDate     string   `yaml:"dueDate,omitempty"`
+	Milestone   string   `yaml:"milestone,omitempty"`
 	TimeSpent   int      `yaml:"timeSpent"`
 	Assignee    string   `yaml:"assignee,omitempty"`
 	Parent      string   `yaml:"parent,omitempty"`
 	Spec        string   `yaml:"spec,omitempty"`
 	Fulfills    []string `yaml:"fulfills,omitempty"`
+	DependsOn   []string `yaml:"dependsOn,omitempty"`
 	Order       *int     `yaml:"order,omitempty"`
 }
 
@@ -93,12 +99,17 @@ func (ts *TaskStore) listDir(dir string) ([]*models.Task, error) {
 			pathByID[task.ID] = path
 		}
 	}
-	// Build final task list and subtask relationships.
+	// Build final task list, subtask and blocks relationships.
 	var tasks []*models.Task
 	for _, t := range byID {
 		tasks = append(tasks, t)
 	}
 	for _, t := range tasks {
+		for _, dep := range t.DependsOn {
+			if blocker, ok := byID[dep]; ok {
+				blocker.Blocks = append(blocker.Blocks, t.ID)
+			}
+		}
 		if t.Parent == "" {
 			continue
 		}
@@ -106,10 +117,14 @@ func (ts *TaskStore) listDir(dir string) ([]*models.Task, error) {
 			parent.Subtasks = append(parent.Subtasks, t.ID)
 		}
 	}
+	for _, t := range tasks {
+		sort.Strings(t.Blocks)
+	}
 	return tasks, nil
 }
 
 // Get finds and parses a single task by ID, checking tasks/ then archive/.
+// Blocks is left empty; callers that show it use Dependents.
 func (ts *TaskStore) Get(id string) (*models.Task, error) {
 	path, err := ts.findFile(id)
 	if err != nil {
@@ -118,6 +133,26 @@ func (ts *TaskStore) Get(id string) (*models.Task, error) {
 	return ts.parseFile(path)
 }
 
+// Dependents returns the IDs of active tasks whose dependsOn names id, sorted
+// the same way List sorts Blocks.
+func (ts *TaskStore) Dependents(id string) ([]string, error) {
+	tasks, err := ts.List()
+	if err != nil {
+		return nil, err
+	}
+	var dependents []string
+	for _, t := range tasks {
+		for _, dep := range t.DependsOn {
+			if dep == id {
+				dependents = append(dependents, t.ID)
+				break
+			}
+		}
+	}
+	sort.Strings(dependents)
+	return dependents, nil
+}
+
 func (ts *TaskStore) findFile(id string) (string, error) {
 	for _, dir := range []string{ts.tasksDir(), ts.archiveDir()} {
 		if p, err := ts.scanForID(dir, id); err == nil {
@@ -443,6 +478,10 @@ func parseTaskContent(content string) (*models.Task, error) {
 		Parent:              fm.Parent,
 		Spec:                fm.Spec,
 		Fulfills:            normalizeStringSlice(fm.Fulfills),
+		DependsOn:           normalizeStringSlice(fm.DependsOn),
+		StartDate:           fm.StartDate,
+		DueDate:             fm.DueDate,
+		Milestone:           fm.Milestone,
 		Order:               fm.Order,
 		Description:         extractSection(body, "DESCRIPTION"),
 		ImplementationPlan:  extractSection(body, "PLAN"),
@@ -461,6 +500,11 @@ func parseTaskContent(content string) (*models.Task, error) {
 		return nil, fmt.Errorf("parse archivedAt: %w", err)
 	}
 	task.ArchivedAt = archivedAt
+	startedAt, err := parseOptionalISO(fm.StartedAt)
+	if err != nil {
+		return nil, fmt.Errorf("parse startedAt: %w", err)
+	}
+	task.StartedAt = startedAt
 	return task, nil
 }
 
@@ -505,6 +549,9 @@ func (ts *TaskStore) patchLifecycleUnlocked(task *models.Task) error {
 	} else {
 		lines = patchTaskFrontmatterScalar(lines, "archivedAt", "'"+formatISO(*task.ArchivedAt)+"'", false)
 	}
+	if task.StartedAt != nil {
+		lines = patchTaskFrontmatterScalar(lines, "startedAt", "'"+formatISO(*task.StartedAt)+"'", false)
+	}
 	patched := "---" + newline + strings.Join(lines, newline) + newline + "---" + newline + body
 	if _, err := parseTaskContent(patched); err != nil {
 		return fmt.Errorf("validate Task %q lifecycle patch: %w", task.ID, err)
@@ -565,6 +612,15 @@ func renderTask(task *models.Task) string {
 	if task.ArchivedAt != nil {
 		fmt.Fprintf(&b, "archivedAt: '%s'\n", formatISO(*task.ArchivedAt))
 	}
+	if task.StartedAt != nil {
+		fmt.Fprintf(&b, "startedAt: '%s'\n", formatISO(*task.StartedAt))
+	}
+	if task.StartDate != "" {
+		fmt.Fprintf(&b, "startDate: '%s'\n", task.StartDate)
+	}
+	if task.DueDate != "" {
+		fmt.Fprintf(&b, "dueDate: '%s'\n", task.DueDate)
+	}
 	fmt.Fprintf(&b, "timeSpent: %d\n", task.TimeSpent)
 
 	if task.Assignee != "" {
@@ -582,6 +638,15 @@ func renderTask(task *models.Task) string {
 			fmt.Fprintf(&b, "  - %s\n", f)
 		}
 	}
+	if len(task.DependsOn) > 0 {
+		b.WriteString("dependsOn:\n")
+		for _, dep := range task.DependsOn {
+			fmt.Fprintf(&b, "  - %s\n", dep)
+		}
+	}
+	if task.Milestone != "" {
+		fmt.Fprintf(&b, "milestone: %s\n", task.Milestone)
+	}
 	if task.Order != nil {
 		fmt.Fprintf(&b, "order: %d\n", *task.Order)
 	}
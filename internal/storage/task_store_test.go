@@ -37,6 +37,106 @@ func TestRenderTaskQuotesBracketPrefixedTitle(t *testing.T) {
 	}
 }
 
+func TestTaskDependsOnRoundTripAndDerivedBlocks(t *testing.T) {
+	store := NewStore(t.TempDir())
+	if err := store.Init("deps-test"); err != nil {
+		t.Fatalf("Init: %v", err)
+	}
+	now := time.Date(2026, 7, 1, 10, 0, 0, 0, time.UTC)
+	for _, task := range []*models.Task{
+		{ID: "dep001", Title: "Schema", Status: "done", Priority: "medium", CreatedAt: now, UpdatedAt: now},
+		{ID: "dep002", Title: "API", Status: "todo", Priority: "medium", DependsOn: []string{"dep001"}, CreatedAt: now, UpdatedAt: now},
+		{ID: "dep003", Title: "UI", Status: "todo", Priority: "medium", DependsOn: []string{"dep001", "dep002"}, CreatedAt: now, UpdatedAt: now},
+	} {
+		if err := store.Tasks.Create(task); err != nil {
+			t.Fatalf("Create %s: %v", task.ID, err)
+		}
+	}
+
+	got, err := store.Tasks.Get("dep003")
+	if err != nil {
+		t.Fatalf("Get: %v", err)
+	}
+	if strings.Join(got.DependsOn, ",") != "dep001,dep002" {
+		t.Fatalf("dependsOn = %v", got.DependsOn)
+	}
+
+	tasks, err := store.Tasks.List()
+	if err != nil {
+		t.Fatalf("List: %v", err)
+	}
+	blocks := map[string]int{}
+	for _, task := range tasks {
+		blocks[task.ID] = len(task.Blocks)
+	}
+	if blocks["dep001"] != 2 || blocks["dep002"] != 1 || blocks["dep003"] != 0 {
+		t.Fatalf("derived blocks = %v", blocks)
+	}
+	if dependents, err := store.Tasks.Dependents("dep001"); err != nil || strings.Join(dependents, ",") != "dep002,dep003" {
+		t.Fatalf("Dependents = %v, %v; want the same blocks as List", dependents, err)
+	}
+}
+
+func TestTaskScheduleDatesRoundTrip(t *testing.T) {
+	store := NewStore(t.TempDir())
+	if err := store.Init("schedule-test"); err != nil {
+		t.Fatalf("Init: %v", err)
+	}
+	now := time.Date(2026, 10, 19, 9, 0, 0, 0, time.UTC)
+	startedAt := now.Add(time.Hour)
+	task := &models.Task{
+		ID:        "due001",
+		Title:     "Ship the release",
+		Status:    "in-progress",
+		Priority:  "high",
+		StartDate: "2026-10-20",
+		DueDate:   "2026-10-31",
+		Milestone: "sprint-12",
+		StartedAt: &startedAt,
+		CreatedAt: now,
+		UpdatedAt: now,
+	}
+	if err := store.Tasks.Create(task); err != nil {
+		t.Fatalf("Create: %v", err)
+	}
+
+	loaded, err := store.Tasks.Get(task.ID)
+	if err != nil {
+		t.Fatalf("Get: %v", err)
+	}
+	if loaded.StartDate != "2026-10-20" || loaded.DueDate != "2026-10-31" {
+		t.Fatalf("dates = %q..%q, want 2026-10-20..2026-10-31", loaded.StartDate, loaded.DueDate)
+	}
+	if loaded.Milestone != "sprint-12" {
+		t.Fatalf("Milestone = %q, want sprint-12", loaded.Milestone)
+	}
+	if loaded.StartedAt == nil || !loaded.StartedAt.Equal(startedAt) {
+		t.Fatalf("StartedAt = %v, want %v", loaded.StartedAt, startedAt)
+	}
+
+	// Rewriting the file must keep the dates as plain strings.
+	loaded.DueDate = "2026-11-07"
+	if err := store.Tasks.Update(loaded); err != nil {
+		t.Fatalf("Update: %v", err)
+	}
+	reloaded, err := store.Tasks.Get(task.ID)
+	if err != nil {
+		t.Fatalf("Get after update: %v", err)
+	}
+	if reloaded.StartDate != "2026-10-20" || reloaded.DueDate != "2026-11-07" {
+		t.Fatalf("dates after update = %q..%q", reloaded.StartDate, reloaded.DueDate)
+	}
+
+	// Hand-edited files may leave the dates unquoted, which YAML reads as timestamps.
+	parsed, err := ParseTaskContent("---\nid: due002\ntitle: Hand edited\nstatus: todo\npriority: medium\ncreatedAt: '2026-10-19T09:00:00.000Z'\nupdatedAt: '2026-10-19T09:00:00.000Z'\nstartDate: 2026-10-20\ndueDate: 2026-10-31\n---\n")
+	if err != nil {
+		t.Fatalf("ParseTaskContent: %v", err)
+	}
+	if parsed.StartDate != "2026-10-20" || parsed.DueDate != "2026-10-31" {
+		t.Fatalf("unquoted dates = %q..%q", parsed.StartDate, parsed.DueDate)
+	}
+}
+
 func TestTaskLifecycleMetadataRoundTripAndArchiveState(t *testing.T) {
 	root := t.TempDir()
 	store := NewStore(root)
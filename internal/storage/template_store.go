@@ -30,6 +30,7 @@ type templateYAML struct {
 	Prompts     []models.TemplatePrompt `yaml:"prompts"`
 	Actions     []models.TemplateAction `yaml:"actions"`
 	Messages    *models.TemplateMessages `yaml:"messages"`
+	Document    *models.TemplateDocument `yaml:"document"`
 }
 
 // List returns all templates (local + imported).
@@ -158,6 +159,7 @@ func (ts *TemplateStore) parseTemplate(name, dir string, imported bool, importNa
 		Prompts:     ty.Prompts,
 		Actions:     ty.Actions,
 		Messages:    ty.Messages,
+		Document:    ty.Document,
 		Path:        dir,
 		IsImported:  imported,
 		ImportName:  importName,
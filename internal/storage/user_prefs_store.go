@@ -15,6 +15,7 @@ import (
 // UserPrefs holds user-level preferences that apply across all projects.
 type UserPrefs struct {
 	OpenCodeModels *models.OpenCodeModelSettings `json:"opencodeModels,omitempty"`
+	TaskViews      []models.TaskView             `json:"taskViews,omitempty"`
 }
 
 // UserPrefsStore reads and writes ~/.knowns/preferences.json.
@@ -135,9 +135,14 @@ func (vs *VersionStore) TrackChanges(oldTask, newTask *models.Task) []models.Tas
 	diff("parent", oldTask.Parent, newTask.Parent)
 	diff("spec", oldTask.Spec, newTask.Spec)
 	diff("fulfills", oldTask.Fulfills, newTask.Fulfills)
+	diff("dependsOn", oldTask.DependsOn, newTask.DependsOn)
+	diff("startDate", oldTask.StartDate, newTask.StartDate)
+	diff("dueDate", oldTask.DueDate, newTask.DueDate)
+	diff("milestone", oldTask.Milestone, newTask.Milestone)
 	diff("order", oldTask.Order, newTask.Order)
 	diff("completedAt", oldTask.CompletedAt, newTask.CompletedAt)
 	diff("archivedAt", oldTask.ArchivedAt, newTask.ArchivedAt)
+	diff("startedAt", oldTask.StartedAt, newTask.StartedAt)
 	diff("archived", oldTask.Archived, newTask.Archived)
 	diff("timeSpent", oldTask.TimeSpent, newTask.TimeSpent)
 
@@ -184,6 +189,18 @@ func TaskToSnapshot(task *models.Task) map[string]any {
 	if len(task.Fulfills) > 0 {
 		snap["fulfills"] = task.Fulfills
 	}
+	if len(task.DependsOn) > 0 {
+		snap["dependsOn"] = task.DependsOn
+	}
+	if task.StartDate != "" {
+		snap["startDate"] = task.StartDate
+	}
+	if task.DueDate != "" {
+		snap["dueDate"] = task.DueDate
+	}
+	if task.Milestone != "" {
+		snap["milestone"] = task.Milestone
+	}
 	if task.Order != nil {
 		snap["order"] = *task.Order
 	}
@@ -193,6 +210,9 @@ func TaskToSnapshot(task *models.Task) map[string]any {
 	if task.ArchivedAt != nil {
 		snap["archivedAt"] = *task.ArchivedAt
 	}
+	if task.StartedAt != nil {
+		snap["startedAt"] = *task.StartedAt
+	}
 	return snap
 }
 
@@ -304,8 +324,11 @@ type docVersionIndex struct {
 
 // DocRevisionOptions carries optional context for document history entries.
 type DocRevisionOptions struct {
-	Section      string
-	Actor        string
+	Section string
+	Actor   string
+	// Actors lists everyone whose edits the revision merges, for co-edited
+	// saves.
+	Actors       []string
 	Source       string
 	AuditEventID string
 	SessionID    string
@@ -418,6 +441,7 @@ func (vs *VersionStore) SaveDocRevisionWithOptions(oldDoc, newDoc *models.Doc, o
 		PreviousPath:  previousDocPath(oldPath, currentPath),
 		Author:        opts.Actor,
 		Actor:         opts.Actor,
+		Actors:        opts.Actors,
 		Source:        opts.Source,
 		AuditEventID:  opts.AuditEventID,
 		SessionID:     opts.SessionID,
@@ -504,6 +528,122 @@ func (vs *VersionStore) GetDocRevisionDiff(docPath, revisionID string) (*models.
 	}, nil
 }
 
+// CurrentDocRevision names the working copy in a revision comparison.
+const CurrentDocRevision = "current"
+
+// CompareDocRevisions reconstructs the document at two points of its history.
+// Either side may be CurrentDocRevision, which resolves to current (the doc as
+// stored on disk). An empty toID compares against the working copy, or the
+// latest revision when current is nil; an empty fromID resolves to the
+// revision before to. ChangedScopes covers every revision between the two.
+// A non-empty section narrows both contents to that markdown section.
+func (vs *VersionStore) CompareDocRevisions(docPath, fromID, toID, section string, current *models.Doc) (*models.DocRevisionComparison, error) {
+	h, err := vs.GetDocHistory(docPath)
+	if err != nil {
+		return nil, err
+	}
+	if len(h.Versions) == 0 {
+		return nil, fmt.Errorf("doc history is empty")
+	}
+	toID = strings.TrimSpace(toID)
+	if toID == "" && current != nil {
+		toID = CurrentDocRevision
+	}
+	to, toIdx, err := docRevisionSide(h, toID, current)
+	if err != nil {
+		return nil, err
+	}
+	fromID = strings.TrimSpace(fromID)
+	if fromID == "" {
+		if toIdx == 0 {
+			return nil, fmt.Errorf("revision %q has no predecessor", to.RevisionID)
+		}
+		fromID = h.Versions[toIdx-1].ID
+	}
+	from, fromIdx, err := docRevisionSide(h, fromID, current)
+	if err != nil {
+		return nil, err
+	}
+
+	// Revisions (lo, hi] are the ones that turn one side into the other.
+	lo, hi := fromIdx, toIdx
+	if lo > hi {
+		lo, hi = hi, lo
+	}
+	var scopes []models.DocChangeScope
+	for i := lo + 1; i <= hi && i < len(h.Versions); i++ {
+		for _, scope := range h.Versions[i].ChangedScopes {
+			scopes = append(scopes, models.DocChangeScope{Type: scope.Type, Field: scope.Field, Section: scope.Section, Summary: scope.Summary})
+		}
+	}
+
+	section = strings.TrimSpace(section)
+	if section != "" {
+		from.Content = markdownSectionText(from.Content, section)
+		to.Content = markdownSectionText(to.Content, section)
+	}
+
+	return &models.DocRevisionComparison{
+		DocID:         h.DocID,
+		DocPath:       h.DocPath,
+		CurrentPath:   h.CurrentPath,
+		Section:       section,
+		From:          from,
+		To:            to,
+		ChangedScopes: dedupeDocChangeScopes(scopes),
+		RetentionGaps: h.RetentionGaps,
+	}, nil
+}
+
+// docRevisionSide resolves one side of a comparison and its position in the
+// history; the working copy sits after the last retained revision.
+func docRevisionSide(h *models.DocVersionHistory, revisionID string, current *models.Doc) (models.DocRevisionState, int, error) {
+	if revisionID == CurrentDocRevision {
+		if current == nil {
+			return models.DocRevisionState{}, -1, fmt.Errorf("working copy is not available")
+		}
+		return docRevisionState(CurrentDocRevision, current), len(h.Versions), nil
+	}
+	idx, err := findDocVersionIndex(h, revisionID)
+	if err != nil {
+		return models.DocRevisionState{}, -1, err
+	}
+	version := h.Versions[idx]
+	doc, err := resolveDocStateFromHistory(h, version.ID)
+	if err != nil {
+		return models.DocRevisionState{}, -1, err
+	}
+	state := docRevisionState(version.ID, doc)
+	state.Version = version.Version
+	timestamp := version.Timestamp
+	state.Timestamp = &timestamp
+	state.Actor = firstNonEmpty(version.Actor, version.Author)
+	return state, idx, nil
+}
+
+// markdownSectionText is the text of one section, or empty when the content
+// has no such section.
+func markdownSectionText(content, sectionRef string) string {
+	if found, ok := findMarkdownSection(content, sectionRef); ok {
+		return found.Text
+	}
+	return ""
+}
+
+func docRevisionState(revisionID string, doc *models.Doc) models.DocRevisionState {
+	tags := doc.Tags
+	if tags == nil {
+		tags = []string{}
+	}
+	return models.DocRevisionState{
+		RevisionID:  revisionID,
+		Title:       doc.Title,
+		Description: doc.Description,
+		Tags:        tags,
+		Content:     doc.Content,
+	}
+}
+
 // ApplyDocHistoryRetention purges old retained detail while converting the
 // first retained revision into a checkpoint so retained history stays restorable.
 func (vs *VersionStore) ApplyDocHistoryRetention(docPath string, policy DocHistoryRetentionPolicy) (*models.DocVersionHistory, error) {
@@ -1426,6 +1566,12 @@ func headingLevel(line string) int {
 	return level
 }
 
+// DocHash returns the hash of doc's tracked fields, as recorded in revision
+// BaseHash and NewHash. Clients send it back to detect stale writes.
+func DocHash(doc *models.Doc) string {
+	return hashDoc(doc)
+}
+
 func hashDoc(doc *models.Doc) string {
 	if doc == nil {
 		return ""
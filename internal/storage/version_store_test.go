@@ -1,6 +1,7 @@
 package storage
 
 import (
+	"fmt"
 	"os"
 	"path/filepath"
 	"testing"
@@ -464,6 +465,130 @@ func TestRestoreDocRestoresHistoricalStateAndRecordsRevision(t *testing.T) {
 	}
 }
 
+func TestCompareDocRevisionsSpansRevisionsAndWorkingCopy(t *testing.T) {
+	store := newVersionTestStore(t)
+	doc := &models.Doc{Path: "guides/compare", Title: "Compare", Content: "## One\nfirst\n\n## Two\nfirst"}
+	if err := store.Docs.Create(doc); err != nil {
+		t.Fatalf("create doc: %v", err)
+	}
+	if err := store.Versions.SaveDocRevision(nil, doc); err != nil {
+		t.Fatalf("save create revision: %v", err)
+	}
+	for _, edit := range []struct{ section, content string }{
+		{"One", "## One\nsecond\n\n## Two\nfirst"},
+		{"Two", "## One\nsecond\n\n## Two\nsecond"},
+	} {
+		oldDoc := *doc
+		doc.Content = edit.content
+		if err := store.Docs.Update(doc); err != nil {
+			t.Fatalf("update doc: %v", err)
+		}
+		if err := store.Versions.SaveDocRevisionWithOptions(&oldDoc, doc, DocRevisionOptions{Section: edit.section}); err != nil {
+			t.Fatalf("save revision: %v", err)
+		}
+	}
+
+	cmp, err := store.Versions.CompareDocRevisions(doc.Path, "v1", "v3", "", nil)
+	if err != nil {
+		t.Fatalf("compare: %v", err)
+	}
+	if cmp.From.Content != "## One\nfirst\n\n## Two\nfirst" || cmp.To.Content != doc.Content || cmp.From.Version != 1 || cmp.To.Version != 3 {
+		t.Fatalf("comparison sides = %#v / %#v", cmp.From, cmp.To)
+	}
+	if !hasDocSectionScope(cmp.ChangedScopes, "One") || !hasDocSectionScope(cmp.ChangedScopes, "Two") {
+		t.Fatalf("changed scopes = %#v, want both sections", cmp.ChangedScopes)
+	}
+
+	scoped, err := store.Versions.CompareDocRevisions(doc.Path, "v1", "v3", "Two", nil)
+	if err != nil || scoped.From.Content != "## Two\nfirst" || scoped.To.Content != "## Two\nsecond" {
+		t.Fatalf("section comparison = %#v, %v", scoped, err)
+	}
+
+	// Swapped sides cover the same revisions.
+	swapped, err := store.Versions.CompareDocRevisions(doc.Path, "v3", "v1", "", nil)
+	if err != nil || len(swapped.ChangedScopes) != len(cmp.ChangedScopes) {
+		t.Fatalf("swapped compare = %#v, %v", swapped, err)
+	}
+
+	working := *doc
+	working.Content = "unsaved"
+	cmp, err = store.Versions.CompareDocRevisions(doc.Path, "", "", "", &working)
+	if err != nil {
+		t.Fatalf("compare working copy: %v", err)
+	}
+	if cmp.To.RevisionID != CurrentDocRevision || cmp.To.Content != "unsaved" || cmp.From.Version != 3 || len(cmp.ChangedScopes) != 0 {
+		t.Fatalf("working copy comparison = %#v", cmp)
+	}
+
+	if _, err := store.Versions.CompareDocRevisions(doc.Path, "v1", CurrentDocRevision, "", nil); err == nil {
+		t.Fatal("comparing the working copy without one should fail")
+	}
+}
+
+func TestBlameDocAttributesLinesToLastChangingRevision(t *testing.T) {
+	store := newVersionTestStore(t)
+	doc := &models.Doc{Path: "guides/blame", Title: "Blame", Content: "## Intro\nfirst\nsecond\n\n## Usage\nrun it"}
+	if err := store.Docs.Create(doc); err != nil {
+		t.Fatalf("create doc: %v", err)
+	}
+	if err := store.Versions.SaveDocRevisionWithOptions(nil, doc, DocRevisionOptions{Actor: "alice", Source: "webui"}); err != nil {
+		t.Fatalf("save create revision: %v", err)
+	}
+	oldDoc := *doc
+	doc.Content = "## Intro\nfirst\nsecond, revised\n\n## Usage\nrun it"
+	if err := store.Docs.Update(doc); err != nil {
+		t.Fatalf("update doc: %v", err)
+	}
+	if err := store.Versions.SaveDocRevisionWithOptions(&oldDoc, doc, DocRevisionOptions{Actor: "agent", Source: "mcp", SessionID: "sess-1"}); err != nil {
+		t.Fatalf("save update revision: %v", err)
+	}
+
+	working := *doc
+	working.Content = doc.Content + "\nrun it again"
+	blame, err := store.Versions.BlameDoc(doc.Path, &working)
+	if err != nil {
+		t.Fatalf("blame: %v", err)
+	}
+	want := []string{"v1", "v1", "v2", "v1", "v1", "v1", ""}
+	if len(blame.Lines) != len(want) {
+		t.Fatalf("blame lines = %#v", blame.Lines)
+	}
+	for i, line := range blame.Lines {
+		if line.RevisionID != want[i] {
+			t.Fatalf("line %d %q revision = %q, want %q", line.Line, line.Text, line.RevisionID, want[i])
+		}
+	}
+	if len(blame.Sections) != 2 || blame.Sections[0].RevisionID != "v2" || blame.Sections[1].RevisionID != "" {
+		t.Fatalf("blame sections = %#v", blame.Sections)
+	}
+	if len(blame.Revisions) != 2 || blame.Revisions[1].Actor != "agent" || blame.Revisions[1].SessionID != "sess-1" {
+		t.Fatalf("blame revisions = %#v", blame.Revisions)
+	}
+}
+
+func TestMatchLinesAttributesOversizedRewritesAsOneBlock(t *testing.T) {
+	// "shared" would align under a full LCS, but the changed block is too
+	// large to build the table for.
+	a := []string{"# Title", "shared"}
+	b := []string{"# Title"}
+	for i := 0; i < 2000; i++ {
+		a = append(a, fmt.Sprintf("old %d", i))
+		b = append(b, fmt.Sprintf("new %d", i), "shared")
+	}
+	a = append(a, "footer")
+	b = append(b, "footer")
+
+	match := matchLines(a, b)
+	if match[0] != 0 || match[len(a)-1] != len(b)-1 {
+		t.Fatalf("prefix/suffix matches = %d, %d", match[0], match[len(a)-1])
+	}
+	for i := 1; i < len(a)-1; i++ {
+		if match[i] != -1 {
+			t.Fatalf("line %d %q matched %d; an oversized changed block should not be aligned", i, a[i], match[i])
+		}
+	}
+}
+
 func TestApplyDocHistoryRetentionMaxVersionsPreservesCheckpointAndGap(t *testing.T) {
 	store := newVersionTestStore(t)
 	doc := &models.Doc{Path: "guides/retention-count", Title: "Retention", Content: "v1"}
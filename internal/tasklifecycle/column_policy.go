@@ -0,0 +1,65 @@
+package tasklifecycle
+
+import (
+	"fmt"
+
+	"github.com/howznguyen/knowns/internal/models"
+)
+
+// Column policy rule identifiers, shared with the board so a rejected drop
+// and a rejected API update name the same rule.
+const (
+	ColumnRuleWIPLimit          = "wip-limit"
+	ColumnRuleRequireACComplete = "require-ac-complete"
+	ColumnRuleRequireSpec       = "require-spec"
+	ColumnRuleRequireAssignee   = "require-assignee"
+)
+
+// ColumnPolicyError reports a status change rejected by a column policy.
+type ColumnPolicyError struct {
+	Status  string
+	Rule    string
+	Message string
+}
+
+func (err *ColumnPolicyError) Error() string {
+	if err == nil {
+		return ""
+	}
+	return err.Message
+}
+
+// CheckColumnPolicy validates that task may enter status under policies.
+// active is the set of live Tasks used for the WIP count; task itself is not
+// counted, so re-saving a Task already in the column never trips the limit.
+func CheckColumnPolicy(policies map[string]models.ColumnPolicy, task *models.Task, status string, active []*models.Task) error {
+	policy, ok := policies[status]
+	if !ok || task == nil {
+		return nil
+	}
+	if policy.RequireAssignee && task.Assignee == "" {
+		return &ColumnPolicyError{Status: status, Rule: ColumnRuleRequireAssignee, Message: fmt.Sprintf("Task must have an assignee before moving to %q", status)}
+	}
+	if policy.RequireSpec && task.Spec == "" {
+		return &ColumnPolicyError{Status: status, Rule: ColumnRuleRequireSpec, Message: fmt.Sprintf("Task must link a spec before moving to %q", status)}
+	}
+	if policy.RequireACComplete {
+		for _, criterion := range task.AcceptanceCriteria {
+			if !criterion.Completed {
+				return &ColumnPolicyError{Status: status, Rule: ColumnRuleRequireACComplete, Message: fmt.Sprintf("All acceptance criteria must be checked before moving to %q", status)}
+			}
+		}
+	}
+	if policy.WIPLimit > 0 {
+		count := 0
+		for _, other := range active {
+			if other != nil && other.ID != task.ID && other.Status == status {
+				count++
+			}
+		}
+		if count >= policy.WIPLimit {
+			return &ColumnPolicyError{Status: status, Rule: ColumnRuleWIPLimit, Message: fmt.Sprintf("%q is at its WIP limit of %d", status, policy.WIPLimit)}
+		}
+	}
+	return nil
+}
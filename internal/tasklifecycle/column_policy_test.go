@@ -0,0 +1,71 @@
+package tasklifecycle
+
+import (
+	"errors"
+	"testing"
+	"time"
+
+	"github.com/howznguyen/knowns/internal/models"
+)
+
+func TestUpdateTaskEnforcesColumnPolicies(t *testing.T) {
+	store := newPublicLifecycleStore(t)
+	project, err := store.Config.Load()
+	if err != nil {
+		t.Fatal(err)
+	}
+	project.Settings.ColumnPolicies = map[string]models.ColumnPolicy{
+		"in-progress": {WIPLimit: 1, RequireAssignee: true},
+		"done":        {RequireACComplete: true},
+	}
+	if err := store.Config.Save(project); err != nil {
+		t.Fatal(err)
+	}
+	createPublicLifecycleTask(t, store, "policy-a", "todo", time.Time{})
+	createPublicLifecycleTask(t, store, "policy-b", "todo", time.Time{})
+	service := New(store)
+
+	moveTo := func(id, status string, mutate func(task *models.Task)) error {
+		_, err := service.UpdateTask(t.Context(), id, TaskUpdateOptions{Mutate: func(task *models.Task) error {
+			if mutate != nil {
+				mutate(task)
+			}
+			task.Status = status
+			return nil
+		}})
+		return err
+	}
+	wantRule := func(err error, rule string) {
+		t.Helper()
+		var policyErr *ColumnPolicyError
+		if !errors.As(err, &policyErr) || policyErr.Rule != rule {
+			t.Fatalf("error = %v, want rule %q", err, rule)
+		}
+	}
+
+	wantRule(moveTo("policy-a", "in-progress", nil), ColumnRuleRequireAssignee)
+	if err := moveTo("policy-a", "in-progress", func(task *models.Task) { task.Assignee = "@alice" }); err != nil {
+		t.Fatalf("assigned move: %v", err)
+	}
+	wantRule(moveTo("policy-b", "in-progress", func(task *models.Task) { task.Assignee = "@bob" }), ColumnRuleWIPLimit)
+	if task, err := store.Tasks.Get("policy-b"); err != nil || task.Status != "todo" || task.Assignee != "" {
+		t.Fatalf("rejected update was persisted: %+v, %v", task, err)
+	}
+
+	// Edits that keep the status are not re-checked against the column.
+	if _, err := service.UpdateTask(t.Context(), "policy-a", TaskUpdateOptions{Mutate: func(task *models.Task) error {
+		task.Assignee = ""
+		return nil
+	}}); err != nil {
+		t.Fatalf("same-status edit: %v", err)
+	}
+
+	wantRule(moveTo("policy-b", "done", func(task *models.Task) {
+		task.AcceptanceCriteria = []models.AcceptanceCriterion{{Text: "ships", Completed: false}}
+	}), ColumnRuleRequireACComplete)
+	if err := moveTo("policy-b", "done", func(task *models.Task) {
+		task.AcceptanceCriteria = []models.AcceptanceCriterion{{Text: "ships", Completed: true}}
+	}); err != nil {
+		t.Fatalf("complete move: %v", err)
+	}
+}
@@ -0,0 +1,109 @@
+package tasklifecycle
+
+import (
+	"fmt"
+	"strings"
+
+	"github.com/howznguyen/knowns/internal/models"
+)
+
+// DependencyError reports a dependsOn list that names the Task itself, an
+// unknown Task, or closes a cycle in the dependency graph.
+type DependencyError struct {
+	TaskID string
+	// Cycle is the offending path (first ID repeated at the end) when the
+	// error is a cycle, nil otherwise.
+	Cycle   []string
+	Message string
+}
+
+func (err *DependencyError) Error() string {
+	if err == nil {
+		return ""
+	}
+	return err.Message
+}
+
+// ValidateDependencies checks task.DependsOn against the other Tasks. exists
+// resolves IDs missing from tasks (for example archived Tasks), which may be
+// depended on but can never be part of a cycle.
+func ValidateDependencies(task *models.Task, tasks []*models.Task, exists func(id string) bool) error {
+	if task == nil {
+		return nil
+	}
+	graph := make(map[string][]string, len(tasks)+1)
+	for _, other := range tasks {
+		if other != nil {
+			graph[other.ID] = other.DependsOn
+		}
+	}
+	graph[task.ID] = task.DependsOn
+
+	for _, dep := range task.DependsOn {
+		if dep == task.ID {
+			return &DependencyError{TaskID: task.ID, Message: fmt.Sprintf("Task %q cannot depend on itself", task.ID)}
+		}
+		if _, ok := graph[dep]; !ok && (exists == nil || !exists(dep)) {
+			return &DependencyError{TaskID: task.ID, Message: fmt.Sprintf("dependency %q: task not found", dep)}
+		}
+	}
+	if cycle := dependencyCycleFrom(graph, task.ID); cycle != nil {
+		return &DependencyError{
+			TaskID:  task.ID,
+			Cycle:   cycle,
+			Message: "dependency cycle: " + strings.Join(cycle, " → "),
+		}
+	}
+	return nil
+}
+
+// dependencyCycleFrom returns a cycle through start, or nil. Only cycles
+// through start are possible when every other Task was already acyclic.
+func dependencyCycleFrom(graph map[string][]string, start string) []string {
+	visited := map[string]bool{}
+	var path []string
+	var visit func(id string) bool
+	visit = func(id string) bool {
+		path = append(path, id)
+		for _, dep := range graph[id] {
+			if dep == start {
+				path = append(path, start)
+				return true
+			}
+			if visited[dep] {
+				continue
+			}
+			visited[dep] = true
+			if visit(dep) {
+				return true
+			}
+		}
+		path = path[:len(path)-1]
+		return false
+	}
+	if visit(start) {
+		return path
+	}
+	return nil
+}
+
+// OpenDependencies returns the IDs in task.DependsOn whose Task is not done.
+// Unknown IDs are treated as done so a deleted dependency never blocks work.
+func OpenDependencies(task *models.Task, tasks []*models.Task) []string {
+	if task == nil || len(task.DependsOn) == 0 {
+		return nil
+	}
+	byID := make(map[string]*models.Task, len(tasks))
+	for _, other := range tasks {
+		if other != nil {
+			byID[other.ID] = other
+		}
+	}
+	var open []string
+	for _, dep := range task.DependsOn {
+		if other, ok := byID[dep]; ok && !other.Archived && other.Status != "done" {
+			open = append(open, dep)
+		}
+	}
+	return open
+}
@@ -0,0 +1,60 @@
+package tasklifecycle
+
+import (
+	"errors"
+	"strings"
+	"testing"
+	"time"
+
+	"github.com/howznguyen/knowns/internal/models"
+)
+
+func TestUpdateTaskRejectsInvalidDependencies(t *testing.T) {
+	store := newPublicLifecycleStore(t)
+	for _, id := range []string{"dep-a", "dep-b", "dep-c"} {
+		createPublicLifecycleTask(t, store, id, "todo", time.Time{})
+	}
+	service := New(store)
+	setDeps := func(id string, deps ...string) error {
+		_, err := service.UpdateTask(t.Context(), id, TaskUpdateOptions{Mutate: func(task *models.Task) error {
+			task.DependsOn = deps
+			return nil
+		}})
+		return err
+	}
+
+	if err := setDeps("dep-b", "dep-a"); err != nil {
+		t.Fatalf("b depends on a: %v", err)
+	}
+	if err := setDeps("dep-c", "dep-b"); err != nil {
+		t.Fatalf("c depends on b: %v", err)
+	}
+
+	err := setDeps("dep-a", "dep-c")
+	var depErr *DependencyError
+	if !errors.As(err, &depErr) || strings.Join(depErr.Cycle, ",") != "dep-a,dep-c,dep-b,dep-a" {
+		t.Fatalf("cycle error = %#v", err)
+	}
+	if task, err := store.Tasks.Get("dep-a"); err != nil || len(task.DependsOn) != 0 {
+		t.Fatalf("rejected dependsOn was persisted: %+v, %v", task, err)
+	}
+
+	if err := setDeps("dep-a", "dep-a"); !errors.As(err, &depErr) {
+		t.Fatalf("self dependency error = %v", err)
+	}
+	if err := setDeps("dep-a", "missing"); !errors.As(err, &depErr) {
+		t.Fatalf("unknown dependency error = %v", err)
+	}
+}
+
+func TestOpenDependenciesIgnoresDoneArchivedAndUnknownTasks(t *testing.T) {
+	task := &models.Task{ID: "t", DependsOn: []string{"open", "done", "archived", "gone"}}
+	tasks := []*models.Task{
+		{ID: "open", Status: "in-progress"},
+		{ID: "done", Status: "done"},
+		{ID: "archived", Status: "todo", Archived: true},
+	}
+	if got := OpenDependencies(task, tasks); strings.Join(got, ",") != "open" {
+		t.Fatalf("OpenDependencies = %v", got)
+	}
+}
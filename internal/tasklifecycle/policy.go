@@ -13,12 +13,16 @@ import (
 
 // ApplyStatusTransition records the completion clock when entering done and
 // clears stale live lifecycle clocks when leaving done. Historical values stay
-// available through Task version history.
+// available through Task version history. The start clock is recorded the
+// first time the Task enters in-progress and never cleared.
 func ApplyStatusTransition(task *models.Task, status string, now time.Time) {
 	if task == nil || task.Status == status {
 		return
 	}
 	now = now.UTC()
+	if status == "in-progress" && task.StartedAt == nil {
+		task.StartedAt = timePointer(now)
+	}
 	if status == "done" {
 		task.CompletedAt = timePointer(now)
 		task.ArchivedAt = nil
@@ -178,10 +182,13 @@ func cloneTask(task *models.Task) *models.Task {
 	clone.Labels = append([]string(nil), task.Labels...)
 	clone.Subtasks = append([]string(nil), task.Subtasks...)
 	clone.Fulfills = append([]string(nil), task.Fulfills...)
+	clone.DependsOn = append([]string(nil), task.DependsOn...)
+	clone.Blocks = append([]string(nil), task.Blocks...)
 	clone.AcceptanceCriteria = append([]models.AcceptanceCriterion(nil), task.AcceptanceCriteria...)
 	clone.TimeEntries = append([]models.TimeEntry(nil), task.TimeEntries...)
 	clone.CompletedAt = cloneTime(task.CompletedAt)
 	clone.ArchivedAt = cloneTime(task.ArchivedAt)
+	clone.StartedAt = cloneTime(task.StartedAt)
 	return &clone
 }
 
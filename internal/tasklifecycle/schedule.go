@@ -0,0 +1,64 @@
+package tasklifecycle
+
+import (
+	"fmt"
+	"time"
+
+	"github.com/howznguyen/knowns/internal/models"
+)
+
+// ScheduleError reports a planned StartDate or DueDate that is not a
+// calendar date, a DueDate before the StartDate, or an unknown Milestone.
+type ScheduleError struct {
+	Field   string
+	Message string
+}
+
+func (err *ScheduleError) Error() string {
+	if err == nil {
+		return ""
+	}
+	return err.Message
+}
+
+// ValidateSchedule checks the planned dates of task. Both are optional.
+func ValidateSchedule(task *models.Task) error {
+	if task == nil {
+		return nil
+	}
+	start, err := parseScheduleDate("startDate", task.StartDate)
+	if err != nil {
+		return err
+	}
+	due, err := parseScheduleDate("dueDate", task.DueDate)
+	if err != nil {
+		return err
+	}
+	if start != nil && due != nil && due.Before(*start) {
+		return &ScheduleError{Field: "dueDate", Message: fmt.Sprintf("dueDate %s is before startDate %s", task.DueDate, task.StartDate)}
+	}
+	return nil
+}
+
+// ValidateMilestone checks that task.Milestone, when set, names an existing
+// Milestone.
+func ValidateMilestone(task *models.Task, exists func(id string) bool) error {
+	if task == nil || task.Milestone == "" {
+		return nil
+	}
+	if exists == nil || !exists(task.Milestone) {
+		return &ScheduleError{Field: "milestone", Message: fmt.Sprintf("milestone %q not found", task.Milestone)}
+	}
+	return nil
+}
+
+func parseScheduleDate(field, value string) (*time.Time, error) {
+	if value == "" {
+		return nil, nil
+	}
+	parsed, err := time.Parse(models.TaskDateLayout, value)
+	if err != nil {
+		return nil, &ScheduleError{Field: field, Message: fmt.Sprintf("%s %q must be a date in YYYY-MM-DD form", field, value)}
+	}
+	return &parsed, nil
+}
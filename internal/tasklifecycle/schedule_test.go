@@ -0,0 +1,102 @@
+package tasklifecycle
+
+import (
+	"errors"
+	"testing"
+	"time"
+
+	"github.com/howznguyen/knowns/internal/models"
+)
+
+func TestValidateSchedule(t *testing.T) {
+	for _, tc := range []struct {
+		start, due string
+		field      string
+	}{
+		{"", "", ""},
+		{"2026-10-01", "", ""},
+		{"2026-10-01", "2026-10-01", ""},
+		{"2026-10-01", "2026-10-31", ""},
+		{"2026-10-31", "2026-10-01", "dueDate"},
+		{"10/01/2026", "", "startDate"},
+		{"", "2026-10-01T00:00:00Z", "dueDate"},
+	} {
+		err := ValidateSchedule(&models.Task{StartDate: tc.start, DueDate: tc.due})
+		var scheduleErr *ScheduleError
+		if tc.field == "" && err != nil {
+			t.Fatalf("ValidateSchedule(%q, %q) = %v", tc.start, tc.due, err)
+		}
+		if tc.field != "" && (!errors.As(err, &scheduleErr) || scheduleErr.Field != tc.field) {
+			t.Fatalf("ValidateSchedule(%q, %q) = %v, want %s error", tc.start, tc.due, err, tc.field)
+		}
+	}
+}
+
+func TestUpdateTaskRecordsStartedAtOnce(t *testing.T) {
+	store := newPublicLifecycleStore(t)
+	createPublicLifecycleTask(t, store, "sched", "todo", time.Time{})
+	service := New(store)
+	setStatus := func(status string) *models.Task {
+		updated, err := service.UpdateTask(t.Context(), "sched", TaskUpdateOptions{Mutate: func(task *models.Task) error {
+			task.Status = status
+			return nil
+		}})
+		if err != nil {
+			t.Fatalf("set status %s: %v", status, err)
+		}
+		return updated
+	}
+
+	started := setStatus("in-progress")
+	if started.StartedAt == nil {
+		t.Fatal("entering in-progress did not record startedAt")
+	}
+	first := started.StartedAt.Truncate(time.Millisecond)
+	setStatus("todo")
+	again := setStatus("in-progress")
+	if again.StartedAt == nil || !again.StartedAt.Equal(first) {
+		t.Fatalf("startedAt = %v, want first start %v", again.StartedAt, first)
+	}
+	if persisted, err := store.Tasks.Get("sched"); err != nil || persisted.StartedAt == nil || !persisted.StartedAt.Equal(first) {
+		t.Fatalf("persisted startedAt = %+v, %v", persisted, err)
+	}
+
+	if _, err := service.UpdateTask(t.Context(), "sched", TaskUpdateOptions{Mutate: func(task *models.Task) error {
+		task.StartDate = "2026-10-20"
+		task.DueDate = "2026-10-10"
+		return nil
+	}}); !errors.As(err, new(*ScheduleError)) {
+		t.Fatalf("due before start error = %v", err)
+	}
+}
+
+func TestUpdateTaskRejectsUnknownMilestone(t *testing.T) {
+	store := newPublicLifecycleStore(t)
+	createPublicLifecycleTask(t, store, "mile", "todo", time.Time{})
+	if err := store.Milestones.Create(&models.Milestone{Name: "Sprint 1", StartDate: "2026-10-19", EndDate: "2026-10-30"}); err != nil {
+		t.Fatalf("create milestone: %v", err)
+	}
+	service := New(store)
+	assign := func(milestone string) (*models.Task, error) {
+		return service.UpdateTask(t.Context(), "mile", TaskUpdateOptions{Mutate: func(task *models.Task) error {
+			task.Milestone = milestone
+			return nil
+		}})
+	}
+
+	_, err := assign("sprint-2")
+	var scheduleErr *ScheduleError
+	if !errors.As(err, &scheduleErr) || scheduleErr.Field != "milestone" {
+		t.Fatalf("assign unknown milestone = %v, want milestone ScheduleError", err)
+	}
+	updated, err := assign("sprint-1")
+	if err != nil {
+		t.Fatalf("assign sprint-1: %v", err)
+	}
+	if updated.Milestone != "sprint-1" {
+		t.Fatalf("Milestone = %q, want sprint-1", updated.Milestone)
+	}
+	if updated, err = assign(""); err != nil || updated.Milestone != "" {
+		t.Fatalf("unassign = %v, %v", updated, err)
+	}
+}
@@ -5,6 +5,8 @@ import (
 	"crypto/rand"
 	"errors"
 	"fmt"
+	"io/fs"
+	"slices"
 	"sort"
 	"strings"
 	"time"
@@ -535,6 +537,24 @@ func (service *Service) populateResultLifecycle(result *Result) {
 	result.ArchivedAt = cloneTime(task.ArchivedAt)
 }
 
+// CreateTask writes a new Task after checking the column policy of its initial
+// status and its dependencies under the lifecycle transaction, so a create
+// cannot take a WIP slot an update is also competing for. Callers record the
+// initial version and index the Task.
+func (service *Service) CreateTask(ctx context.Context, task *models.Task) error {
+	return service.store.WithTaskLifecycleTransaction(ctx, func(tx *storage.TaskLifecycleTransaction) error {
+		if err := service.checkColumnPolicy(tx, task, task.Status); err != nil {
+			return err
+		}
+		if len(task.DependsOn) > 0 {
+			if err := validateDependenciesInTransaction(tx, task); err != nil {
+				return err
+			}
+		}
+		return tx.CreateTask(task)
+	})
+}
+
 // UpdateTask applies an arbitrary public Task patch to a fresh canonical copy,
 // including status lifecycle clocks, and persists Task plus history under one
 // lifecycle transaction. Index hooks run only after the lock is released.
@@ -561,7 +581,28 @@ func (service *Service) UpdateTask(ctx context.Context, taskID string, options T
 		candidate.Archived = current.Archived
 		candidate.CompletedAt = cloneTime(current.CompletedAt)
 		candidate.ArchivedAt = cloneTime(current.ArchivedAt)
+		candidate.StartedAt = cloneTime(current.StartedAt)
 		candidate.Status = current.Status
+		if requestedStatus != current.Status {
+			if err := service.checkColumnPolicy(tx, candidate, requestedStatus); err != nil {
+				return err
+			}
+		}
+		if !slices.Equal(candidate.DependsOn, current.DependsOn) {
+			if err := validateDependenciesInTransaction(tx, candidate); err != nil {
+				return err
+			}
+		}
+		if candidate.StartDate != current.StartDate || candidate.DueDate != current.DueDate {
+			if err := ValidateSchedule(candidate); err != nil {
+				return err
+			}
+		}
+		if candidate.Milestone != current.Milestone {
+			if err := ValidateMilestone(candidate, tx.MilestoneExists); err != nil {
+				return err
+			}
+		}
 		now := service.now().UTC()
 		ApplyStatusTransition(candidate, requestedStatus, now)
 		candidate.UpdatedAt = now
@@ -1085,6 +1126,38 @@ func (service *Service) settings() (models.TaskLifecycleSettings, error) {
 	return project.Settings.EffectiveTaskLifecycle(), nil
 }
 
+// checkColumnPolicy enforces the project's column policy for status inside
+// the update transaction, so concurrent moves cannot both take the last WIP
+// slot. Projects without a config file have no policies.
+func (service *Service) checkColumnPolicy(tx *storage.TaskLifecycleTransaction, candidate *models.Task, status string) error {
+	project, err := service.store.Config.Load()
+	if errors.Is(err, fs.ErrNotExist) {
+		return nil
+	}
+	if err != nil {
+		return err
+	}
+	if len(project.Settings.ColumnPolicies) == 0 {
+		return nil
+	}
+	active, err := tx.ListActiveTasks()
+	if err != nil {
+		return err
+	}
+	return CheckColumnPolicy(project.Settings.ColumnPolicies, candidate, status, active)
+}
+
+func validateDependenciesInTransaction(tx *storage.TaskLifecycleTransaction, candidate *models.Task) error {
+	active, err := tx.ListActiveTasks()
+	if err != nil {
+		return err
+	}
+	return ValidateDependencies(candidate, active, func(id string) bool {
+		_, err := tx.GetTask(id)
+		return err == nil
+	})
+}
+
 func (service *Service) removeFromIndex(taskID string) error {
 	if service.hooks.RemoveTask == nil {
 		return nil
@@ -67,7 +67,7 @@ test.describe("Doc Creation with Full Fields", () => {
 		});
 
 		await test.step("Fill in content", async () => {
-			const editorInput = page.locator(".rc-md-editor textarea").first();
+			const editorInput = page.getByTestId("md-editor").locator("textarea").first();
 			await expect(editorInput).toBeVisible();
 			await editorInput.fill("## API Guidelines\n\nUse consistent REST semantics.");
 		});
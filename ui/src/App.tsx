@@ -4,6 +4,7 @@ import { ConfigProvider } from "./contexts/ConfigContext";
 import { UserProvider } from "./contexts/UserContext";
 import { UIPreferencesProvider } from "./contexts/UIPreferencesContext";
 import { SSEProvider } from "./contexts/SSEContext";
+import { OfflineSyncProvider } from "./contexts/OfflineSyncContext";
 import { TimeTrackerProvider } from "./contexts/TimeTrackerContext";
 import { ChatProvider } from "./contexts/ChatContext";
 import { GlobalTaskProvider } from "./contexts/GlobalTaskContext";
@@ -43,18 +44,20 @@ export default function App() {
 					<UserProvider>
 						<UIPreferencesProvider>
 							<SSEProvider>
-								<OpenCodeProvider>
-									<OpenCodeEventProvider>
-										<TimeTrackerProvider>
-											<ChatProvider>
-												<GlobalTaskProvider>
-													<RouterProvider router={router} />
-													{import.meta.env.DEV && <Agentation />}
-												</GlobalTaskProvider>
-											</ChatProvider>
-										</TimeTrackerProvider>
-									</OpenCodeEventProvider>
-								</OpenCodeProvider>
+								<OfflineSyncProvider>
+									<OpenCodeProvider>
+										<OpenCodeEventProvider>
+											<TimeTrackerProvider>
+												<ChatProvider>
+													<GlobalTaskProvider>
+														<RouterProvider router={router} />
+														{import.meta.env.DEV && <Agentation />}
+													</GlobalTaskProvider>
+												</ChatProvider>
+											</TimeTrackerProvider>
+										</OpenCodeEventProvider>
+									</OpenCodeProvider>
+								</OfflineSyncProvider>
 							</SSEProvider>
 						</UIPreferencesProvider>
 					</UserProvider>
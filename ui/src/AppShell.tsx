@@ -1,11 +1,12 @@
 import { createContext, useCallback, useContext, useEffect, useRef, useState, lazy, Suspense } from "react";
 import { useNavigate, useRouterState } from "@tanstack/react-router";
 import type { Task } from "./models/task";
-import { api, getProjectStatus } from "./api/client";
+import { api, getProjectStatus, offlineSyncApi } from "./api/client";
 import { useSSEEvent } from "./contexts/SSEContext";
 import { AppSidebar, TaskCreateForm, SearchCommandDialog, NotificationBell, TaskDetailSheet } from "./components/organisms";
 import { WorkspacePicker } from "./components/organisms/WorkspacePicker";
 import { RuntimeMonitorPanel } from "./components/organisms/RuntimeMonitorPanel";
+import { OfflineConflictDialog } from "./components/organisms/OfflineConflictDialog";
 import { WelcomePage } from "./pages/WelcomePage";
 import { ConnectionStatus, ThemeToggle, ErrorBoundary } from "./components/atoms";
 import { HeaderTimeTracker } from "./components/molecules";
@@ -18,6 +19,9 @@ import { useGlobalTask } from "./contexts/GlobalTaskContext";
 import { Loader2 } from "lucide-react";
 import { ThemeContext } from "./App";
 import { cn } from "./lib/utils";
+import { navigateTo } from "./lib/navigation";
+import { taskViewSearch } from "./hooks/useTaskView";
+import { useDueDateReminders } from "./hooks/useDueDateReminders";
 
 // Retry wrapper for lazy imports — auto-reloads when chunks are stale after a deploy.
 function lazyWithRetry(factory: () => Promise<{ default: React.ComponentType<any> }>) {
@@ -85,7 +89,7 @@ function getTaskIdFromLocation(pathname: string, searchStr: string, page?: strin
 
 export default function AppShell() {
 	const { config, refetch: refetchConfig } = useConfig();
-	const { currentTaskId, closeTask } = useGlobalTask();
+	const { currentTaskId, openTask, closeTask } = useGlobalTask();
 	const navigate = useNavigate();
 	const location = useRouterState({ select: (state) => state.location });
 	const [tasks, setTasks] = useState<Task[]>([]);
@@ -116,6 +120,8 @@ export default function AppShell() {
 		: null;
 	const requestedDirectTaskId = currentTaskId || routeTaskId;
 
+	useDueDateReminders(currentTasks, openTask);
+
 	const loadCurrentTasks = useCallback(async (showLoading = false) => {
 		currentRequestRef.current.controller?.abort();
 		const controller = new AbortController();
@@ -241,7 +247,8 @@ export default function AppShell() {
 	// Handle workspace switch — full page reload for clean state
 	useSSEEvent("refresh", (data) => {
 		if (data?.reason === "workspace-switch") {
-			window.location.reload();
+			// Cached tasks and queued edits belong to the previous project.
+			void offlineSyncApi.clear().finally(() => window.location.reload());
 		}
 	}, []);
 
@@ -333,7 +340,7 @@ export default function AppShell() {
 						onTasksUpdate={handleTaskCreated}
 						selectedTask={selectedTask}
 						onTaskClose={() => {
-							navigate({ to: "/tasks" });
+							navigateTo(`/tasks${taskViewSearch(location.search as Record<string, unknown>)}`);
 						}}
 						onNewTask={() => setShowCreateForm(true)}
 					/>
@@ -447,7 +454,7 @@ export default function AppShell() {
 				<WorkspacePicker
 					open={showWorkspacePicker}
 					onOpenChange={setShowWorkspacePicker}
-					onSwitched={() => window.location.reload()}
+					onSwitched={() => void offlineSyncApi.clear().finally(() => window.location.reload())}
 				/>
 
 				<TaskDetailSheet
@@ -459,6 +466,8 @@ export default function AppShell() {
 					}}
 					onLifecycleChange={handleTaskCreated}
 				/>
+
+				<OfflineConflictDialog />
 			</SidebarProvider>
 			)}
 			<Toaster />
@@ -7,6 +7,13 @@ import type {
 	TaskLifecycleResponse,
 	TaskLifecycleResult,
 } from "@/ui/models/taskLifecycle";
+import * as offlineCache from "@/ui/lib/offlineCache";
+import type { OfflineMutation, OfflineTaskUpdate } from "@/ui/lib/offlineCache";
+import type { ColumnRule } from "@/ui/lib/columnPolicy";
+import type { Doc as DocDetail } from "@/ui/lib/utils";
+import type { CollabOp, CollabSnapshot } from "@/ui/lib/collab/rga";
+import type { CollabPeer } from "@/ui/lib/collab/presence";
+import type { Annotation, AnnotationInput } from "@/ui/types/annotation";
 
 // Use env vars from Vite, fallback to relative paths for production
 const API_BASE = import.meta.env.API_URL || "";
@@ -16,6 +23,20 @@ function apiFetch(input: string, init?: RequestInit): Promise<Response> {
 	return fetch(input, { ...init, credentials: "include" });
 }
 
+// Like apiFetch, but resolves to null when the server cannot be reached: a
+// network failure, or a gateway error from a tunnel whose upstream is down.
+// Callers fall back to the offline cache in that case.
+async function fetchOnline(input: string, init?: RequestInit): Promise<Response | null> {
+	try {
+		const res = await apiFetch(input, init);
+		if (res.status === 502 || res.status === 504) return null;
+		return res;
+	} catch (error) {
+		if (error instanceof TypeError) return null;
+		throw error;
+	}
+}
+
 interface TaskDTO {
 	id: string;
 	title: string;
@@ -26,10 +47,16 @@ interface TaskDTO {
 	labels: string[];
 	parent?: string;
 	subtasks: string[];
+	dependsOn?: string[];
+	blocks?: string[];
 	createdAt: string;
 	updatedAt: string;
 	completedAt?: string;
 	archivedAt?: string;
+	startedAt?: string;
+	startDate?: string;
+	dueDate?: string;
+	milestone?: string;
 	archived: boolean;
 	lifecycleState: Task["lifecycleState"];
 	acceptanceCriteria: Array<{ text: string; completed: boolean }>;
@@ -102,6 +129,7 @@ function parseTaskDTO(dto: TaskDTO): Task {
 		updatedAt: new Date(dto.updatedAt),
 		completedAt: dto.completedAt ? new Date(dto.completedAt) : undefined,
 		archivedAt: dto.archivedAt ? new Date(dto.archivedAt) : undefined,
+		startedAt: dto.startedAt ? new Date(dto.startedAt) : undefined,
 		archived: dto.archived ?? dto.lifecycleState === "archived",
 		lifecycleState: dto.lifecycleState,
 		timeEntries: (dto.timeEntries || []).map((entry) => ({
@@ -160,6 +188,32 @@ export class LifecycleAPIError extends Error {
 	}
 }
 
+/** A task update rejected by a column's WIP limit or entry rule (HTTP 409). */
+export class ColumnPolicyError extends Error {
+	constructor(
+		message: string,
+		readonly rule: ColumnRule,
+		readonly status: string,
+	) {
+		super(message);
+		this.name = "ColumnPolicyError";
+	}
+}
+
+/**
+ * A save made against an outdated copy (HTTP 409). current is the latest
+ * server state, to merge with before saving again.
+ */
+export class StaleWriteError<T> extends Error {
+	constructor(
+		message: string,
+		readonly current: T,
+	) {
+		super(message);
+		this.name = "StaleWriteError";
+	}
+}
+
 async function lifecycleFetch(
 	path: string,
 	request: Omit<TaskLifecycleRequest, "operation">,
@@ -185,17 +239,98 @@ async function lifecycleFetch(
 	return response;
 }
 
+function sendTaskUpdate(id: string, updates: Partial<Task>, baseUpdatedAt?: Date): Promise<Response | null> {
+	return fetchOnline(`${API_BASE}/api/tasks/${id}`, {
+		method: "PUT",
+		headers: { "Content-Type": "application/json" },
+		body: JSON.stringify(baseUpdatedAt ? { ...updates, baseUpdatedAt: baseUpdatedAt.toISOString() } : updates),
+	});
+}
+
+function sendTaskCreate(data: Partial<Task>): Promise<Response | null> {
+	return fetchOnline(`${API_BASE}/api/tasks`, {
+		method: "POST",
+		headers: { "Content-Type": "application/json" },
+		body: JSON.stringify(data),
+	});
+}
+
+function sendTaskReorder(orders: Array<{ id: string; order: number }>): Promise<Response | null> {
+	return fetchOnline(`${API_BASE}/api/tasks/reorder`, {
+		method: "POST",
+		headers: { "Content-Type": "application/json" },
+		body: JSON.stringify({ orders }),
+	});
+}
+
+// Offline fallbacks: queue the mutation in the outbox and apply it to the
+// cached copy so the board reflects the edit until the outbox is replayed.
+
+async function queueOfflineTaskUpdate(id: string, updates: Partial<Task>): Promise<Task> {
+	const cached = await offlineCache.readCachedTask(id);
+	if (!cached) {
+		throw new Error(`Failed to update task ${id}: server unreachable and task is not cached`);
+	}
+	await offlineCache.enqueueTaskUpdate(id, updates, cached);
+	const optimistic: Task = { ...cached, ...updates, updatedAt: new Date() };
+	await offlineCache.upsertCachedTask(optimistic);
+	return optimistic;
+}
+
+async function queueOfflineTaskCreate(data: Partial<Task>): Promise<Task> {
+	// The server accepts caller-supplied IDs, so the queued create keeps the
+	// same identity the UI shows while offline.
+	const id = data.id || offlineCache.newOfflineTaskId();
+	const now = new Date();
+	const task: Task = {
+		title: "",
+		status: "todo",
+		priority: "medium",
+		labels: [],
+		subtasks: [],
+		acceptanceCriteria: [],
+		timeSpent: 0,
+		timeEntries: [],
+		archived: false,
+		lifecycleState: "active",
+		...data,
+		id,
+		createdAt: now,
+		updatedAt: now,
+	};
+	await offlineCache.enqueueTaskCreate(id, { ...data, id });
+	await offlineCache.upsertCachedTask(task);
+	return task;
+}
+
+async function queueOfflineTaskReorder(orders: Array<{ id: string; order: number }>): Promise<void> {
+	await offlineCache.enqueueTaskReorder(orders);
+	const tasks = await offlineCache.readCachedTasks();
+	if (!tasks) return;
+	const orderMap = new Map(orders.map((item) => [item.id, item.order]));
+	await offlineCache.writeCachedTasks(
+		tasks.map((task) => (orderMap.has(task.id) ? { ...task, order: orderMap.get(task.id) } : task)),
+	);
+}
+
 export const api = {
 	async getTasks(options?: { includeHistorical?: boolean; signal?: AbortSignal }): Promise<Task[]> {
 		const params = new URLSearchParams();
 		if (options?.includeHistorical) params.set("includeHistorical", "true");
 		const query = params.size ? `?${params.toString()}` : "";
-		const res = await apiFetch(`${API_BASE}/api/tasks${query}`, { signal: options?.signal });
+		const res = await fetchOnline(`${API_BASE}/api/tasks${query}`, { signal: options?.signal });
+		if (!res) {
+			const cached = await offlineCache.readCachedTasks();
+			if (cached) return cached;
+			throw new Error("Failed to fetch tasks");
+		}
 		if (!res.ok) {
 			throw new Error("Failed to fetch tasks");
 		}
 		const data = (await res.json()) as TaskDTO[];
-		return data.map(parseTaskDTO);
+		const tasks = data.map(parseTaskDTO);
+		if (!options?.includeHistorical) void offlineCache.writeCachedTasks(tasks);
+		return tasks;
 	},
 
 	async getTask(id: string, options?: { signal?: AbortSignal }): Promise<Task> {
@@ -207,31 +342,38 @@ export const api = {
 		return parseTaskDTO(dto);
 	},
 
-	async updateTask(id: string, updates: Partial<Task>): Promise<Task> {
-		const res = await apiFetch(`${API_BASE}/api/tasks/${id}`, {
-			method: "PUT",
-			headers: { "Content-Type": "application/json" },
-			body: JSON.stringify(updates),
-		});
+	/**
+	 * Patch a task. With baseUpdatedAt, the server rejects the update with a
+	 * StaleWriteError if the task changed since that copy was loaded.
+	 */
+	async updateTask(id: string, updates: Partial<Task>, options?: { baseUpdatedAt?: Date }): Promise<Task> {
+		const res = await sendTaskUpdate(id, updates, options?.baseUpdatedAt);
+		if (!res) return queueOfflineTaskUpdate(id, updates);
+		if (res.status === 409) {
+			const body = (await res.json()) as
+				| { error: string; conflict: "stale"; current: TaskDTO }
+				| { error: string; conflict?: undefined; rule: ColumnRule; status: string };
+			if (body.conflict === "stale") throw new StaleWriteError(body.error, parseTaskDTO(body.current));
+			throw new ColumnPolicyError(body.error, body.rule, body.status);
+		}
 		if (!res.ok) {
 			const text = await res.text();
 			throw new Error(`Failed to update task ${id}: ${text}`);
 		}
-		const dto = (await res.json()) as TaskDTO;
-		return parseTaskDTO(dto);
+		const task = parseTaskDTO((await res.json()) as TaskDTO);
+		void offlineCache.upsertCachedTask(task);
+		return task;
 	},
 
 	async createTask(data: Partial<Task>): Promise<Task> {
-		const res = await apiFetch(`${API_BASE}/api/tasks`, {
-			method: "POST",
-			headers: { "Content-Type": "application/json" },
-			body: JSON.stringify(data),
-		});
+		const res = await sendTaskCreate(data);
+		if (!res) return queueOfflineTaskCreate(data);
 		if (!res.ok) {
 			throw new Error("Failed to create task");
 		}
-		const dto = (await res.json()) as TaskDTO;
-		return parseTaskDTO(dto);
+		const task = parseTaskDTO((await res.json()) as TaskDTO);
+		void offlineCache.upsertCachedTask(task);
+		return task;
 	},
 
 	async getTaskHistory(id: string): Promise<TaskVersion[]> {
@@ -270,11 +412,11 @@ export const api = {
 	},
 
 	async reorderTasks(orders: Array<{ id: string; order: number }>): Promise<void> {
-		const res = await apiFetch(`${API_BASE}/api/tasks/reorder`, {
-			method: "POST",
-			headers: { "Content-Type": "application/json" },
-			body: JSON.stringify({ orders }),
-		});
+		const res = await sendTaskReorder(orders);
+		if (!res) {
+			await queueOfflineTaskReorder(orders);
+			return;
+		}
 		if (!res.ok) {
 			const text = await res.text();
 			throw new Error(`Failed to reorder tasks: ${text}`);
@@ -318,6 +460,151 @@ export const {
 	reorderTasks,
 } = api;
 
+// Offline outbox replay
+export interface OfflineReplayResult {
+	applied: number;
+	conflicts: number;
+	/** Updates the server refused, kept as conflicts to retry or discard. */
+	rejected: number;
+	/** Creates and reorders the server refused; these are dropped. */
+	failed: number;
+	/** Server messages for the failed mutations, in replay order. */
+	errors: string[];
+	/** True when the server became unreachable again mid-replay. */
+	interrupted: boolean;
+}
+
+export type OfflineConflictResolution = "mine" | "theirs";
+
+/** A failed outcome carries the server's reason; the mutation is dropped. */
+type OfflineReplayOutcome = "applied" | "conflict" | "rejected" | "offline" | { error: string };
+
+let replayInFlight: Promise<OfflineReplayResult> | null = null;
+
+async function rejectionMessage(res: Response): Promise<string> {
+	try {
+		const body = (await res.json()) as { error?: string };
+		if (body.error) return body.error;
+	} catch {
+		// Fall back to the status for a non-JSON error.
+	}
+	return `HTTP ${res.status}`;
+}
+
+function describeOfflineMutation(mutation: OfflineMutation): string {
+	switch (mutation.kind) {
+		case "create":
+			return `Create #${mutation.taskId}`;
+		case "update":
+			return `Update #${mutation.taskId}`;
+		case "reorder":
+			return "Reorder";
+	}
+}
+
+async function replayTaskUpdate(mutation: OfflineTaskUpdate): Promise<OfflineReplayOutcome> {
+	const current = await fetchOnline(`${API_BASE}/api/tasks/${mutation.taskId}`);
+	if (!current) return "offline";
+	if (!current.ok) return { error: await rejectionMessage(current) };
+	const server = parseTaskDTO((await current.json()) as TaskDTO);
+	if (mutation.baseUpdatedAt !== undefined && server.updatedAt.getTime() !== mutation.baseUpdatedAt) {
+		await offlineCache.saveOutbox({ ...mutation, conflict: { server, detectedAt: Date.now() } });
+		return "conflict";
+	}
+	const res = await sendTaskUpdate(mutation.taskId, mutation.patch);
+	if (!res) return "offline";
+	if (!res.ok) {
+		// Keep the edit so the user can see why it failed and retry or discard it.
+		const rejected = await rejectionMessage(res);
+		await offlineCache.saveOutbox({ ...mutation, conflict: { server, detectedAt: Date.now(), rejected } });
+		return "rejected";
+	}
+	await offlineCache.upsertCachedTask(parseTaskDTO((await res.json()) as TaskDTO));
+	return "applied";
+}
+
+async function replayMutation(mutation: OfflineMutation): Promise<OfflineReplayOutcome> {
+	switch (mutation.kind) {
+		case "update":
+			return replayTaskUpdate(mutation);
+		case "create": {
+			const res = await sendTaskCreate(mutation.data);
+			if (!res) return "offline";
+			if (!res.ok) return { error: await rejectionMessage(res) };
+			await offlineCache.upsertCachedTask(parseTaskDTO((await res.json()) as TaskDTO));
+			return "applied";
+		}
+		case "reorder": {
+			const res = await sendTaskReorder(mutation.orders);
+			if (!res) return "offline";
+			return res.ok ? "applied" : { error: await rejectionMessage(res) };
+		}
+	}
+}
+
+export const offlineSyncApi = {
+	listOutbox: offlineCache.listOutbox,
+	onOutboxChange: offlineCache.onOutboxChange,
+	clear: offlineCache.clearOfflineCache,
+
+	/**
+	 * Replay queued mutations in order. Updates whose task changed on the server
+	 * since the edit was queued (by updatedAt), or that the server refused, are
+	 * kept as conflicts for the user to resolve instead of being applied.
+	 */
+	replay(): Promise<OfflineReplayResult> {
+		if (replayInFlight) return replayInFlight;
+		replayInFlight = (async () => {
+			const result: OfflineReplayResult = { applied: 0, conflicts: 0, rejected: 0, failed: 0, errors: [], interrupted: false };
+			for (const mutation of await offlineCache.listOutbox()) {
+				if (mutation.kind === "update" && mutation.conflict) continue;
+				const outcome = await replayMutation(mutation);
+				if (outcome === "offline") {
+					result.interrupted = true;
+					break;
+				}
+				if (outcome === "conflict") {
+					result.conflicts++;
+					continue;
+				}
+				if (outcome === "rejected") {
+					result.rejected++;
+					continue;
+				}
+				if (outcome === "applied") result.applied++;
+				else {
+					result.failed++;
+					result.errors.push(`${describeOfflineMutation(mutation)}: ${outcome.error}`);
+				}
+				await offlineCache.removeOutbox(mutation.id);
+			}
+			return result;
+		})().finally(() => {
+			replayInFlight = null;
+		});
+		return replayInFlight;
+	},
+
+	/** Apply ("mine") or discard ("theirs") a conflicted queued update. */
+	async resolveConflict(mutationId: string, resolution: OfflineConflictResolution): Promise<void> {
+		const mutation = (await offlineCache.listOutbox()).find((item) => item.id === mutationId);
+		if (!mutation || mutation.kind !== "update" || !mutation.conflict) return;
+		if (resolution === "theirs") {
+			await offlineCache.upsertCachedTask(mutation.conflict.server);
+			await offlineCache.removeOutbox(mutation.id);
+			return;
+		}
+		const res = await sendTaskUpdate(mutation.taskId, mutation.patch);
+		if (!res) throw new Error("Server is unreachable");
+		if (!res.ok) {
+			const text = await res.text();
+			throw new Error(`Failed to update task ${mutation.taskId}: ${text}`);
+		}
+		await offlineCache.upsertCachedTask(parseTaskDTO((await res.json()) as TaskDTO));
+		await offlineCache.removeOutbox(mutation.id);
+	},
+};
+
 // Config API
 export interface LSPLanguageInfo {
 	id: string;
@@ -574,6 +861,8 @@ export interface DocVersion {
 	timestamp: string;
 	author?: string;
 	actor?: string;
+	/** Everyone whose edits a co-edited save merged. */
+	actors?: string[];
 	source?: string;
 	auditEventId?: string;
 	sessionId?: string;
@@ -607,6 +896,70 @@ export interface DocRevisionDiff {
 	retentionGaps?: DocHistoryGap[];
 }
 
+/** Names the working copy on either side of a revision comparison. */
+export const CURRENT_DOC_REVISION = "current";
+
+export interface DocRevisionState {
+	revisionId: string;
+	version?: number;
+	timestamp?: string;
+	actor?: string;
+	title: string;
+	description?: string;
+	tags: string[];
+	content: string;
+}
+
+export interface DocRevisionComparison {
+	docId?: string;
+	docPath: string;
+	currentPath?: string;
+	/** Set when both contents were narrowed to one markdown section. */
+	section?: string;
+	from: DocRevisionState;
+	to: DocRevisionState;
+	/** Scopes touched by every revision between the two sides. */
+	changedScopes?: DocChangeScope[];
+	retentionGaps?: DocHistoryGap[];
+}
+
+export interface DocBlameLine {
+	line: number;
+	text: string;
+	/** Empty for lines changed outside Knowns since the latest revision. */
+	revisionId?: string;
+}
+
+export interface DocBlameSection {
+	title: string;
+	level: number;
+	startLine: number;
+	endLine: number;
+	revisionId?: string;
+}
+
+export interface DocBlameRevision {
+	id: string;
+	version: number;
+	timestamp: string;
+	actor?: string;
+	actors?: string[];
+	source?: string;
+	sessionId?: string;
+	auditEventId?: string;
+	checkpoint?: boolean;
+}
+
+export interface DocBlame {
+	docId?: string;
+	docPath: string;
+	currentPath?: string;
+	lines: DocBlameLine[];
+	sections: DocBlameSection[];
+	revisions: DocBlameRevision[];
+	retentionGaps?: DocHistoryGap[];
+}
+
 export interface RestoreDocRevisionResponse {
 	restored: boolean;
 	doc: Doc;
@@ -618,18 +971,30 @@ function encodeDocPath(path: string): string {
 }
 
 export async function getDocs(): Promise<Doc[]> {
-	const res = await apiFetch(`${API_BASE}/api/docs`);
+	const res = await fetchOnline(`${API_BASE}/api/docs`);
+	if (!res) {
+		const cached = await offlineCache.readCachedDocs<Doc>();
+		if (cached) return cached;
+		throw new Error("Failed to fetch docs");
+	}
 	if (!res.ok) {
 		throw new Error("Failed to fetch docs");
 	}
 	const data = await res.json();
-	return data.docs || [];
+	const docs: Doc[] = data.docs || [];
+	void offlineCache.writeCachedDocs(docs);
+	return docs;
 }
 
 export async function getDoc(path: string): Promise<Doc | null> {
 	// Encode each path segment separately to preserve '/' for the wildcard route.
 	const encodedPath = encodeDocPath(path);
-	const res = await apiFetch(`${API_BASE}/api/docs/${encodedPath}`);
+	const res = await fetchOnline(`${API_BASE}/api/docs/${encodedPath}`);
+	if (!res) {
+		const cached = await offlineCache.readCachedDoc<Doc>(path);
+		if (cached) return cached;
+		throw new Error(`Failed to fetch doc ${path}`);
+	}
 	if (!res.ok) {
 		if (res.status === 404) return null;
 		throw new Error(`Failed to fetch doc ${path}`);
@@ -641,6 +1006,7 @@ export async function getDoc(path: string): Promise<Doc | null> {
 		data.description = data.metadata.description;
 		data.tags = data.metadata.tags;
 	}
+	void offlineCache.writeCachedDoc(path, data);
 	return data;
 }
 
@@ -656,9 +1022,13 @@ export async function createDoc(data: Record<string, unknown>): Promise<unknown>
 	return res.json();
 }
 
+/**
+ * Update a doc. With baseHash (the hash of the copy being edited), the server
+ * rejects the update with a StaleWriteError if the doc changed since.
+ */
 export async function updateDoc(
 	path: string,
-	data: { content?: string; title?: string; description?: string; tags?: string[] },
+	data: { content?: string; title?: string; description?: string; tags?: string[]; baseHash?: string },
 ): Promise<Doc> {
 	const encodedPath = encodeDocPath(path);
 	const res = await apiFetch(`${API_BASE}/api/docs/${encodedPath}`, {
@@ -666,6 +1036,10 @@ export async function updateDoc(
 		headers: { "Content-Type": "application/json" },
 		body: JSON.stringify(data),
 	});
+	if (res.status === 409) {
+		const body = (await res.json()) as { error: string; current: DocDetail };
+		throw new StaleWriteError(body.error, body.current);
+	}
 	if (!res.ok) {
 		const error = await res.json().catch(() => ({ error: "Failed to update doc" }));
 		throw new Error(error.error || "Failed to update doc");
@@ -692,6 +1066,37 @@ export async function getDocRevisionDiff(path: string, revisionId: string): Prom
 	return res.json();
 }
 
+/**
+ * Fetch the doc at two revisions, either of which may be CURRENT_DOC_REVISION.
+ * Without from, to is compared against its predecessor; section narrows both
+ * contents to one markdown section.
+ */
+export async function compareDocRevisions(
+	path: string,
+	from: string,
+	to: string,
+	section?: string,
+): Promise<DocRevisionComparison> {
+	const encodedPath = encodeDocPath(path);
+	const params = new URLSearchParams({ from, to });
+	if (section) params.set("section", section);
+	const res = await apiFetch(`${API_BASE}/api/docs/${encodedPath}/history/compare?${params}`);
+	if (!res.ok) {
+		throw new Error(`Failed to compare doc revisions ${from} and ${to}`);
+	}
+	return res.json();
+}
+
+/** Attribute each line of the working copy to the revision that last changed it. */
+export async function getDocBlame(path: string): Promise<DocBlame> {
+	const encodedPath = encodeDocPath(path);
+	const res = await apiFetch(`${API_BASE}/api/docs/${encodedPath}/history/blame`);
+	if (!res.ok) {
+		throw new Error(`Failed to fetch blame for ${path}`);
+	}
+	return res.json();
+}
+
 export async function restoreDocRevision(
 	path: string,
 	data: { revisionId: string; mode?: "document" | "section"; section?: string },
@@ -709,6 +1114,98 @@ export async function restoreDocRevision(
 	return res.json();
 }
 
+export interface DocMoveResult {
+	doc?: Doc;
+	oldPath: string;
+	newPath: string;
+	inbound: ReferenceLocation[];
+	rewritten: number;
+}
+
+/**
+ * Move a doc and rewrite every reference to it. With dryRun nothing changes
+ * and the result lists the references a move would rewrite.
+ */
+export async function moveDoc(path: string, newPath: string, dryRun = false): Promise<DocMoveResult> {
+	const encodedPath = encodeDocPath(path);
+	const res = await apiFetch(`${API_BASE}/api/docs/${encodedPath}/move`, {
+		method: "POST",
+		headers: { "Content-Type": "application/json" },
+		body: JSON.stringify({ path: newPath, dryRun }),
+	});
+	if (!res.ok) {
+		const error = await res.json().catch(() => ({ error: "Failed to move doc" }));
+		throw new Error(error.error || "Failed to move doc");
+	}
+	return res.json();
+}
+
+// --- Live doc editing ---
+
+export interface DocCollabJoinResult {
+	/** Set for editors, with the replica to start from. */
+	sessionId?: string;
+	snapshot?: CollabSnapshot;
+	peers: CollabPeer[];
+}
+
+export interface DocCollabRequest {
+	clientId: string;
+	user: string;
+	sessionId?: string;
+	editing?: boolean;
+	cursor?: CollabPeer["cursor"];
+	ops?: CollabOp[];
+}
+
+/** The server no longer holds the editing session (HTTP 409); join again. */
+export class DocCollabSessionError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "DocCollabSessionError";
+	}
+}
+
+async function docCollabFetch<T>(path: string, action: string, data: DocCollabRequest, init?: RequestInit): Promise<T> {
+	const res = await apiFetch(`${API_BASE}/api/docs/${encodeDocPath(path)}/collab/${action}`, {
+		method: "POST",
+		headers: { "Content-Type": "application/json" },
+		body: JSON.stringify(data),
+		...init,
+	});
+	if (!res.ok) {
+		const error = await res.json().catch(() => ({ error: `Live editing ${action} failed` }));
+		const message = error.error || `Live editing ${action} failed`;
+		if (res.status === 409) throw new DocCollabSessionError(message);
+		throw new Error(message);
+	}
+	return res.json();
+}
+
+export const docCollabApi = {
+	join(path: string, data: DocCollabRequest): Promise<DocCollabJoinResult> {
+		return docCollabFetch(path, "join", data);
+	},
+
+	presence(path: string, data: DocCollabRequest): Promise<{ peers: CollabPeer[] }> {
+		return docCollabFetch(path, "presence", data);
+	},
+
+	ops(path: string, data: DocCollabRequest): Promise<{ success: boolean }> {
+		return docCollabFetch(path, "ops", data);
+	},
+
+	/** Survives page unload so peers disappear promptly. */
+	leave(path: string, data: DocCollabRequest): Promise<{ success: boolean }> {
+		return docCollabFetch(path, "leave", data, { keepalive: true });
+	},
+
+	/** Writes the merged content; the revision credits every contributor. */
+	save(path: string, data: DocCollabRequest): Promise<Doc> {
+		return docCollabFetch(path, "save", data);
+	},
+};
+
 // Search API
 export async function search(query: string): Promise<{ tasks: Task[]; docs: unknown[] }> {
 	const res = await apiFetch(`${API_BASE}/api/search?q=${encodeURIComponent(query)}`);
@@ -790,6 +1287,74 @@ export async function getSDDStats(): Promise<SDDResult> {
 	return res.json();
 }
 
+// Link health
+
+export type LinkSourceKind = "task" | "doc" | "memory" | "decision";
+
+/** Where an inline reference appears: the source entity, field and position. */
+export interface ReferenceLocation {
+	kind: LinkSourceKind;
+	id: string;
+	title?: string;
+	field: string;
+	line?: number;
+	column?: number;
+	raw: string;
+}
+
+export interface ReferenceSuggestion {
+	target: string;
+	ref: string;
+	title?: string;
+	reason: "renamed" | "moved" | "case" | "similar";
+}
+
+export interface BrokenReference {
+	type: string;
+	target: string;
+	canonical: string;
+	locations: ReferenceLocation[];
+	suggestions?: ReferenceSuggestion[];
+}
+
+export interface LinkHealthReport {
+	checked: number;
+	sources: number;
+	broken: BrokenReference[];
+}
+
+export interface LinkFix {
+	type: string;
+	from: string;
+	to: string;
+	/** Limits the fix to these entities; omitted means everywhere. */
+	sources?: Pick<ReferenceLocation, "kind" | "id">[];
+}
+
+export interface LinkRepairResult {
+	rewritten: number;
+	updated: ReferenceLocation[];
+}
+
+export async function getLinkHealth(): Promise<LinkHealthReport> {
+	const res = await apiFetch(`${API_BASE}/api/validate/links`);
+	if (!res.ok) throw new Error("Failed to check links");
+	return res.json();
+}
+
+export async function repairLinks(fixes: LinkFix[]): Promise<LinkRepairResult> {
+	const res = await apiFetch(`${API_BASE}/api/validate/links/repair`, {
+		method: "POST",
+		headers: { "Content-Type": "application/json" },
+		body: JSON.stringify({ fixes }),
+	});
+	if (!res.ok) {
+		const error = await res.json().catch(() => ({ error: "Failed to repair links" }));
+		throw new Error(error.error || "Failed to repair links");
+	}
+	return res.json();
+}
+
 
 export interface RuntimeJob {
 	id: string;
@@ -2021,6 +2586,112 @@ export async function resolveReference(ref: string): Promise<SemanticResolution>
 	return res.json();
 }
 
+// --- Template API ---
+
+export interface TemplateSummary {
+	name: string;
+	description?: string;
+	doc?: string;
+	/** "doc" templates create a Knowns doc; "code" templates generate files. */
+	kind: "doc" | "code";
+	promptCount: number;
+	fileCount: number;
+	isImported?: boolean;
+	source?: string;
+}
+
+export interface TemplatePrompt {
+	name: string;
+	message: string;
+	type: "text" | "confirm" | "select" | "multiselect" | "number";
+	required: boolean;
+	default?: string;
+	choices?: { value: string; label: string }[];
+}
+
+export interface TemplateDetail {
+	name: string;
+	description?: string;
+	doc?: string;
+	kind: "doc" | "code";
+	destination?: string;
+	prompts: TemplatePrompt[];
+}
+
+export interface TemplateDocumentTask {
+	title: string;
+	description?: string;
+	priority?: string;
+	labels?: string[];
+	acceptanceCriteria?: string[];
+	/** Links the task to the created doc as its spec. */
+	spec?: boolean;
+}
+
+/** A doc template rendered with its variables. */
+export interface RenderedTemplateDocument {
+	path: string;
+	title: string;
+	description?: string;
+	tags: string[];
+	content: string;
+	tasks: TemplateDocumentTask[];
+}
+
+export interface TemplateDocPreview {
+	document: RenderedTemplateDocument;
+	/** Why the doc cannot be created at its rendered path, if it cannot. */
+	pathError?: string;
+}
+
+export const templateApi = {
+	async list(): Promise<TemplateSummary[]> {
+		const res = await apiFetch(`${API_BASE}/api/templates`);
+		if (!res.ok) throw new Error("Failed to fetch templates");
+		const data = (await res.json()) as { templates: TemplateSummary[] };
+		return data.templates;
+	},
+
+	async get(name: string): Promise<TemplateDetail> {
+		const res = await apiFetch(`${API_BASE}/api/templates/${encodeURIComponent(name)}`);
+		if (!res.ok) throw new Error(`Failed to fetch template ${name}`);
+		const data = (await res.json()) as { template: TemplateDetail };
+		return data.template;
+	},
+
+	/** Renders a doc template without creating anything. */
+	async previewDoc(name: string, variables: Record<string, string>): Promise<TemplateDocPreview> {
+		const res = await apiFetch(`${API_BASE}/api/templates/${encodeURIComponent(name)}/doc`, {
+			method: "POST",
+			headers: { "Content-Type": "application/json" },
+			body: JSON.stringify({ variables, dryRun: true }),
+		});
+		if (!res.ok) {
+			const error = await res.json().catch(() => ({ error: "Failed to render template" }));
+			throw new Error(error.error || "Failed to render template");
+		}
+		return res.json();
+	},
+
+	/** Creates the doc a doc template renders, and its seeded tasks when createTasks is set. */
+	async createDoc(
+		name: string,
+		variables: Record<string, string>,
+		createTasks: boolean,
+	): Promise<{ doc: Doc; tasks: Task[] }> {
+		const res = await apiFetch(`${API_BASE}/api/templates/${encodeURIComponent(name)}/doc`, {
+			method: "POST",
+			headers: { "Content-Type": "application/json" },
+			body: JSON.stringify({ variables, createTasks }),
+		});
+		if (!res.ok) {
+			const error = await res.json().catch(() => ({ error: "Failed to create doc from template" }));
+			throw new Error(error.error || "Failed to create doc from template");
+		}
+		return res.json();
+	},
+};
+
 // --- Decision API ---
 
 export type DecisionStatus = "draft" | "accepted" | "superseded" | "rejected" | "archived";
@@ -2151,6 +2822,144 @@ export const decisionApi = {
 	},
 };
 
+// --- Milestone API ---
+
+export interface Milestone {
+	id: string;
+	name: string;
+	startDate: string; // "YYYY-MM-DD"
+	endDate: string; // "YYYY-MM-DD", inclusive
+	goal?: string;
+	createdAt: string;
+	updatedAt: string;
+}
+
+export type MilestoneInput = Pick<Milestone, "name" | "startDate" | "endDate" | "goal">;
+
+export const milestoneApi = {
+	async list(): Promise<Milestone[]> {
+		const res = await apiFetch(`${API_BASE}/api/milestones`);
+		if (!res.ok) throw new Error("Failed to fetch milestones");
+		return res.json();
+	},
+
+	async create(data: MilestoneInput): Promise<Milestone> {
+		const res = await apiFetch(`${API_BASE}/api/milestones`, {
+			method: "POST",
+			headers: { "Content-Type": "application/json" },
+			body: JSON.stringify(data),
+		});
+		if (!res.ok) {
+			const error = await res.json().catch(() => ({ error: "Failed to create milestone" }));
+			throw new Error(error.error || "Failed to create milestone");
+		}
+		return res.json();
+	},
+
+	async update(id: string, data: MilestoneInput): Promise<Milestone> {
+		const res = await apiFetch(`${API_BASE}/api/milestones/${encodeURIComponent(id)}`, {
+			method: "PUT",
+			headers: { "Content-Type": "application/json" },
+			body: JSON.stringify(data),
+		});
+		if (!res.ok) {
+			const error = await res.json().catch(() => ({ error: `Failed to update milestone ${id}` }));
+			throw new Error(error.error || `Failed to update milestone ${id}`);
+		}
+		return res.json();
+	},
+
+	async delete(id: string): Promise<void> {
+		const res = await apiFetch(`${API_BASE}/api/milestones/${encodeURIComponent(id)}`, { method: "DELETE" });
+		if (!res.ok) {
+			const error = await res.json().catch(() => ({ error: `Failed to delete milestone ${id}` }));
+			throw new Error(error.error || `Failed to delete milestone ${id}`);
+		}
+	},
+};
+
+// --- Annotation API ---
+
+export const annotationApi = {
+	/** Annotations re-anchored to the current doc content; all docs when docPath is omitted. */
+	async list(docPath?: string): Promise<Annotation[]> {
+		const query = docPath ? `?doc=${encodeURIComponent(docPath)}` : "";
+		const res = await apiFetch(`${API_BASE}/api/annotations${query}`);
+		if (!res.ok) throw new Error("Failed to fetch annotations");
+		return res.json();
+	},
+
+	async create(data: AnnotationInput): Promise<Annotation> {
+		const res = await apiFetch(`${API_BASE}/api/annotations`, {
+			method: "POST",
+			headers: { "Content-Type": "application/json" },
+			body: JSON.stringify(data),
+		});
+		if (!res.ok) {
+			const error = await res.json().catch(() => ({ error: "Failed to create annotation" }));
+			throw new Error(error.error || "Failed to create annotation");
+		}
+		return res.json();
+	},
+
+	async update(id: string, changes: Partial<Pick<Annotation, "content" | "type">>): Promise<Annotation> {
+		const res = await apiFetch(`${API_BASE}/api/annotations/${encodeURIComponent(id)}`, {
+			method: "PUT",
+			headers: { "Content-Type": "application/json" },
+			body: JSON.stringify(changes),
+		});
+		if (!res.ok) {
+			const error = await res.json().catch(() => ({ error: `Failed to update annotation ${id}` }));
+			throw new Error(error.error || `Failed to update annotation ${id}`);
+		}
+		return res.json();
+	},
+
+	async reply(id: string, content: string, author: string): Promise<Annotation> {
+		const res = await apiFetch(`${API_BASE}/api/annotations/${encodeURIComponent(id)}/replies`, {
+			method: "POST",
+			headers: { "Content-Type": "application/json" },
+			body: JSON.stringify({ content, author }),
+		});
+		if (!res.ok) {
+			const error = await res.json().catch(() => ({ error: `Failed to reply to annotation ${id}` }));
+			throw new Error(error.error || `Failed to reply to annotation ${id}`);
+		}
+		return res.json();
+	},
+
+	async resolve(id: string, resolved: boolean, author: string): Promise<Annotation> {
+		const res = await apiFetch(`${API_BASE}/api/annotations/${encodeURIComponent(id)}/resolve`, {
+			method: "POST",
+			headers: { "Content-Type": "application/json" },
+			body: JSON.stringify({ resolved, author }),
+		});
+		if (!res.ok) {
+			const error = await res.json().catch(() => ({ error: `Failed to resolve annotation ${id}` }));
+			throw new Error(error.error || `Failed to resolve annotation ${id}`);
+		}
+		return res.json();
+	},
+
+	async delete(id: string): Promise<void> {
+		const res = await apiFetch(`${API_BASE}/api/annotations/${encodeURIComponent(id)}`, { method: "DELETE" });
+		if (!res.ok) {
+			const error = await res.json().catch(() => ({ error: `Failed to delete annotation ${id}` }));
+			throw new Error(error.error || `Failed to delete annotation ${id}`);
+		}
+	},
+
+	async clearResolved(): Promise<number> {
+		const res = await apiFetch(`${API_BASE}/api/annotations?status=resolved`, { method: "DELETE" });
+		if (!res.ok) {
+			const error = await res.json().catch(() => ({ error: "Failed to clear resolved annotations" }));
+			throw new Error(error.error || "Failed to clear resolved annotations");
+		}
+		const data = await res.json();
+		return data.deleted ?? 0;
+	},
+};
+
 // --- Memory API ---
 
 export type PersistentMemoryLayer = "project" | "global";
@@ -2165,6 +2974,7 @@ export interface MemoryEntry {
 	confidence?: MemoryConfidence;
 	lastVerified?: string;
 	ttlDays?: number;
+	staleSince?: string;
 	sources?: string[];
 	mergedInto?: string;
 	rejectedReason?: string;
@@ -2213,6 +3023,54 @@ export interface MemoryReviewResult {
 	allowedResolutions?: MemoryReviewResolution[];
 	memory?: MemoryEntry;
 	changedIds?: string[];
+	/** Set for resolutions made from the Web UI, which can be undone. */
+	operation?: MemoryOperation;
+	/** Set when the resolution was saved but could not be made undoable. */
+	warning?: string;
+}
+
+/** Near-duplicate memories found by embedding similarity. members[0] is the suggested survivor. */
+export interface MemoryCluster {
+	survivorId: string;
+	score: number;
+	members: MemoryReviewMatch[];
+	suggestedText: string;
+}
+
+export interface MemoryClustersResponse {
+	clusters: MemoryCluster[];
+	count: number;
+}
+
+export type MemoryBundleFormat = "jsonl" | "markdown";
+export type MemoryBundleDuplicatePolicy = "merge" | "skip" | "propose";
+
+/** Narrows a bundle export or import. Decisions count as category "decision". */
+export interface MemoryBundleFilter {
+	kind?: "memory" | "decision";
+	layer?: PersistentMemoryLayer;
+	tags?: string[];
+	category?: string;
+	status?: string;
+}
+
+export interface MemoryBundleImportItem {
+	kind: "memory" | "decision";
+	id?: string;
+	title: string;
+	outcome: "created" | "merged" | "updated" | "skipped" | "failed";
+	targetId?: string;
+	reason?: string;
+}
+
+export interface MemoryBundleImportReport {
+	created: number;
+	merged: number;
+	updated: number;
+	skipped: number;
+	failed: number;
+	items: MemoryBundleImportItem[];
+	changedMemoryIds?: string[];
 }
 
 export interface MemoryReviewIssue {
@@ -2259,6 +3117,108 @@ export interface MemoryActionRequest {
 	rejectedReason?: string;
 }
 
+export interface MemoryChange {
+	field: string;
+	oldValue?: unknown;
+	newValue?: unknown;
+}
+
+export interface MemoryVersion {
+	id: string;
+	memoryId: string;
+	version: number;
+	timestamp: string;
+	actor?: string;
+	source?: string;
+	/** Review resolution or action that produced the revision, e.g. merge_existing. */
+	resolution?: string;
+	/** Other memories the resolution involved, such as the merge target. */
+	related?: string[];
+	restoredFrom?: string;
+	/** Undoable operation that wrote the revision. */
+	operationId?: string;
+	auditEventId?: string;
+	baseHash?: string;
+	newHash?: string;
+	checkpoint?: boolean;
+	changes: MemoryChange[];
+	snapshot?: Record<string, unknown>;
+}
+
+export interface MemoryVersionHistory {
+	memoryId: string;
+	currentVersion: number;
+	versions: MemoryVersion[];
+}
+
+export interface MemoryRevisionDiff {
+	memoryId: string;
+	revisionId: string;
+	previousRevisionId?: string;
+	version: MemoryVersion;
+	checkpoint: boolean;
+	changes: MemoryChange[];
+}
+
+export interface RestoreMemoryRevisionResponse {
+	restored: boolean;
+	memory: MemoryEntry;
+	history: MemoryVersionHistory;
+}
+
+/** A bulk action or review resolution that can be undone until undoableUntil. */
+export interface MemoryOperation {
+	id: string;
+	kind: string;
+	actor?: string;
+	source?: string;
+	memoryIds: string[];
+	createdAt: string;
+	undoableUntil: string;
+	undoneAt?: string;
+}
+
+export interface MemoryBulkActionResponse {
+	updated: MemoryEntry[];
+	count: number;
+	operation: MemoryOperation;
+}
+
+export interface UndoMemoryOperationResponse {
+	operation: MemoryOperation;
+	memories: MemoryEntry[];
+	deletedIds: string[];
+}
+
+/** A memory with a TTL, as forecast by the expiry sweep. */
+export interface MemoryExpiryItem {
+	id: string;
+	title: string;
+	layer: PersistentMemoryLayer;
+	category?: string;
+	status: MemoryStatus;
+	ttlDays: number;
+	lastVerified: string;
+	expiresAt: string;
+	/** When the sweep archives the memory once it has gone stale. */
+	archivesAt: string;
+}
+
+export interface MemoryTTLForecast {
+	autoExpire: boolean;
+	/** Grace period after expiry before a stale memory is archived, e.g. "14d". */
+	archiveAfter: string;
+	now: string;
+	items: MemoryExpiryItem[];
+}
+
+export interface MemoryExpiryResult {
+	expired: number;
+	staled: string[];
+	archived: string[];
+	failed?: string[];
+}
+
 export class MemoryReviewRequiredError extends Error {
 	result: MemoryReviewResult;
 
@@ -2298,8 +3258,10 @@ export const memoryApi = {
 		return res.json();
 	},
 
-	async reviewInbox(): Promise<MemoryReviewInboxResponse> {
-		const res = await apiFetch(`${API_BASE}/api/memories/review`);
+	/** Fetches the review inbox, or only the given memories and their items. */
+	async reviewInbox(ids?: string[]): Promise<MemoryReviewInboxResponse> {
+		const query = ids?.length ? `?ids=${encodeURIComponent(ids.join(","))}` : "";
+		const res = await apiFetch(`${API_BASE}/api/memories/review${query}`);
 		if (!res.ok) throw new Error("Failed to fetch memory review inbox");
 		return res.json();
 	},
@@ -2340,7 +3302,7 @@ export const memoryApi = {
 		return res.json();
 	},
 
-	async bulkAction(action: MemoryBulkAction, ids: string[], rejectedReason?: string): Promise<{ updated: MemoryEntry[]; count: number }> {
+	async bulkAction(action: MemoryBulkAction, ids: string[], rejectedReason?: string): Promise<MemoryBulkActionResponse> {
 		const res = await apiFetch(`${API_BASE}/api/memories/bulk`, {
 			method: "POST",
 			headers: { "Content-Type": "application/json" },
@@ -2375,6 +3337,124 @@ export const memoryApi = {
 		if (!res.ok) throw new Error(`Failed to demote memory ${id}`);
 		return res.json();
 	},
+
+	async history(id: string): Promise<MemoryVersionHistory> {
+		const res = await apiFetch(`${API_BASE}/api/memories/${encodeURIComponent(id)}/history`);
+		if (!res.ok) throw new Error(`Failed to fetch history for memory ${id}`);
+		return res.json();
+	},
+
+	async revisionDiff(id: string, revisionId: string): Promise<MemoryRevisionDiff> {
+		const res = await apiFetch(
+			`${API_BASE}/api/memories/${encodeURIComponent(id)}/history/${encodeURIComponent(revisionId)}/diff`,
+		);
+		if (!res.ok) throw new Error(`Failed to fetch memory revision ${revisionId}`);
+		return res.json();
+	},
+
+	async restore(id: string, revisionId: string): Promise<RestoreMemoryRevisionResponse> {
+		const res = await apiFetch(`${API_BASE}/api/memories/${encodeURIComponent(id)}/restore`, {
+			method: "POST",
+			headers: { "Content-Type": "application/json" },
+			body: JSON.stringify({ revisionId }),
+		});
+		if (!res.ok) {
+			const error = await res.json().catch(() => ({ error: "Failed to restore memory revision" }));
+			throw new Error(error.error || "Failed to restore memory revision");
+		}
+		return res.json();
+	},
+
+	async ttlForecast(): Promise<MemoryTTLForecast> {
+		const res = await apiFetch(`${API_BASE}/api/memories/ttl`);
+		if (!res.ok) throw new Error("Failed to fetch memory TTL forecast");
+		return res.json();
+	},
+
+	async findClusters(threshold?: number): Promise<MemoryClustersResponse> {
+		const res = await apiFetch(`${API_BASE}/api/memories/clusters`, {
+			method: "POST",
+			headers: { "Content-Type": "application/json" },
+			body: JSON.stringify({ threshold }),
+		});
+		if (!res.ok) {
+			const error = await res.json().catch(() => ({ error: "Failed to find memory clusters" }));
+			throw new Error(error.error || "Failed to find memory clusters");
+		}
+		return res.json();
+	},
+
+	async mergeCluster(survivorId: string, memberIds: string[], content?: string): Promise<MemoryReviewResult> {
+		const res = await apiFetch(`${API_BASE}/api/memories/clusters/merge`, {
+			method: "POST",
+			headers: { "Content-Type": "application/json" },
+			body: JSON.stringify({ survivorId, memberIds, content }),
+		});
+		if (!res.ok) {
+			const error = await res.json().catch(() => ({ error: "Failed to merge memories" }));
+			throw new Error(error.error || "Failed to merge memories");
+		}
+		return res.json();
+	},
+
+	async exportBundle(format: MemoryBundleFormat, filter: MemoryBundleFilter = {}): Promise<{ blob: Blob; filename: string; count: number }> {
+		const params = new URLSearchParams({ format });
+		if (filter.kind) params.set("kind", filter.kind);
+		if (filter.layer) params.set("layer", filter.layer);
+		if (filter.category) params.set("category", filter.category);
+		if (filter.status) params.set("status", filter.status);
+		for (const tag of filter.tags || []) params.append("tag", tag);
+		const res = await apiFetch(`${API_BASE}/api/memories/export?${params.toString()}`);
+		if (!res.ok) {
+			const error = await res.json().catch(() => ({ error: "Failed to export memories" }));
+			throw new Error(error.error || "Failed to export memories");
+		}
+		return {
+			blob: await res.blob(),
+			filename: format === "markdown" ? "memories.md" : "memories.jsonl",
+			count: Number(res.headers.get("X-Bundle-Count") || 0),
+		};
+	},
+
+	async importBundle(input: {
+		format: MemoryBundleFormat;
+		content: string;
+		into?: PersistentMemoryLayer;
+		onDuplicate?: MemoryBundleDuplicatePolicy;
+	} & MemoryBundleFilter): Promise<MemoryBundleImportReport> {
+		const res = await apiFetch(`${API_BASE}/api/memories/import`, {
+			method: "POST",
+			headers: { "Content-Type": "application/json" },
+			body: JSON.stringify(input),
+		});
+		if (!res.ok) {
+			const error = await res.json().catch(() => ({ error: "Failed to import memories" }));
+			throw new Error(error.error || "Failed to import memories");
+		}
+		return res.json();
+	},
+
+	async undoOperation(operationId: string): Promise<UndoMemoryOperationResponse> {
+		const res = await apiFetch(`${API_BASE}/api/memories/operations/${encodeURIComponent(operationId)}/undo`, {
+			method: "POST",
+		});
+		if (!res.ok) {
+			const error = await res.json().catch(() => ({ error: "Failed to undo memory operation" }));
+			throw new Error(error.error || "Failed to undo memory operation");
+		}
+		return res.json();
+	},
+
+	async unmerge(id: string): Promise<MemoryEntry> {
+		const res = await apiFetch(`${API_BASE}/api/memories/${encodeURIComponent(id)}/unmerge`, {
+			method: "POST",
+		});
+		if (!res.ok) {
+			const error = await res.json().catch(() => ({ error: `Failed to unmerge memory ${id}` }));
+			throw new Error(error.error || `Failed to unmerge memory ${id}`);
+		}
+		return res.json();
+	},
 };
 
 export const workingMemoryApi = {
@@ -2448,12 +3528,15 @@ export const auditApi = {
 		tool?: string;
 		result?: string;
 		project?: string;
+		/** Entity reference such as "doc:guides/setup" or "task:abc123". */
+		ref?: string;
 	}): Promise<{ events: AuditEvent[]; count: number }> {
 		const params = new URLSearchParams();
 		if (options?.limit) params.set("limit", String(options.limit));
 		if (options?.tool) params.set("tool", options.tool);
 		if (options?.result) params.set("result", options.result);
 		if (options?.project) params.set("project", options.project);
+		if (options?.ref) params.set("ref", options.ref);
 
 		const res = await apiFetch(`${API_BASE}/api/audit/recent?${params.toString()}`);
 		if (!res.ok) throw new Error("Failed to fetch audit events");
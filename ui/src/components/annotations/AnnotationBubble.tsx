@@ -1,6 +1,6 @@
 import { useRef, useState, useCallback, useEffect } from "react";
 import { createPortal } from "react-dom";
-import { Highlighter, Copy, Trash2, X, ChevronRight } from "lucide-react";
+import { Highlighter, Copy, Trash2, X, ChevronRight, Check, RotateCcw, MessageSquare, AlertTriangle } from "lucide-react";
 import { cn } from "../../lib/utils";
 import { useAnnotationContext } from "../../contexts/AnnotationContext";
 import { ANNOTATION_TYPE_META } from "../../types/annotation";
@@ -16,6 +16,7 @@ interface AnnotationBubbleProps {
 /**
  * Agentation-style draggable bubble with expandable annotation panel.
  * Fixed position within the doc viewer, defaults to bottom-right.
+ * The panel lists open or resolved annotation threads.
  */
 export function AnnotationBubble({ containerRef, onNavigateToDoc }: AnnotationBubbleProps) {
 	const {
@@ -25,20 +26,25 @@ export function AnnotationBubble({ containerRef, onNavigateToDoc }: AnnotationBu
 		bubblePosition,
 		setBubblePosition,
 		copyAllToClipboard,
-		clearAll,
+		clearResolved,
 		remove,
-		docPaths,
-		getByDoc,
+		reply,
+		setResolved,
 	} = useAnnotationContext();
 
 	const bubbleRef = useRef<HTMLDivElement>(null);
 	const [showClearConfirm, setShowClearConfirm] = useState(false);
 	const [copied, setCopied] = useState(false);
+	const [showResolved, setShowResolved] = useState(false);
+	const [expandedId, setExpandedId] = useState<string | null>(null);
 	const dragState = useRef<{ dragging: boolean; didDrag: boolean; startX: number; startY: number; offsetX: number; offsetY: number }>({
 		dragging: false, didDrag: false, startX: 0, startY: 0, offsetX: 0, offsetY: 0,
 	});
 
-	const count = annotations.length;
+	const count = annotations.filter((a) => !a.resolved).length;
+	const resolvedCount = annotations.length - count;
+	const visible = annotations.filter((a) => a.resolved === showResolved);
+	const visibleDocPaths = [...new Set(visible.map((a) => a.docPath))];
 
 	// Resolve position — default to bottom-right of container
 	const pos = (() => {
@@ -113,15 +119,15 @@ export function AnnotationBubble({ containerRef, onNavigateToDoc }: AnnotationBu
 		}
 	}, [copyAllToClipboard]);
 
-	// Clear all
+	// Clear resolved
 	const handleClear = useCallback(() => {
-		clearAll();
+		clearResolved();
 		setShowClearConfirm(false);
-		setPanelOpen(false);
-	}, [clearAll, setPanelOpen]);
+		setShowResolved(false);
+	}, [clearResolved]);
 
 	// Hide bubble entirely when no annotations and panel is closed
-	if (count === 0 && !panelOpen) return null;
+	if (annotations.length === 0 && !panelOpen) return null;
 
 	// Always show bubble on docs page — render via portal to avoid transform context issues
 	return createPortal(
@@ -157,30 +163,42 @@ export function AnnotationBubble({ containerRef, onNavigateToDoc }: AnnotationBu
 				<div className="absolute bottom-14 right-0 w-80 max-h-96 bg-popover border border-border rounded-xl shadow-2xl animate-in fade-in-0 slide-in-from-bottom-2 duration-150 overflow-hidden">
 					{/* Header */}
 					<div className="flex items-center justify-between px-3 py-2 border-b border-border">
-						<span className="text-sm font-medium">
-							Annotations
-							{count > 0 && <span className="text-muted-foreground ml-1">({count})</span>}
-						</span>
+						<div className="flex items-center gap-0.5 text-xs">
+							{([false, true] as const).map((resolved) => (
+								<button
+									key={String(resolved)}
+									type="button"
+									onClick={() => { setShowResolved(resolved); setShowClearConfirm(false); }}
+									className={cn(
+										"px-2 py-0.5 rounded font-medium",
+										showResolved === resolved ? "bg-muted text-foreground" : "text-muted-foreground hover:text-foreground",
+									)}
+								>
+									{resolved ? "Resolved" : "Open"}
+									<span className="ml-1 opacity-60">{resolved ? resolvedCount : count}</span>
+								</button>
+							))}
+						</div>
 						<div className="flex items-center gap-1">
-							{count > 0 && (
-								<>
-									<button
-										type="button"
-										onClick={handleCopy}
-										className="p-1 rounded hover:bg-muted text-muted-foreground hover:text-foreground"
-										title="Copy all annotations"
-									>
-										<Copy className={cn("w-3.5 h-3.5", copied && "text-green-500")} />
-									</button>
-									<button
-										type="button"
-										onClick={() => setShowClearConfirm(true)}
-										className="p-1 rounded hover:bg-red-500/10 text-muted-foreground hover:text-red-500"
-										title="Clear all annotations"
-									>
-										<Trash2 className="w-3.5 h-3.5" />
-									</button>
-								</>
+							{!showResolved && count > 0 && (
+								<button
+									type="button"
+									onClick={handleCopy}
+									className="p-1 rounded hover:bg-muted text-muted-foreground hover:text-foreground"
+									title="Copy open annotations"
+								>
+									<Copy className={cn("w-3.5 h-3.5", copied && "text-green-500")} />
+								</button>
+							)}
+							{showResolved && resolvedCount > 0 && (
+								<button
+									type="button"
+									onClick={() => setShowClearConfirm(true)}
+									className="p-1 rounded hover:bg-red-500/10 text-muted-foreground hover:text-red-500"
+									title="Clear resolved annotations"
+								>
+									<Trash2 className="w-3.5 h-3.5" />
+								</button>
 							)}
 							<button
 								type="button"
@@ -195,7 +213,7 @@ export function AnnotationBubble({ containerRef, onNavigateToDoc }: AnnotationBu
 					{/* Clear confirmation */}
 					{showClearConfirm && (
 						<div className="px-3 py-2 bg-red-500/5 border-b border-red-500/20 flex items-center justify-between">
-							<span className="text-xs text-red-600 dark:text-red-400">Clear all {count} annotations?</span>
+							<span className="text-xs text-red-600 dark:text-red-400">Delete {resolvedCount} resolved annotation{resolvedCount === 1 ? "" : "s"} for everyone?</span>
 							<div className="flex gap-1">
 								<button type="button" onClick={() => setShowClearConfirm(false)} className="text-xs px-2 py-0.5 rounded hover:bg-muted">Cancel</button>
 								<button type="button" onClick={handleClear} className="text-xs px-2 py-0.5 rounded bg-red-500 text-white hover:bg-red-600">Clear</button>
@@ -205,14 +223,14 @@ export function AnnotationBubble({ containerRef, onNavigateToDoc }: AnnotationBu
 
 					{/* Annotation list */}
 					<div className="overflow-y-auto max-h-72 divide-y divide-border/50">
-						{count === 0 ? (
+						{visible.length === 0 ? (
 							<div className="px-3 py-6 text-center text-sm text-muted-foreground">
 								<Highlighter className="w-8 h-8 mx-auto mb-2 opacity-30" />
-								<p>No annotations yet</p>
-								<p className="text-xs mt-1">Select text in a doc to annotate</p>
+								<p>{showResolved ? "No resolved annotations" : "No open annotations"}</p>
+								{!showResolved && <p className="text-xs mt-1">Select text in a doc to annotate</p>}
 							</div>
 						) : (
-							docPaths().map((docPath) => (
+							visibleDocPaths.map((docPath) => (
 								<div key={docPath}>
 									{/* Doc group header */}
 									<button
@@ -222,17 +240,20 @@ export function AnnotationBubble({ containerRef, onNavigateToDoc }: AnnotationBu
 									>
 										<ChevronRight className="w-3 h-3" />
 										<span className="truncate">@doc/{docPath}</span>
-										<span className="ml-auto text-[10px] opacity-60">{getByDoc(docPath).length}</span>
+										<span className="ml-auto text-[10px] opacity-60">{visible.filter((a) => a.docPath === docPath).length}</span>
 									</button>
 
 									{/* Annotations in this doc */}
-									{getByDoc(docPath).map((ann, i) => (
+									{visible.filter((a) => a.docPath === docPath).map((ann, i) => (
 										<AnnotationPanelItem
 											key={ann.id}
 											annotation={ann}
-											index={annotations.indexOf(ann) + 1}
+											index={i + 1}
+											expanded={expandedId === ann.id}
+											onToggle={() => setExpandedId(expandedId === ann.id ? null : ann.id)}
 											onRemove={remove}
-											onNavigate={() => onNavigateToDoc?.(docPath)}
+											onReply={reply}
+											onResolve={setResolved}
 										/>
 									))}
 								</div>
@@ -241,7 +262,7 @@ export function AnnotationBubble({ containerRef, onNavigateToDoc }: AnnotationBu
 					</div>
 
 					{/* Footer with copy hint */}
-					{count > 0 && (
+					{!showResolved && count > 0 && (
 						<div className="px-3 py-1.5 border-t border-border bg-muted/30">
 							<p className="text-[10px] text-muted-foreground text-center">
 								{copied ? "✓ Copied to clipboard!" : "Copy all → paste into your agent"}
@@ -258,48 +279,129 @@ export function AnnotationBubble({ containerRef, onNavigateToDoc }: AnnotationBu
 function AnnotationPanelItem({
 	annotation,
 	index,
+	expanded,
+	onToggle,
 	onRemove,
-	onNavigate,
+	onReply,
+	onResolve,
 }: {
 	annotation: Annotation;
 	index: number;
+	expanded: boolean;
+	onToggle: () => void;
 	onRemove: (id: string) => void;
-	onNavigate: () => void;
+	onReply: (id: string, content: string) => Promise<boolean>;
+	onResolve: (id: string, resolved: boolean) => void;
 }) {
 	const meta = ANNOTATION_TYPE_META[annotation.type];
+	const [draft, setDraft] = useState("");
+	const [sending, setSending] = useState(false);
+
+	const handleReply = useCallback(async () => {
+		const content = draft.trim();
+		if (!content || sending) return;
+		setSending(true);
+		if (await onReply(annotation.id, content)) setDraft("");
+		setSending(false);
+	}, [draft, sending, onReply, annotation.id]);
 
 	return (
-		<div className="group flex items-start gap-2 px-3 py-2 hover:bg-muted/30 transition-colors">
-			{/* Number */}
-			<span className="shrink-0 w-5 h-5 rounded-full bg-primary/10 text-primary text-[10px] font-bold flex items-center justify-center mt-0.5">
-				{index}
-			</span>
-
-			{/* Content */}
-			<div className="min-w-0 flex-1">
-				<div className="flex items-center gap-1">
-					<span className="text-xs">{meta.icon}</span>
-					<span className={cn("text-[10px] font-medium", meta.color)}>{meta.label}</span>
-				</div>
-				<p className="text-xs text-muted-foreground truncate mt-0.5">
-					"{annotation.selectedText.slice(0, 40)}{annotation.selectedText.length > 40 ? "…" : ""}"
-				</p>
-				{annotation.content && (
-					<p className="text-xs mt-0.5 truncate">
-						{annotation.type === "replace" ? `→ "${annotation.content.slice(0, 30)}…"` : annotation.content.slice(0, 40)}
+		<div className={cn("group px-3 py-2 transition-colors", expanded ? "bg-muted/20" : "hover:bg-muted/30")}>
+			<div className="flex items-start gap-2 cursor-pointer" onClick={onToggle}>
+				{/* Number */}
+				<span className="shrink-0 w-5 h-5 rounded-full bg-primary/10 text-primary text-[10px] font-bold flex items-center justify-center mt-0.5">
+					{index}
+				</span>
+
+				{/* Content */}
+				<div className="min-w-0 flex-1">
+					<div className="flex items-center gap-1">
+						<span className="text-xs">{meta.icon}</span>
+						<span className={cn("text-[10px] font-medium", meta.color)}>{meta.label}</span>
+						{annotation.author && <span className="text-[10px] text-muted-foreground truncate">· {annotation.author}</span>}
+						{annotation.orphaned && (
+							<span title="The selected text is no longer in the doc">
+								<AlertTriangle className="w-3 h-3 text-amber-500" />
+							</span>
+						)}
+						{annotation.replies.length > 0 && (
+							<span className="ml-auto flex items-center gap-0.5 text-[10px] text-muted-foreground">
+								<MessageSquare className="w-3 h-3" />
+								{annotation.replies.length}
+							</span>
+						)}
+					</div>
+					<p className={cn("text-xs text-muted-foreground mt-0.5", !expanded && "truncate")}>
+						"{expanded ? annotation.selectedText : annotation.selectedText.slice(0, 40)}{!expanded && annotation.selectedText.length > 40 ? "…" : ""}"
 					</p>
-				)}
+					{annotation.content && (
+						<p className={cn("text-xs mt-0.5", !expanded && "truncate")}>
+							{annotation.type === "replace"
+								? `→ "${expanded ? annotation.content : `${annotation.content.slice(0, 30)}…`}"`
+								: expanded ? annotation.content : annotation.content.slice(0, 40)}
+						</p>
+					)}
+				</div>
+
+				{/* Resolve / reopen */}
+				<button
+					type="button"
+					onClick={(e) => { e.stopPropagation(); onResolve(annotation.id, !annotation.resolved); }}
+					className="shrink-0 p-1 rounded opacity-0 group-hover:opacity-100 hover:bg-muted text-muted-foreground hover:text-foreground transition-opacity"
+					title={annotation.resolved ? "Reopen" : "Resolve"}
+				>
+					{annotation.resolved ? <RotateCcw className="w-3 h-3" /> : <Check className="w-3 h-3" />}
+				</button>
+
+				{/* Remove */}
+				<button
+					type="button"
+					onClick={(e) => { e.stopPropagation(); onRemove(annotation.id); }}
+					className="shrink-0 p-1 rounded opacity-0 group-hover:opacity-100 hover:bg-red-500/10 text-muted-foreground hover:text-red-500 transition-opacity"
+					title="Remove annotation"
+				>
+					<X className="w-3 h-3" />
+				</button>
 			</div>
 
-			{/* Remove */}
-			<button
-				type="button"
-				onClick={(e) => { e.stopPropagation(); onRemove(annotation.id); }}
-				className="shrink-0 p-1 rounded opacity-0 group-hover:opacity-100 hover:bg-red-500/10 text-muted-foreground hover:text-red-500 transition-opacity"
-				title="Remove annotation"
-			>
-				<X className="w-3 h-3" />
-			</button>
+			{/* Thread */}
+			{expanded && (
+				<div className="ml-7 mt-2 space-y-1.5">
+					{annotation.replies.map((r) => (
+						<div key={r.id} className="text-xs border-l-2 border-border pl-2">
+							<span className="font-medium">{r.author || "unknown"}</span>
+							<span className="text-muted-foreground ml-1 text-[10px]">{new Date(r.createdAt).toLocaleString()}</span>
+							<p className="whitespace-pre-wrap break-words">{r.content}</p>
+						</div>
+					))}
+					{annotation.resolved && annotation.resolvedBy && (
+						<p className="text-[10px] text-muted-foreground">Resolved by {annotation.resolvedBy}</p>
+					)}
+					<textarea
+						value={draft}
+						onChange={(e) => setDraft(e.target.value)}
+						onKeyDown={(e) => {
+							if (e.key === "Enter" && (e.metaKey || e.ctrlKey)) {
+								e.preventDefault();
+								void handleReply();
+							}
+						}}
+						placeholder="Reply… (⌘/Ctrl+Enter to send)"
+						rows={2}
+						className="w-full text-xs rounded border border-border bg-background px-2 py-1 resize-none focus:outline-none focus:ring-1 focus:ring-primary"
+					/>
+					<div className="flex justify-end">
+						<button
+							type="button"
+							onClick={() => void handleReply()}
+							disabled={!draft.trim() || sending}
+							className="text-xs px-2 py-0.5 rounded bg-primary text-primary-foreground hover:bg-primary/90 disabled:opacity-50"
+						>
+							Reply
+						</button>
+					</div>
+				</div>
+			)}
 		</div>
 	);
 }
@@ -1,4 +1,5 @@
 import { useSSE } from "../../contexts/SSEContext";
+import { useOfflineSync } from "../../contexts/OfflineSyncContext";
 import { cn } from "@/ui/lib/utils";
 import {
 	Tooltip,
@@ -15,15 +16,38 @@ interface ConnectionStatusProps {
  * Connection status indicator for SSE connection
  * - Hidden when connected (no visual noise)
  * - Shows red/amber indicator when disconnected with reconnection animation
+ * - Shows how many offline edits are queued while disconnected or syncing
  */
 export function ConnectionStatus({ className }: ConnectionStatusProps) {
 	const { isConnected } = useSSE();
+	const { pending, syncing } = useOfflineSync();
+	const queued = pending.length;
 
 	// Don't render when connected (no visual noise when everything works)
-	if (isConnected) {
+	if (isConnected && !syncing) {
 		return null;
 	}
 
+	if (isConnected) {
+		return (
+			<div
+				className={cn(
+					"flex items-center gap-1.5 px-2 py-1 rounded-md",
+					"bg-blue-500/10 text-blue-600 dark:text-blue-400",
+					className
+				)}
+				role="status"
+				aria-live="polite"
+			>
+				<span className="text-xs font-medium">Syncing {queued} offline change{queued === 1 ? "" : "s"}...</span>
+			</div>
+		);
+	}
+
+	const message = queued > 0
+		? `Offline - ${queued} change${queued === 1 ? "" : "s"} queued, showing cached data`
+		: "Connection lost - attempting to reconnect";
+
 	return (
 		<TooltipProvider>
 			<Tooltip>
@@ -37,18 +61,20 @@ export function ConnectionStatus({ className }: ConnectionStatusProps) {
 						)}
 						role="status"
 						aria-live="polite"
-						aria-label="Connection lost - attempting to reconnect"
+						aria-label={message}
 					>
 						{/* Animated disconnection indicator */}
 						<span className="relative flex h-2 w-2">
 							<span className="animate-ping absolute inline-flex h-full w-full rounded-full bg-amber-400 opacity-75" />
 							<span className="relative inline-flex rounded-full h-2 w-2 bg-amber-500" />
 						</span>
-						<span className="text-xs font-medium">Reconnecting...</span>
+						<span className="text-xs font-medium">
+							{queued > 0 ? `Offline · ${queued} queued` : "Reconnecting..."}
+						</span>
 					</div>
 				</TooltipTrigger>
 				<TooltipContent side="bottom">
-					<p>Connection lost - attempting to reconnect</p>
+					<p>{message}</p>
 				</TooltipContent>
 			</Tooltip>
 		</TooltipProvider>
@@ -1,28 +1,32 @@
-import { forwardRef, useImperativeHandle, useCallback, useMemo } from "react";
-import MdEditor from "react-markdown-editor-lite";
-import "react-markdown-editor-lite/lib/index.css";
-import { marked } from "marked";
-import hljs from "highlight.js";
-import { useTheme } from "../../App";
-
-// Configure marked to use highlight.js
-marked.setOptions({
-	highlight: (code: string, lang: string) => {
-		if (lang && hljs.getLanguage(lang)) {
-			try {
-				return hljs.highlight(code, { language: lang }).value;
-			} catch {
-				// Fall through to auto-detection
-			}
-		}
-		// Auto-detect language
-		try {
-			return hljs.highlightAuto(code).value;
-		} catch {
-			return code;
-		}
-	},
-});
+import {
+	forwardRef,
+	memo,
+	useCallback,
+	useEffect,
+	useImperativeHandle,
+	useLayoutEffect,
+	useMemo,
+	useRef,
+	useState,
+	type KeyboardEvent,
+	type MouseEvent,
+} from "react";
+import { Plus } from "lucide-react";
+import { resolveReference, type SemanticResolution } from "../../api/client";
+import type { RemoteCursor } from "../../hooks/useDocCollab";
+import { peerColor } from "../../lib/collab/presence";
+import { cn } from "../../lib/utils";
+import MDRender from "./MDRender";
+import { shiftBlockRange, splitMarkdownBlocks, type BlockRange, type MarkdownBlock } from "./markdownBlocks";
+import { canonicalizeSemanticReference } from "./mentionUtils";
+import {
+	loadReferenceCandidates,
+	matchReferenceCandidates,
+	referenceQueryAt,
+	type ReferenceCandidate,
+} from "./referenceSuggestions";
+import { measureCaret, RemoteCursors } from "./RemoteCursors";
+import { matchSlashCommands, slashQueryAt } from "./slashCommands";
 
 interface MDEditorComponentProps {
 	markdown: string;
@@ -31,15 +35,76 @@ interface MDEditorComponentProps {
 	readOnly?: boolean;
 	className?: string;
 	height?: number | string;
-	/** Preview mode: "edit" (no preview), "live" (split), "preview" (read-only) */
+	/** "preview" renders read-only; "edit" and "live" edit blocks in place. */
 	preview?: "edit" | "live" | "preview";
+	/** Called with the textarea of the block being edited, or null. */
+	onTextareaChange?: (textarea: HTMLTextAreaElement | null) => void;
+	/** Other editors' carets, flagged on the blocks they are in. */
+	remoteCursors?: RemoteCursor[];
 }
 
 export interface MDEditorRef {
 	setMarkdown: (md: string) => void;
 	getMarkdown: () => string;
+	/** The textarea of the block being edited, for selection tracking. */
+	getTextarea: () => HTMLTextAreaElement | null;
+	/** Offset of that textarea's text within the whole markdown. */
+	getTextareaOffset: () => number;
+}
+
+interface MenuState {
+	kind: "reference" | "slash";
+	/** Offset of the `@` or `/` in the block text. */
+	start: number;
+	query: string;
+	index: number;
+}
+
+interface MenuItem {
+	key: string;
+	label: string;
+	detail?: string;
+	tag?: string;
+	muted?: boolean;
+	/** Text replacing the typed `@query` or `/query`, split at the caret. */
+	before: string;
+	after: string;
+}
+
+/** Rendered blocks only re-render when their own markdown changes. */
+const BlockContent = memo(function BlockContent({ markdown }: { markdown: string }) {
+	return <MDRender markdown={markdown} />;
+});
+
+/** Looks up the reference typed so far, so the menu can say what it points at. */
+function useTypedReference(ref: string | null) {
+	const [resolution, setResolution] = useState<{ ref: string; result: SemanticResolution | null } | null>(null);
+	useEffect(() => {
+		if (!ref) return;
+		let cancelled = false;
+		const timer = window.setTimeout(() => {
+			resolveReference(ref)
+				.then((result) => {
+					if (!cancelled) setResolution({ ref, result });
+				})
+				.catch(() => {
+					if (!cancelled) setResolution({ ref, result: null });
+				});
+		}, 200);
+		return () => {
+			cancelled = true;
+			window.clearTimeout(timer);
+		};
+	}, [ref]);
+	return resolution?.ref === ref ? resolution.result : undefined;
 }
 
+/**
+ * Block editor for markdown. Each top-level block renders exactly as MDRender
+ * shows it when reading; clicking a block edits its source in place. Typing
+ * `@` suggests tasks, docs, memories, decisions and templates, and `/` at the
+ * start of a line inserts headings, checklists, tables and diagrams.
+ */
 const MDEditorComponent = forwardRef<MDEditorRef, MDEditorComponentProps>(
 	(
 		{
@@ -50,24 +115,61 @@ const MDEditorComponent = forwardRef<MDEditorRef, MDEditorComponentProps>(
 			className = "",
 			height = 400,
 			preview: previewMode,
+			onTextareaChange,
+			remoteCursors,
 		},
 		ref,
 	) => {
-		const { isDark } = useTheme();
+		const [active, setActive] = useState<BlockRange | null>(null);
+		const [seen, setSeen] = useState(markdown);
+		const [menu, setMenu] = useState<MenuState | null>(null);
+		const [candidates, setCandidates] = useState<ReferenceCandidate[] | null>(null);
+		const textareaRef = useRef<HTMLTextAreaElement | null>(null);
+		const [textarea, setTextarea] = useState<HTMLTextAreaElement | null>(null);
+		const emittedRef = useRef<string | null>(null);
+		const pendingCaretRef = useRef<number | null>(null);
+		const menuRef = useRef<HTMLDivElement>(null);
+		const onTextareaChangeRef = useRef(onTextareaChange);
+		onTextareaChangeRef.current = onTextareaChange;
+
+		// Edits from elsewhere (another editor, a reset) move the block being
+		// edited along with the text around it.
+		if (markdown !== seen) {
+			setSeen(markdown);
+			if (active && markdown !== emittedRef.current) {
+				const shifted = shiftBlockRange(active, seen, markdown);
+				setActive({ start: Math.min(shifted.start, markdown.length), end: Math.min(shifted.end, markdown.length) });
+			}
+		}
+
+		const editing = !readOnly && previewMode !== "preview";
+		// An empty document is a single empty block, ready to type into.
+		const range =
+			active && active.end <= markdown.length ? active : !markdown.trim() ? { start: 0, end: markdown.length } : null;
+		const blockText = range ? markdown.slice(range.start, range.end) : "";
 
-		// Markdown renderer using marked
-		const renderHTML = useCallback((text: string) => {
-			return marked.parse(text, { async: false }) as string;
+		const { before, after } = useMemo(() => {
+			if (!range) return { before: splitMarkdownBlocks(markdown), after: [] as MarkdownBlock[] };
+			return {
+				before: splitMarkdownBlocks(markdown.slice(0, range.start)),
+				after: splitMarkdownBlocks(markdown.slice(range.end), range.end),
+			};
+		}, [markdown, range?.start, range?.end]);
+
+		const bindTextarea = useCallback((node: HTMLTextAreaElement | null) => {
+			textareaRef.current = node;
+			setTextarea(node);
+			onTextareaChangeRef.current?.(node);
 		}, []);
 
-		const handleEditorChange = useCallback(
-			({ text }: { text: string }) => {
-				onChange(text);
+		const emit = useCallback(
+			(next: string) => {
+				emittedRef.current = next;
+				onChange(next);
 			},
 			[onChange],
 		);
 
-		// Expose ref methods
 		useImperativeHandle(
 			ref,
 			() => ({
@@ -75,44 +177,326 @@ const MDEditorComponent = forwardRef<MDEditorRef, MDEditorComponentProps>(
 					onChange(md);
 				},
 				getMarkdown: () => markdown,
+				getTextarea: () => textareaRef.current,
+				getTextareaOffset: () => range?.start ?? 0,
 			}),
-			[markdown, onChange],
+			[markdown, onChange, range?.start],
 		);
 
-		// Map preview mode to react-markdown-editor-lite view
-		// "edit" = editor only, "live" = split, "preview" = preview only
-		const view = useMemo(() => {
-			if (readOnly || previewMode === "preview") {
-				return { menu: false, md: false, html: true };
+		const activate = useCallback((block: BlockRange, caret: number) => {
+			pendingCaretRef.current = caret;
+			setMenu(null);
+			setActive(block);
+		}, []);
+
+		/** Starts a new block after the last one. */
+		const appendBlock = () => {
+			let next = markdown;
+			if (next.trim()) next = next.endsWith("\n\n") ? next : next.endsWith("\n") ? `${next}\n` : `${next}\n\n`;
+			if (next !== markdown) emit(next);
+			activate({ start: next.length, end: next.length }, 0);
+		};
+
+		// Size the textarea to its content and restore the caret after
+		// programmatic edits and block switches.
+		useLayoutEffect(() => {
+			const ta = textareaRef.current;
+			if (!ta) return;
+			ta.style.height = "auto";
+			ta.style.height = `${ta.scrollHeight}px`;
+			const caret = pendingCaretRef.current;
+			if (caret !== null) {
+				pendingCaretRef.current = null;
+				ta.focus();
+				ta.setSelectionRange(caret, caret);
 			}
-			if (previewMode === "live") {
-				return { menu: true, md: true, html: true };
+		});
+
+		const updateMenu = (text: string, caret: number) => {
+			const slash = slashQueryAt(text, caret);
+			const reference = slash ? null : referenceQueryAt(text, caret);
+			const found = slash ? { kind: "slash" as const, ...slash } : reference ? { kind: "reference" as const, ...reference } : null;
+			if (!found) {
+				setMenu(null);
+				return;
 			}
-			// Default: edit only (no preview)
-			return { menu: true, md: true, html: false };
-		}, [readOnly, previewMode]);
+			if (found.kind === "reference" && candidates === null) {
+				loadReferenceCandidates()
+					.then(setCandidates)
+					.catch(() => setCandidates([]));
+			}
+			setMenu((prev) =>
+				prev && prev.kind === found.kind && prev.start === found.start && prev.query === found.query
+					? prev
+					: { ...found, index: 0 },
+			);
+		};
+
+		const typedRef = menu?.kind === "reference" ? canonicalizeSemanticReference(`@${menu.query}`) : null;
+		const typedResolution = useTypedReference(typedRef);
+
+		const menuItems = useMemo((): MenuItem[] => {
+			if (!menu) return [];
+			if (menu.kind === "slash") {
+				return matchSlashCommands(menu.query).map((command) => ({
+					key: command.id,
+					label: command.label,
+					detail: command.description,
+					before: command.before,
+					after: command.after,
+				}));
+			}
+			const items: MenuItem[] = matchReferenceCandidates(candidates ?? [], menu.query).map((item) => ({
+				key: item.ref,
+				label: item.label,
+				detail: item.ref,
+				tag: item.kind,
+				before: `${item.ref} `,
+				after: "",
+			}));
+			if (typedRef && !items.some((item) => item.key === typedRef)) {
+				const entity = typedResolution?.entity;
+				items.unshift({
+					key: typedRef,
+					label: entity?.title || typedRef,
+					detail:
+						typedResolution === undefined ? "Checking..." : typedResolution?.found ? typedRef : `${typedRef} - not found`,
+					tag: entity?.type ?? typedRef.slice(1, typedRef.indexOf("/")),
+					muted: typedResolution !== undefined && !typedResolution?.found,
+					before: `${typedRef} `,
+					after: "",
+				});
+			}
+			return items;
+		}, [menu, candidates, typedRef, typedResolution]);
+
+		const applyMenuItem = (item: MenuItem) => {
+			const ta = textareaRef.current;
+			if (!ta || !range || !menu) return;
+			const value = ta.value;
+			const caret = ta.selectionStart;
+			const nextValue = value.slice(0, menu.start) + item.before + item.after + value.slice(caret);
+			const nextCaret = menu.start + item.before.length;
+			emit(markdown.slice(0, range.start) + nextValue + markdown.slice(range.end));
+			setActive({ start: range.start, end: range.start + nextValue.length });
+			pendingCaretRef.current = nextCaret;
+			setMenu(null);
+			// The reference command opens the reference menu straight away.
+			if (item.before.endsWith("@")) updateMenu(nextValue, nextCaret);
+		};
+
+		const handleChange = (value: string, caret: number) => {
+			if (!range) return;
+			emit(markdown.slice(0, range.start) + value + markdown.slice(range.end));
+			setActive({ start: range.start, end: range.start + value.length });
+			updateMenu(value, caret);
+		};
+
+		const wrapSelection = (ta: HTMLTextAreaElement, marker: string) => {
+			const { selectionStart: start, selectionEnd: end, value } = ta;
+			const nextValue = value.slice(0, start) + marker + value.slice(start, end) + marker + value.slice(end);
+			handleChange(nextValue, end + marker.length);
+			pendingCaretRef.current = end + marker.length;
+		};
+
+		const handleKeyDown = (event: KeyboardEvent<HTMLTextAreaElement>) => {
+			const ta = event.currentTarget;
+			if (menu && menuItems.length > 0) {
+				if (event.key === "ArrowDown" || event.key === "ArrowUp") {
+					event.preventDefault();
+					const step = event.key === "ArrowDown" ? 1 : -1;
+					setMenu({ ...menu, index: (menu.index + step + menuItems.length) % menuItems.length });
+					return;
+				}
+				if (event.key === "Enter" || event.key === "Tab") {
+					event.preventDefault();
+					const item = menuItems[menu.index];
+					if (item) applyMenuItem(item);
+					return;
+				}
+			}
+			if (event.key === "Escape") {
+				event.preventDefault();
+				event.stopPropagation();
+				if (menu) setMenu(null);
+				else setActive(null);
+				return;
+			}
+			if ((event.metaKey || event.ctrlKey) && (event.key === "b" || event.key === "i")) {
+				event.preventDefault();
+				wrapSelection(ta, event.key === "b" ? "**" : "_");
+				return;
+			}
+			const collapsed = ta.selectionStart === ta.selectionEnd;
+			if (event.key === "ArrowUp" && collapsed && ta.selectionStart === 0) {
+				const previous = before[before.length - 1];
+				if (previous) {
+					event.preventDefault();
+					activate(previous, previous.end - previous.start);
+				}
+			} else if (event.key === "ArrowDown" && collapsed && ta.selectionEnd === ta.value.length) {
+				const next = after[0];
+				if (next) {
+					event.preventDefault();
+					activate(next, 0);
+				}
+			}
+		};
+
+		const activateOnMouseDown = (block: MarkdownBlock) => (event: MouseEvent<HTMLDivElement>) => {
+			// Modifier clicks follow links and badges instead of editing.
+			if (event.button !== 0 || event.metaKey || event.ctrlKey) return;
+			event.preventDefault();
+			activate(block, block.end - block.start);
+		};
+
+		const peersIn = (block: BlockRange) =>
+			(remoteCursors ?? []).filter((cursor) => cursor.head >= block.start && cursor.head <= block.end);
+
+		const activeCursors = useMemo(
+			() =>
+				range
+					? peersIn(range).map((cursor) => ({
+							...cursor,
+							anchor: Math.max(0, cursor.anchor - range.start),
+							head: cursor.head - range.start,
+						}))
+					: [],
+			// eslint-disable-next-line react-hooks/exhaustive-deps
+			[remoteCursors, range?.start, range?.end],
+		);
+
+		const renderBlock = (block: MarkdownBlock, index: number, group: string) => {
+			const peers = peersIn(block);
+			return (
+				<div
+					key={`${group}-${index}`}
+					className="relative -mx-3 cursor-text rounded-md px-3 transition-colors hover:bg-muted/40"
+					style={peers[0] ? { boxShadow: `inset 2px 0 0 ${peerColor(peers[0].user)}` } : undefined}
+					onMouseDown={activateOnMouseDown(block)}
+					data-testid="md-editor-block"
+				>
+					<BlockContent markdown={markdown.slice(block.start, block.end)} />
+					{peers.length > 0 && (
+						<div className="pointer-events-none absolute right-1 top-1 flex gap-1">
+							{peers.map((peer) => (
+								<span
+									key={peer.clientId}
+									className="rounded px-1 text-[10px] leading-4 text-white"
+									style={{ backgroundColor: peerColor(peer.user) }}
+								>
+									{peer.user}
+								</span>
+							))}
+						</div>
+					)}
+				</div>
+			);
+		};
+
+		const menuPosition = useMemo(() => {
+			const ta = textareaRef.current;
+			if (!menu || !ta) return null;
+			const box = measureCaret(ta, menu.start);
+			return { top: ta.offsetTop + box.top + box.height + 4, left: Math.max(0, ta.offsetLeft + box.left) };
+			// blockText: the caret box moves as the block's text changes
+			// eslint-disable-next-line react-hooks/exhaustive-deps
+		}, [menu?.start, menu?.kind, blockText]);
 
-		// Handle height - support both pixel values and percentage/full height
 		const isFullHeight = height === "100%" || height === "full";
-		const editorStyle = isFullHeight
-			? { height: "100%" }
-			: { height: typeof height === "number" ? height : 400 };
+		const frameStyle = isFullHeight ? { height: "100%" } : { height: typeof height === "number" ? height : 400 };
+
+		if (!editing) {
+			return (
+				<div className={cn("md-block-editor overflow-y-auto rounded-md border border-border px-4", className)} style={frameStyle}>
+					<MDRender markdown={markdown} />
+				</div>
+			);
+		}
 
 		return (
 			<div
-				className={`md-editor-lite-wrapper ${className} ${isDark ? "dark-mode" : ""} ${isFullHeight ? "h-full" : ""}`}
-				data-color-mode={isDark ? "dark" : "light"}
+				className={cn("md-block-editor relative overflow-y-auto rounded-md border border-border bg-background px-4 py-2", className)}
+				style={frameStyle}
+				data-testid="md-editor"
 			>
-				<MdEditor
-					value={markdown}
-					onChange={handleEditorChange}
-					renderHTML={renderHTML}
-					placeholder={placeholder}
-					readOnly={readOnly}
-					view={view}
-					canView={{ menu: !readOnly, md: true, html: false, both: false, fullScreen: true, hideMenu: false }}
-					style={editorStyle}
-				/>
+				<div className="relative">
+					{before.map((block, i) => renderBlock(block, i, "before"))}
+					{range && (
+						<div className="relative -mx-3 rounded-md bg-muted/30 px-3 py-1 ring-1 ring-border" data-testid="md-editor-active-block">
+							<textarea
+								ref={bindTextarea}
+								value={blockText}
+								rows={1}
+								spellCheck
+								placeholder={before.length === 0 && after.length === 0 ? placeholder : "Type / for blocks, @ to reference"}
+								className="md-block-editor-input block w-full resize-none overflow-hidden bg-transparent outline-none placeholder:text-muted-foreground/60"
+								onChange={(event) => handleChange(event.target.value, event.target.selectionStart)}
+								onSelect={(event) => updateMenu(event.currentTarget.value, event.currentTarget.selectionStart)}
+								onKeyDown={handleKeyDown}
+								onBlur={(event) => {
+									if (menuRef.current?.contains(event.relatedTarget as Node | null)) return;
+									setMenu(null);
+									setActive(null);
+								}}
+							/>
+							<RemoteCursors textarea={textarea} cursors={activeCursors} />
+							{/[@`|]/.test(blockText) && (
+								<div className="mt-1 border-t border-border/60 pt-1 opacity-90" data-testid="md-editor-block-preview">
+									<BlockContent markdown={blockText} />
+								</div>
+							)}
+							{menu && menuPosition && menuItems.length > 0 && (
+								<div
+									ref={menuRef}
+									className="absolute z-20 max-h-64 w-80 overflow-y-auto rounded-md border border-border bg-popover p-1 text-popover-foreground shadow-md"
+									style={menuPosition}
+									role="listbox"
+									data-testid={menu.kind === "slash" ? "md-editor-slash-menu" : "md-editor-reference-menu"}
+								>
+									{menuItems.map((item, i) => (
+										<button
+											key={item.key}
+											type="button"
+											role="option"
+											aria-selected={i === menu.index}
+											className={cn(
+												"flex w-full items-start gap-2 rounded px-2 py-1.5 text-left text-sm",
+												i === menu.index ? "bg-accent text-accent-foreground" : "hover:bg-muted",
+											)}
+											onMouseDown={(event) => {
+												event.preventDefault();
+												applyMenuItem(item);
+											}}
+										>
+											{item.tag && (
+												<span className="mt-0.5 shrink-0 rounded bg-muted px-1 text-[10px] uppercase tracking-wide text-muted-foreground">
+													{item.tag}
+												</span>
+											)}
+											<span className="min-w-0">
+												<span className={cn("block truncate", item.muted && "text-muted-foreground line-through")}>{item.label}</span>
+												{item.detail && <span className="block truncate text-xs text-muted-foreground">{item.detail}</span>}
+											</span>
+										</button>
+									))}
+								</div>
+							)}
+						</div>
+					)}
+					{after.map((block, i) => renderBlock(block, i, "after"))}
+				</div>
+				{markdown.trim() !== "" && (
+					<button
+						type="button"
+						className="mt-1 flex w-full items-center gap-1.5 rounded-md py-2 text-xs text-muted-foreground/60 transition-colors hover:text-muted-foreground"
+						onClick={appendBlock}
+						data-testid="md-editor-append"
+					>
+						<Plus className="h-3.5 w-3.5" />
+						Add block
+					</button>
+				)}
 			</div>
 		);
 	},
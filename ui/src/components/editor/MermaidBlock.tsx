@@ -61,6 +61,17 @@ function initMermaid(isDark: boolean) {
   currentTheme = theme;
 }
 
+/** Renders a diagram to SVG markup with the setup MermaidBlock uses. */
+export async function renderMermaidSvg(code: string, isDark: boolean): Promise<string> {
+  initMermaid(isDark);
+  await mermaid.parse(code.trim(), { suppressErrors: false });
+  const id = `mermaid-${Math.random().toString(36).slice(2, 11)}`;
+  const { svg } = await mermaid.render(id, code.trim());
+  const renderError = getRenderedMermaidError(svg);
+  if (renderError) throw new Error(renderError);
+  return svg;
+}
+
 const ZOOM_STEP = 0.15;
 const MIN_ZOOM = 0.3;
 const MAX_ZOOM = 5;
@@ -228,21 +239,12 @@ export function MermaidBlock({ code }: MermaidBlockProps) {
   // Render mermaid
   useEffect(() => {
     if (!code) return;
-    initMermaid(isDark);
     let cancelled = false;
 
     (async () => {
       try {
-        await mermaid.parse(code.trim(), { suppressErrors: false });
-        const id = `mermaid-${Math.random().toString(36).slice(2, 11)}`;
-        const { svg: rendered } = await mermaid.render(id, code.trim());
-        const renderError = getRenderedMermaidError(rendered);
+        const rendered = await renderMermaidSvg(code, isDark);
         if (cancelled) return;
-        if (renderError) {
-          setError(renderError);
-          setSvg(null);
-          return;
-        }
         setSvg(rendered);
         setError(null);
       } catch (err) {
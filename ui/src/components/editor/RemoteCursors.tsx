@@ -0,0 +1,111 @@
+import { useEffect, useRef, useState } from "react";
+import type { RemoteCursor } from "../../hooks/useDocCollab";
+import { peerColor } from "../../lib/collab/presence";
+
+interface RemoteCursorsProps {
+	/** The editor textarea. Render inside a positioned ancestor of it. */
+	textarea: HTMLTextAreaElement | null;
+	/** Offsets relative to the textarea's value. */
+	cursors: RemoteCursor[];
+}
+
+interface CaretBox {
+	clientId: string;
+	user: string;
+	top: number;
+	left: number;
+	height: number;
+}
+
+const MIRRORED_STYLES = [
+	"boxSizing", "width", "paddingTop", "paddingRight", "paddingBottom", "paddingLeft",
+	"borderTopWidth", "borderRightWidth", "borderBottomWidth", "borderLeftWidth",
+	"fontFamily", "fontSize", "fontWeight", "fontStyle", "letterSpacing", "lineHeight",
+	"textTransform", "textIndent", "wordSpacing", "tabSize", "whiteSpace", "wordWrap", "overflowWrap",
+] as const;
+
+/**
+ * Measures where a text offset lands in a textarea by laying the text out
+ * in an off-screen div styled like it.
+ */
+export function measureCaret(ta: HTMLTextAreaElement, offset: number) {
+	const style = window.getComputedStyle(ta);
+	const mirror = document.createElement("div");
+	for (const prop of MIRRORED_STYLES) mirror.style[prop] = style[prop];
+	mirror.style.position = "absolute";
+	mirror.style.visibility = "hidden";
+	mirror.style.whiteSpace = "pre-wrap";
+	mirror.style.overflow = "hidden";
+	mirror.textContent = ta.value.slice(0, offset);
+	const marker = document.createElement("span");
+	marker.textContent = ta.value.slice(offset, offset + 1) || ".";
+	mirror.appendChild(marker);
+	document.body.appendChild(mirror);
+	const lineHeight = Number.parseFloat(style.lineHeight) || Number.parseFloat(style.fontSize) * 1.4;
+	const box = { top: marker.offsetTop - ta.scrollTop, left: marker.offsetLeft - ta.scrollLeft, height: lineHeight };
+	document.body.removeChild(mirror);
+	return box;
+}
+
+/** Other editors' carets, drawn over the editor textarea. */
+export function RemoteCursors({ textarea, cursors }: RemoteCursorsProps) {
+	const layerRef = useRef<HTMLDivElement>(null);
+	const [boxes, setBoxes] = useState<CaretBox[]>([]);
+
+	useEffect(() => {
+		const layer = layerRef.current;
+		if (!textarea || !layer || cursors.length === 0) {
+			setBoxes([]);
+			return;
+		}
+		const update = () => {
+			const origin = layer.getBoundingClientRect();
+			const rect = textarea.getBoundingClientRect();
+			const visible: CaretBox[] = [];
+			for (const cursor of cursors) {
+				const { top, left, height } = measureCaret(textarea, cursor.head);
+				if (top < 0 || top > textarea.clientHeight - height) continue;
+				visible.push({
+					clientId: cursor.clientId,
+					user: cursor.user,
+					top: rect.top - origin.top + top,
+					left: rect.left - origin.left + left,
+					height,
+				});
+			}
+			setBoxes(visible);
+		};
+		update();
+		const observer = new ResizeObserver(update);
+		observer.observe(textarea);
+		textarea.addEventListener("scroll", update);
+		return () => {
+			observer.disconnect();
+			textarea.removeEventListener("scroll", update);
+		};
+	}, [textarea, cursors]);
+
+	return (
+		<div ref={layerRef} className="pointer-events-none absolute inset-0 overflow-hidden">
+			{boxes.map((box) => {
+				const color = peerColor(box.user);
+				return (
+					<div
+						key={box.clientId}
+						className="absolute z-10"
+						style={{ top: box.top, left: box.left, height: box.height }}
+						data-testid="remote-cursor"
+					>
+						<div className="h-full w-0.5" style={{ backgroundColor: color }} />
+						<span
+							className="absolute -top-4 left-0 whitespace-nowrap rounded px-1 text-[10px] leading-4 text-white"
+							style={{ backgroundColor: color }}
+						>
+							{box.user}
+						</span>
+					</div>
+				);
+			})}
+		</div>
+	);
+}
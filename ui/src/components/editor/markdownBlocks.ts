@@ -0,0 +1,76 @@
+import { marked, type Token } from "marked";
+
+/** A top-level markdown block as a range of the source text. */
+export interface MarkdownBlock {
+	/** Offset of the block's first character. */
+	start: number;
+	/** Offset just past the block's content, before trailing blank lines. */
+	end: number;
+	type: string;
+}
+
+/** A range of the source text being edited as one block. */
+export interface BlockRange {
+	start: number;
+	end: number;
+}
+
+/**
+ * Splits markdown into its top-level blocks (paragraphs, headings, lists,
+ * fences, tables...). Offsets are relative to markdown plus base, and the
+ * blank lines between blocks belong to neither.
+ */
+export function splitMarkdownBlocks(markdown: string, base = 0): MarkdownBlock[] {
+	if (!markdown.trim()) return [];
+	let tokens: Token[] = [];
+	try {
+		tokens = marked.lexer(markdown);
+	} catch {
+		// Treated as a single block below.
+	}
+	// The lexer normalizes line endings; fall back to one block rather than
+	// hand out offsets that do not match the source.
+	if (tokens.map((token) => token.raw).join("") !== markdown) {
+		return [{ start: base + leadingBlankLength(markdown), end: base + markdown.trimEnd().length, type: "paragraph" }];
+	}
+
+	const blocks: MarkdownBlock[] = [];
+	let pos = base;
+	for (const token of tokens) {
+		const start = pos;
+		pos += token.raw.length;
+		if (token.type === "space" || !token.raw.trim()) continue;
+		blocks.push({ start, end: start + token.raw.trimEnd().length, type: token.type });
+	}
+	return blocks;
+}
+
+function leadingBlankLength(text: string): number {
+	return text.length - text.replace(/^\s*\n/, "").length;
+}
+
+/**
+ * Moves a range to follow a change from prev to next, so a block being edited
+ * keeps covering the same text when others edit elsewhere in the document.
+ */
+export function shiftBlockRange(range: BlockRange, prev: string, next: string): BlockRange {
+	let prefix = 0;
+	const limit = Math.min(prev.length, next.length);
+	while (prefix < limit && prev[prefix] === next[prefix]) prefix++;
+	let suffix = 0;
+	while (
+		suffix < limit - prefix &&
+		prev[prev.length - 1 - suffix] === next[next.length - 1 - suffix]
+	) {
+		suffix++;
+	}
+	const changedEnd = prev.length - suffix;
+	const delta = next.length - prev.length;
+
+	if (changedEnd <= range.start && prefix < range.start) {
+		return { start: range.start + delta, end: range.end + delta };
+	}
+	if (prefix >= range.end) return range;
+	const start = Math.min(range.start, prefix);
+	return { start, end: Math.max(start, range.end + delta, next.length - suffix) };
+}
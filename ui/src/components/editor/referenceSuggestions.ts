@@ -0,0 +1,110 @@
+import { api, decisionApi, getDocs, memoryApi, templateApi } from "../../api/client";
+import { toDisplayPath } from "../../lib/utils";
+import { canonicalizeSemanticReference } from "./mentionUtils";
+
+export type ReferenceKind = "task" | "doc" | "memory" | "decision" | "template";
+
+/** Something the editor can insert a reference to. */
+export interface ReferenceCandidate {
+	kind: ReferenceKind;
+	/** The canonical reference, e.g. `@task/abc123` or `@doc/guides/setup`. */
+	ref: string;
+	label: string;
+	detail?: string;
+}
+
+const CACHE_MS = 30_000;
+const KIND_ORDER: ReferenceKind[] = ["task", "doc", "memory", "decision", "template"];
+
+let cached: { at: number; candidates: Promise<ReferenceCandidate[]> } | null = null;
+
+function candidate(kind: ReferenceKind, raw: string, label: string, detail?: string): ReferenceCandidate | null {
+	const ref = canonicalizeSemanticReference(raw);
+	return ref ? { kind, ref, label: label || ref, detail } : null;
+}
+
+async function fetchCandidates(): Promise<ReferenceCandidate[]> {
+	const [tasks, docs, memories, decisions, templates] = await Promise.allSettled([
+		api.getTasks(),
+		getDocs(),
+		memoryApi.list(),
+		decisionApi.list(),
+		templateApi.list(),
+	]);
+	const all: Array<ReferenceCandidate | null> = [];
+	if (tasks.status === "fulfilled") {
+		for (const task of tasks.value) all.push(candidate("task", `@task/${task.id}`, task.title, `#${task.id} · ${task.status}`));
+	}
+	if (docs.status === "fulfilled") {
+		for (const doc of docs.value) {
+			const path = toDisplayPath(doc.path).replace(/\.md$/, "");
+			all.push(candidate("doc", `@doc/${path}`, doc.title, path));
+		}
+	}
+	if (memories.status === "fulfilled") {
+		for (const memory of memories.value) all.push(candidate("memory", `@memory/${memory.id}`, memory.title, memory.layer));
+	}
+	if (decisions.status === "fulfilled") {
+		for (const decision of decisions.value) all.push(candidate("decision", `@decision/${decision.id}`, decision.title, decision.status));
+	}
+	if (templates.status === "fulfilled") {
+		for (const template of templates.value) {
+			all.push(candidate("template", `@template/${template.name}`, template.name, template.description));
+		}
+	}
+	return all.filter((item): item is ReferenceCandidate => item !== null);
+}
+
+/** Every referenceable entity, fetched at most once per 30 seconds. */
+export function loadReferenceCandidates(): Promise<ReferenceCandidate[]> {
+	if (!cached || Date.now() - cached.at > CACHE_MS) {
+		const candidates = fetchCandidates();
+		cached = { at: Date.now(), candidates };
+		candidates.catch(() => {
+			cached = null;
+		});
+	}
+	return cached.candidates;
+}
+
+/**
+ * The `@` reference being typed just before the caret, if any: its offset in
+ * text and the query after the `@`.
+ */
+export function referenceQueryAt(text: string, caret: number): { start: number; query: string } | null {
+	const match = /(^|[\s([{,;])@([\w./#:{}-]*)$/.exec(text.slice(0, caret));
+	if (!match) return null;
+	const query = match[2] ?? "";
+	return { start: caret - query.length - 1, query };
+}
+
+/**
+ * Candidates matching a query such as `auth`, `task/abc` or `doc/guides/se`.
+ * A kind prefix narrows the search to that kind.
+ */
+export function matchReferenceCandidates(candidates: ReferenceCandidate[], query: string, limit = 8): ReferenceCandidate[] {
+	let kind: ReferenceKind | null = null;
+	let needle = query.toLowerCase();
+	const prefixed = /^(task|docs?|memory|decision|template)[-/](.*)$/.exec(needle);
+	if (prefixed) {
+		kind = (prefixed[1] === "docs" ? "doc" : prefixed[1]) as ReferenceKind;
+		needle = prefixed[2] ?? "";
+	}
+
+	const scored: Array<{ item: ReferenceCandidate; score: number }> = [];
+	for (const item of candidates) {
+		if (kind && item.kind !== kind) continue;
+		const target = item.ref.slice(item.ref.indexOf("/") + 1).toLowerCase();
+		const label = item.label.toLowerCase();
+		let score: number;
+		if (!needle) score = 0;
+		else if (target.startsWith(needle)) score = 0;
+		else if (label.startsWith(needle)) score = 1;
+		else if (label.includes(needle)) score = 2;
+		else if (target.includes(needle)) score = 3;
+		else continue;
+		scored.push({ item, score });
+	}
+	scored.sort((a, b) => a.score - b.score || KIND_ORDER.indexOf(a.item.kind) - KIND_ORDER.indexOf(b.item.kind));
+	return scored.slice(0, limit).map(({ item }) => item);
+}
@@ -0,0 +1,71 @@
+/** A snippet the editor inserts in place of a `/command` typed at line start. */
+export interface SlashCommand {
+	id: string;
+	label: string;
+	description: string;
+	keywords: string[];
+	/** Inserted before the caret. */
+	before: string;
+	/** Inserted after the caret. */
+	after: string;
+}
+
+export const SLASH_COMMANDS: SlashCommand[] = [
+	{ id: "h2", label: "Heading", description: "Section heading", keywords: ["h2", "title"], before: "## ", after: "" },
+	{ id: "h3", label: "Subheading", description: "Subsection heading", keywords: ["h3"], before: "### ", after: "" },
+	{
+		id: "ac",
+		label: "Acceptance criteria",
+		description: "Checklist the task tracks as AC",
+		keywords: ["criteria", "checklist", "todo"],
+		before: "## Acceptance Criteria\n\n- [ ] ",
+		after: "",
+	},
+	{ id: "checklist", label: "Checklist", description: "Task list item", keywords: ["todo", "check"], before: "- [ ] ", after: "" },
+	{
+		id: "mermaid",
+		label: "Mermaid diagram",
+		description: "Flowchart, sequence or state diagram",
+		keywords: ["diagram", "flowchart", "chart"],
+		before: "```mermaid\nflowchart TD\n  A[Start] --> B[End]",
+		after: "\n```",
+	},
+	{
+		id: "table",
+		label: "Table",
+		description: "Two-column table",
+		keywords: ["grid", "columns"],
+		before: "| Column | Column |\n| --- | --- |\n| ",
+		after: " |  |",
+	},
+	{ id: "code", label: "Code block", description: "Fenced code", keywords: ["fence", "snippet"], before: "```\n", after: "\n```" },
+	{ id: "quote", label: "Quote", description: "Block quote", keywords: ["blockquote", "callout"], before: "> ", after: "" },
+	{ id: "divider", label: "Divider", description: "Horizontal rule", keywords: ["hr", "rule", "separator"], before: "---\n", after: "" },
+	{
+		id: "reference",
+		label: "Reference",
+		description: "Link a task, doc, memory, decision or template",
+		keywords: ["mention", "link"],
+		before: "@",
+		after: "",
+	},
+];
+
+/** The `/command` typed at the start of the caret's line, if any. */
+export function slashQueryAt(text: string, caret: number): { start: number; query: string } | null {
+	const match = /(^|\n)\/([\w-]*)$/.exec(text.slice(0, caret));
+	if (!match) return null;
+	const query = match[2] ?? "";
+	return { start: caret - query.length - 1, query };
+}
+
+export function matchSlashCommands(query: string): SlashCommand[] {
+	const needle = query.toLowerCase();
+	if (!needle) return SLASH_COMMANDS;
+	return SLASH_COMMANDS.filter(
+		(command) =>
+			command.id.startsWith(needle) ||
+			command.label.toLowerCase().includes(needle) ||
+			command.keywords.some((keyword) => keyword.startsWith(needle)),
+	);
+}
@@ -1,6 +1,6 @@
 import { useCallback, useEffect, useMemo, useState } from "react";
 
-interface TOCItem {
+export interface TOCItem {
 	id: string;
 	text: string;
 	number: string;
@@ -18,7 +18,7 @@ interface DocsTOCProps {
  * Parse headings from markdown content.
  * Extracts ## and ### headings (skip h1 since that's the doc title).
  */
-function parseHeadings(markdown: string): TOCItem[] {
+export function parseHeadings(markdown: string): TOCItem[] {
 	const items: TOCItem[] = [];
 	const lines = markdown.split("\n");
 	let inCodeBlock = false;
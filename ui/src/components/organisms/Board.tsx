@@ -1,11 +1,14 @@
 import { useEffect, useState, useMemo, useRef, useCallback } from "react";
 import { useRouterState } from "@tanstack/react-router";
-import { Eye, EyeOff, ClipboardList, ChevronDown, ChevronUp, FileText } from "lucide-react";
+import { Eye, EyeOff, ClipboardList, ChevronDown, ChevronRight, ChevronUp, FileText, Lock, Rows3 } from "lucide-react";
 import type { Task, TaskStatus } from "@/ui/models/task";
-import { api } from "../../api/client";
+import { api, ColumnPolicyError } from "../../api/client";
 import { navigateTo } from "../../lib/navigation";
+import { checkColumnPolicy, COLUMN_RULE_LABELS, wipOverflow } from "../../lib/columnPolicy";
+import { getOpenDependencies, getStartWarning } from "../../lib/taskDependencies";
 import { useConfig } from "../../contexts/ConfigContext";
 import { useNewTaskIds } from "../../hooks/useNewTaskIds";
+import { taskViewSearch } from "../../hooks/useTaskView";
 import { TaskDetailSheet } from "./TaskDetail/TaskDetailSheet";
 import { ScrollArea, ScrollBar } from "../ui/ScrollArea";
 import {
@@ -26,6 +29,7 @@ import {
 import { cn } from "@/ui/lib/utils";
 import { useIsMobile } from "@/ui/hooks/useMobile";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "../ui/collapsible";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../ui/select";
 import { toast } from "../ui/sonner";
 import { TaskLifecycleBadge } from "../molecules/TaskLifecycleBadge";
 
@@ -58,26 +62,125 @@ type KanbanTaskItem = {
 	task: Task;
 };
 
-// Kanban column type
+// Kanban column type. With swimlanes there is one column per lane and status.
 type KanbanColumn = {
 	id: string;
 	name: string;
 	color: string;
+	status: string;
+	lane: string;
 };
 
+export type SwimlaneField = "none" | "assignee" | "priority" | "label" | "parent" | "spec";
+
+const SWIMLANE_OPTIONS: { value: SwimlaneField; label: string }[] = [
+	{ value: "none", label: "No swimlanes" },
+	{ value: "assignee", label: "Assignee" },
+	{ value: "priority", label: "Priority" },
+	{ value: "label", label: "Label" },
+	{ value: "parent", label: "Parent task" },
+	{ value: "spec", label: "Spec" },
+];
+
+const SWIMLANE_STORAGE_KEY = "kanban-swimlanes";
+
+const PRIORITY_LANES = ["high", "medium", "low"];
+
+// Lane a task belongs to; "" is the lane for tasks without a value. Tasks with
+// several labels sit in the lane of their first label.
+function getLaneKey(task: Task, field: SwimlaneField): string {
+	switch (field) {
+		case "assignee": return task.assignee || "";
+		case "priority": return task.priority;
+		case "label": return task.labels?.[0] || "";
+		case "parent": return task.parent || "";
+		case "spec": return task.spec || "";
+		default: return "";
+	}
+}
+
+function getLaneLabel(lane: string, field: SwimlaneField, tasks: Task[]): string {
+	if (!lane) {
+		return { assignee: "Unassigned", label: "No label", parent: "No parent", spec: "No spec" }[field as string] || "None";
+	}
+	switch (field) {
+		case "priority": return lane.charAt(0).toUpperCase() + lane.slice(1);
+		case "parent": {
+			const parent = tasks.find((t) => t.id === lane);
+			return parent ? `#${lane} · ${parent.title}` : `#${lane}`;
+		}
+		case "spec": return lane.replace(/^specs\//, "");
+		default: return lane;
+	}
+}
+
+function getLaneKeys(tasks: Task[], field: SwimlaneField): string[] {
+	if (field === "priority") return PRIORITY_LANES;
+	const keys = [...new Set(tasks.map((task) => getLaneKey(task, field)))];
+	return keys.sort((a, b) => {
+		if (!a) return 1;
+		if (!b) return -1;
+		return a.localeCompare(b, undefined, { numeric: true });
+	});
+}
+
+function laneColumnId(lane: string, status: string): string {
+	return JSON.stringify([lane, status]);
+}
+
+// The task fields to send when a card is dropped into another lane.
+function getLaneUpdate(task: Task, field: SwimlaneField, lane: string): Partial<Task> {
+	switch (field) {
+		case "assignee": return { assignee: lane };
+		case "priority": return { priority: lane as Task["priority"] };
+		case "parent": return { parent: lane };
+		case "spec": return { spec: lane };
+		case "label": {
+			// Swap the label that placed the card in its old lane; other labels stay.
+			const previous = getLaneKey(task, field);
+			const rest = (task.labels ?? []).filter((label) => label !== previous && label !== lane);
+			return { labels: lane ? [lane, ...rest] : rest };
+		}
+		default: return {};
+	}
+}
+
+// Rejects parent-lane drops that would make a task its own ancestor.
+function getLaneError(task: Task, field: SwimlaneField, lane: string, tasks: Task[]): string | null {
+	if (field !== "parent" || !lane) return null;
+	for (let id: string | undefined = lane, depth = 0; id && depth < tasks.length + 1; depth++) {
+		if (id === task.id) return `#${task.id} cannot become a subtask of ${lane === task.id ? "itself" : `its own subtask #${lane}`}`;
+		id = tasks.find((t) => t.id === id)?.parent;
+	}
+	return null;
+}
+
 interface BoardProps {
 	tasks: Task[];
 	loading: boolean;
 	onTasksUpdate: (tasks: Task[]) => void;
+	/**
+	 * Narrows the cards shown (the task view query). Updates still go through
+	 * the full task list so hidden tasks are never dropped.
+	 */
+	filterTasks?: (tasks: Task[]) => Task[];
 }
 
-export default function Board({ tasks, loading, onTasksUpdate }: BoardProps) {
+export default function Board({ tasks, loading, onTasksUpdate, filterTasks }: BoardProps) {
 	const location = useRouterState({ select: (state) => state.location });
+	const viewSearch = taskViewSearch(location.search as Record<string, unknown>);
+	const shownTasks = useMemo(() => (filterTasks ? filterTasks(tasks) : tasks), [filterTasks, tasks]);
+	const tasksById = useMemo(() => new Map(tasks.map((task) => [task.id, task])), [tasks]);
 	const { config, updateConfig } = useConfig();
 	const newTaskIds = useNewTaskIds(tasks);
 	const [visibleColumns, setVisibleColumns] = useState<Set<TaskStatus>>(new Set());
 	const [columnControlsOpen, setColumnControlsOpen] = useState(false);
 	const [isDragging, setIsDragging] = useState(false);
+	const [swimlane, setSwimlaneState] = useState<SwimlaneField>(() => {
+		const saved = localStorage.getItem(SWIMLANE_STORAGE_KEY);
+		return SWIMLANE_OPTIONS.some((option) => option.value === saved) ? (saved as SwimlaneField) : "none";
+	});
+	const [collapsedLanes, setCollapsedLanes] = useState<Set<string>>(new Set());
 	const isMobile = useIsMobile();
 	// Get statuses from config
 	const availableStatuses = (config?.statuses as TaskStatus[]) || [
@@ -91,16 +194,34 @@ export default function Board({ tasks, loading, onTasksUpdate }: BoardProps) {
 	// Get status colors from config
 	const statusColors = (config?.statusColors as Record<string, ColorName>) || DEFAULT_STATUS_COLORS;
 
-	// Convert statuses to kanban columns
+	const setSwimlane = (field: SwimlaneField) => {
+		setSwimlaneState(field);
+		setCollapsedLanes(new Set());
+		localStorage.setItem(SWIMLANE_STORAGE_KEY, field);
+	};
+
+	const lanes = useMemo(
+		() => (swimlane === "none" ? [""] : getLaneKeys(shownTasks, swimlane)),
+		[shownTasks, swimlane],
+	);
+
+	// Convert statuses to kanban columns, one row per expanded lane
 	const columns: KanbanColumn[] = useMemo(() => {
-		return availableStatuses
-			.filter((status) => visibleColumns.has(status))
-			.map((status) => ({
-				id: status,
-				name: getColumnLabel(status),
-				color: statusColors[status] || "gray",
-			}));
-	}, [availableStatuses, visibleColumns, statusColors]);
+		const statuses = availableStatuses.filter((status) => visibleColumns.has(status));
+		return lanes
+			.filter((lane) => !collapsedLanes.has(lane))
+			.flatMap((lane) =>
+				statuses.map((status) => ({
+					id: swimlane === "none" ? status : laneColumnId(lane, status),
+					name: getColumnLabel(status),
+					color: statusColors[status] || "gray",
+					status,
+					lane,
+				})),
+			);
+	}, [availableStatuses, visibleColumns, statusColors, lanes, collapsedLanes, swimlane]);
+
+	const columnById = useMemo(() => new Map(columns.map((column) => [column.id, column])), [columns]);
 
 	// Priority order for sorting (lower number = higher priority)
 	const priorityOrder: Record<string, number> = {
@@ -111,7 +232,7 @@ export default function Board({ tasks, loading, onTasksUpdate }: BoardProps) {
 
 	// Convert tasks to kanban items with sorting
 	const kanbanDataFromTasks: KanbanTaskItem[] = useMemo(() => {
-		const sortedTasks = [...tasks].sort((a, b) => {
+		const sortedTasks = [...shownTasks].sort((a, b) => {
 			const hasOrderA = a.order != null;
 			const hasOrderB = b.order != null;
 
@@ -132,10 +253,10 @@ export default function Board({ tasks, loading, onTasksUpdate }: BoardProps) {
 		return sortedTasks.map((task) => ({
 			id: task.id,
 			name: task.title,
-			column: task.status,
+			column: swimlane === "none" ? task.status : laneColumnId(getLaneKey(task, swimlane), task.status),
 			task,
 		}));
-	}, [tasks]);
+	}, [shownTasks, swimlane]);
 	const [kanbanData, setKanbanData] = useState<KanbanTaskItem[]>(kanbanDataFromTasks);
 
 	// Get selected task from URL hash
@@ -216,52 +337,91 @@ export default function Board({ tasks, loading, onTasksUpdate }: BoardProps) {
 		// currentTasks may already reflect optimistic updates
 		const originalTasks = preDragTasksRef.current;
 
-		// Status changes
-		const statusChanges = newData.filter((item) => {
+		// Status and lane changes, merged into one update per task. Drops that
+		// break a column policy are blocked and snap back when dragging ends.
+		const changes: Array<{ id: string; patch: Partial<Task>; statusChanged: boolean; laneLabel?: string }> = [];
+		const blocked = new Set<string>();
+		let policyTasks = originalTasks;
+		for (const item of newData) {
 			const orig = originalTasks.find((t) => t.id === item.id);
-			return orig && orig.status !== item.column;
-		});
+			const column = columnById.get(item.column);
+			if (!orig || !column) continue;
+			const patch: Partial<Task> = {};
+			let laneLabel: string | undefined;
+			if (swimlane !== "none" && getLaneKey(orig, swimlane) !== column.lane) {
+				const laneError = getLaneError(orig, swimlane, column.lane, originalTasks);
+				if (laneError) {
+					toast.error("Cannot move task", { description: laneError });
+				} else {
+					Object.assign(patch, getLaneUpdate(orig, swimlane, column.lane));
+					laneLabel = getLaneLabel(column.lane, swimlane, originalTasks);
+				}
+			}
+			if (orig.status !== column.status) {
+				const violation = checkColumnPolicy(config?.columnPolicies, { ...orig, ...patch }, column.status, policyTasks);
+				if (violation) {
+					blocked.add(item.id);
+					toast.error(`Cannot move to ${getColumnLabel(column.status)}`, {
+						description: `${COLUMN_RULE_LABELS[violation.rule]}: ${violation.message}`,
+					});
+					continue;
+				}
+				patch.status = column.status;
+				policyTasks = policyTasks.map((task) => (task.id === orig.id ? { ...task, status: column.status } : task));
+				const startWarning = getStartWarning(orig, column.status, originalTasks);
+				if (startWarning) toast.warning("Started with open dependencies", { description: startWarning });
+			}
+			if (Object.keys(patch).length > 0) {
+				changes.push({ id: item.id, patch, statusChanged: patch.status !== undefined, laneLabel });
+			}
+		}
 
-		// Order changes - update ALL tasks in each column to ensure consistent ordering
+		// Order changes - update ALL tasks in each column to ensure consistent
+		// ordering. Lanes are stacked, so order runs across lanes per status.
 		const orderUpdates: Array<{ id: string; order: number }> = [];
+		const nextOrderByStatus = new Map<string, number>();
 		for (const col of columns) {
-			const colItems = newData.filter((item) => item.column === col.id);
-			colItems.forEach((item, index) => {
-				orderUpdates.push({ id: item.id, order: index });
-			});
+			const colItems = newData.filter((item) => item.column === col.id && !blocked.has(item.id));
+			for (const item of colItems) {
+				const order = nextOrderByStatus.get(col.status) ?? 0;
+				orderUpdates.push({ id: item.id, order });
+				nextOrderByStatus.set(col.status, order + 1);
+			}
 		}
 
-		// Apply order optimistically
-		if (orderUpdates.length > 0) {
+		// Apply order and field changes optimistically
+		if (orderUpdates.length > 0 || changes.length > 0) {
 			const orderMap = new Map(orderUpdates.map((o) => [o.id, o.order]));
+			const patchMap = new Map(changes.map((change) => [change.id, change.patch]));
 			onTasksUpdate(
 				currentTasks.map((task) => {
 					const newOrder = orderMap.get(task.id);
-					const newItem = newData.find((item) => item.id === task.id);
-					const newStatus = newItem && newItem.column !== task.status
-						? (newItem.column as TaskStatus)
-						: task.status;
-					if (newOrder !== undefined || newStatus !== task.status) {
-						return { ...task, status: newStatus, ...(newOrder !== undefined ? { order: newOrder } : {}) };
+					const patch = patchMap.get(task.id);
+					if (newOrder !== undefined || patch) {
+						return { ...task, ...patch, ...(newOrder !== undefined ? { order: newOrder } : {}) };
 					}
 					return task;
 				}),
 			);
 		}
 
-		// Fire API calls — status changes first, then reorder, to avoid
+		// Fire API calls — field changes first, then reorder, to avoid
 		// race conditions where reorder reads stale status from disk.
-		if (statusChanges.length === 0 && orderUpdates.length === 0) {
+		if (changes.length === 0 && orderUpdates.length === 0) {
 			setIsDragging(false);
 			return;
 		}
 
 		try {
-			// Apply status changes first (sequentially to avoid file conflicts)
-			for (const item of statusChanges) {
-				await api.updateTask(item.id, { status: item.column as TaskStatus });
-				toast.success("Status updated", {
-					description: `#${item.id} moved to ${getColumnLabel(item.column)}`,
+			// Apply field changes first (sequentially to avoid file conflicts)
+			for (const change of changes) {
+				await api.updateTask(change.id, change.patch);
+				const moves = [
+					change.statusChanged ? getColumnLabel(change.patch.status!) : null,
+					change.laneLabel,
+				].filter(Boolean);
+				toast.success(change.statusChanged ? "Status updated" : `${SWIMLANE_OPTIONS.find((o) => o.value === swimlane)?.label} updated`, {
+					description: `#${change.id} moved to ${moves.join(" · ")}`,
 				});
 			}
 
@@ -269,16 +429,27 @@ export default function Board({ tasks, loading, onTasksUpdate }: BoardProps) {
 			if (orderUpdates.length > 0) {
 				await api.reorderTasks(orderUpdates);
 			}
+
+			// Subtask lists are derived on the server; refetch after re-parenting.
+			if (swimlane === "parent" && changes.some((change) => change.laneLabel !== undefined)) {
+				api.getTasks().then(onTasksUpdate).catch(console.error);
+			}
 		} catch (error) {
 			console.error("Failed to update tasks:", error);
-			toast.error("Failed to update", {
-				description: error instanceof Error ? error.message : "Unknown error",
-			});
+			if (error instanceof ColumnPolicyError) {
+				toast.error(`Cannot move to ${getColumnLabel(error.status)}`, {
+					description: `${COLUMN_RULE_LABELS[error.rule] ?? error.rule}: ${error.message}`,
+				});
+			} else {
+				toast.error("Failed to update", {
+					description: error instanceof Error ? error.message : "Unknown error",
+				});
+			}
 			api.getTasks().then(onTasksUpdate).catch(console.error);
 		} finally {
 			setIsDragging(false);
 		}
-	}, [columns, onTasksUpdate]);
+	}, [columns, columnById, swimlane, onTasksUpdate, config?.columnPolicies]);
 
 	const handleDragEnd = useCallback(() => {
 		setTimeout(flushAfterDrag, 0);
@@ -298,11 +469,11 @@ export default function Board({ tasks, loading, onTasksUpdate }: BoardProps) {
 	}
 
 	const handleTaskClick = (task: Task) => {
-		navigateTo(`/kanban/${task.id}`);
+		navigateTo(`/kanban/${task.id}${viewSearch}`);
 	};
 
 	const handleModalClose = () => {
-		navigateTo("/kanban");
+		navigateTo(`/kanban${viewSearch}`);
 	};
 
 	const handleTaskUpdate = (updatedTask: Task) => {
@@ -310,9 +481,34 @@ export default function Board({ tasks, loading, onTasksUpdate }: BoardProps) {
 	};
 
 	const handleNavigateToTask = (taskId: string) => {
-		navigateTo(`/kanban/${taskId}`);
+		navigateTo(`/kanban/${taskId}${viewSearch}`);
 	};
 
+	const toggleLane = (lane: string) => {
+		setCollapsedLanes((prev) => {
+			const next = new Set(prev);
+			if (next.has(lane)) next.delete(lane);
+			else next.add(lane);
+			return next;
+		});
+	};
+
+	const swimlaneSelect = (
+		<Select value={swimlane} onValueChange={(value) => setSwimlane(value as SwimlaneField)}>
+			<SelectTrigger className="h-8 w-[160px] text-sm border-border/40" aria-label="Swimlanes">
+				<Rows3 className="w-3.5 h-3.5 text-muted-foreground" />
+				<SelectValue />
+			</SelectTrigger>
+			<SelectContent>
+				{SWIMLANE_OPTIONS.map((option) => (
+					<SelectItem key={option.value} value={option.value}>
+						{option.label}
+					</SelectItem>
+				))}
+			</SelectContent>
+		</Select>
+	);
+
 	return (
 		<div className="flex flex-col h-full">
 			{/* Column Visibility Controls */}
@@ -336,7 +532,7 @@ export default function Board({ tasks, loading, onTasksUpdate }: BoardProps) {
 						<div className="flex flex-wrap gap-1.5 pt-2">
 							{availableStatuses.map((column) => {
 								const isVisible = visibleColumns.has(column);
-								const taskCount = tasks.filter((t) => t.status === column).length;
+								const taskCount = shownTasks.filter((t) => t.status === column).length;
 								return (
 									<button
 										key={column}
@@ -355,6 +551,7 @@ export default function Board({ tasks, loading, onTasksUpdate }: BoardProps) {
 								);
 							})}
 						</div>
+						<div className="pt-2">{swimlaneSelect}</div>
 					</CollapsibleContent>
 				</Collapsible>
 			) : (
@@ -363,7 +560,7 @@ export default function Board({ tasks, loading, onTasksUpdate }: BoardProps) {
 						<span className="text-sm text-muted-foreground mr-1">Columns</span>
 						{availableStatuses.map((column) => {
 							const isVisible = visibleColumns.has(column);
-							const taskCount = tasks.filter((t) => t.status === column).length;
+							const taskCount = shownTasks.filter((t) => t.status === column).length;
 							return (
 								<button
 									key={column}
@@ -381,6 +578,7 @@ export default function Board({ tasks, loading, onTasksUpdate }: BoardProps) {
 								</button>
 							);
 						})}
+						<div className="ml-auto">{swimlaneSelect}</div>
 					</div>
 				</div>
 			)}
@@ -395,10 +593,40 @@ export default function Board({ tasks, loading, onTasksUpdate }: BoardProps) {
 						onDragStart={handleDragStart}
 						onDragEnd={handleDragEnd}
 						className="min-h-full pb-4"
+						renderLayout={swimlane === "none" ? undefined : (renderColumn) => (
+							<div className="flex flex-col gap-3">
+								{lanes.map((lane) => {
+									const collapsed = collapsedLanes.has(lane);
+									const laneTasks = shownTasks.filter((task) => getLaneKey(task, swimlane) === lane);
+									return (
+										<section key={lane || "__none"} data-testid="kanban-swimlane">
+											<button
+												type="button"
+												onClick={() => toggleLane(lane)}
+												className="flex items-center gap-1.5 py-1 text-sm font-medium text-foreground hover:text-foreground/80"
+											>
+												<ChevronRight className={cn("w-4 h-4 transition-transform", !collapsed && "rotate-90")} />
+												<span className={cn(!lane && "text-muted-foreground")}>{getLaneLabel(lane, swimlane, tasks)}</span>
+												<span className="text-xs font-normal text-muted-foreground">{laneTasks.length}</span>
+											</button>
+											{!collapsed && (
+												<div className={cn("flex gap-4 pt-1", isMobile && "flex-col")}>
+													{columns.filter((column) => column.lane === lane).map(renderColumn)}
+												</div>
+											)}
+										</section>
+									);
+								})}
+							</div>
+						)}
 					>
 						{(column) => {
-							const columnClasses = getColumnClasses(column.id as TaskStatus, statusColors);
+							const columnClasses = getColumnClasses(column.status, statusColors);
 							const taskCount = kanbanData.filter((item) => item.column === column.id).length;
+							// WIP limits count the whole status, across lanes and the view filter.
+							const wipLimit = config?.columnPolicies?.[column.status]?.wipLimit ?? 0;
+							const statusCount = tasks.filter((task) => task.status === column.status).length;
+							const overLimit = wipOverflow(config?.columnPolicies, column.status, statusCount) > 0;
 
 							return (
 								<KanbanBoard
@@ -406,17 +634,31 @@ export default function Board({ tasks, loading, onTasksUpdate }: BoardProps) {
 									key={column.id}
 									className={cn(
 										"min-w-[300px] max-w-[360px]",
+										swimlane !== "none" && "min-h-24",
 										isMobile && "min-w-0 max-w-none w-full",
 										columnClasses.bg,
-										columnClasses.border
+										columnClasses.border,
+										overLimit && "ring-1 ring-destructive/60"
 									)}
 								>
 									<KanbanHeader className="flex items-center justify-between">
 										<span className="font-semibold text-sm text-foreground">
 											{column.name}
 										</span>
-										<span className="text-xs text-muted-foreground">
+										<span className="flex items-center gap-1.5 text-xs text-muted-foreground">
 											{taskCount}
+											{wipLimit > 0 && (
+												<span
+													className={cn(
+														"rounded px-1 py-px bg-background/60",
+														overLimit && "font-medium text-destructive bg-destructive/10",
+													)}
+													title={`WIP limit: ${statusCount} of ${wipLimit} in ${column.name}`}
+													data-testid={overLimit ? "kanban-wip-over-limit" : "kanban-wip"}
+												>
+													{statusCount}/{wipLimit}
+												</span>
+											)}
 										</span>
 									</KanbanHeader>
 									<KanbanCards<KanbanTaskItem> id={column.id}>
@@ -425,6 +667,7 @@ export default function Board({ tasks, loading, onTasksUpdate }: BoardProps) {
 												key={item.id}
 												item={item}
 												isNew={newTaskIds.has(item.id)}
+												blockedBy={getOpenDependencies(item.task, tasksById)}
 												statusColors={statusColors}
 												onClick={() => handleTaskClick(item.task)}
 											/>
@@ -462,11 +705,13 @@ export default function Board({ tasks, loading, onTasksUpdate }: BoardProps) {
 interface TaskKanbanCardProps {
 	item: KanbanTaskItem;
 	isNew?: boolean;
+	/** Open dependencies; a non-empty list marks the card as blocked. */
+	blockedBy: Task[];
 	statusColors: Record<string, ColorName>;
 	onClick: () => void;
 }
 
-function TaskKanbanCard({ item, isNew, statusColors, onClick }: TaskKanbanCardProps) {
+function TaskKanbanCard({ item, isNew, blockedBy, statusColors, onClick }: TaskKanbanCardProps) {
 	const { task } = item;
 	const statusBadgeClasses = getStatusBadgeClasses(task.status, statusColors);
 	const ac = task.acceptanceCriteria ?? [];
@@ -477,7 +722,7 @@ function TaskKanbanCard({ item, isNew, statusColors, onClick }: TaskKanbanCardPr
 			id={item.id}
 			name={item.name}
 			column={item.column}
-			className={cn("w-full group/card", isNew && "animate-[fade-in-up_0.5s_ease-out]")}
+			className={cn("w-full group/card", isNew && "animate-[fade-in-up_0.5s_ease-out]", blockedBy.length > 0 && "border-l-2 border-l-amber-500")}
 		>
 			<div
 				onClick={onClick}
@@ -491,6 +736,16 @@ function TaskKanbanCard({ item, isNew, statusColors, onClick }: TaskKanbanCardPr
 						#{task.id}
 					</span>
 					<div className="flex items-center gap-1 flex-wrap justify-end">
+						{blockedBy.length > 0 && (
+							<span
+								className="flex items-center gap-0.5 text-xs text-amber-600 dark:text-amber-400 font-medium"
+								title={`Blocked by ${blockedBy.map((dep) => `#${dep.id} ${dep.title}`).join(", ")}`}
+								data-testid="kanban-card-blocked"
+							>
+								<Lock className="w-3 h-3" aria-hidden="true" />
+								{blockedBy.length}
+							</span>
+						)}
 						<TaskLifecycleBadge state={task.lifecycleState} />
 						{task.priority === "high" && (
 							<span className="text-xs text-red-600 dark:text-red-400 font-medium">
@@ -14,6 +14,8 @@ import {
 	GitBranch,
 	Package2,
 	FolderGit2,
+	Link2Off,
+	Globe,
 } from "lucide-react";
 import { Button } from "../ui/button";
 import { Input } from "../ui/input";
@@ -106,6 +108,9 @@ interface DocsFileManagerProps {
 	onSearchQueryChange: (value: string) => void;
 	selectedDocPath?: string | null;
 	onItemSelect?: () => void;
+	/** Opens the project-wide broken reference report. */
+	onCheckLinks?: () => void;
+	onExportSite?: () => void;
 	className?: string;
 }
 
@@ -121,6 +126,8 @@ export function DocsFileManager({
 	onSearchQueryChange,
 	selectedDocPath,
 	onItemSelect,
+	onCheckLinks,
+	onExportSite,
 	className,
 }: DocsFileManagerProps) {
 	const normalizedQuery = searchQuery.trim().toLowerCase();
@@ -403,6 +410,30 @@ export function DocsFileManager({
 					<Filter className="w-3.5 h-3.5 mr-1.5" />
 					Specs
 				</Button>
+				{onCheckLinks && (
+					<Button
+						variant="outline"
+						size="sm"
+						onClick={onCheckLinks}
+						title="Find broken references"
+						className="h-8 rounded-full border-border/50 bg-background/70 px-3 text-xs shadow-none"
+					>
+						<Link2Off className="w-3.5 h-3.5 mr-1.5" />
+						Links
+					</Button>
+				)}
+				{onExportSite && (
+					<Button
+						variant="outline"
+						size="sm"
+						onClick={onExportSite}
+						title="Export docs as a static site"
+						className="h-8 rounded-full border-border/50 bg-background/70 px-3 text-xs shadow-none"
+					>
+						<Globe className="w-3.5 h-3.5 mr-1.5" />
+						Export
+					</Button>
+				)}
 				<div className="flex-1" />
 				<Button
 					size="sm"
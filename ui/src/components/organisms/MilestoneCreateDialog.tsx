@@ -0,0 +1,97 @@
+import { useEffect, useState } from "react";
+import { milestoneApi, type Milestone } from "../../api/client";
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+import { Textarea } from "../ui/textarea";
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+} from "../ui/dialog";
+
+interface MilestoneCreateDialogProps {
+	open: boolean;
+	onOpenChange: (open: boolean) => void;
+	onCreated?: (milestone: Milestone) => void;
+}
+
+export function MilestoneCreateDialog({ open, onOpenChange, onCreated }: MilestoneCreateDialogProps) {
+	const [name, setName] = useState("");
+	const [startDate, setStartDate] = useState("");
+	const [endDate, setEndDate] = useState("");
+	const [goal, setGoal] = useState("");
+	const [saving, setSaving] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+
+	useEffect(() => {
+		if (!open) {
+			setName("");
+			setStartDate("");
+			setEndDate("");
+			setGoal("");
+			setError(null);
+		}
+	}, [open]);
+
+	const valid = name.trim().length > 0 && startDate !== "" && endDate !== "";
+
+	const handleCreate = async () => {
+		if (endDate < startDate) {
+			setError("End date cannot be before start date");
+			return;
+		}
+		setSaving(true);
+		setError(null);
+		try {
+			const milestone = await milestoneApi.create({ name: name.trim(), startDate, endDate, goal: goal.trim() });
+			onCreated?.(milestone);
+			onOpenChange(false);
+		} catch (err) {
+			setError(err instanceof Error ? err.message : "Failed to create milestone");
+		} finally {
+			setSaving(false);
+		}
+	};
+
+	return (
+		<Dialog open={open} onOpenChange={(next) => !saving && onOpenChange(next)}>
+			<DialogContent data-testid="milestone-create-dialog">
+				<DialogHeader>
+					<DialogTitle>New milestone</DialogTitle>
+					<DialogDescription>A time-boxed sprint. Assign tasks to it from the task sidebar or the task table.</DialogDescription>
+				</DialogHeader>
+				{error && <div role="alert" className="rounded-md border border-destructive/30 bg-destructive/5 p-3 text-sm text-destructive">{error}</div>}
+				<div className="space-y-4">
+					<div className="space-y-2">
+						<Label htmlFor="milestone-name">Name</Label>
+						<Input id="milestone-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="Sprint 12" disabled={saving} />
+					</div>
+					<div className="grid grid-cols-2 gap-3">
+						<div className="space-y-2">
+							<Label htmlFor="milestone-start">Start date</Label>
+							<Input id="milestone-start" type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} disabled={saving} />
+						</div>
+						<div className="space-y-2">
+							<Label htmlFor="milestone-end">End date</Label>
+							<Input id="milestone-end" type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} disabled={saving} />
+						</div>
+					</div>
+					<div className="space-y-2">
+						<Label htmlFor="milestone-goal">Goal</Label>
+						<Textarea id="milestone-goal" value={goal} onChange={(e) => setGoal(e.target.value)} placeholder="What should this milestone deliver?" disabled={saving} />
+					</div>
+				</div>
+				<DialogFooter>
+					<Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>Cancel</Button>
+					<Button disabled={!valid || saving} onClick={handleCreate}>
+						{saving ? "Creating…" : "Create milestone"}
+					</Button>
+				</DialogFooter>
+			</DialogContent>
+		</Dialog>
+	);
+}
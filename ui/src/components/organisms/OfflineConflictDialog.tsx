@@ -0,0 +1,139 @@
+import { useEffect, useState } from "react";
+import { AlertTriangle } from "lucide-react";
+import { Button } from "../ui/button";
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+} from "../ui/dialog";
+import type { AcceptanceCriterion, Task } from "@/ui/models/task";
+import type { OfflineTaskUpdate } from "@/ui/lib/offlineCache";
+import { useOfflineSync } from "../../contexts/OfflineSyncContext";
+
+function isCriterion(value: unknown): value is AcceptanceCriterion {
+	return typeof value === "object" && value !== null && "text" in value && "completed" in value;
+}
+
+function formatValue(value: unknown): string {
+	if (value === undefined || value === null || value === "") return "—";
+	if (value instanceof Date) return value.toLocaleString();
+	if (Array.isArray(value)) {
+		if (value.length === 0) return "—";
+		return value.map((item) => (isCriterion(item) ? `${item.completed ? "[x]" : "[ ]"} ${item.text}` : String(item))).join(", ");
+	}
+	if (typeof value === "object") return JSON.stringify(value);
+	return String(value);
+}
+
+function ConflictRow({ mutation, onResolve, busy }: {
+	mutation: OfflineTaskUpdate;
+	onResolve: (resolution: "mine" | "theirs") => void;
+	busy: boolean;
+}) {
+	const { server, rejected } = mutation.conflict!;
+	const fields = Object.keys(mutation.patch) as Array<keyof Task>;
+	return (
+		<li className="rounded-md border bg-card p-3" data-testid={`offline-conflict-${mutation.taskId}`}>
+			<div className="flex items-start justify-between gap-3">
+				<div className="min-w-0">
+					<div className="font-mono text-xs font-medium">#{mutation.taskId}</div>
+					<div className="mt-0.5 truncate text-sm">{server.title}</div>
+					<div className="mt-1 text-[11px] text-muted-foreground">
+						Edited offline {new Date(mutation.queuedAt).toLocaleString()} · server updated {server.updatedAt.toLocaleString()}
+					</div>
+					{rejected && <div className="mt-1 text-[11px] text-destructive">Rejected by the server: {rejected}</div>}
+				</div>
+			</div>
+
+			<table className="mt-3 w-full table-fixed text-xs">
+				<thead>
+					<tr className="text-left text-muted-foreground">
+						<th className="w-1/4 pb-1 font-medium">Field</th>
+						<th className="pb-1 font-medium">Before</th>
+						<th className="pb-1 font-medium">Server</th>
+						<th className="pb-1 font-medium">Mine</th>
+					</tr>
+				</thead>
+				<tbody>
+					{fields.map((field) => (
+						<tr key={field} className="align-top border-t">
+							<td className="py-1 pr-2 font-mono">{field}</td>
+							<td className="py-1 pr-2 break-words text-muted-foreground">{formatValue(mutation.base?.[field])}</td>
+							<td className="py-1 pr-2 break-words">{formatValue(server[field])}</td>
+							<td className="py-1 break-words font-medium">{formatValue(mutation.patch[field])}</td>
+						</tr>
+					))}
+				</tbody>
+			</table>
+
+			<div className="mt-3 flex justify-end gap-2">
+				<Button variant="outline" size="sm" disabled={busy} onClick={() => onResolve("theirs")}>
+					Keep server version
+				</Button>
+				<Button size="sm" disabled={busy} onClick={() => onResolve("mine")}>
+					Apply my changes
+				</Button>
+			</div>
+		</li>
+	);
+}
+
+/**
+ * Shown when queued offline task edits could not be replayed because the task
+ * changed on the server after the edit was made, or the server refused them.
+ */
+export function OfflineConflictDialog() {
+	const { conflicts, resolveConflict } = useOfflineSync();
+	const [open, setOpen] = useState(false);
+	const [busyId, setBusyId] = useState<string | null>(null);
+
+	// Re-open whenever new conflicts appear; closing only defers the decision.
+	useEffect(() => {
+		if (conflicts.length > 0) setOpen(true);
+	}, [conflicts.length]);
+
+	const handleResolve = async (mutationId: string, resolution: "mine" | "theirs") => {
+		setBusyId(mutationId);
+		try {
+			await resolveConflict(mutationId, resolution);
+		} finally {
+			setBusyId(null);
+		}
+	};
+
+	return (
+		<Dialog open={open && conflicts.length > 0} onOpenChange={setOpen}>
+			<DialogContent className="max-h-[85vh] max-w-2xl overflow-hidden p-0" data-testid="offline-conflict-dialog">
+				<DialogHeader className="border-b px-6 py-5 pr-12">
+					<DialogTitle className="flex items-center gap-2">
+						<AlertTriangle className="h-4 w-4 text-amber-500" />
+						Resolve offline conflicts
+					</DialogTitle>
+					<DialogDescription>
+						These tasks changed on the server, or the server refused the edit, while it was queued offline. Choose which version to keep.
+					</DialogDescription>
+				</DialogHeader>
+
+				<div className="overflow-y-auto px-6 py-4">
+					<ul className="space-y-2">
+						{conflicts.map((mutation) => (
+							<ConflictRow
+								key={mutation.id}
+								mutation={mutation}
+								busy={busyId === mutation.id}
+								onResolve={(resolution) => handleResolve(mutation.id, resolution)}
+							/>
+						))}
+					</ul>
+				</div>
+
+				<DialogFooter className="border-t px-6 py-4">
+					<Button variant="outline" onClick={() => setOpen(false)}>Decide later</Button>
+				</DialogFooter>
+			</DialogContent>
+		</Dialog>
+	);
+}
@@ -89,6 +89,8 @@ export default function TaskCreateForm({
 	const [assignee, setAssignee] = useState("");
 	const [labels, setLabels] = useState<string[]>([]);
 	const [parentId, setParentId] = useState<string>("");
+	const [startDate, setStartDate] = useState("");
+	const [dueDate, setDueDate] = useState("");
 	const [acceptanceCriteria, setAcceptanceCriteria] = useState<{ id: string; text: string }[]>([]);
 	const [implementationPlan, setImplementationPlan] = useState("");
 	const [implementationNotes, setImplementationNotes] = useState("");
@@ -137,6 +139,8 @@ export default function TaskCreateForm({
 			setAssignee("");
 			setLabels([]);
 			setParentId("");
+			setStartDate("");
+			setDueDate("");
 			setAcceptanceCriteria([]);
 			setImplementationPlan("");
 			setImplementationNotes("");
@@ -198,6 +202,10 @@ export default function TaskCreateForm({
 			setError("Title is required");
 			return;
 		}
+		if (startDate && dueDate && dueDate < startDate) {
+			setError("Due date cannot be before the start date");
+			return;
+		}
 
 		setSaving(true);
 
@@ -210,6 +218,8 @@ export default function TaskCreateForm({
 				labels,
 				assignee: assignee.trim() || undefined,
 				parent: parentId || undefined,
+				startDate: startDate || undefined,
+				dueDate: dueDate || undefined,
 				acceptanceCriteria: acceptanceCriteria.map((ac) => ({
 					text: ac.text,
 					completed: false,
@@ -512,6 +522,35 @@ export default function TaskCreateForm({
 				/>
 			</div>
 
+			{/* Dates */}
+			<div className="grid grid-cols-2 gap-2">
+				<div className="space-y-2">
+					<Label className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+						Start
+					</Label>
+					<Input
+						type="date"
+						value={startDate}
+						max={dueDate || undefined}
+						onChange={(e) => setStartDate(e.target.value)}
+						disabled={saving}
+					/>
+				</div>
+				<div className="space-y-2">
+					<Label className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+						Due
+					</Label>
+					<Input
+						type="date"
+						value={dueDate}
+						min={startDate || undefined}
+						onChange={(e) => setDueDate(e.target.value)}
+						disabled={saving}
+						data-testid="task-create-due-date"
+					/>
+				</div>
+			</div>
+
 			{/* Labels */}
 			<div className="space-y-2">
 				<Label className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">
@@ -806,6 +845,32 @@ export default function TaskCreateForm({
 													container={contentRef.current}
 												/>
 											</div>
+											<div className="space-y-1">
+												<Label className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+													Start
+												</Label>
+												<Input
+													type="date"
+													value={startDate}
+													max={dueDate || undefined}
+													onChange={(e) => setStartDate(e.target.value)}
+													disabled={saving}
+													className="h-9"
+												/>
+											</div>
+											<div className="space-y-1">
+												<Label className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+													Due
+												</Label>
+												<Input
+													type="date"
+													value={dueDate}
+													min={startDate || undefined}
+													onChange={(e) => setDueDate(e.target.value)}
+													disabled={saving}
+													className="h-9"
+												/>
+											</div>
 										</div>
 
 										{/* Row 2: Labels + Parent Task */}
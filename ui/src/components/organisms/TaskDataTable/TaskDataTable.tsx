@@ -1,6 +1,6 @@
 import * as React from "react";
 import type { Table } from "@tanstack/react-table";
-import { X, Search, Plus } from "lucide-react";
+import { X, Search, Plus, Flag } from "lucide-react";
 
 import { Button } from "@/ui/components/ui/button";
 import { Input } from "@/ui/components/ui/input";
@@ -16,11 +16,16 @@ import { taskColumns } from "./columns";
 import type { Task } from "@/models/task";
 import { useConfig } from "@/ui/contexts/ConfigContext";
 import { buildStatusOptions } from "@/ui/utils/colors";
+import { useCurrentUser } from "@/ui/contexts/UserContext";
+import { filterTasksByQuery, getTaskQueryValue, setTaskQueryValue } from "@/ui/lib/taskQuery";
+import { api } from "@/ui/api/client";
+import { useMilestones } from "@/ui/hooks/useMilestones";
+import { toast } from "@/ui/components/ui/sonner";
 
 interface TaskDataTableToolbarProps {
 	table: Table<Task>;
-	globalFilter: string;
-	setGlobalFilter: (value: string) => void;
+	query: string;
+	onQueryChange: (value: string) => void;
 	statusFilter: string;
 	setStatusFilter: (value: string) => void;
 	priorityFilter: string;
@@ -33,8 +38,8 @@ interface TaskDataTableToolbarProps {
 }
 
 function TaskDataTableToolbar({
-	globalFilter,
-	setGlobalFilter,
+	query,
+	onQueryChange,
 	statusFilter,
 	setStatusFilter,
 	priorityFilter,
@@ -45,7 +50,7 @@ function TaskDataTableToolbar({
 	statusOptions,
 	onNewTask,
 }: TaskDataTableToolbarProps) {
-	const isFiltered = globalFilter || statusFilter !== "all" || priorityFilter !== "all" || specFilter !== "all";
+	const isFiltered = query.trim() !== "";
 
 	return (
 		<div className="flex flex-col sm:flex-row items-stretch sm:items-center justify-between gap-2 sm:gap-4">
@@ -53,9 +58,9 @@ function TaskDataTableToolbar({
 				<div className="relative flex-1 min-w-[150px] sm:min-w-[200px] sm:max-w-[250px]">
 					<Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
 					<Input
-						placeholder="Search tasks..."
-						value={globalFilter}
-						onChange={(event) => setGlobalFilter(event.target.value)}
+						placeholder="Filter: status:todo label:api..."
+						value={query}
+						onChange={(event) => onQueryChange(event.target.value)}
 						className="pl-8 border-border/40"
 					/>
 				</div>
@@ -102,12 +107,7 @@ function TaskDataTableToolbar({
 				{isFiltered && (
 					<button
 						type="button"
-						onClick={() => {
-							setGlobalFilter("");
-							setStatusFilter("all");
-							setPriorityFilter("all");
-							setSpecFilter("all");
-						}}
+						onClick={() => onQueryChange("")}
 						className="text-xs text-muted-foreground hover:text-foreground transition-colors flex items-center gap-1"
 					>
 						Reset
@@ -125,8 +125,58 @@ function TaskDataTableToolbar({
 	);
 }
 
+const NO_MILESTONE = "__none__";
+
+function TaskBulkMilestoneBar({ selectedTasks }: { selectedTasks: Task[] }) {
+	const { milestones } = useMilestones();
+	const [milestone, setMilestone] = React.useState<string>("");
+	const [saving, setSaving] = React.useState(false);
+
+	const handleApply = async () => {
+		if (!milestone) return;
+		const value = milestone === NO_MILESTONE ? "" : milestone;
+		const targets = selectedTasks.filter((task) => (task.milestone || "") !== value && !task.archived);
+		setSaving(true);
+		const results = await Promise.allSettled(targets.map((task) => api.updateTask(task.id, { milestone: value })));
+		setSaving(false);
+		const failed = results.filter((result) => result.status === "rejected").length;
+		if (failed > 0) {
+			toast.error(`Failed to update ${failed} of ${targets.length} tasks`);
+			return;
+		}
+		const name = milestones.find((m) => m.id === value)?.name;
+		toast.success(name ? `Moved ${targets.length} tasks to ${name}` : `Removed ${targets.length} tasks from their milestone`);
+	};
+
+	return (
+		<div className="flex items-center gap-2 rounded-md border border-border/40 bg-muted/40 px-3 py-1.5" data-testid="task-bulk-milestone">
+			<span className="text-xs text-muted-foreground whitespace-nowrap">{selectedTasks.length} selected</span>
+			<Select value={milestone} onValueChange={setMilestone}>
+				<SelectTrigger className="w-[160px] h-8 text-sm border-border/40">
+					<Flag className="h-3.5 w-3.5 text-muted-foreground" />
+					<SelectValue placeholder="Milestone" />
+				</SelectTrigger>
+				<SelectContent>
+					<SelectItem value={NO_MILESTONE}>No milestone</SelectItem>
+					{milestones.map((m) => (
+						<SelectItem key={m.id} value={m.id}>
+							{m.name}
+						</SelectItem>
+					))}
+				</SelectContent>
+			</Select>
+			<Button size="sm" variant="secondary" onClick={handleApply} disabled={!milestone || saving}>
+				{saving ? "Assigning..." : "Assign"}
+			</Button>
+		</div>
+	);
+}
+
 interface TaskDataTableProps {
 	tasks: Task[];
+	/** Task filter query (see lib/taskQuery); the toolbar selects edit its terms. */
+	query: string;
+	onQueryChange: (query: string) => void;
 	onTaskClick?: (task: Task) => void;
 	onSelectionChange?: (tasks: Task[]) => void;
 	onNewTask?: () => void;
@@ -134,15 +184,30 @@ interface TaskDataTableProps {
 
 export function TaskDataTable({
 	tasks,
+	query,
+	onQueryChange,
 	onTaskClick,
 	onSelectionChange,
 	onNewTask,
 }: TaskDataTableProps) {
 	const { config } = useConfig();
-	const [globalFilter, setGlobalFilter] = React.useState("");
-	const [statusFilter, setStatusFilter] = React.useState("all");
-	const [priorityFilter, setPriorityFilter] = React.useState("all");
-	const [specFilter, setSpecFilter] = React.useState("all");
+	const { currentUser } = useCurrentUser();
+	const [selectedTasks, setSelectedTasks] = React.useState<Task[]>([]);
+
+	// DataTable re-notifies whenever this callback changes, so keep it stable
+	const handleSelectionChange = React.useCallback(
+		(rows: Task[]) => {
+			setSelectedTasks(rows);
+			onSelectionChange?.(rows);
+		},
+		[onSelectionChange],
+	);
+
+	const statusFilter = getTaskQueryValue(query, "status") || "all";
+	const priorityFilter = getTaskQueryValue(query, "priority") || "all";
+	const specFilter = getTaskQueryValue(query, "spec") || "all";
+	const setTerm = (key: "status" | "priority" | "spec") => (value: string) =>
+		onQueryChange(setTaskQueryValue(query, key, value === "all" ? null : value));
 
 	// Build status options from config
 	const statusOptions = React.useMemo(() => {
@@ -159,69 +224,38 @@ export function TaskDataTable({
 		return Array.from(specs).sort();
 	}, [tasks]);
 
-	// Filter tasks based on all filters
-	const filteredTasks = React.useMemo(() => {
-		let result = tasks;
-
-		// Global search filter
-		if (globalFilter) {
-			const search = globalFilter.toLowerCase();
-			result = result.filter(
-				(task) =>
-					task.id.toLowerCase().includes(search) ||
-					task.title.toLowerCase().includes(search) ||
-					task.description?.toLowerCase().includes(search) ||
-					task.assignee?.toLowerCase().includes(search) ||
-					(task.labels ?? []).some((label) => label.toLowerCase().includes(search))
-			);
-		}
-
-		// Status filter
-		if (statusFilter !== "all") {
-			result = result.filter((task) => task.status === statusFilter);
-		}
-
-		// Priority filter
-		if (priorityFilter !== "all") {
-			result = result.filter((task) => task.priority === priorityFilter);
-		}
-
-		// Spec filter
-		if (specFilter !== "all") {
-			if (specFilter === "none") {
-				result = result.filter((task) => !task.spec);
-			} else {
-				result = result.filter((task) => task.spec === specFilter);
-			}
-		}
-
-		return result;
-	}, [tasks, globalFilter, statusFilter, priorityFilter, specFilter]);
+	const filteredTasks = React.useMemo(
+		() => filterTasksByQuery(tasks, query, { currentUser }),
+		[tasks, query, currentUser],
+	);
 
 	return (
 		<DataTable
 			columns={taskColumns}
 			data={filteredTasks}
 			onRowClick={onTaskClick}
-			onSelectionChange={onSelectionChange}
+			onSelectionChange={handleSelectionChange}
 			showPagination={true}
 			showRowSelection={true}
 			initialSorting={[{ id: "priority", desc: false }]}
 			toolbar={
-				<TaskDataTableToolbar
-					table={null as unknown as Table<Task>}
-					globalFilter={globalFilter}
-					setGlobalFilter={setGlobalFilter}
-					statusFilter={statusFilter}
-					setStatusFilter={setStatusFilter}
-					priorityFilter={priorityFilter}
-					setPriorityFilter={setPriorityFilter}
-					specFilter={specFilter}
-					setSpecFilter={setSpecFilter}
-					availableSpecs={availableSpecs}
-					statusOptions={statusOptions}
-					onNewTask={onNewTask}
-				/>
+				<>
+					<TaskDataTableToolbar
+						table={null as unknown as Table<Task>}
+						query={query}
+						onQueryChange={onQueryChange}
+						statusFilter={statusFilter}
+						setStatusFilter={setTerm("status")}
+						priorityFilter={priorityFilter}
+						setPriorityFilter={setTerm("priority")}
+						specFilter={specFilter}
+						setSpecFilter={setTerm("spec")}
+						availableSpecs={availableSpecs}
+						statusOptions={statusOptions}
+						onNewTask={onNewTask}
+					/>
+					{selectedTasks.length > 0 && <TaskBulkMilestoneBar selectedTasks={selectedTasks} />}
+				</>
 			}
 		/>
 	);
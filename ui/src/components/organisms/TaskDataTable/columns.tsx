@@ -5,6 +5,8 @@ import { Checkbox } from "@/ui/components/ui/checkbox";
 import { DataTableColumnHeader } from "@/ui/components/ui/DataTable";
 import { StatusBadge, PriorityBadge, LabelList } from "@/ui/components/molecules";
 import type { Task } from "@/models/task";
+import { cn } from "@/ui/lib/utils";
+import { formatDueLabel, getDueState } from "@/ui/lib/taskDueDates";
 
 export const taskColumns: ColumnDef<Task>[] = [
 	{
@@ -128,6 +130,58 @@ export const taskColumns: ColumnDef<Task>[] = [
 		},
 		enableSorting: true,
 	},
+	{
+		accessorKey: "startDate",
+		header: ({ column }) => <DataTableColumnHeader column={column} title="Start" />,
+		cell: ({ row }) => {
+			const startDate = row.original.startDate;
+			return startDate ? (
+				<span className="text-xs font-mono whitespace-nowrap">{startDate}</span>
+			) : (
+				<span className="text-muted-foreground text-sm">-</span>
+			);
+		},
+		enableSorting: true,
+		// Unscheduled tasks stay at the bottom in both directions
+		sortUndefined: "last",
+	},
+	{
+		accessorKey: "dueDate",
+		header: ({ column }) => <DataTableColumnHeader column={column} title="Due" />,
+		cell: ({ row }) => {
+			const task = row.original;
+			if (!task.dueDate) return <span className="text-muted-foreground text-sm">-</span>;
+			const state = getDueState(task);
+			return (
+				<span
+					className={cn(
+						"text-xs font-mono whitespace-nowrap",
+						state === "overdue" && "text-red-600 dark:text-red-400 font-semibold",
+						state === "today" && "text-amber-600 dark:text-amber-400 font-semibold",
+					)}
+					title={state ? formatDueLabel(task) : undefined}
+				>
+					{task.dueDate}
+				</span>
+			);
+		},
+		enableSorting: true,
+		sortUndefined: "last",
+	},
+	{
+		accessorKey: "milestone",
+		header: ({ column }) => <DataTableColumnHeader column={column} title="Milestone" />,
+		cell: ({ row }) => {
+			const milestone = row.original.milestone;
+			return milestone ? (
+				<span className="text-xs font-mono whitespace-nowrap">{milestone}</span>
+			) : (
+				<span className="text-muted-foreground text-sm">-</span>
+			);
+		},
+		enableSorting: true,
+		sortUndefined: "last",
+	},
 	{
 		accessorKey: "labels",
 		header: ({ column }) => <DataTableColumnHeader column={column} title="Labels" />,
@@ -0,0 +1,198 @@
+import { useMemo, useState } from "react";
+import { Plus, X } from "lucide-react";
+import type { Task } from "@/ui/models/task";
+import { Input } from "../../ui/input";
+import { cn } from "@/ui/lib/utils";
+import { getBlockedTasks, isTaskClosed, wouldCreateCycle } from "../../../lib/taskDependencies";
+
+interface TaskDependenciesProps {
+	task: Task;
+	allTasks: Task[];
+	onSave: (updates: Partial<Task>) => Promise<void>;
+	/** Updates another task; "blocks" edits change the other task's dependsOn. */
+	onUpdateTask?: (taskId: string, updates: Partial<Task>) => Promise<void>;
+	onNavigateToTask?: (taskId: string) => void;
+	saving: boolean;
+}
+
+/**
+ * "Depends on" and "Blocks" lists for the task sidebar. Only dependsOn is
+ * stored; adding a blocked task appends this task to that task's dependsOn.
+ */
+export function TaskDependencies({ task, allTasks, onSave, onUpdateTask, onNavigateToTask, saving }: TaskDependenciesProps) {
+	const tasksById = useMemo(() => new Map(allTasks.map((t) => [t.id, t])), [allTasks]);
+	const dependsOn = task.dependsOn ?? [];
+	const blocks = useMemo(() => getBlockedTasks(task.id, allTasks), [task.id, allTasks]);
+
+	return (
+		<div className="space-y-4" data-testid="task-dependencies">
+			<DependencyList
+				title="Depends on"
+				addHint="Add a task that must be done first"
+				items={dependsOn.map((id) => tasksById.get(id) ?? id)}
+				candidates={allTasks.filter(
+					(t) => t.id !== task.id && !t.archived && !dependsOn.includes(t.id) && !wouldCreateCycle(allTasks, task.id, t.id),
+				)}
+				onAdd={(id) => onSave({ dependsOn: [...dependsOn, id] })}
+				onRemove={(id) => onSave({ dependsOn: dependsOn.filter((dep) => dep !== id) })}
+				onNavigateToTask={onNavigateToTask}
+				saving={saving}
+			/>
+			<DependencyList
+				title="Blocks"
+				addHint="Add a task that waits on this one"
+				items={blocks}
+				candidates={
+					onUpdateTask
+						? allTasks.filter(
+								(t) =>
+									t.id !== task.id &&
+									!isTaskClosed(t) &&
+									!blocks.some((b) => b.id === t.id) &&
+									!wouldCreateCycle(allTasks, t.id, task.id),
+							)
+						: []
+				}
+				onAdd={(id) => {
+					const other = tasksById.get(id);
+					return onUpdateTask?.(id, { dependsOn: [...(other?.dependsOn ?? []), task.id] }) ?? Promise.resolve();
+				}}
+				onRemove={(id) => {
+					const other = tasksById.get(id);
+					return (
+						onUpdateTask?.(id, { dependsOn: (other?.dependsOn ?? []).filter((dep) => dep !== task.id) }) ??
+						Promise.resolve()
+					);
+				}}
+				onNavigateToTask={onNavigateToTask}
+				saving={saving || !onUpdateTask}
+			/>
+		</div>
+	);
+}
+
+interface DependencyListProps {
+	title: string;
+	addHint: string;
+	/** Tasks, or bare IDs for dependencies that no longer resolve. */
+	items: Array<Task | string>;
+	candidates: Task[];
+	onAdd: (taskId: string) => Promise<void>;
+	onRemove: (taskId: string) => Promise<void>;
+	onNavigateToTask?: (taskId: string) => void;
+	saving: boolean;
+}
+
+function DependencyList({ title, addHint, items, candidates, onAdd, onRemove, onNavigateToTask, saving }: DependencyListProps) {
+	const [adding, setAdding] = useState(false);
+	const [search, setSearch] = useState("");
+
+	const matches = useMemo(() => {
+		const needle = search.trim().toLowerCase();
+		return candidates
+			.filter((t) => !needle || t.id.toLowerCase().includes(needle) || t.title.toLowerCase().includes(needle))
+			.slice(0, 8);
+	}, [candidates, search]);
+
+	const close = () => {
+		setAdding(false);
+		setSearch("");
+	};
+
+	return (
+		<div className="space-y-1.5 overflow-hidden">
+			<span className="text-xs text-muted-foreground">
+				{title}
+				{items.length > 0 && ` (${items.length})`}
+			</span>
+			<div className="space-y-0.5">
+				{items.map((item) => {
+					const id = typeof item === "string" ? item : item.id;
+					const closed = typeof item !== "string" && isTaskClosed(item);
+					return (
+						<div key={id} className="group flex items-center gap-2 -mx-1 px-1 rounded-md hover:bg-muted/50">
+							<button
+								type="button"
+								className="flex items-center gap-2 flex-1 min-w-0 py-1.5 text-left"
+								onClick={() => onNavigateToTask?.(id)}
+								disabled={typeof item === "string"}
+								title={typeof item === "string" ? `#${id} (not found)` : `#${id} - ${item.title}`}
+							>
+								<span
+									className={cn("w-2 h-2 rounded-full shrink-0", closed ? "bg-green-500" : "bg-amber-500")}
+								/>
+								<div className="overflow-hidden min-w-0 flex-1">
+									<span className="text-xs text-muted-foreground font-mono">#{id}</span>
+									<p className={cn("truncate text-sm", closed && "line-through text-muted-foreground")}>
+										{typeof item === "string" ? "Unknown task" : item.title}
+									</p>
+								</div>
+							</button>
+							<button
+								type="button"
+								onClick={() => void onRemove(id)}
+								disabled={saving}
+								className="p-1 text-muted-foreground opacity-0 group-hover:opacity-100 hover:text-destructive disabled:opacity-30"
+								aria-label={`Remove #${id} from ${title}`}
+							>
+								<X className="w-3 h-3" />
+							</button>
+						</div>
+					);
+				})}
+			</div>
+			{adding ? (
+				<div className="space-y-1">
+					<Input
+						value={search}
+						onChange={(e) => setSearch(e.target.value)}
+						onKeyDown={(e) => {
+							if (e.key === "Escape") close();
+							if (e.key === "Enter" && matches[0]) {
+								void onAdd(matches[0].id);
+								close();
+							}
+						}}
+						placeholder="Search by ID or title"
+						className="text-sm h-8"
+						autoFocus
+					/>
+					<div className="max-h-48 overflow-y-auto">
+						{matches.length === 0 ? (
+							<p className="py-1.5 text-xs text-muted-foreground">No matching tasks</p>
+						) : (
+							matches.map((t) => (
+								<button
+									key={t.id}
+									type="button"
+									className="flex items-center gap-2 w-full text-left py-1 px-1 rounded-md text-sm hover:bg-muted/50"
+									onClick={() => {
+										void onAdd(t.id);
+										close();
+									}}
+								>
+									<span className="text-xs text-muted-foreground font-mono shrink-0">#{t.id}</span>
+									<span className="truncate">{t.title}</span>
+								</button>
+							))
+						)}
+					</div>
+					<button type="button" onClick={close} className="text-xs text-muted-foreground hover:text-foreground">
+						Cancel
+					</button>
+				</div>
+			) : (
+				<button
+					type="button"
+					className="flex items-center gap-2 text-sm text-muted-foreground hover:text-foreground transition-colors w-full py-1 disabled:opacity-50"
+					onClick={() => setAdding(true)}
+					disabled={saving}
+					title={addHint}
+				>
+					<Plus className="w-4 h-4" />
+					Add
+				</button>
+			)}
+		</div>
+	);
+}
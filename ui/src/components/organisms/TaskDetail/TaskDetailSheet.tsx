@@ -13,9 +13,11 @@ import {
 import { Button } from "../../ui/button";
 import { ScrollArea } from "../../ui/ScrollArea";
 import type { Task } from "@/ui/models/task";
-import { api, LifecycleAPIError, updateTask } from "../../../api/client";
+import { api, LifecycleAPIError, StaleWriteError, updateTask } from "../../../api/client";
 import type { TaskLifecycleResponse } from "../../../models/taskLifecycle";
 import { navigateTo } from "../../../lib/navigation";
+import { getStartWarning } from "../../../lib/taskDependencies";
+import { mergeTaskPatch, resolvedTaskPatch, type TaskMerge } from "../../../lib/taskMerge";
 import { toast } from "../../ui/sonner";
 import { useCurrentUser } from "../../../contexts/UserContext";
 import { useUIPreferences } from "../../../contexts/UIPreferencesContext";
@@ -29,6 +31,7 @@ import { TimeTrackingLogs } from "../../molecules";
 import TaskHistoryPanel from "../TaskHistoryPanel";
 import { TaskLifecycleDialog } from "../TaskLifecycleDialog";
 import { TaskHardDeleteDialog } from "../TaskHardDeleteDialog";
+import { ThreeWayMergeDialog } from "../ThreeWayMergeDialog";
 import { useConfig } from "../../../contexts/ConfigContext";
 
 interface TaskDetailSheetProps {
@@ -50,6 +53,12 @@ interface LifecyclePreviewState {
 	phase: "preview" | "execute";
 }
 
+interface PendingMerge {
+	mine: Partial<Task>;
+	theirs: Task;
+	merge: TaskMerge;
+}
+
 export function TaskDetailSheet({
 	task,
 	allTasks,
@@ -76,6 +85,7 @@ export function TaskDetailSheet({
 	taskIDRef.current = task?.id;
 	const [hardDeleteOpen, setHardDeleteOpen] = useState(false);
 	const [hardDeleteError, setHardDeleteError] = useState<string | null>(null);
+	const [pendingMerge, setPendingMerge] = useState<PendingMerge | null>(null);
 
 	useEffect(() => {
 		++lifecycleGenerationRef.current;
@@ -105,16 +115,67 @@ export function TaskDetailSheet({
 		}
 	};
 
+	/**
+	 * Saves updates made to base. If the task changed on the server since, the
+	 * non-overlapping part is re-applied and conflicts go to the merge dialog;
+	 * returns false in that case.
+	 */
+	const saveAgainst = useCallback(
+		async (base: Task, updates: Partial<Task>): Promise<boolean> => {
+			try {
+				onUpdate(await updateTask(base.id, updates, { baseUpdatedAt: base.updatedAt }));
+				return true;
+			} catch (error) {
+				if (!(error instanceof StaleWriteError)) throw error;
+				const theirs = error.current as Task;
+				const merge = mergeTaskPatch(base, updates, theirs);
+				if (merge.fields.length > 0) {
+					setPendingMerge({ mine: updates, theirs, merge });
+					return false;
+				}
+				if (Object.keys(merge.patch).length === 0) {
+					onUpdate(theirs);
+					return true;
+				}
+				return saveAgainst(theirs, merge.patch);
+			}
+		},
+		[onUpdate]
+	);
+
 	const handleSave = useCallback(
 		async (updates: Partial<Task>) => {
 			if (!task) return;
 			setSaving(true);
 			try {
-				const updated = await updateTask(task.id, updates);
-				onUpdate(updated);
+				if (!(await saveAgainst(task, updates))) return;
 				toast.success("Task updated", {
 					description: `#${task.id} ${task.title}`,
 				});
+				const startWarning = updates.status ? getStartWarning(task, updates.status, allTasks) : null;
+				if (startWarning) toast.warning("Started with open dependencies", { description: startWarning });
+			} catch (error) {
+				console.error("Failed to update task:", error);
+				toast.error("Failed to update task", {
+					description: error instanceof Error ? error.message : "Unknown error",
+				});
+			} finally {
+				setSaving(false);
+			}
+		},
+		[task, allTasks, saveAgainst]
+	);
+
+	const handleResolveMerge = useCallback(
+		async (resolved: Record<string, string>) => {
+			if (!pendingMerge) return;
+			const { mine, theirs, merge } = pendingMerge;
+			setPendingMerge(null);
+			setSaving(true);
+			try {
+				if (await saveAgainst(theirs, resolvedTaskPatch(merge, mine, resolved))) {
+					toast.success("Task updated", { description: `#${theirs.id} merged with newer changes` });
+				}
 			} catch (error) {
 				console.error("Failed to update task:", error);
 				toast.error("Failed to update task", {
@@ -124,7 +185,24 @@ export function TaskDetailSheet({
 				setSaving(false);
 			}
 		},
-		[task, onUpdate]
+		[pendingMerge, saveAgainst]
+	);
+
+	const handleUpdateOtherTask = useCallback(
+		async (taskId: string, updates: Partial<Task>) => {
+			setSaving(true);
+			try {
+				onUpdate(await updateTask(taskId, updates));
+			} catch (error) {
+				console.error("Failed to update task:", error);
+				toast.error(`Failed to update #${taskId}`, {
+					description: error instanceof Error ? error.message : "Unknown error",
+				});
+			} finally {
+				setSaving(false);
+			}
+		},
+		[onUpdate]
 	);
 
 	const reconcileLifecycle = useCallback(async (taskId: string) => {
@@ -359,6 +437,7 @@ export function TaskDetailSheet({
 			allTasks={allTasks}
 			currentUser={currentUser}
 			onSave={handleSave}
+			onUpdateTask={handleUpdateOtherTask}
 			onDelete={onDelete}
 			onArchive={() => previewLifecycle("archive")}
 			onUnarchive={() => previewLifecycle("unarchive")}
@@ -388,6 +467,19 @@ export function TaskDetailSheet({
 				onConfirm={executeLifecycle}
 				allowCancelWhileLoading={lifecyclePreview?.phase === "preview"}
 			/>
+			<ThreeWayMergeDialog
+				open={pendingMerge !== null}
+				onOpenChange={(open) => {
+					if (open || !pendingMerge) return;
+					// Cancelling keeps the server copy; the local edit is dropped.
+					onUpdate(pendingMerge.theirs);
+					setPendingMerge(null);
+				}}
+				title={`Task #${pendingMerge?.theirs.id ?? task.id} changed while you were editing`}
+				fields={pendingMerge?.merge.fields ?? []}
+				saving={saving}
+				onResolve={handleResolveMerge}
+			/>
 			{config.capabilities?.taskHardDelete === true && (
 				<TaskHardDeleteDialog
 					task={task}
@@ -471,6 +563,7 @@ export function TaskDetailSheet({
 											allTasks={allTasks}
 											currentUser={currentUser}
 											onSave={handleSave}
+											onUpdateTask={handleUpdateOtherTask}
 											onDelete={onDelete}
 											onArchive={() => previewLifecycle("archive")}
 											onUnarchive={() => previewLifecycle("unarchive")}
@@ -1,6 +1,6 @@
 import { useState, useMemo } from "react";
 import { navigateTo } from "../../../lib/navigation";
-import { Plus, X, Archive, ArchiveRestore, Trash2, ArrowUp, Play, Square, Pause, FileText } from "lucide-react";
+import { Plus, X, Archive, ArchiveRestore, Trash2, ArrowUp, Play, Square, Pause, FileText, Lock } from "lucide-react";
 import { Button } from "../../ui/button";
 import { Badge } from "../../ui/badge";
 import { Input } from "../../ui/input";
@@ -20,12 +20,16 @@ import { useTimeTracker } from "../../../contexts/TimeTrackerContext";
 import { useConfig } from "../../../contexts/ConfigContext";
 import { buildStatusOptions, getStatusBadgeClasses, type ColorName } from "../../../utils/colors";
 import { TaskLifecycleBadge, TaskLifecycleTimestamps } from "../../molecules/TaskLifecycleBadge";
+import { getOpenDependencies } from "../../../lib/taskDependencies";
+import { TaskDependencies } from "./TaskDependencies";
+import { useMilestones } from "../../../hooks/useMilestones";
 
 interface TaskSidebarProps {
 	task: Task;
 	allTasks: Task[];
 	currentUser: string;
 	onSave: (updates: Partial<Task>) => Promise<void>;
+	onUpdateTask?: (taskId: string, updates: Partial<Task>) => Promise<void>;
 	onDelete?: (taskId: string) => void;
 	onArchive?: (taskId: string) => void;
 	onUnarchive?: (taskId: string) => void;
@@ -36,11 +40,15 @@ interface TaskSidebarProps {
 	compact?: boolean;
 }
 
+// Radix Select reserves "" for "no selection"
+const NO_MILESTONE = "__none__";
+
 export function TaskSidebar({
 	task,
 	allTasks,
 	currentUser,
 	onSave,
+	onUpdateTask,
 	onDelete,
 	onArchive,
 	onUnarchive,
@@ -54,6 +62,7 @@ export function TaskSidebar({
 	const [newLabel, setNewLabel] = useState("");
 	const { isTaskRunning, isTaskPaused, start, stop, pause, resume } = useTimeTracker();
 	const { config } = useConfig();
+	const { milestones } = useMilestones();
 
 	// Build status options from config
 	const statusOptions = useMemo(() => {
@@ -108,6 +117,10 @@ export function TaskSidebar({
 	};
 
 	const parentTask = task.parent ? allTasks.find((t) => t.id === task.parent) : null;
+	const openDependencies = useMemo(
+		() => getOpenDependencies(task, new Map(allTasks.map((t) => [t.id, t]))),
+		[task, allTasks],
+	);
 
 	// Compact layout for Sheet mode (horizontal)
 	if (compact) {
@@ -360,9 +373,20 @@ export function TaskSidebar({
 					</div>
 				)}
 
-				{/* Parent/Subtasks summary (if any) */}
-				{(parentTask || (task.subtasks ?? []).length > 0) && (
+				{/* Parent/Subtasks/dependency summary (if any) */}
+				{(parentTask || (task.subtasks ?? []).length > 0 || openDependencies.length > 0) && (
 					<div className="flex items-center gap-4 text-xs text-muted-foreground">
+						{openDependencies.length > 0 && (
+							<button
+								type="button"
+								onClick={() => onNavigateToTask?.(openDependencies[0]!.id)}
+								className="flex items-center gap-1 text-amber-600 dark:text-amber-400 hover:underline"
+								title={openDependencies.map((dep) => `#${dep.id} ${dep.title}`).join("\n")}
+							>
+								<Lock className="w-3 h-3" />
+								<span>Blocked by {openDependencies.map((dep) => `#${dep.id}`).join(", ")}</span>
+							</button>
+						)}
 						{parentTask && (
 							<button
 								type="button"
@@ -484,6 +508,56 @@ export function TaskSidebar({
 				/>
 			</div>
 
+			{/* Planned dates */}
+			<div className="grid grid-cols-2 gap-2">
+				<div className="space-y-1.5">
+					<span className="text-xs text-muted-foreground">Start date</span>
+					<Input
+						type="date"
+						value={task.startDate || ""}
+						max={task.dueDate || undefined}
+						onChange={(e) => onSave({ startDate: e.target.value })}
+						className="h-8 text-sm"
+						data-testid="task-start-date"
+					/>
+				</div>
+				<div className="space-y-1.5">
+					<span className="text-xs text-muted-foreground">Due date</span>
+					<Input
+						type="date"
+						value={task.dueDate || ""}
+						min={task.startDate || undefined}
+						onChange={(e) => onSave({ dueDate: e.target.value })}
+						className="h-8 text-sm"
+						data-testid="task-due-date"
+					/>
+				</div>
+			</div>
+
+			{/* Milestone */}
+			<div className="space-y-1.5">
+				<span className="text-xs text-muted-foreground">Milestone</span>
+				<Select
+					value={task.milestone || NO_MILESTONE}
+					onValueChange={(value) => onSave({ milestone: value === NO_MILESTONE ? "" : value })}
+				>
+					<SelectTrigger className="h-8 text-sm" data-testid="task-milestone">
+						<SelectValue />
+					</SelectTrigger>
+					<SelectContent>
+						<SelectItem value={NO_MILESTONE}>No milestone</SelectItem>
+						{milestones.map((milestone) => (
+							<SelectItem key={milestone.id} value={milestone.id}>
+								{milestone.name}
+							</SelectItem>
+						))}
+						{task.milestone && !milestones.some((m) => m.id === task.milestone) && (
+							<SelectItem value={task.milestone}>{task.milestone}</SelectItem>
+						)}
+					</SelectContent>
+				</Select>
+			</div>
+
 			{/* Labels */}
 			<div className="space-y-1.5">
 				<span className="text-xs text-muted-foreground">Labels</span>
@@ -626,6 +700,16 @@ export function TaskSidebar({
 				</div>
 			)}
 
+			{/* Dependencies */}
+			<TaskDependencies
+				task={task}
+				allTasks={allTasks}
+				onSave={onSave}
+				onUpdateTask={onUpdateTask}
+				onNavigateToTask={onNavigateToTask}
+				saving={saving}
+			/>
+
 			<div className="border-t border-border/40" />
 
 			{/* Actions */}
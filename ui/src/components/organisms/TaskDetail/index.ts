@@ -4,4 +4,5 @@ export { TaskDescription } from "./TaskDescription";
 export { TaskAcceptanceCriteria } from "./TaskAcceptanceCriteria";
 export { TaskImplementationSection } from "./TaskImplementationSection";
 export { TaskSidebar } from "./TaskSidebar";
+export { TaskDependencies } from "./TaskDependencies";
 export * from "./types";
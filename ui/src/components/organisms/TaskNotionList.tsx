@@ -1,7 +1,6 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
-import { Search, X, Plus, FileText, ClipboardList, ChevronRight } from "lucide-react";
+import { X, Plus, FileText, ClipboardList, ChevronRight } from "lucide-react";
 import type { Task } from "@/ui/models/task";
-import { Input } from "@/ui/components/ui/input";
 import { Button } from "@/ui/components/ui/button";
 import { StatusBadge, PriorityBadge, LabelList } from "@/ui/components/molecules";
 import { useConfig } from "@/ui/contexts/ConfigContext";
@@ -9,51 +8,33 @@ import { buildStatusOptions } from "@/ui/utils/colors";
 import { useNewTaskIds } from "@/ui/hooks/useNewTaskIds";
 import { navigateTo } from "../../lib/navigation";
 import { cn } from "@/ui/lib/utils";
+import { getTaskQueryValue, setTaskQueryValue } from "@/ui/lib/taskQuery";
 import { TaskLifecycleBadge } from "../molecules/TaskLifecycleBadge";
 
 interface TaskNotionListProps {
+	/** Tasks already filtered by the page's task query. */
 	tasks: Task[];
+	query: string;
+	onQueryChange: (query: string) => void;
 	onTaskClick: (task: Task) => void;
 	onNewTask?: () => void;
 }
 
-export function TaskNotionList({ tasks, onTaskClick, onNewTask }: TaskNotionListProps) {
+export function TaskNotionList({ tasks, query, onQueryChange, onTaskClick, onNewTask }: TaskNotionListProps) {
 	const { config } = useConfig();
 	const newTaskIds = useNewTaskIds(tasks);
-	const [searchQuery, setSearchQuery] = useState("");
-	const [statusFilter, setStatusFilter] = useState<string>("all");
-	const [priorityFilter, setPriorityFilter] = useState<string>("all");
+	// Status and priority pills are shortcuts for single-value query terms.
+	const statusFilter = getTaskQueryValue(query, "status") || "all";
+	const priorityFilter = getTaskQueryValue(query, "priority") || "all";
+	const setStatusFilter = (value: string) => onQueryChange(setTaskQueryValue(query, "status", value === "all" ? null : value));
+	const setPriorityFilter = (value: string) =>
+		onQueryChange(setTaskQueryValue(query, "priority", value === "all" ? null : value));
 
 	const statusOptions = useMemo(() => {
 		const statuses = config.statuses || ["todo", "in-progress", "in-review", "done", "blocked"];
 		return buildStatusOptions(statuses);
 	}, [config.statuses]);
 
-	const filteredTasks = useMemo(() => {
-		let result = tasks;
-
-		if (searchQuery) {
-			const q = searchQuery.toLowerCase();
-			result = result.filter(
-				(t) =>
-					t.id.toLowerCase().includes(q) ||
-					t.title.toLowerCase().includes(q) ||
-					t.description?.toLowerCase().includes(q) ||
-					t.assignee?.toLowerCase().includes(q) ||
-					(t.labels ?? []).some((l: string) => l.toLowerCase().includes(q)),
-			);
-		}
-
-		if (statusFilter !== "all") {
-			result = result.filter((t) => t.status === statusFilter);
-		}
-		if (priorityFilter !== "all") {
-			result = result.filter((t) => t.priority === priorityFilter);
-		}
-
-		return result;
-	}, [tasks, searchQuery, statusFilter, priorityFilter]);
-
 	// Sort within each group: priority high→low, then by order, then by id
 	const sortTasks = useCallback((list: Task[]) => {
 		const priorityOrder: Record<string, number> = { high: 0, medium: 1, low: 2 };
@@ -74,7 +55,7 @@ export function TaskNotionList({ tasks, onTaskClick, onNewTask }: TaskNotionList
 		const groups: { status: string; label: string; tasks: Task[] }[] = [];
 		const tasksByStatus = new Map<string, Task[]>();
 
-		for (const t of filteredTasks) {
+		for (const t of tasks) {
 			const list = tasksByStatus.get(t.status) || [];
 			list.push(t);
 			tasksByStatus.set(t.status, list);
@@ -98,9 +79,9 @@ export function TaskNotionList({ tasks, onTaskClick, onNewTask }: TaskNotionList
 		}
 
 		return groups;
-	}, [filteredTasks, config.statuses, statusOptions, sortTasks]);
+	}, [tasks, config.statuses, statusOptions, sortTasks]);
 
-	const isFiltered = searchQuery || statusFilter !== "all" || priorityFilter !== "all";
+	const isFiltered = statusFilter !== "all" || priorityFilter !== "all";
 
 	// Collapsed groups
 	const [collapsedGroups, setCollapsedGroups] = useState<Set<string>>(new Set());
@@ -121,7 +102,7 @@ export function TaskNotionList({ tasks, onTaskClick, onNewTask }: TaskNotionList
 	// Reset visible count when filters change
 	useEffect(() => {
 		setVisibleCount(BATCH_SIZE);
-	}, [searchQuery, statusFilter, priorityFilter]);
+	}, [query]);
 
 	// Flatten visible tasks across groups for lazy loading
 	const { visibleGroups, totalVisible, totalTasks, hasMore } = useMemo(() => {
@@ -161,25 +142,6 @@ export function TaskNotionList({ tasks, onTaskClick, onNewTask }: TaskNotionList
 		<div className="h-full flex flex-col">
 			{/* Filter bar — pill style */}
 			<div className="flex items-center gap-2 flex-wrap mb-4">
-				<div className="relative flex-1 min-w-[180px] max-w-[280px]">
-					<Search className="absolute left-2.5 top-1/2 -translate-y-1/2 h-3.5 w-3.5 text-muted-foreground" />
-					<Input
-						placeholder="Search..."
-						value={searchQuery}
-						onChange={(e) => setSearchQuery(e.target.value)}
-						className="pl-8 h-8 text-sm rounded-lg border-border/40 bg-background"
-					/>
-					{searchQuery && (
-						<button
-							type="button"
-							onClick={() => setSearchQuery("")}
-							className="absolute right-2 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground"
-						>
-							<X className="h-3 w-3" />
-						</button>
-					)}
-				</div>
-
 				{/* Status pills */}
 				<div className="flex items-center gap-1">
 					<button
@@ -233,11 +195,7 @@ export function TaskNotionList({ tasks, onTaskClick, onNewTask }: TaskNotionList
 				{isFiltered && (
 					<button
 						type="button"
-						onClick={() => {
-							setSearchQuery("");
-							setStatusFilter("all");
-							setPriorityFilter("all");
-						}}
+						onClick={() => onQueryChange(setTaskQueryValue(setTaskQueryValue(query, "status", null), "priority", null))}
 						className="text-xs text-muted-foreground hover:text-foreground flex items-center gap-0.5"
 					>
 						<X className="h-3 w-3" />
@@ -248,7 +206,7 @@ export function TaskNotionList({ tasks, onTaskClick, onNewTask }: TaskNotionList
 				<div className="flex-1" />
 
 				<span className="text-xs text-muted-foreground">
-					{filteredTasks.length} task{filteredTasks.length !== 1 ? "s" : ""}
+					{tasks.length} task{tasks.length !== 1 ? "s" : ""}
 				</span>
 
 				{onNewTask && (
@@ -268,7 +226,7 @@ export function TaskNotionList({ tasks, onTaskClick, onNewTask }: TaskNotionList
 				{groupedTasks.length === 0 ? (
 					<div className="text-center py-16">
 						<p className="text-sm text-muted-foreground">
-							{isFiltered ? "No tasks match your filters." : "No tasks yet."}
+							{query.trim() ? "No tasks match your filters." : "No tasks yet."}
 						</p>
 					</div>
 				) : (
@@ -0,0 +1,208 @@
+import { useEffect, useRef, useState } from "react";
+import { Bookmark, Check, ChevronDown, Link2, Save, Search, Trash2, X } from "lucide-react";
+import { Input } from "../ui/input";
+import { Button } from "../ui/button";
+import {
+	DropdownMenu,
+	DropdownMenuContent,
+	DropdownMenuItem,
+	DropdownMenuLabel,
+	DropdownMenuSeparator,
+	DropdownMenuTrigger,
+} from "../ui/DropdownMenu";
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+} from "../ui/dialog";
+import { toast } from "../ui/sonner";
+import { useDebouncedValue } from "../../hooks/useDebouncedValue";
+import type { TaskViewState } from "../../hooks/useTaskView";
+import { cn } from "@/ui/lib/utils";
+
+const QUERY_HELP = [
+	"status:in-progress · priority:high,medium",
+	"label:backend · assignee:@me · assignee:none",
+	"spec:specs/auth · milestone:sprint-12 · parent:root · id:abc123",
+	"ac:complete|incomplete|none",
+	"updated:<7d · created:>2w · updated:<2026-01-31",
+	"-label:wontfix negates · \"quoted text\" searches",
+].join("\n");
+
+interface TaskViewBarProps {
+	taskView: TaskViewState;
+	className?: string;
+}
+
+/**
+ * Filter query input plus the saved views menu, shared by /tasks and /kanban.
+ */
+export function TaskViewBar({ taskView, className }: TaskViewBarProps) {
+	const { query, parsed, views, activeView, modified, setQuery, applyView, saveView, updateView, deleteView } = taskView;
+	const [draft, setDraft] = useState(query);
+	const debouncedDraft = useDebouncedValue(draft, 250);
+	const committedRef = useRef(query);
+	const [saveOpen, setSaveOpen] = useState(false);
+	const [viewName, setViewName] = useState("");
+	const [saving, setSaving] = useState(false);
+
+	// Follow external changes (view switch, back/forward) without clobbering
+	// typing that happened after our own commit.
+	useEffect(() => {
+		if (query === committedRef.current) return;
+		committedRef.current = query;
+		setDraft(query);
+	}, [query]);
+
+	useEffect(() => {
+		if (debouncedDraft.trim() === committedRef.current.trim()) return;
+		committedRef.current = debouncedDraft.trim();
+		setQuery(debouncedDraft);
+	}, [debouncedDraft, setQuery]);
+
+	const clear = () => {
+		setDraft("");
+		committedRef.current = "";
+		setQuery("");
+	};
+
+	const copyLink = () => {
+		navigator.clipboard.writeText(window.location.href).then(
+			() => toast.success("Link to this view copied"),
+			() => toast.error("Failed to copy link"),
+		);
+	};
+
+	const submitSave = async () => {
+		if (!viewName.trim()) return;
+		setSaving(true);
+		try {
+			await saveView(viewName);
+			setSaveOpen(false);
+			setViewName("");
+		} catch {
+			// persist already reported the failure
+		} finally {
+			setSaving(false);
+		}
+	};
+
+	return (
+		<div className={cn("flex flex-col gap-1", className)}>
+			<div className="flex items-center gap-2">
+				<div className="relative flex-1 min-w-[200px] max-w-[560px]">
+					<Search className="absolute left-2.5 top-1/2 -translate-y-1/2 h-3.5 w-3.5 text-muted-foreground" />
+					<Input
+						value={draft}
+						onChange={(event) => setDraft(event.target.value)}
+						onKeyDown={(event) => {
+							if (event.key === "Enter") {
+								committedRef.current = draft.trim();
+								setQuery(draft);
+							}
+						}}
+						placeholder="Filter: status:todo label:backend assignee:@me updated:<7d"
+						title={QUERY_HELP}
+						spellCheck={false}
+						className="pl-8 pr-7 h-8 text-sm font-mono rounded-lg border-border/40 bg-background"
+						data-testid="task-query-input"
+					/>
+					{draft && (
+						<button
+							type="button"
+							onClick={clear}
+							className="absolute right-2 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground"
+						>
+							<X className="h-3 w-3" />
+						</button>
+					)}
+				</div>
+
+				<DropdownMenu>
+					<DropdownMenuTrigger asChild>
+						<Button variant="outline" size="sm" className="h-8 gap-1.5 max-w-[220px]">
+							<Bookmark className="h-3.5 w-3.5 shrink-0" />
+							<span className="truncate">{activeView ? activeView.name : "Views"}</span>
+							{modified && <span className="text-muted-foreground">•</span>}
+							<ChevronDown className="h-3 w-3 shrink-0" />
+						</Button>
+					</DropdownMenuTrigger>
+					<DropdownMenuContent align="end" className="w-64">
+						<DropdownMenuLabel>Saved views</DropdownMenuLabel>
+						{views.length === 0 && (
+							<div className="px-2 py-1.5 text-xs text-muted-foreground">No saved views yet</div>
+						)}
+						{views.map((view) => (
+							<DropdownMenuItem key={view.id} onClick={() => applyView(view)} title={view.query}>
+								<span className="flex-1 truncate">{view.name}</span>
+								{view.layout && <span className="text-[10px] uppercase text-muted-foreground">{view.layout}</span>}
+								{activeView?.id === view.id && <Check className="h-3.5 w-3.5" />}
+							</DropdownMenuItem>
+						))}
+						<DropdownMenuSeparator />
+						<DropdownMenuItem onClick={() => setSaveOpen(true)}>
+							<Save className="h-3.5 w-3.5" /> Save as new view…
+						</DropdownMenuItem>
+						{activeView && modified && (
+							<DropdownMenuItem onClick={() => void updateView(activeView.id).catch(() => {})}>
+								<Save className="h-3.5 w-3.5" /> Update “{activeView.name}”
+							</DropdownMenuItem>
+						)}
+						<DropdownMenuItem onClick={copyLink}>
+							<Link2 className="h-3.5 w-3.5" /> Copy link
+						</DropdownMenuItem>
+						{activeView && (
+							<>
+								<DropdownMenuItem onClick={() => applyView(null)}>
+									<X className="h-3.5 w-3.5" /> Leave view
+								</DropdownMenuItem>
+								<DropdownMenuItem
+									onClick={() => void deleteView(activeView.id).catch(() => {})}
+									className="text-destructive focus:text-destructive"
+								>
+									<Trash2 className="h-3.5 w-3.5" /> Delete “{activeView.name}”
+								</DropdownMenuItem>
+							</>
+						)}
+					</DropdownMenuContent>
+				</DropdownMenu>
+			</div>
+
+			{parsed.errors.length > 0 && (
+				<p className="text-xs text-destructive" data-testid="task-query-errors">
+					{parsed.errors.join(" · ")}
+				</p>
+			)}
+
+			<Dialog open={saveOpen} onOpenChange={setSaveOpen}>
+				<DialogContent className="max-w-md">
+					<DialogHeader>
+						<DialogTitle>Save view</DialogTitle>
+						<DialogDescription>
+							Saves the current filter{query ? "" : " (no filter)"} and layout to your preferences.
+						</DialogDescription>
+					</DialogHeader>
+					<div className="space-y-2">
+						<Input
+							autoFocus
+							value={viewName}
+							onChange={(event) => setViewName(event.target.value)}
+							onKeyDown={(event) => {
+								if (event.key === "Enter") void submitSave();
+							}}
+							placeholder="View name"
+						/>
+						{query && <code className="block truncate rounded bg-muted px-2 py-1 text-xs">{query}</code>}
+					</div>
+					<DialogFooter>
+						<Button variant="outline" onClick={() => setSaveOpen(false)}>Cancel</Button>
+						<Button onClick={() => void submitSave()} disabled={saving || !viewName.trim()}>Save view</Button>
+					</DialogFooter>
+				</DialogContent>
+			</Dialog>
+		</div>
+	);
+}
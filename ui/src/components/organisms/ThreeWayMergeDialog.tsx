@@ -0,0 +1,212 @@
+import { useEffect, useMemo, useState } from "react";
+import { GitMerge } from "lucide-react";
+import { Button } from "../ui/button";
+import { DiffViewer } from "../ui/DiffViewer";
+import { Textarea } from "../ui/textarea";
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+} from "../ui/dialog";
+import { cn } from "../../lib/utils";
+import {
+	choiceLines,
+	conflictCount,
+	mergeText,
+	resolveMerge,
+	type HunkChoice,
+	type MergeChunk,
+	type MergeField,
+} from "../../lib/threeWayMerge";
+
+interface ThreeWayMergeDialogProps {
+	open: boolean;
+	onOpenChange: (open: boolean) => void;
+	title: string;
+	fields: MergeField[];
+	saving?: boolean;
+	/** Called with the resolved text of every field, keyed by field key. */
+	onResolve: (resolved: Record<string, string>) => void;
+}
+
+type FieldChoices = Record<string, Array<HunkChoice | undefined>>;
+
+const CHOICES: Array<{ value: "theirs" | "mine" | "both"; label: string }> = [
+	{ value: "theirs", label: "Theirs" },
+	{ value: "mine", label: "Mine" },
+	{ value: "both", label: "Both" },
+];
+
+function chunksFor(field: MergeField): MergeChunk[] {
+	if (field.atomic) {
+		return [{ kind: "conflict", base: [field.base], mine: [field.mine], theirs: [field.theirs] }];
+	}
+	return mergeText(field.base, field.mine, field.theirs);
+}
+
+function ConflictHunk({ chunk, choice, atomic, onChoose }: {
+	chunk: Extract<MergeChunk, { kind: "conflict" }>;
+	choice: HunkChoice | undefined;
+	atomic?: boolean;
+	onChoose: (choice: HunkChoice | undefined) => void;
+}) {
+	const base = chunk.base.join("\n");
+	const custom = typeof choice === "object";
+	return (
+		<div className="rounded-md border border-amber-300/60 bg-amber-50/40 p-2 dark:border-amber-700/50 dark:bg-amber-950/20" data-testid="merge-conflict">
+			<div className="grid gap-2 md:grid-cols-2">
+				<div className="min-w-0">
+					<div className="mb-1 text-[11px] font-medium text-muted-foreground">Theirs (saved on server)</div>
+					<DiffViewer oldValue={base} newValue={chunk.theirs.join("\n")} />
+				</div>
+				<div className="min-w-0">
+					<div className="mb-1 text-[11px] font-medium text-muted-foreground">Mine</div>
+					<DiffViewer oldValue={base} newValue={chunk.mine.join("\n")} />
+				</div>
+			</div>
+			<div className="mt-2 flex flex-wrap items-center gap-1.5">
+				{CHOICES.filter((option) => !atomic || option.value !== "both").map((option) => (
+					<Button
+						key={option.value}
+						size="sm"
+						variant={choice === option.value ? "default" : "outline"}
+						className="h-7 px-2.5 text-xs"
+						onClick={() => onChoose(option.value)}
+					>
+						{option.label}
+					</Button>
+				))}
+				{!atomic && (
+					<Button
+						size="sm"
+						variant={custom ? "default" : "outline"}
+						className="h-7 px-2.5 text-xs"
+						onClick={() => onChoose({ text: choiceLines(chunk, choice && !custom ? choice : "theirs").join("\n") })}
+					>
+						Edit
+					</Button>
+				)}
+			</div>
+			{custom && (
+				<Textarea
+					className="mt-2 min-h-[90px] font-mono text-xs"
+					value={choice.text}
+					onChange={(e) => onChoose({ text: e.target.value })}
+				/>
+			)}
+		</div>
+	);
+}
+
+function StableLines({ lines }: { lines: string[] }) {
+	if (lines.length === 0) return null;
+	const preview = lines.length > 4 ? [...lines.slice(0, 2), `… ${lines.length - 4} more lines`, ...lines.slice(-2)] : lines;
+	return (
+		<pre className="whitespace-pre-wrap break-words px-2 py-1 font-mono text-xs text-muted-foreground/70">
+			{preview.join("\n")}
+		</pre>
+	);
+}
+
+/**
+ * Resolves a save rejected because the record changed on the server: shows
+ * base, theirs and mine per conflicting hunk and lets each be resolved
+ * before saving again. Non-overlapping changes are merged automatically.
+ */
+export function ThreeWayMergeDialog({ open, onOpenChange, title, fields, saving, onResolve }: ThreeWayMergeDialogProps) {
+	const merges = useMemo(() => fields.map((field) => ({ field, chunks: chunksFor(field) })), [fields]);
+	const [choices, setChoices] = useState<FieldChoices>({});
+
+	useEffect(() => {
+		setChoices({});
+	}, [fields]);
+
+	const resolved = useMemo(() => {
+		const values: Record<string, string> = {};
+		for (const { field, chunks } of merges) {
+			const text = resolveMerge(chunks, choices[field.key] ?? []);
+			if (text === null) return null;
+			values[field.key] = text;
+		}
+		return values;
+	}, [merges, choices]);
+
+	const remaining = merges.reduce(
+		(sum, { field, chunks }) => sum + conflictCount(chunks) - (choices[field.key] ?? []).filter((c) => c !== undefined).length,
+		0,
+	);
+
+	const choose = (key: string, index: number, choice: HunkChoice | undefined) => {
+		setChoices((prev) => {
+			const next = [...(prev[key] ?? [])];
+			next[index] = choice;
+			return { ...prev, [key]: next };
+		});
+	};
+
+	const chooseAll = (choice: "mine" | "theirs") => {
+		setChoices(Object.fromEntries(merges.map(({ field, chunks }) => [field.key, Array(conflictCount(chunks)).fill(choice)])));
+	};
+
+	return (
+		<Dialog open={open} onOpenChange={(next) => !saving && onOpenChange(next)}>
+			<DialogContent className="max-h-[85vh] max-w-4xl overflow-hidden p-0" data-testid="three-way-merge-dialog">
+				<DialogHeader className="border-b px-6 py-5 pr-12">
+					<DialogTitle className="flex items-center gap-2">
+						<GitMerge className="h-4 w-4 text-amber-500" />
+						{title}
+					</DialogTitle>
+					<DialogDescription>
+						Someone saved changes after you started editing. Changes that don't overlap were merged; pick a version for each conflict, then save again.
+					</DialogDescription>
+				</DialogHeader>
+
+				<div className="max-h-[60vh] space-y-5 overflow-y-auto px-6 py-4">
+					{merges.map(({ field, chunks }) => {
+						let conflict = 0;
+						return (
+							<section key={field.key}>
+								<h3 className="mb-1.5 text-sm font-medium">{field.label}</h3>
+								<div className={cn("space-y-1.5 rounded-md border bg-card p-2", conflictCount(chunks) === 0 && "border-dashed")}>
+									{conflictCount(chunks) === 0 && (
+										<div className="px-2 text-[11px] text-muted-foreground">Merged automatically</div>
+									)}
+									{chunks.map((chunk, index) => {
+										if (chunk.kind === "stable") return <StableLines key={index} lines={chunk.lines} />;
+										const ordinal = conflict++;
+										return (
+											<ConflictHunk
+												key={index}
+												chunk={chunk}
+												atomic={field.atomic}
+												choice={choices[field.key]?.[ordinal]}
+												onChoose={(choice) => choose(field.key, ordinal, choice)}
+											/>
+										);
+									})}
+								</div>
+							</section>
+						);
+					})}
+				</div>
+
+				<DialogFooter className="items-center border-t px-6 py-4 sm:justify-between">
+					<div className="flex items-center gap-2">
+						<Button variant="ghost" size="sm" disabled={saving} onClick={() => chooseAll("theirs")}>Keep all theirs</Button>
+						<Button variant="ghost" size="sm" disabled={saving} onClick={() => chooseAll("mine")}>Keep all mine</Button>
+					</div>
+					<div className="flex items-center gap-2">
+						{remaining > 0 && <span className="text-xs text-muted-foreground">{remaining} unresolved</span>}
+						<Button variant="outline" disabled={saving} onClick={() => onOpenChange(false)}>Cancel</Button>
+						<Button disabled={saving || resolved === null} onClick={() => resolved && onResolve(resolved)}>
+							{saving ? "Saving..." : "Save merged"}
+						</Button>
+					</div>
+				</DialogFooter>
+			</DialogContent>
+		</Dialog>
+	);
+}
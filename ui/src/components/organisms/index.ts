@@ -16,3 +16,4 @@ export { default as AssigneeDropdown } from "./AssigneeDropdown";
 export { TaskDataTable } from "./TaskDataTable";
 export { DocsFileManager } from "./DocsFileManager";
 export { TaskNotionList } from "./TaskNotionList";
+export { TaskViewBar } from "./TaskViewBar";
@@ -1,5 +1,5 @@
-import { useMemo } from "react";
-import { diffLines } from "diff";
+import { useMemo, type ReactNode } from "react";
+import { diffLines, diffWordsWithSpace } from "diff";
 import { cn } from "../../lib/utils";
 
 const CONTEXT = 3;
@@ -9,6 +9,10 @@ interface DiffViewerProps {
   newValue?: string;
   className?: string;
   filePath?: string;
+  /** Unified (default) shows one column; split shows old and new side by side. */
+  view?: "unified" | "split";
+  /** Highlight the changed words within paired removed/added lines. */
+  wordDiff?: boolean;
 }
 
 type LineEntry =
@@ -18,6 +22,10 @@ type LineEntry =
 
 type Segment = { lines: LineEntry[] };
 
+type SplitRow = { left?: LineEntry; right?: LineEntry };
+
+type WordHighlights = Map<LineEntry, ReactNode>;
+
 function buildSegments(old: string, next: string): Segment[] {
   const hunks = diffLines(old, next);
   const allLines: LineEntry[] = [];
@@ -78,6 +86,51 @@ function deletedFileSegments(value: string): Segment[] {
   return [{ lines: lines.map((text, i) => ({ kind: "remove" as const, text, oldNum: i + 1 })) }];
 }
 
+/** Lines side by side: each removed run is paired with the added run after it. */
+function splitRows(lines: LineEntry[]): SplitRow[] {
+  const rows: SplitRow[] = [];
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i]!;
+    if (line.kind === "context") {
+      rows.push({ left: line, right: line });
+      i++;
+      continue;
+    }
+    const removed: LineEntry[] = [];
+    const added: LineEntry[] = [];
+    while (i < lines.length && lines[i]!.kind === "remove") removed.push(lines[i++]!);
+    while (i < lines.length && lines[i]!.kind === "add") added.push(lines[i++]!);
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+      rows.push({ left: removed[k], right: added[k] });
+    }
+  }
+  return rows;
+}
+
+function wordHighlights(segments: Segment[]): WordHighlights {
+  const highlights: WordHighlights = new Map();
+  for (const seg of segments) {
+    for (const { left, right } of splitRows(seg.lines)) {
+      if (left?.kind !== "remove" || right?.kind !== "add") continue;
+      const parts = diffWordsWithSpace(left.text, right.text);
+      highlights.set(
+        left,
+        parts.filter((part) => !part.added).map((part, i) =>
+          part.removed ? <mark key={i} className="rounded-sm bg-red-200 text-inherit dark:bg-red-800/60">{part.value}</mark> : part.value,
+        ),
+      );
+      highlights.set(
+        right,
+        parts.filter((part) => !part.removed).map((part, i) =>
+          part.added ? <mark key={i} className="rounded-sm bg-green-200 text-inherit dark:bg-green-800/60">{part.value}</mark> : part.value,
+        ),
+      );
+    }
+  }
+  return highlights;
+}
+
 function LineNum({ n }: { n?: number }) {
   return (
     <span className="mr-3 inline-block w-7 shrink-0 select-none text-right opacity-35 tabular-nums">
@@ -86,7 +139,24 @@ function LineNum({ n }: { n?: number }) {
   );
 }
 
-export function DiffViewer({ oldValue, newValue, className = "" }: DiffViewerProps) {
+const LINE_CLASS: Record<LineEntry["kind"], string> = {
+  remove: "bg-red-50 text-red-700 dark:bg-red-950/40 dark:text-red-300",
+  add: "bg-green-50 text-green-700 dark:bg-green-950/40 dark:text-green-300",
+  context: "text-foreground/60",
+};
+
+function SplitCell({ line, side, highlights }: { line?: LineEntry; side: "old" | "new"; highlights: WordHighlights }) {
+  if (!line) return <div className="min-w-0 bg-muted/30 px-2 py-px" />;
+  const num = line.kind === "remove" ? line.oldNum : line.kind === "add" ? line.newNum : side === "old" ? line.oldNum : line.newNum;
+  return (
+    <div className={cn("flex min-w-0 px-2 py-px", LINE_CLASS[line.kind])}>
+      <LineNum n={num} />
+      <span className="min-w-0 flex-1 whitespace-pre-wrap break-words">{highlights.get(line) ?? line.text}</span>
+    </div>
+  );
+}
+
+export function DiffViewer({ oldValue, newValue, className = "", view = "unified", wordDiff = false }: DiffViewerProps) {
   const hasOld = Boolean(oldValue?.trim());
   const hasNew = Boolean(newValue?.trim());
 
@@ -97,6 +167,8 @@ export function DiffViewer({ oldValue, newValue, className = "" }: DiffViewerPro
     return buildSegments(oldValue!, newValue!);
   }, [oldValue, newValue, hasOld, hasNew]);
 
+  const highlights = useMemo<WordHighlights>(() => (wordDiff ? wordHighlights(segments) : new Map()), [segments, wordDiff]);
+
   if (!hasOld && !hasNew) {
     return <div className={cn("p-2 text-xs text-muted-foreground", className)}>No content</div>;
   }
@@ -114,13 +186,19 @@ export function DiffViewer({ oldValue, newValue, className = "" }: DiffViewerPro
               <span>···</span>
             </div>
           )}
-          {seg.lines.map((line, li) => {
+          {view === "split" && splitRows(seg.lines).map((row, ri) => (
+            <div key={ri} className="grid grid-cols-2 divide-x divide-border">
+              <SplitCell line={row.left} side="old" highlights={highlights} />
+              <SplitCell line={row.right} side="new" highlights={highlights} />
+            </div>
+          ))}
+          {view === "unified" && seg.lines.map((line, li) => {
             if (line.kind === "remove") {
               return (
                 <div key={li} className="flex bg-red-50 px-2 py-px text-red-700 dark:bg-red-950/40 dark:text-red-300">
                   <LineNum n={line.oldNum} />
                   <span className="mr-2 select-none opacity-70">-</span>
-                  <span className="min-w-0 flex-1 whitespace-pre-wrap break-words">{line.text}</span>
+                  <span className="min-w-0 flex-1 whitespace-pre-wrap break-words">{highlights.get(line) ?? line.text}</span>
                 </div>
               );
             }
@@ -129,7 +207,7 @@ export function DiffViewer({ oldValue, newValue, className = "" }: DiffViewerPro
                 <div key={li} className="flex bg-green-50 px-2 py-px text-green-700 dark:bg-green-950/40 dark:text-green-300">
                   <LineNum n={line.newNum} />
                   <span className="mr-2 select-none opacity-70">+</span>
-                  <span className="min-w-0 flex-1 whitespace-pre-wrap break-words">{line.text}</span>
+                  <span className="min-w-0 flex-1 whitespace-pre-wrap break-words">{highlights.get(line) ?? line.text}</span>
                 </div>
               );
             }
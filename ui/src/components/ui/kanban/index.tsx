@@ -324,6 +324,8 @@ export type KanbanProviderProps<
   onDragStart?: (event: DragStartEvent) => void;
   onDragEnd?: (event: DragEndEvent) => void;
   onDragOver?: (event: DragOverEvent) => void;
+  /** Arranges the rendered columns (e.g. into swimlanes); defaults to a single row. */
+  renderLayout?: (renderColumn: (column: C) => ReactNode) => ReactNode;
 };
 
 export const KanbanProvider = <
@@ -338,6 +340,7 @@ export const KanbanProvider = <
   columns,
   data,
   onDataChange,
+  renderLayout,
   ...props
 }: KanbanProviderProps<T, C>) => {
   const [activeCardId, setActiveCardId] = useState<string | null>(null);
@@ -489,16 +492,20 @@ export const KanbanProvider = <
         sensors={sensors}
         {...(props as any)}
       >
-        <div
-          className={cn(
-            'flex gap-4',
-            // Stack columns vertically on mobile for better scrolling
-            isMobile && 'flex-col',
-            className
-          )}
-        >
-          {columns.map((column) => children(column))}
-        </div>
+        {renderLayout ? (
+          <div className={className}>{renderLayout(children)}</div>
+        ) : (
+          <div
+            className={cn(
+              'flex gap-4',
+              // Stack columns vertically on mobile for better scrolling
+              isMobile && 'flex-col',
+              className
+            )}
+          >
+            {columns.map((column) => children(column))}
+          </div>
+        )}
         <DragOverlayPortal />
       </DndContext>
     </KanbanContext.Provider>
@@ -24,10 +24,13 @@ interface AnnotationContextType {
 		startChar: number,
 		endLine: number,
 		endChar: number,
-	) => Annotation;
+	) => Promise<Annotation | null>;
 	update: (id: string, changes: Partial<Pick<Annotation, "content" | "type">>) => void;
+	/** Append to an annotation's thread; resolves false when the reply was rejected. */
+	reply: (id: string, content: string) => Promise<boolean>;
+	setResolved: (id: string, resolved: boolean) => void;
 	remove: (id: string) => void;
-	clearAll: () => void;
+	clearResolved: () => void;
 	getByDoc: (docPath: string) => Annotation[];
 	docPaths: () => string[];
 
@@ -43,7 +46,7 @@ interface AnnotationContextType {
 	bubblePosition: BubblePosition;
 	setBubblePosition: (pos: BubblePosition) => void;
 
-	// Serialization
+	// Serialization of open annotations
 	copyAllToClipboard: () => Promise<boolean>;
 }
 
@@ -84,7 +87,7 @@ export function AnnotationProvider({ children }: { children: ReactNode }) {
 	}, []);
 
 	const copyAllToClipboard = useCallback(async (): Promise<boolean> => {
-		const md = serializeAnnotations(store.annotations);
+		const md = serializeAnnotations(store.annotations.filter((a) => !a.resolved));
 		if (!md) return false;
 		try {
 			await navigator.clipboard.writeText(md);
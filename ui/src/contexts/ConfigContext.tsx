@@ -1,6 +1,7 @@
 import { createContext, useCallback, useContext, useEffect, useRef, useState, type ReactNode } from "react";
 import { getConfig, patchConfig } from "../api/client";
 import type { OpenCodeModelSettings } from "../models/chat";
+import type { ColumnPolicies } from "../lib/columnPolicy";
 import {
 	DEFAULT_TASK_LIFECYCLE_SETTINGS,
 	type TaskLifecycleSettings,
@@ -34,6 +35,7 @@ export interface Config {
 	visibleColumns?: string[];
 	statuses?: string[];
 	statusColors?: Record<string, string>;
+	columnPolicies?: ColumnPolicies;
 	phaseAgentDefaults?: Record<string, string>;
 	opencodeServer?: {
 		host?: string;
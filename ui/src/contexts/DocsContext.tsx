@@ -15,8 +15,6 @@ interface DocsContextType {
 	selectDocByPath: (path: string) => void;
 	isEditing: boolean;
 	setIsEditing: (editing: boolean) => void;
-	editedContent: string;
-	setEditedContent: (content: string) => void;
 	linkedTasks: Task[];
 	showSpecsOnly: boolean;
 	setShowSpecsOnly: (show: boolean) => void;
@@ -36,7 +34,6 @@ export function DocsProvider({ children }: { children: React.ReactNode }) {
 	const [error, setError] = useState<string | null>(null);
 	const [selectedDoc, setSelectedDocState] = useState<Doc | null>(null);
 	const [isEditing, setIsEditing] = useState(false);
-	const [editedContent, setEditedContent] = useState("");
 	const [linkedTasks, setLinkedTasks] = useState<Task[]>([]);
 	const [linkedTasksExpanded, setLinkedTasksExpanded] = useState(false);
 	const [showSpecsOnly, setShowSpecsOnlyState] = useState(() => {
@@ -201,8 +198,6 @@ export function DocsProvider({ children }: { children: React.ReactNode }) {
 			selectDocByPath,
 			isEditing,
 			setIsEditing,
-			editedContent,
-			setEditedContent,
 			linkedTasks,
 			showSpecsOnly,
 			setShowSpecsOnly,
@@ -214,7 +209,7 @@ export function DocsProvider({ children }: { children: React.ReactNode }) {
 		}),
 		[
 			docs, loading, error, selectedDoc, setSelectedDoc, selectDocByPath,
-			isEditing, editedContent, linkedTasks, showSpecsOnly, setShowSpecsOnly,
+			isEditing, linkedTasks, showSpecsOnly, setShowSpecsOnly,
 			linkedTasksExpanded, loadDocs, currentFolder, navigateToFolder,
 		]
 	);
@@ -0,0 +1,99 @@
+import { createContext, useContext, useState, useEffect, useCallback, type ReactNode } from "react";
+import { offlineSyncApi, type OfflineConflictResolution } from "../api/client";
+import type { OfflineMutation, OfflineTaskUpdate } from "../lib/offlineCache";
+import { useSSEEvent } from "./SSEContext";
+import { toast } from "../components/ui/sonner";
+
+/**
+ * Offline Sync Context
+ * Tracks the offline outbox and replays it when the SSE connection comes back.
+ * Queued task updates that lost a race with a newer server write, or that the
+ * server refused, surface as conflicts for OfflineConflictDialog.
+ */
+
+interface OfflineSyncContextType {
+	/** Queued mutations waiting for the server (conflicts included). */
+	pending: OfflineMutation[];
+	conflicts: OfflineTaskUpdate[];
+	syncing: boolean;
+	sync: () => Promise<void>;
+	resolveConflict: (mutationId: string, resolution: OfflineConflictResolution) => Promise<void>;
+}
+
+const OfflineSyncContext = createContext<OfflineSyncContextType | undefined>(undefined);
+
+export function OfflineSyncProvider({ children }: { children: ReactNode }) {
+	const [pending, setPending] = useState<OfflineMutation[]>([]);
+	const [syncing, setSyncing] = useState(false);
+
+	const refreshPending = useCallback(async () => {
+		setPending(await offlineSyncApi.listOutbox());
+	}, []);
+
+	useEffect(() => {
+		void refreshPending();
+		return offlineSyncApi.onOutboxChange(() => {
+			void refreshPending();
+		});
+	}, [refreshPending]);
+
+	const sync = useCallback(async () => {
+		if ((await offlineSyncApi.listOutbox()).length === 0) return;
+		setSyncing(true);
+		try {
+			const result = await offlineSyncApi.replay();
+			if (result.applied > 0) {
+				toast.success(`Synced ${result.applied} offline change${result.applied === 1 ? "" : "s"}`);
+			}
+			if (result.failed > 0) {
+				toast.error(`${result.failed} offline change${result.failed === 1 ? " was" : "s were"} rejected by the server`, {
+					description: result.errors.join("\n"),
+				});
+			}
+			if (result.rejected > 0) {
+				toast.warning(`${result.rejected} offline edit${result.rejected === 1 ? " was" : "s were"} rejected by the server; review before retrying`);
+			}
+			if (result.conflicts > 0) {
+				toast.warning(`${result.conflicts} offline change${result.conflicts === 1 ? "" : "s"} conflict with newer server edits`);
+			}
+		} catch (error) {
+			console.error("[offline] Failed to replay outbox:", error);
+		} finally {
+			setSyncing(false);
+		}
+	}, []);
+
+	// The server sends "connected" on every (re)connect, including the first one
+	// after a page reload, so edits queued in an earlier session replay too.
+	useSSEEvent("connected", () => {
+		void sync();
+	}, [sync]);
+
+	const resolveConflict = useCallback(async (mutationId: string, resolution: OfflineConflictResolution) => {
+		try {
+			await offlineSyncApi.resolveConflict(mutationId, resolution);
+		} catch (error) {
+			toast.error("Failed to resolve conflict", {
+				description: error instanceof Error ? error.message : "Unknown error",
+			});
+		}
+	}, []);
+
+	const conflicts = pending.filter(
+		(item): item is OfflineTaskUpdate => item.kind === "update" && !!item.conflict,
+	);
+
+	return (
+		<OfflineSyncContext.Provider value={{ pending, conflicts, syncing, sync, resolveConflict }}>
+			{children}
+		</OfflineSyncContext.Provider>
+	);
+}
+
+export function useOfflineSync() {
+	const context = useContext(OfflineSyncContext);
+	if (context === undefined) {
+		throw new Error("useOfflineSync must be used within an OfflineSyncProvider");
+	}
+	return context;
+}
@@ -12,8 +12,22 @@
 import { createContext, useContext, useEffect, useRef, useState, useCallback, type ReactNode } from "react";
 import type { Task } from "@/ui/models/task";
 import type { ChatSession, ChatMessage } from "@/ui/models/chat";
-import type { ActiveTimer } from "../api/client";
+import type {
+	ActiveTimer,
+	AuditEvent,
+	DecisionEntry,
+	DecisionReviewResult,
+	DocChangeScope,
+	Import,
+	MemoryEntry,
+	MemoryExpiryResult,
+	MemoryReviewResult,
+	Milestone,
+} from "../api/client";
 import type { TaskLifecycleEvent } from "../models/taskLifecycle";
+import type { Annotation } from "../types/annotation";
+import type { CollabOp } from "../lib/collab/rga";
+import type { CollabPeer } from "../lib/collab/presence";
 import { toast } from "../components/ui/sonner";
 
 // Event types that can be received from server
@@ -30,6 +44,25 @@ export type SSEEventType =
 	| "time:refresh"
 	| "docs:updated"
 	| "docs:refresh"
+	| "docs:collab"
+	| "docs:presence"
+	| "memories:created"
+	| "memories:updated"
+	| "memories:deleted"
+	| "memories:expiry-sweep"
+	| "decisions:created"
+	| "decisions:updated"
+	| "milestones:updated"
+	| "milestones:deleted"
+	| "annotations:updated"
+	| "annotations:deleted"
+	| "imports:added"
+	| "imports:removed"
+	| "imports:sync-started"
+	| "imports:sync-completed"
+	| "imports:sync-failed"
+	| "imports:sync-all"
+	| "audit:event"
 	| "refresh"
 	| "chats:created"
 	| "chats:updated"
@@ -40,7 +73,12 @@ export type SSEEventType =
 
 // Event payload types
 export interface SSEEventPayloads {
-	connected: { timestamp: number };
+	/**
+	 * Sent on every (re)connect. After a reconnect the server replays missed
+	 * events right after this one; resync means the gap could not be replayed
+	 * (replay buffer rolled over or the server restarted).
+	 */
+	connected: { timestamp: number; resync?: boolean; replayed?: number };
 	"tasks:updated": { task: Task };
 	"tasks:refresh": Record<string, never>;
 	"tasks:archived": { task: Task };
@@ -50,8 +88,58 @@ export interface SSEEventPayloads {
 	"tasks:lifecycle-sweep": { result?: unknown; error?: string };
 	"time:updated": { active: ActiveTimer[] };
 	"time:refresh": Record<string, never>;
-	"docs:updated": { docPath: string };
+	"docs:updated": {
+		path: string;
+		oldPath?: string;
+		/** Latest retained revision; absent when the doc has no history yet. */
+		version?: number;
+		revisionId?: string;
+		actor?: string;
+		/** Everyone credited by a co-edited save. */
+		actors?: string[];
+		source?: string;
+		timestamp?: string;
+		changedScopes?: DocChangeScope[];
+	};
 	"docs:refresh": Record<string, never>;
+	/** Operations applied to a live editing session, in server order. */
+	"docs:collab": { path: string; clientId: string; sessionId: string; ops: CollabOp[] };
+	"docs:presence": { path: string; peers: CollabPeer[] };
+	"memories:created": { memory: MemoryEntry };
+	/** One of memory/memories is set; review resolutions also carry the result. */
+	"memories:updated": {
+		memory?: MemoryEntry;
+		memories?: MemoryEntry[];
+		result?: MemoryReviewResult;
+		bulk?: boolean;
+		count?: number;
+	};
+	"memories:deleted": { id: string };
+	"memories:expiry-sweep": { result?: MemoryExpiryResult; error?: string };
+	"decisions:created": { decision: DecisionEntry };
+	"decisions:updated": {
+		decisions: DecisionEntry[];
+		decision?: DecisionEntry;
+		superseded?: DecisionEntry;
+		current?: DecisionEntry;
+		result?: DecisionReviewResult;
+	};
+	"milestones:updated": { milestone: Milestone };
+	"milestones:deleted": { id: string };
+	"annotations:updated": { annotation: Annotation };
+	"annotations:deleted": { id: string; docPath: string };
+	"imports:added": { name: string; import: Import };
+	"imports:removed": { name: string };
+	"imports:sync-started": { name: string };
+	"imports:sync-completed": {
+		name: string;
+		import: Import;
+		upToDate: boolean;
+		summary?: { added: number; updated: number; skipped: number; warnings?: string[] };
+	};
+	"imports:sync-failed": { name: string; error: string };
+	"imports:sync-all": { total: number; successful: number; failed: number };
+	"audit:event": { event: AuditEvent };
 	"refresh": { full?: boolean; reason?: string };
 	"chats:created": { session: ChatSession };
 	"chats:updated": { session: ChatSession };
@@ -166,64 +254,65 @@ export function SSEProvider({ children }: { children: ReactNode }) {
 			handlers.length = 0;
 		};
 
+		const handleReconnect = (data: SSEEventPayloads["connected"]) => {
+			// Calculate disconnect duration
+			const disconnectDuration = disconnectStartTimeRef.current
+				? Date.now() - disconnectStartTimeRef.current
+				: 0;
+			disconnectStartTimeRef.current = null;
+
+			// Dismiss disconnect toast
+			if (disconnectToastIdRef.current) {
+				toast.dismiss(disconnectToastIdRef.current);
+				disconnectToastIdRef.current = null;
+			}
+
+			if (!data.resync) {
+				console.log(`[SSE] Reconnected - replaying ${data.replayed ?? 0} missed events`);
+				return;
+			}
+
+			console.log("[SSE] Reconnected - replay unavailable, triggering data refresh");
+
+			// If disconnected for too long, ask user if they want to reload
+			if (disconnectDuration > LONG_DISCONNECT_THRESHOLD_MS) {
+				const durationSecs = Math.round(disconnectDuration / 1000);
+				toast("Back online", {
+					description: `You were offline for ${durationSecs}s. Reload to ensure all data is up to date?`,
+					duration: 10000,
+					position: "top-center",
+					className: "bg-emerald-50 dark:bg-emerald-950 border-emerald-200 dark:border-emerald-800",
+					action: {
+						label: "Reload",
+						onClick: () => {
+							window.location.reload();
+						},
+					},
+					icon: (
+						<svg className="w-4 h-4 text-emerald-600 dark:text-emerald-400" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+							<path d="M12 20h.01" />
+							<path d="M2 8.82a15 15 0 0 1 20 0" />
+							<path d="M5 12.859a10 10 0 0 1 14 0" />
+							<path d="M8.5 16.429a5 5 0 0 1 7 0" />
+						</svg>
+					),
+				});
+			}
+
+			// Soft refresh (refetch data) after the replay window was lost
+			setTimeout(() => {
+				emit("tasks:refresh", {});
+				emit("time:refresh", {});
+				emit("docs:refresh", {});
+			}, 100);
+		};
+
 		const connect = () => {
 			const eventSource = new EventSource(sseUrl);
 			eventSourceRef.current = eventSource;
 
 			eventSource.onopen = () => {
 				setIsConnected(true);
-
-				// If we were connected before, this is a RECONNECT
-				// Trigger refresh events so components can refetch data they may have missed
-				if (wasConnectedRef.current) {
-					console.log("[SSE] Reconnected - triggering data refresh");
-
-					// Calculate disconnect duration
-					const disconnectDuration = disconnectStartTimeRef.current
-						? Date.now() - disconnectStartTimeRef.current
-						: 0;
-					disconnectStartTimeRef.current = null;
-
-					// Dismiss disconnect toast
-					if (disconnectToastIdRef.current) {
-						toast.dismiss(disconnectToastIdRef.current);
-						disconnectToastIdRef.current = null;
-					}
-
-					// If disconnected for too long, ask user if they want to reload
-					if (disconnectDuration > LONG_DISCONNECT_THRESHOLD_MS) {
-						const durationSecs = Math.round(disconnectDuration / 1000);
-						toast("Back online", {
-							description: `You were offline for ${durationSecs}s. Reload to ensure all data is up to date?`,
-							duration: 10000,
-							position: "top-center",
-							className: "bg-emerald-50 dark:bg-emerald-950 border-emerald-200 dark:border-emerald-800",
-							action: {
-								label: "Reload",
-								onClick: () => {
-									window.location.reload();
-								},
-							},
-							icon: (
-								<svg className="w-4 h-4 text-emerald-600 dark:text-emerald-400" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
-									<path d="M12 20h.01" />
-									<path d="M2 8.82a15 15 0 0 1 20 0" />
-									<path d="M5 12.859a10 10 0 0 1 14 0" />
-									<path d="M8.5 16.429a5 5 0 0 1 7 0" />
-								</svg>
-							),
-						});
-					}
-					// Short disconnects: silently reconnect without notification
-
-					// Always do soft refresh (refetch data)
-					setTimeout(() => {
-						emit("tasks:refresh", {});
-						emit("time:refresh", {});
-						emit("docs:refresh", {});
-					}, 100);
-				}
-				wasConnectedRef.current = true;
 			};
 
 			eventSource.onerror = () => {
@@ -242,7 +331,13 @@ export function SSEProvider({ children }: { children: ReactNode }) {
 
 			// Register all event handlers with proper tracking for cleanup
 			addHandler(eventSource, "connected", (e) => {
-				const data = JSON.parse(e.data);
+				const data = JSON.parse(e.data) as SSEEventPayloads["connected"];
+				// EventSource resends the last seen event id as Last-Event-ID on
+				// reconnect, so the server replays whatever was missed.
+				if (wasConnectedRef.current) {
+					handleReconnect(data);
+				}
+				wasConnectedRef.current = true;
 				emit("connected", data);
 			});
 
@@ -317,6 +412,32 @@ export function SSEProvider({ children }: { children: ReactNode }) {
 				emit("docs:refresh", data);
 			});
 
+			for (const event of [
+				"docs:collab",
+				"docs:presence",
+				"memories:created",
+				"memories:updated",
+				"memories:deleted",
+				"memories:expiry-sweep",
+				"decisions:created",
+				"decisions:updated",
+				"milestones:updated",
+				"milestones:deleted",
+				"annotations:updated",
+				"annotations:deleted",
+				"imports:added",
+				"imports:removed",
+				"imports:sync-started",
+				"imports:sync-completed",
+				"imports:sync-failed",
+				"imports:sync-all",
+				"audit:event",
+			] as const) {
+				addHandler(eventSource, event, (e) => {
+					emit(event, JSON.parse(e.data));
+				});
+			}
+
 			addHandler(eventSource, "refresh", () => {
 				emit("tasks:refresh", {});
 				emit("time:refresh", {});
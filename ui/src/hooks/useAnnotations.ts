@@ -1,62 +1,136 @@
-import { useState, useCallback, useEffect } from "react";
-import type { Annotation } from "../types/annotation";
+import { useState, useCallback, useEffect, useRef } from "react";
+import { annotationApi } from "../api/client";
+import { toast } from "../components/ui/sonner";
+import { useCurrentUser } from "../contexts/UserContext";
+import { useSSEEvent } from "../contexts/SSEContext";
+import type { Annotation, AnnotationInput } from "../types/annotation";
 
-const STORAGE_KEY = "knowns-annotations-v1";
-const MAX_ANNOTATIONS = 500;
+/** Where annotations lived before they moved to the server. */
+const LEGACY_STORAGE_KEY = "knowns-annotations-v1";
 
-/** Generate a short random id. */
-function nanoid(): string {
-	return Math.random().toString(36).slice(2, 10) + Date.now().toString(36).slice(-4);
+let legacyMigration: Promise<void> | null = null;
+
+/**
+ * Upload annotations left in localStorage by older versions, then drop the
+ * ones that made it. Runs once per page load; failures stay for the next one.
+ */
+function migrateLegacyAnnotations(author: string): Promise<void> {
+	legacyMigration ??= uploadLegacyAnnotations(author);
+	return legacyMigration;
 }
 
-function loadAnnotations(): Annotation[] {
+async function uploadLegacyAnnotations(author: string): Promise<void> {
+	let legacy: AnnotationInput[];
 	try {
-		const raw = localStorage.getItem(STORAGE_KEY);
-		if (raw) return JSON.parse(raw) as Annotation[];
+		const raw = localStorage.getItem(LEGACY_STORAGE_KEY);
+		if (!raw) return;
+		legacy = JSON.parse(raw) as AnnotationInput[];
 	} catch {
-		// ignore
+		return;
+	}
+	const failed: AnnotationInput[] = [];
+	for (const item of legacy) {
+		try {
+			await annotationApi.create({
+				docPath: item.docPath,
+				selectedText: item.selectedText,
+				type: item.type,
+				content: item.content,
+				author: item.author || author,
+				contextBefore: item.contextBefore,
+				contextAfter: item.contextAfter,
+				startLine: item.startLine,
+				startChar: item.startChar,
+				endLine: item.endLine,
+				endChar: item.endChar,
+			});
+		} catch {
+			failed.push(item);
+		}
 	}
-	return [];
-}
-
-function saveAnnotations(annotations: Annotation[]): void {
 	try {
-		localStorage.setItem(STORAGE_KEY, JSON.stringify(annotations));
+		if (failed.length > 0) localStorage.setItem(LEGACY_STORAGE_KEY, JSON.stringify(failed));
+		else localStorage.removeItem(LEGACY_STORAGE_KEY);
 	} catch {
 		// ignore
 	}
 }
 
+function stripMd(path: string): string {
+	return path.replace(/\.md$/, "");
+}
+
 /**
- * Core annotation CRUD hook backed by LocalStorage.
- * Max 500 annotations — oldest auto-pruned when exceeded.
- * Syncs across tabs via storage event.
+ * Annotation threads for every doc, stored on the server and kept in sync
+ * through SSE. Changes apply optimistically and roll back by reloading when
+ * the server rejects them. The server re-anchors a doc's annotations each
+ * time they are listed, so a doc save reloads that doc's annotations.
  */
 export function useAnnotations() {
-	const [annotations, setAnnotations] = useState<Annotation[]>(loadAnnotations);
+	const { currentUser } = useCurrentUser();
+	const [annotations, setAnnotations] = useState<Annotation[]>([]);
+	const annotationsRef = useRef(annotations);
+	annotationsRef.current = annotations;
+	const userRef = useRef(currentUser);
+	userRef.current = currentUser;
 
-	// Cross-tab sync: listen for storage changes from other tabs
-	useEffect(() => {
-		const handleStorage = (e: StorageEvent) => {
-			if (e.key === STORAGE_KEY) {
-				setAnnotations(loadAnnotations());
-			}
-		};
-		window.addEventListener("storage", handleStorage);
-		return () => window.removeEventListener("storage", handleStorage);
+	const upsert = useCallback((annotation: Annotation) => {
+		setAnnotations((prev) => {
+			const index = prev.findIndex((a) => a.id === annotation.id);
+			if (index === -1) return [...prev, annotation];
+			const next = [...prev];
+			next[index] = annotation;
+			return next;
+		});
 	}, []);
 
-	const persist = useCallback((next: Annotation[]) => {
-		// Enforce cap — prune oldest first
-		const capped = next.length > MAX_ANNOTATIONS
-			? next.slice(next.length - MAX_ANNOTATIONS)
-			: next;
-		saveAnnotations(capped);
-		setAnnotations(capped);
+	const reload = useCallback(async () => {
+		try {
+			setAnnotations(await annotationApi.list());
+		} catch (err) {
+			console.error("Failed to load annotations:", err);
+		}
 	}, []);
 
+	const reloadDoc = useCallback(async (docPath: string) => {
+		try {
+			const fresh = await annotationApi.list(docPath);
+			setAnnotations((prev) => [...prev.filter((a) => a.docPath !== docPath), ...fresh]);
+		} catch (err) {
+			console.error(`Failed to load annotations for ${docPath}:`, err);
+		}
+	}, []);
+
+	useEffect(() => {
+		void migrateLegacyAnnotations(userRef.current).then(reload);
+	}, [reload]);
+
+	useSSEEvent("annotations:updated", ({ annotation }) => upsert(annotation), [upsert]);
+
+	useSSEEvent("annotations:deleted", ({ id }) => {
+		setAnnotations((prev) => prev.filter((a) => a.id !== id));
+	});
+
+	useSSEEvent("docs:updated", ({ path, oldPath }) => {
+		if (oldPath) {
+			void reload();
+			return;
+		}
+		const docPath = stripMd(path);
+		if (annotationsRef.current.some((a) => a.docPath === docPath)) void reloadDoc(docPath);
+	}, [reload, reloadDoc]);
+
+	useSSEEvent("refresh", () => {
+		void reload();
+	}, [reload]);
+
+	const fail = useCallback((message: string, err: unknown) => {
+		toast.error(err instanceof Error ? err.message : message);
+		void reload();
+	}, [reload]);
+
 	const add = useCallback(
-		(
+		async (
 			docPath: string,
 			selectedText: string,
 			type: Annotation["type"],
@@ -67,56 +141,74 @@ export function useAnnotations() {
 			startChar: number,
 			endLine: number,
 			endChar: number,
-		): Annotation => {
-			const annotation: Annotation = {
-				id: nanoid(),
-				docPath,
-				selectedText,
-				type,
-				content,
-				createdAt: Date.now(),
-				contextBefore,
-				contextAfter,
-				startLine,
-				startChar,
-				endLine,
-				endChar,
-			};
-			setAnnotations((prev) => {
-				const next = [...prev, annotation];
-				persist(next);
-				return next.length > MAX_ANNOTATIONS ? next.slice(next.length - MAX_ANNOTATIONS) : next;
-			});
-			return annotation;
+		): Promise<Annotation | null> => {
+			try {
+				const annotation = await annotationApi.create({
+					docPath,
+					selectedText,
+					type,
+					content,
+					author: currentUser,
+					contextBefore,
+					contextAfter,
+					startLine,
+					startChar,
+					endLine,
+					endChar,
+				});
+				upsert(annotation);
+				return annotation;
+			} catch (err) {
+				fail("Failed to save annotation", err);
+				return null;
+			}
 		},
-		[persist],
+		[currentUser, upsert, fail],
 	);
 
 	const update = useCallback(
 		(id: string, changes: Partial<Pick<Annotation, "content" | "type">>) => {
-			setAnnotations((prev) => {
-				const next = prev.map((a) => (a.id === id ? { ...a, ...changes } : a));
-				persist(next);
-				return next;
-			});
+			setAnnotations((prev) => prev.map((a) => (a.id === id ? { ...a, ...changes } : a)));
+			annotationApi.update(id, changes).then(upsert, (err) => fail("Failed to update annotation", err));
 		},
-		[persist],
+		[upsert, fail],
+	);
+
+	const reply = useCallback(
+		async (id: string, content: string): Promise<boolean> => {
+			try {
+				upsert(await annotationApi.reply(id, content, currentUser));
+				return true;
+			} catch (err) {
+				fail("Failed to reply", err);
+				return false;
+			}
+		},
+		[currentUser, upsert, fail],
+	);
+
+	const setResolved = useCallback(
+		(id: string, resolved: boolean) => {
+			setAnnotations((prev) =>
+				prev.map((a) => (a.id === id ? { ...a, resolved, resolvedBy: resolved ? currentUser : undefined } : a)),
+			);
+			annotationApi.resolve(id, resolved, currentUser).then(upsert, (err) => fail("Failed to resolve annotation", err));
+		},
+		[currentUser, upsert, fail],
 	);
 
 	const remove = useCallback(
 		(id: string) => {
-			setAnnotations((prev) => {
-				const next = prev.filter((a) => a.id !== id);
-				persist(next);
-				return next;
-			});
+			setAnnotations((prev) => prev.filter((a) => a.id !== id));
+			annotationApi.delete(id).catch((err) => fail("Failed to delete annotation", err));
 		},
-		[persist],
+		[fail],
 	);
 
-	const clearAll = useCallback(() => {
-		persist([]);
-	}, [persist]);
+	const clearResolved = useCallback(() => {
+		setAnnotations((prev) => prev.filter((a) => !a.resolved));
+		annotationApi.clearResolved().catch((err) => fail("Failed to clear resolved annotations", err));
+	}, [fail]);
 
 	const getByDoc = useCallback(
 		(docPath: string): Annotation[] => {
@@ -129,5 +221,5 @@ export function useAnnotations() {
 		return [...new Set(annotations.map((a) => a.docPath))];
 	}, [annotations]);
 
-	return { annotations, add, update, remove, clearAll, getByDoc, docPaths };
+	return { annotations, add, update, reply, setResolved, remove, clearResolved, getByDoc, docPaths };
 }
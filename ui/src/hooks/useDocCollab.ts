@@ -0,0 +1,288 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { docCollabApi, DocCollabSessionError, type Doc } from "../api/client";
+import { useSSEEvent } from "../contexts/SSEContext";
+import { toast } from "../components/ui/sonner";
+import { CollabDoc, diffToOps, type CollabOp } from "../lib/collab/rga";
+import { sameDocPath, type CollabPeer } from "../lib/collab/presence";
+import { normalizePathForAPI } from "../lib/utils";
+
+const HEARTBEAT_MS = 15_000;
+const CURSOR_THROTTLE_MS = 250;
+
+export interface RemoteCursor {
+	clientId: string;
+	user: string;
+	/** UTF-16 offsets into the current text. */
+	anchor: number;
+	head: number;
+}
+
+function newClientId(): string {
+	return typeof crypto !== "undefined" && "randomUUID" in crypto
+		? crypto.randomUUID()
+		: `c-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+/**
+ * Presence for a doc and, while editing, its live CRDT session. Local edits
+ * go through setText and are sent to the server in order; remote operations
+ * arrive over SSE as docs:collab. Saving writes the merged text server-side,
+ * so concurrent editors' changes are kept instead of overwritten.
+ */
+export function useDocCollab(path: string | null, editing: boolean, user: string) {
+	const apiPath = path ? normalizePathForAPI(path) : null;
+
+	const clientIdRef = useRef("");
+	const pathRef = useRef<string | null>(null);
+	const userRef = useRef(user);
+	const editingRef = useRef(editing);
+	const docRef = useRef<CollabDoc | null>(null);
+	const sessionRef = useRef<string | null>(null);
+	const queueRef = useRef<CollabOp[]>([]);
+	const inflightRef = useRef<Promise<void> | null>(null);
+	const generationRef = useRef(0);
+	const textareaRef = useRef<HTMLTextAreaElement | null>(null);
+	// Where the textarea's text starts in the doc; block editors show one
+	// block at a time.
+	const textareaOffsetRef = useRef<() => number>(() => 0);
+	const restoreSelectionRef = useRef<{ start: number; end: number } | null>(null);
+	const cursorTimerRef = useRef<number | null>(null);
+
+	const [text, setTextState] = useState("");
+	const [ready, setReady] = useState(false);
+	const [peers, setPeers] = useState<CollabPeer[]>([]);
+
+	userRef.current = user;
+
+	const request = useCallback(() => ({ clientId: clientIdRef.current, user: userRef.current }), []);
+
+	const currentCursor = useCallback(() => {
+		const doc = docRef.current;
+		const ta = textareaRef.current;
+		if (!doc || !ta) return undefined;
+		const offset = textareaOffsetRef.current();
+		return { anchor: doc.idBefore(offset + ta.selectionStart), head: doc.idBefore(offset + ta.selectionEnd) };
+	}, []);
+
+	const sendPresence = useCallback(() => {
+		const target = pathRef.current;
+		if (!target) return;
+		docCollabApi
+			.presence(target, { ...request(), editing: editingRef.current, cursor: currentCursor() })
+			.then(({ peers }) => setPeers(peers))
+			.catch(() => {});
+	}, [currentCursor, request]);
+
+	const sendCursorSoon = useCallback(() => {
+		if (cursorTimerRef.current !== null) return;
+		cursorTimerRef.current = window.setTimeout(() => {
+			cursorTimerRef.current = null;
+			sendPresence();
+		}, CURSOR_THROTTLE_MS);
+	}, [sendPresence]);
+
+	/**
+	 * (Re)joins the doc. With keepLocal, the text this tab had is re-applied on
+	 * top of the fresh session, for when the server lost operations it had not
+	 * acknowledged yet.
+	 */
+	const join = useCallback(
+		async (keepLocal: boolean) => {
+			const target = pathRef.current;
+			if (!target) return;
+			const generation = generationRef.current;
+			const local = keepLocal ? docRef.current?.text() : undefined;
+			const result = await docCollabApi.join(target, { ...request(), editing: editingRef.current });
+			if (generation !== generationRef.current) return;
+			setPeers(result.peers);
+			if (!result.snapshot || !result.sessionId) return;
+
+			const doc = CollabDoc.fromSnapshot(result.snapshot);
+			docRef.current = doc;
+			sessionRef.current = result.sessionId;
+			queueRef.current = local !== undefined ? diffToOps(doc, clientIdRef.current, doc.text(), local) : [];
+			setTextState(doc.text());
+			setReady(true);
+		},
+		[request],
+	);
+
+	const flush = useCallback((): Promise<void> => {
+		if (inflightRef.current) return inflightRef.current;
+		const run = async () => {
+			while (queueRef.current.length > 0 && pathRef.current) {
+				const ops = queueRef.current;
+				queueRef.current = [];
+				try {
+					await docCollabApi.ops(pathRef.current, { ...request(), sessionId: sessionRef.current ?? "", ops });
+				} catch (err) {
+					if (!(err instanceof DocCollabSessionError)) console.error("Failed to send edits:", err);
+					try {
+						queueRef.current = [...ops, ...queueRef.current];
+						await join(true);
+					} catch {
+						toast.error("Live editing disconnected; your changes will be sent when it reconnects.");
+						return;
+					}
+				}
+			}
+		};
+		const promise = run().finally(() => {
+			inflightRef.current = null;
+		});
+		inflightRef.current = promise;
+		return promise;
+	}, [join, request]);
+
+	// Join on open, heartbeat while open, leave on close. Each open uses a
+	// fresh client ID so a late leave never removes the next join.
+	useEffect(() => {
+		if (!apiPath) return;
+		const generation = ++generationRef.current;
+		clientIdRef.current = newClientId();
+		pathRef.current = apiPath;
+		editingRef.current = editing;
+		docRef.current = null;
+		sessionRef.current = null;
+		queueRef.current = [];
+		setReady(false);
+
+		join(false).catch((err) => {
+			if (generation !== generationRef.current) return;
+			console.error("Failed to join doc session:", err);
+			if (editing) toast.error(err instanceof Error ? err.message : "Failed to start live editing");
+		});
+		const heartbeat = window.setInterval(sendPresence, HEARTBEAT_MS);
+		const leave = () => {
+			void docCollabApi.leave(apiPath, request()).catch(() => {});
+		};
+		window.addEventListener("pagehide", leave);
+		return () => {
+			generationRef.current++;
+			window.clearInterval(heartbeat);
+			window.removeEventListener("pagehide", leave);
+			leave();
+			pathRef.current = null;
+			docRef.current = null;
+			sessionRef.current = null;
+			setPeers([]);
+			setReady(false);
+		};
+	}, [apiPath, editing, join, request, sendPresence]);
+
+	useSSEEvent("docs:presence", (data) => {
+		if (pathRef.current && sameDocPath(data.path, pathRef.current)) setPeers(data.peers);
+	});
+
+	useSSEEvent("docs:collab", (data) => {
+		const doc = docRef.current;
+		if (!doc || !pathRef.current || !sameDocPath(data.path, pathRef.current)) return;
+		if (data.sessionId !== sessionRef.current || data.clientId === clientIdRef.current) return;
+
+		const ta = textareaRef.current;
+		const focused = ta !== null && document.activeElement === ta;
+		const offset = textareaOffsetRef.current();
+		const selection = focused
+			? { start: doc.idBefore(offset + ta.selectionStart), end: doc.idBefore(offset + ta.selectionEnd) }
+			: null;
+		try {
+			for (const op of data.ops) doc.apply(op);
+		} catch (err) {
+			console.error("Out-of-order edit, resyncing:", err);
+			void flush().then(() => join(false));
+			return;
+		}
+		if (selection) {
+			restoreSelectionRef.current = { start: doc.offsetAfter(selection.start), end: doc.offsetAfter(selection.end) };
+		}
+		setTextState(doc.text());
+	});
+
+	// Operations are not replayed after an SSE reconnect, so any sent while
+	// the stream was down are lost; start over from the server.
+	const rejoin = useCallback(() => {
+		if (docRef.current) void flush().then(() => join(false));
+	}, [flush, join]);
+	useSSEEvent("connected", rejoin, [rejoin]);
+	useSSEEvent("docs:refresh", rejoin, [rejoin]);
+
+	// Remote edits re-render the textarea, which moves the caret; put it back
+	// where it was relative to the surrounding text.
+	useEffect(() => {
+		const selection = restoreSelectionRef.current;
+		if (!selection) return;
+		restoreSelectionRef.current = null;
+		const frame = window.requestAnimationFrame(() => {
+			const offset = textareaOffsetRef.current();
+			textareaRef.current?.setSelectionRange(Math.max(0, selection.start - offset), Math.max(0, selection.end - offset));
+		});
+		return () => window.cancelAnimationFrame(frame);
+	}, [text]);
+
+	const setText = useCallback(
+		(next: string) => {
+			const doc = docRef.current;
+			if (!doc) return;
+			const ops = diffToOps(doc, clientIdRef.current, doc.text(), next);
+			setTextState(doc.text());
+			if (ops.length > 0) {
+				queueRef.current.push(...ops);
+				void flush();
+			}
+			sendCursorSoon();
+		},
+		[flush, sendCursorSoon],
+	);
+
+	/**
+	 * Tracks the editor's selection for remote cursors. offset gives where the
+	 * textarea's text starts in the doc. Returns a cleanup.
+	 */
+	const bindTextarea = useCallback(
+		(ta: HTMLTextAreaElement | null, offset: () => number = () => 0) => {
+			textareaRef.current = ta;
+			textareaOffsetRef.current = offset;
+			if (!ta) return undefined;
+			const events = ["select", "keyup", "mouseup", "focus"] as const;
+			for (const event of events) ta.addEventListener(event, sendCursorSoon);
+			return () => {
+				for (const event of events) ta.removeEventListener(event, sendCursorSoon);
+				if (textareaRef.current === ta) textareaRef.current = null;
+			};
+		},
+		[sendCursorSoon],
+	);
+
+	const save = useCallback(async (): Promise<Doc> => {
+		const target = pathRef.current;
+		if (!target) throw new Error("No document open");
+		await flush();
+		try {
+			return await docCollabApi.save(target, { ...request(), sessionId: sessionRef.current ?? "" });
+		} catch (err) {
+			if (!(err instanceof DocCollabSessionError)) throw err;
+			await join(true);
+			await flush();
+			return docCollabApi.save(target, { ...request(), sessionId: sessionRef.current ?? "" });
+		}
+	}, [flush, join, request]);
+
+	const others = useMemo(() => peers.filter((peer) => peer.clientId !== clientIdRef.current), [peers]);
+
+	const remoteCursors = useMemo((): RemoteCursor[] => {
+		const doc = docRef.current;
+		if (!doc || !ready) return [];
+		return others
+			.filter((peer) => peer.editing && peer.cursor)
+			.map((peer) => ({
+				clientId: peer.clientId,
+				user: peer.user,
+				anchor: doc.offsetAfter(peer.cursor!.anchor),
+				head: doc.offsetAfter(peer.cursor!.head),
+			}));
+		// text changes move cursors even when peers do not
+		// eslint-disable-next-line react-hooks/exhaustive-deps
+	}, [others, ready, text]);
+
+	return { text, setText, ready, peers: others, remoteCursors, bindTextarea, save };
+}
@@ -0,0 +1,93 @@
+/**
+ * Hook to show desktop reminders for tasks assigned to the current user
+ * that are due today or overdue
+ */
+
+import { useEffect, useRef } from "react";
+import type { Task } from "../models/task";
+import { useCurrentUser } from "../contexts/UserContext";
+import { showBrowserNotification, getNotificationPermission } from "../lib/notifications";
+import { formatDueLabel, getDueState } from "../lib/taskDueDates";
+import { formatTaskDate } from "../lib/taskTimeline";
+
+const REMINDER_STORAGE_KEY = "knowns-due-reminders";
+const RECHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+// taskId -> day ("YYYY-MM-DD") the last reminder was shown
+type ReminderLog = Record<string, string>;
+
+function loadReminderLog(): ReminderLog {
+	try {
+		const raw = localStorage.getItem(REMINDER_STORAGE_KEY);
+		return raw ? (JSON.parse(raw) as ReminderLog) : {};
+	} catch {
+		return {};
+	}
+}
+
+function saveReminderLog(log: ReminderLog) {
+	try {
+		localStorage.setItem(REMINDER_STORAGE_KEY, JSON.stringify(log));
+	} catch {
+		// Ignore localStorage errors
+	}
+}
+
+function normalizeUser(value: string): string {
+	return value.replace(/^@/, "").toLowerCase();
+}
+
+function isAssignedTo(task: Task, currentUser: string): boolean {
+	if (!task.assignee) return false;
+	const assignee = task.assignee === "@me" ? currentUser : task.assignee;
+	return normalizeUser(assignee) === normalizeUser(currentUser);
+}
+
+export function useDueDateReminders(tasks: Task[], onOpenTask: (taskId: string) => void) {
+	const { currentUser } = useCurrentUser();
+	const tasksRef = useRef(tasks);
+	const onOpenTaskRef = useRef(onOpenTask);
+	tasksRef.current = tasks;
+	onOpenTaskRef.current = onOpenTask;
+
+	useEffect(() => {
+		const check = () => {
+			if (getNotificationPermission() !== "granted") return;
+			const now = new Date();
+			const today = formatTaskDate(now);
+			const log = loadReminderLog();
+			let changed = false;
+
+			for (const task of tasksRef.current) {
+				if (!isAssignedTo(task, currentUser)) continue;
+				const state = getDueState(task, now);
+				if (state !== "today" && state !== "overdue") continue;
+				// One reminder per task per day
+				if (log[task.id] === today) continue;
+
+				const shown = showBrowserNotification(`#${task.id} ${task.title}`, {
+					body: state === "today" ? "Due today" : `Due ${task.dueDate} (${formatDueLabel(task, now)})`,
+					tag: `knowns-due-${task.id}`,
+					onClick: () => onOpenTaskRef.current(task.id),
+				});
+				if (!shown) break;
+				log[task.id] = today;
+				changed = true;
+			}
+
+			// Forget tasks that no longer exist
+			const ids = new Set(tasksRef.current.map((task) => task.id));
+			for (const id of Object.keys(log)) {
+				if (!ids.has(id) && tasksRef.current.length > 0) {
+					delete log[id];
+					changed = true;
+				}
+			}
+			if (changed) saveReminderLog(log);
+		};
+
+		check();
+		const interval = window.setInterval(check, RECHECK_INTERVAL_MS);
+		return () => window.clearInterval(interval);
+	}, [tasks, currentUser]);
+}
@@ -0,0 +1,44 @@
+import { useCallback, useEffect, useState } from "react";
+import { milestoneApi, type Milestone } from "../api/client";
+import { useSSEEvent } from "../contexts/SSEContext";
+
+function byStartDate(a: Milestone, b: Milestone): number {
+	return a.startDate.localeCompare(b.startDate) || a.id.localeCompare(b.id);
+}
+
+/**
+ * Milestone list kept in sync with the server through SSE, ordered by
+ * start date like the server returns it.
+ */
+export function useMilestones() {
+	const [milestones, setMilestones] = useState<Milestone[]>([]);
+	const [loading, setLoading] = useState(true);
+
+	const reload = useCallback(async () => {
+		try {
+			setMilestones(await milestoneApi.list());
+		} catch (err) {
+			console.error("Failed to load milestones:", err);
+		} finally {
+			setLoading(false);
+		}
+	}, []);
+
+	useEffect(() => {
+		void reload();
+	}, [reload]);
+
+	useSSEEvent("milestones:updated", ({ milestone }) => {
+		setMilestones((prev) => [...prev.filter((m) => m.id !== milestone.id), milestone].sort(byStartDate));
+	});
+
+	useSSEEvent("milestones:deleted", ({ id }) => {
+		setMilestones((prev) => prev.filter((m) => m.id !== id));
+	});
+
+	useSSEEvent("refresh", () => {
+		void reload();
+	});
+
+	return { milestones, loading, reload };
+}
@@ -0,0 +1,208 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useRouterState } from "@tanstack/react-router";
+import type { Task, TaskView, TaskViewLayout } from "@/ui/models/task";
+import { getUserPreferences, saveUserPreferences } from "../api/client";
+import { navigateTo } from "../lib/navigation";
+import { filterTasksByQuery, parseTaskQuery, type ParsedTaskQuery } from "../lib/taskQuery";
+import { useCurrentUser } from "../contexts/UserContext";
+import { toast } from "../components/ui/sonner";
+
+const TASK_VIEW_PARAMS = ["q", "view", "layout"] as const;
+
+type TaskViewParam = (typeof TASK_VIEW_PARAMS)[number];
+
+/**
+ * Returns the task view part of the current search ("?q=…&view=…&layout=…"),
+ * so links between /tasks, /tasks/$id, /kanban and /kanban/$id keep the filter.
+ */
+export function taskViewSearch(search: Record<string, unknown>): string {
+	const params = new URLSearchParams();
+	for (const key of TASK_VIEW_PARAMS) {
+		const value = search[key];
+		if (value !== undefined && value !== null && value !== "") params.set(key, String(value));
+	}
+	const str = params.toString();
+	return str ? `?${str}` : "";
+}
+
+function basePath(layout: TaskViewLayout): string {
+	return layout === "kanban" ? "/kanban" : "/tasks";
+}
+
+function createViewId(name: string): string {
+	const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "").slice(0, 32);
+	return `${slug || "view"}-${Date.now().toString(36)}`;
+}
+
+export interface TaskViewState {
+	query: string;
+	parsed: ParsedTaskQuery;
+	layout: TaskViewLayout;
+	views: TaskView[];
+	activeView: TaskView | null;
+	/** The active view's query or layout was edited but not saved. */
+	modified: boolean;
+	setQuery: (query: string) => void;
+	setLayout: (layout: TaskViewLayout) => void;
+	applyView: (view: TaskView | null) => void;
+	saveView: (name: string) => Promise<void>;
+	updateView: (id: string) => Promise<void>;
+	deleteView: (id: string) => Promise<void>;
+	filterTasks: (tasks: Task[]) => Task[];
+}
+
+/**
+ * Task filter state for /tasks and /kanban. The query, selected saved view
+ * and layout live in the URL (?q=, ?view=, ?layout=) so they survive
+ * navigation and can be shared; saved views are stored in user preferences.
+ *
+ * A URL with ?view= but no ?q= uses the saved view's query; an explicit ?q=
+ * always wins so shared links work for users without that saved view.
+ */
+export function useTaskView(defaultLayout: TaskViewLayout): TaskViewState {
+	const location = useRouterState({ select: (state) => state.location });
+	const { currentUser } = useCurrentUser();
+	const [views, setViews] = useState<TaskView[]>([]);
+
+	useEffect(() => {
+		let cancelled = false;
+		getUserPreferences()
+			.then((prefs) => {
+				if (!cancelled && Array.isArray(prefs.taskViews)) setViews(prefs.taskViews as TaskView[]);
+			})
+			.catch((error) => console.error("Failed to load saved task views:", error));
+		return () => {
+			cancelled = true;
+		};
+	}, []);
+
+	const search = location.search as Record<string, unknown>;
+	const viewId = search.view !== undefined ? String(search.view) : null;
+	const activeView = views.find((view) => view.id === viewId) || null;
+	const query = search.q !== undefined ? String(search.q) : activeView?.query || "";
+	const layoutParam = search.layout !== undefined ? String(search.layout) : activeView?.layout;
+	const layout: TaskViewLayout =
+		defaultLayout === "kanban"
+			? "kanban"
+			: layoutParam === "grouped" || layoutParam === "timeline"
+				? layoutParam
+				: defaultLayout;
+	const modified = !!activeView && (query !== activeView.query || (!!activeView.layout && layout !== activeView.layout));
+
+	const parsed = useMemo(() => parseTaskQuery(query), [query]);
+
+	const updateSearch = useCallback(
+		(patch: Partial<Record<TaskViewParam, string | null>>, options?: { pathname?: string; replace?: boolean }) => {
+			const params = new URLSearchParams(taskViewSearch(location.search as Record<string, unknown>));
+			for (const [key, value] of Object.entries(patch)) {
+				if (value) params.set(key, value);
+				else params.delete(key);
+			}
+			const str = params.toString();
+			void navigateTo(`${options?.pathname || location.pathname}${str ? `?${str}` : ""}`, {
+				replace: options?.replace ?? true,
+			});
+		},
+		[location.pathname, location.search],
+	);
+
+	const setQuery = useCallback(
+		(next: string) => {
+			const trimmed = next.trim();
+			// Without ?q= the saved view's query applies again, so clearing the
+			// filter also leaves the view.
+			if (!trimmed && activeView?.query) updateSearch({ q: null, view: null });
+			else updateSearch({ q: trimmed || null });
+		},
+		[activeView, updateSearch],
+	);
+
+	const setLayout = useCallback(
+		(next: TaskViewLayout) => updateSearch({ layout: next === "table" ? null : next }),
+		[updateSearch],
+	);
+
+	const applyView = useCallback(
+		(view: TaskView | null) => {
+			if (!view) {
+				updateSearch({ view: null, q: null, layout: null }, { replace: false });
+				return;
+			}
+			const target = view.layout ? basePath(view.layout) : location.pathname.startsWith("/kanban") ? "/kanban" : "/tasks";
+			updateSearch(
+				{
+					view: view.id,
+					q: view.query || null,
+					layout: view.layout === "grouped" || view.layout === "timeline" ? view.layout : null,
+				},
+				{ pathname: target, replace: false },
+			);
+		},
+		[location.pathname, updateSearch],
+	);
+
+	const persist = useCallback(
+		async (next: TaskView[]) => {
+			const previous = views;
+			setViews(next);
+			try {
+				await saveUserPreferences({ taskViews: next });
+			} catch (error) {
+				setViews(previous);
+				toast.error("Failed to save task views", {
+					description: error instanceof Error ? error.message : "Unknown error",
+				});
+				throw error;
+			}
+		},
+		[views],
+	);
+
+	const saveView = useCallback(
+		async (name: string) => {
+			const now = new Date().toISOString();
+			const view: TaskView = { id: createViewId(name), name: name.trim(), query, layout, createdAt: now, updatedAt: now };
+			await persist([...views, view]);
+			updateSearch({ view: view.id });
+			toast.success(`Saved view "${view.name}"`);
+		},
+		[layout, persist, query, updateSearch, views],
+	);
+
+	const updateView = useCallback(
+		async (id: string) => {
+			const now = new Date().toISOString();
+			await persist(views.map((view) => (view.id === id ? { ...view, query, layout, updatedAt: now } : view)));
+		},
+		[layout, persist, query, views],
+	);
+
+	const deleteView = useCallback(
+		async (id: string) => {
+			await persist(views.filter((view) => view.id !== id));
+			if (id === viewId) updateSearch({ view: null });
+		},
+		[persist, updateSearch, viewId, views],
+	);
+
+	const filterTasks = useCallback(
+		(tasks: Task[]) => filterTasksByQuery(tasks, query, { currentUser }),
+		[query, currentUser],
+	);
+
+	return {
+		query,
+		parsed,
+		layout,
+		views,
+		activeView,
+		modified,
+		setQuery,
+		setLayout,
+		applyView,
+		saveView,
+		updateView,
+		deleteView,
+		filterTasks,
+	};
+}
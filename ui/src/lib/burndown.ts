@@ -0,0 +1,90 @@
+import type { Task } from "../models/task";
+import type { Milestone } from "../api/client";
+import { isTaskClosed } from "./taskDependencies";
+import { addDays, daysBetween, formatTaskDate, parseTaskDate, startOfDay } from "./taskTimeline";
+
+/**
+ * Burndown/burnup data for a milestone. Work is counted in acceptance
+ * criteria: a task weighs as many units as it has criteria (at least one).
+ * A done task burns all of its units on the day of its completedAt. Checked
+ * criteria of open tasks have no timestamp, so they count from today on.
+ * Scope is the current scope for every day; the history of scope changes
+ * is not recorded.
+ */
+
+export interface BurndownPoint {
+	date: string;
+	/** Total units planned in the milestone. */
+	scope: number;
+	/** Units completed by the end of the day; null for days after today. */
+	completed: number | null;
+	/** scope - completed; null for days after today. */
+	remaining: number | null;
+	/** Remaining units on a straight line from scope to zero. */
+	ideal: number;
+}
+
+export interface Burndown {
+	points: BurndownPoint[];
+	scope: number;
+	completed: number;
+	taskCount: number;
+	doneCount: number;
+}
+
+export function taskWorkUnits(task: Task): number {
+	return Math.max(1, task.acceptanceCriteria?.length ?? 0);
+}
+
+export function buildBurndown(milestone: Milestone, tasks: Task[], today: Date = new Date()): Burndown | null {
+	const start = parseTaskDate(milestone.startDate);
+	const end = parseTaskDate(milestone.endDate);
+	if (!start || !end || end < start) return null;
+
+	const planned = tasks.filter((task) => task.milestone === milestone.id);
+	const days = daysBetween(start, end) + 1;
+	const todayStart = startOfDay(today);
+
+	let scope = 0;
+	// burned[i] = units completed on day i (clamped into the milestone range)
+	const burned = new Array<number>(days).fill(0);
+	const dayIndex = (date: Date) => Math.min(days - 1, Math.max(0, daysBetween(start, startOfDay(date))));
+	let doneCount = 0;
+	for (const task of planned) {
+		const units = taskWorkUnits(task);
+		scope += units;
+		if (isTaskClosed(task)) {
+			doneCount++;
+			burned[dayIndex(task.completedAt ?? task.updatedAt)]! += units;
+		} else {
+			const checked = (task.acceptanceCriteria ?? []).filter((ac) => ac.completed).length;
+			if (checked > 0) burned[dayIndex(todayStart)]! += checked;
+		}
+	}
+
+	const points: BurndownPoint[] = [];
+	let completed = 0;
+	for (let i = 0; i < days; i++) {
+		const day = addDays(start, i);
+		completed += burned[i]!;
+		const past = day <= todayStart;
+		points.push({
+			date: formatTaskDate(day),
+			scope,
+			completed: past ? completed : null,
+			remaining: past ? scope - completed : null,
+			ideal: days > 1 ? scope * (1 - i / (days - 1)) : 0,
+		});
+	}
+	return { points, scope, completed, taskCount: planned.length, doneCount };
+}
+
+/** Milestone running today, else the next one to start, else the latest. */
+export function pickCurrentMilestone(milestones: Milestone[], today: Date = new Date()): Milestone | undefined {
+	const key = formatTaskDate(today);
+	return (
+		milestones.find((m) => m.startDate <= key && key <= m.endDate) ??
+		milestones.find((m) => m.startDate > key) ??
+		milestones[milestones.length - 1]
+	);
+}
@@ -0,0 +1,32 @@
+import type { CollabId } from "./rga";
+
+/** A client viewing or editing a doc, as reported by docs:presence. */
+export interface CollabPeer {
+	clientId: string;
+	user: string;
+	editing: boolean;
+	cursor?: { anchor: CollabId | null; head: CollabId | null };
+	lastSeen: string;
+}
+
+const PEER_COLORS = ["#3b82f6", "#ef4444", "#10b981", "#f59e0b", "#8b5cf6", "#ec4899", "#14b8a6", "#f97316"];
+
+/** Stable color for a user, so their avatar and cursor match. */
+export function peerColor(user: string): string {
+	let hash = 0;
+	for (let i = 0; i < user.length; i++) hash = (hash * 31 + user.charCodeAt(i)) | 0;
+	return PEER_COLORS[Math.abs(hash) % PEER_COLORS.length]!;
+}
+
+export function peerInitials(user: string): string {
+	const name = user.replace(/^@/, "").trim();
+	const parts = name.split(/[\s._-]+/).filter(Boolean);
+	if (parts.length >= 2) return (parts[0]![0]! + parts[1]![0]!).toUpperCase();
+	return name.slice(0, 2).toUpperCase() || "?";
+}
+
+/** Whether two doc paths from the API and the docs list name the same doc. */
+export function sameDocPath(a: string, b: string): boolean {
+	const clean = (p: string) => p.replace(/\\/g, "/").replace(/^\/+/, "").replace(/\.md$/, "");
+	return clean(a) === clean(b);
+}
@@ -0,0 +1,206 @@
+/**
+ * RGA sequence CRDT for live doc editing. Mirrors internal/collab/rga.go:
+ * both sides must integrate operations identically or replicas diverge.
+ *
+ * Characters are Unicode code points. Offsets taken and returned by CollabDoc
+ * are UTF-16 offsets, as used by textarea selections.
+ */
+
+export interface CollabId {
+	c: string;
+	n: number;
+}
+
+export type CollabOp =
+	| { type: "insert"; id: CollabId; after?: CollabId | null; text: string }
+	| { type: "delete"; ids: CollabId[] };
+
+export interface CollabRun {
+	id: CollabId;
+	text: string;
+	deleted?: boolean;
+}
+
+export interface CollabSnapshot {
+	runs: CollabRun[];
+	clock: number;
+}
+
+interface Element {
+	id: CollabId;
+	ch: string;
+	deleted: boolean;
+}
+
+const key = (id: CollabId) => `${id.c}:${id.n}`;
+
+/** a sorts after b: higher timestamp first, ties broken by client ID. */
+function sortsAfter(a: CollabId, b: CollabId): boolean {
+	if (a.n !== b.n) return a.n > b.n;
+	return a.c > b.c;
+}
+
+export class CollabDoc {
+	private elems: Element[] = [];
+	private index = new Map<string, number>();
+	private cachedText: string | null = "";
+	clock = 0;
+
+	static fromSnapshot(snapshot: CollabSnapshot): CollabDoc {
+		const doc = new CollabDoc();
+		for (const run of snapshot.runs) {
+			let n = run.id.n;
+			for (const ch of run.text) {
+				const id = { c: run.id.c, n: n++ };
+				doc.index.set(key(id), doc.elems.length);
+				doc.elems.push({ id, ch, deleted: !!run.deleted });
+			}
+		}
+		doc.clock = snapshot.clock;
+		doc.cachedText = null;
+		return doc;
+	}
+
+	text(): string {
+		if (this.cachedText === null) {
+			let out = "";
+			for (const e of this.elems) if (!e.deleted) out += e.ch;
+			this.cachedText = out;
+		}
+		return this.cachedText;
+	}
+
+	/** Integrates a remote operation. Replays are no-ops. */
+	apply(op: CollabOp): void {
+		if (op.type === "insert") {
+			if (op.after && !this.index.has(key(op.after))) {
+				throw new Error(`insert after unknown character ${key(op.after)}`);
+			}
+			this.insertRun(op.after ?? null, op.id, op.text);
+		} else {
+			for (const id of op.ids) {
+				const i = this.index.get(key(id));
+				if (i !== undefined && !this.elems[i]!.deleted) {
+					this.elems[i]!.deleted = true;
+					this.cachedText = null;
+				}
+			}
+		}
+	}
+
+	/** Inserts text at a UTF-16 offset on behalf of clientId. */
+	insert(clientId: string, offset: number, text: string): CollabOp {
+		const after = this.idBefore(offset);
+		const op: CollabOp = { type: "insert", id: { c: clientId, n: this.clock + 1 }, after, text };
+		this.insertRun(after, op.id, text);
+		return op;
+	}
+
+	/** Deletes the characters in the UTF-16 range [from, to). */
+	delete(from: number, to: number): CollabOp | null {
+		const ids: CollabId[] = [];
+		let pos = 0;
+		for (const e of this.elems) {
+			if (e.deleted) continue;
+			if (pos >= to) break;
+			if (pos >= from) ids.push(e.id);
+			pos += e.ch.length;
+		}
+		if (ids.length === 0) return null;
+		const op: CollabOp = { type: "delete", ids };
+		this.apply(op);
+		return op;
+	}
+
+	/** The visible character ending at a UTF-16 offset; null at the start. */
+	idBefore(offset: number): CollabId | null {
+		let pos = 0;
+		let last: CollabId | null = null;
+		for (const e of this.elems) {
+			if (e.deleted) continue;
+			if (pos + e.ch.length > offset) break;
+			pos += e.ch.length;
+			last = e.id;
+		}
+		return last;
+	}
+
+	/**
+	 * The UTF-16 offset just after a character, deleted or not; 0 for null.
+	 * Used to map cursors and selections held as IDs back to offsets.
+	 */
+	offsetAfter(id: CollabId | null): number {
+		if (!id) return 0;
+		const i = this.index.get(key(id));
+		if (i === undefined) return 0;
+		let pos = 0;
+		for (let j = 0; j <= i; j++) {
+			const e = this.elems[j]!;
+			if (!e.deleted) pos += e.ch.length;
+		}
+		return pos;
+	}
+
+	private insertRun(after: CollabId | null, first: CollabId, text: string) {
+		const chars = Array.from(text);
+		if (chars.length === 0) return;
+		if (this.index.has(key(first))) {
+			// Replayed operation: integrate only characters not seen yet.
+			for (let i = 0; i < chars.length; i++) {
+				const id = { c: first.c, n: first.n + i };
+				if (!this.index.has(key(id))) {
+					this.insertRun({ c: first.c, n: first.n + i - 1 }, id, chars.slice(i).join(""));
+					return;
+				}
+			}
+			return;
+		}
+		let pos = after ? this.index.get(key(after))! + 1 : 0;
+		// Skip characters inserted at the same place by operations that sort
+		// later; the rest of the run follows its first character directly.
+		while (pos < this.elems.length && sortsAfter(this.elems[pos]!.id, first)) pos++;
+		const run = chars.map((ch, i) => ({ id: { c: first.c, n: first.n + i }, ch, deleted: false }));
+		this.elems.splice(pos, 0, ...run);
+		for (let i = pos; i < this.elems.length; i++) this.index.set(key(this.elems[i]!.id), i);
+		this.clock = Math.max(this.clock, first.n + chars.length - 1);
+		this.cachedText = null;
+	}
+}
+
+/**
+ * Turns an edit of the textarea from oldText to newText into operations on
+ * doc, assuming a single contiguous change (typing, paste, cut).
+ */
+export function diffToOps(doc: CollabDoc, clientId: string, oldText: string, newText: string): CollabOp[] {
+	if (oldText === newText) return [];
+	let start = 0;
+	const maxStart = Math.min(oldText.length, newText.length);
+	while (start < maxStart && oldText.charCodeAt(start) === newText.charCodeAt(start)) start++;
+	let oldEnd = oldText.length;
+	let newEnd = newText.length;
+	while (oldEnd > start && newEnd > start && oldText.charCodeAt(oldEnd - 1) === newText.charCodeAt(newEnd - 1)) {
+		oldEnd--;
+		newEnd--;
+	}
+	// Never split a surrogate pair.
+	if (start > 0 && isHighSurrogate(oldText.charCodeAt(start - 1))) start--;
+	if (oldEnd < oldText.length && isLowSurrogate(oldText.charCodeAt(oldEnd))) {
+		oldEnd++;
+		newEnd++;
+	}
+
+	const ops: CollabOp[] = [];
+	const del = doc.delete(start, oldEnd);
+	if (del) ops.push(del);
+	const inserted = newText.slice(start, newEnd);
+	if (inserted) ops.push(doc.insert(clientId, start, inserted));
+	return ops;
+}
+
+function isHighSurrogate(code: number) {
+	return code >= 0xd800 && code <= 0xdbff;
+}
+
+function isLowSurrogate(code: number) {
+	return code >= 0xdc00 && code <= 0xdfff;
+}
@@ -0,0 +1,69 @@
+import type { Task } from "../models/task";
+
+/**
+ * Per-status WIP limit and entry rules, stored in project config as
+ * `columnPolicies[status]`. The server enforces the same rules on every task
+ * update (internal/tasklifecycle/column_policy.go); the board checks them
+ * first so a rejected drop never leaves the card in the wrong column.
+ */
+export interface ColumnPolicy {
+	wipLimit?: number;
+	requireAcComplete?: boolean;
+	requireSpec?: boolean;
+	requireAssignee?: boolean;
+}
+
+export type ColumnPolicies = Record<string, ColumnPolicy>;
+
+export type ColumnRule = "wip-limit" | "require-ac-complete" | "require-spec" | "require-assignee";
+
+export const COLUMN_RULE_LABELS: Record<ColumnRule, string> = {
+	"wip-limit": "WIP limit",
+	"require-ac-complete": "All acceptance criteria checked",
+	"require-spec": "Spec linked",
+	"require-assignee": "Assignee set",
+};
+
+export interface ColumnPolicyViolation {
+	status: string;
+	rule: ColumnRule;
+	message: string;
+}
+
+/** Mirrors CheckColumnPolicy on the server, including rule order and messages. */
+export function checkColumnPolicy(
+	policies: ColumnPolicies | undefined,
+	task: Task,
+	status: string,
+	tasks: Task[],
+): ColumnPolicyViolation | null {
+	const policy = policies?.[status];
+	if (!policy) return null;
+	if (policy.requireAssignee && !task.assignee) {
+		return { status, rule: "require-assignee", message: `Task must have an assignee before moving to "${status}"` };
+	}
+	if (policy.requireSpec && !task.spec) {
+		return { status, rule: "require-spec", message: `Task must link a spec before moving to "${status}"` };
+	}
+	if (policy.requireAcComplete && (task.acceptanceCriteria ?? []).some((ac) => !ac.completed)) {
+		return {
+			status,
+			rule: "require-ac-complete",
+			message: `All acceptance criteria must be checked before moving to "${status}"`,
+		};
+	}
+	const limit = policy.wipLimit ?? 0;
+	if (limit > 0) {
+		const count = tasks.filter((other) => other.id !== task.id && other.status === status).length;
+		if (count >= limit) {
+			return { status, rule: "wip-limit", message: `"${status}" is at its WIP limit of ${limit}` };
+		}
+	}
+	return null;
+}
+
+/** Number of tasks over the column's WIP limit, or 0 when within it or unlimited. */
+export function wipOverflow(policies: ColumnPolicies | undefined, status: string, count: number): number {
+	const limit = policies?.[status]?.wipLimit ?? 0;
+	return limit > 0 ? Math.max(0, count - limit) : 0;
+}
@@ -0,0 +1,293 @@
+import { Marked, type Token, type Tokens } from "marked";
+import { api, getTasksBySpec } from "../api/client";
+import { parseHeadingMeta } from "../components/editor/headingUtils";
+import { canonicalizeSemanticReference, decodeSemanticRefHref, transformMentions } from "../components/editor/mentionUtils";
+import type { Task } from "../models/task";
+import { getStatusLabel } from "../utils/colors";
+import { createDocx, type DocxImage } from "./docx";
+import { downloadBlob, escapeHtml, toDisplayPath } from "./utils";
+
+export type DocExportFormat = "pdf" | "docx";
+
+/** The parts of a doc an export reads. */
+export interface ExportableDoc {
+	path: string;
+	content: string;
+	metadata: {
+		title?: string;
+		description?: string;
+		tags?: string[];
+		updatedAt?: string;
+	};
+}
+
+export interface DocExportOptions {
+	format: DocExportFormat;
+	/** Append the tasks linked to the doc, with their acceptance criteria progress. */
+	includeTasks: boolean;
+}
+
+interface RasterImage extends DocxImage {
+	dataUrl: string;
+}
+
+interface PreparedDoc {
+	title: string;
+	description: string;
+	meta: string;
+	tokens: Token[];
+	/** Rasterized Mermaid diagrams keyed by their source. */
+	diagrams: Map<string, RasterImage>;
+	tasksById: Map<string, Task>;
+}
+
+/** Diagrams are drawn at twice their size so they stay sharp when printed. */
+const RASTER_SCALE = 2;
+
+function fileName(doc: ExportableDoc, extension: string): string {
+	const base = toDisplayPath(doc.path).replace(/\.md$/, "").split("/").pop() || "doc";
+	return `${base.replace(/[^a-zA-Z0-9_-]+/g, "-")}.${extension}`;
+}
+
+/**
+ * Numbers h2-h4 the way the doc view and TOC do. Headings after the last one
+ * parseHeadingMeta found, like the appendix, stay unnumbered.
+ */
+function headingNumberer(markdown: string): (depth: number) => string | undefined {
+	const headings = parseHeadingMeta(markdown);
+	let index = 0;
+	return (depth) => (depth >= 2 && depth <= 4 ? headings[index++]?.number : undefined);
+}
+
+/**
+ * Text shown for a reference link. Task references read as "Title (Status)"
+ * since readers of an export can't hover them; other references keep their
+ * canonical form. Returns null for ordinary links.
+ */
+function referenceLabel(href: string, tasksById: Map<string, Task>): string | null {
+	const raw = decodeSemanticRefHref(href);
+	if (raw === null) return null;
+	const ref = canonicalizeSemanticReference(raw) ?? raw;
+	const taskId = ref.match(/^@task\/([^{]+)/)?.[1];
+	if (!taskId) return ref;
+	const task = tasksById.get(taskId);
+	return task ? `${task.title} (${getStatusLabel(task.status)})` : ref;
+}
+
+function tableCell(value: string): string {
+	return value.replace(/\|/g, "\\|").replace(/\s+/g, " ").trim();
+}
+
+function appendixMarkdown(tasks: Task[]): string {
+	const lines = ["## Appendix: Linked tasks", ""];
+	if (tasks.length === 0) return [...lines, "No tasks link to this doc."].join("\n");
+	lines.push("| Task | Title | Status | Acceptance criteria |", "| --- | --- | --- | --- |");
+	for (const task of tasks) {
+		const total = task.acceptanceCriteria.length;
+		const done = task.acceptanceCriteria.filter((ac) => ac.completed).length;
+		const progress = total > 0 ? `${done}/${total} (${Math.round((done / total) * 100)}%)` : "None";
+		lines.push(`| ${tableCell(task.id)} | ${tableCell(task.title)} | ${tableCell(getStatusLabel(task.status))} | ${progress} |`);
+	}
+	return lines.join("\n");
+}
+
+function decodeBase64(data: string): Uint8Array {
+	const binary = atob(data);
+	const bytes = new Uint8Array(binary.length);
+	for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+	return bytes;
+}
+
+/** Draws Mermaid SVG onto a canvas so Word and print previews get a plain PNG. */
+async function rasterizeSvg(svg: string): Promise<RasterImage> {
+	// Mermaid emits HTML-serialized SVG; parse it as HTML and re-serialize as XML.
+	const element = new DOMParser().parseFromString(svg, "text/html").querySelector("svg");
+	if (!element) throw new Error("Diagram did not render to SVG");
+	const viewBox = element.getAttribute("viewBox")?.split(/[\s,]+/).map(Number);
+	const width = Math.ceil(viewBox?.[2] || parseFloat(element.getAttribute("width") ?? "") || 800);
+	const height = Math.ceil(viewBox?.[3] || parseFloat(element.getAttribute("height") ?? "") || 600);
+	element.setAttribute("width", String(width));
+	element.setAttribute("height", String(height));
+	element.style.maxWidth = "none";
+
+	const image = new Image();
+	image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(new XMLSerializer().serializeToString(element))}`;
+	await image.decode();
+
+	const canvas = document.createElement("canvas");
+	canvas.width = width * RASTER_SCALE;
+	canvas.height = height * RASTER_SCALE;
+	const context = canvas.getContext("2d");
+	if (!context) throw new Error("Canvas is not available");
+	context.fillStyle = "#ffffff";
+	context.fillRect(0, 0, canvas.width, canvas.height);
+	context.scale(RASTER_SCALE, RASTER_SCALE);
+	context.drawImage(image, 0, 0, width, height);
+
+	const dataUrl = canvas.toDataURL("image/png");
+	return { dataUrl, png: decodeBase64(dataUrl.slice(dataUrl.indexOf(",") + 1)), width, height };
+}
+
+async function renderDiagrams(sources: string[]): Promise<Map<string, RasterImage>> {
+	const diagrams = new Map<string, RasterImage>();
+	if (sources.length === 0) return diagrams;
+	const { renderMermaidSvg } = await import("../components/editor/MermaidBlock");
+	for (const source of sources) {
+		if (diagrams.has(source)) continue;
+		try {
+			diagrams.set(source, await rasterizeSvg(await renderMermaidSvg(source, false)));
+		} catch (err) {
+			// The diagram falls back to its source as a code block.
+			console.error("Failed to rasterize Mermaid diagram:", err);
+		}
+	}
+	return diagrams;
+}
+
+async function prepareDoc(doc: ExportableDoc, includeTasks: boolean): Promise<PreparedDoc> {
+	const marked = new Marked({ gfm: true });
+	const tokens: Token[] = [...marked.lexer(transformMentions(doc.content))];
+	if (includeTasks) tokens.push(...marked.lexer(appendixMarkdown(await getTasksBySpec(doc.path))));
+
+	const sources: string[] = [];
+	let referencesTasks = false;
+	marked.walkTokens(tokens, (token) => {
+		if (token.type === "code" && token.lang?.trim() === "mermaid") sources.push(token.text);
+		if (token.type === "link" && decodeSemanticRefHref(token.href)?.startsWith("@task")) referencesTasks = true;
+	});
+
+	const tasksById = new Map<string, Task>();
+	if (referencesTasks) {
+		for (const task of await api.getTasks()) tasksById.set(task.id, task);
+	}
+
+	const { title, description, tags, updatedAt } = doc.metadata;
+	const meta = [
+		`@doc/${toDisplayPath(doc.path).replace(/\.md$/, "")}`,
+		tags?.length ? tags.join(", ") : "",
+		updatedAt ? `Updated ${new Date(updatedAt).toLocaleDateString()}` : "",
+	].filter(Boolean);
+	return {
+		title: title || toDisplayPath(doc.path),
+		description: description ?? "",
+		meta: meta.join(" · "),
+		tokens,
+		diagrams: await renderDiagrams(sources),
+		tasksById,
+	};
+}
+
+const PRINT_CSS = `
+@page { margin: 18mm 16mm; }
+body { font: 11pt/1.55 -apple-system, BlinkMacSystemFont, "Segoe UI", Helvetica, Arial, sans-serif; color: #111827; margin: 0; }
+h1.title { font-size: 24pt; margin: 0 0 4pt; }
+.subtitle { font-size: 13pt; color: #4b5563; margin: 0 0 6pt; }
+.meta { font-size: 9pt; color: #6b7280; border-bottom: 1px solid #d1d5db; padding-bottom: 8pt; margin-bottom: 16pt; }
+h1, h2, h3, h4 { break-after: avoid; line-height: 1.25; }
+h2 { font-size: 16pt; margin-top: 20pt; }
+h3 { font-size: 13pt; margin-top: 16pt; }
+h4 { font-size: 11.5pt; margin-top: 12pt; }
+.heading-number { color: #6b7280; margin-right: 6pt; }
+pre { background: #f3f4f6; padding: 8pt 10pt; border-radius: 4pt; font-size: 9pt; white-space: pre-wrap; break-inside: avoid; }
+code { font-family: Consolas, Menlo, monospace; font-size: 9.5pt; }
+:not(pre) > code { background: #f3f4f6; padding: 0 3pt; border-radius: 3pt; }
+blockquote { margin: 0 0 10pt; padding-left: 10pt; border-left: 3pt solid #d1d5db; color: #4b5563; }
+table { border-collapse: collapse; width: 100%; margin: 8pt 0 12pt; font-size: 10pt; }
+th, td { border: 1px solid #bfbfbf; padding: 4pt 6pt; text-align: left; vertical-align: top; }
+th { background: #f2f2f2; }
+tr { break-inside: avoid; }
+figure { margin: 10pt 0 14pt; text-align: center; break-inside: avoid; }
+figure img { max-width: 100%; }
+a { color: #0563c1; }
+.ref { font-weight: 500; }
+`;
+
+function printHtml(prepared: PreparedDoc, markdown: string): string {
+	const headingNumber = headingNumberer(markdown);
+	const marked = new Marked({ gfm: true });
+	marked.use({
+		renderer: {
+			heading({ tokens, depth }: Tokens.Heading) {
+				const number = headingNumber(depth);
+				const prefix = number ? `<span class="heading-number">${number}</span>` : "";
+				return `<h${depth}>${prefix}${this.parser.parseInline(tokens)}</h${depth}>\n`;
+			},
+			code({ text, lang }: Tokens.Code) {
+				const diagram = lang?.trim() === "mermaid" ? prepared.diagrams.get(text) : undefined;
+				if (!diagram) return false;
+				return `<figure><img src="${diagram.dataUrl}" width="${diagram.width}" alt="Diagram"></figure>\n`;
+			},
+			link({ href }: Tokens.Link) {
+				const label = referenceLabel(href, prepared.tasksById);
+				if (label === null) return false;
+				return `<span class="ref">${escapeHtml(label)}</span>`;
+			},
+			// Raw HTML in a doc prints as text, never as markup in the frame.
+			html({ text }: Tokens.HTML | Tokens.Tag) {
+				return escapeHtml(text);
+			},
+		},
+	});
+	const body = marked.parser(prepared.tokens);
+	return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(prepared.title)}</title>
+<style>${PRINT_CSS}</style>
+</head>
+<body>
+<h1 class="title">${escapeHtml(prepared.title)}</h1>
+${prepared.description ? `<p class="subtitle">${escapeHtml(prepared.description)}</p>` : ""}
+<div class="meta">${escapeHtml(prepared.meta)}</div>
+${body}
+</body>
+</html>`;
+}
+
+/** Prints HTML from a hidden frame so the browser's dialog can save it as PDF. */
+function printDocument(html: string): Promise<void> {
+	return new Promise((resolve, reject) => {
+		const frame = document.createElement("iframe");
+		frame.setAttribute("aria-hidden", "true");
+		// Same-origin so onload can reach contentWindow to print; no scripts.
+		frame.setAttribute("sandbox", "allow-same-origin allow-modals");
+		frame.style.cssText = "position:fixed;right:0;bottom:0;width:0;height:0;border:0;";
+		frame.onload = () => {
+			const win = frame.contentWindow;
+			if (!win) {
+				frame.remove();
+				reject(new Error("Failed to open the print preview"));
+				return;
+			}
+			win.addEventListener("afterprint", () => frame.remove());
+			win.focus();
+			win.print();
+			resolve();
+		};
+		frame.srcdoc = html;
+		document.body.appendChild(frame);
+	});
+}
+
+/**
+ * Exports one doc for readers outside Knowns. PDF goes through the browser's
+ * print dialog; DOCX is built here and downloaded.
+ */
+export async function exportDoc(doc: ExportableDoc, options: DocExportOptions): Promise<void> {
+	const prepared = await prepareDoc(doc, options.includeTasks);
+	if (options.format === "pdf") {
+		await printDocument(printHtml(prepared, doc.content));
+		return;
+	}
+	const docx = createDocx({
+		title: prepared.title,
+		subtitle: prepared.description || undefined,
+		meta: prepared.meta,
+		tokens: prepared.tokens,
+		headingNumber: headingNumberer(doc.content),
+		linkLabel: (href) => referenceLabel(href, prepared.tasksById),
+		codeImage: (token) => (token.lang?.trim() === "mermaid" ? prepared.diagrams.get(token.text) : undefined),
+	});
+	downloadBlob(docx, fileName(doc, "docx"));
+}
@@ -0,0 +1,358 @@
+import { Marked, type Tokens } from "marked";
+import { parseHeadings, type TOCItem } from "../components/molecules/DocsTOC";
+import {
+	canonicalizeSemanticReference,
+	decodeSemanticRefHref,
+	normalizeSemanticDocTarget,
+	transformMentions,
+} from "../components/editor/mentionUtils";
+import { escapeHtml, toDisplayPath, type Doc } from "./utils";
+import type { ZipEntry } from "./zip";
+
+export interface DocSiteOptions {
+	/** Site name shown in the header and page titles. */
+	title: string;
+	/** Export only this folder; it becomes the site root. */
+	folder?: string | null;
+	/** Reports progress while pages render. */
+	onProgress?: (done: number, total: number) => void;
+}
+
+interface SitePage {
+	/** Doc path relative to the site root, without .md. */
+	path: string;
+	/** Full doc path, as used by @doc/ references. */
+	docPath: string;
+	title: string;
+	description?: string;
+	tags: string[];
+	content: string;
+}
+
+interface SearchEntry {
+	path: string;
+	title: string;
+	description: string;
+	text: string;
+}
+
+function bareDocPath(path: string): string {
+	return toDisplayPath(path).replace(/\.md$/, "").replace(/^\/+|\/+$/g, "");
+}
+
+/** Href from the page at fromPath to the page at toPath, both site-relative. */
+function relativeHref(fromPath: string, toPath: string): string {
+	const depth = fromPath.split("/").length - 1;
+	return `${"../".repeat(depth)}${toPath}.html`;
+}
+
+function rootPrefix(fromPath: string): string {
+	return "../".repeat(fromPath.split("/").length - 1);
+}
+
+/** Plain text of a doc for the search index. */
+function searchText(markdown: string): string {
+	return markdown
+		.replace(/```[\s\S]*?```/g, " ")
+		.replace(/[#>*_`|[\]()-]+/g, " ")
+		.replace(/\s+/g, " ")
+		.trim();
+}
+
+/**
+ * Renders one doc to HTML. @doc/ references to exported docs become relative
+ * links; other references render as plain labels since the site has no server
+ * to resolve them. Mermaid fences are left as placeholders for renderDiagrams.
+ */
+function renderPageBody(page: SitePage, pagesByDocPath: Map<string, SitePage>, diagrams: string[]): string {
+	const headings = parseHeadings(page.content);
+	let headingIndex = 0;
+	const marked = new Marked({ gfm: true });
+	marked.use({
+		renderer: {
+			heading({ tokens, depth }: Tokens.Heading) {
+				const text = this.parser.parseInline(tokens);
+				if (depth < 2 || depth > 4) return `<h${depth}>${text}</h${depth}>\n`;
+				const id = headings[headingIndex++]?.id;
+				return `<h${depth}${id ? ` id="${escapeHtml(id)}"` : ""}>${text}</h${depth}>\n`;
+			},
+			code({ text, lang }: Tokens.Code) {
+				if (lang?.trim() !== "mermaid") return false;
+				diagrams.push(text);
+				return `<div class="mermaid" data-diagram="${diagrams.length - 1}"></div>\n`;
+			},
+			link({ href, title, tokens }: Tokens.Link) {
+				const raw = decodeSemanticRefHref(href);
+				if (raw === null) return false;
+				const ref = canonicalizeSemanticReference(raw) ?? raw;
+				if (ref.startsWith("@doc/")) {
+					const target = normalizeSemanticDocTarget(ref.slice(5)).replace(/\{[a-z-]+\}$/, "");
+					const match = target.match(/^(.*?)(?:#(.+)|:\d+(?:-\d+)?)?$/);
+					const linked = pagesByDocPath.get(match?.[1] ?? target);
+					if (linked) {
+						const anchor = match?.[2] ? `#${encodeURIComponent(match[2])}` : "";
+						const label = escapeHtml(linked.title || ref);
+						return `<a class="ref ref-doc" href="${relativeHref(page.path, linked.path)}${anchor}" title="${escapeHtml(ref)}">${label}</a>`;
+					}
+					return `<span class="ref ref-missing" title="Not part of this export">${escapeHtml(ref)}</span>`;
+				}
+				const label = this.parser.parseInline(tokens);
+				return `<span class="ref"${title ? ` title="${escapeHtml(title)}"` : ""}>${label}</span>`;
+			},
+			// Raw HTML in a doc shows as text, so an exported page runs no markup
+			// it was not built with.
+			html({ text }: Tokens.HTML | Tokens.Tag) {
+				return escapeHtml(text);
+			},
+		},
+	});
+	return marked.parse(transformMentions(page.content), { async: false });
+}
+
+/** Replaces diagram placeholders with SVG rendered the way MermaidBlock renders it. */
+async function renderDiagrams(html: string, diagrams: string[]): Promise<string> {
+	if (diagrams.length === 0) return html;
+	const { renderMermaidSvg } = await import("../components/editor/MermaidBlock");
+	const svgs: string[] = [];
+	for (const code of diagrams) {
+		try {
+			svgs.push(await renderMermaidSvg(code, false));
+		} catch (err) {
+			const message = err instanceof Error ? err.message : "Failed to render Mermaid diagram";
+			svgs.push(`<pre class="mermaid-error">${escapeHtml(message)}\n\n${escapeHtml(code)}</pre>`);
+		}
+	}
+	return html.replace(/<div class="mermaid" data-diagram="(\d+)"><\/div>/g, (_m, index: string) => `<div class="mermaid">${svgs[Number(index)] ?? ""}</div>`);
+}
+
+interface TreeNode {
+	path: string;
+	folders: Map<string, TreeNode>;
+	pages: SitePage[];
+}
+
+function buildTree(pages: SitePage[]): TreeNode {
+	const root: TreeNode = { path: "", folders: new Map(), pages: [] };
+	for (const page of pages) {
+		const parts = page.path.split("/");
+		let node = root;
+		for (const part of parts.slice(0, -1)) {
+			let child = node.folders.get(part);
+			if (!child) {
+				child = { path: node.path ? `${node.path}/${part}` : part, folders: new Map(), pages: [] };
+				node.folders.set(part, child);
+			}
+			node = child;
+		}
+		node.pages.push(page);
+	}
+	return root;
+}
+
+function renderTree(node: TreeNode, current: string, from: string): string {
+	const folders = [...node.folders.entries()].sort(([a], [b]) => a.localeCompare(b));
+	const pages = [...node.pages].sort((a, b) => a.title.localeCompare(b.title));
+	const items = [
+		...folders.map(([name, child]) => {
+			const open = current.startsWith(`${child.path}/`) ? " open" : "";
+			return `<li><details${open}><summary>${escapeHtml(name)}</summary>${renderTree(child, current, from)}</details></li>`;
+		}),
+		...pages.map((page) => {
+			const active = page.path === current ? ` class="active" aria-current="page"` : "";
+			return `<li><a${active} href="${relativeHref(from, page.path)}">${escapeHtml(page.title)}</a></li>`;
+		}),
+	];
+	return `<ul>${items.join("")}</ul>`;
+}
+
+function renderTOC(headings: TOCItem[]): string {
+	if (headings.length === 0) return "";
+	const items = headings
+		.map((h) => `<li class="toc-l${h.level}"><a href="#${encodeURIComponent(h.id)}"><span>${h.number}</span> ${escapeHtml(h.text)}</a></li>`)
+		.join("");
+	return `<nav class="toc" aria-label="On this page"><div class="toc-title">On this page</div><ul>${items}</ul></nav>`;
+}
+
+function layout(siteTitle: string, from: string, pageTitle: string, tree: string, main: string, toc: string): string {
+	const root = rootPrefix(from);
+	return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(pageTitle === siteTitle ? siteTitle : `${pageTitle} · ${siteTitle}`)}</title>
+<link rel="stylesheet" href="${root}assets/site.css">
+</head>
+<body data-root="${root}">
+<header class="site-header">
+<a class="site-title" href="${root}index.html">${escapeHtml(siteTitle)}</a>
+<div class="search"><input id="search" type="search" placeholder="Search docs..." autocomplete="off"><ul id="search-results" hidden></ul></div>
+</header>
+<div class="site">
+<nav class="sidebar" aria-label="Docs">${tree}</nav>
+<main>${main}</main>
+${toc}
+</div>
+<script src="${root}assets/search-index.js"></script>
+<script src="${root}assets/site.js"></script>
+</body>
+</html>
+`;
+}
+
+const SITE_CSS = `*{box-sizing:border-box}
+body{margin:0;font:15px/1.6 -apple-system,BlinkMacSystemFont,"Segoe UI",Helvetica,Arial,sans-serif;color:#1f2328;background:#fff}
+a{color:#0969da;text-decoration:none}a:hover{text-decoration:underline}
+.site-header{position:sticky;top:0;z-index:2;display:flex;align-items:center;gap:1rem;padding:.6rem 1.25rem;border-bottom:1px solid #d0d7de;background:#fff}
+.site-title{font-weight:600;color:#1f2328}
+.search{position:relative;margin-left:auto;width:min(360px,60vw)}
+.search input{width:100%;padding:.35rem .6rem;border:1px solid #d0d7de;border-radius:6px;font:inherit}
+#search-results{position:absolute;right:0;left:0;margin:.25rem 0 0;padding:.25rem;list-style:none;max-height:70vh;overflow:auto;background:#fff;border:1px solid #d0d7de;border-radius:6px;box-shadow:0 8px 24px rgba(0,0,0,.12)}
+#search-results li a{display:block;padding:.4rem .5rem;border-radius:4px;color:inherit}
+#search-results li a:hover,#search-results li a:focus{background:#f6f8fa;text-decoration:none}
+#search-results small{display:block;color:#59636e}
+.site{display:grid;grid-template-columns:260px minmax(0,1fr) 220px;gap:2rem;max-width:1400px;margin:0 auto;padding:0 1.25rem}
+.sidebar,.toc{position:sticky;top:3.5rem;align-self:start;max-height:calc(100vh - 4rem);overflow:auto;padding:1.25rem 0;font-size:.875rem}
+.sidebar ul{list-style:none;margin:0;padding-left:.9rem}.sidebar>ul{padding-left:0}
+.sidebar summary{cursor:pointer;color:#59636e;font-weight:500}
+.sidebar a{display:block;padding:.1rem 0;color:#1f2328}.sidebar a.active{color:#0969da;font-weight:600}
+.toc ul{list-style:none;margin:0;padding:0}.toc a{display:block;padding:.1rem 0;color:#59636e}.toc span{opacity:.6}
+.toc-title{font-weight:600;margin-bottom:.4rem}.toc-l3{padding-left:.75rem}.toc-l4{padding-left:1.5rem}
+main{min-width:0;padding:1.25rem 0 4rem}
+main h1{margin-top:0}.description{color:#59636e;margin-top:-.5rem}
+.tags span{display:inline-block;margin:0 .25rem .25rem 0;padding:0 .5rem;border:1px solid #d0d7de;border-radius:999px;font-size:.75rem;color:#59636e}
+pre{overflow:auto;padding:.75rem 1rem;background:#f6f8fa;border-radius:6px}code{font-size:.875em}
+table{border-collapse:collapse}th,td{border:1px solid #d0d7de;padding:.3rem .6rem}
+blockquote{margin:0;padding:0 1rem;color:#59636e;border-left:.25rem solid #d0d7de}
+.mermaid{overflow:auto;margin:1rem 0;text-align:center}.mermaid svg{max-width:100%;height:auto}
+.mermaid-error{color:#cf222e}
+.ref{padding:0 .25rem;border-radius:4px;background:#f6f8fa;font-size:.9em}.ref-missing{color:#cf222e;text-decoration:line-through}
+.index-list{padding-left:1.25rem}
+@media (max-width:1100px){.site{grid-template-columns:220px minmax(0,1fr)}.toc{display:none}}
+@media (max-width:720px){.site{display:block}.sidebar{position:static;max-height:none;border-bottom:1px solid #d0d7de}}
+`;
+
+const SITE_JS = `(function () {
+  var docs = window.KNOWNS_SEARCH || [];
+  var root = document.body.getAttribute("data-root") || "";
+  var input = document.getElementById("search");
+  var results = document.getElementById("search-results");
+  if (!input || !results) return;
+  function esc(s) { return s.replace(/[&<>"]/g, function (c) { return { "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;" }[c]; }); }
+  function snippet(text, term) {
+    var i = text.toLowerCase().indexOf(term);
+    if (i < 0) return text.slice(0, 120);
+    var start = Math.max(0, i - 50);
+    return (start > 0 ? "…" : "") + text.slice(start, i + 90) + "…";
+  }
+  function search(query) {
+    var terms = query.toLowerCase().split(/\\s+/).filter(Boolean);
+    if (terms.length === 0) return [];
+    var hits = [];
+    docs.forEach(function (doc) {
+      var title = doc.title.toLowerCase(), desc = doc.description.toLowerCase(), text = doc.text.toLowerCase();
+      var score = 0;
+      for (var i = 0; i < terms.length; i++) {
+        var t = terms[i], s = 0;
+        if (title.indexOf(t) >= 0) s += 10;
+        if (desc.indexOf(t) >= 0) s += 4;
+        if (doc.path.toLowerCase().indexOf(t) >= 0) s += 3;
+        if (text.indexOf(t) >= 0) s += 1;
+        if (s === 0) return;
+        score += s;
+      }
+      hits.push({ doc: doc, score: score });
+    });
+    return hits.sort(function (a, b) { return b.score - a.score; }).slice(0, 20);
+  }
+  input.addEventListener("input", function () {
+    var query = input.value.trim();
+    var hits = search(query);
+    results.hidden = query === "";
+    if (hits.length === 0) {
+      results.innerHTML = query ? "<li><small>No matches</small></li>" : "";
+      return;
+    }
+    var term = query.toLowerCase().split(/\\s+/)[0];
+    results.innerHTML = hits.map(function (hit) {
+      return '<li><a href="' + root + hit.doc.path + '.html">' + esc(hit.doc.title) + "<small>" + esc(snippet(hit.doc.text, term)) + "</small></a></li>";
+    }).join("");
+  });
+  input.addEventListener("keydown", function (e) {
+    if (e.key === "Escape") { input.value = ""; results.hidden = true; }
+    if (e.key === "Enter") { var first = results.querySelector("a"); if (first) window.location.href = first.getAttribute("href"); }
+  });
+  document.addEventListener("keydown", function (e) {
+    if (e.key === "/" && document.activeElement !== input) { e.preventDefault(); input.focus(); }
+  });
+})();
+`;
+
+/**
+ * Builds a self-contained static site from docs: one HTML page per doc with
+ * a folder sidebar, a table of contents, pre-rendered Mermaid diagrams and
+ * client-side search. Returns the files to package.
+ */
+export async function buildDocSite(docs: Doc[], options: DocSiteOptions): Promise<ZipEntry[]> {
+	const folder = options.folder ? bareDocPath(options.folder) : "";
+	const prefix = folder ? `${folder}/` : "";
+	const pages: SitePage[] = docs
+		.map((doc) => ({ doc, docPath: bareDocPath(doc.path) }))
+		.filter(({ docPath }) => !prefix || docPath.startsWith(prefix))
+		.map(({ doc, docPath }) => ({
+			path: docPath.slice(prefix.length),
+			docPath,
+			title: doc.metadata?.title || docPath.split("/").pop() || docPath,
+			description: doc.metadata?.description,
+			tags: doc.metadata?.tags ?? [],
+			content: doc.content ?? "",
+		}))
+		// "index" is taken by the landing page.
+		.map((page) => (page.path === "index" ? { ...page, path: "index-doc" } : page))
+		.sort((a, b) => a.path.localeCompare(b.path));
+	if (pages.length === 0) throw new Error(folder ? `No docs in ${folder}` : "No docs to export");
+
+	const pagesByDocPath = new Map(pages.map((page) => [page.docPath, page]));
+	const tree = buildTree(pages);
+	const files: ZipEntry[] = [];
+	const search: SearchEntry[] = [];
+
+	for (const [index, page] of pages.entries()) {
+		options.onProgress?.(index, pages.length);
+		const diagrams: string[] = [];
+		const body = await renderDiagrams(renderPageBody(page, pagesByDocPath, diagrams), diagrams);
+		const header = [
+			`<h1>${escapeHtml(page.title)}</h1>`,
+			page.description ? `<p class="description">${escapeHtml(page.description)}</p>` : "",
+			page.tags.length > 0 ? `<p class="tags">${page.tags.map((tag) => `<span>${escapeHtml(tag)}</span>`).join("")}</p>` : "",
+		].join("");
+		files.push({
+			path: `${page.path}.html`,
+			content: layout(options.title, page.path, page.title, renderTree(tree, page.path, page.path), header + body, renderTOC(parseHeadings(page.content))),
+		});
+		search.push({ path: page.path, title: page.title, description: page.description ?? "", text: searchText(page.content) });
+	}
+	options.onProgress?.(pages.length, pages.length);
+
+	const listing = pages
+		.map((page) => `<li><a href="${page.path}.html">${escapeHtml(page.title)}</a>${page.description ? ` — ${escapeHtml(page.description)}` : ""}</li>`)
+		.join("");
+	files.unshift({
+		path: "index.html",
+		content: layout(
+			options.title,
+			"index",
+			options.title,
+			renderTree(tree, "", "index"),
+			`<h1>${escapeHtml(options.title)}</h1><p class="description">${pages.length} document${pages.length === 1 ? "" : "s"}</p><ul class="index-list">${listing}</ul>`,
+			"",
+		),
+	});
+	files.push(
+		{ path: "assets/site.css", content: SITE_CSS },
+		{ path: "assets/site.js", content: SITE_JS },
+		// A script rather than JSON so search works when pages open from disk.
+		{ path: "assets/search-index.js", content: `window.KNOWNS_SEARCH = ${JSON.stringify(search).replace(/</g, "\\u003c")};\n` },
+	);
+	return files;
+}
@@ -0,0 +1,385 @@
+import type { Token, Tokens } from "marked";
+import { createZip } from "./zip";
+
+/** A PNG placed in the document, with its size in CSS pixels. */
+export interface DocxImage {
+	png: Uint8Array;
+	width: number;
+	height: number;
+}
+
+export interface DocxContent {
+	title: string;
+	subtitle?: string;
+	/** Small print under the title, such as the doc path and tags. */
+	meta?: string;
+	/** Body as marked block tokens. */
+	tokens: Token[];
+	/** Number shown before a heading; called once per heading in document order. */
+	headingNumber?: (depth: number) => string | undefined;
+	/** Plain text to show instead of a link, or null to keep the link. */
+	linkLabel?: (href: string) => string | null;
+	/** Image to show instead of a fenced code block, such as a rendered diagram. */
+	codeImage?: (token: Tokens.Code) => DocxImage | undefined;
+}
+
+interface RunStyle {
+	bold?: boolean;
+	italic?: boolean;
+	strike?: boolean;
+	code?: boolean;
+	link?: boolean;
+}
+
+interface ListItemContext {
+	numId: number;
+	level: number;
+	/** Set once the item's first paragraph carries the bullet or number. */
+	numbered: boolean;
+	/** Checkbox for task list items, shown after the bullet. */
+	checkbox?: string;
+}
+
+interface BlockContext {
+	quote?: boolean;
+	item?: ListItemContext;
+}
+
+interface DocxWriter {
+	content: DocxContent;
+	relationships: string[];
+	media: { path: string; content: Uint8Array }[];
+	nums: string[];
+	nextNumId: number;
+	nextRelId: number;
+	nextDrawingId: number;
+}
+
+const NS_W = "http://schemas.openxmlformats.org/wordprocessingml/2006/main";
+const NS_R = "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+const NS_WP = "http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing";
+const NS_A = "http://schemas.openxmlformats.org/drawingml/2006/main";
+const NS_PIC = "http://schemas.openxmlformats.org/drawingml/2006/picture";
+const REL_TYPE = "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+
+/** Widest image on a portrait page with one-inch margins, in pixels at 96 dpi. */
+const MAX_IMAGE_WIDTH = 624;
+const EMU_PER_PIXEL = 9525;
+/** Usable page width in twentieths of a point. */
+const PAGE_WIDTH_TWIPS = 9360;
+
+function xml(value: string): string {
+	return value
+		.replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, "")
+		.replace(/&/g, "&amp;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;")
+		.replace(/"/g, "&quot;");
+}
+
+/** Marked keeps entities in text tokens as written; Word needs the characters. */
+function decodeEntities(value: string): string {
+	return value
+		.replace(/&lt;/g, "<")
+		.replace(/&gt;/g, ">")
+		.replace(/&quot;/g, '"')
+		.replace(/&#39;/g, "'")
+		.replace(/&nbsp;/g, " ")
+		.replace(/&amp;/g, "&");
+}
+
+function run(text: string, style: RunStyle): string {
+	if (!text) return "";
+	const props = [
+		style.link ? '<w:rStyle w:val="Hyperlink"/>' : style.code ? '<w:rStyle w:val="CodeChar"/>' : "",
+		style.bold ? "<w:b/>" : "",
+		style.italic ? "<w:i/>" : "",
+		style.strike ? "<w:strike/>" : "",
+	].join("");
+	const rPr = props ? `<w:rPr>${props}</w:rPr>` : "";
+	return text
+		.split("\n")
+		.map((line, index) => `<w:r>${rPr}${index > 0 ? "<w:br/>" : ""}<w:t xml:space="preserve">${xml(line)}</w:t></w:r>`)
+		.join("");
+}
+
+function addRelationship(writer: DocxWriter, type: string, target: string, external = false): string {
+	const id = `rId${writer.nextRelId++}`;
+	writer.relationships.push(
+		`<Relationship Id="${id}" Type="${REL_TYPE}/${type}" Target="${xml(target)}"${external ? ' TargetMode="External"' : ""}/>`,
+	);
+	return id;
+}
+
+function inlineRuns(writer: DocxWriter, tokens: Token[] | undefined, style: RunStyle): string {
+	if (!tokens) return "";
+	return tokens
+		.map((token) => {
+			switch (token.type) {
+				case "strong":
+					return inlineRuns(writer, token.tokens, { ...style, bold: true });
+				case "em":
+					return inlineRuns(writer, token.tokens, { ...style, italic: true });
+				case "del":
+					return inlineRuns(writer, token.tokens, { ...style, strike: true });
+				case "codespan":
+					return run(token.text, { ...style, code: true });
+				case "br":
+					return "<w:r><w:br/></w:r>";
+				case "html":
+					return run(decodeEntities(token.text.replace(/<[^>]*>/g, "")), style);
+				case "image":
+					return run(token.text ? `[${token.text}]` : "", { ...style, italic: true });
+				case "link": {
+					const label = writer.content.linkLabel?.(token.href);
+					if (label != null) return run(label, style);
+					if (!/^(https?:|mailto:)/i.test(token.href)) return inlineRuns(writer, token.tokens, style);
+					const id = addRelationship(writer, "hyperlink", token.href, true);
+					return `<w:hyperlink r:id="${id}">${inlineRuns(writer, token.tokens, { ...style, link: true })}</w:hyperlink>`;
+				}
+				case "text":
+					return token.tokens ? inlineRuns(writer, token.tokens, style) : run(decodeEntities(token.text), style);
+				case "escape":
+					return run(token.text, style);
+				default:
+					return "text" in token && typeof token.text === "string" ? run(decodeEntities(token.text), style) : "";
+			}
+		})
+		.join("");
+}
+
+function paragraph(runs: string, context: BlockContext, style?: string, extra = ""): string {
+	const props: string[] = [];
+	const paragraphStyle = style ?? (context.quote ? "Quote" : undefined);
+	if (paragraphStyle) props.push(`<w:pStyle w:val="${paragraphStyle}"/>`);
+	const item = context.item;
+	if (item && !item.numbered) {
+		item.numbered = true;
+		props.push(`<w:numPr><w:ilvl w:val="${item.level}"/><w:numId w:val="${item.numId}"/></w:numPr>`);
+		if (item.checkbox) runs = run(item.checkbox, {}) + runs;
+	} else if (item) {
+		props.push(`<w:ind w:left="${720 * (item.level + 1)}"/>`);
+	}
+	props.push(extra);
+	const pPr = props.join("");
+	return `<w:p>${pPr ? `<w:pPr>${pPr}</w:pPr>` : ""}${runs}</w:p>`;
+}
+
+function image(writer: DocxWriter, img: DocxImage, name: string): string {
+	const index = writer.media.length + 1;
+	const path = `media/image${index}.png`;
+	writer.media.push({ path: `word/${path}`, content: img.png });
+	const id = addRelationship(writer, "image", path);
+	const drawingId = writer.nextDrawingId++;
+	const scale = Math.min(1, MAX_IMAGE_WIDTH / Math.max(img.width, 1));
+	const cx = Math.round(img.width * scale * EMU_PER_PIXEL);
+	const cy = Math.round(img.height * scale * EMU_PER_PIXEL);
+	return (
+		`<w:r><w:drawing><wp:inline distT="0" distB="0" distL="0" distR="0">` +
+		`<wp:extent cx="${cx}" cy="${cy}"/><wp:docPr id="${drawingId}" name="${xml(name)} ${drawingId}"/>` +
+		`<a:graphic xmlns:a="${NS_A}"><a:graphicData uri="${NS_PIC}"><pic:pic xmlns:pic="${NS_PIC}">` +
+		`<pic:nvPicPr><pic:cNvPr id="0" name="image${index}.png"/><pic:cNvPicPr/></pic:nvPicPr>` +
+		`<pic:blipFill><a:blip r:embed="${id}"/><a:stretch><a:fillRect/></a:stretch></pic:blipFill>` +
+		`<pic:spPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="${cx}" cy="${cy}"/></a:xfrm><a:prstGeom prst="rect"><a:avLst/></a:prstGeom></pic:spPr>` +
+		`</pic:pic></a:graphicData></a:graphic></wp:inline></w:drawing></w:r>`
+	);
+}
+
+/** Registers a list instance so numbered lists restart at their own start value. */
+function addList(writer: DocxWriter, ordered: boolean, level: number, start: number): number {
+	const numId = writer.nextNumId++;
+	const override = ordered
+		? `<w:lvlOverride w:ilvl="${level}"><w:startOverride w:val="${start}"/></w:lvlOverride>`
+		: "";
+	writer.nums.push(`<w:num w:numId="${numId}"><w:abstractNumId w:val="${ordered ? 1 : 0}"/>${override}</w:num>`);
+	return numId;
+}
+
+function table(writer: DocxWriter, token: Tokens.Table): string {
+	const columns = token.header.length;
+	const width = Math.floor(PAGE_WIDTH_TWIPS / Math.max(columns, 1));
+	const border = (side: string) => `<w:${side} w:val="single" w:sz="4" w:space="0" w:color="BFBFBF"/>`;
+	const cell = (cell: Tokens.TableCell, header: boolean) => {
+		const jc = cell.align === "center" ? "center" : cell.align === "right" ? "right" : "";
+		const runs = inlineRuns(writer, cell.tokens, { bold: header });
+		const shading = header ? '<w:shd w:val="clear" w:color="auto" w:fill="F2F2F2"/>' : "";
+		return (
+			`<w:tc><w:tcPr><w:tcW w:w="${width}" w:type="dxa"/>${shading}</w:tcPr>` +
+			`<w:p><w:pPr><w:spacing w:before="0" w:after="0"/>${jc ? `<w:jc w:val="${jc}"/>` : ""}</w:pPr>${runs}</w:p></w:tc>`
+		);
+	};
+	const rows = [
+		`<w:tr><w:trPr><w:tblHeader/></w:trPr>${token.header.map((c) => cell(c, true)).join("")}</w:tr>`,
+		...token.rows.map((row) => `<w:tr>${row.map((c) => cell(c, false)).join("")}</w:tr>`),
+	];
+	return (
+		`<w:tbl><w:tblPr><w:tblW w:w="5000" w:type="pct"/>` +
+		`<w:tblBorders>${["top", "left", "bottom", "right", "insideH", "insideV"].map(border).join("")}</w:tblBorders>` +
+		`<w:tblCellMar><w:top w:w="60" w:type="dxa"/><w:left w:w="100" w:type="dxa"/><w:bottom w:w="60" w:type="dxa"/><w:right w:w="100" w:type="dxa"/></w:tblCellMar>` +
+		`</w:tblPr><w:tblGrid>${`<w:gridCol w:w="${width}"/>`.repeat(columns)}</w:tblGrid>${rows.join("")}</w:tbl>` +
+		// Word merges a table with whatever follows unless a paragraph separates them.
+		`<w:p/>`
+	);
+}
+
+function blocks(writer: DocxWriter, tokens: Token[], context: BlockContext): string {
+	return tokens
+		.map((token) => {
+			switch (token.type) {
+				case "heading": {
+					const number = writer.content.headingNumber?.(token.depth);
+					const runs = (number ? run(`${number} `, {}) : "") + inlineRuns(writer, token.tokens, {});
+					return paragraph(runs, {}, `Heading${Math.min(token.depth, 4)}`);
+				}
+				case "paragraph":
+				case "text":
+					return paragraph(inlineRuns(writer, token.tokens ?? [{ type: "text", raw: token.raw, text: token.text }], {}), context);
+				case "code": {
+					const img = writer.content.codeImage?.(token as Tokens.Code);
+					if (img) return paragraph(image(writer, img, "Diagram"), context, "Figure");
+					return paragraph(run(token.text, {}), context, "Code");
+				}
+				case "blockquote":
+					return blocks(writer, token.tokens ?? [], { ...context, quote: true });
+				case "list": {
+					const list = token as Tokens.List;
+					const level = context.item ? context.item.level + 1 : 0;
+					const numId = addList(writer, list.ordered, level, typeof list.start === "number" ? list.start : 1);
+					return list.items
+						.map((item) => {
+							const checkbox = item.task ? (item.checked ? "☑ " : "☐ ") : undefined;
+							return blocks(writer, item.tokens, { quote: context.quote, item: { numId, level, numbered: false, checkbox } });
+						})
+						.join("");
+				}
+				case "table":
+					return table(writer, token as Tokens.Table);
+				case "hr":
+					return paragraph("", context, undefined, '<w:pBdr><w:bottom w:val="single" w:sz="6" w:space="1" w:color="BFBFBF"/></w:pBdr>');
+				case "html": {
+					const text = decodeEntities(token.text.replace(/<[^>]*>/g, "")).trim();
+					return text ? paragraph(run(text, {}), context) : "";
+				}
+				default:
+					return "";
+			}
+		})
+		.join("");
+}
+
+function stylesXml(): string {
+	const heading = (level: number, size: number, before: number) =>
+		`<w:style w:type="paragraph" w:styleId="Heading${level}"><w:name w:val="heading ${level}"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:uiPriority w:val="9"/><w:qFormat/>` +
+		`<w:pPr><w:keepNext/><w:keepLines/><w:spacing w:before="${before}" w:after="80"/><w:outlineLvl w:val="${level - 1}"/></w:pPr>` +
+		`<w:rPr><w:b/><w:color w:val="1F2937"/><w:sz w:val="${size}"/></w:rPr></w:style>`;
+	return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles xmlns:w="${NS_W}">
+<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:eastAsia="Calibri" w:cs="Calibri"/><w:sz w:val="22"/><w:lang w:val="en-US"/></w:rPr></w:rPrDefault><w:pPrDefault><w:pPr><w:spacing w:after="120" w:line="276" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults>
+<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>
+<w:style w:type="character" w:default="1" w:styleId="DefaultParagraphFont"><w:name w:val="Default Paragraph Font"/><w:uiPriority w:val="1"/><w:semiHidden/></w:style>
+<w:style w:type="paragraph" w:styleId="Title"><w:name w:val="Title"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/><w:pPr><w:spacing w:after="60"/></w:pPr><w:rPr><w:b/><w:color w:val="111827"/><w:sz w:val="48"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Subtitle"><w:name w:val="Subtitle"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/><w:rPr><w:color w:val="4B5563"/><w:sz w:val="26"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Meta"><w:name w:val="Meta"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:pPr><w:pBdr><w:bottom w:val="single" w:sz="4" w:space="4" w:color="D1D5DB"/></w:pBdr><w:spacing w:after="240"/></w:pPr><w:rPr><w:color w:val="6B7280"/><w:sz w:val="18"/></w:rPr></w:style>
+${heading(1, 36, 360)}
+${heading(2, 30, 320)}
+${heading(3, 26, 240)}
+${heading(4, 23, 200)}
+<w:style w:type="paragraph" w:styleId="Code"><w:name w:val="Code"/><w:basedOn w:val="Normal"/><w:pPr><w:shd w:val="clear" w:color="auto" w:fill="F3F4F6"/><w:spacing w:after="160" w:line="240" w:lineRule="auto"/><w:ind w:left="144" w:right="144"/></w:pPr><w:rPr><w:rFonts w:ascii="Consolas" w:hAnsi="Consolas" w:cs="Consolas"/><w:sz w:val="19"/></w:rPr></w:style>
+<w:style w:type="character" w:styleId="CodeChar"><w:name w:val="Code Char"/><w:rPr><w:rFonts w:ascii="Consolas" w:hAnsi="Consolas" w:cs="Consolas"/><w:sz w:val="20"/><w:shd w:val="clear" w:color="auto" w:fill="F3F4F6"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Quote"><w:name w:val="Quote"/><w:basedOn w:val="Normal"/><w:qFormat/><w:pPr><w:pBdr><w:left w:val="single" w:sz="18" w:space="8" w:color="D1D5DB"/></w:pBdr><w:ind w:left="360"/></w:pPr><w:rPr><w:color w:val="4B5563"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Figure"><w:name w:val="Figure"/><w:basedOn w:val="Normal"/><w:pPr><w:jc w:val="center"/><w:spacing w:before="120" w:after="240"/></w:pPr></w:style>
+<w:style w:type="character" w:styleId="Hyperlink"><w:name w:val="Hyperlink"/><w:rPr><w:color w:val="0563C1"/><w:u w:val="single"/></w:rPr></w:style>
+</w:styles>`;
+}
+
+function numberingXml(nums: string[]): string {
+	const bullets = ["•", "◦", "▪"];
+	const levels = (ordered: boolean) =>
+		Array.from({ length: 9 }, (_, level) => {
+			const format = ordered
+				? `<w:numFmt w:val="${["decimal", "lowerLetter", "lowerRoman"][level % 3]}"/><w:lvlText w:val="%${level + 1}."/>`
+				: `<w:numFmt w:val="bullet"/><w:lvlText w:val="${bullets[level % 3]}"/>`;
+			return (
+				`<w:lvl w:ilvl="${level}"><w:start w:val="1"/>${format}<w:lvlJc w:val="left"/>` +
+				`<w:pPr><w:ind w:left="${720 * (level + 1)}" w:hanging="360"/></w:pPr></w:lvl>`
+			);
+		}).join("");
+	return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:numbering xmlns:w="${NS_W}">
+<w:abstractNum w:abstractNumId="0"><w:multiLevelType w:val="hybridMultilevel"/>${levels(false)}</w:abstractNum>
+<w:abstractNum w:abstractNumId="1"><w:multiLevelType w:val="hybridMultilevel"/>${levels(true)}</w:abstractNum>
+${nums.join("\n")}
+</w:numbering>`;
+}
+
+/**
+ * Builds a Word document from markdown tokens. Only the parts of OOXML that
+ * docs use are written: styled paragraphs, lists, tables, links and PNGs.
+ */
+export function createDocx(content: DocxContent, created = new Date()): Blob {
+	const writer: DocxWriter = {
+		content,
+		relationships: [],
+		media: [],
+		nums: [],
+		nextNumId: 1,
+		nextRelId: 3,
+		nextDrawingId: 1,
+	};
+	const front = [
+		paragraph(run(content.title, {}), {}, "Title"),
+		content.subtitle ? paragraph(run(content.subtitle, {}), {}, "Subtitle") : "",
+		content.meta ? paragraph(run(content.meta, {}), {}, "Meta") : "",
+	].join("");
+	const body = blocks(writer, content.tokens, {});
+
+	const document = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="${NS_W}" xmlns:r="${NS_R}" xmlns:wp="${NS_WP}">
+<w:body>${front}${body}<w:sectPr><w:pgSz w:w="12240" w:h="15840"/><w:pgMar w:top="1440" w:right="1440" w:bottom="1440" w:left="1440" w:header="720" w:footer="720" w:gutter="0"/></w:sectPr></w:body>
+</w:document>`;
+
+	const documentRels = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="${REL_TYPE}/styles" Target="styles.xml"/>
+<Relationship Id="rId2" Type="${REL_TYPE}/numbering" Target="numbering.xml"/>
+${writer.relationships.join("\n")}
+</Relationships>`;
+
+	const contentTypes = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Default Extension="png" ContentType="image/png"/>
+<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>
+<Override PartName="/word/numbering.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.numbering+xml"/>
+<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>
+</Types>`;
+
+	const packageRels = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="${REL_TYPE}/officeDocument" Target="word/document.xml"/>
+<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>
+</Relationships>`;
+
+	const core = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">
+<dc:title>${xml(content.title)}</dc:title>
+<dcterms:created xsi:type="dcterms:W3CDTF">${created.toISOString().replace(/\.\d+Z$/, "Z")}</dcterms:created>
+</cp:coreProperties>`;
+
+	const zip = createZip(
+		[
+			{ path: "[Content_Types].xml", content: contentTypes },
+			{ path: "_rels/.rels", content: packageRels },
+			{ path: "docProps/core.xml", content: core },
+			{ path: "word/document.xml", content: document },
+			{ path: "word/_rels/document.xml.rels", content: documentRels },
+			{ path: "word/styles.xml", content: stylesXml() },
+			{ path: "word/numbering.xml", content: numberingXml(writer.nums) },
+			...writer.media,
+		],
+		created,
+	);
+	return new Blob([zip], { type: "application/vnd.openxmlformats-officedocument.wordprocessingml.document" });
+}
@@ -178,3 +178,44 @@ export function onVisibilityChange(callback: (visible: boolean) => void): () =>
 	document.addEventListener("visibilitychange", handler);
 	return () => document.removeEventListener("visibilitychange", handler);
 }
+
+// Desktop notifications (Notification API)
+export function getNotificationPermission(): NotificationPermission | "unsupported" {
+	if (typeof Notification === "undefined") return "unsupported";
+	return Notification.permission;
+}
+
+// Ask for permission; must be called from a user gesture in most browsers
+export async function requestNotificationPermission(): Promise<NotificationPermission | "unsupported"> {
+	if (typeof Notification === "undefined") return "unsupported";
+	if (Notification.permission !== "default") return Notification.permission;
+	try {
+		return await Notification.requestPermission();
+	} catch {
+		return Notification.permission;
+	}
+}
+
+// Show a desktop notification if permission was granted; returns whether it was shown
+export function showBrowserNotification(
+	title: string,
+	options: { body?: string; tag?: string; onClick?: () => void } = {},
+): boolean {
+	if (getNotificationPermission() !== "granted") return false;
+	try {
+		const notification = new Notification(title, {
+			body: options.body,
+			tag: options.tag,
+			icon: "/favicon-32.png",
+		});
+		notification.onclick = () => {
+			window.focus();
+			options.onClick?.();
+			notification.close();
+		};
+		return true;
+	} catch {
+		// Some browsers only allow notifications from a service worker
+		return false;
+	}
+}
@@ -0,0 +1,265 @@
+/**
+ * Offline cache backed by IndexedDB.
+ *
+ * Keeps the last task and doc payloads the server returned so the board and
+ * table can render while the server is unreachable, plus an outbox of task
+ * mutations made in the meantime. The outbox is replayed by
+ * OfflineSyncProvider once SSE reconnects.
+ */
+
+import type { Task } from "@/ui/models/task";
+
+const DB_NAME = "knowns-offline-v1";
+const DB_VERSION = 1;
+const SNAPSHOT_STORE = "snapshots";
+const OUTBOX_STORE = "outbox";
+
+const TASKS_KEY = "tasks";
+const DOCS_KEY = "docs";
+const DOC_KEY_PREFIX = "doc:";
+
+export interface OfflineTaskConflict {
+	/** Server copy of the task at the time the replay was attempted. */
+	server: Task;
+	detectedAt: number;
+	/** Server error when it refused the update rather than the task moving on. */
+	rejected?: string;
+}
+
+interface OfflineMutationBase {
+	id: string;
+	taskId: string;
+	queuedAt: number;
+}
+
+export interface OfflineTaskUpdate extends OfflineMutationBase {
+	kind: "update";
+	patch: Partial<Task>;
+	/** updatedAt of the server copy the edit was based on (ms since epoch). */
+	baseUpdatedAt?: number;
+	/** Cached task before the first queued edit, used to show "base" values. */
+	base?: Task;
+	conflict?: OfflineTaskConflict;
+}
+
+export interface OfflineTaskCreate extends OfflineMutationBase {
+	kind: "create";
+	data: Partial<Task>;
+}
+
+export interface OfflineTaskReorder extends OfflineMutationBase {
+	kind: "reorder";
+	orders: Array<{ id: string; order: number }>;
+}
+
+export type OfflineMutation = OfflineTaskUpdate | OfflineTaskCreate | OfflineTaskReorder;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+const listeners = new Set<() => void>();
+
+function openDB(): Promise<IDBDatabase> {
+	if (dbPromise) return dbPromise;
+	dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+		if (typeof indexedDB === "undefined") {
+			reject(new Error("IndexedDB is not available"));
+			return;
+		}
+		const request = indexedDB.open(DB_NAME, DB_VERSION);
+		request.onupgradeneeded = () => {
+			const db = request.result;
+			if (!db.objectStoreNames.contains(SNAPSHOT_STORE)) db.createObjectStore(SNAPSHOT_STORE);
+			if (!db.objectStoreNames.contains(OUTBOX_STORE)) db.createObjectStore(OUTBOX_STORE, { keyPath: "id" });
+		};
+		request.onsuccess = () => resolve(request.result);
+		request.onerror = () => reject(request.error);
+	});
+	// Allow a later retry if the first open failed (e.g. private browsing).
+	dbPromise.catch(() => {
+		dbPromise = null;
+	});
+	return dbPromise;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+	return new Promise((resolve, reject) => {
+		request.onsuccess = () => resolve(request.result);
+		request.onerror = () => reject(request.error);
+	});
+}
+
+async function withStore<T>(
+	storeName: string,
+	mode: IDBTransactionMode,
+	run: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+	const db = await openDB();
+	const tx = db.transaction(storeName, mode);
+	const done = new Promise<void>((resolve, reject) => {
+		tx.oncomplete = () => resolve();
+		tx.onerror = () => reject(tx.error);
+		tx.onabort = () => reject(tx.error);
+	});
+	const result = await requestToPromise(run(tx.objectStore(storeName)));
+	await done;
+	return result;
+}
+
+function notify() {
+	for (const listener of listeners) {
+		try {
+			listener();
+		} catch (error) {
+			console.error("Error in offline outbox listener:", error);
+		}
+	}
+}
+
+/** Generate a short random id for outbox entries. */
+function outboxId(): string {
+	return Math.random().toString(36).slice(2, 10) + Date.now().toString(36).slice(-4);
+}
+
+/** Generate a task ID in the server's 6-character base36 format. */
+export function newOfflineTaskId(): string {
+	return Math.floor(Math.random() * 36 ** 6).toString(36).padStart(6, "0");
+}
+
+// ─── Snapshots ───────────────────────────────────────────────────────────────
+
+async function readSnapshot<T>(key: string): Promise<T | undefined> {
+	try {
+		return (await withStore(SNAPSHOT_STORE, "readonly", (store) => store.get(key))) as T | undefined;
+	} catch {
+		return undefined;
+	}
+}
+
+async function writeSnapshot(key: string, value: unknown): Promise<void> {
+	try {
+		await withStore(SNAPSHOT_STORE, "readwrite", (store) => store.put(value, key));
+	} catch {
+		// Cache writes are best-effort; the online path never depends on them.
+	}
+}
+
+export function readCachedTasks(): Promise<Task[] | undefined> {
+	return readSnapshot<Task[]>(TASKS_KEY);
+}
+
+export function writeCachedTasks(tasks: Task[]): Promise<void> {
+	return writeSnapshot(TASKS_KEY, tasks);
+}
+
+export async function readCachedTask(id: string): Promise<Task | undefined> {
+	const tasks = await readCachedTasks();
+	return tasks?.find((task) => task.id === id);
+}
+
+/** Insert or replace a single task in the cached task list. */
+export async function upsertCachedTask(task: Task): Promise<void> {
+	const tasks = (await readCachedTasks()) || [];
+	const index = tasks.findIndex((item) => item.id === task.id);
+	if (index >= 0) {
+		tasks[index] = task;
+	} else {
+		tasks.push(task);
+	}
+	await writeCachedTasks(tasks);
+}
+
+export function readCachedDocs<T>(): Promise<T[] | undefined> {
+	return readSnapshot<T[]>(DOCS_KEY);
+}
+
+export function writeCachedDocs(docs: unknown[]): Promise<void> {
+	return writeSnapshot(DOCS_KEY, docs);
+}
+
+export function readCachedDoc<T>(path: string): Promise<T | undefined> {
+	return readSnapshot<T>(`${DOC_KEY_PREFIX}${path}`);
+}
+
+export function writeCachedDoc(path: string, doc: unknown): Promise<void> {
+	return writeSnapshot(`${DOC_KEY_PREFIX}${path}`, doc);
+}
+
+/** Drop every snapshot and queued mutation (used when switching projects). */
+export async function clearOfflineCache(): Promise<void> {
+	try {
+		await withStore(SNAPSHOT_STORE, "readwrite", (store) => store.clear());
+		await withStore(OUTBOX_STORE, "readwrite", (store) => store.clear());
+	} catch {
+		// ignore
+	}
+	notify();
+}
+
+// ─── Outbox ──────────────────────────────────────────────────────────────────
+
+export async function listOutbox(): Promise<OfflineMutation[]> {
+	try {
+		const items = (await withStore(OUTBOX_STORE, "readonly", (store) => store.getAll())) as OfflineMutation[];
+		return items.sort((a, b) => a.queuedAt - b.queuedAt);
+	} catch {
+		return [];
+	}
+}
+
+export async function saveOutbox(mutation: OfflineMutation): Promise<void> {
+	await withStore(OUTBOX_STORE, "readwrite", (store) => store.put(mutation));
+	notify();
+}
+
+export async function removeOutbox(id: string): Promise<void> {
+	await withStore(OUTBOX_STORE, "readwrite", (store) => store.delete(id));
+	notify();
+}
+
+/**
+ * Queue a task update. Consecutive offline edits to the same task are
+ * coalesced into one entry, a conflicted one included, so conflict detection
+ * and the conflict dialog keep the original server base. Edits to a task
+ * created offline are folded into its queued create.
+ */
+export async function enqueueTaskUpdate(taskId: string, patch: Partial<Task>, base?: Task): Promise<void> {
+	const outbox = await listOutbox();
+	const pendingCreate = outbox.find(
+		(item): item is OfflineTaskCreate => item.kind === "create" && item.taskId === taskId,
+	);
+	if (pendingCreate) {
+		await saveOutbox({ ...pendingCreate, data: { ...pendingCreate.data, ...patch } });
+		return;
+	}
+	const pending = outbox.find(
+		(item): item is OfflineTaskUpdate => item.kind === "update" && item.taskId === taskId,
+	);
+	if (pending) {
+		await saveOutbox({ ...pending, patch: { ...pending.patch, ...patch } });
+		return;
+	}
+	await saveOutbox({
+		id: outboxId(),
+		kind: "update",
+		taskId,
+		patch,
+		base,
+		baseUpdatedAt: base ? new Date(base.updatedAt).getTime() : undefined,
+		queuedAt: Date.now(),
+	});
+}
+
+export async function enqueueTaskCreate(taskId: string, data: Partial<Task>): Promise<void> {
+	await saveOutbox({ id: outboxId(), kind: "create", taskId, data, queuedAt: Date.now() });
+}
+
+export async function enqueueTaskReorder(orders: Array<{ id: string; order: number }>): Promise<void> {
+	await saveOutbox({ id: outboxId(), kind: "reorder", taskId: "", orders, queuedAt: Date.now() });
+}
+
+/** Subscribe to outbox changes. Returns an unsubscribe function. */
+export function onOutboxChange(listener: () => void): () => void {
+	listeners.add(listener);
+	return () => {
+		listeners.delete(listener);
+	};
+}
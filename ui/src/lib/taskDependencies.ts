@@ -0,0 +1,159 @@
+import type { Task } from "../models/task";
+
+/**
+ * Task dependency helpers. `dependsOn` is the only persisted direction;
+ * "blocks" is always derived from it, so both sides stay consistent.
+ * The server rejects self-dependencies and cycles
+ * (internal/tasklifecycle/dependencies.go); these helpers give the UI the
+ * same answers before a request is made.
+ */
+
+export function isTaskClosed(task: Task): boolean {
+	return task.status === "done" || task.archived;
+}
+
+/** Dependencies of task that are not done yet. Unknown IDs never block. */
+export function getOpenDependencies(task: Task, tasksById: Map<string, Task>): Task[] {
+	const open: Task[] = [];
+	for (const id of task.dependsOn ?? []) {
+		const dep = tasksById.get(id);
+		if (dep && !isTaskClosed(dep)) open.push(dep);
+	}
+	return open;
+}
+
+/** Tasks that list taskId in their dependsOn. */
+export function getBlockedTasks(taskId: string, tasks: Task[]): Task[] {
+	return tasks.filter((task) => task.dependsOn?.includes(taskId));
+}
+
+function dependencyGraph(tasks: Task[]): Map<string, string[]> {
+	const ids = new Set(tasks.map((task) => task.id));
+	return new Map(tasks.map((task) => [task.id, (task.dependsOn ?? []).filter((id) => ids.has(id))]));
+}
+
+/**
+ * True when making `taskId` depend on `dependencyId` would close a cycle,
+ * i.e. dependencyId already (transitively) depends on taskId.
+ */
+export function wouldCreateCycle(tasks: Task[], taskId: string, dependencyId: string): boolean {
+	if (taskId === dependencyId) return true;
+	const graph = dependencyGraph(tasks);
+	const seen = new Set<string>();
+	const stack = [dependencyId];
+	while (stack.length > 0) {
+		const id = stack.pop()!;
+		if (id === taskId) return true;
+		if (seen.has(id)) continue;
+		seen.add(id);
+		stack.push(...(graph.get(id) ?? []));
+	}
+	return false;
+}
+
+/** Every dependency cycle among tasks, each as a path whose first ID is repeated at the end. */
+export function findDependencyCycles(tasks: Task[]): string[][] {
+	const graph = dependencyGraph(tasks);
+	const state = new Map<string, "visiting" | "done">();
+	const path: string[] = [];
+	const cycles: string[][] = [];
+
+	const visit = (id: string) => {
+		state.set(id, "visiting");
+		path.push(id);
+		for (const dep of graph.get(id) ?? []) {
+			const depState = state.get(dep);
+			if (depState === "visiting") {
+				cycles.push([...path.slice(path.indexOf(dep)), dep]);
+			} else if (!depState) {
+				visit(dep);
+			}
+		}
+		path.pop();
+		state.set(id, "done");
+	};
+
+	for (const id of graph.keys()) {
+		if (!state.has(id)) visit(id);
+	}
+	return cycles;
+}
+
+export interface CriticalPath {
+	/** Task IDs in execution order (first must finish first). */
+	taskIds: string[];
+	/** "dependent->dependency" keys for the dependency edges on the path. */
+	edges: Set<string>;
+	/** Cycles found; tasks on them are left out of the path. */
+	cycles: string[][];
+}
+
+export function dependencyEdgeKey(taskId: string, dependencyId: string): string {
+	return `${taskId}->${dependencyId}`;
+}
+
+/**
+ * Longest chain of open tasks through the dependency DAG: the sequence that
+ * bounds how soon the last task can finish when every task counts as one
+ * unit of work. Done and archived tasks count as zero. Tasks on a cycle are
+ * excluded, since a cycle has no valid order.
+ */
+export function computeCriticalPath(tasks: Task[]): CriticalPath {
+	const cycles = findDependencyCycles(tasks);
+	const onCycle = new Set(cycles.flat());
+	const byId = new Map(tasks.filter((task) => !onCycle.has(task.id)).map((task) => [task.id, task]));
+	const graph = dependencyGraph([...byId.values()]);
+
+	// length[id] = open work on the longest chain ending at id (inclusive).
+	const length = new Map<string, number>();
+	const previous = new Map<string, string | null>();
+	const resolve = (id: string): number => {
+		const known = length.get(id);
+		if (known !== undefined) return known;
+		let best = 0;
+		let bestDep: string | null = null;
+		for (const dep of graph.get(id) ?? []) {
+			const depLength = resolve(dep);
+			if (depLength > best) {
+				best = depLength;
+				bestDep = dep;
+			}
+		}
+		const task = byId.get(id)!;
+		const total = best + (isTaskClosed(task) ? 0 : 1);
+		length.set(id, total);
+		previous.set(id, bestDep);
+		return total;
+	};
+
+	let end: string | null = null;
+	let endLength = 0;
+	for (const id of byId.keys()) {
+		const total = resolve(id);
+		if (total > endLength) {
+			endLength = total;
+			end = id;
+		}
+	}
+	// A single task is not a path worth highlighting.
+	const taskIds: string[] = [];
+	for (let id = end; id; id = previous.get(id) ?? null) taskIds.unshift(id);
+	if (taskIds.length < 2) return { taskIds: [], edges: new Set(), cycles };
+
+	const edges = new Set<string>();
+	for (let i = 1; i < taskIds.length; i++) {
+		edges.add(dependencyEdgeKey(taskIds[i]!, taskIds[i - 1]!));
+	}
+	return { taskIds, edges, cycles };
+}
+
+/**
+ * Warning text for moving task to status while dependencies are open, or null.
+ * Starting work early is allowed; the UI only warns.
+ */
+export function getStartWarning(task: Task, status: string, tasks: Task[]): string | null {
+	if (status !== "in-progress" || task.status === status) return null;
+	const open = getOpenDependencies(task, new Map(tasks.map((t) => [t.id, t])));
+	if (open.length === 0) return null;
+	return `Still waiting on ${open.map((dep) => `#${dep.id} ${dep.title}`).join(", ")}`;
+}
@@ -0,0 +1,55 @@
+import type { Task } from "../models/task";
+import { isTaskClosed } from "./taskDependencies";
+import { daysBetween, parseTaskDate, startOfDay } from "./taskTimeline";
+
+/**
+ * Due-date helpers shared by the task table, the dashboard card and the
+ * reminder hook. Due dates are calendar days in the viewer's time zone, so
+ * a task is overdue from the day after its due date.
+ */
+
+export type DueState = "overdue" | "today" | "soon" | "later";
+
+/** Days until a task is "due this week", today included. */
+export const DUE_SOON_DAYS = 7;
+
+/** Where an open task's due date falls relative to today, or null. */
+export function getDueState(task: Task, today: Date = new Date()): DueState | null {
+	const due = parseTaskDate(task.dueDate);
+	if (!due || isTaskClosed(task)) return null;
+	const days = daysBetween(startOfDay(today), due);
+	if (days < 0) return "overdue";
+	if (days === 0) return "today";
+	if (days < DUE_SOON_DAYS) return "soon";
+	return "later";
+}
+
+export interface DueBuckets {
+	/** Open tasks past their due date, most overdue first. */
+	overdue: Task[];
+	/** Open tasks due today or within the next week, soonest first. */
+	dueSoon: Task[];
+}
+
+export function getDueBuckets(tasks: Task[], today: Date = new Date()): DueBuckets {
+	const overdue: Task[] = [];
+	const dueSoon: Task[] = [];
+	for (const task of tasks) {
+		const state = getDueState(task, today);
+		if (state === "overdue") overdue.push(task);
+		else if (state === "today" || state === "soon") dueSoon.push(task);
+	}
+	const byDue = (a: Task, b: Task) => (a.dueDate ?? "").localeCompare(b.dueDate ?? "");
+	return { overdue: overdue.sort(byDue), dueSoon: dueSoon.sort(byDue) };
+}
+
+/** Short relative label such as "2d overdue", "today" or "in 3d". */
+export function formatDueLabel(task: Task, today: Date = new Date()): string {
+	const due = parseTaskDate(task.dueDate);
+	if (!due) return "";
+	const days = daysBetween(startOfDay(today), due);
+	if (days < 0) return `${-days}d overdue`;
+	if (days === 0) return "today";
+	if (days === 1) return "tomorrow";
+	return `in ${days}d`;
+}
@@ -0,0 +1,87 @@
+import type { Task } from "@/ui/models/task";
+import type { MergeField } from "./threeWayMerge";
+
+const TEXT_FIELDS = new Set<string>(["title", "description", "implementationPlan", "implementationNotes"]);
+
+const FIELD_LABELS: Record<string, string> = {
+	title: "Title",
+	description: "Description",
+	status: "Status",
+	priority: "Priority",
+	assignee: "Assignee",
+	labels: "Labels",
+	acceptanceCriteria: "Acceptance Criteria",
+	implementationPlan: "Implementation Plan",
+	implementationNotes: "Implementation Notes",
+	milestone: "Milestone",
+	startDate: "Start Date",
+	dueDate: "Due Date",
+	dependsOn: "Depends On",
+};
+
+function display(value: unknown): string {
+	if (value === null || value === undefined) return "";
+	if (typeof value === "string") return value;
+	if (value instanceof Date) return value.toISOString();
+	if (Array.isArray(value)) {
+		return value
+			.map((item) =>
+				typeof item === "object" && item !== null && "text" in item
+					? `[${(item as { completed?: boolean }).completed ? "x" : " "}] ${(item as { text: string }).text}`
+					: String(item),
+			)
+			.join("\n");
+	}
+	if (typeof value === "object") return JSON.stringify(value, null, 2);
+	return String(value);
+}
+
+function same(a: unknown, b: unknown): boolean {
+	return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+export interface TaskMerge {
+	/** Changes that apply cleanly on top of the server copy. */
+	patch: Partial<Task>;
+	/** Fields changed both locally and on the server. */
+	fields: MergeField[];
+}
+
+/**
+ * Splits a patch rejected as stale into the part that still applies on top of
+ * theirs and the fields both sides changed differently.
+ */
+export function mergeTaskPatch(base: Task, mine: Partial<Task>, theirs: Task): TaskMerge {
+	const patch: Record<string, unknown> = {};
+	const fields: MergeField[] = [];
+	for (const key of Object.keys(mine) as Array<keyof Task>) {
+		const ours = mine[key];
+		if (same(theirs[key], base[key])) {
+			patch[key] = ours;
+			continue;
+		}
+		// Unchanged here, or changed the same way there: keep theirs.
+		if (same(ours, base[key]) || same(ours, theirs[key])) continue;
+		fields.push({
+			key,
+			label: FIELD_LABELS[key] ?? key,
+			base: display(base[key]),
+			mine: display(ours),
+			theirs: display(theirs[key]),
+			atomic: !TEXT_FIELDS.has(key),
+		});
+	}
+	return { patch: patch as Partial<Task>, fields };
+}
+
+/** The patch to save after the conflicting fields were resolved. */
+export function resolvedTaskPatch(merge: TaskMerge, mine: Partial<Task>, resolved: Record<string, string>): Partial<Task> {
+	const patch: Record<string, unknown> = { ...merge.patch };
+	for (const field of merge.fields) {
+		const value = resolved[field.key];
+		if (value === undefined) continue;
+		if (!field.atomic) patch[field.key] = value;
+		else if (value === field.mine) patch[field.key] = mine[field.key as keyof Task];
+	}
+	return patch as Partial<Task>;
+}
@@ -0,0 +1,243 @@
+import type { Task } from "../models/task";
+
+/**
+ * Task filter query language shared by the table, grouped, Notion-list and
+ * Kanban views, e.g.
+ *
+ *   status:in-progress label:backend assignee:@me spec:specs/auth milestone:sprint-12 ac:incomplete updated:<7d
+ *
+ * - `key:value` terms are ANDed; `key:a,b` matches either value.
+ * - A leading `-` negates a term (`-label:wontfix`).
+ * - Values with spaces are quoted (`label:"needs review"`).
+ * - Anything else is free text matched against id, title, description,
+ *   assignee and labels.
+ */
+
+export const TASK_QUERY_KEYS = [
+	"status",
+	"priority",
+	"label",
+	"assignee",
+	"spec",
+	"milestone",
+	"ac",
+	"parent",
+	"id",
+	"updated",
+	"created",
+] as const;
+
+export type TaskQueryKey = (typeof TASK_QUERY_KEYS)[number];
+
+export interface TaskQueryTerm {
+	key: TaskQueryKey;
+	values: string[];
+	negated: boolean;
+}
+
+export interface ParsedTaskQuery {
+	text: string[];
+	terms: TaskQueryTerm[];
+	errors: string[];
+}
+
+export interface TaskQueryContext {
+	/** Replaces `@me` in assignee terms. */
+	currentUser: string;
+	now?: number;
+}
+
+interface RawToken {
+	raw: string;
+	negated: boolean;
+	key?: string;
+	value: string;
+}
+
+const DURATION_UNITS: Record<string, number> = {
+	h: 60 * 60 * 1000,
+	d: 24 * 60 * 60 * 1000,
+	w: 7 * 24 * 60 * 60 * 1000,
+	m: 30 * 24 * 60 * 60 * 1000,
+};
+
+function isQueryKey(key: string): key is TaskQueryKey {
+	return (TASK_QUERY_KEYS as readonly string[]).includes(key);
+}
+
+function unquote(value: string): string {
+	return value.length >= 2 && value.startsWith("\"") && value.endsWith("\"") ? value.slice(1, -1) : value;
+}
+
+function tokenize(input: string): RawToken[] {
+	const tokens: RawToken[] = [];
+	const pattern = /(-?)(?:([a-z]+):)?("[^"]*"?|\S*)/gi;
+	for (const match of input.matchAll(pattern)) {
+		const [raw, minus, key, value = ""] = match;
+		if (!raw) continue;
+		tokens.push({
+			raw,
+			negated: minus === "-" && !!key,
+			key: key?.toLowerCase(),
+			value: unquote(key || !minus ? value : `-${value}`),
+		});
+	}
+	return tokens;
+}
+
+function quoteValue(value: string): string {
+	return /[\s"]/.test(value) ? `"${value.replace(/"/g, "")}"` : value;
+}
+
+/** A date comparison: `<7d` (within the last 7 days), `>2w`, `<2026-01-31`. */
+function parseDateValue(value: string): { op: "<" | ">"; at: number; relative: boolean } | null {
+	const match = value.match(/^([<>])(.+)$/);
+	if (!match?.[2]) return null;
+	const op = match[1] as "<" | ">";
+	const duration = match[2].match(/^(\d+)([hdwm])$/);
+	const unit = duration?.[2] ? DURATION_UNITS[duration[2]] : undefined;
+	if (unit) {
+		return { op, at: Number(duration![1]) * unit, relative: true };
+	}
+	const date = Date.parse(match[2]);
+	return Number.isNaN(date) ? null : { op, at: date, relative: false };
+}
+
+function validateTerm(term: TaskQueryTerm): string | null {
+	for (const value of term.values) {
+		if (term.key === "ac" && !["complete", "incomplete", "none"].includes(value)) {
+			return `ac: expects complete, incomplete or none (got "${value}")`;
+		}
+		if ((term.key === "updated" || term.key === "created") && !parseDateValue(value)) {
+			return `${term.key}: expects <7d, >2w or <YYYY-MM-DD (got "${value}")`;
+		}
+	}
+	return null;
+}
+
+export function parseTaskQuery(input: string): ParsedTaskQuery {
+	const parsed: ParsedTaskQuery = { text: [], terms: [], errors: [] };
+	for (const token of tokenize(input)) {
+		if (!token.key) {
+			if (token.value) parsed.text.push(token.value.toLowerCase());
+			continue;
+		}
+		if (!isQueryKey(token.key)) {
+			parsed.errors.push(`Unknown filter "${token.key}:"`);
+			continue;
+		}
+		const values = token.value.split(",").map((value) => value.trim()).filter(Boolean);
+		if (values.length === 0) continue;
+		const term: TaskQueryTerm = { key: token.key, values, negated: token.negated };
+		const error = validateTerm(term);
+		if (error) {
+			parsed.errors.push(error);
+			continue;
+		}
+		parsed.terms.push(term);
+	}
+	return parsed;
+}
+
+function normalizeAssignee(value: string, currentUser: string): string {
+	const resolved = value === "@me" ? currentUser : value;
+	return resolved.replace(/^@/, "").toLowerCase();
+}
+
+function normalizeSpec(value: string): string {
+	return value.replace(/^@?doc\//, "").replace(/\.md$/, "").replace(/\/+$/, "");
+}
+
+function matchesValue(task: Task, key: TaskQueryKey, value: string, ctx: TaskQueryContext, now: number): boolean {
+	switch (key) {
+		case "status":
+			return task.status === value;
+		case "priority":
+			return task.priority === value;
+		case "label":
+			return (task.labels ?? []).some((label) => label.toLowerCase() === value.toLowerCase());
+		case "assignee":
+			if (value === "none") return !task.assignee;
+			return !!task.assignee && normalizeAssignee(task.assignee, ctx.currentUser) === normalizeAssignee(value, ctx.currentUser);
+		case "spec": {
+			if (value === "none") return !task.spec;
+			if (!task.spec) return false;
+			const spec = normalizeSpec(task.spec);
+			const wanted = normalizeSpec(value);
+			return spec === wanted || spec.startsWith(`${wanted}/`);
+		}
+		case "milestone":
+			if (value === "none") return !task.milestone;
+			return task.milestone === value;
+		case "ac": {
+			const criteria = task.acceptanceCriteria ?? [];
+			if (value === "none") return criteria.length === 0;
+			const done = criteria.filter((ac) => ac.completed).length;
+			return value === "complete"
+				? criteria.length > 0 && done === criteria.length
+				: done < criteria.length;
+		}
+		case "parent":
+			if (value === "none" || value === "root") return !task.parent;
+			return task.parent === value;
+		case "id":
+			return task.id === value;
+		case "updated":
+		case "created": {
+			const comparison = parseDateValue(value);
+			const at = new Date(key === "updated" ? task.updatedAt : task.createdAt).getTime();
+			if (!comparison || Number.isNaN(at)) return false;
+			// Relative values read as an age: updated:<7d means less than 7 days old.
+			const age = now - at;
+			if (comparison.relative) return comparison.op === "<" ? age < comparison.at : age > comparison.at;
+			return comparison.op === "<" ? at < comparison.at : at > comparison.at;
+		}
+	}
+}
+
+function matchesText(task: Task, text: string): boolean {
+	return (
+		task.id.toLowerCase().includes(text) ||
+		task.title.toLowerCase().includes(text) ||
+		!!task.description?.toLowerCase().includes(text) ||
+		!!task.assignee?.toLowerCase().includes(text) ||
+		(task.labels ?? []).some((label) => label.toLowerCase().includes(text))
+	);
+}
+
+export function matchesTaskQuery(task: Task, query: ParsedTaskQuery, ctx: TaskQueryContext): boolean {
+	const now = ctx.now ?? Date.now();
+	for (const term of query.terms) {
+		const matched = term.values.some((value) => matchesValue(task, term.key, value, ctx, now));
+		if (matched === term.negated) return false;
+	}
+	return query.text.every((text) => matchesText(task, text));
+}
+
+export function filterTasksByQuery(tasks: Task[], input: string, ctx: TaskQueryContext): Task[] {
+	const query = parseTaskQuery(input);
+	if (query.terms.length === 0 && query.text.length === 0) return tasks;
+	const now = ctx.now ?? Date.now();
+	return tasks.filter((task) => matchesTaskQuery(task, query, { ...ctx, now }));
+}
+
+/**
+ * Returns the value of the single positive `key:value` term, or null when the
+ * key is absent, negated or repeated. Used by quick-filter controls that edit
+ * one key of the query.
+ */
+export function getTaskQueryValue(input: string, key: TaskQueryKey): string | null {
+	const matches = tokenize(input).filter((token) => token.key === key);
+	const [match] = matches;
+	if (!match || matches.length !== 1 || match.negated) return null;
+	return match.value;
+}
+
+/** Replaces every `key:` term in the query with `key:value`, or drops them when value is null. */
+export function setTaskQueryValue(input: string, key: TaskQueryKey, value: string | null): string {
+	const kept = tokenize(input)
+		.filter((token) => token.key !== key)
+		.map((token) => token.raw);
+	if (value) kept.push(`${key}:${quoteValue(value)}`);
+	return kept.join(" ");
+}
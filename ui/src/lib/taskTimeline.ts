@@ -0,0 +1,179 @@
+import type { Task } from "../models/task";
+import { isTaskClosed } from "./taskDependencies";
+
+/**
+ * Timeline (Gantt) helpers. Planned dates are calendar days ("YYYY-MM-DD")
+ * in the viewer's local time zone; lifecycle clocks are instants and are
+ * snapped to the local day they fall on.
+ */
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function startOfDay(date: Date): Date {
+	return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+export function addDays(date: Date, days: number): Date {
+	return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+/** Whole days from a to b; both are expected to be local midnights. */
+export function daysBetween(a: Date, b: Date): number {
+	return Math.round((b.getTime() - a.getTime()) / DAY_MS);
+}
+
+/** Parses a "YYYY-MM-DD" task date as local midnight, or null. */
+export function parseTaskDate(value?: string): Date | null {
+	const match = value ? /^(\d{4})-(\d{2})-(\d{2})$/.exec(value) : null;
+	if (!match) return null;
+	return new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+}
+
+export function formatTaskDate(date: Date): string {
+	const month = String(date.getMonth() + 1).padStart(2, "0");
+	const day = String(date.getDate()).padStart(2, "0");
+	return `${date.getFullYear()}-${month}-${day}`;
+}
+
+export type TimelineStartSource = "planned" | "time-entry" | "started";
+export type TimelineEndSource = "completed" | "due" | "open";
+
+export interface TimelineSpan {
+	/** First day of the bar (inclusive). */
+	start: Date;
+	/** Last day of the bar (inclusive). */
+	end: Date;
+	startSource: TimelineStartSource;
+	endSource: TimelineEndSource;
+}
+
+function firstTimeEntry(task: Task): Date | null {
+	let first: Date | null = null;
+	for (const entry of task.timeEntries ?? []) {
+		if (!first || entry.startedAt < first) first = entry.startedAt;
+	}
+	return first;
+}
+
+/**
+ * Bar for a task: from the planned start, else the first time entry, else
+ * the first in-progress transition; to the completion day for closed tasks,
+ * else the due date, else today. A task with only a due date is a one-day
+ * bar on it. Tasks with neither a start nor a due date are unscheduled (null).
+ */
+export function getTaskSpan(task: Task, today: Date): TimelineSpan | null {
+	const planned = parseTaskDate(task.startDate);
+	const tracked = firstTimeEntry(task);
+	const due = parseTaskDate(task.dueDate);
+
+	let start: Date | null = null;
+	let startSource: TimelineStartSource = "planned";
+	if (planned) {
+		start = planned;
+	} else if (tracked || task.startedAt) {
+		const earliest = tracked && task.startedAt ? (tracked < task.startedAt ? tracked : task.startedAt) : tracked || task.startedAt!;
+		start = startOfDay(earliest);
+		startSource = earliest === tracked ? "time-entry" : "started";
+	}
+
+	let end: Date | null;
+	let endSource: TimelineEndSource;
+	if (isTaskClosed(task) && task.completedAt) {
+		end = startOfDay(task.completedAt);
+		endSource = "completed";
+	} else if (due) {
+		end = due;
+		endSource = "due";
+	} else {
+		end = start ? startOfDay(today) : null;
+		endSource = "open";
+	}
+
+	if (!start && !end) return null;
+	if (!start) start = end!;
+	if (!end || end < start) end = start;
+	return { start, end, startSource, endSource };
+}
+
+export interface TimelineRow {
+	task: Task;
+	depth: number;
+	/** Number of visible child rows, whether or not the row is collapsed. */
+	childCount: number;
+}
+
+/**
+ * Flattens tasks into rows with subtasks nested under their parent. Tasks
+ * whose parent is not in the list are roots. Siblings are ordered by bar
+ * start, with unscheduled tasks last.
+ */
+export function buildTimelineRows(tasks: Task[], spans: Map<string, TimelineSpan | null>, collapsed: Set<string>): TimelineRow[] {
+	const ids = new Set(tasks.map((task) => task.id));
+	const children = new Map<string, Task[]>();
+	const roots: Task[] = [];
+	for (const task of tasks) {
+		if (task.parent && task.parent !== task.id && ids.has(task.parent)) {
+			const siblings = children.get(task.parent) ?? [];
+			siblings.push(task);
+			children.set(task.parent, siblings);
+		} else {
+			roots.push(task);
+		}
+	}
+
+	const byStart = (a: Task, b: Task) => {
+		const sa = spans.get(a.id)?.start.getTime() ?? Number.POSITIVE_INFINITY;
+		const sb = spans.get(b.id)?.start.getTime() ?? Number.POSITIVE_INFINITY;
+		if (sa !== sb) return sa - sb;
+		return a.id.localeCompare(b.id, undefined, { numeric: true });
+	};
+
+	const rows: TimelineRow[] = [];
+	const seen = new Set<string>();
+	const visit = (task: Task, depth: number) => {
+		if (seen.has(task.id)) return;
+		seen.add(task.id);
+		const kids = (children.get(task.id) ?? []).sort(byStart);
+		rows.push({ task, depth, childCount: kids.length });
+		if (collapsed.has(task.id)) return;
+		for (const child of kids) visit(child, depth + 1);
+	};
+	for (const root of roots.sort(byStart)) visit(root, 0);
+	return rows;
+}
+
+/** First and last day shown: every bar and today, with some padding. */
+export function getTimelineRange(spans: Iterable<TimelineSpan | null>, today: Date, minDays = 28): { start: Date; days: number } {
+	let first = startOfDay(today);
+	let last = startOfDay(today);
+	for (const span of spans) {
+		if (!span) continue;
+		if (span.start < first) first = span.start;
+		if (span.end > last) last = span.end;
+	}
+	const start = addDays(first, -3);
+	const days = Math.max(minDays, daysBetween(start, addDays(last, 7)) + 1);
+	return { start, days };
+}
+
+export type TimelineDragMode = "move" | "start" | "end";
+
+/**
+ * Planned-date patch for dragging a bar by delta days. Moving shifts both
+ * ends; a handle only sets its own end and never crosses the other one.
+ */
+export function applyTimelineDrag(
+	span: TimelineSpan,
+	mode: TimelineDragMode,
+	delta: number,
+): Pick<Task, "startDate" | "dueDate"> {
+	if (mode === "start") {
+		const start = addDays(span.start, delta);
+		return { startDate: formatTaskDate(start > span.end ? span.end : start) };
+	}
+	if (mode === "end") {
+		const end = addDays(span.end, delta);
+		return { dueDate: formatTaskDate(end < span.start ? span.start : end) };
+	}
+	return { startDate: formatTaskDate(addDays(span.start, delta)), dueDate: formatTaskDate(addDays(span.end, delta)) };
+}
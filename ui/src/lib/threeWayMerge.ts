@@ -0,0 +1,154 @@
+import { diffArrays } from "diff";
+
+/**
+ * Line-based three-way merge (diff3). Changes made on only one side, or made
+ * identically on both, merge cleanly; overlapping changes become conflicts.
+ */
+
+export type MergeChunk =
+	| { kind: "stable"; lines: string[] }
+	| { kind: "conflict"; base: string[]; mine: string[]; theirs: string[] };
+
+/** One field changed both locally and on the server since it was loaded. */
+export interface MergeField {
+	key: string;
+	label: string;
+	base: string;
+	mine: string;
+	theirs: string;
+	/** Whole values (status, labels) that cannot be merged line by line. */
+	atomic?: boolean;
+}
+
+/** How one conflict is resolved: take a side, both, or hand-edited text. */
+export type HunkChoice = "mine" | "theirs" | "both" | { text: string };
+
+interface Edit {
+	baseStart: number;
+	baseEnd: number;
+	lines: string[];
+}
+
+function splitLines(text: string): string[] {
+	return text === "" ? [] : text.split("\n");
+}
+
+function editsFrom(base: string[], other: string[]): Edit[] {
+	const edits: Edit[] = [];
+	let pos = 0;
+	let current: Edit | null = null;
+	for (const part of diffArrays(base, other)) {
+		if (part.added) {
+			current ??= { baseStart: pos, baseEnd: pos, lines: [] };
+			current.lines.push(...part.value);
+		} else if (part.removed) {
+			current ??= { baseStart: pos, baseEnd: pos, lines: [] };
+			pos += part.value.length;
+			current.baseEnd = pos;
+		} else {
+			if (current) edits.push(current);
+			current = null;
+			pos += part.value.length;
+		}
+	}
+	if (current) edits.push(current);
+	return edits;
+}
+
+/** The lines of base[start, end) with edits (all inside the range) applied. */
+function applyEdits(base: string[], start: number, end: number, edits: Edit[]): string[] {
+	const out: string[] = [];
+	let pos = start;
+	for (const edit of edits) {
+		out.push(...base.slice(pos, edit.baseStart), ...edit.lines);
+		pos = edit.baseEnd;
+	}
+	out.push(...base.slice(pos, end));
+	return out;
+}
+
+function sameLines(a: string[], b: string[]): boolean {
+	return a.length === b.length && a.every((line, i) => line === b[i]);
+}
+
+export function mergeText(base: string, mine: string, theirs: string): MergeChunk[] {
+	const baseLines = splitLines(base);
+	const mineEdits = editsFrom(baseLines, splitLines(mine));
+	const theirEdits = editsFrom(baseLines, splitLines(theirs));
+	const chunks: MergeChunk[] = [];
+	const pushStable = (lines: string[]) => {
+		if (lines.length === 0) return;
+		const last = chunks[chunks.length - 1];
+		if (last?.kind === "stable") last.lines.push(...lines);
+		else chunks.push({ kind: "stable", lines: [...lines] });
+	};
+
+	let pos = 0;
+	let i = 0;
+	let j = 0;
+	while (i < mineEdits.length || j < theirEdits.length) {
+		const nextMine = mineEdits[i];
+		const nextTheirs = theirEdits[j];
+		const first = !nextTheirs || (nextMine && nextMine.baseStart <= nextTheirs.baseStart) ? nextMine! : nextTheirs;
+		const start = first.baseStart;
+		let end = first.baseEnd;
+		const mineRegion: Edit[] = [];
+		const theirRegion: Edit[] = [];
+		// Grow the region while edits from either side touch it.
+		for (;;) {
+			const m = mineEdits[i];
+			const t = theirEdits[j];
+			if (m && m.baseStart <= end) {
+				mineRegion.push(m);
+				end = Math.max(end, m.baseEnd);
+				i++;
+			} else if (t && t.baseStart <= end) {
+				theirRegion.push(t);
+				end = Math.max(end, t.baseEnd);
+				j++;
+			} else {
+				break;
+			}
+		}
+
+		pushStable(baseLines.slice(pos, start));
+		const mineLines = applyEdits(baseLines, start, end, mineRegion);
+		const theirLines = applyEdits(baseLines, start, end, theirRegion);
+		if (theirRegion.length === 0) pushStable(mineLines);
+		else if (mineRegion.length === 0 || sameLines(mineLines, theirLines)) pushStable(theirLines);
+		else chunks.push({ kind: "conflict", base: baseLines.slice(start, end), mine: mineLines, theirs: theirLines });
+		pos = end;
+	}
+	pushStable(baseLines.slice(pos));
+	return chunks;
+}
+
+export function conflictCount(chunks: MergeChunk[]): number {
+	return chunks.filter((chunk) => chunk.kind === "conflict").length;
+}
+
+export function choiceLines(chunk: Extract<MergeChunk, { kind: "conflict" }>, choice: HunkChoice): string[] {
+	if (choice === "mine") return chunk.mine;
+	if (choice === "theirs") return chunk.theirs;
+	if (choice === "both") return [...chunk.theirs, ...chunk.mine];
+	return splitLines(choice.text);
+}
+
+/**
+ * The merged text, given one choice per conflict in order. Null while any
+ * conflict is unresolved.
+ */
+export function resolveMerge(chunks: MergeChunk[], choices: Array<HunkChoice | undefined>): string | null {
+	const lines: string[] = [];
+	let conflict = 0;
+	for (const chunk of chunks) {
+		if (chunk.kind === "stable") {
+			lines.push(...chunk.lines);
+			continue;
+		}
+		const choice = choices[conflict++];
+		if (choice === undefined) return null;
+		lines.push(...choiceLines(chunk, choice));
+	}
+	return lines.join("\n");
+}
@@ -63,6 +63,8 @@ export interface Doc {
 	folder: string;
 	metadata: DocMetadata;
 	content: string;
+	/** Hash of the tracked fields; sent back as baseHash to detect stale saves. */
+	hash?: string;
 	isImported?: boolean;
 	source?: string;
 }
@@ -130,3 +132,20 @@ export function getSpecStatusOrder(doc: Doc): number {
 			return 0; // Unknown status treated as draft
 	}
 }
+
+/** Saves a blob through the browser's download flow. */
+export function downloadBlob(blob: Blob, filename: string): void {
+	const url = URL.createObjectURL(blob);
+	const link = document.createElement("a");
+	link.href = url;
+	link.download = filename;
+	document.body.appendChild(link);
+	link.click();
+	link.remove();
+	setTimeout(() => URL.revokeObjectURL(url), 60_000);
+}
+
+/** Escapes text for use in HTML content and double-quoted attributes. */
+export function escapeHtml(value: string): string {
+	return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
@@ -0,0 +1,86 @@
+/** A file to put in a zip archive, at a "/"-separated path. */
+export interface ZipEntry {
+	path: string;
+	content: string | Uint8Array;
+}
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(data: Uint8Array): number {
+	if (!crcTable) {
+		crcTable = new Uint32Array(256);
+		for (let n = 0; n < 256; n++) {
+			let c = n;
+			for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+			crcTable[n] = c >>> 0;
+		}
+	}
+	let crc = 0xffffffff;
+	for (let i = 0; i < data.length; i++) crc = crcTable[(crc ^ data[i]!) & 0xff]! ^ (crc >>> 8);
+	return (crc ^ 0xffffffff) >>> 0;
+}
+
+function dosDateTime(date: Date): { time: number; date: number } {
+	return {
+		time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+		date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+	};
+}
+
+/**
+ * Packs entries into an uncompressed zip archive. Stored entries keep the
+ * encoder small; exported sites are mostly text and compress well in transit.
+ */
+export function createZip(entries: ZipEntry[], modified = new Date()): Blob {
+	const encoder = new TextEncoder();
+	const stamp = dosDateTime(modified);
+	const chunks: Uint8Array[] = [];
+	const central: Uint8Array[] = [];
+	let offset = 0;
+
+	for (const entry of entries) {
+		const name = encoder.encode(entry.path);
+		const data = typeof entry.content === "string" ? encoder.encode(entry.content) : entry.content;
+		const crc = crc32(data);
+
+		const local = new DataView(new ArrayBuffer(30));
+		local.setUint32(0, 0x04034b50, true);
+		local.setUint16(4, 20, true);
+		local.setUint16(6, 0x0800, true); // UTF-8 names
+		local.setUint16(8, 0, true); // stored
+		local.setUint16(10, stamp.time, true);
+		local.setUint16(12, stamp.date, true);
+		local.setUint32(14, crc, true);
+		local.setUint32(18, data.length, true);
+		local.setUint32(22, data.length, true);
+		local.setUint16(26, name.length, true);
+		chunks.push(new Uint8Array(local.buffer), name, data);
+
+		const header = new DataView(new ArrayBuffer(46));
+		header.setUint32(0, 0x02014b50, true);
+		header.setUint16(4, 20, true);
+		header.setUint16(6, 20, true);
+		header.setUint16(8, 0x0800, true);
+		header.setUint16(10, 0, true);
+		header.setUint16(12, stamp.time, true);
+		header.setUint16(14, stamp.date, true);
+		header.setUint32(16, crc, true);
+		header.setUint32(20, data.length, true);
+		header.setUint32(24, data.length, true);
+		header.setUint16(28, name.length, true);
+		header.setUint32(42, offset, true);
+		central.push(new Uint8Array(header.buffer), name);
+
+		offset += 30 + name.length + data.length;
+	}
+
+	const centralSize = central.reduce((size, chunk) => size + chunk.length, 0);
+	const end = new DataView(new ArrayBuffer(22));
+	end.setUint32(0, 0x06054b50, true);
+	end.setUint16(8, entries.length, true);
+	end.setUint16(10, entries.length, true);
+	end.setUint32(12, centralSize, true);
+	end.setUint32(16, offset, true);
+
+	return new Blob([...chunks, ...central, new Uint8Array(end.buffer)] as BlobPart[], { type: "application/zip" });
+}
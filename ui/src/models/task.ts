@@ -24,11 +24,17 @@ export interface Task {
 	subtasks: string[]; // Child task IDs
 	spec?: string; // Linked spec document path (e.g., "specs/user-auth" for @doc/specs/user-auth)
 	fulfills?: string[]; // Spec ACs this task fulfills (e.g., ["AC-1", "AC-2"])
+	dependsOn?: string[]; // Task IDs that must be done before this task starts
+	blocks?: string[]; // Task IDs that depend on this task (derived by the server)
 	order?: number; // Manual ordering for display (lower = first)
 	createdAt: Date;
 	updatedAt: Date;
 	completedAt?: Date;
 	archivedAt?: Date;
+	startedAt?: Date; // First time the task entered in-progress (server-owned)
+	startDate?: string; // Planned start, "YYYY-MM-DD"; "" clears it in updates
+	dueDate?: string; // Due date, "YYYY-MM-DD"; "" clears it in updates
+	milestone?: string; // Milestone (sprint) ID; "" clears it in updates
 	archived: boolean;
 	lifecycleState: TaskLifecycleState;
 
@@ -57,6 +63,18 @@ export interface TimeEntry {
 	note?: string;
 }
 
+// Saved task view: a named filter query, stored in user preferences
+export type TaskViewLayout = "table" | "grouped" | "timeline" | "kanban";
+
+export interface TaskView {
+	id: string;
+	name: string;
+	query: string; // Task filter query, see lib/taskQuery.ts
+	layout?: TaskViewLayout;
+	createdAt: string;
+	updatedAt: string;
+}
+
 // Helper functions for task creation
 export function createTask(
 	data: Omit<Task, "id" | "createdAt" | "updatedAt" | "subtasks" | "timeSpent" | "timeEntries" | "archived" | "lifecycleState">,
@@ -1,4 +1,5 @@
-import { useCallback, useEffect, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useRouterState } from "@tanstack/react-router";
 import { auditApi, type AuditEvent, type AuditStats } from "@/ui/api/client";
 import {
 	Activity,
@@ -12,14 +13,32 @@ import {
 	Loader2,
 	RefreshCw,
 	ShieldAlert,
+	X,
 	BarChart3,
 } from "lucide-react";
+import { useSSEEvent } from "@/ui/contexts/SSEContext";
 import { cn } from "@/ui/lib/utils";
 import { Card, CardContent, CardHeader, CardTitle } from "@/ui/components/ui/card";
 import { ScrollArea } from "@/ui/components/ui/ScrollArea";
 
 type Tab = "recent" | "stats";
 
+/**
+ * The event recorded for the call that finished at `at` (e.g. a doc revision
+ * timestamp): the latest one that started no later than it.
+ */
+function eventAt(events: AuditEvent[], at: string | null): AuditEvent | null {
+	const target = at ? new Date(at).getTime() : NaN;
+	if (Number.isNaN(target)) return null;
+	let best: AuditEvent | null = null;
+	for (const event of events) {
+		const started = new Date(event.timestamp).getTime();
+		if (started > target + 1000) continue;
+		if (!best || started > new Date(best.timestamp).getTime()) best = event;
+	}
+	return best;
+}
+
 const resultColors: Record<string, { bg: string; text: string; icon: typeof CheckCircle2 }> = {
 	success: {
 		bg: "bg-green-500/10",
@@ -53,6 +72,24 @@ export default function AuditPage() {
 	const [loading, setLoading] = useState(true);
 	const [toolFilter, setToolFilter] = useState("");
 	const [resultFilter, setResultFilter] = useState("");
+	// Deep links such as /audit?ref=doc:guides/setup&at=<time> narrow the
+	// list to one entity and point at the call made at that time.
+	const searchStr = useRouterState({ select: (state) => state.location.searchStr });
+	const [refFilter, setRefFilter] = useState("");
+	const [focusAt, setFocusAt] = useState<string | null>(null);
+
+	useEffect(() => {
+		const params = new URLSearchParams(String(searchStr || ""));
+		setRefFilter(params.get("ref") ?? "");
+		setFocusAt(params.get("at"));
+		if (params.has("ref")) setTab("recent");
+	}, [searchStr]);
+
+	const clearRefFilter = () => {
+		setRefFilter("");
+		setFocusAt(null);
+		window.history.replaceState(window.history.state, "", window.location.pathname);
+	};
 
 	const fetchRecent = useCallback(async () => {
 		setLoading(true);
@@ -60,6 +97,7 @@ export default function AuditPage() {
 			const opts: Record<string, string | number> = { limit: 100 };
 			if (toolFilter) opts.tool = toolFilter;
 			if (resultFilter) opts.result = resultFilter;
+			if (refFilter) opts.ref = refFilter;
 			const data = await auditApi.recent(opts as any);
 			setEvents(data.events || []);
 		} catch {
@@ -67,7 +105,7 @@ export default function AuditPage() {
 		} finally {
 			setLoading(false);
 		}
-	}, [toolFilter, resultFilter]);
+	}, [toolFilter, resultFilter, refFilter]);
 
 	const fetchStats = useCallback(async () => {
 		setLoading(true);
@@ -86,6 +124,19 @@ export default function AuditPage() {
 		else fetchStats();
 	}, [tab, fetchRecent, fetchStats]);
 
+	// New MCP calls are relayed over SSE; prepend them and bump the stats
+	// locally rather than re-reading the audit log.
+	useSSEEvent("audit:event", ({ event }) => {
+		if (
+			(!toolFilter || event.toolName === toolFilter) &&
+			(!resultFilter || event.result === resultFilter) &&
+			(!refFilter || (event.entityRefs ?? []).includes(refFilter))
+		) {
+			setEvents((current) => [event, ...current].slice(0, 100));
+		}
+		setStats((current) => (current ? addEventToStats(current, event) : current));
+	}, [toolFilter, resultFilter, refFilter]);
+
 	return (
 		<div className="flex-1 flex flex-col min-h-0 p-6 gap-4">
 			{/* Header */}
@@ -144,6 +195,9 @@ export default function AuditPage() {
 					resultFilter={resultFilter}
 					onToolFilter={setToolFilter}
 					onResultFilter={setResultFilter}
+					refFilter={refFilter}
+					onClearRefFilter={clearRefFilter}
+					focusAt={focusAt}
 				/>
 			) : (
 				<StatsTab stats={stats} loading={loading} />
@@ -159,6 +213,9 @@ function RecentTab({
 	resultFilter,
 	onToolFilter,
 	onResultFilter,
+	refFilter,
+	onClearRefFilter,
+	focusAt,
 }: {
 	events: AuditEvent[];
 	loading: boolean;
@@ -166,9 +223,13 @@ function RecentTab({
 	resultFilter: string;
 	onToolFilter: (v: string) => void;
 	onResultFilter: (v: string) => void;
+	refFilter: string;
+	onClearRefFilter: () => void;
+	focusAt: string | null;
 }) {
 	// Extract unique tool names for filter.
 	const tools = [...new Set(events.map((e) => e.toolName))].sort();
+	const focused = useMemo(() => eventAt(events, focusAt), [events, focusAt]);
 
 	return (
 		<div className="flex-1 flex flex-col min-h-0 gap-3">
@@ -197,6 +258,14 @@ function RecentTab({
 					<option value="error">Error</option>
 					<option value="denied">Denied</option>
 				</select>
+				{refFilter && (
+					<span className="flex items-center gap-1 rounded-full bg-muted px-2 py-0.5 font-mono text-xs">
+						{refFilter}
+						<button onClick={onClearRefFilter} className="rounded-full hover:text-foreground text-muted-foreground" title="Clear filter">
+							<X className="w-3 h-3" />
+						</button>
+					</span>
+				)}
 				<span className="text-muted-foreground ml-auto">{events.length} events</span>
 			</div>
 
@@ -212,7 +281,7 @@ function RecentTab({
 				<ScrollArea className="flex-1">
 					<div className="space-y-1">
 						{events.map((event, i) => (
-							<EventRow key={i} event={event} />
+							<EventRow key={i} event={event} focused={event === focused} />
 						))}
 					</div>
 				</ScrollArea>
@@ -221,8 +290,15 @@ function RecentTab({
 	);
 }
 
-function EventRow({ event }: { event: AuditEvent }) {
-	const [expanded, setExpanded] = useState(false);
+function EventRow({ event, focused = false }: { event: AuditEvent; focused?: boolean }) {
+	const [expanded, setExpanded] = useState(focused);
+	const rowRef = useRef<HTMLDivElement>(null);
+
+	useEffect(() => {
+		if (!focused) return;
+		setExpanded(true);
+		rowRef.current?.scrollIntoView({ block: "center" });
+	}, [focused]);
 	const rc = resultColors[event.result] ?? {
 		bg: "bg-gray-500/10",
 		text: "text-gray-600 dark:text-gray-400",
@@ -241,9 +317,11 @@ function EventRow({ event }: { event: AuditEvent }) {
 
 	return (
 		<div
+			ref={rowRef}
 			className={cn(
 				"rounded-md hover:bg-muted/50 transition-colors group",
 				expanded && "bg-muted/30",
+				focused && "ring-1 ring-primary",
 			)}
 		>
 			<div
@@ -457,3 +535,18 @@ function StatsTab({ stats, loading }: { stats: AuditStats | null; loading: boole
 		</ScrollArea>
 	);
 }
+
+function addEventToStats(stats: AuditStats, event: AuditEvent): AuditStats {
+	const toolKey = event.action ? `${event.toolName}.${event.action}` : event.toolName;
+	const bump = (counts: Record<string, number>, key: string) => ({ ...counts, [key]: (counts[key] || 0) + 1 });
+	return {
+		...stats,
+		totalCalls: stats.totalCalls + 1,
+		byTool: bump(stats.byTool, toolKey),
+		byActionClass: bump(stats.byActionClass, event.actionClass),
+		byResult: bump(stats.byResult, event.result),
+		dryRunCount: stats.dryRunCount + (event.dryRun ? 1 : 0),
+		executeCount: stats.executeCount + (event.dryRun ? 0 : 1),
+		byToolResult: { ...stats.byToolResult, [toolKey]: bump(stats.byToolResult[toolKey] || {}, event.result) },
+	};
+}
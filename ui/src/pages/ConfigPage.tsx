@@ -41,6 +41,7 @@ import { Separator } from "../components/ui/separator";
 import { Label } from "../components/ui/label";
 import { Badge } from "../components/ui/badge";
 import { useConfig, type Config, type ConfigPatch } from "../contexts/ConfigContext";
+import type { ColumnPolicy } from "../lib/columnPolicy";
 import { useAuth } from "../contexts/AuthContext";
 import { useOpenCode } from "../contexts/OpenCodeContext";
 import { useOpenCodeModelManager } from "../hooks/useOpencodeModelManager";
@@ -394,13 +395,28 @@ export default function ConfigPage() {
 		const currentStatuses = config.statuses || DEFAULT_STATUSES;
 		const newColors = { ...(config.statusColors || {}) };
 		delete newColors[status];
+		const newPolicies = { ...(config.columnPolicies || {}) };
+		delete newPolicies[status];
 		update({
 			statuses: currentStatuses.filter((s) => s !== status),
 			statusColors: newColors,
 			visibleColumns: (config.visibleColumns || []).filter((c) => c !== status),
+			columnPolicies: newPolicies,
 		});
 	};
 
+	const handleColumnPolicyChange = (status: string, patch: ColumnPolicy) => {
+		const policies = { ...(config.columnPolicies || {}) };
+		const next: ColumnPolicy = { ...(policies[status] || {}), ...patch };
+		if (!next.wipLimit) delete next.wipLimit;
+		if (!next.requireAcComplete) delete next.requireAcComplete;
+		if (!next.requireSpec) delete next.requireSpec;
+		if (!next.requireAssignee) delete next.requireAssignee;
+		if (Object.keys(next).length === 0) delete policies[status];
+		else policies[status] = next;
+		update({ columnPolicies: policies });
+	};
+
 	const handleJsonSave = async () => {
 		setSaving(true);
 		try {
@@ -758,6 +774,64 @@ export default function ConfigPage() {
 					);
 				})}
 			</div>
+
+			<Separator className="my-4" />
+
+			<SectionHeader
+				icon={Shield}
+				title="Column Policies"
+				description="WIP limits and entry rules, enforced on the board and for every API, CLI and MCP update"
+			/>
+
+			<div className="space-y-1.5" data-testid="column-policies">
+				{statuses.map((status) => {
+					const policy = config.columnPolicies?.[status] || {};
+					return (
+						<div key={status} className="px-3 py-2.5 rounded-md bg-accent/50 space-y-2">
+							<div className="flex items-center gap-3">
+								<span className="flex-1 font-mono text-sm">{status}</span>
+								<Label htmlFor={`wip-${status}`} className="text-xs text-muted-foreground">
+									WIP limit
+								</Label>
+								<Input
+									id={`wip-${status}`}
+									type="number"
+									min={0}
+									value={policy.wipLimit || ""}
+									onChange={(e) =>
+										handleColumnPolicyChange(status, { wipLimit: Math.max(0, Number.parseInt(e.target.value, 10) || 0) })
+									}
+									placeholder="None"
+									className="w-20 h-7 text-xs"
+								/>
+							</div>
+							<div className="flex flex-wrap gap-x-4 gap-y-1.5 text-xs text-muted-foreground">
+								<label className="flex items-center gap-1.5">
+									<Switch
+										checked={!!policy.requireAcComplete}
+										onCheckedChange={(checked) => handleColumnPolicyChange(status, { requireAcComplete: checked })}
+									/>
+									All acceptance criteria checked
+								</label>
+								<label className="flex items-center gap-1.5">
+									<Switch
+										checked={!!policy.requireSpec}
+										onCheckedChange={(checked) => handleColumnPolicyChange(status, { requireSpec: checked })}
+									/>
+									Spec linked
+								</label>
+								<label className="flex items-center gap-1.5">
+									<Switch
+										checked={!!policy.requireAssignee}
+										onCheckedChange={(checked) => handleColumnPolicyChange(status, { requireAssignee: checked })}
+									/>
+									Assignee set
+								</label>
+							</div>
+						</div>
+					);
+				})}
+			</div>
 		</div>
 	);
 
@@ -13,11 +13,21 @@ import {
 	Clock,
 	TrendingUp,
 	Users,
+	CalendarClock,
+	Bell,
+	Flag,
+	Plus,
 } from "lucide-react";
 import type { Task } from "@/ui/models/task";
 import { api, type Activity as ActivityType } from "../api/client";
 import { Progress } from "../components/ui/progress";
 import { cn } from "../lib/utils";
+import { formatDueLabel, getDueBuckets } from "../lib/taskDueDates";
+import { getNotificationPermission, requestNotificationPermission } from "../lib/notifications";
+import { buildBurndown, pickCurrentMilestone, type BurndownPoint } from "../lib/burndown";
+import { useMilestones } from "../hooks/useMilestones";
+import { MilestoneCreateDialog } from "../components/organisms/MilestoneCreateDialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../components/ui/select";
 
 interface DashboardPageProps {
 	tasks: Task[];
@@ -364,6 +374,16 @@ export default function DashboardPage({ tasks, loading }: DashboardPageProps) {
 					</DashCard>
 				</div>
 
+				{/* Due Dates */}
+				<div className="mb-6">
+					<DueDatesCard tasks={tasks} loading={loading} />
+				</div>
+
+				{/* Milestone Burndown */}
+				<div className="mb-6">
+					<MilestoneBurndownCard tasks={tasks} loading={loading} />
+				</div>
+
 				{/* Charts Row: Weekly Activity + Workload */}
 				<div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
 					{/* Weekly Activity Bar Chart */}
@@ -468,6 +488,236 @@ export default function DashboardPage({ tasks, loading }: DashboardPageProps) {
 	);
 }
 
+// --- Overdue / Due This Week ---
+function DueTaskList({ tasks, overdue, empty }: { tasks: Task[]; overdue?: boolean; empty: string }) {
+	if (tasks.length === 0) {
+		return <p className="text-xs text-muted-foreground py-2">{empty}</p>;
+	}
+	return (
+		<div className="space-y-0.5 max-h-[200px] overflow-y-auto overflow-x-hidden">
+			{tasks.map((task) => (
+				<a
+					key={task.id}
+					href={`/kanban/${task.id}`}
+					className="flex items-center gap-3 py-1.5 px-2 -mx-2 rounded-md hover:bg-muted/50 transition-colors min-w-0"
+				>
+					<span className="text-sm truncate flex-1">{task.title}</span>
+					{task.assignee && (
+						<span className="text-[11px] font-mono text-muted-foreground shrink-0">{task.assignee}</span>
+					)}
+					<span
+						className={cn(
+							"text-[11px] shrink-0",
+							overdue ? "text-red-600 dark:text-red-400 font-medium" : "text-muted-foreground",
+						)}
+						title={task.dueDate}
+					>
+						{formatDueLabel(task)}
+					</span>
+				</a>
+			))}
+		</div>
+	);
+}
+
+function DueDatesCard({ tasks, loading }: { tasks: Task[]; loading: boolean }) {
+	const { overdue, dueSoon } = useMemo(() => getDueBuckets(tasks), [tasks]);
+	const [permission, setPermission] = useState(() => getNotificationPermission());
+
+	const enableReminders = async () => {
+		setPermission(await requestNotificationPermission());
+	};
+
+	return (
+		<DashCard>
+			<CardTitle
+				icon={CalendarClock}
+				action={
+					permission === "default" && (
+						<button
+							type="button"
+							onClick={enableReminders}
+							className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground transition-colors"
+						>
+							<Bell className="w-3 h-3" />
+							Enable reminders
+						</button>
+					)
+				}
+			>
+				Overdue / Due This Week
+			</CardTitle>
+			{loading ? (
+				<div className="flex items-center justify-center py-8">
+					<RefreshCw className="w-5 h-5 animate-spin text-muted-foreground" />
+				</div>
+			) : (
+				<div className="grid grid-cols-1 md:grid-cols-2 gap-6" data-testid="dashboard-due-dates">
+					<div className="min-w-0">
+						<div className="flex items-baseline gap-2 mb-2">
+							<span className={cn("text-2xl font-bold", overdue.length > 0 && "text-red-600 dark:text-red-400")}>
+								{overdue.length}
+							</span>
+							<span className="text-xs text-muted-foreground">Overdue</span>
+						</div>
+						<DueTaskList tasks={overdue} overdue empty="Nothing overdue" />
+					</div>
+					<div className="min-w-0">
+						<div className="flex items-baseline gap-2 mb-2">
+							<span className="text-2xl font-bold">{dueSoon.length}</span>
+							<span className="text-xs text-muted-foreground">Due in the next 7 days</span>
+						</div>
+						<DueTaskList tasks={dueSoon} empty="Nothing due this week" />
+					</div>
+				</div>
+			)}
+		</DashCard>
+	);
+}
+
+// --- Milestone Burndown ---
+type BurndownMode = "burndown" | "burnup";
+
+function MilestoneBurndownCard({ tasks, loading }: { tasks: Task[]; loading: boolean }) {
+	const { milestones, loading: milestonesLoading } = useMilestones();
+	const [selectedId, setSelectedId] = useState<string | null>(null);
+	const [mode, setMode] = useState<BurndownMode>("burndown");
+	const [createOpen, setCreateOpen] = useState(false);
+
+	const milestone = milestones.find((m) => m.id === selectedId) ?? pickCurrentMilestone(milestones);
+	const burndown = useMemo(() => (milestone ? buildBurndown(milestone, tasks) : null), [milestone, tasks]);
+
+	return (
+		<DashCard>
+			<CardTitle
+				icon={Flag}
+				action={
+					<button
+						type="button"
+						onClick={() => setCreateOpen(true)}
+						className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground transition-colors"
+						data-testid="milestone-create"
+					>
+						<Plus className="w-3 h-3" />
+						New milestone
+					</button>
+				}
+			>
+				Milestone Progress
+			</CardTitle>
+			{loading || milestonesLoading ? (
+				<div className="flex items-center justify-center py-8">
+					<RefreshCw className="w-5 h-5 animate-spin text-muted-foreground" />
+				</div>
+			) : !milestone ? (
+				<div className="flex items-center justify-center py-8 text-xs text-muted-foreground">
+					No milestones yet
+				</div>
+			) : (
+				<div data-testid="dashboard-burndown">
+					<div className="flex flex-wrap items-center gap-3 mb-4">
+						<Select value={milestone.id} onValueChange={setSelectedId}>
+							<SelectTrigger className="h-8 w-56 text-sm" data-testid="burndown-milestone">
+								<SelectValue />
+							</SelectTrigger>
+							<SelectContent>
+								{milestones.map((m) => (
+									<SelectItem key={m.id} value={m.id}>
+										{m.name}
+									</SelectItem>
+								))}
+							</SelectContent>
+						</Select>
+						<div className="flex rounded-md border text-xs overflow-hidden">
+							{(["burndown", "burnup"] as const).map((value) => (
+								<button
+									key={value}
+									type="button"
+									onClick={() => setMode(value)}
+									className={cn(
+										"px-2.5 py-1 capitalize transition-colors",
+										mode === value ? "bg-muted font-medium" : "text-muted-foreground hover:text-foreground",
+									)}
+								>
+									{value}
+								</button>
+							))}
+						</div>
+						<span className="text-xs text-muted-foreground">
+							{milestone.startDate} → {milestone.endDate}
+						</span>
+						{burndown && (
+							<span className="ml-auto text-xs text-muted-foreground">
+								{burndown.doneCount}/{burndown.taskCount} tasks · {burndown.completed}/{burndown.scope} criteria
+							</span>
+						)}
+					</div>
+					{milestone.goal && <p className="text-xs text-muted-foreground mb-3 line-clamp-2">{milestone.goal}</p>}
+					{burndown && burndown.taskCount > 0 ? (
+						<BurndownChart points={burndown.points} scope={burndown.scope} mode={mode} />
+					) : (
+						<div className="flex items-center justify-center py-8 text-xs text-muted-foreground">
+							No tasks in this milestone
+						</div>
+					)}
+				</div>
+			)}
+			<MilestoneCreateDialog open={createOpen} onOpenChange={setCreateOpen} onCreated={(m) => setSelectedId(m.id)} />
+		</DashCard>
+	);
+}
+
+function BurndownChart({ points, scope, mode }: { points: BurndownPoint[]; scope: number; mode: BurndownMode }) {
+	const width = 600;
+	const height = 160;
+	const max = Math.max(1, scope);
+	const x = (i: number) => (points.length > 1 ? (i / (points.length - 1)) * width : width / 2);
+	const y = (value: number) => height - (value / max) * height;
+	const line = (values: (number | null)[]) =>
+		values
+			.map((value, i) => (value === null ? null : `${x(i).toFixed(1)},${y(value).toFixed(1)}`))
+			.filter((point): point is string => point !== null)
+			.join(" ");
+
+	const actual = points.map((p) => (mode === "burndown" ? p.remaining : p.completed));
+	const guide = points.map((p) => (mode === "burndown" ? p.ideal : p.scope - p.ideal));
+	const first = points[0];
+	const last = points[points.length - 1];
+
+	return (
+		<div>
+			<svg viewBox={`0 0 ${width} ${height}`} preserveAspectRatio="none" className="w-full h-40 overflow-visible">
+				<line x1={0} y1={height} x2={width} y2={height} className="stroke-border" strokeWidth={1} />
+				{mode === "burnup" && (
+					<polyline points={line(points.map((p) => p.scope))} fill="none" stroke="#8b5cf6" strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+				)}
+				<polyline points={line(guide)} fill="none" stroke="#94a3b8" strokeWidth={1.5} strokeDasharray="4 4" vectorEffect="non-scaling-stroke" />
+				<polyline points={line(actual)} fill="none" stroke="#3b82f6" strokeWidth={2} vectorEffect="non-scaling-stroke" />
+			</svg>
+			<div className="flex items-center justify-between text-[10px] text-muted-foreground mt-1">
+				<span>{first?.date}</span>
+				<div className="flex items-center gap-3">
+					<span className="flex items-center gap-1">
+						<span className="inline-block w-3 h-0.5 bg-blue-500" />
+						{mode === "burndown" ? "Remaining" : "Completed"}
+					</span>
+					<span className="flex items-center gap-1">
+						<span className="inline-block w-3 h-0.5 bg-slate-400" />
+						Ideal
+					</span>
+					{mode === "burnup" && (
+						<span className="flex items-center gap-1">
+							<span className="inline-block w-3 h-0.5 bg-violet-500" />
+							Scope
+						</span>
+					)}
+				</div>
+				<span>{last?.date}</span>
+			</div>
+		</div>
+	);
+}
+
 // --- Weekly Activity Bar Chart ---
 const DAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
 
@@ -21,6 +21,7 @@ import {
 	Tags,
 } from "lucide-react";
 import MDRender from "@/ui/components/editor/MDRender";
+import { useSSEEvent } from "@/ui/contexts/SSEContext";
 import { cn } from "@/ui/lib/utils";
 
 type DecisionFilter = DecisionStatus | "all";
@@ -128,6 +129,17 @@ export default function DecisionPage() {
 		};
 	}, [loadDecisions]);
 
+	// Decisions created or changed elsewhere (MCP, CLI, another tab) arrive over
+	// SSE with their full state, so both lists are patched in place.
+	const applyDecisionChanges = useCallback((changed: DecisionEntry[]) => {
+		if (changed.length === 0) return;
+		setAllDecisions((current) => mergeDecisionSets(changed, current));
+		setCurrentDecisions((current) => patchCurrentDecisions(current, changed));
+	}, []);
+
+	useSSEEvent("decisions:created", ({ decision }) => applyDecisionChanges([decision]), [applyDecisionChanges]);
+	useSSEEvent("decisions:updated", ({ decisions }) => applyDecisionChanges(decisions || []), [applyDecisionChanges]);
+
 	const decisionByID = useMemo(() => {
 		const byID = new Map<string, DecisionEntry>();
 		for (const decision of allDecisions) {
@@ -944,6 +956,27 @@ function mergeDecisionSets(current: DecisionEntry[], all: DecisionEntry[]) {
 	return Array.from(byID.values());
 }
 
+// patchCurrentDecisions mirrors the server's default list: accepted decisions
+// that have not been superseded.
+function patchCurrentDecisions(current: DecisionEntry[], changed: DecisionEntry[]) {
+	const isCurrent = (decision: DecisionEntry) => decision.status === "accepted" && (decision.supersededBy?.length || 0) === 0;
+	const changedByID = new Map(changed.map((decision) => [decision.id, decision]));
+	const next: DecisionEntry[] = [];
+	for (const decision of current) {
+		const updated = changedByID.get(decision.id);
+		if (!updated) {
+			next.push(decision);
+		} else if (isCurrent(updated)) {
+			next.push(updated);
+		}
+		changedByID.delete(decision.id);
+	}
+	for (const decision of changedByID.values()) {
+		if (isCurrent(decision)) next.push(decision);
+	}
+	return next;
+}
+
 function isHistoricalDecision(decision: DecisionEntry) {
 	return decision.status === "superseded" || (decision.supersededBy?.length || 0) > 0;
 }
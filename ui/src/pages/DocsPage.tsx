@@ -9,25 +9,37 @@ import {
 	Maximize2,
 	Minimize2,
 	Menu,
+	GitCommitHorizontal,
 	History,
+	FolderInput,
 } from "lucide-react";
-import { MDEditor } from "../components/editor";
+import { MDEditor, type MDEditorRef } from "../components/editor";
 import { Button } from "../components/ui/button";
-import { updateDoc } from "../api/client";
+import { StaleWriteError, updateDoc } from "../api/client";
 import { useGlobalTask } from "../contexts/GlobalTaskContext";
 import { useDocsOptional } from "../contexts/DocsContext";
+import { useCurrentUser } from "../contexts/UserContext";
+import { useDocCollab } from "../hooks/useDocCollab";
 import { DocsFileManager } from "../components/organisms/DocsFileManager";
-import { toDisplayPath, normalizePathForAPI } from "../lib/utils";
+import { toDisplayPath, normalizePathForAPI, type Doc } from "../lib/utils";
+import type { MergeField } from "../lib/threeWayMerge";
 import { navigateTo } from "../lib/navigation";
 import { DocsTOC } from "../components/molecules/DocsTOC";
 import { TaskPreviewDialog } from "../components/organisms/TaskDetail/TaskPreviewDialog";
+import { ThreeWayMergeDialog } from "../components/organisms/ThreeWayMergeDialog";
 import { Sheet, SheetContent, SheetTitle } from "../components/ui/sheet";
 
 import { DocsDocHeader } from "./docs/DocsDocHeader";
+import { DocPresence } from "./docs/DocPresence";
 import { DocsCreateView } from "./docs/DocsCreateView";
 import { DocsEmptyState } from "./docs/DocsEmptyState";
 import { DocMiniGraph } from "./docs/DocMiniGraph";
 import { DocHistorySheet } from "./docs/DocHistorySheet";
+import { DocBlameView } from "./docs/DocBlameView";
+import { DocLinkHealthSheet } from "./docs/DocLinkHealthSheet";
+import { DocSiteExportDialog } from "./docs/DocSiteExportDialog";
+import { DocMoveDialog } from "./docs/DocMoveDialog";
+import { parseCompareParams, withCompareParams, type DocCompareTarget } from "./docs/DocRevisionCompare";
 import { MDRenderWithHighlight } from "../components/editor/MDRenderWithHighlight";
 
 import { AnnotationProvider, useAnnotationContext } from "../contexts/AnnotationContext";
@@ -35,6 +47,24 @@ import { AnnotationSelectionToolbar } from "../components/annotations/Annotation
 import { AnnotationHighlighter } from "../components/annotations/AnnotationHighlighter";
 import { AnnotationBubble } from "../components/annotations/AnnotationBubble";
 
+type DocMetadataUpdates = { title?: string; description?: string; tags?: string[] };
+
+/** Metadata fields changed both here and on the server since base was loaded. */
+function docMetadataConflicts(base: Doc, mine: DocMetadataUpdates, theirs: Doc): MergeField[] {
+	const fields: MergeField[] = [];
+	const check = (key: keyof DocMetadataUpdates, label: string, format: (doc: Doc) => string, value: string | undefined, atomic?: boolean) => {
+		if (value === undefined) return;
+		const baseValue = format(base);
+		const theirValue = format(theirs);
+		if (theirValue === baseValue || theirValue === value) return;
+		fields.push({ key, label, base: baseValue, mine: value, theirs: theirValue, atomic });
+	};
+	check("title", "Title", (doc) => doc.metadata.title || "", mine.title);
+	check("description", "Description", (doc) => doc.metadata.description || "", mine.description);
+	check("tags", "Tags", (doc) => (doc.metadata.tags ?? []).join(", "), mine.tags?.join(", "), true);
+	return fields;
+}
+
 export default function DocsPage() {
 	return (
 		<AnnotationProvider>
@@ -58,7 +88,7 @@ function DocsPageInner() {
 
 	const {
 		docs, loading, error, selectedDoc, setSelectedDoc,
-		isEditing, setIsEditing, editedContent, setEditedContent,
+		isEditing, setIsEditing,
 		linkedTasks, showSpecsOnly, setShowSpecsOnly,
 		linkedTasksExpanded, setLinkedTasksExpanded,
 		loadDocs, currentFolder, navigateToFolder,
@@ -73,11 +103,29 @@ function DocsPageInner() {
 	const [lineHighlight, setLineHighlight] = useState<{ start: number; end: number } | null>(null);
 	const [wideMode, setWideMode] = useState(() => localStorage.getItem("docs-wide-mode") === "true");
 	const [historyOpen, setHistoryOpen] = useState(false);
+	const [compareTarget, setCompareTarget] = useState<DocCompareTarget | null>(null);
+	const [historyRevision, setHistoryRevision] = useState<string | null>(null);
+	const [blameMode, setBlameMode] = useState(false);
+	const [moveOpen, setMoveOpen] = useState(false);
+	const [linkHealthOpen, setLinkHealthOpen] = useState(false);
+	const [siteExportOpen, setSiteExportOpen] = useState(false);
 	const [metaTitle, setMetaTitle] = useState("");
 	const [metaDescription, setMetaDescription] = useState("");
 	const [metaTags, setMetaTags] = useState("");
+	const [metaMerge, setMetaMerge] = useState<{ mine: DocMetadataUpdates; theirs: Doc; fields: MergeField[] } | null>(null);
+	const [metaMergeSaving, setMetaMergeSaving] = useState(false);
 
 	const markdownPreviewRef = useRef<HTMLDivElement>(null);
+	const editorRef = useRef<MDEditorRef>(null);
+	const [editorTextarea, setEditorTextarea] = useState<HTMLTextAreaElement | null>(null);
+	const { currentUser } = useCurrentUser();
+	const collab = useDocCollab(selectedDoc?.path ?? null, isEditing, currentUser);
+	const { bindTextarea } = collab;
+
+	useEffect(() => {
+		const textarea = isEditing && collab.ready ? editorTextarea : null;
+		return bindTextarea(textarea, () => editorRef.current?.getTextareaOffset() ?? 0);
+	}, [isEditing, collab.ready, editorTextarea, bindTextarea]);
 	const scrollContainerRef = useRef<HTMLDivElement>(null);
 	const scrollPositions = useRef<Map<string, number>>(new Map());
 	const scrollAnimationRef = useRef<number | null>(null);
@@ -152,9 +200,52 @@ function DocsPageInner() {
 		}
 	}, [selectedDoc?.path]);
 
+	const showMetadata = (doc: Doc) => {
+		setMetaTitle(doc.metadata.title || "");
+		setMetaDescription(doc.metadata.description || "");
+		setMetaTags(doc.metadata.tags?.join(", ") || "");
+	};
+
+	// Saves metadata edits made to base; a stale save opens the merge dialog
+	// unless the fields involved were not changed on the server.
+	const saveMetadataAgainst = async (base: Doc, updates: DocMetadataUpdates): Promise<void> => {
+		try {
+			await updateDoc(normalizePathForAPI(base.path), { ...updates, baseHash: base.hash });
+			loadDocs();
+		} catch (err) {
+			if (!(err instanceof StaleWriteError)) throw err;
+			const theirs = err.current as Doc;
+			const fields = docMetadataConflicts(base, updates, theirs);
+			if (fields.length > 0) setMetaMerge({ mine: updates, theirs, fields });
+			else await saveMetadataAgainst(theirs, updates);
+		}
+	};
+
+	const handleResolveMetaMerge = async (resolved: Record<string, string>) => {
+		if (!metaMerge) return;
+		const { mine, theirs } = metaMerge;
+		const updates: DocMetadataUpdates = { ...mine };
+		if (resolved.title !== undefined) updates.title = resolved.title;
+		if (resolved.description !== undefined) updates.description = resolved.description;
+		if (resolved.tags !== undefined && resolved.tags !== mine.tags?.join(", ")) delete updates.tags;
+		setMetaMergeSaving(true);
+		try {
+			setMetaMerge(null);
+			await saveMetadataAgainst(theirs, updates);
+			setMetaTitle(updates.title ?? theirs.metadata.title ?? "");
+			setMetaDescription(updates.description ?? theirs.metadata.description ?? "");
+			setMetaTags((updates.tags ?? theirs.metadata.tags ?? []).join(", "));
+		} catch (err) {
+			console.error("Failed to save metadata:", err);
+			showMetadata(theirs);
+		} finally {
+			setMetaMergeSaving(false);
+		}
+	};
+
 	const handleSaveMetadata = async (field: "title" | "description" | "tags") => {
 		if (!selectedDoc || selectedDoc.isImported) return;
-		const updates: { title?: string; description?: string; tags?: string[] } = {};
+		const updates: DocMetadataUpdates = {};
 		if (field === "title" && metaTitle !== (selectedDoc.metadata.title || "")) updates.title = metaTitle;
 		else if (field === "description" && metaDescription !== (selectedDoc.metadata.description || "")) updates.description = metaDescription;
 		else if (field === "tags") {
@@ -163,13 +254,10 @@ function DocsPageInner() {
 		}
 		if (Object.keys(updates).length === 0) return;
 		try {
-			await updateDoc(normalizePathForAPI(selectedDoc.path), updates);
-			loadDocs();
+			await saveMetadataAgainst(selectedDoc, updates);
 		} catch (err) {
 			console.error("Failed to save metadata:", err);
-			setMetaTitle(selectedDoc.metadata.title || "");
-			setMetaDescription(selectedDoc.metadata.description || "");
-			setMetaTags(selectedDoc.metadata.tags?.join(", ") || "");
+			showMetadata(selectedDoc);
 		}
 	};
 
@@ -198,6 +286,19 @@ function DocsPageInner() {
 		}
 	}, [location.searchStr]);
 
+	// A ?compare=from..to permalink opens the history sheet on that comparison.
+	useEffect(() => {
+		const target = parseCompareParams(String(location.searchStr || ""));
+		setCompareTarget(target);
+		if (target) setHistoryOpen(true);
+	}, [location.searchStr]);
+
+	const changeCompareTarget = useCallback((target: DocCompareTarget | null) => {
+		setCompareTarget(target);
+		const search = withCompareParams(window.location.search, target);
+		window.history.replaceState(window.history.state, "", `${window.location.pathname}${search}${window.location.hash}`);
+	}, []);
+
 	useEffect(() => {
 		if (lineHighlight && lineHighlightRef.current) {
 			requestAnimationFrame(() => lineHighlightRef.current?.scrollIntoView({ behavior: "smooth", block: "start" }));
@@ -274,7 +375,7 @@ function DocsPageInner() {
 	}, [docs, navigateToHeading, openTask, selectedDoc]);
 
 	// --- Handlers ---
-	const handleEdit = () => { if (selectedDoc) { setEditedContent(selectedDoc.content); setIsEditing(true); } };
+	const handleEdit = () => { if (selectedDoc) setIsEditing(true); };
 	const handleCopyPath = () => {
 		if (selectedDoc) {
 			navigator.clipboard.writeText(`@doc/${toDisplayPath(selectedDoc.path).replace(/\.md$/, "")}`).then(() => {
@@ -286,11 +387,11 @@ function DocsPageInner() {
 	const handleSave = async () => {
 		if (!selectedDoc) return;
 		setSaving(true);
-		try { await updateDoc(normalizePathForAPI(selectedDoc.path), { content: editedContent }); loadDocs(); setIsEditing(false); }
+		try { await collab.save(); loadDocs(); setIsEditing(false); }
 		catch (err) { console.error("Failed to save doc:", err); }
 		finally { setSaving(false); }
 	};
-	const handleCancel = () => { setIsEditing(false); setEditedContent(""); };
+	const handleCancel = () => { setIsEditing(false); };
 	const openCreateView = () => { setShowCreateView(true); setMobileSidebarOpen(false); };
 	const dismissLineHighlight = () => {
 		setLineHighlight(null);
@@ -308,7 +409,7 @@ function DocsPageInner() {
 	);
 
 	const currentDocPath = selectedDoc ? toDisplayPath(selectedDoc.path).replace(/\.md$/, "") : "";
-	const currentDocAnnotations = selectedDoc ? annotationCtx.getByDoc(currentDocPath) : [];
+	const currentDocAnnotations = selectedDoc ? annotationCtx.getByDoc(currentDocPath).filter((a) => !a.resolved) : [];
 
 	const sidebarContent = (
 		<DocsFileManager
@@ -323,6 +424,8 @@ function DocsPageInner() {
 			onSearchQueryChange={setDocSearchQuery}
 			selectedDocPath={selectedDoc?.path}
 			onItemSelect={() => setMobileSidebarOpen(false)}
+			onCheckLinks={() => { setLinkHealthOpen(true); setMobileSidebarOpen(false); }}
+			onExportSite={() => { setSiteExportOpen(true); setMobileSidebarOpen(false); }}
 			className="h-full"
 		/>
 	);
@@ -372,23 +475,34 @@ function DocsPageInner() {
 							</button>
 							{pathCopied && <span className="text-green-600 text-[11px]">Copied</span>}
 							<div className="flex-1" />
+							{isEditing && <DocPresence peers={collab.peers} className="mr-1 text-[11px] text-muted-foreground" />}
 							{!isEditing && (
 								<Button variant="ghost" size="sm" onClick={() => setWideMode(!wideMode)} className="h-7 px-2 text-muted-foreground hover:text-foreground" title={wideMode ? "Normal width" : "Full width"}>
 									{wideMode ? <Minimize2 className="w-3.5 h-3.5" /> : <Maximize2 className="w-3.5 h-3.5" />}
 								</Button>
 							)}
+							{!isEditing && (
+								<Button variant="ghost" size="sm" onClick={() => setBlameMode(!blameMode)} className={`h-7 px-2 hover:text-foreground ${blameMode ? "bg-accent text-foreground" : "text-muted-foreground"}`} title={blameMode ? "Show rendered document" : "Show who changed each line"} aria-pressed={blameMode}>
+									<GitCommitHorizontal className="w-3.5 h-3.5 sm:mr-1" /><span className="hidden sm:inline text-xs">Blame</span>
+								</Button>
+							)}
 							{!isEditing && (
 								<Button variant="ghost" size="sm" onClick={() => setHistoryOpen(true)} className="h-7 px-2 text-muted-foreground hover:text-foreground" title="Document history">
 									<History className="w-3.5 h-3.5 sm:mr-1" /><span className="hidden sm:inline text-xs">History</span>
 								</Button>
 							)}
+							{!isEditing && !selectedDoc.isImported && (
+								<Button variant="ghost" size="sm" onClick={() => setMoveOpen(true)} className="h-7 px-2 text-muted-foreground hover:text-foreground" title="Move document and rewrite references to it">
+									<FolderInput className="w-3.5 h-3.5 sm:mr-1" /><span className="hidden sm:inline text-xs">Move</span>
+								</Button>
+							)}
 							{!isEditing ? (
 								<Button size="sm" variant="ghost" onClick={handleEdit} disabled={selectedDoc.isImported} className="h-7 px-2" title={selectedDoc.isImported ? "Imported docs are read-only" : "Edit document"}>
 									<Pencil className="w-3.5 h-3.5 sm:mr-1" /><span className="hidden sm:inline text-xs">Edit</span>
 								</Button>
 							) : (
 								<>
-									<Button size="sm" onClick={handleSave} disabled={saving} className="h-7 px-2.5 rounded-full">
+									<Button size="sm" onClick={handleSave} disabled={saving || !collab.ready} className="h-7 px-2.5 rounded-full">
 										<Check className="w-3.5 h-3.5 sm:mr-1" /><span className="hidden sm:inline text-xs">{saving ? "Saving..." : "Save"}</span>
 									</Button>
 									<Button size="sm" variant="secondary" onClick={handleCancel} disabled={saving} className="h-7 px-2.5 rounded-full">
@@ -399,8 +513,21 @@ function DocsPageInner() {
 						</div>
 
 						{isEditing ? (
-							<div className="flex-1 min-h-0 overflow-hidden p-4 sm:p-6">
-								<MDEditor markdown={editedContent} onChange={setEditedContent} placeholder="Write your documentation here..." height="100%" className="h-full" />
+							<div className="relative flex-1 min-h-0 overflow-hidden p-4 sm:p-6">
+								{collab.ready ? (
+									<MDEditor
+										ref={editorRef}
+										markdown={collab.text}
+										onChange={collab.setText}
+										onTextareaChange={setEditorTextarea}
+										remoteCursors={collab.remoteCursors}
+										placeholder="Write your documentation here..."
+										height="100%"
+										className="h-full"
+									/>
+								) : (
+									<div className="flex h-full items-center justify-center text-sm text-muted-foreground">Joining live session...</div>
+								)}
 							</div>
 						) : (
 							<div className="flex-1 overflow-y-auto relative" ref={scrollContainerRef}>
@@ -415,37 +542,53 @@ function DocsPageInner() {
 											linkedTasks={linkedTasks}
 											linkedTasksExpanded={linkedTasksExpanded} setLinkedTasksExpanded={setLinkedTasksExpanded}
 											openTask={openTask}
+											peers={collab.peers}
 										/>
-										<div ref={markdownPreviewRef} className="prose-neutral dark:prose-invert relative">
-											<MDRenderWithHighlight
-												ref={lineHighlightRef}
+										{blameMode ? (
+											<DocBlameView
+												docPath={selectedDoc.path}
 												content={selectedDoc.content || ""}
-												lineHighlight={lineHighlight}
-												onDismissHighlight={lineHighlight ? dismissLineHighlight : undefined}
-												onTaskLinkClick={setPreviewTaskId}
-												onDocLinkClick={(path) => navigateTo(`/docs/${path}`)}
-												onHeadingAnchorClick={navigateToHeading}
-												showHeadingAnchors
-											/>
-											{/* Annotation highlights */}
-											<AnnotationHighlighter
-												containerRef={markdownPreviewRef}
-												annotations={currentDocAnnotations}
-												docContent={selectedDoc.content || ""}
-												active={true}
-												onEdit={(ann, changes) => {
-													annotationCtx.update(ann.id, changes);
+												onOpenRevision={(revisionId) => {
+													setHistoryRevision(revisionId);
+													setHistoryOpen(true);
+												}}
+												onOpenAudit={(revision) => {
+													const ref = `doc:${toDisplayPath(selectedDoc.path).replace(/\.md$/, "")}`;
+													navigateTo(`/audit?ref=${encodeURIComponent(ref)}&at=${encodeURIComponent(revision.timestamp)}`);
 												}}
-												onRemove={annotationCtx.remove}
-											/>
-											{/* Annotation selection toolbar */}
-											<AnnotationSelectionToolbar
-												containerRef={markdownPreviewRef}
-												active={true}
-												docContent={selectedDoc.content || ""}
-												onAnnotate={handleAnnotate}
 											/>
-										</div>
+										) : (
+											<div ref={markdownPreviewRef} className="prose-neutral dark:prose-invert relative">
+												<MDRenderWithHighlight
+													ref={lineHighlightRef}
+													content={selectedDoc.content || ""}
+													lineHighlight={lineHighlight}
+													onDismissHighlight={lineHighlight ? dismissLineHighlight : undefined}
+													onTaskLinkClick={setPreviewTaskId}
+													onDocLinkClick={(path) => navigateTo(`/docs/${path}`)}
+													onHeadingAnchorClick={navigateToHeading}
+													showHeadingAnchors
+												/>
+												{/* Annotation highlights */}
+												<AnnotationHighlighter
+													containerRef={markdownPreviewRef}
+													annotations={currentDocAnnotations}
+													docContent={selectedDoc.content || ""}
+													active={true}
+													onEdit={(ann, changes) => {
+														annotationCtx.update(ann.id, changes);
+													}}
+													onRemove={annotationCtx.remove}
+												/>
+												{/* Annotation selection toolbar */}
+												<AnnotationSelectionToolbar
+													containerRef={markdownPreviewRef}
+													active={true}
+													docContent={selectedDoc.content || ""}
+													onAnnotate={handleAnnotate}
+												/>
+											</div>
+										)}
 									</article>
 									{!isEditing && (
 										<div className="w-56 shrink-0 hidden xl:block pt-12 pr-6">
@@ -468,7 +611,12 @@ function DocsPageInner() {
 					<DocsCreateView
 						currentFolder={currentFolder}
 						onClose={() => setShowCreateView(false)}
-						onCreated={() => { setShowCreateView(false); setMobileSidebarOpen(false); loadDocs(); }}
+						onCreated={(path) => {
+							setShowCreateView(false);
+							setMobileSidebarOpen(false);
+							loadDocs();
+							if (path) navigateTo(`/docs/${path}`);
+						}}
 						onOpenMobileSidebar={() => setMobileSidebarOpen(true)}
 					/>
 				) : (
@@ -478,15 +626,61 @@ function DocsPageInner() {
 			{selectedDoc && (
 				<DocHistorySheet
 					open={historyOpen}
-					onOpenChange={setHistoryOpen}
+					onOpenChange={(open) => {
+						setHistoryOpen(open);
+						if (!open) {
+							setHistoryRevision(null);
+							changeCompareTarget(null);
+						}
+					}}
 					docPath={selectedDoc.path}
 					docTitle={selectedDoc.metadata.title || selectedDoc.path}
 					readOnly={selectedDoc.isImported}
 					onRestored={() => {
 						void loadDocs();
 					}}
+					focusRevision={historyRevision}
+					compare={compareTarget}
+					onCompareChange={changeCompareTarget}
+				/>
+			)}
+			{selectedDoc && !selectedDoc.isImported && (
+				<DocMoveDialog
+					open={moveOpen}
+					onOpenChange={setMoveOpen}
+					docPath={selectedDoc.path}
+					onMoved={(result) => {
+						void loadDocs();
+						navigateTo(`/docs/${result.newPath}.md`);
+					}}
 				/>
 			)}
+			<DocLinkHealthSheet
+				open={linkHealthOpen}
+				onOpenChange={setLinkHealthOpen}
+				onRepaired={() => {
+					void loadDocs();
+				}}
+			/>
+			<DocSiteExportDialog
+				open={siteExportOpen}
+				onOpenChange={setSiteExportOpen}
+				docs={docs}
+				currentFolder={currentFolder}
+			/>
+			<ThreeWayMergeDialog
+				open={metaMerge !== null}
+				onOpenChange={(open) => {
+					if (open || !metaMerge) return;
+					showMetadata(metaMerge.theirs);
+					setMetaMerge(null);
+					loadDocs();
+				}}
+				title="This doc changed while you were editing"
+				fields={metaMerge?.fields ?? []}
+				saving={metaMergeSaving}
+				onResolve={handleResolveMetaMerge}
+			/>
 			<TaskPreviewDialog taskId={previewTaskId} open={!!previewTaskId} onOpenChange={(open) => { if (!open) setPreviewTaskId(null); }} />
 		</div>
 	);
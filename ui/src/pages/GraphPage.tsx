@@ -1,12 +1,14 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import ForceGraph2D, { type ForceGraphMethods } from "react-force-graph-2d";
-import { Loader2 } from "lucide-react";
+import { AlertTriangle, Loader2 } from "lucide-react";
 
 import { useTheme } from "@/ui/App";
-import { getGraph, type GraphData, type GraphEdge, type GraphNode } from "@/ui/api/client";
+import { api, getGraph, type GraphData, type GraphEdge, type GraphNode } from "@/ui/api/client";
 import { DocPreviewDialog } from "@/ui/components/organisms/DocsPreview/DocPreviewDialog";
 import { TaskPreviewDialog } from "@/ui/components/organisms/TaskDetail/TaskPreviewDialog";
 import { useSSEEvent } from "@/ui/contexts/SSEContext";
+import { computeCriticalPath, dependencyEdgeKey } from "@/ui/lib/taskDependencies";
+import type { Task } from "@/ui/models/task";
 
 import { GraphDetailPanel } from "./GraphDetailPanel";
 import { GraphLegend } from "./graph/GraphLegend";
@@ -60,6 +62,17 @@ function edgeId(edge: GraphEdge): string {
 	return `${edge.source}-${edge.type}-${edge.target}`;
 }
 
+const CRITICAL_PATH_COLOR = "#f97316";
+
+function linkEndpointId(end: string | ForceNode): string {
+	return typeof end === "string" ? end : end.id;
+}
+
+/** Task ID from a "task:<id>" graph node ID, or null for other node types. */
+function taskIdFromNodeId(nodeId: string): string | null {
+	return nodeId.startsWith("task:") ? nodeId.slice("task:".length) : null;
+}
+
 function getNodeColor(node: GraphNode): string {
 	switch (node.type) {
 	case "task":
@@ -230,6 +243,8 @@ export default function GraphPage() {
 	const [debouncedSearchQuery, setDebouncedSearchQuery] = useState("");
 	const [impactNodeId, setImpactNodeId] = useState<string | null>(null);
 	const [engineRunning, setEngineRunning] = useState(false);
+	const [criticalPathActive, setCriticalPathActive] = useState(false);
+	const [dependencyTasks, setDependencyTasks] = useState<Task[]>([]);
 	const hoverNodeIdRef = useRef<string | null>(null);
 
 	const fetchGraph = useCallback(async () => {
@@ -250,8 +265,26 @@ export default function GraphPage() {
 		fetchGraph();
 	}, [fetchGraph]);
 
-	useSSEEvent("tasks:updated", fetchGraph);
-	useSSEEvent("tasks:refresh", fetchGraph);
+	const fetchDependencyTasks = useCallback(async () => {
+		if (!criticalPathActive) return;
+		try {
+			setDependencyTasks(await api.getTasks());
+		} catch (err) {
+			console.error("Failed to load tasks for critical path:", err);
+		}
+	}, [criticalPathActive]);
+
+	useEffect(() => {
+		fetchDependencyTasks();
+	}, [fetchDependencyTasks]);
+
+	const refreshTasks = useCallback(() => {
+		fetchGraph();
+		fetchDependencyTasks();
+	}, [fetchGraph, fetchDependencyTasks]);
+
+	useSSEEvent("tasks:updated", refreshTasks);
+	useSSEEvent("tasks:refresh", refreshTasks);
 	useSSEEvent("docs:updated", fetchGraph);
 
 	useEffect(() => {
@@ -278,6 +311,24 @@ export default function GraphPage() {
 		};
 	}, [filteredData, impactNodeId]);
 
+	const criticalPath = useMemo(
+		() => (criticalPathActive ? computeCriticalPath(dependencyTasks) : null),
+		[criticalPathActive, dependencyTasks],
+	);
+	const criticalNodeIds = useMemo(
+		() => new Set((criticalPath?.taskIds ?? []).map((id) => `task:${id}`)),
+		[criticalPath],
+	);
+	const isCriticalLink = useCallback(
+		(link: ForceLink) => {
+			if (!criticalPath || link.type !== "depends") return false;
+			const source = taskIdFromNodeId(linkEndpointId(link.source));
+			const target = taskIdFromNodeId(linkEndpointId(link.target));
+			return !!source && !!target && criticalPath.edges.has(dependencyEdgeKey(source, target));
+		},
+		[criticalPath],
+	);
+
 	const forceData = useMemo(() => {
 		if (!filteredData) return { ...EMPTY_FORCE_DATA };
 		const next = buildForceData(filteredData, debouncedSearchQuery);
@@ -343,6 +394,10 @@ export default function GraphPage() {
 		setImpactNodeId(null);
 	}, []);
 
+	const toggleCriticalPath = useCallback(() => {
+		setCriticalPathActive((prev) => !prev);
+	}, []);
+
 	if (error) {
 		return (
 			<div className="flex-1 flex items-center justify-center">
@@ -358,12 +413,14 @@ export default function GraphPage() {
 				searchQuery={searchQuery}
 				searchMatchCount={forceData.matches}
 				impactNodeId={impactNodeId}
+				criticalPathActive={criticalPathActive}
 				isFullscreen={isFullscreen}
 				nodeCount={nodeCount}
 				edgeCount={edgeCount}
 				onToggleFilter={toggleFilter}
 				onSearchChange={setSearchQuery}
 				onClearImpact={handleClearImpact}
+				onToggleCriticalPath={toggleCriticalPath}
 				onZoomToFit={handleZoomToFit}
 				onToggleFullscreen={toggleFullscreen}
 			/>
@@ -395,12 +452,13 @@ export default function GraphPage() {
 							nodeLabel={() => ""}
 							nodeColor={(node) => (node as ForceNode).color}
 							nodeVal={(node) => (node as ForceNode).val || 6}
-						linkColor={(link) => (link as ForceLink).color}
+						linkColor={(link) => (isCriticalLink(link as ForceLink) ? CRITICAL_PATH_COLOR : (link as ForceLink).color)}
 						linkWidth={(link) => {
 							const l = link as ForceLink;
+							if (isCriticalLink(l)) return 3;
 							if (!impactNeighborhood) return l.width;
-							const source = typeof l.source === "string" ? l.source : l.source.id;
-							const target = typeof l.target === "string" ? l.target : l.target.id;
+							const source = linkEndpointId(l.source);
+							const target = linkEndpointId(l.target);
 							return impactNeighborhood.has(source) && impactNeighborhood.has(target) ? 2 : 0.6;
 						}}
 						linkDirectionalArrowLength={3.5}
@@ -444,6 +502,15 @@ export default function GraphPage() {
 									ctx.globalAlpha = 1;
 								}
 
+							// Ring for tasks on the critical path.
+							if (criticalNodeIds.has(n.id)) {
+								ctx.beginPath();
+								ctx.arc(x, y, r + 2, 0, 2 * Math.PI, false);
+								ctx.strokeStyle = CRITICAL_PATH_COLOR;
+								ctx.lineWidth = 2;
+								ctx.stroke();
+							}
+
 							ctx.beginPath();
 							ctx.arc(x, y, r, 0, 2 * Math.PI, false);
 							ctx.fillStyle = displayColor;
@@ -492,6 +559,31 @@ export default function GraphPage() {
 						/>
 					</div>
 
+					{criticalPath && !impactSummary && (
+						<div
+							className="absolute top-3 left-1/2 -translate-x-1/2 z-10 max-w-md rounded-lg border bg-background/95 backdrop-blur-sm shadow-lg px-4 py-2 text-xs space-y-1"
+							data-testid="graph-critical-path"
+						>
+							<div>
+								<span className="font-medium text-foreground">Critical path: </span>
+								<span className="text-muted-foreground">
+									{criticalPath.taskIds.length > 0
+										? criticalPath.taskIds.map((id) => `#${id}`).join(" → ")
+										: "no open dependency chains"}
+								</span>
+							</div>
+							{criticalPath.cycles.length > 0 && (
+								<div className="flex items-start gap-1.5 text-destructive" data-testid="graph-dependency-cycles">
+									<AlertTriangle className="w-3.5 h-3.5 shrink-0 mt-px" />
+									<span>
+										Dependency {criticalPath.cycles.length === 1 ? "cycle" : "cycles"}:{" "}
+										{criticalPath.cycles.map((cycle) => cycle.map((id) => `#${id}`).join(" → ")).join("; ")}
+									</span>
+								</div>
+							)}
+						</div>
+					)}
+
 					{impactSummary && (
 						<div className="absolute top-3 left-1/2 -translate-x-1/2 z-10 rounded-lg border bg-background/95 backdrop-blur-sm shadow-lg px-4 py-2 text-xs">
 							<span className="font-medium text-foreground">Impact: </span>
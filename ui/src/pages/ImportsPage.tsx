@@ -189,6 +189,7 @@ export default function ImportsPage() {
 
 	// Sync state
 	const [syncing, setSyncing] = useState<string | null>(null);
+	const [remoteSyncingNames, setRemoteSyncingNames] = useState<Set<string>>(() => new Set());
 	const [syncingAll, setSyncingAll] = useState(false);
 	const [syncResult, setSyncResult] = useState<ImportResult | null>(null);
 
@@ -214,16 +215,55 @@ export default function ImportsPage() {
 		loadImports();
 	}, [loadImports]);
 
-	// SSE events
-	useSSEEvent("imports:added", () => loadImports());
-	useSSEEvent("imports:synced", () => loadImports());
-	useSSEEvent("imports:removed", () => {
-		loadImports();
-		if (selectedName) {
+	// SSE events patch the list in place; syncs started elsewhere (CLI, MCP,
+	// another tab) show up as in-progress until their completion event.
+	const upsertImport = useCallback((entry: Import) => {
+		setImports((current) => {
+			const index = current.findIndex((item) => item.name === entry.name);
+			if (index === -1) return [...current, entry];
+			const next = [...current];
+			next[index] = entry;
+			return next;
+		});
+	}, []);
+
+	const setRemoteSyncing = useCallback((name: string, active: boolean) => {
+		setRemoteSyncingNames((current) => {
+			if (current.has(name) === active) return current;
+			const next = new Set(current);
+			if (active) {
+				next.add(name);
+			} else {
+				next.delete(name);
+			}
+			return next;
+		});
+	}, []);
+
+	useSSEEvent("imports:added", ({ import: entry }) => upsertImport(entry), [upsertImport]);
+	useSSEEvent("imports:removed", ({ name }) => {
+		setImports((current) => current.filter((item) => item.name !== name));
+		if (selectedName === name) {
 			setSelectedImport(null);
 			setSelectedName(null);
 		}
-	});
+	}, [selectedName]);
+	useSSEEvent("imports:sync-started", ({ name }) => setRemoteSyncing(name, true), [setRemoteSyncing]);
+	useSSEEvent("imports:sync-failed", ({ name }) => setRemoteSyncing(name, false), [setRemoteSyncing]);
+	useSSEEvent("imports:sync-completed", ({ name, import: entry, upToDate }) => {
+		setRemoteSyncing(name, false);
+		upsertImport(entry);
+		if (selectedName !== name) return;
+		if (upToDate) {
+			setSelectedImport((current) => (current ? { ...current, ...entry } : current));
+			return;
+		}
+		// The file list isn't part of the event; refresh it without the spinner.
+		importApi
+			.get(name)
+			.then((data) => setSelectedImport(data.import))
+			.catch((err) => console.error("Failed to refresh import:", err));
+	}, [selectedName, setRemoteSyncing, upsertImport]);
 
 	// Load import detail
 	const loadImportDetail = async (name: string) => {
@@ -375,6 +415,8 @@ export default function ImportsPage() {
 		setShowAddModal(false);
 	};
 
+	const selectedSyncing = !!selectedImport && (syncing === selectedImport.name || remoteSyncingNames.has(selectedImport.name));
+
 	if (loading) {
 		return (
 			<div className="max-w-[960px] mx-auto px-6 py-10 flex items-center justify-center h-64">
@@ -425,9 +467,9 @@ export default function ImportsPage() {
 								variant="ghost"
 								size="sm"
 								onClick={() => handleSync(selectedImport.name)}
-								disabled={syncing === selectedImport.name || selectedImport.link}
+								disabled={selectedSyncing || selectedImport.link}
 							>
-								{syncing === selectedImport.name ? (
+								{selectedSyncing ? (
 									<Loader2 className="w-4 h-4 animate-spin" />
 								) : (
 									<RefreshCw className="w-4 h-4" />
@@ -638,6 +680,9 @@ export default function ImportsPage() {
 											{imp.source}
 										</div>
 									</div>
+									{remoteSyncingNames.has(imp.name) && (
+										<Loader2 className="w-4 h-4 animate-spin text-muted-foreground shrink-0" />
+									)}
 									<div className="text-xs text-muted-foreground text-right shrink-0 hidden sm:block">
 										<div>{imp.fileCount} files</div>
 										<div>{formatDate(imp.lastSync)}</div>
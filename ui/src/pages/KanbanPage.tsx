@@ -15,6 +15,8 @@ import type { TaskLifecycleResponse } from "../models/taskLifecycle";
 import { TaskLifecycleDialog } from "../components/organisms/TaskLifecycleDialog";
 import { toast } from "../components/ui/sonner";
 import { useIsMobile } from "../hooks/useMobile";
+import { TaskViewBar } from "../components/organisms/TaskViewBar";
+import { useTaskView } from "../hooks/useTaskView";
 
 // Time duration options for batch archive (in milliseconds)
 const BATCH_ARCHIVE_OPTIONS = [
@@ -35,6 +37,7 @@ interface KanbanPageProps {
 
 export default function KanbanPage({ tasks, loading, onTasksUpdate, onNewTask }: KanbanPageProps) {
 	const isMobile = useIsMobile();
+	const taskView = useTaskView("kanban");
 	const [mobileWarningDismissed, setMobileWarningDismissed] = useState(() => {
 		return sessionStorage.getItem("kanban-mobile-warning-dismissed") === "true";
 	});
@@ -174,11 +177,12 @@ export default function KanbanPage({ tasks, loading, onTasksUpdate, onNewTask }:
 						</Button>
 					</div>
 				</div>
+				<TaskViewBar taskView={taskView} className="mt-4" />
 			</div>
 
 			{/* Board with scrollable columns */}
 			<div className="flex-1 overflow-hidden px-6 pb-6">
-				<Board tasks={tasks} loading={loading} onTasksUpdate={onTasksUpdate} />
+				<Board tasks={tasks} loading={loading} onTasksUpdate={onTasksUpdate} filterTasks={taskView.filterTasks} />
 			</div>
 
 			<TaskLifecycleDialog
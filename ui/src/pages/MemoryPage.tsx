@@ -5,6 +5,7 @@ import {
 	type MemoryBulkAction,
 	type MemoryEntry,
 	type MemoryItemAction,
+	type MemoryOperation,
 	type MemoryReviewInboxResponse,
 	type MemoryReviewItem,
 	type MemoryReviewMatch,
@@ -20,19 +21,25 @@ import {
 	CheckCircle2,
 	CircleAlert,
 	Clock3,
+	Download,
 	FileQuestion,
 	GitMerge,
+	History,
 	Link2,
 	Loader2,
 	Plus,
 	RefreshCw,
 	ShieldCheck,
 	SquareCheckBig,
+	Undo2,
+	Upload,
 	Wrench,
 	XCircle,
 	type LucideIcon,
 } from "lucide-react";
 import MDRender from "@/ui/components/editor/MDRender";
+import { useSSEEvent } from "@/ui/contexts/SSEContext";
+import { toast } from "@/ui/components/ui/sonner";
 import {
 	Dialog,
 	DialogContent,
@@ -41,8 +48,12 @@ import {
 	DialogTitle,
 } from "@/ui/components/ui/dialog";
 import { cn } from "@/ui/lib/utils";
+import { MemoryBundleDialog } from "./memory/MemoryBundleDialog";
+import { MemoryClustersView } from "./memory/MemoryClustersView";
+import { MemoryHistorySheet } from "./memory/MemoryHistorySheet";
+import { MemoryTTLView } from "./memory/MemoryTTLView";
 
-type MemoryView = "review" | "healthy" | "archived" | "all";
+type MemoryView = "review" | "healthy" | "archived" | "all" | "ttl" | "duplicates";
 
 type CreateDraft = {
 	title: string;
@@ -122,6 +133,8 @@ const viewTabs: Array<{ id: MemoryView; label: string }> = [
 	{ id: "healthy", label: "Healthy" },
 	{ id: "archived", label: "Archived" },
 	{ id: "all", label: "All" },
+	{ id: "ttl", label: "TTL" },
+	{ id: "duplicates", label: "Duplicates" },
 ];
 
 const statusLabels: Record<string, string> = {
@@ -142,6 +155,15 @@ const resolutionLabels: Record<MemoryReviewResolution, string> = {
 	merge_existing: "Merge",
 };
 
+const bulkActionLabels: Record<MemoryBulkAction, string> = {
+	verify: "Verified",
+	archive: "Archived",
+	reject_proposed: "Rejected",
+};
+
+/** How long the undo toast stays up. The server keeps operations undoable longer. */
+const UNDO_TOAST_MS = 30_000;
+
 export default function MemoryPage() {
 	const [inbox, setInbox] = useState<MemoryReviewInboxResponse>(emptyInbox);
 	const [loading, setLoading] = useState(true);
@@ -149,6 +171,8 @@ export default function MemoryPage() {
 	const [selectedID, setSelectedID] = useState<string | null>(null);
 	const [selectedIDs, setSelectedIDs] = useState<Set<string>>(() => new Set());
 	const [createOpen, setCreateOpen] = useState(false);
+	const [bundleOpen, setBundleOpen] = useState(false);
+	const [bundleMode, setBundleMode] = useState<"export" | "import">("export");
 	const [errorMessage, setErrorMessage] = useState("");
 
 	const fetchReview = useCallback(async () => {
@@ -181,6 +205,36 @@ export default function MemoryPage() {
 		};
 	}, [fetchReview]);
 
+	// Memories changed elsewhere (MCP, CLI, another tab) are patched into the
+	// inbox from their SSE payloads, then the server re-reviews just those
+	// memories instead of the page reloading the whole review.
+	const applyMemoryChanges = useCallback((changed: MemoryEntry[], removedIDs: string[] = []) => {
+		if (changed.length === 0 && removedIDs.length === 0) return;
+		setInbox((current) => patchReviewInbox(current, changed, removedIDs));
+		if (changed.length > 0) {
+			const ids = changed.map((memory) => memory.id);
+			memoryApi
+				.reviewInbox(ids)
+				.then((review) => setInbox((current) => patchReviewInbox(current, review.memories, [], ids, review.items)))
+				.catch((err: unknown) => console.error("Failed to refresh memory review items:", err));
+		}
+		if (removedIDs.length > 0) {
+			setSelectedIDs((current) => {
+				if (!removedIDs.some((id) => current.has(id))) return current;
+				const next = new Set(current);
+				for (const id of removedIDs) next.delete(id);
+				return next;
+			});
+			setSelectedID((current) => (current && removedIDs.includes(current) ? null : current));
+		}
+	}, []);
+
+	useSSEEvent("memories:created", ({ memory }) => applyMemoryChanges([memory]), [applyMemoryChanges]);
+	useSSEEvent("memories:updated", ({ memory, memories }) => {
+		applyMemoryChanges(memories ?? (memory ? [memory] : []));
+	}, [applyMemoryChanges]);
+	useSSEEvent("memories:deleted", ({ id }) => applyMemoryChanges([], [id]), [applyMemoryChanges]);
+
 	const itemByID = useMemo(() => {
 		const byID = new Map<string, MemoryReviewItem>();
 		for (const item of inbox.items) {
@@ -260,17 +314,63 @@ export default function MemoryPage() {
 		});
 	}, []);
 
-	const handleBulk = useCallback(
-		async (action: MemoryBulkAction) => {
-			if (selectedIDs.size === 0) return;
+	const handleUndo = useCallback(
+		async (operation: MemoryOperation) => {
+			try {
+				await memoryApi.undoOperation(operation.id);
+				toast.success("Undone");
+				await refreshAfterAction();
+			} catch (err) {
+				toast.error(err instanceof Error ? err.message : "Undo failed");
+			}
+		},
+		[refreshAfterAction],
+	);
+
+	const offerUndo = useCallback(
+		(operation: MemoryOperation | undefined, message: string) => {
+			if (!operation || operation.memoryIds.length === 0) return;
+			toast(message, {
+				duration: UNDO_TOAST_MS,
+				action: { label: "Undo", onClick: () => void handleUndo(operation) },
+			});
+		},
+		[handleUndo],
+	);
+
+	const runBulk = useCallback(
+		async (action: MemoryBulkAction, ids: string[]) => {
+			if (ids.length === 0) return;
 			try {
-				await memoryApi.bulkAction(action, Array.from(selectedIDs));
+				const result = await memoryApi.bulkAction(action, ids);
+				offerUndo(result.operation, `${bulkActionLabels[action]} ${result.count} ${result.count === 1 ? "memory" : "memories"}`);
 				await refreshAfterAction();
 			} catch (err) {
 				setErrorMessage(err instanceof Error ? err.message : "Bulk action failed");
 			}
 		},
-		[refreshAfterAction, selectedIDs],
+		[offerUndo, refreshAfterAction],
+	);
+
+	const handleBulk = useCallback(
+		(action: MemoryBulkAction) => runBulk(action, Array.from(selectedIDs)),
+		[runBulk, selectedIDs],
+	);
+
+	const handleMergeCluster = useCallback(
+		async (survivorID: string, memberIDs: string[], content: string) => {
+			try {
+				const result = await memoryApi.mergeCluster(survivorID, memberIDs, content);
+				const merged = memberIDs.length - 1;
+				offerUndo(result.operation, `Merged ${merged} ${merged === 1 ? "memory" : "memories"}`);
+				await refreshAfterAction();
+				return true;
+			} catch (err) {
+				setErrorMessage(err instanceof Error ? err.message : "Merge failed");
+				return false;
+			}
+		},
+		[offerUndo, refreshAfterAction],
 	);
 
 	const handleItemAction = useCallback(
@@ -289,7 +389,7 @@ export default function MemoryPage() {
 		async (memory: MemoryEntry, resolution: MemoryReviewResolution, targetID?: string) => {
 			try {
 				const includeSourceID = resolution === "merge_existing";
-				await memoryApi.resolveReview({
+				const result = await memoryApi.resolveReview({
 					resolution,
 					targetId: targetID,
 					id: includeSourceID ? memory.id : undefined,
@@ -303,11 +403,29 @@ export default function MemoryPage() {
 					ttlDays: memory.ttlDays,
 					status: resolution === "create_proposed" ? "proposed" : undefined,
 				});
+				if (result.warning) {
+					toast.warning(result.warning);
+				} else {
+					offerUndo(result.operation, `${resolutionLabels[resolution]}: ${memory.title || memory.id}`);
+				}
 				await refreshAfterAction();
 			} catch (err) {
 				setErrorMessage(err instanceof Error ? err.message : "Review resolution failed");
 			}
 		},
+		[offerUndo, refreshAfterAction],
+	);
+
+	const handleUnmerge = useCallback(
+		async (id: string) => {
+			try {
+				await memoryApi.unmerge(id);
+				toast.success("Memory unmerged");
+				await refreshAfterAction();
+			} catch (err) {
+				setErrorMessage(err instanceof Error ? err.message : "Unmerge failed");
+			}
+		},
 		[refreshAfterAction],
 	);
 
@@ -349,6 +467,28 @@ export default function MemoryPage() {
 							<RefreshCw className="h-4 w-4" />
 							Refresh
 						</button>
+						<button
+							type="button"
+							onClick={() => {
+								setBundleMode("import");
+								setBundleOpen(true);
+							}}
+							className="inline-flex min-h-9 items-center gap-2 rounded-lg border border-border/60 px-3 text-sm font-medium transition-colors hover:bg-accent"
+						>
+							<Upload className="h-4 w-4" />
+							Import
+						</button>
+						<button
+							type="button"
+							onClick={() => {
+								setBundleMode("export");
+								setBundleOpen(true);
+							}}
+							className="inline-flex min-h-9 items-center gap-2 rounded-lg border border-border/60 px-3 text-sm font-medium transition-colors hover:bg-accent"
+						>
+							<Download className="h-4 w-4" />
+							Export
+						</button>
 						<button
 							type="button"
 							onClick={() => setCreateOpen(true)}
@@ -398,6 +538,10 @@ export default function MemoryPage() {
 							onBulk={handleBulk}
 							canRejectSelected={canRejectSelected}
 						/>
+					) : view === "ttl" ? (
+						<MemoryTTLView onOpen={setSelectedID} onVerify={(ids) => runBulk("verify", ids)} />
+					) : view === "duplicates" ? (
+						<MemoryClustersView onOpen={setSelectedID} onMerge={handleMergeCluster} />
 					) : (
 						<MemoryList
 							title={viewTitle(view)}
@@ -414,9 +558,19 @@ export default function MemoryPage() {
 					reviewItem={selectedReviewItem}
 					onAction={handleItemAction}
 					onResolve={handleResolve}
+					onUnmerge={handleUnmerge}
+					onRestored={() => void refreshAfterAction()}
+					onOpenMemory={setSelectedID}
 				/>
 			</main>
 
+			<MemoryBundleDialog
+				open={bundleOpen}
+				onOpenChange={setBundleOpen}
+				mode={bundleMode}
+				onImported={refreshAfterAction}
+			/>
+
 			<CreateMemoryDialog
 				open={createOpen}
 				onOpenChange={setCreateOpen}
@@ -677,16 +831,24 @@ function MemoryDetailPanel({
 	reviewItem,
 	onAction,
 	onResolve,
+	onUnmerge,
+	onRestored,
+	onOpenMemory,
 }: {
 	memory: MemoryEntry | null;
 	reviewItem: MemoryReviewItem | null;
 	onAction: (id: string, action: MemoryItemAction, payload?: Partial<Parameters<typeof memoryApi.action>[1]>) => void;
 	onResolve: (memory: MemoryEntry, resolution: MemoryReviewResolution, targetID?: string) => void;
+	onUnmerge: (id: string) => void;
+	onRestored: () => void;
+	onOpenMemory: (id: string) => void;
 }) {
 	const [sourceText, setSourceText] = useState("");
+	const [historyOpen, setHistoryOpen] = useState(false);
 
 	useEffect(() => {
 		setSourceText("");
+		setHistoryOpen(false);
 	}, [memory?.id]);
 
 	if (!memory) {
@@ -715,9 +877,12 @@ function MemoryDetailPanel({
 						<StatusPill status={memory.status} />
 						{reviewItem?.reasons.map((reason) => <ReasonPill key={reason} reason={reason} />)}
 					</div>
-					<div>
-						<h2 className="text-lg font-semibold leading-tight">{memory.title || "Untitled memory"}</h2>
-						<p className="mt-1 break-all font-mono text-xs text-muted-foreground">{memory.id}</p>
+					<div className="flex items-start justify-between gap-3">
+						<div className="min-w-0">
+							<h2 className="text-lg font-semibold leading-tight">{memory.title || "Untitled memory"}</h2>
+							<p className="mt-1 break-all font-mono text-xs text-muted-foreground">{memory.id}</p>
+						</div>
+						<ActionButton label="History" Icon={History} onClick={() => setHistoryOpen(true)} />
 					</div>
 				</div>
 
@@ -790,6 +955,29 @@ function MemoryDetailPanel({
 					</DetailSection>
 				)}
 
+				{memory.status === "merged" && (
+					<DetailSection title="Merged">
+						<p className="text-sm text-muted-foreground">
+							Merged into{" "}
+							{memory.mergedInto ? (
+								<button
+									type="button"
+									onClick={() => memory.mergedInto && onOpenMemory(memory.mergedInto)}
+									className="font-mono text-xs text-foreground underline-offset-2 hover:underline"
+								>
+									{memory.mergedInto}
+								</button>
+							) : (
+								"another memory"
+							)}
+							. Un-merging restores this memory as it was before the merge.
+						</p>
+						<div className="mt-3">
+							<ActionButton label="Un-merge" Icon={Undo2} onClick={() => onUnmerge(memory.id)} />
+						</div>
+					</DetailSection>
+				)}
+
 				<DetailSection title="Item actions">
 					<div className="grid gap-2 sm:grid-cols-2">
 						<ActionButton label="Verify" Icon={CheckCircle2} onClick={() => onAction(memory.id, "verify")} />
@@ -818,6 +1006,15 @@ function MemoryDetailPanel({
 					</DetailSection>
 				)}
 			</div>
+
+			<MemoryHistorySheet
+				open={historyOpen}
+				onOpenChange={setHistoryOpen}
+				memoryId={memory.id}
+				memoryTitle={memory.title}
+				onRestored={onRestored}
+				onOpenMemory={onOpenMemory}
+			/>
 		</aside>
 	);
 }
@@ -1146,6 +1343,10 @@ function viewTitle(view: MemoryView) {
 			return "Archived memories";
 		case "all":
 			return "All memories";
+		case "ttl":
+			return "Memory expiry";
+		case "duplicates":
+			return "Duplicate clusters";
 		default:
 			return "Review Inbox";
 	}
@@ -1164,3 +1365,44 @@ function formatDate(value?: string) {
 	if (Number.isNaN(parsed.getTime())) return "Not set";
 	return parsed.toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" });
 }
+
+// patchReviewInbox swaps changed memories into the inbox and drops removed
+// ones. reviewedIDs names the memories whose review items the server just
+// recomputed: their items are replaced by reviewed. Other changed memories
+// keep their last items until that refetch lands.
+function patchReviewInbox(
+	inbox: MemoryReviewInboxResponse,
+	changed: MemoryEntry[],
+	removedIDs: string[],
+	reviewedIDs: string[] = [],
+	reviewed: MemoryReviewItem[] = [],
+): MemoryReviewInboxResponse {
+	const removed = new Set(removedIDs);
+	const changedByID = new Map(changed.map((memory) => [memory.id, memory]));
+	const knownIDs = new Set(inbox.memories.map((memory) => memory.id));
+
+	// The inbox is sorted newest first, so new memories go on top.
+	const memories = [
+		...changed.filter((memory) => !knownIDs.has(memory.id)),
+		...inbox.memories
+			.filter((memory) => !removed.has(memory.id))
+			.map((memory) => changedByID.get(memory.id) ?? memory),
+	];
+
+	const replaced = new Set(reviewedIDs);
+	const items: MemoryReviewItem[] = [
+		...reviewed,
+		...inbox.items
+			.filter((item) => !removed.has(item.memory.id) && !replaced.has(item.memory.id))
+			.map((item) => {
+				const memory = changedByID.get(item.memory.id);
+				return memory ? { ...item, memory } : item;
+			}),
+	];
+
+	const counts = { ...emptyInbox.counts };
+	for (const item of items) {
+		for (const reason of item.reasons) counts[reason]++;
+	}
+	return { memories, items, counts };
+}
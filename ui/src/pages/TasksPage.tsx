@@ -1,16 +1,20 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
-import { LayoutList, LayoutGrid, ArchiveRestore } from "lucide-react";
+import { useRouterState } from "@tanstack/react-router";
+import { LayoutList, LayoutGrid, ArchiveRestore, GanttChart } from "lucide-react";
 import type { Task } from "@/ui/models/task";
 import { navigateTo } from "../lib/navigation";
 import { TaskNotionList } from "../components/organisms";
 import { TaskDetailSheet } from "../components/organisms/TaskDetail/TaskDetailSheet";
 import { TaskGroupedView } from "./TasksPage/TaskGroupedView";
+import { TaskTimelineView } from "./TasksPage/TaskTimelineView";
 import { Button } from "../components/ui/button";
 import { api, LifecycleAPIError } from "../api/client";
 import type { TaskLifecycleResponse } from "../models/taskLifecycle";
 import { TaskLifecycleDialog } from "../components/organisms/TaskLifecycleDialog";
 import { toast } from "../components/ui/sonner";
 import { useSSEEvent } from "../contexts/SSEContext";
+import { TaskViewBar } from "../components/organisms/TaskViewBar";
+import { taskViewSearch, useTaskView } from "../hooks/useTaskView";
 
 interface TasksPageProps {
 	tasks: Task[];
@@ -21,8 +25,6 @@ interface TasksPageProps {
 	onNewTask: () => void;
 }
 
-type ViewMode = "table" | "grouped";
-
 export default function TasksPage({
 	tasks,
 	loading,
@@ -31,7 +33,10 @@ export default function TasksPage({
 	onTaskClose,
 	onNewTask,
 }: TasksPageProps) {
-	const [viewMode, setViewMode] = useState<ViewMode>("table");
+	const taskView = useTaskView("table");
+	const viewMode = taskView.layout;
+	const setViewMode = taskView.setLayout;
+	const viewSearch = useRouterState({ select: (state) => taskViewSearch(state.location.search as Record<string, unknown>) });
 	const [selectedTask, setSelectedTask] = useState<Task | null>(null);
 	const [lifecycleFilter, setLifecycleFilter] = useState<"current" | "active" | "done" | "archived" | "all">("current");
 	const [restoreOpen, setRestoreOpen] = useState(false);
@@ -87,7 +92,7 @@ export default function TasksPage({
 
 	const taskSource = historicalMode ? historicalTasks || [] : tasks;
 
-	const visibleTasks = useMemo(() => {
+	const lifecycleTasks = useMemo(() => {
 		switch (lifecycleFilter) {
 			case "active": return taskSource.filter((task) => task.lifecycleState === "active");
 			case "done": return taskSource.filter((task) => task.lifecycleState === "done");
@@ -97,6 +102,9 @@ export default function TasksPage({
 		}
 	}, [taskSource, lifecycleFilter]);
 
+	const { filterTasks } = taskView;
+	const visibleTasks = useMemo(() => filterTasks(lifecycleTasks), [filterTasks, lifecycleTasks]);
+
 	const archivedIDs = useMemo(
 		() => taskSource.filter((task) => task.lifecycleState === "archived").map((task) => task.id),
 		[taskSource],
@@ -167,11 +175,11 @@ export default function TasksPage({
 	}, [externalSelectedTask]);
 
 	const handleTaskClick = (task: Task) => {
-		navigateTo(`/tasks/${task.id}`);
+		navigateTo(`/tasks/${task.id}${viewSearch}`);
 	};
 
 	const handleNavigateToTask = (taskId: string) => {
-		navigateTo(`/tasks/${taskId}`);
+		navigateTo(`/tasks/${taskId}${viewSearch}`);
 	};
 
 	const refreshVisibleData = () => {
@@ -244,9 +252,22 @@ export default function TasksPage({
 							<LayoutGrid className="h-4 w-4" />
 							<span className="hidden sm:inline">Grouped</span>
 						</button>
+						<button
+							type="button"
+							onClick={() => setViewMode("timeline")}
+							className={`flex items-center gap-1.5 px-2.5 py-1.5 rounded-md text-sm transition-colors ${
+								viewMode === "timeline"
+									? "bg-muted text-foreground"
+									: "text-muted-foreground hover:text-foreground"
+							}`}
+						>
+							<GanttChart className="h-4 w-4" />
+							<span className="hidden sm:inline">Timeline</span>
+						</button>
 						</div>
 					</div>
 				</div>
+				<TaskViewBar taskView={taskView} className="mt-4" />
 			</div>
 
 			{/* Content */}
@@ -255,13 +276,25 @@ export default function TasksPage({
 					<div className="flex h-64 items-center justify-center text-muted-foreground">Loading historical Tasks...</div>
 				) : viewMode === "table" ? (
 					<TaskNotionList
+						tasks={visibleTasks}
+						query={taskView.query}
+						onQueryChange={taskView.setQuery}
+						onTaskClick={handleTaskClick}
+						onNewTask={onNewTask}
+					/>
+				) : viewMode === "timeline" ? (
+					<TaskTimelineView
 						tasks={visibleTasks}
 						onTaskClick={handleTaskClick}
+						onTasksUpdate={refreshVisibleData}
 						onNewTask={onNewTask}
 					/>
 				) : (
 					<TaskGroupedView
 						tasks={visibleTasks}
+						allTasks={lifecycleTasks}
+						query={taskView.query}
+						onQueryChange={taskView.setQuery}
 						onTaskClick={handleTaskClick}
 						onNewTask={onNewTask}
 					/>
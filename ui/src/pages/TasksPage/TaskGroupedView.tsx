@@ -14,18 +14,27 @@ import { StatusBadge, PriorityBadge, LabelList } from "@/ui/components/molecules
 import { useConfig } from "@/ui/contexts/ConfigContext";
 import { getStatusLabel, buildStatusOptions } from "@/ui/utils/colors";
 import { TaskLifecycleBadge } from "@/ui/components/molecules/TaskLifecycleBadge";
+import { getTaskQueryValue, setTaskQueryValue } from "@/ui/lib/taskQuery";
 
 interface TaskGroupedViewProps {
+	/** Tasks already filtered by the page's task query. */
 	tasks: Task[];
+	/** Unfiltered tasks, used to resolve parents and list parent choices. */
+	allTasks: Task[];
+	query: string;
+	onQueryChange: (query: string) => void;
 	onTaskClick: (task: Task) => void;
 	onNewTask: () => void;
 }
 
-export function TaskGroupedView({ tasks, onTaskClick, onNewTask }: TaskGroupedViewProps) {
+export function TaskGroupedView({ tasks, allTasks, query, onQueryChange, onTaskClick, onNewTask }: TaskGroupedViewProps) {
 	const { config } = useConfig();
-	const [statusFilter, setStatusFilter] = useState<string>("all");
-	const [parentFilter, setParentFilter] = useState<string>("all");
 	const [expandedTasks, setExpandedTasks] = useState<Set<string>>(new Set());
+	// The status and parent selects edit single-value terms of the shared query.
+	const statusFilter = getTaskQueryValue(query, "status") || "all";
+	const parentFilter = getTaskQueryValue(query, "parent") || "all";
+	const setStatusFilter = (value: string) => onQueryChange(setTaskQueryValue(query, "status", value === "all" ? null : value));
+	const setParentFilter = (value: string) => onQueryChange(setTaskQueryValue(query, "parent", value === "all" ? null : value));
 
 	// Get statuses from config
 	const availableStatuses = useMemo(() => {
@@ -38,17 +47,7 @@ export function TaskGroupedView({ tasks, onTaskClick, onNewTask }: TaskGroupedVi
 	}, [availableStatuses]);
 
 	// Get list of parent tasks (tasks that have subtasks)
-	const parentTasks = tasks.filter((t) => t.subtasks && t.subtasks.length > 0);
-
-	// Filter tasks by status and parent
-	let filteredTasks = statusFilter === "all" ? tasks : tasks.filter((t) => t.status === statusFilter);
-
-	// Apply parent filter
-	if (parentFilter === "root") {
-		filteredTasks = filteredTasks.filter((t) => !t.parent);
-	} else if (parentFilter !== "all") {
-		filteredTasks = filteredTasks.filter((t) => t.parent === parentFilter);
-	}
+	const parentTasks = allTasks.filter((t) => t.subtasks && t.subtasks.length > 0);
 
 	// Group by status - dynamically from config
 	const groupedTasks: Record<string, Task[]> = useMemo(() => {
@@ -58,7 +57,7 @@ export function TaskGroupedView({ tasks, onTaskClick, onNewTask }: TaskGroupedVi
 			groups[status] = [];
 		}
 		// Group filtered tasks
-		for (const task of filteredTasks) {
+		for (const task of tasks) {
 			if (groups[task.status]) {
 				groups[task.status].push(task);
 			} else {
@@ -76,7 +75,7 @@ export function TaskGroupedView({ tasks, onTaskClick, onNewTask }: TaskGroupedVi
 			});
 		}
 		return groups;
-	}, [availableStatuses, filteredTasks]);
+	}, [availableStatuses, tasks]);
 
 	return (
 		<div className="h-full flex flex-col">
@@ -119,7 +118,7 @@ export function TaskGroupedView({ tasks, onTaskClick, onNewTask }: TaskGroupedVi
 					</Select>
 
 					<span className="text-muted-foreground text-xs">
-						{filteredTasks.length} {filteredTasks.length === 1 ? "task" : "tasks"}
+						{tasks.length} {tasks.length === 1 ? "task" : "tasks"}
 					</span>
 				</div>
 
@@ -144,7 +143,7 @@ export function TaskGroupedView({ tasks, onTaskClick, onNewTask }: TaskGroupedVi
 								<div className="border-t border-border/40 pt-2">
 									{statusTasks.map((task) => {
 										const isExpanded = expandedTasks.has(task.id);
-										const parentTask = task.parent ? tasks.find((t) => t.id === task.parent) : null;
+										const parentTask = task.parent ? allTasks.find((t) => t.id === task.parent) : null;
 
 										return (
 											<div
@@ -241,7 +240,7 @@ export function TaskGroupedView({ tasks, onTaskClick, onNewTask }: TaskGroupedVi
 							</div>
 						);
 					})}
-					{filteredTasks.length === 0 && (
+					{tasks.length === 0 && (
 						<div className="text-center py-12">
 							<p className="text-sm text-muted-foreground">No tasks found</p>
 						</div>
@@ -0,0 +1,354 @@
+import { useEffect, useMemo, useRef, useState, type MouseEvent as ReactMouseEvent, type PointerEvent as ReactPointerEvent } from "react";
+import { ChevronDown, ChevronRight, Plus } from "lucide-react";
+import type { Task } from "@/ui/models/task";
+import { api } from "@/ui/api/client";
+import { Button } from "@/ui/components/ui/button";
+import { toast } from "@/ui/components/ui/sonner";
+import { useConfig } from "@/ui/contexts/ConfigContext";
+import { cn } from "@/ui/lib/utils";
+import { getStatusBadgeClasses, DEFAULT_STATUS_COLORS, type ColorName } from "@/ui/utils/colors";
+import { isTaskClosed } from "@/ui/lib/taskDependencies";
+import {
+	addDays,
+	applyTimelineDrag,
+	buildTimelineRows,
+	daysBetween,
+	formatTaskDate,
+	getTaskSpan,
+	getTimelineRange,
+	startOfDay,
+	type TimelineDragMode,
+	type TimelineSpan,
+} from "@/ui/lib/taskTimeline";
+
+const ROW_HEIGHT = 36;
+const BAR_HEIGHT = 20;
+const HEADER_HEIGHT = 44;
+const LABEL_WIDTH = 280;
+
+const ZOOM_LEVELS = {
+	day: 40,
+	week: 20,
+	month: 8,
+} as const;
+
+type ZoomLevel = keyof typeof ZOOM_LEVELS;
+
+interface TaskTimelineViewProps {
+	/** Tasks already filtered by the page's task query. */
+	tasks: Task[];
+	onTaskClick: (task: Task) => void;
+	onTasksUpdate: () => void;
+	onNewTask: () => void;
+}
+
+interface DragState {
+	taskId: string;
+	mode: TimelineDragMode;
+	span: TimelineSpan;
+	originX: number;
+	delta: number;
+}
+
+export function TaskTimelineView({ tasks, onTaskClick, onTasksUpdate, onNewTask }: TaskTimelineViewProps) {
+	const { config } = useConfig();
+	const statusColors = (config?.statusColors as Record<string, ColorName>) || DEFAULT_STATUS_COLORS;
+	const [zoom, setZoom] = useState<ZoomLevel>("week");
+	const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+	const [drag, setDrag] = useState<DragState | null>(null);
+	// Dates saved by a drop, shown until the refreshed tasks arrive.
+	const [pending, setPending] = useState<Map<string, Pick<Task, "startDate" | "dueDate">>>(new Map());
+	const scrollRef = useRef<HTMLDivElement>(null);
+	const dayWidth = ZOOM_LEVELS[zoom];
+
+	useEffect(() => {
+		setPending(new Map());
+	}, [tasks]);
+
+	const today = useMemo(() => startOfDay(new Date()), []);
+	const displayTasks = useMemo(
+		() => tasks.map((task) => (pending.has(task.id) ? { ...task, ...pending.get(task.id) } : task)),
+		[tasks, pending],
+	);
+	const spans = useMemo(
+		() => new Map(displayTasks.map((task) => [task.id, getTaskSpan(task, today)])),
+		[displayTasks, today],
+	);
+	const rows = useMemo(() => buildTimelineRows(displayTasks, spans, collapsed), [displayTasks, spans, collapsed]);
+	const range = useMemo(() => getTimelineRange(spans.values(), today), [spans, today]);
+	const rowIndex = useMemo(() => new Map(rows.map((row, index) => [row.task.id, index])), [rows]);
+
+	// Scroll today into view once per zoom level.
+	useEffect(() => {
+		const el = scrollRef.current;
+		if (!el) return;
+		el.scrollLeft = Math.max(0, daysBetween(range.start, today) * dayWidth - (el.clientWidth - LABEL_WIDTH) / 3);
+	}, [zoom]);
+
+	const spanFor = (taskId: string): TimelineSpan | null => {
+		const span = spans.get(taskId) ?? null;
+		if (!span || !drag || drag.taskId !== taskId || drag.delta === 0) return span;
+		const patch = applyTimelineDrag(span, drag.mode, drag.delta);
+		const task = displayTasks.find((t) => t.id === taskId);
+		return task ? getTaskSpan({ ...task, ...patch }, today) : span;
+	};
+
+	const barGeometry = (span: TimelineSpan) => ({
+		left: daysBetween(range.start, span.start) * dayWidth,
+		width: (daysBetween(span.start, span.end) + 1) * dayWidth,
+	});
+
+	const saveDates = async (taskId: string, patch: Pick<Task, "startDate" | "dueDate">) => {
+		setPending((prev) => new Map(prev).set(taskId, patch));
+		try {
+			await api.updateTask(taskId, patch);
+			onTasksUpdate();
+		} catch (error) {
+			setPending((prev) => {
+				const next = new Map(prev);
+				next.delete(taskId);
+				return next;
+			});
+			toast.error(error instanceof Error ? error.message : "Failed to update task dates");
+		}
+	};
+
+	const startDrag = (event: ReactPointerEvent, task: Task, mode: TimelineDragMode) => {
+		const span = spans.get(task.id);
+		if (!span || isTaskClosed(task) || event.button !== 0) return;
+		event.stopPropagation();
+		(event.currentTarget as Element).setPointerCapture(event.pointerId);
+		setDrag({ taskId: task.id, mode, span, originX: event.clientX, delta: 0 });
+	};
+
+	const moveDrag = (event: ReactPointerEvent) => {
+		if (!drag) return;
+		const delta = Math.round((event.clientX - drag.originX) / dayWidth);
+		if (delta !== drag.delta) setDrag({ ...drag, delta });
+	};
+
+	const endDrag = (task: Task) => {
+		if (!drag) return;
+		const { span, mode, delta } = drag;
+		setDrag(null);
+		if (delta === 0) {
+			if (mode === "move") onTaskClick(task);
+			return;
+		}
+		void saveDates(task.id, applyTimelineDrag(span, mode, delta));
+	};
+
+	// Clicking the empty track of an unscheduled open task plans it for that day.
+	const scheduleAt = (event: ReactMouseEvent<HTMLDivElement>, task: Task) => {
+		if (spans.get(task.id) || isTaskClosed(task)) return;
+		const x = event.clientX - event.currentTarget.getBoundingClientRect().left;
+		const day = formatTaskDate(addDays(range.start, Math.floor(x / dayWidth)));
+		void saveDates(task.id, { startDate: day, dueDate: day });
+	};
+
+	const toggleCollapsed = (taskId: string) => {
+		setCollapsed((prev) => {
+			const next = new Set(prev);
+			if (next.has(taskId)) next.delete(taskId);
+			else next.add(taskId);
+			return next;
+		});
+	};
+
+	const days = useMemo(() => Array.from({ length: range.days }, (_, i) => addDays(range.start, i)), [range]);
+	const trackWidth = range.days * dayWidth;
+	const todayLeft = daysBetween(range.start, today) * dayWidth;
+
+	// Dependency arrows run from the end of the dependency's bar to the start of the dependent's.
+	const arrows = rows.flatMap(({ task }) => {
+		const to = spanFor(task.id);
+		const toRow = rowIndex.get(task.id);
+		if (!to || toRow === undefined) return [];
+		return (task.dependsOn ?? []).flatMap((depId) => {
+			const from = spanFor(depId);
+			const fromRow = rowIndex.get(depId);
+			if (!from || fromRow === undefined) return [];
+			const x1 = barGeometry(from).left + barGeometry(from).width;
+			const y1 = fromRow * ROW_HEIGHT + ROW_HEIGHT / 2;
+			const x2 = barGeometry(to).left;
+			const y2 = toRow * ROW_HEIGHT + ROW_HEIGHT / 2;
+			const bend = Math.max(x1 + 8, Math.min(x2 - 8, x1 + 16));
+			return [
+				{
+					key: `${task.id}->${depId}`,
+					path: `M ${x1} ${y1} H ${bend} V ${y2} H ${x2}`,
+					// The dependent is planned to start before its dependency ends.
+					conflict: to.start <= from.end,
+				},
+			];
+		});
+	});
+
+	return (
+		<div className="h-full flex flex-col" data-testid="task-timeline">
+			<div className="flex items-center justify-between gap-2 mb-4">
+				<div className="flex items-center gap-1">
+					{(Object.keys(ZOOM_LEVELS) as ZoomLevel[]).map((level) => (
+						<button
+							key={level}
+							type="button"
+							onClick={() => setZoom(level)}
+							className={cn(
+								"px-2.5 py-1 rounded-md text-xs capitalize transition-colors",
+								zoom === level ? "bg-muted text-foreground" : "text-muted-foreground hover:text-foreground",
+							)}
+						>
+							{level}
+						</button>
+					))}
+					<span className="ml-2 text-xs text-muted-foreground">
+						Drag a bar to move it, or its edges to change the start or due date.
+					</span>
+				</div>
+				<Button onClick={onNewTask} size="sm" className="shrink-0 gap-1.5">
+					<Plus className="h-4 w-4" />
+					New Task
+				</Button>
+			</div>
+
+			<div ref={scrollRef} className="flex-1 min-h-0 overflow-auto border border-border/40 rounded-md">
+				<div className="relative" style={{ width: LABEL_WIDTH + trackWidth }}>
+					{/* Date header */}
+					<div className="sticky top-0 z-30 flex bg-background border-b border-border/40" style={{ height: HEADER_HEIGHT }}>
+						<div
+							className="sticky left-0 z-10 shrink-0 bg-background border-r border-border/40 px-3 flex items-end pb-1.5 text-xs text-muted-foreground"
+							style={{ width: LABEL_WIDTH }}
+						>
+							Task
+						</div>
+						<div className="relative" style={{ width: trackWidth }}>
+							{days.map((day, i) => {
+								const monthStart = day.getDate() === 1 || i === 0;
+								const showDay = zoom === "day" || (zoom === "week" && day.getDay() === 1);
+								return (
+									<div key={i} className="absolute top-0 h-full" style={{ left: i * dayWidth, width: dayWidth }}>
+										{monthStart && (
+											<span className="absolute top-1 left-1 text-xs font-medium whitespace-nowrap">
+												{day.toLocaleDateString(undefined, { month: "short", year: "numeric" })}
+											</span>
+										)}
+										{showDay && (
+											<span className="absolute bottom-1 left-1 text-[10px] text-muted-foreground">{day.getDate()}</span>
+										)}
+									</div>
+								);
+							})}
+						</div>
+					</div>
+
+					{/* Weekends, today line and dependency arrows, behind and over the bars */}
+					<div
+						className="absolute pointer-events-none"
+						style={{ left: LABEL_WIDTH, top: HEADER_HEIGHT, width: trackWidth, height: rows.length * ROW_HEIGHT }}
+					>
+						{days.map((day, i) =>
+							day.getDay() === 0 || day.getDay() === 6 ? (
+								<div key={i} className="absolute top-0 bottom-0 bg-muted/30" style={{ left: i * dayWidth, width: dayWidth }} />
+							) : null,
+						)}
+						<div className="absolute top-0 bottom-0 w-px bg-red-500/70" style={{ left: todayLeft + dayWidth / 2 }} />
+						<svg className="absolute inset-0 z-20" width={trackWidth} height={rows.length * ROW_HEIGHT}>
+							<defs>
+								<marker id="timeline-arrow" viewBox="0 0 6 6" refX="6" refY="3" markerWidth="6" markerHeight="6" orient="auto">
+									<path d="M0,0 L6,3 L0,6 z" fill="currentColor" />
+								</marker>
+							</defs>
+							{arrows.map((arrow) => (
+								<path
+									key={arrow.key}
+									d={arrow.path}
+									fill="none"
+									strokeWidth={1.25}
+									stroke="currentColor"
+									markerEnd="url(#timeline-arrow)"
+									className={arrow.conflict ? "text-red-500" : "text-muted-foreground/60"}
+								/>
+							))}
+						</svg>
+					</div>
+
+					{/* Rows */}
+					{rows.map(({ task, depth, childCount }) => {
+						const span = spanFor(task.id);
+						const closed = isTaskClosed(task);
+						return (
+							<div key={task.id} className="flex border-b border-border/20" style={{ height: ROW_HEIGHT }}>
+								<div
+									className="sticky left-0 z-20 shrink-0 flex items-center gap-1 pr-2 bg-background border-r border-border/40 text-sm"
+									style={{ width: LABEL_WIDTH, paddingLeft: 8 + depth * 16 }}
+								>
+									{childCount > 0 ? (
+										<button
+											type="button"
+											onClick={() => toggleCollapsed(task.id)}
+											className="p-0.5 text-muted-foreground hover:text-foreground"
+											aria-label={collapsed.has(task.id) ? "Expand subtasks" : "Collapse subtasks"}
+										>
+											{collapsed.has(task.id) ? <ChevronRight className="w-3.5 h-3.5" /> : <ChevronDown className="w-3.5 h-3.5" />}
+										</button>
+									) : (
+										<span className="w-[18px] shrink-0" />
+									)}
+									<button
+										type="button"
+										onClick={() => onTaskClick(task)}
+										className={cn("truncate text-left hover:underline", closed && "text-muted-foreground")}
+										title={`#${task.id} ${task.title}`}
+									>
+										<span className="text-xs text-muted-foreground font-mono mr-1.5">#{task.id}</span>
+										{task.title}
+									</button>
+								</div>
+								<div
+									className={cn("relative", !span && !closed && "cursor-copy")}
+									style={{ width: trackWidth }}
+									onClick={(e) => scheduleAt(e, task)}
+									title={!span && !closed ? "Click to schedule" : undefined}
+								>
+									{span && (
+										<div
+											className={cn(
+												"absolute z-10 rounded-md border text-xs flex items-center overflow-hidden select-none group",
+												getStatusBadgeClasses(task.status, statusColors),
+												closed ? "opacity-70 cursor-pointer" : "cursor-grab active:cursor-grabbing",
+												span.endSource === "open" && "border-dashed",
+												drag?.taskId === task.id && "ring-2 ring-primary",
+											)}
+											style={{ ...barGeometry(span), top: (ROW_HEIGHT - BAR_HEIGHT) / 2, height: BAR_HEIGHT }}
+											onPointerDown={(e) => startDrag(e, task, "move")}
+											onPointerMove={moveDrag}
+											onPointerUp={() => endDrag(task)}
+											onPointerCancel={() => setDrag(null)}
+											onClick={() => closed && onTaskClick(task)}
+											title={`#${task.id} ${task.title}\n${formatTaskDate(span.start)} → ${formatTaskDate(span.end)}`}
+											data-testid="timeline-bar"
+										>
+											{!closed && (
+												<span
+													className="absolute left-0 top-0 bottom-0 w-1.5 cursor-ew-resize opacity-0 group-hover:opacity-100 bg-foreground/20"
+													onPointerDown={(e) => startDrag(e, task, "start")}
+												/>
+											)}
+											<span className="px-2 truncate">{task.title}</span>
+											{!closed && (
+												<span
+													className="absolute right-0 top-0 bottom-0 w-1.5 cursor-ew-resize opacity-0 group-hover:opacity-100 bg-foreground/20"
+													onPointerDown={(e) => startDrag(e, task, "end")}
+												/>
+											)}
+										</div>
+									)}
+								</div>
+							</div>
+						);
+					})}
+				</div>
+			</div>
+		</div>
+	);
+}
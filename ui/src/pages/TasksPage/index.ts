@@ -1 +1,2 @@
 export { TaskGroupedView } from "./TaskGroupedView";
+export { TaskTimelineView } from "./TaskTimelineView";
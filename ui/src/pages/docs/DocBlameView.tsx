@@ -0,0 +1,202 @@
+import { useEffect, useMemo, useState } from "react";
+import { Activity, AlertTriangle, Database } from "lucide-react";
+import { getDocBlame, type DocBlame, type DocBlameRevision } from "../../api/client";
+import { Button } from "../../components/ui/button";
+import { cn, toDisplayPath } from "../../lib/utils";
+import { formatDate } from "./DocRevisionCompare";
+
+type Granularity = "lines" | "sections";
+
+interface DocBlameViewProps {
+	docPath: string;
+	/** Refetches the blame when the doc content changes. */
+	content: string;
+	onOpenRevision: (revisionId: string) => void;
+	onOpenAudit: (revision: DocBlameRevision) => void;
+}
+
+function actorLabel(revision: DocBlameRevision): string {
+	const others = (revision.actors ?? []).filter((name) => name !== revision.actor);
+	const actor = [revision.actor || "Unknown", ...others].join(", ");
+	if (revision.sessionId) return `${actor} (session ${revision.sessionId.slice(0, 8)})`;
+	return actor;
+}
+
+/** Agent writes go through MCP, which records an audit event per call. */
+function hasAuditTrail(revision: DocBlameRevision): boolean {
+	return !!revision.auditEventId || revision.source === "mcp";
+}
+
+function BlameEntry({ revision, onOpenRevision, onOpenAudit }: {
+	revision?: DocBlameRevision;
+	onOpenRevision: (revisionId: string) => void;
+	onOpenAudit: (revision: DocBlameRevision) => void;
+}) {
+	if (!revision) {
+		return <span className="italic text-muted-foreground/70">Not in history</span>;
+	}
+	return (
+		<span className="flex min-w-0 items-center gap-1.5">
+			<button
+				type="button"
+				onClick={() => onOpenRevision(revision.id)}
+				className="flex min-w-0 items-center gap-1.5 rounded px-1 text-left hover:bg-accent"
+				title={`Open ${revision.id} in history`}
+			>
+				<span className="font-mono font-semibold">{revision.id}</span>
+				<span className="truncate">{actorLabel(revision)}</span>
+				<span className="shrink-0 text-muted-foreground/70">{formatDate(revision.timestamp)}</span>
+			</button>
+			{hasAuditTrail(revision) && (
+				<button
+					type="button"
+					onClick={() => onOpenAudit(revision)}
+					className="shrink-0 rounded p-0.5 text-muted-foreground hover:bg-accent hover:text-foreground"
+					title="Open audit event"
+				>
+					<Activity className="h-3 w-3" />
+				</button>
+			)}
+		</span>
+	);
+}
+
+/**
+ * Blame mode for the doc viewer: each line or section of the document with
+ * the revision, actor and time that last changed it.
+ */
+export function DocBlameView({ docPath, content, onOpenRevision, onOpenAudit }: DocBlameViewProps) {
+	const [blame, setBlame] = useState<DocBlame | null>(null);
+	const [error, setError] = useState<string | null>(null);
+	const [granularity, setGranularity] = useState<Granularity>("lines");
+
+	useEffect(() => {
+		let cancelled = false;
+		setError(null);
+		getDocBlame(toDisplayPath(docPath).replace(/\.md$/, ""))
+			.then((next) => {
+				if (!cancelled) setBlame(next);
+			})
+			.catch((err) => {
+				if (!cancelled) {
+					setBlame(null);
+					setError(err instanceof Error ? err.message : "Failed to load blame");
+				}
+			});
+		return () => {
+			cancelled = true;
+		};
+	}, [docPath, content]);
+
+	const revisions = useMemo(
+		() => new Map((blame?.revisions ?? []).map((revision) => [revision.id, revision])),
+		[blame?.revisions],
+	);
+	// Older revisions fade so recent changes stand out.
+	const ages = useMemo(() => {
+		const ordered = [...(blame?.revisions ?? [])].sort((a, b) => a.version - b.version);
+		return new Map(ordered.map((revision, i) => [revision.id, ordered.length > 1 ? i / (ordered.length - 1) : 1]));
+	}, [blame?.revisions]);
+
+	const heat = (revisionId?: string) => {
+		if (!revisionId) return "border-l-amber-400";
+		const age = ages.get(revisionId) ?? 0;
+		if (age > 0.66) return "border-l-primary";
+		if (age > 0.33) return "border-l-primary/60";
+		return "border-l-primary/25";
+	};
+
+	if (error) {
+		return (
+			<div className="flex items-start gap-2 rounded-lg border border-destructive/30 bg-destructive/5 px-3 py-2 text-sm text-destructive">
+				<AlertTriangle className="mt-0.5 h-4 w-4 shrink-0" />
+				<span>{error}</span>
+			</div>
+		);
+	}
+	if (!blame) {
+		return <div className="py-8 text-center text-sm text-muted-foreground">Loading blame...</div>;
+	}
+
+	return (
+		<div className="space-y-3" data-testid="doc-blame">
+			<div className="flex flex-wrap items-center gap-2">
+				<div className="flex items-center gap-1 rounded-md border border-border p-0.5">
+					{(["lines", "sections"] as const).map((value) => (
+						<Button
+							key={value}
+							size="sm"
+							variant={granularity === value ? "secondary" : "ghost"}
+							className="h-6 px-2 text-xs capitalize"
+							onClick={() => setGranularity(value)}
+						>
+							{value}
+						</Button>
+					))}
+				</div>
+				<span className="text-xs text-muted-foreground">
+					{blame.revisions.length} revision{blame.revisions.length === 1 ? "" : "s"} contributed
+				</span>
+			</div>
+
+			{blame.retentionGaps?.length ? (
+				<div className="flex items-start gap-2 rounded-lg border border-amber-200 bg-amber-50 px-3 py-2 text-xs text-amber-900 dark:border-amber-900/60 dark:bg-amber-950/30 dark:text-amber-100">
+					<Database className="mt-0.5 h-3.5 w-3.5 shrink-0" />
+					<span>Older history was compacted; lines attributed to a checkpoint may have been written earlier.</span>
+				</div>
+			) : null}
+
+			{granularity === "lines" ? (
+				<div className="overflow-hidden rounded-md border border-border font-mono text-xs">
+					{blame.lines.map((line, i) => {
+						const first = i === 0 || blame.lines[i - 1]?.revisionId !== line.revisionId;
+						return (
+							<div
+								key={line.line}
+								className={cn("grid grid-cols-[minmax(0,260px)_2.5rem_minmax(0,1fr)] border-l-2", heat(line.revisionId), first && i > 0 && "border-t border-t-border/60")}
+								data-testid="doc-blame-line"
+							>
+								<div className="min-w-0 bg-muted/30 px-1 py-px font-sans text-[11px]">
+									{first && (
+										<BlameEntry revision={line.revisionId ? revisions.get(line.revisionId) : undefined} onOpenRevision={onOpenRevision} onOpenAudit={onOpenAudit} />
+									)}
+								</div>
+								<span className="select-none px-1 py-px text-right tabular-nums opacity-35">{line.line}</span>
+								<span className="min-w-0 whitespace-pre-wrap break-words px-2 py-px">{line.text || " "}</span>
+							</div>
+						);
+					})}
+				</div>
+			) : (
+				<div className="space-y-1.5">
+					{blame.sections.length === 0 && (
+						<div className="rounded-md border border-dashed border-border px-3 py-6 text-center text-sm text-muted-foreground">
+							This document has no headings.
+						</div>
+					)}
+					{blame.sections.map((section) => (
+						<div
+							key={`${section.startLine}-${section.title}`}
+							className={cn("flex flex-wrap items-center justify-between gap-2 rounded-md border border-border border-l-2 px-3 py-2", heat(section.revisionId))}
+							style={{ marginLeft: `${Math.max(0, section.level - 2) * 16}px` }}
+						>
+							<div className="min-w-0">
+								<div className="truncate text-sm font-medium">{section.title}</div>
+								<div className="text-[11px] text-muted-foreground">
+									Lines {section.startLine}-{section.endLine}
+								</div>
+							</div>
+							<div className="text-[11px]">
+								<BlameEntry
+									revision={section.revisionId ? revisions.get(section.revisionId) : undefined}
+									onOpenRevision={onOpenRevision}
+									onOpenAudit={onOpenAudit}
+								/>
+							</div>
+						</div>
+					))}
+				</div>
+			)}
+		</div>
+	);
+}
@@ -0,0 +1,72 @@
+import { useState } from "react";
+import { Download, FileDown, FileText } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "../../components/ui/DropdownMenu";
+import { toast } from "../../components/ui/sonner";
+import { exportDoc, type DocExportFormat, type ExportableDoc } from "../../lib/docExport";
+
+interface DocExportMenuProps {
+  doc: ExportableDoc;
+  /** Offer the appendix of tasks linked to the doc. */
+  hasLinkedTasks: boolean;
+}
+
+export function DocExportMenu({ doc, hasLinkedTasks }: DocExportMenuProps) {
+  const [includeTasks, setIncludeTasks] = useState(true);
+  const [exporting, setExporting] = useState(false);
+
+  const handleExport = async (format: DocExportFormat) => {
+    setExporting(true);
+    try {
+      await exportDoc(doc, { format, includeTasks: hasLinkedTasks && includeTasks });
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to export doc");
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <button
+          type="button"
+          disabled={exporting}
+          className="inline-flex items-center gap-1 rounded-full px-2 py-0.5 hover:bg-muted hover:text-foreground transition-colors disabled:opacity-50"
+          data-testid="doc-export-trigger"
+        >
+          <Download className="w-3 h-3" />
+          {exporting ? "Exporting…" : "Export"}
+        </button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start">
+        <DropdownMenuItem onClick={() => void handleExport("pdf")}>
+          <FileDown className="w-4 h-4 mr-2" />
+          Export as PDF
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => void handleExport("docx")}>
+          <FileText className="w-4 h-4 mr-2" />
+          Export as DOCX
+        </DropdownMenuItem>
+        {hasLinkedTasks && (
+          <>
+            <DropdownMenuSeparator />
+            <DropdownMenuCheckboxItem
+              checked={includeTasks}
+              onCheckedChange={(checked) => setIncludeTasks(checked === true)}
+              onSelect={(e) => e.preventDefault()}
+            >
+              Append linked tasks
+            </DropdownMenuCheckboxItem>
+          </>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -6,12 +6,14 @@ import {
 	Copy,
 	Database,
 	FileClock,
+	GitCompare,
 	History,
 	RefreshCw,
 	RotateCcw,
 	ShieldQuestion,
 } from "lucide-react";
 import {
+	CURRENT_DOC_REVISION,
 	getDocHistory,
 	getDocRevisionDiff,
 	restoreDocRevision,
@@ -33,6 +35,7 @@ import {
 } from "../../components/ui/sheet";
 import { toast } from "../../components/ui/sonner";
 import { cn, toDisplayPath } from "../../lib/utils";
+import { DocRevisionCompare, formatDate, type DocCompareTarget } from "./DocRevisionCompare";
 
 interface DocHistorySheetProps {
 	open: boolean;
@@ -41,6 +44,11 @@ interface DocHistorySheetProps {
 	docTitle: string;
 	readOnly?: boolean;
 	onRestored: () => void;
+	/** Revision to select when the sheet opens, e.g. from the blame view. */
+	focusRevision?: string | null;
+	/** Set while comparing two revisions; mirrored in the page URL. */
+	compare?: DocCompareTarget | null;
+	onCompareChange?: (target: DocCompareTarget | null) => void;
 }
 
 const FIELD_LABELS: Record<string, string> = {
@@ -59,19 +67,9 @@ function valueToString(value: unknown): string {
 	return String(value);
 }
 
-function formatDate(value: string): string {
-	const date = new Date(value);
-	if (Number.isNaN(date.getTime())) return value;
-	return date.toLocaleString(undefined, {
-		month: "short",
-		day: "numeric",
-		hour: "2-digit",
-		minute: "2-digit",
-	});
-}
-
 function formatActor(version: DocVersion): string {
-	const actor = version.actor || version.author || "Unknown";
+	const others = (version.actors ?? []).filter((name) => name !== version.actor);
+	const actor = [version.actor || version.author || "Unknown", ...others].join(", ");
 	if (version.source && version.source !== actor) return `${actor} via ${version.source}`;
 	return actor;
 }
@@ -132,6 +130,9 @@ export function DocHistorySheet({
 	docTitle,
 	readOnly = false,
 	onRestored,
+	focusRevision = null,
+	compare = null,
+	onCompareChange,
 }: DocHistorySheetProps) {
 	const [history, setHistory] = useState<DocVersionHistory | null>(null);
 	const [selectedRevision, setSelectedRevision] = useState<string | null>(null);
@@ -179,6 +180,27 @@ export function DocHistorySheet({
 		void loadHistory();
 	}, [open, loadHistory]);
 
+	useEffect(() => {
+		if (open && focusRevision) setSelectedRevision(focusRevision);
+	}, [open, focusRevision]);
+
+	const toggleCompare = () => {
+		if (compare) {
+			onCompareChange?.(null);
+			return;
+		}
+		const from = selectedRevision ?? versions[0]?.id;
+		if (from) onCompareChange?.({ from, to: CURRENT_DOC_REVISION });
+	};
+
+	const selectTimelineRevision = (revisionId: string) => {
+		if (compare) onCompareChange?.({ ...compare, from: revisionId });
+		else setSelectedRevision(revisionId);
+	};
+
+	const timelineActive = (revisionId: string) =>
+		compare ? compare.from === revisionId || compare.to === revisionId : selectedRevision === revisionId;
+
 	useEffect(() => {
 		if (!open || !docPath || !selectedRevision) {
 			setDiff(null);
@@ -252,16 +274,31 @@ export function DocHistorySheet({
 								@doc/{toDisplayPath(docPath).replace(/\.md$/, "")}
 							</SheetDescription>
 						</div>
-						<Button
-							variant="ghost"
-							size="sm"
-							onClick={() => void loadHistory()}
-							disabled={loadingHistory}
-							className="h-8 px-2"
-							title="Refresh history"
-						>
-							<RefreshCw className={cn("h-3.5 w-3.5", loadingHistory && "animate-spin")} />
-						</Button>
+						<div className="flex items-center gap-1">
+							{onCompareChange && (
+								<Button
+									variant={compare ? "secondary" : "ghost"}
+									size="sm"
+									onClick={toggleCompare}
+									disabled={versions.length === 0}
+									className="h-8 px-2.5"
+									aria-pressed={!!compare}
+								>
+									<GitCompare className="mr-1 h-3.5 w-3.5" />
+									Compare
+								</Button>
+							)}
+							<Button
+								variant="ghost"
+								size="sm"
+								onClick={() => void loadHistory()}
+								disabled={loadingHistory}
+								className="h-8 px-2"
+								title="Refresh history"
+							>
+								<RefreshCw className={cn("h-3.5 w-3.5", loadingHistory && "animate-spin")} />
+							</Button>
+						</div>
 					</div>
 				</div>
 
@@ -271,7 +308,9 @@ export function DocHistorySheet({
 							<div className="flex items-center justify-between px-4 py-3">
 								<div>
 									<div className="text-sm font-medium">Timeline</div>
-									<div className="text-xs text-muted-foreground">{versions.length} revisions</div>
+									<div className="text-xs text-muted-foreground">
+										{compare ? "Pick the revision to compare from" : `${versions.length} revisions`}
+									</div>
 								</div>
 								<FileClock className="h-4 w-4 text-muted-foreground" />
 							</div>
@@ -290,11 +329,11 @@ export function DocHistorySheet({
 											<button
 												key={version.id}
 												type="button"
-												onClick={() => setSelectedRevision(version.id)}
-												aria-pressed={selectedRevision === version.id}
+												onClick={() => selectTimelineRevision(version.id)}
+												aria-pressed={timelineActive(version.id)}
 												className={cn(
 													"w-full rounded-lg border p-3 text-left transition-colors",
-													selectedRevision === version.id
+													timelineActive(version.id)
 														? "border-primary bg-background shadow-sm"
 														: "border-border bg-background/70 hover:bg-background",
 												)}
@@ -346,7 +385,14 @@ export function DocHistorySheet({
 										</div>
 									) : null}
 
-									{selectedVersion ? (
+									{compare ? (
+										<DocRevisionCompare
+											docPath={docPath}
+											versions={versions}
+											target={compare}
+											onTargetChange={(target) => onCompareChange?.(target)}
+										/>
+									) : selectedVersion ? (
 										<>
 											<div className="rounded-lg border border-border bg-card">
 												<div className="border-b border-border px-4 py-3">
@@ -0,0 +1,216 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { CheckCircle2, Link2Off, RefreshCw, Wrench } from "lucide-react";
+import {
+	getLinkHealth,
+	repairLinks,
+	type BrokenReference,
+	type LinkFix,
+	type LinkHealthReport,
+	type ReferenceLocation,
+} from "../../api/client";
+import { Button } from "../../components/ui/button";
+import { Input } from "../../components/ui/input";
+import { ScrollArea } from "../../components/ui/ScrollArea";
+import { Sheet, SheetContent, SheetDescription, SheetTitle } from "../../components/ui/sheet";
+import { toast } from "../../components/ui/sonner";
+import { navigateTo } from "../../lib/navigation";
+import { cn } from "../../lib/utils";
+
+interface DocLinkHealthSheetProps {
+	open: boolean;
+	onOpenChange: (open: boolean) => void;
+	/** Called after a repair so the page can reload the docs it shows. */
+	onRepaired: () => void;
+}
+
+const REASON_LABELS: Record<string, string> = {
+	renamed: "renamed",
+	moved: "same name",
+	case: "case",
+	similar: "similar",
+};
+
+function brokenKey(entry: BrokenReference): string {
+	return `${entry.type}:${entry.target}`;
+}
+
+function locationHref(loc: ReferenceLocation): string {
+	switch (loc.kind) {
+		case "task":
+			return `/tasks/${loc.id}`;
+		case "doc":
+			return `/docs/${loc.id}${loc.line ? `?L=${loc.line}` : ""}`;
+		case "decision":
+			return `/decisions/${loc.id}`;
+		default:
+			return "/memory";
+	}
+}
+
+function locationLabel(loc: ReferenceLocation): string {
+	const where = loc.line ? `${loc.field}:${loc.line}:${loc.column ?? 1}` : loc.field;
+	return `${loc.kind} ${loc.id} · ${where}`;
+}
+
+/** Project-wide report of unresolved references with bulk repair. */
+export function DocLinkHealthSheet({ open, onOpenChange, onRepaired }: DocLinkHealthSheetProps) {
+	const [report, setReport] = useState<LinkHealthReport | null>(null);
+	const [loading, setLoading] = useState(false);
+	const [repairing, setRepairing] = useState(false);
+	const [targets, setTargets] = useState<Record<string, string>>({});
+
+	const load = useCallback(async () => {
+		setLoading(true);
+		try {
+			const next = await getLinkHealth();
+			setReport(next);
+			setTargets(Object.fromEntries(next.broken.map((entry) => [brokenKey(entry), entry.suggestions?.[0]?.target ?? ""])));
+		} catch (err) {
+			toast.error(err instanceof Error ? err.message : "Failed to check links");
+		} finally {
+			setLoading(false);
+		}
+	}, []);
+
+	useEffect(() => {
+		if (open) void load();
+	}, [open, load]);
+
+	const fixes = useMemo<LinkFix[]>(() => {
+		if (!report) return [];
+		return report.broken.flatMap((entry) => {
+			const to = targets[brokenKey(entry)]?.trim();
+			return to ? [{ type: entry.type, from: entry.target, to }] : [];
+		});
+	}, [report, targets]);
+
+	const applyFixes = async (toApply: LinkFix[]) => {
+		if (toApply.length === 0) return;
+		setRepairing(true);
+		try {
+			const result = await repairLinks(toApply);
+			toast.success(`Rewrote ${result.rewritten} reference${result.rewritten === 1 ? "" : "s"}`);
+			onRepaired();
+			await load();
+		} catch (err) {
+			toast.error(err instanceof Error ? err.message : "Failed to repair links");
+		} finally {
+			setRepairing(false);
+		}
+	};
+
+	const broken = report?.broken ?? [];
+
+	return (
+		<Sheet open={open} onOpenChange={onOpenChange}>
+			<SheetContent side="right" className="flex w-[96vw] max-w-none flex-col gap-0 p-0 sm:max-w-3xl">
+				<div className="border-b border-border/60 px-5 py-4">
+					<div className="flex items-start justify-between gap-4 pr-8">
+						<div className="min-w-0">
+							<SheetTitle className="flex items-center gap-2 text-base">
+								<Link2Off className="h-4 w-4" />
+								Link health
+							</SheetTitle>
+							<SheetDescription className="mt-1 text-xs">
+								{report
+									? `${report.checked} references in ${report.sources} tasks, docs, memories and decisions`
+									: "Checking references..."}
+							</SheetDescription>
+						</div>
+						<div className="flex items-center gap-1">
+							<Button variant="ghost" size="sm" onClick={() => void load()} disabled={loading} className="h-8 px-2.5">
+								<RefreshCw className={cn("h-3.5 w-3.5 sm:mr-1", loading && "animate-spin")} />
+								<span className="hidden sm:inline text-xs">Recheck</span>
+							</Button>
+							<Button size="sm" onClick={() => void applyFixes(fixes)} disabled={repairing || fixes.length === 0} className="h-8 px-2.5">
+								<Wrench className="h-3.5 w-3.5 sm:mr-1" />
+								<span className="hidden sm:inline text-xs">Fix all ({fixes.length})</span>
+							</Button>
+						</div>
+					</div>
+				</div>
+
+				<ScrollArea className="min-h-0 flex-1">
+					<div className="space-y-3 px-5 py-4">
+						{report && broken.length === 0 && (
+							<div className="flex flex-col items-center gap-2 py-16 text-sm text-muted-foreground">
+								<CheckCircle2 className="h-6 w-6 text-green-600" />
+								Every reference resolves.
+							</div>
+						)}
+						{broken.map((entry) => {
+							const key = brokenKey(entry);
+							const target = targets[key] ?? "";
+							return (
+								<div key={key} className="rounded-lg border border-border/60 p-3" data-testid="broken-reference">
+									<div className="flex items-center justify-between gap-3">
+										<span className="truncate font-mono text-sm text-destructive">{entry.canonical}</span>
+										<span className="shrink-0 text-xs text-muted-foreground">
+											{entry.locations.length} location{entry.locations.length === 1 ? "" : "s"}
+										</span>
+									</div>
+									<ul className="mt-2 space-y-0.5">
+										{entry.locations.map((loc, index) => (
+											<li key={`${loc.kind}:${loc.id}:${loc.field}:${index}`}>
+												<button
+													type="button"
+													onClick={() => {
+														onOpenChange(false);
+														navigateTo(locationHref(loc));
+													}}
+													className="max-w-full truncate text-left text-xs text-muted-foreground hover:text-foreground hover:underline"
+													title={loc.title}
+												>
+													{locationLabel(loc)}
+												</button>
+											</li>
+										))}
+									</ul>
+									{(entry.suggestions?.length ?? 0) > 0 && (
+										<div className="mt-2 flex flex-wrap gap-1.5">
+											{entry.suggestions?.map((suggestion) => (
+												<button
+													key={suggestion.target}
+													type="button"
+													onClick={() => setTargets((prev) => ({ ...prev, [key]: suggestion.target }))}
+													className={cn(
+														"rounded-full border px-2 py-0.5 font-mono text-[11px] transition-colors",
+														target === suggestion.target
+															? "border-primary bg-primary/10 text-foreground"
+															: "border-border/60 text-muted-foreground hover:text-foreground",
+													)}
+													title={suggestion.title}
+												>
+													{suggestion.ref}
+													<span className="ml-1 font-sans opacity-70">{REASON_LABELS[suggestion.reason] ?? suggestion.reason}</span>
+												</button>
+											))}
+										</div>
+									)}
+									<div className="mt-2 flex items-center gap-2">
+										<span className="shrink-0 font-mono text-xs text-muted-foreground">@{entry.type}/</span>
+										<Input
+											value={target}
+											onChange={(e) => setTargets((prev) => ({ ...prev, [key]: e.target.value }))}
+											placeholder="New target"
+											className="h-8 font-mono text-xs"
+										/>
+										<Button
+											size="sm"
+											variant="secondary"
+											onClick={() => void applyFixes([{ type: entry.type, from: entry.target, to: target.trim() }])}
+											disabled={repairing || !target.trim()}
+											className="h-8 shrink-0 px-3 text-xs"
+										>
+											Fix
+										</Button>
+									</div>
+								</div>
+							);
+						})}
+					</div>
+				</ScrollArea>
+			</SheetContent>
+		</Sheet>
+	);
+}
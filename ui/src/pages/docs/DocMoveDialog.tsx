@@ -0,0 +1,132 @@
+import { useEffect, useState } from "react";
+import { FolderInput } from "lucide-react";
+import { moveDoc, type DocMoveResult } from "../../api/client";
+import { Button } from "../../components/ui/button";
+import { Input } from "../../components/ui/input";
+import { Label } from "../../components/ui/label";
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+} from "../../components/ui/dialog";
+import { toast } from "../../components/ui/sonner";
+import { toDisplayPath } from "../../lib/utils";
+
+interface DocMoveDialogProps {
+	open: boolean;
+	onOpenChange: (open: boolean) => void;
+	docPath: string;
+	onMoved: (result: DocMoveResult) => void;
+}
+
+function bareDocPath(path: string): string {
+	return toDisplayPath(path).replace(/\.md$/, "").replace(/^\/+|\/+$/g, "");
+}
+
+/** Moves a doc to a new path, previewing the references the move rewrites. */
+export function DocMoveDialog({ open, onOpenChange, docPath, onMoved }: DocMoveDialogProps) {
+	const currentPath = bareDocPath(docPath);
+	const [target, setTarget] = useState(currentPath);
+	const [preview, setPreview] = useState<DocMoveResult | null>(null);
+	const [error, setError] = useState<string | null>(null);
+	const [moving, setMoving] = useState(false);
+
+	useEffect(() => {
+		if (open) setTarget(currentPath);
+	}, [open, currentPath]);
+
+	const newPath = bareDocPath(target);
+	useEffect(() => {
+		setPreview(null);
+		setError(null);
+		if (!open || !newPath || newPath === currentPath) return;
+		let cancelled = false;
+		const timer = window.setTimeout(() => {
+			moveDoc(currentPath, newPath, true)
+				.then((result) => {
+					if (!cancelled) setPreview(result);
+				})
+				.catch((err) => {
+					if (!cancelled) setError(err instanceof Error ? err.message : "Cannot move doc");
+				});
+		}, 250);
+		return () => {
+			cancelled = true;
+			window.clearTimeout(timer);
+		};
+	}, [open, currentPath, newPath]);
+
+	const handleMove = async () => {
+		setMoving(true);
+		try {
+			const result = await moveDoc(currentPath, newPath);
+			toast.success(
+				result.rewritten > 0
+					? `Moved to ${result.newPath} and rewrote ${result.rewritten} reference${result.rewritten === 1 ? "" : "s"}`
+					: `Moved to ${result.newPath}`,
+			);
+			onOpenChange(false);
+			onMoved(result);
+		} catch (err) {
+			setError(err instanceof Error ? err.message : "Failed to move doc");
+		} finally {
+			setMoving(false);
+		}
+	};
+
+	const inbound = preview?.inbound ?? [];
+	return (
+		<Dialog open={open} onOpenChange={(next) => !moving && onOpenChange(next)}>
+			<DialogContent data-testid="doc-move-dialog">
+				<DialogHeader>
+					<DialogTitle className="flex items-center gap-2">
+						<FolderInput className="h-5 w-5" /> Move document
+					</DialogTitle>
+					<DialogDescription>
+						References to @doc/{currentPath} in tasks, docs, memories and decisions are rewritten to the new path.
+					</DialogDescription>
+				</DialogHeader>
+				<div className="space-y-2">
+					<Label htmlFor="doc-move-path">New path</Label>
+					<Input
+						id="doc-move-path"
+						value={target}
+						onChange={(event) => setTarget(event.target.value)}
+						onKeyDown={(event) => {
+							if (event.key === "Enter" && preview && !moving) void handleMove();
+						}}
+						className="font-mono text-sm"
+						autoComplete="off"
+						disabled={moving}
+					/>
+				</div>
+				{error && <div role="alert" className="rounded-md border border-destructive/30 bg-destructive/5 p-3 text-sm text-destructive">{error}</div>}
+				{preview && (
+					<div className="space-y-1.5">
+						<div className="text-xs text-muted-foreground">
+							{inbound.length === 0 ? "No references point at this doc." : `${inbound.length} reference${inbound.length === 1 ? "" : "s"} will be rewritten:`}
+						</div>
+						{inbound.length > 0 && (
+							<ul className="max-h-48 space-y-0.5 overflow-y-auto rounded-md border border-border/60 p-2">
+								{inbound.map((loc, index) => (
+									<li key={`${loc.kind}:${loc.id}:${loc.field}:${index}`} className="truncate font-mono text-[11px] text-muted-foreground" title={loc.title}>
+										{loc.kind} {loc.id} · {loc.field}{loc.line ? `:${loc.line}` : ""} · {loc.raw}
+									</li>
+								))}
+							</ul>
+						)}
+					</div>
+				)}
+				<DialogFooter>
+					<Button variant="outline" onClick={() => onOpenChange(false)} disabled={moving}>Cancel</Button>
+					<Button disabled={!preview || moving} onClick={() => void handleMove()}>
+						{moving ? "Moving…" : "Move"}
+					</Button>
+				</DialogFooter>
+			</DialogContent>
+		</Dialog>
+	);
+}
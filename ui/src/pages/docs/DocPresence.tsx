@@ -0,0 +1,42 @@
+import { Pencil } from "lucide-react";
+import { peerColor, peerInitials, type CollabPeer } from "../../lib/collab/presence";
+
+interface DocPresenceProps {
+	peers: CollabPeer[];
+	className?: string;
+}
+
+/** Avatars of the other people with this doc open, one per user. */
+export function DocPresence({ peers, className = "" }: DocPresenceProps) {
+	const users = new Map<string, boolean>();
+	for (const peer of peers) users.set(peer.user, (users.get(peer.user) ?? false) || peer.editing);
+	if (users.size === 0) return null;
+
+	const editors = [...users].filter(([, editing]) => editing).map(([user]) => user);
+	const summary = [...users.keys()]
+		.map((user) => (editors.includes(user) ? `${user} (editing)` : user))
+		.join(", ");
+
+	return (
+		<div className={`flex items-center gap-1.5 ${className}`} title={summary} data-testid="doc-presence">
+			<div className="flex -space-x-1.5">
+				{[...users].slice(0, 5).map(([user, editing]) => (
+					<span
+						key={user}
+						className={`flex h-5 w-5 items-center justify-center rounded-full text-[9px] font-semibold text-white ring-2 ${editing ? "ring-primary/60" : "ring-background"}`}
+						style={{ backgroundColor: peerColor(user) }}
+					>
+						{peerInitials(user)}
+					</span>
+				))}
+			</div>
+			{users.size > 5 && <span>+{users.size - 5}</span>}
+			{editors.length > 0 && (
+				<span className="flex items-center gap-1">
+					<Pencil className="w-3 h-3" />
+					{editors.length === 1 ? `${editors[0]} is editing` : `${editors.length} editing`}
+				</span>
+			)}
+		</div>
+	);
+}
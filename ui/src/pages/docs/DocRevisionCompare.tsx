@@ -0,0 +1,310 @@
+import { useEffect, useMemo, useState } from "react";
+import { ArrowLeftRight, CheckCircle2, Columns2, Link2, Rows2 } from "lucide-react";
+import {
+	CURRENT_DOC_REVISION,
+	compareDocRevisions,
+	type DocRevisionComparison,
+	type DocRevisionState,
+	type DocVersion,
+} from "../../api/client";
+import { Button } from "../../components/ui/button";
+import { DiffViewer } from "../../components/ui/DiffViewer";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "../../components/ui/select";
+import { toast } from "../../components/ui/sonner";
+import { cn, toDisplayPath } from "../../lib/utils";
+
+/** Two revisions to compare, as carried by the docs page URL. */
+export interface DocCompareTarget {
+	from: string;
+	to: string;
+	section?: string;
+	view?: "split" | "unified";
+}
+
+const ALL_SECTIONS = "__all__";
+
+export function formatDate(value: string): string {
+	const date = new Date(value);
+	if (Number.isNaN(date.getTime())) return value;
+	return date.toLocaleString(undefined, {
+		month: "short",
+		day: "numeric",
+		hour: "2-digit",
+		minute: "2-digit",
+	});
+}
+
+/**
+ * Reads a comparison permalink from a search string, e.g.
+ * `?compare=v2..current&section=Usage&view=unified`.
+ */
+export function parseCompareParams(search: string): DocCompareTarget | null {
+	const params = new URLSearchParams(search.startsWith("?") ? search : `?${search}`);
+	const [from, to] = (params.get("compare") ?? "").split("..");
+	if (!from || !to) return null;
+	const view = params.get("view");
+	return {
+		from,
+		to,
+		section: params.get("section") || undefined,
+		view: view === "unified" ? "unified" : "split",
+	};
+}
+
+/** The search string with the comparison params replaced, or removed for null. */
+export function withCompareParams(search: string, target: DocCompareTarget | null): string {
+	const params = new URLSearchParams(search.startsWith("?") ? search : `?${search}`);
+	params.delete("compare");
+	params.delete("section");
+	params.delete("view");
+	if (target) {
+		params.set("compare", `${target.from}..${target.to}`);
+		if (target.section) params.set("section", target.section);
+		if (target.view === "unified") params.set("view", "unified");
+	}
+	const next = params.toString();
+	return next ? `?${next}` : "";
+}
+
+function sideLabel(side: DocRevisionState): string {
+	if (side.revisionId === CURRENT_DOC_REVISION) return "Working copy";
+	const parts = [side.revisionId];
+	if (side.timestamp) parts.push(formatDate(side.timestamp));
+	if (side.actor) parts.push(side.actor);
+	return parts.join(" - ");
+}
+
+function RevisionSelect({ value, versions, onChange, label }: {
+	value: string;
+	versions: DocVersion[];
+	onChange: (value: string) => void;
+	label: string;
+}) {
+	return (
+		<Select value={value} onValueChange={onChange}>
+			<SelectTrigger className="h-8 w-[170px] text-xs" aria-label={label}>
+				<SelectValue placeholder={label} />
+			</SelectTrigger>
+			<SelectContent>
+				<SelectItem value={CURRENT_DOC_REVISION}>Working copy</SelectItem>
+				{versions.map((version) => (
+					<SelectItem key={version.id} value={version.id}>
+						{version.id} - {formatDate(version.timestamp)}
+					</SelectItem>
+				))}
+			</SelectContent>
+		</Select>
+	);
+}
+
+interface DocRevisionCompareProps {
+	docPath: string;
+	/** Retained revisions, newest first. */
+	versions: DocVersion[];
+	target: DocCompareTarget;
+	onTargetChange: (target: DocCompareTarget) => void;
+}
+
+/**
+ * Diffs any two retained revisions of a doc, or a revision against the
+ * working copy, with an optional filter to one changed section.
+ */
+export function DocRevisionCompare({ docPath, versions, target, onTargetChange }: DocRevisionCompareProps) {
+	const [comparison, setComparison] = useState<DocRevisionComparison | null>(null);
+	const [loading, setLoading] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+	const [wordDiff, setWordDiff] = useState(true);
+	const [copied, setCopied] = useState(false);
+	const view = target.view ?? "split";
+
+	useEffect(() => {
+		let cancelled = false;
+		setLoading(true);
+		setError(null);
+		compareDocRevisions(toDisplayPath(docPath).replace(/\.md$/, ""), target.from, target.to, target.section)
+			.then((next) => {
+				if (!cancelled) setComparison(next);
+			})
+			.catch((err) => {
+				if (!cancelled) {
+					setComparison(null);
+					setError(err instanceof Error ? err.message : "Failed to compare revisions");
+				}
+			})
+			.finally(() => {
+				if (!cancelled) setLoading(false);
+			});
+		return () => {
+			cancelled = true;
+		};
+	}, [docPath, target.from, target.to, target.section]);
+
+	const sections = useMemo(() => {
+		const names = (comparison?.changedScopes ?? [])
+			.filter((scope) => scope.type === "section" && scope.section)
+			.map((scope) => scope.section!);
+		if (target.section && !names.includes(target.section)) names.unshift(target.section);
+		return names;
+	}, [comparison?.changedScopes, target.section]);
+
+	const fieldDiffs = useMemo(() => {
+		if (!comparison || comparison.section) return [];
+		const { from, to } = comparison;
+		return [
+			{ label: "Title", old: from.title, next: to.title },
+			{ label: "Description", old: from.description ?? "", next: to.description ?? "" },
+			{ label: "Tags", old: from.tags.join(", "), next: to.tags.join(", ") },
+		].filter((field) => field.old !== field.next);
+	}, [comparison]);
+
+	const update = (patch: Partial<DocCompareTarget>) => onTargetChange({ ...target, ...patch });
+
+	const handleCopyLink = async () => {
+		try {
+			await navigator.clipboard.writeText(window.location.href);
+			setCopied(true);
+			window.setTimeout(() => setCopied(false), 1500);
+			toast.success("Copied comparison link");
+		} catch {
+			toast.error("Failed to copy link");
+		}
+	};
+
+	return (
+		<div className="space-y-4" data-testid="doc-revision-compare">
+			<div className="flex flex-wrap items-center gap-2">
+				<RevisionSelect label="From" value={target.from} versions={versions} onChange={(from) => update({ from })} />
+				<Button
+					variant="ghost"
+					size="sm"
+					className="h-8 px-2"
+					title="Swap sides"
+					onClick={() => update({ from: target.to, to: target.from })}
+				>
+					<ArrowLeftRight className="h-3.5 w-3.5" />
+				</Button>
+				<RevisionSelect label="To" value={target.to} versions={versions} onChange={(to) => update({ to })} />
+				<Select
+					value={target.section ?? ALL_SECTIONS}
+					onValueChange={(value) => update({ section: value === ALL_SECTIONS ? undefined : value })}
+				>
+					<SelectTrigger className="h-8 w-[170px] text-xs" aria-label="Section">
+						<SelectValue placeholder="Section" />
+					</SelectTrigger>
+					<SelectContent>
+						<SelectItem value={ALL_SECTIONS}>Whole document</SelectItem>
+						{sections.map((section) => (
+							<SelectItem key={section} value={section}>
+								{section}
+							</SelectItem>
+						))}
+					</SelectContent>
+				</Select>
+				<div className="ml-auto flex items-center gap-1">
+					<Button
+						variant={view === "split" ? "secondary" : "ghost"}
+						size="sm"
+						className="h-8 px-2"
+						title="Side by side"
+						aria-pressed={view === "split"}
+						onClick={() => update({ view: "split" })}
+					>
+						<Columns2 className="h-3.5 w-3.5" />
+					</Button>
+					<Button
+						variant={view === "unified" ? "secondary" : "ghost"}
+						size="sm"
+						className="h-8 px-2"
+						title="Unified"
+						aria-pressed={view === "unified"}
+						onClick={() => update({ view: "unified" })}
+					>
+						<Rows2 className="h-3.5 w-3.5" />
+					</Button>
+					<Button
+						variant={wordDiff ? "secondary" : "ghost"}
+						size="sm"
+						className="h-8 px-2 text-xs"
+						aria-pressed={wordDiff}
+						onClick={() => setWordDiff((value) => !value)}
+					>
+						Words
+					</Button>
+					<Button variant="outline" size="sm" className="h-8 px-2.5" onClick={handleCopyLink}>
+						{copied ? <CheckCircle2 className="mr-1 h-3.5 w-3.5" /> : <Link2 className="mr-1 h-3.5 w-3.5" />}
+						Link
+					</Button>
+				</div>
+			</div>
+
+			{error && (
+				<div className="rounded-lg border border-destructive/30 bg-destructive/5 px-3 py-2 text-sm text-destructive">{error}</div>
+			)}
+
+			{loading && !comparison ? (
+				<div className="rounded-lg border border-dashed border-border px-3 py-8 text-center text-sm text-muted-foreground">
+					Loading comparison...
+				</div>
+			) : comparison ? (
+				<div className={cn("space-y-3", loading && "opacity-60")}>
+					{sections.length > 0 && (
+						<div className="flex flex-wrap items-center gap-1.5 text-xs text-muted-foreground">
+							<span>Changed sections:</span>
+							{sections.map((section) => (
+								<button
+									key={section}
+									type="button"
+									onClick={() => update({ section: target.section === section ? undefined : section })}
+									className={cn(
+										"rounded border px-1.5 py-0.5 transition-colors",
+										target.section === section ? "border-primary bg-primary/10 text-foreground" : "border-border hover:bg-muted",
+									)}
+								>
+									{section}
+								</button>
+							))}
+						</div>
+					)}
+
+					{view === "split" && (
+						<div className="grid grid-cols-2 gap-2 text-xs font-medium text-muted-foreground">
+							<span className="truncate">{sideLabel(comparison.from)}</span>
+							<span className="truncate">{sideLabel(comparison.to)}</span>
+						</div>
+					)}
+					{view === "unified" && (
+						<div className="font-mono text-xs text-muted-foreground">
+							{sideLabel(comparison.from)}{" -> "}{sideLabel(comparison.to)}
+						</div>
+					)}
+
+					{fieldDiffs.map((field) => (
+						<div key={field.label} className="overflow-hidden rounded-lg border border-border bg-card">
+							<div className="border-b border-border bg-muted/40 px-3 py-2 text-sm font-medium">{field.label}</div>
+							<DiffViewer oldValue={field.old} newValue={field.next} view={view} wordDiff={wordDiff} className="rounded-none border-0" />
+						</div>
+					))}
+
+					<div className="overflow-hidden rounded-lg border border-border bg-card">
+						<div className="border-b border-border bg-muted/40 px-3 py-2 text-sm font-medium">
+							{comparison.section ? `Section: ${comparison.section}` : "Content"}
+						</div>
+						<DiffViewer
+							oldValue={comparison.from.content}
+							newValue={comparison.to.content}
+							view={view}
+							wordDiff={wordDiff}
+							className="rounded-none border-0"
+						/>
+					</div>
+				</div>
+			) : null}
+		</div>
+	);
+}
@@ -0,0 +1,109 @@
+import { useEffect, useState } from "react";
+import { Globe } from "lucide-react";
+import { Button } from "../../components/ui/button";
+import { Input } from "../../components/ui/input";
+import { Label } from "../../components/ui/label";
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+} from "../../components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../../components/ui/select";
+import { toast } from "../../components/ui/sonner";
+import { buildDocSite } from "../../lib/docSite";
+import { downloadBlob, toDisplayPath, type Doc } from "../../lib/utils";
+import { createZip } from "../../lib/zip";
+
+interface DocSiteExportDialogProps {
+	open: boolean;
+	onOpenChange: (open: boolean) => void;
+	docs: Doc[];
+	currentFolder: string | null;
+}
+
+function inFolder(doc: Doc, folder: string): boolean {
+	return toDisplayPath(doc.path).startsWith(`${folder}/`);
+}
+
+/** Exports the docs tree, or one folder, as a static HTML site in a zip. */
+export function DocSiteExportDialog({ open, onOpenChange, docs, currentFolder }: DocSiteExportDialogProps) {
+	const [scope, setScope] = useState<"all" | "folder">("all");
+	const [title, setTitle] = useState("Documentation");
+	const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+
+	useEffect(() => {
+		if (!open) return;
+		setScope(currentFolder ? "folder" : "all");
+		setProgress(null);
+	}, [open, currentFolder]);
+
+	const folder = scope === "folder" ? currentFolder : null;
+	const count = folder ? docs.filter((doc) => inFolder(doc, folder)).length : docs.length;
+	const exporting = progress !== null;
+
+	const handleExport = async () => {
+		setProgress({ done: 0, total: count });
+		try {
+			const files = await buildDocSite(docs, {
+				title: title.trim() || "Documentation",
+				folder,
+				onProgress: (done, total) => setProgress({ done, total }),
+			});
+			const name = (folder ?? "docs").replace(/[^a-zA-Z0-9_-]+/g, "-");
+			downloadBlob(createZip(files), `${name}-site.zip`);
+			toast.success(`Exported ${count} doc${count === 1 ? "" : "s"}`);
+			onOpenChange(false);
+		} catch (err) {
+			toast.error(err instanceof Error ? err.message : "Failed to export docs");
+		} finally {
+			setProgress(null);
+		}
+	};
+
+	return (
+		<Dialog open={open} onOpenChange={(next) => !exporting && onOpenChange(next)}>
+			<DialogContent data-testid="doc-site-export-dialog">
+				<DialogHeader>
+					<DialogTitle className="flex items-center gap-2">
+						<Globe className="h-5 w-5" /> Export static site
+					</DialogTitle>
+					<DialogDescription>
+						Renders the docs to HTML pages with a sidebar, table of contents, diagrams and search. Open index.html from the unzipped folder or publish it to any static host.
+					</DialogDescription>
+				</DialogHeader>
+				<div className="space-y-4">
+					<div className="space-y-2">
+						<Label htmlFor="doc-site-title">Site title</Label>
+						<Input id="doc-site-title" value={title} onChange={(e) => setTitle(e.target.value)} disabled={exporting} />
+					</div>
+					<div className="space-y-2">
+						<Label htmlFor="doc-site-scope">Docs</Label>
+						<Select value={scope} onValueChange={(value) => setScope(value as "all" | "folder")} disabled={exporting}>
+							<SelectTrigger id="doc-site-scope">
+								<SelectValue />
+							</SelectTrigger>
+							<SelectContent>
+								<SelectItem value="all">All docs</SelectItem>
+								{currentFolder && <SelectItem value="folder">Folder {currentFolder}</SelectItem>}
+							</SelectContent>
+						</Select>
+					</div>
+					<div className="text-xs text-muted-foreground">
+						{progress
+							? `Rendering ${Math.min(progress.done + 1, progress.total)} of ${progress.total}...`
+							: `${count} doc${count === 1 ? "" : "s"} will be exported. References to docs outside the export are shown as plain text.`}
+					</div>
+				</div>
+				<DialogFooter>
+					<Button variant="outline" onClick={() => onOpenChange(false)} disabled={exporting}>Cancel</Button>
+					<Button disabled={exporting || count === 0} onClick={() => void handleExport()}>
+						{exporting ? "Exporting…" : "Export"}
+					</Button>
+				</DialogFooter>
+			</DialogContent>
+		</Dialog>
+	);
+}
@@ -0,0 +1,204 @@
+import { AlertCircle, ListTodo } from "lucide-react";
+import type { TemplateDetail, TemplateDocPreview, TemplatePrompt } from "../../api/client";
+import { MDRender } from "../../components/editor";
+import { Checkbox } from "../../components/ui/checkbox";
+import { Input } from "../../components/ui/input";
+import { Label } from "../../components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../../components/ui/select";
+
+interface DocTemplateFormProps {
+	template: TemplateDetail;
+	values: Record<string, string>;
+	onChange: (name: string, value: string) => void;
+	preview: TemplateDocPreview | null;
+	previewError: string | null;
+	createTasks: boolean;
+	onCreateTasksChange: (createTasks: boolean) => void;
+	disabled?: boolean;
+}
+
+/** Initial form values for a template's prompts. */
+export function templateDefaults(template: TemplateDetail): Record<string, string> {
+	return Object.fromEntries(
+		template.prompts.map((prompt) => [prompt.name, prompt.default ?? (prompt.type === "confirm" ? "false" : "")]),
+	);
+}
+
+/** Names of required prompts that still have no value. */
+export function missingTemplateValues(template: TemplateDetail, values: Record<string, string>): string[] {
+	return template.prompts.filter((prompt) => prompt.required && !values[prompt.name]?.trim()).map((prompt) => prompt.name);
+}
+
+function splitMulti(value: string): string[] {
+	return value.split(",").map((v) => v.trim()).filter(Boolean);
+}
+
+function PromptField({ prompt, value, onChange, disabled }: {
+	prompt: TemplatePrompt;
+	value: string;
+	onChange: (value: string) => void;
+	disabled?: boolean;
+}) {
+	const id = `template-prompt-${prompt.name}`;
+	const label = (
+		<Label htmlFor={id} className="text-xs">
+			{prompt.message || prompt.name}
+			{prompt.required && <span className="ml-0.5 text-destructive">*</span>}
+		</Label>
+	);
+
+	switch (prompt.type) {
+		case "confirm":
+			return (
+				<div className="flex items-center gap-2">
+					<Checkbox
+						id={id}
+						checked={value === "true"}
+						onCheckedChange={(checked) => onChange(checked === true ? "true" : "false")}
+						disabled={disabled}
+					/>
+					{label}
+				</div>
+			);
+		case "select":
+			return (
+				<div className="space-y-1.5">
+					{label}
+					<Select value={value} onValueChange={onChange} disabled={disabled}>
+						<SelectTrigger id={id} className="h-8 text-sm">
+							<SelectValue placeholder="Choose..." />
+						</SelectTrigger>
+						<SelectContent>
+							{prompt.choices?.map((choice) => (
+								<SelectItem key={choice.value} value={choice.value}>{choice.label || choice.value}</SelectItem>
+							))}
+						</SelectContent>
+					</Select>
+				</div>
+			);
+		case "multiselect": {
+			const selected = splitMulti(value);
+			const toggle = (choice: string, checked: boolean) => {
+				const next = checked ? [...selected, choice] : selected.filter((v) => v !== choice);
+				onChange(next.join(","));
+			};
+			return (
+				<div className="space-y-1.5">
+					{label}
+					<div className="flex flex-wrap gap-x-4 gap-y-1.5">
+						{prompt.choices?.map((choice) => (
+							<label key={choice.value} className="flex items-center gap-1.5 text-sm">
+								<Checkbox
+									checked={selected.includes(choice.value)}
+									onCheckedChange={(checked) => toggle(choice.value, checked === true)}
+									disabled={disabled}
+								/>
+								{choice.label || choice.value}
+							</label>
+						))}
+					</div>
+				</div>
+			);
+		}
+		default:
+			return (
+				<div className="space-y-1.5">
+					{label}
+					<Input
+						id={id}
+						type={prompt.type === "number" ? "number" : "text"}
+						value={value}
+						onChange={(e) => onChange(e.target.value)}
+						className="h-8 text-sm"
+						disabled={disabled}
+					/>
+				</div>
+			);
+	}
+}
+
+/** Form generated from a doc template's prompts, beside a preview of the doc it renders. */
+export function DocTemplateForm({
+	template,
+	values,
+	onChange,
+	preview,
+	previewError,
+	createTasks,
+	onCreateTasksChange,
+	disabled,
+}: DocTemplateFormProps) {
+	const missing = missingTemplateValues(template, values);
+	const doc = preview?.document;
+	const tasks = doc?.tasks ?? [];
+
+	return (
+		<div className="grid gap-6 lg:grid-cols-[280px_minmax(0,1fr)]">
+			<div className="space-y-4" data-testid="doc-template-form">
+				{template.description && <p className="text-sm text-muted-foreground">{template.description}</p>}
+				{template.prompts.map((prompt) => (
+					<PromptField
+						key={prompt.name}
+						prompt={prompt}
+						value={values[prompt.name] ?? ""}
+						onChange={(value) => onChange(prompt.name, value)}
+						disabled={disabled}
+					/>
+				))}
+				{tasks.length > 0 && (
+					<div className="space-y-2 rounded-md border border-border/60 p-3">
+						<label className="flex items-center gap-2 text-sm font-medium">
+							<Checkbox
+								checked={createTasks}
+								onCheckedChange={(checked) => onCreateTasksChange(checked === true)}
+								disabled={disabled}
+							/>
+							<ListTodo className="h-3.5 w-3.5" />
+							Also create {tasks.length} task{tasks.length === 1 ? "" : "s"}
+						</label>
+						<ul className="space-y-0.5 pl-6">
+							{tasks.map((task, index) => (
+								<li key={`${task.title}:${index}`} className="truncate text-xs text-muted-foreground" title={task.title}>
+									{task.title}
+									{task.spec && <span className="ml-1 opacity-70">· spec</span>}
+								</li>
+							))}
+						</ul>
+					</div>
+				)}
+			</div>
+
+			<div className="min-w-0 rounded-lg border border-border/60" data-testid="doc-template-preview">
+				{missing.length > 0 ? (
+					<div className="p-6 text-sm text-muted-foreground">Fill in {missing.join(", ")} to preview the doc.</div>
+				) : previewError ? (
+					<div role="alert" className="flex items-start gap-2 p-6 text-sm text-destructive">
+						<AlertCircle className="mt-0.5 h-4 w-4 shrink-0" />
+						{previewError}
+					</div>
+				) : doc ? (
+					<>
+						<div className="border-b border-border/60 px-5 py-3">
+							<div className="font-mono text-xs text-muted-foreground">{doc.path}.md</div>
+							<div className="mt-1 text-xl font-semibold tracking-tight">{doc.title}</div>
+							{doc.description && <div className="text-sm text-muted-foreground">{doc.description}</div>}
+							{doc.tags.length > 0 && (
+								<div className="mt-1.5 flex flex-wrap gap-1">
+									{doc.tags.map((tag) => (
+										<span key={tag} className="rounded-full border border-border/60 px-2 py-0.5 text-[11px] text-muted-foreground">{tag}</span>
+									))}
+								</div>
+							)}
+							{preview?.pathError && <div role="alert" className="mt-2 text-xs text-destructive">{preview.pathError}</div>}
+						</div>
+						<div className="px-5 py-4">
+							<MDRender markdown={doc.content} className="prose prose-sm max-w-none dark:prose-invert" />
+						</div>
+					</>
+				) : (
+					<div className="p-6 text-sm text-muted-foreground">Rendering preview...</div>
+				)}
+			</div>
+		</div>
+	);
+}
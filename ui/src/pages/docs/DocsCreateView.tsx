@@ -1,13 +1,23 @@
-import { useState } from "react";
-import { Check, ArrowLeft, Menu } from "lucide-react";
+import { useEffect, useState } from "react";
+import { Check, ArrowLeft, Menu, FileText, LayoutTemplate } from "lucide-react";
 import { MDEditor } from "../../components/editor";
 import { Button } from "../../components/ui/button";
-import { createDoc } from "../../api/client";
+import { toast } from "../../components/ui/sonner";
+import { cn } from "../../lib/utils";
+import {
+  createDoc,
+  templateApi,
+  type TemplateDetail,
+  type TemplateDocPreview,
+  type TemplateSummary,
+} from "../../api/client";
+import { DocTemplateForm, missingTemplateValues, templateDefaults } from "./DocTemplateForm";
 
 interface DocsCreateViewProps {
   currentFolder: string | null;
   onClose: () => void;
-  onCreated: () => void;
+  /** Called with the new doc's path when the doc was created from a template. */
+  onCreated: (path?: string) => void;
   onOpenMobileSidebar: () => void;
 }
 
@@ -19,6 +29,84 @@ export function DocsCreateView({ currentFolder, onClose, onCreated, onOpenMobile
   const [newDocContent, setNewDocContent] = useState("");
   const [creating, setCreating] = useState(false);
 
+  // Doc templates: the gallery, the selected template and its form state.
+  const [docTemplates, setDocTemplates] = useState<TemplateSummary[]>([]);
+  const [template, setTemplate] = useState<TemplateDetail | null>(null);
+  const [templateValues, setTemplateValues] = useState<Record<string, string>>({});
+  const [preview, setPreview] = useState<TemplateDocPreview | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const [createTasks, setCreateTasks] = useState(true);
+
+  useEffect(() => {
+    templateApi
+      .list()
+      .then((templates) => setDocTemplates(templates.filter((t) => t.kind === "doc")))
+      .catch((err) => console.error("Failed to load templates:", err));
+  }, []);
+
+  const selectTemplate = async (name: string | null) => {
+    setPreview(null);
+    setPreviewError(null);
+    if (!name) {
+      setTemplate(null);
+      return;
+    }
+    try {
+      const detail = await templateApi.get(name);
+      setTemplate(detail);
+      setTemplateValues(templateDefaults(detail));
+      setCreateTasks(true);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to load template");
+    }
+  };
+
+  const missingValues = template ? missingTemplateValues(template, templateValues) : [];
+  useEffect(() => {
+    setPreviewError(null);
+    if (!template || missingValues.length > 0) {
+      setPreview(null);
+      return;
+    }
+    let cancelled = false;
+    const timer = window.setTimeout(() => {
+      templateApi
+        .previewDoc(template.name, templateValues)
+        .then((next) => {
+          if (!cancelled) setPreview(next);
+        })
+        .catch((err) => {
+          if (!cancelled) setPreviewError(err instanceof Error ? err.message : "Failed to render template");
+        });
+    }, 300);
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+    };
+    // missingValues is derived from template and templateValues.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [template, templateValues]);
+
+  const handleCreateFromTemplate = async () => {
+    if (!template) return;
+    setCreating(true);
+    try {
+      const result = await templateApi.createDoc(template.name, templateValues, createTasks);
+      toast.success(
+        result.tasks.length > 0
+          ? `Created ${result.doc.path} with ${result.tasks.length} task${result.tasks.length === 1 ? "" : "s"}`
+          : `Created ${result.doc.path}`,
+      );
+      onCreated(result.doc.path);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to create doc");
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const canCreateFromTemplate = !!preview && !preview.pathError && missingValues.length === 0;
+
   const handleCreateDoc = async () => {
     if (!newDocTitle.trim()) return;
     setCreating(true);
@@ -61,64 +149,117 @@ export function DocsCreateView({ currentFolder, onClose, onCreated, onOpenMobile
           <span className="hidden sm:inline text-xs">Back</span>
         </Button>
         <div className="flex-1" />
-        <Button size="sm" onClick={handleCreateDoc} disabled={creating || !newDocTitle.trim()} className="h-7 px-3">
+        <Button
+          size="sm"
+          onClick={template ? handleCreateFromTemplate : handleCreateDoc}
+          disabled={creating || (template ? !canCreateFromTemplate : !newDocTitle.trim())}
+          className="h-7 px-3"
+        >
           <Check className="w-3.5 h-3.5 sm:mr-1" />
           <span className="text-xs">{creating ? "Creating..." : "Create"}</span>
         </Button>
       </div>
 
       <div className="flex-1 flex flex-col min-h-0 overflow-y-auto">
-        <div className="px-6 pt-6 pb-4 shrink-0 flex justify-center">
-          <div className="w-full max-w-[720px]">
-            <input
-              type="text"
-              value={newDocTitle}
-              onChange={(e) => setNewDocTitle(e.target.value)}
-              className="text-3xl font-semibold tracking-tight bg-transparent w-full outline-none border-none p-0 mb-1 placeholder:text-muted-foreground/40"
-              placeholder="Untitled"
-              autoFocus
-            />
-            <input
-              type="text"
-              value={newDocDescription}
-              onChange={(e) => setNewDocDescription(e.target.value)}
-              className="text-base text-muted-foreground bg-transparent w-full outline-none border-none p-0 mb-4 placeholder:text-muted-foreground/40"
-              placeholder="Add a description..."
-            />
-            <div className="flex items-center gap-3 text-xs text-muted-foreground">
-              <div className="flex items-center gap-1.5">
-                <span className="text-muted-foreground/60">Folder</span>
+        {docTemplates.length > 0 && (
+          <div className="px-6 pt-5 shrink-0 flex justify-center">
+            <div className="w-full max-w-[720px] flex gap-2 overflow-x-auto pb-1" data-testid="doc-template-gallery">
+              {[null, ...docTemplates].map((item) => {
+                const selected = item ? template?.name === item.name : !template;
+                return (
+                  <button
+                    key={item?.name ?? ""}
+                    type="button"
+                    onClick={() => void selectTemplate(item?.name ?? null)}
+                    disabled={creating}
+                    className={cn(
+                      "shrink-0 w-[160px] rounded-lg border px-3 py-2 text-left transition-colors",
+                      selected ? "border-primary bg-primary/5" : "border-border/60 hover:bg-accent/50",
+                    )}
+                  >
+                    <div className="flex items-center gap-1.5 text-sm font-medium">
+                      {item ? <LayoutTemplate className="w-3.5 h-3.5" /> : <FileText className="w-3.5 h-3.5" />}
+                      <span className="truncate">{item?.name ?? "Blank"}</span>
+                    </div>
+                    <div className="mt-0.5 line-clamp-2 text-xs text-muted-foreground">
+                      {item ? item.description || `${item.promptCount} field${item.promptCount === 1 ? "" : "s"}` : "Start from an empty page"}
+                    </div>
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        )}
+        {template ? (
+          <div className="px-6 py-6 flex justify-center">
+            <div className="w-full max-w-[1100px]">
+              <DocTemplateForm
+                template={template}
+                values={templateValues}
+                onChange={(name, value) => setTemplateValues((prev) => ({ ...prev, [name]: value }))}
+                preview={preview}
+                previewError={previewError}
+                createTasks={createTasks}
+                onCreateTasksChange={setCreateTasks}
+                disabled={creating}
+              />
+            </div>
+          </div>
+        ) : (
+          <>
+            <div className="px-6 pt-6 pb-4 shrink-0 flex justify-center">
+              <div className="w-full max-w-[720px]">
                 <input
                   type="text"
-                  value={newDocFolder}
-                  onChange={(e) => setNewDocFolder(e.target.value)}
-                  className="bg-transparent outline-none border-none p-0 text-xs text-foreground placeholder:text-muted-foreground/40 w-[120px]"
-                  placeholder="root"
+                  value={newDocTitle}
+                  onChange={(e) => setNewDocTitle(e.target.value)}
+                  className="text-3xl font-semibold tracking-tight bg-transparent w-full outline-none border-none p-0 mb-1 placeholder:text-muted-foreground/40"
+                  placeholder="Untitled"
+                  autoFocus
                 />
-              </div>
-              <span className="text-border">|</span>
-              <div className="flex items-center gap-1.5 flex-1">
-                <span className="text-muted-foreground/60 shrink-0">Tags</span>
                 <input
                   type="text"
-                  value={newDocTags}
-                  onChange={(e) => setNewDocTags(e.target.value)}
-                  className="bg-transparent outline-none border-none p-0 text-xs text-foreground placeholder:text-muted-foreground/40 flex-1"
-                  placeholder="guide, tutorial, api"
+                  value={newDocDescription}
+                  onChange={(e) => setNewDocDescription(e.target.value)}
+                  className="text-base text-muted-foreground bg-transparent w-full outline-none border-none p-0 mb-4 placeholder:text-muted-foreground/40"
+                  placeholder="Add a description..."
                 />
+                <div className="flex items-center gap-3 text-xs text-muted-foreground">
+                  <div className="flex items-center gap-1.5">
+                    <span className="text-muted-foreground/60">Folder</span>
+                    <input
+                      type="text"
+                      value={newDocFolder}
+                      onChange={(e) => setNewDocFolder(e.target.value)}
+                      className="bg-transparent outline-none border-none p-0 text-xs text-foreground placeholder:text-muted-foreground/40 w-[120px]"
+                      placeholder="root"
+                    />
+                  </div>
+                  <span className="text-border">|</span>
+                  <div className="flex items-center gap-1.5 flex-1">
+                    <span className="text-muted-foreground/60 shrink-0">Tags</span>
+                    <input
+                      type="text"
+                      value={newDocTags}
+                      onChange={(e) => setNewDocTags(e.target.value)}
+                      className="bg-transparent outline-none border-none p-0 text-xs text-foreground placeholder:text-muted-foreground/40 flex-1"
+                      placeholder="guide, tutorial, api"
+                    />
+                  </div>
+                </div>
               </div>
             </div>
-          </div>
-        </div>
-        <div className="flex-1 min-h-0 px-6 pb-6">
-          <MDEditor
-            markdown={newDocContent}
-            onChange={setNewDocContent}
-            placeholder="Write your documentation here..."
-            height="100%"
-            className="h-full"
-          />
-        </div>
+            <div className="flex-1 min-h-0 px-6 pb-6">
+              <MDEditor
+                markdown={newDocContent}
+                onChange={setNewDocContent}
+                placeholder="Write your documentation here..."
+                height="100%"
+                className="h-full"
+              />
+            </div>
+          </>
+        )}
       </div>
     </>
   );
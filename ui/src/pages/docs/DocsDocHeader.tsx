@@ -1,6 +1,9 @@
 import { FileText, ListChecks, ChevronDown, ChevronUp } from "lucide-react";
 import { Progress } from "../../components/ui/progress";
 import { toDisplayPath, isSpec, getSpecStatus, parseACProgress } from "../../lib/utils";
+import type { CollabPeer } from "../../lib/collab/presence";
+import { DocPresence } from "./DocPresence";
+import { DocExportMenu } from "./DocExportMenu";
 
 interface DocData {
   path: string;
@@ -33,6 +36,7 @@ interface DocsDocHeaderProps {
   linkedTasksExpanded: boolean;
   setLinkedTasksExpanded: (v: boolean) => void;
   openTask: (id: string) => void;
+  peers?: CollabPeer[];
 }
 
 export function DocsDocHeader({
@@ -48,6 +52,7 @@ export function DocsDocHeader({
   linkedTasksExpanded,
   setLinkedTasksExpanded,
   openTask,
+  peers = [],
 }: DocsDocHeaderProps) {
   return (
     <header className="mb-10">
@@ -145,6 +150,8 @@ export function DocsDocHeader({
         <span>
           Updated {new Date(selectedDoc.metadata.updatedAt).toLocaleDateString()}
         </span>
+        <DocExportMenu doc={selectedDoc} hasLinkedTasks={linkedTasks.length > 0} />
+        <DocPresence peers={peers} />
       </div>
 
       {/* Spec AC Progress */}
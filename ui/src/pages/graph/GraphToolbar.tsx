@@ -1,4 +1,4 @@
-import { Maximize2, Minimize2, Scan, Search, X } from "lucide-react";
+import { Maximize2, Minimize2, Route, Scan, Search, X } from "lucide-react";
 import { cn } from "@/ui/lib/utils";
 import type { FilterState } from "./constants";
 
@@ -7,12 +7,14 @@ interface GraphToolbarProps {
 	searchQuery: string;
 	searchMatchCount: number;
 	impactNodeId: string | null;
+	criticalPathActive: boolean;
 	isFullscreen: boolean;
 	nodeCount: number;
 	edgeCount: number;
 	onToggleFilter: (key: keyof FilterState) => void;
 	onSearchChange: (query: string) => void;
 	onClearImpact: () => void;
+	onToggleCriticalPath: () => void;
 	onZoomToFit: () => void;
 	onToggleFullscreen: () => void;
 }
@@ -21,11 +23,13 @@ export function GraphToolbar({
 	searchQuery,
 	searchMatchCount,
 	impactNodeId,
+	criticalPathActive,
 	isFullscreen,
 	nodeCount,
 	edgeCount,
 	onSearchChange,
 	onClearImpact,
+	onToggleCriticalPath,
 	onZoomToFit,
 	onToggleFullscreen,
 }: GraphToolbarProps) {
@@ -64,6 +68,22 @@ export function GraphToolbar({
 				</button>
 			)}
 
+			<button
+				type="button"
+				onClick={onToggleCriticalPath}
+				className={cn(
+					"flex items-center gap-1 rounded-full px-2.5 py-1 text-xs font-medium transition-colors border",
+					criticalPathActive
+						? "bg-orange-500/10 text-orange-600 dark:text-orange-400 border-orange-500/30"
+						: "text-muted-foreground hover:text-foreground hover:bg-accent",
+				)}
+				title="Highlight the longest chain of open task dependencies"
+				data-testid="graph-critical-path-toggle"
+			>
+				<Route className="w-3 h-3" />
+				Critical path
+			</button>
+
 			<div className="flex-1" />
 
 			<span className="text-xs text-muted-foreground">
@@ -0,0 +1,333 @@
+import { useEffect, useState } from "react";
+import { Download, Upload } from "lucide-react";
+import {
+	memoryApi,
+	type MemoryBundleDuplicatePolicy,
+	type MemoryBundleFilter,
+	type MemoryBundleFormat,
+	type MemoryBundleImportReport,
+	type PersistentMemoryLayer,
+} from "../../api/client";
+import { Button } from "../../components/ui/button";
+import { Input } from "../../components/ui/input";
+import { Label } from "../../components/ui/label";
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+} from "../../components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../../components/ui/select";
+import { toast } from "../../components/ui/sonner";
+import { cn, downloadBlob } from "../../lib/utils";
+
+type BundleMode = "export" | "import";
+
+interface MemoryBundleDialogProps {
+	open: boolean;
+	onOpenChange: (open: boolean) => void;
+	mode: BundleMode;
+	onImported: (report: MemoryBundleImportReport) => Promise<void>;
+}
+
+interface FilterDraft {
+	kind: string;
+	layer: string;
+	tags: string;
+	category: string;
+	status: string;
+}
+
+const ANY = "any";
+const emptyFilter: FilterDraft = { kind: ANY, layer: ANY, tags: "", category: "", status: ANY };
+const statuses = ["proposed", "active", "stale", "deprecated", "archived", "accepted", "draft", "superseded"];
+
+function toFilter(draft: FilterDraft): MemoryBundleFilter {
+	const tags = draft.tags
+		.split(",")
+		.map((tag) => tag.trim())
+		.filter(Boolean);
+	return {
+		kind: draft.kind === ANY ? undefined : (draft.kind as MemoryBundleFilter["kind"]),
+		layer: draft.layer === ANY ? undefined : (draft.layer as PersistentMemoryLayer),
+		tags: tags.length > 0 ? tags : undefined,
+		category: draft.category.trim() || undefined,
+		status: draft.status === ANY ? undefined : draft.status,
+	};
+}
+
+function formatForFile(name: string): MemoryBundleFormat {
+	return /\.(md|markdown)$/i.test(name) ? "markdown" : "jsonl";
+}
+
+/** Exports memories and decisions to a bundle file, or imports one through duplicate review. */
+export function MemoryBundleDialog({ open, onOpenChange, mode, onImported }: MemoryBundleDialogProps) {
+	const [filter, setFilter] = useState<FilterDraft>(emptyFilter);
+	const [format, setFormat] = useState<MemoryBundleFormat>("jsonl");
+	const [file, setFile] = useState<File | null>(null);
+	const [into, setInto] = useState<string>("keep");
+	const [onDuplicate, setOnDuplicate] = useState<MemoryBundleDuplicatePolicy>("merge");
+	const [report, setReport] = useState<MemoryBundleImportReport | null>(null);
+	const [busy, setBusy] = useState(false);
+
+	useEffect(() => {
+		if (!open) return;
+		setFilter(emptyFilter);
+		setFile(null);
+		setReport(null);
+	}, [open, mode]);
+
+	const updateFilter = (patch: Partial<FilterDraft>) => setFilter((current) => ({ ...current, ...patch }));
+
+	const handleExport = async () => {
+		setBusy(true);
+		try {
+			const { blob, filename, count } = await memoryApi.exportBundle(format, toFilter(filter));
+			downloadBlob(blob, filename);
+			toast.success(`Exported ${count} ${count === 1 ? "entry" : "entries"}`);
+			onOpenChange(false);
+		} catch (err) {
+			toast.error(err instanceof Error ? err.message : "Failed to export memories");
+		} finally {
+			setBusy(false);
+		}
+	};
+
+	const handleImport = async () => {
+		if (!file) return;
+		setBusy(true);
+		try {
+			const result = await memoryApi.importBundle({
+				format: formatForFile(file.name),
+				content: await file.text(),
+				into: into === "keep" ? undefined : (into as PersistentMemoryLayer),
+				onDuplicate,
+				...toFilter(filter),
+			});
+			setReport(result);
+			await onImported(result);
+		} catch (err) {
+			toast.error(err instanceof Error ? err.message : "Failed to import memories");
+		} finally {
+			setBusy(false);
+		}
+	};
+
+	const isExport = mode === "export";
+
+	return (
+		<Dialog open={open} onOpenChange={(next) => !busy && onOpenChange(next)}>
+			<DialogContent data-testid="memory-bundle-dialog" className="sm:max-w-lg">
+				<DialogHeader>
+					<DialogTitle className="flex items-center gap-2">
+						{isExport ? <Download className="h-5 w-5" /> : <Upload className="h-5 w-5" />}
+						{isExport ? "Export memories" : "Import memories"}
+					</DialogTitle>
+					<DialogDescription>
+						{isExport
+							? "Writes project and global memories and project decisions to a JSONL or markdown bundle."
+							: "Each entry goes through the same duplicate review as a new memory or decision."}
+					</DialogDescription>
+				</DialogHeader>
+
+				{report ? (
+					<ImportReportView report={report} />
+				) : (
+					<div className="space-y-4">
+						{isExport ? (
+							<div className="space-y-2">
+								<Label htmlFor="memory-bundle-format">Format</Label>
+								<Select value={format} onValueChange={(value) => setFormat(value as MemoryBundleFormat)} disabled={busy}>
+									<SelectTrigger id="memory-bundle-format">
+										<SelectValue />
+									</SelectTrigger>
+									<SelectContent>
+										<SelectItem value="jsonl">JSONL</SelectItem>
+										<SelectItem value="markdown">Markdown</SelectItem>
+									</SelectContent>
+								</Select>
+							</div>
+						) : (
+							<>
+								<div className="space-y-2">
+									<Label htmlFor="memory-bundle-file">Bundle file</Label>
+									<Input
+										id="memory-bundle-file"
+										type="file"
+										accept=".jsonl,.json,.md,.markdown"
+										onChange={(event) => setFile(event.target.files?.[0] ?? null)}
+										disabled={busy}
+									/>
+								</div>
+								<div className="grid grid-cols-2 gap-3">
+									<div className="space-y-2">
+										<Label htmlFor="memory-bundle-into">Memories go to</Label>
+										<Select value={into} onValueChange={setInto} disabled={busy}>
+											<SelectTrigger id="memory-bundle-into">
+												<SelectValue />
+											</SelectTrigger>
+											<SelectContent>
+												<SelectItem value="keep">Their bundle layer</SelectItem>
+												<SelectItem value="project">Project</SelectItem>
+												<SelectItem value="global">Global</SelectItem>
+											</SelectContent>
+										</Select>
+									</div>
+									<div className="space-y-2">
+										<Label htmlFor="memory-bundle-duplicates">Similar entries</Label>
+										<Select
+											value={onDuplicate}
+											onValueChange={(value) => setOnDuplicate(value as MemoryBundleDuplicatePolicy)}
+											disabled={busy}
+										>
+											<SelectTrigger id="memory-bundle-duplicates">
+												<SelectValue />
+											</SelectTrigger>
+											<SelectContent>
+												<SelectItem value="merge">Merge into match</SelectItem>
+												<SelectItem value="skip">Skip</SelectItem>
+												<SelectItem value="propose">Import for review</SelectItem>
+											</SelectContent>
+										</Select>
+									</div>
+								</div>
+							</>
+						)}
+
+						<div className="grid grid-cols-2 gap-3">
+							<div className="space-y-2">
+								<Label htmlFor="memory-bundle-kind">Entries</Label>
+								<Select value={filter.kind} onValueChange={(kind) => updateFilter({ kind })} disabled={busy}>
+									<SelectTrigger id="memory-bundle-kind">
+										<SelectValue />
+									</SelectTrigger>
+									<SelectContent>
+										<SelectItem value={ANY}>Memories and decisions</SelectItem>
+										<SelectItem value="memory">Memories</SelectItem>
+										<SelectItem value="decision">Decisions</SelectItem>
+									</SelectContent>
+								</Select>
+							</div>
+							<div className="space-y-2">
+								<Label htmlFor="memory-bundle-status">Status</Label>
+								<Select value={filter.status} onValueChange={(status) => updateFilter({ status })} disabled={busy}>
+									<SelectTrigger id="memory-bundle-status">
+										<SelectValue />
+									</SelectTrigger>
+									<SelectContent>
+										<SelectItem value={ANY}>Any status</SelectItem>
+										{statuses.map((status) => (
+											<SelectItem key={status} value={status}>
+												{status}
+											</SelectItem>
+										))}
+									</SelectContent>
+								</Select>
+							</div>
+							<div className="space-y-2">
+								<Label htmlFor="memory-bundle-layer">Layer</Label>
+								<Select value={filter.layer} onValueChange={(layer) => updateFilter({ layer })} disabled={busy}>
+									<SelectTrigger id="memory-bundle-layer">
+										<SelectValue />
+									</SelectTrigger>
+									<SelectContent>
+										<SelectItem value={ANY}>Any layer</SelectItem>
+										<SelectItem value="project">Project</SelectItem>
+										<SelectItem value="global">Global</SelectItem>
+									</SelectContent>
+								</Select>
+							</div>
+							<div className="space-y-2">
+								<Label htmlFor="memory-bundle-category">Category</Label>
+								<Input
+									id="memory-bundle-category"
+									value={filter.category}
+									onChange={(event) => updateFilter({ category: event.target.value })}
+									placeholder="Any category"
+									disabled={busy}
+								/>
+							</div>
+						</div>
+						<div className="space-y-2">
+							<Label htmlFor="memory-bundle-tags">Tags</Label>
+							<Input
+								id="memory-bundle-tags"
+								value={filter.tags}
+								onChange={(event) => updateFilter({ tags: event.target.value })}
+								placeholder="Comma-separated; entries need every tag"
+								disabled={busy}
+							/>
+						</div>
+					</div>
+				)}
+
+				<DialogFooter>
+					{report ? (
+						<Button onClick={() => onOpenChange(false)}>Done</Button>
+					) : (
+						<>
+							<Button variant="outline" onClick={() => onOpenChange(false)} disabled={busy}>
+								Cancel
+							</Button>
+							{isExport ? (
+								<Button onClick={() => void handleExport()} disabled={busy}>
+									{busy ? "Exporting…" : "Export"}
+								</Button>
+							) : (
+								<Button onClick={() => void handleImport()} disabled={busy || !file}>
+									{busy ? "Importing…" : "Import"}
+								</Button>
+							)}
+						</>
+					)}
+				</DialogFooter>
+			</DialogContent>
+		</Dialog>
+	);
+}
+
+const outcomeStyles: Record<string, string> = {
+	created: "text-emerald-700 dark:text-emerald-300",
+	merged: "text-sky-700 dark:text-sky-300",
+	updated: "text-sky-700 dark:text-sky-300",
+	skipped: "text-muted-foreground",
+	failed: "text-destructive",
+};
+
+function ImportReportView({ report }: { report: MemoryBundleImportReport }) {
+	const counts: Array<[string, number]> = [
+		["Created", report.created],
+		["Merged", report.merged],
+		["Updated", report.updated],
+		["Skipped", report.skipped],
+		["Failed", report.failed],
+	];
+	return (
+		<div className="space-y-3" data-testid="memory-import-report">
+			<div className="grid grid-cols-5 gap-2">
+				{counts.map(([label, count]) => (
+					<div key={label} className="rounded-md border border-border/60 px-2 py-2 text-center">
+						<div className="text-lg font-semibold tabular-nums">{count}</div>
+						<div className="text-xs text-muted-foreground">{label}</div>
+					</div>
+				))}
+			</div>
+			{report.items.length > 0 && (
+				<div className="max-h-64 space-y-1 overflow-y-auto rounded-md border border-border/60 p-2">
+					{report.items.map((item, index) => (
+						<div key={`${item.kind}-${item.id || item.title}-${index}`} className="flex items-baseline gap-2 text-sm">
+							<span className={cn("w-16 shrink-0 text-xs font-medium uppercase", outcomeStyles[item.outcome])}>{item.outcome}</span>
+							<span className="min-w-0 flex-1 truncate" title={item.reason}>
+								{item.title || item.id}
+								{item.reason && <span className="text-muted-foreground"> · {item.reason}</span>}
+							</span>
+							<span className="shrink-0 text-xs text-muted-foreground">{item.kind}</span>
+						</div>
+					))}
+				</div>
+			)}
+		</div>
+	);
+}
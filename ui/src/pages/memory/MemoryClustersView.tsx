@@ -0,0 +1,185 @@
+import { useState } from "react";
+import { GitMerge, Loader2, Search } from "lucide-react";
+import { memoryApi, type MemoryCluster } from "../../api/client";
+import { Button } from "../../components/ui/button";
+import { Textarea } from "../../components/ui/textarea";
+import { cn } from "../../lib/utils";
+
+interface MemoryClustersViewProps {
+	onOpen: (id: string) => void;
+	/** Merges every other member into the survivor; content replaces the survivor's text. */
+	onMerge: (survivorId: string, memberIds: string[], content: string) => Promise<boolean>;
+}
+
+const thresholds = [0.8, 0.85, 0.9, 0.95];
+
+export function MemoryClustersView({ onOpen, onMerge }: MemoryClustersViewProps) {
+	const [threshold, setThreshold] = useState(0.85);
+	const [clusters, setClusters] = useState<MemoryCluster[] | null>(null);
+	const [searching, setSearching] = useState(false);
+	const [error, setError] = useState("");
+
+	const findClusters = async () => {
+		setSearching(true);
+		try {
+			const data = await memoryApi.findClusters(threshold);
+			setClusters(data.clusters);
+			setError("");
+		} catch (err) {
+			setError(err instanceof Error ? err.message : "Failed to find memory clusters");
+		} finally {
+			setSearching(false);
+		}
+	};
+
+	const merge = async (cluster: MemoryCluster, survivorId: string, content: string) => {
+		const memberIds = cluster.members.map((member) => member.id);
+		if (await onMerge(survivorId, memberIds, content)) {
+			setClusters((current) => current?.filter((item) => item !== cluster) ?? null);
+		}
+	};
+
+	return (
+		<div className="space-y-4" data-testid="memory-clusters-view">
+			<section className="flex min-h-12 flex-wrap items-center justify-between gap-3 rounded-lg border border-border/60 bg-muted/20 px-3 py-2">
+				<div>
+					<h2 className="text-sm font-semibold">Duplicate clusters</h2>
+					<p className="text-xs text-muted-foreground">
+						Groups project and global memories by embedding similarity using the semantic search model.
+					</p>
+				</div>
+				<div className="flex flex-wrap items-center gap-2">
+					<label className="flex items-center gap-2 text-xs text-muted-foreground">
+						Similarity
+						<select
+							value={threshold}
+							onChange={(event) => setThreshold(Number(event.target.value))}
+							className="h-8 rounded-md border border-input bg-background px-2 text-sm text-foreground"
+						>
+							{thresholds.map((value) => (
+								<option key={value} value={value}>
+									≥ {Math.round(value * 100)}%
+								</option>
+							))}
+						</select>
+					</label>
+					<Button size="sm" onClick={() => void findClusters()} disabled={searching}>
+						{searching ? <Loader2 className="mr-1 h-4 w-4 animate-spin" /> : <Search className="mr-1 h-4 w-4" />}
+						{searching ? "Finding..." : "Find clusters"}
+					</Button>
+				</div>
+			</section>
+
+			{error && (
+				<div className="rounded-lg border border-destructive/30 bg-destructive/10 px-3 py-2 text-sm text-destructive">{error}</div>
+			)}
+
+			{clusters === null ? (
+				<div className="flex min-h-32 flex-col justify-center rounded-lg border border-dashed border-border/60 px-4 py-8 text-center">
+					<p className="text-sm font-medium">No scan yet</p>
+					<p className="mt-1 text-sm text-muted-foreground">Find clusters to look for memories that have drifted into near-duplicates.</p>
+				</div>
+			) : clusters.length === 0 ? (
+				<div className="flex min-h-32 flex-col justify-center rounded-lg border border-dashed border-border/60 px-4 py-8 text-center">
+					<p className="text-sm font-medium">No duplicates found</p>
+					<p className="mt-1 text-sm text-muted-foreground">Lower the similarity to catch looser matches.</p>
+				</div>
+			) : (
+				clusters.map((cluster) => (
+					<ClusterCard key={cluster.members.map((member) => member.id).join(",")} cluster={cluster} onOpen={onOpen} onMerge={merge} />
+				))
+			)}
+		</div>
+	);
+}
+
+function ClusterCard({
+	cluster,
+	onOpen,
+	onMerge,
+}: {
+	cluster: MemoryCluster;
+	onOpen: (id: string) => void;
+	onMerge: (cluster: MemoryCluster, survivorId: string, content: string) => Promise<void>;
+}) {
+	const [survivorId, setSurvivorId] = useState(cluster.survivorId);
+	const [content, setContent] = useState(cluster.suggestedText);
+	const [merging, setMerging] = useState(false);
+
+	const merge = async () => {
+		setMerging(true);
+		try {
+			await onMerge(cluster, survivorId, content);
+		} finally {
+			setMerging(false);
+		}
+	};
+
+	return (
+		<section className="space-y-3 rounded-lg border border-border/60 bg-card p-4">
+			<div className="flex flex-wrap items-center justify-between gap-2">
+				<h3 className="text-sm font-semibold">{cluster.members.length} similar memories</h3>
+				<span className="rounded-md bg-muted px-2 py-0.5 text-xs text-muted-foreground">
+					up to {Math.round(cluster.score * 100)}% similar
+				</span>
+			</div>
+
+			<div className="space-y-2" role="radiogroup" aria-label="Survivor">
+				{cluster.members.map((member) => (
+					<div
+						key={member.id}
+						className={cn(
+							"grid grid-cols-[24px_minmax(0,1fr)] gap-2 rounded-md border px-3 py-2",
+							member.id === survivorId ? "border-primary/50 bg-primary/5" : "border-border/60",
+						)}
+					>
+						<input
+							type="radio"
+							name={`survivor-${cluster.survivorId}`}
+							checked={member.id === survivorId}
+							onChange={() => setSurvivorId(member.id)}
+							aria-label={`Keep ${member.title || member.id}`}
+							className="mt-1"
+						/>
+						<div className="min-w-0">
+							<div className="flex flex-wrap items-center gap-2">
+								<button type="button" onClick={() => onOpen(member.id)} className="truncate text-left text-sm font-medium hover:underline">
+									{member.title || member.id}
+								</button>
+								{member.id === survivorId && (
+									<span className="rounded-md bg-primary/10 px-2 py-0.5 text-xs font-medium text-primary">Survivor</span>
+								)}
+								{member.id !== cluster.survivorId && (
+									<span className="rounded-md bg-muted px-2 py-0.5 text-xs text-muted-foreground">{Math.round(member.score * 100)}%</span>
+								)}
+								<span className="text-xs text-muted-foreground">
+									{member.layer} · {member.status}
+								</span>
+							</div>
+							<p className="mt-1 line-clamp-2 text-sm text-muted-foreground">{member.snippet || "No content."}</p>
+						</div>
+					</div>
+				))}
+			</div>
+
+			<div className="space-y-1">
+				<label className="text-xs font-semibold uppercase text-muted-foreground" htmlFor={`merged-${cluster.survivorId}`}>
+					Merged text
+				</label>
+				<Textarea
+					id={`merged-${cluster.survivorId}`}
+					value={content}
+					onChange={(event) => setContent(event.target.value)}
+					className="min-h-[120px] font-mono text-xs"
+				/>
+			</div>
+
+			<div className="flex justify-end">
+				<Button size="sm" onClick={() => void merge()} disabled={merging}>
+					<GitMerge className="mr-1 h-4 w-4" />
+					{merging ? "Merging..." : `Merge ${cluster.members.length - 1} into survivor`}
+				</Button>
+			</div>
+		</section>
+	);
+}
@@ -0,0 +1,379 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { AlertTriangle, FileClock, GitMerge, History, RefreshCw, RotateCcw } from "lucide-react";
+import {
+	memoryApi,
+	type MemoryChange,
+	type MemoryRevisionDiff,
+	type MemoryVersion,
+	type MemoryVersionHistory,
+} from "../../api/client";
+import { Button } from "../../components/ui/button";
+import { DiffViewer } from "../../components/ui/DiffViewer";
+import { ScrollArea } from "../../components/ui/ScrollArea";
+import { Sheet, SheetContent, SheetDescription, SheetTitle } from "../../components/ui/sheet";
+import { toast } from "../../components/ui/sonner";
+import { cn } from "../../lib/utils";
+import { formatDate } from "../docs/DocRevisionCompare";
+
+interface MemoryHistorySheetProps {
+	open: boolean;
+	onOpenChange: (open: boolean) => void;
+	memoryId: string;
+	memoryTitle: string;
+	onRestored: () => void;
+	/** Opens a memory named by a revision, e.g. the target of a merge. */
+	onOpenMemory?: (id: string) => void;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+	title: "Title",
+	layer: "Layer",
+	category: "Category",
+	content: "Content",
+	status: "Status",
+	confidence: "Confidence",
+	lastVerified: "Last verified",
+	ttlDays: "TTL (days)",
+	sources: "Sources",
+	mergedInto: "Merged into",
+	rejectedReason: "Rejected reason",
+	tags: "Tags",
+	metadata: "Metadata",
+};
+
+function valueToString(value: unknown): string {
+	if (value === null || value === undefined) return "";
+	if (typeof value === "string") return value;
+	if (Array.isArray(value)) return value.join("\n");
+	if (typeof value === "object") return JSON.stringify(value, null, 2);
+	return String(value);
+}
+
+function fieldLabel(field: string): string {
+	return FIELD_LABELS[field] || field;
+}
+
+function formatActor(version: MemoryVersion): string {
+	const actor = version.actor || "Unknown";
+	if (version.source && version.source !== actor) return `${actor} via ${version.source}`;
+	return actor;
+}
+
+function changeSummary(version: MemoryVersion): string {
+	if (version.restoredFrom) return `Restored ${version.restoredFrom}`;
+	if (version.source === "baseline") return "State before history";
+	if (version.checkpoint) return "Created";
+	if (version.resolution) return version.resolution.replaceAll("_", " ");
+	const [only] = version.changes;
+	if (only && version.changes.length === 1) return fieldLabel(only.field);
+	return `${version.changes.length} fields`;
+}
+
+export function MemoryHistorySheet({
+	open,
+	onOpenChange,
+	memoryId,
+	memoryTitle,
+	onRestored,
+	onOpenMemory,
+}: MemoryHistorySheetProps) {
+	const [history, setHistory] = useState<MemoryVersionHistory | null>(null);
+	const [selectedRevision, setSelectedRevision] = useState<string | null>(null);
+	const [diff, setDiff] = useState<MemoryRevisionDiff | null>(null);
+	const [loadingHistory, setLoadingHistory] = useState(false);
+	const [loadingDiff, setLoadingDiff] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+	const [restoring, setRestoring] = useState(false);
+
+	const versions = useMemo(
+		() => [...(history?.versions || [])].sort((a, b) => b.version - a.version),
+		[history?.versions],
+	);
+	const selectedVersion = useMemo(
+		() => versions.find((version) => version.id === selectedRevision) || null,
+		[versions, selectedRevision],
+	);
+	const isLatest = !!selectedVersion && selectedVersion.id === versions[0]?.id;
+
+	const loadHistory = useCallback(async () => {
+		if (!memoryId) return;
+		setLoadingHistory(true);
+		setError(null);
+		try {
+			const nextHistory = await memoryApi.history(memoryId);
+			setHistory(nextHistory);
+			setSelectedRevision((current) => {
+				if (current && nextHistory.versions.some((version) => version.id === current)) return current;
+				return nextHistory.versions[nextHistory.versions.length - 1]?.id || null;
+			});
+		} catch (err) {
+			setError(err instanceof Error ? err.message : "Failed to load memory history");
+			setHistory(null);
+			setSelectedRevision(null);
+		} finally {
+			setLoadingHistory(false);
+		}
+	}, [memoryId]);
+
+	useEffect(() => {
+		if (!open) return;
+		void loadHistory();
+	}, [open, loadHistory]);
+
+	useEffect(() => {
+		if (!open || !memoryId || !selectedRevision) {
+			setDiff(null);
+			return;
+		}
+		let cancelled = false;
+		setLoadingDiff(true);
+		setError(null);
+		memoryApi
+			.revisionDiff(memoryId, selectedRevision)
+			.then((nextDiff) => {
+				if (!cancelled) setDiff(nextDiff);
+			})
+			.catch((err) => {
+				if (!cancelled) {
+					setDiff(null);
+					setError(err instanceof Error ? err.message : "Failed to load revision diff");
+				}
+			})
+			.finally(() => {
+				if (!cancelled) setLoadingDiff(false);
+			});
+		return () => {
+			cancelled = true;
+		};
+	}, [memoryId, open, selectedRevision]);
+
+	const handleRestore = async () => {
+		if (!selectedRevision) return;
+		setRestoring(true);
+		try {
+			const result = await memoryApi.restore(memoryId, selectedRevision);
+			setHistory(result.history);
+			setSelectedRevision(result.history.versions[result.history.versions.length - 1]?.id || selectedRevision);
+			onRestored();
+			toast.success(`Memory restored to ${selectedRevision}`);
+		} catch (err) {
+			toast.error(err instanceof Error ? err.message : "Failed to restore revision");
+		} finally {
+			setRestoring(false);
+		}
+	};
+
+	return (
+		<Sheet open={open} onOpenChange={onOpenChange}>
+			<SheetContent side="right" className="flex w-[96vw] max-w-none flex-col gap-0 p-0 sm:max-w-4xl">
+				<div className="border-b border-border/60 px-5 py-4">
+					<div className="flex items-start justify-between gap-4 pr-8">
+						<div className="min-w-0">
+							<SheetTitle className="flex items-center gap-2 text-base">
+								<History className="h-4 w-4" />
+								Memory history
+							</SheetTitle>
+							<SheetDescription className="mt-1 truncate text-xs">
+								{memoryTitle || "Untitled memory"} <span className="font-mono">({memoryId})</span>
+							</SheetDescription>
+						</div>
+						<Button
+							variant="ghost"
+							size="sm"
+							onClick={() => void loadHistory()}
+							disabled={loadingHistory}
+							className="h-8 px-2"
+							title="Refresh history"
+						>
+							<RefreshCw className={cn("h-3.5 w-3.5", loadingHistory && "animate-spin")} />
+						</Button>
+					</div>
+				</div>
+
+				<div className="min-h-0 flex-1 overflow-hidden">
+					<div className="grid h-full grid-cols-1 lg:grid-cols-[280px_minmax(0,1fr)]">
+						<aside className="min-h-0 border-b border-border/60 bg-muted/15 lg:border-b-0 lg:border-r">
+							<div className="flex items-center justify-between px-4 py-3">
+								<div>
+									<div className="text-sm font-medium">Timeline</div>
+									<div className="text-xs text-muted-foreground">{versions.length} revisions</div>
+								</div>
+								<FileClock className="h-4 w-4 text-muted-foreground" />
+							</div>
+							<ScrollArea className="h-[34vh] lg:h-[calc(100vh-116px)]">
+								<div className="space-y-2 px-3 pb-4">
+									{loadingHistory && !history ? (
+										<div className="rounded-lg border border-dashed border-border px-3 py-8 text-center text-sm text-muted-foreground">
+											Loading history...
+										</div>
+									) : versions.length === 0 ? (
+										<div className="rounded-lg border border-dashed border-border px-3 py-8 text-center text-sm text-muted-foreground">
+											No history recorded
+										</div>
+									) : (
+										versions.map((version) => (
+											<button
+												key={version.id}
+												type="button"
+												onClick={() => setSelectedRevision(version.id)}
+												aria-pressed={selectedRevision === version.id}
+												className={cn(
+													"w-full rounded-lg border p-3 text-left transition-colors",
+													selectedRevision === version.id
+														? "border-primary bg-background shadow-sm"
+														: "border-border bg-background/70 hover:bg-background",
+												)}
+											>
+												<div className="flex items-center justify-between gap-2">
+													<span className="font-mono text-xs font-semibold">{version.id}</span>
+													{version.resolution === "merge_existing" && (
+														<GitMerge className="h-3.5 w-3.5 text-muted-foreground" />
+													)}
+												</div>
+												<div className="mt-2 text-sm font-medium capitalize leading-snug">{changeSummary(version)}</div>
+												<div className="mt-1 flex flex-wrap gap-x-2 gap-y-1 text-[11px] text-muted-foreground">
+													<span>{formatDate(version.timestamp)}</span>
+													<span>{formatActor(version)}</span>
+												</div>
+											</button>
+										))
+									)}
+								</div>
+							</ScrollArea>
+						</aside>
+
+						<section className="min-h-0 bg-background">
+							<ScrollArea className="h-full">
+								<div className="space-y-4 p-4 sm:p-5">
+									{error && (
+										<div className="flex items-start gap-2 rounded-lg border border-destructive/30 bg-destructive/5 px-3 py-2 text-sm text-destructive">
+											<AlertTriangle className="mt-0.5 h-4 w-4 shrink-0" />
+											<span>{error}</span>
+										</div>
+									)}
+
+									{selectedVersion ? (
+										<>
+											<div className="rounded-lg border border-border bg-card">
+												<div className="flex flex-wrap items-center justify-between gap-3 border-b border-border px-4 py-3">
+													<div className="min-w-0">
+														<span className="font-mono text-sm font-semibold">{selectedVersion.id}</span>
+														<div className="mt-1 text-sm text-muted-foreground">
+															{formatDate(selectedVersion.timestamp)} - {formatActor(selectedVersion)}
+														</div>
+													</div>
+													<Button
+														variant="secondary"
+														size="sm"
+														onClick={() => void handleRestore()}
+														disabled={isLatest || restoring}
+														className="h-8 px-2.5"
+														title={isLatest ? "This is the current state" : `Restore the memory as of ${selectedVersion.id}`}
+													>
+														<RotateCcw className="mr-1 h-3.5 w-3.5" />
+														{restoring ? "Restoring..." : "Restore"}
+													</Button>
+												</div>
+												<dl className="grid gap-3 px-4 py-3 text-xs sm:grid-cols-2">
+													<RevisionMeta label="Resolution" value={selectedVersion.resolution?.replaceAll("_", " ") || "None"} />
+													<RevisionMeta label="Source" value={selectedVersion.source || "Unknown"} />
+													{selectedVersion.restoredFrom && (
+														<RevisionMeta label="Restored from" value={selectedVersion.restoredFrom} />
+													)}
+													{selectedVersion.related?.length ? (
+														<div>
+															<dt className="text-muted-foreground">Related memories</dt>
+															<dd className="mt-1 flex flex-wrap gap-1">
+																{selectedVersion.related.map((id) =>
+																	onOpenMemory ? (
+																		<button
+																			key={id}
+																			type="button"
+																			onClick={() => onOpenMemory(id)}
+																			className="rounded-md border border-border/60 px-1.5 py-0.5 font-mono hover:bg-accent"
+																		>
+																			{id}
+																		</button>
+																	) : (
+																		<span key={id} className="rounded-md border border-border/60 px-1.5 py-0.5 font-mono">
+																			{id}
+																		</span>
+																	),
+																)}
+															</dd>
+														</div>
+													) : null}
+												</dl>
+											</div>
+
+											<div className="space-y-3">
+												<div className="flex items-center justify-between">
+													<h3 className="text-sm font-semibold">Diff</h3>
+													{diff?.previousRevisionId && (
+														<span className="font-mono text-xs text-muted-foreground">
+															{diff.previousRevisionId}{" -> "}{diff.revisionId}
+														</span>
+													)}
+												</div>
+												{loadingDiff ? (
+													<div className="rounded-lg border border-dashed border-border px-3 py-8 text-center text-sm text-muted-foreground">
+														Loading diff...
+													</div>
+												) : diff?.changes.length ? (
+													<div className="space-y-3">
+														{diff.changes.map((change) => (
+															<MemoryChangeDiff key={change.field} change={change} />
+														))}
+													</div>
+												) : (
+													<div className="rounded-lg border border-dashed border-border px-3 py-8 text-center text-sm text-muted-foreground">
+														No diff available
+													</div>
+												)}
+											</div>
+										</>
+									) : (
+										<div className="rounded-lg border border-dashed border-border px-3 py-12 text-center">
+											<div className="mx-auto mb-3 flex h-10 w-10 items-center justify-center rounded-full bg-muted">
+												<History className="h-5 w-5 text-muted-foreground" />
+											</div>
+											<div className="text-sm font-medium">{memoryTitle || "Untitled memory"}</div>
+											<div className="mt-1 text-sm text-muted-foreground">No revision is selected.</div>
+										</div>
+									)}
+								</div>
+							</ScrollArea>
+						</section>
+					</div>
+				</div>
+			</SheetContent>
+		</Sheet>
+	);
+}
+
+function RevisionMeta({ label, value }: { label: string; value: string }) {
+	return (
+		<div>
+			<dt className="text-muted-foreground">{label}</dt>
+			<dd className="mt-1 font-medium capitalize">{value}</dd>
+		</div>
+	);
+}
+
+function MemoryChangeDiff({ change }: { change: MemoryChange }) {
+	return (
+		<div className="overflow-hidden rounded-lg border border-border bg-card">
+			<div className="flex items-center justify-between gap-3 border-b border-border bg-muted/40 px-3 py-2">
+				<div className="truncate text-sm font-medium">{fieldLabel(change.field)}</div>
+				<span className="shrink-0 rounded bg-background px-2 py-0.5 text-[10px] uppercase text-muted-foreground">
+					{change.field}
+				</span>
+			</div>
+			<DiffViewer
+				oldValue={valueToString(change.oldValue)}
+				newValue={valueToString(change.newValue)}
+				className="rounded-none border-0"
+			/>
+		</div>
+	);
+}
@@ -0,0 +1,245 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { CheckCircle2, Clock3, Loader2 } from "lucide-react";
+import { memoryApi, type MemoryExpiryItem, type MemoryTTLForecast } from "../../api/client";
+import { Button } from "../../components/ui/button";
+import { useSSEEvent } from "../../contexts/SSEContext";
+import { cn } from "../../lib/utils";
+
+interface MemoryTTLViewProps {
+	onOpen: (id: string) => void;
+	/** Re-verifies a batch of memories, restarting their TTL. */
+	onVerify: (ids: string[]) => Promise<void>;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEK_MS = 7 * DAY_MS;
+/** Weeks charted individually; anything later shares one bar. */
+const CHART_WEEKS = 8;
+
+interface ExpiryBucket {
+	key: string;
+	label: string;
+	title: string;
+	items: MemoryExpiryItem[];
+}
+
+function bucketItems(items: MemoryExpiryItem[], now: number): ExpiryBucket[] {
+	const buckets: ExpiryBucket[] = [{ key: "overdue", label: "Overdue", title: "Already past their TTL", items: [] }];
+	for (let week = 1; week <= CHART_WEEKS; week++) {
+		buckets.push({
+			key: `w${week}`,
+			label: `${week}w`,
+			title: week === 1 ? "Expiring within a week" : `Expiring in week ${week}`,
+			items: [],
+		});
+	}
+	buckets.push({ key: "later", label: "Later", title: `Expiring after ${CHART_WEEKS} weeks`, items: [] });
+
+	for (const item of items) {
+		const remaining = new Date(item.expiresAt).getTime() - now;
+		if (remaining <= 0) {
+			buckets[0]!.items.push(item);
+			continue;
+		}
+		const week = Math.min(CHART_WEEKS + 1, Math.floor(remaining / WEEK_MS) + 1);
+		buckets[week]!.items.push(item);
+	}
+	return buckets;
+}
+
+function relativeDays(value: string, now: number): string {
+	const days = Math.round((new Date(value).getTime() - now) / DAY_MS);
+	if (days === 0) return "today";
+	if (days > 0) return `in ${days} ${days === 1 ? "day" : "days"}`;
+	return `${-days} ${days === -1 ? "day" : "days"} ago`;
+}
+
+function bucketColor(key: string): string {
+	if (key === "overdue") return "bg-red-500/80";
+	if (key === "w1" || key === "w2") return "bg-amber-500/80";
+	return "bg-emerald-500/70";
+}
+
+export function MemoryTTLView({ onOpen, onVerify }: MemoryTTLViewProps) {
+	const [forecast, setForecast] = useState<MemoryTTLForecast | null>(null);
+	const [loading, setLoading] = useState(true);
+	const [error, setError] = useState("");
+	const [bucketKey, setBucketKey] = useState<string | null>(null);
+	const [checked, setChecked] = useState<Set<string>>(() => new Set());
+	const [verifying, setVerifying] = useState(false);
+
+	const load = useCallback(async () => {
+		try {
+			setForecast(await memoryApi.ttlForecast());
+			setError("");
+		} catch (err) {
+			setError(err instanceof Error ? err.message : "Failed to load TTL forecast");
+		} finally {
+			setLoading(false);
+		}
+	}, []);
+
+	useEffect(() => {
+		void load();
+	}, [load]);
+
+	useSSEEvent("memories:created", () => void load(), [load]);
+	useSSEEvent("memories:updated", () => void load(), [load]);
+	useSSEEvent("memories:deleted", () => void load(), [load]);
+
+	const now = forecast ? new Date(forecast.now).getTime() : Date.now();
+	const buckets = useMemo(() => bucketItems(forecast?.items || [], now), [forecast?.items, now]);
+	const maxCount = Math.max(1, ...buckets.map((bucket) => bucket.items.length));
+	const selectedBucket = buckets.find((bucket) => bucket.key === bucketKey) ?? null;
+	const listed = selectedBucket ? selectedBucket.items : forecast?.items || [];
+
+	useEffect(() => {
+		setChecked(new Set());
+	}, [bucketKey]);
+
+	const toggle = (id: string, on: boolean) => {
+		setChecked((current) => {
+			const next = new Set(current);
+			if (on) next.add(id);
+			else next.delete(id);
+			return next;
+		});
+	};
+
+	const verifyChecked = async () => {
+		if (checked.size === 0) return;
+		setVerifying(true);
+		try {
+			await onVerify(Array.from(checked));
+			setChecked(new Set());
+		} finally {
+			setVerifying(false);
+		}
+	};
+
+	if (loading) {
+		return (
+			<div className="flex min-h-48 items-center justify-center gap-2 text-sm text-muted-foreground">
+				<Loader2 className="h-4 w-4 animate-spin" />
+				Loading TTL forecast...
+			</div>
+		);
+	}
+
+	return (
+		<div className="space-y-4" data-testid="memory-ttl-view">
+			{error && (
+				<div className="rounded-lg border border-destructive/30 bg-destructive/10 px-3 py-2 text-sm text-destructive">{error}</div>
+			)}
+
+			<section className="rounded-lg border border-border/60 bg-card p-4">
+				<div className="flex flex-wrap items-start justify-between gap-3">
+					<div>
+						<h2 className="text-sm font-semibold">Upcoming expirations</h2>
+						<p className="mt-1 text-xs text-muted-foreground">
+							{forecast?.autoExpire
+								? `Expired memories go stale on the next sweep and are archived ${forecast.archiveAfter} later.`
+								: "Auto-expiry is off. Expired memories only show up in the review inbox."}
+						</p>
+					</div>
+					<span className="rounded-md border border-border/60 px-2 py-1 text-xs text-muted-foreground">
+						{forecast?.items.length || 0} with TTL
+					</span>
+				</div>
+
+				<div className="mt-4 flex h-[140px] items-end gap-2" role="list" aria-label="Expirations by week">
+					{buckets.map((bucket) => (
+						<button
+							key={bucket.key}
+							type="button"
+							role="listitem"
+							onClick={() => setBucketKey((current) => (current === bucket.key ? null : bucket.key))}
+							title={`${bucket.title}: ${bucket.items.length}`}
+							aria-pressed={bucketKey === bucket.key}
+							className={cn(
+								"flex h-full flex-1 flex-col items-center justify-end gap-1 rounded-md px-0.5 pb-0.5 transition-colors hover:bg-accent/60",
+								bucketKey === bucket.key && "bg-accent",
+							)}
+						>
+							<span className="text-[10px] tabular-nums text-muted-foreground">{bucket.items.length || ""}</span>
+							<div
+								className={cn("w-full max-w-8 rounded-t transition-all duration-500", bucketColor(bucket.key))}
+								style={{
+									height: `${(bucket.items.length / maxCount) * 100}%`,
+									minHeight: bucket.items.length > 0 ? 4 : 0,
+								}}
+							/>
+							<span className="text-[10px] text-muted-foreground">{bucket.label}</span>
+						</button>
+					))}
+				</div>
+			</section>
+
+			<section className="space-y-2">
+				<div className="flex min-h-12 flex-wrap items-center justify-between gap-3 rounded-lg border border-border/60 bg-muted/20 px-3 py-2">
+					<p className="text-sm text-muted-foreground">
+						{selectedBucket ? selectedBucket.title : "All memories with a TTL"}
+						{checked.size > 0 && ` · ${checked.size} selected`}
+					</p>
+					<div className="flex flex-wrap gap-2">
+						<Button
+							variant="outline"
+							size="sm"
+							onClick={() => setChecked(new Set(listed.map((item) => item.id)))}
+							disabled={listed.length === 0}
+						>
+							Select all
+						</Button>
+						<Button size="sm" onClick={() => void verifyChecked()} disabled={checked.size === 0 || verifying}>
+							<CheckCircle2 className="mr-1 h-4 w-4" />
+							{verifying ? "Verifying..." : "Re-verify selected"}
+						</Button>
+					</div>
+				</div>
+
+				{listed.length === 0 ? (
+					<div className="flex min-h-32 flex-col justify-center rounded-lg border border-dashed border-border/60 px-4 py-8 text-center">
+						<p className="text-sm font-medium">Nothing expiring here</p>
+						<p className="mt-1 text-sm text-muted-foreground">Memories with a TTL and a verification date appear in this forecast.</p>
+					</div>
+				) : (
+					listed.map((item) => (
+						<div
+							key={item.id}
+							className="grid grid-cols-[36px_minmax(0,1fr)] gap-3 rounded-lg border border-border/60 bg-card px-3 py-3"
+						>
+							<label className="flex h-8 w-8 items-center justify-center rounded-md border border-border/60" title="Select memory">
+								<input
+									type="checkbox"
+									checked={checked.has(item.id)}
+									onChange={(event) => toggle(item.id, event.target.checked)}
+									aria-label={`Select ${item.title || item.id}`}
+								/>
+							</label>
+							<button type="button" onClick={() => onOpen(item.id)} className="min-w-0 text-left">
+								<div className="flex flex-wrap items-center gap-2">
+									<span className="truncate text-sm font-medium">{item.title || "Untitled memory"}</span>
+									{item.status === "stale" && (
+										<span className="rounded-md bg-amber-500/15 px-2 py-0.5 text-xs font-medium text-amber-700 dark:text-amber-300">
+											Stale
+										</span>
+									)}
+								</div>
+								<div className="mt-1 flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-muted-foreground">
+									<span className="inline-flex items-center gap-1">
+										<Clock3 className="h-3 w-3" />
+										{new Date(item.expiresAt).getTime() <= now ? "Expired" : "Expires"} {relativeDays(item.expiresAt, now)}
+									</span>
+									{item.status === "stale" && <span>Archives {relativeDays(item.archivesAt, now)}</span>}
+									<span>TTL {item.ttlDays}d</span>
+									<span>{item.layer}</span>
+									<span className="font-mono">{item.id}</span>
+								</div>
+							</button>
+						</div>
+					))
+				)}
+			</section>
+		</div>
+	);
+}
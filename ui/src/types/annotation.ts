@@ -1,6 +1,15 @@
-/** Inline annotation on rendered doc text. */
+/** One message in an annotation's thread. */
+export interface AnnotationReply {
+	id: string;
+	author?: string;
+	content: string;
+	/** ISO timestamp. */
+	createdAt: string;
+}
+
+/** Inline annotation on rendered doc text, stored on the server per doc. */
 export interface Annotation {
-	/** Unique identifier (nanoid-style). */
+	/** Unique identifier, assigned by the server. */
 	id: string;
 	/** Knowns doc path, e.g. "specs/agent-workspace". */
 	docPath: string;
@@ -10,8 +19,8 @@ export interface Annotation {
 	type: "comment" | "replace" | "delete";
 	/** Comment text, replacement text, or delete reason. */
 	content: string;
-	/** Unix timestamp (ms). */
-	createdAt: number;
+	/** Who left the annotation. */
+	author?: string;
 	/** ~30 chars before the selection for re-anchoring. */
 	contextBefore: string;
 	/** ~30 chars after the selection for re-anchoring. */
@@ -24,8 +33,35 @@ export interface Annotation {
 	endLine: number;
 	/** 0-based character offset within endLine. */
 	endChar: number;
+	/** Set by the server when the selected text is no longer in the doc. */
+	orphaned?: boolean;
+	resolved: boolean;
+	resolvedBy?: string;
+	/** ISO timestamp. */
+	resolvedAt?: string;
+	replies: AnnotationReply[];
+	/** ISO timestamp. */
+	createdAt: string;
+	/** ISO timestamp. */
+	updatedAt: string;
 }
 
+/** Fields the client sends when creating an annotation. */
+export type AnnotationInput = Pick<
+	Annotation,
+	| "docPath"
+	| "selectedText"
+	| "type"
+	| "content"
+	| "author"
+	| "contextBefore"
+	| "contextAfter"
+	| "startLine"
+	| "startChar"
+	| "endLine"
+	| "endChar"
+>;
+
 /** Annotation type metadata for display. */
 export const ANNOTATION_TYPE_META: Record<
 	Annotation["type"],
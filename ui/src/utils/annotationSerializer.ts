@@ -27,6 +27,7 @@ export function serializeAnnotations(annotations: Annotation[]): string {
 		"- **Replace**: The selected text should be replaced with the provided replacement text.",
 		"- **Delete**: The selected text should be removed from the document.",
 		"- **Location**: `Lines X–Y` refers to line numbers in the raw markdown source.",
+		"- **Thread**: Replies to the annotation, oldest first. Once addressed, resolve it by ID with the `annotation` MCP tool (`action: resolve`).",
 		"",
 	].join("\n");
 
@@ -38,11 +39,12 @@ export function serializeAnnotations(annotations: Annotation[]): string {
 		for (let i = 0; i < items.length; i++) {
 			const item = items[i]!;
 			const num = i + 1;
-			const loc = item.startLine > 0
+			let loc = item.startLine > 0
 				? item.startLine === item.endLine
 					? `Line ${item.startLine}`
 					: `Lines ${item.startLine}–${item.endLine}`
 				: "Location unknown";
+			if (item.orphaned) loc = "Text no longer in doc";
 
 			switch (item.type) {
 				case "comment":
@@ -61,6 +63,13 @@ export function serializeAnnotations(annotations: Annotation[]): string {
 					if (item.content) lines.push(`**Reason:** ${item.content}`);
 					break;
 			}
+			lines.push(`**ID:** ${item.id}${item.author ? ` · **By:** ${item.author}` : ""}`);
+			if (item.replies.length > 0) {
+				lines.push("**Thread:**");
+				for (const reply of item.replies) {
+					lines.push(`- ${reply.author || "unknown"}: ${reply.content}`);
+				}
+			}
 			lines.push("");
 		}
 